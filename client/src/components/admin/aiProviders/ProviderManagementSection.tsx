@@ -37,6 +37,7 @@ import {
 	CardContent,
 	CardHeader,
 	CardTitle,
+	QuestionPoolSection,
 	SectionCard,
 	Skeleton,
 	StatCard,
@@ -280,6 +281,8 @@ export function ProviderManagementSection() {
 					</div>
 				)}
 			</SectionCard>
+
+			<QuestionPoolSection />
 		</div>
 	);
 }
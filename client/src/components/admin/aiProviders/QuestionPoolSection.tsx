@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Database, Layers, Loader2, Play, PlusCircle, Save, Send, XCircle } from 'lucide-react';
+
+import { OUTPUT_LANGUAGE_LABELS, TIME_PERIODS_MS, VALIDATION_COUNT } from '@shared/constants';
+import type { QuestionPoolSettings } from '@shared/types';
+import { formatDateTime } from '@shared/utils';
+
+import {
+	AdminKey,
+	ButtonSize,
+	CommonKey,
+	QUERY_KEYS,
+	QUESTION_POOL_OUTCOME_KEYS,
+	QUESTION_POOL_SOURCE_KEYS,
+	SEMANTIC_ICON_TEXT,
+	SkeletonVariant,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import { cn, getDifficultyBadgeClasses, getDifficultyDisplayLabel } from '@/utils';
+import {
+	Badge,
+	Button,
+	Label,
+	NumberInput,
+	SectionCard,
+	Skeleton,
+	StatCard,
+	Switch,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components';
+
+export function QuestionPoolSection() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const [localSettings, setLocalSettings] = useState<QuestionPoolSettings | null>(null);
+	const [hasChanges, setHasChanges] = useState(false);
+
+	const { data: poolStatus, isLoading: poolStatusLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.questionPool(),
+		queryFn: () => adminService.getQuestionPoolStatus(),
+		staleTime: TIME_PERIODS_MS.MINUTE,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const updateSettings = useMutation({
+		mutationFn: (payload: QuestionPoolSettings) => adminService.updateQuestionPoolSettings(payload),
+		onSuccess: () => {
+			setHasChanges(false);
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.questionPool() });
+		},
+	});
+
+	const runWarmer = useMutation({
+		mutationFn: () => adminService.runQuestionPoolWarmer(),
+		onSuccess: () => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.questionPool() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.aiProviderStats() });
+		},
+	});
+
+	useEffect(() => {
+		if (poolStatus?.settings) {
+			setLocalSettings(poolStatus.settings);
+			setHasChanges(false);
+		}
+	}, [poolStatus?.settings]);
+
+	const handleSettingChange = useCallback(
+		<K extends keyof QuestionPoolSettings>(key: K, value: QuestionPoolSettings[K]) => {
+			setLocalSettings(prev => (prev ? { ...prev, [key]: value } : prev));
+			setHasChanges(true);
+		},
+		[]
+	);
+
+	const handleSave = useCallback(() => {
+		if (localSettings) {
+			updateSettings.mutate(localSettings);
+		}
+	}, [localSettings, updateSettings]);
+
+	const combinations = useMemo(
+		() => [...(poolStatus?.combinations ?? [])].sort((a, b) => b.deficit - a.deficit),
+		[poolStatus?.combinations]
+	);
+	const belowMinimumCount = useMemo(
+		() => combinations.filter(combination => combination.deficit > 0).length,
+		[combinations]
+	);
+
+	if (poolStatusLoading || !localSettings) {
+		return (
+			<SectionCard title={t(AdminKey.QUESTION_POOL_TITLE)} icon={Database}>
+				<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+			</SectionCard>
+		);
+	}
+
+	const { MIN_READY, POPULAR_TOPICS, GENERATION_CALLS_PER_RUN } = VALIDATION_COUNT.QUESTION_POOL;
+	const isBusy = updateSettings.isPending || runWarmer.isPending;
+	const lastRun = runWarmer.data ?? poolStatus?.lastRun ?? null;
+
+	return (
+		<SectionCard title={t(AdminKey.QUESTION_POOL_TITLE)} icon={Database} description={t(AdminKey.QUESTION_POOL_DESC)}>
+			<div className='space-y-6'>
+				<div className='flex flex-wrap items-center justify-between gap-3'>
+					<div className='flex items-center gap-3'>
+						<Switch
+							id='question-pool-enabled'
+							checked={localSettings.enabled}
+							onCheckedChange={next => handleSettingChange('enabled', next)}
+							disabled={isBusy}
+						/>
+						<Label htmlFor='question-pool-enabled' className='cursor-pointer text-sm font-semibold'>
+							{t(AdminKey.QUESTION_POOL_SCHEDULED_WARMUP)}
+						</Label>
+						{poolStatus?.isDefault ? (
+							<Badge variant={VariantBase.SECONDARY}>{t(AdminKey.DEFAULT_BADGE)}</Badge>
+						) : (
+							<Badge variant={VariantBase.OUTLINE}>{t(AdminKey.CUSTOM_BADGE)}</Badge>
+						)}
+					</div>
+					<div className='flex flex-wrap gap-2'>
+						<Button
+							size={ButtonSize.SM}
+							variant={VariantBase.OUTLINE}
+							onClick={() => runWarmer.mutate()}
+							disabled={isBusy}
+						>
+							{!runWarmer.isPending ? <Play className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+							{t(AdminKey.QUESTION_POOL_RUN_NOW)}
+						</Button>
+						<Button size={ButtonSize.SM} onClick={handleSave} disabled={!hasChanges || isBusy}>
+							{!updateSettings.isPending ? <Save className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+							{t(CommonKey.SAVE)}
+						</Button>
+					</div>
+				</div>
+
+				<div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+					<NumberInput
+						label={t(AdminKey.QUESTION_POOL_MIN_READY)}
+						value={localSettings.minReadyPerCombination}
+						onChange={v => handleSettingChange('minReadyPerCombination', v)}
+						min={MIN_READY.MIN}
+						max={MIN_READY.MAX}
+						step={1}
+						disabled={isBusy}
+					/>
+					<NumberInput
+						label={t(AdminKey.QUESTION_POOL_POPULAR_TOPICS)}
+						value={localSettings.popularTopicLimit}
+						onChange={v => handleSettingChange('popularTopicLimit', v)}
+						min={POPULAR_TOPICS.MIN}
+						max={POPULAR_TOPICS.MAX}
+						step={1}
+						disabled={isBusy}
+					/>
+					<NumberInput
+						label={t(AdminKey.QUESTION_POOL_MAX_CALLS)}
+						value={localSettings.maxGenerationCallsPerRun}
+						onChange={v => handleSettingChange('maxGenerationCallsPerRun', v)}
+						min={GENERATION_CALLS_PER_RUN.MIN}
+						max={GENERATION_CALLS_PER_RUN.MAX}
+						step={1}
+						disabled={isBusy}
+					/>
+				</div>
+				{(updateSettings.isError || runWarmer.isError) && (
+					<p className='text-sm text-destructive'>
+						{(updateSettings.error ?? runWarmer.error) instanceof Error
+							? (updateSettings.error ?? runWarmer.error)?.message
+							: t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				)}
+
+				<div>
+					<div className='mb-3 flex flex-wrap items-center gap-2'>
+						<h4 className='text-sm font-semibold'>{t(AdminKey.QUESTION_POOL_LAST_RUN)}</h4>
+						{lastRun ? (
+							<>
+								<Badge variant={VariantBase.OUTLINE}>{t(QUESTION_POOL_OUTCOME_KEYS[lastRun.outcome])}</Badge>
+								<span className='text-sm text-muted-foreground'>{formatDateTime(lastRun.finishedAt)}</span>
+							</>
+						) : (
+							<span className='text-sm text-muted-foreground'>{t(AdminKey.QUESTION_POOL_NO_RUNS)}</span>
+						)}
+					</div>
+					<div className='grid grid-cols-2 lg:grid-cols-4 gap-4'>
+						<StatCard
+							stackIconLabel
+							icon={Layers}
+							label={t(AdminKey.QUESTION_POOL_COMBINATIONS)}
+							value={combinations.length}
+							color={SEMANTIC_ICON_TEXT.primary}
+						/>
+						<StatCard
+							stackIconLabel
+							icon={AlertTriangle}
+							label={t(AdminKey.QUESTION_POOL_BELOW_MINIMUM)}
+							value={belowMinimumCount}
+							color={SEMANTIC_ICON_TEXT.warning}
+						/>
+						<StatCard
+							stackIconLabel
+							icon={Send}
+							label={t(AdminKey.QUESTION_POOL_GENERATION_CALLS)}
+							value={lastRun?.generationCalls ?? 0}
+							color={SEMANTIC_ICON_TEXT.secondary}
+						/>
+						<StatCard
+							stackIconLabel
+							icon={PlusCircle}
+							label={t(AdminKey.QUESTION_POOL_QUESTIONS_ADDED)}
+							value={lastRun?.questionsAdded ?? 0}
+							color={SEMANTIC_ICON_TEXT.success}
+						/>
+						{lastRun != null && lastRun.failedCalls > 0 && (
+							<StatCard
+								stackIconLabel
+								icon={XCircle}
+								label={t(AdminKey.QUESTION_POOL_FAILED_CALLS)}
+								value={lastRun.failedCalls}
+								color={SEMANTIC_ICON_TEXT.destructive}
+							/>
+						)}
+					</div>
+				</div>
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>{t(AdminKey.QUESTION_POOL_TOPIC)}</TableHead>
+							<TableHead>{t(AdminKey.QUESTION_POOL_DIFFICULTY)}</TableHead>
+							<TableHead>{t(AdminKey.QUESTION_POOL_LANGUAGE)}</TableHead>
+							<TableHead>{t(AdminKey.QUESTION_POOL_SOURCE)}</TableHead>
+							<TableHead className='text-end'>{t(AdminKey.QUESTION_POOL_READY)}</TableHead>
+							<TableHead className='text-end'>{t(AdminKey.QUESTION_POOL_MISSING)}</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{combinations.map(combination => (
+							<TableRow key={`${combination.locale}:${combination.topic}:${combination.difficulty}`}>
+								<TableCell className='font-medium'>{combination.topic}</TableCell>
+								<TableCell>
+									<Badge
+										variant={VariantBase.OUTLINE}
+										className={cn('shrink-0', getDifficultyBadgeClasses(combination.difficulty))}
+									>
+										{getDifficultyDisplayLabel(combination.difficulty, t)}
+									</Badge>
+								</TableCell>
+								<TableCell>{OUTPUT_LANGUAGE_LABELS[combination.locale]}</TableCell>
+								<TableCell>{t(QUESTION_POOL_SOURCE_KEYS[combination.source])}</TableCell>
+								<TableCell className='text-end'>{combination.readyCount}</TableCell>
+								<TableCell
+									className={cn('text-end', combination.deficit > 0 ? 'text-destructive' : 'text-muted-foreground')}
+								>
+									{combination.deficit}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</div>
+		</SectionCard>
+	);
+}
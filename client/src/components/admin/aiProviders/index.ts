@@ -1 +1,2 @@
 export * from './ProviderManagementSection';
+export * from './QuestionPoolSection';
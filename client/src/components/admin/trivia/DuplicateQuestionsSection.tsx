@@ -0,0 +1,153 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, CopyX, Loader2 } from 'lucide-react';
+
+import { TIME_PERIODS_MS } from '@shared/constants';
+import type { MergeTriviaDuplicatesRequest } from '@shared/types';
+import { calculatePercentage, formatDate, formatTitle } from '@shared/utils';
+
+import { AdminKey, ButtonSize, CommonKey, QUERY_KEYS, SkeletonVariant, VariantBase } from '@/constants';
+import { adminService } from '@/services';
+import { cn, getDifficultyBadgeClasses, getDifficultyDisplayLabel } from '@/utils';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	Badge,
+	Button,
+	SectionCard,
+	Skeleton,
+	Table,
+	TableBody,
+	TableCell,
+	TableRow,
+} from '@/components';
+
+export function DuplicateQuestionsSection() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const [pendingMerge, setPendingMerge] = useState<MergeTriviaDuplicatesRequest | null>(null);
+
+	const { data: duplicates, isLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.triviaDuplicates(),
+		queryFn: () => adminService.getTriviaDuplicates(),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const mergeDuplicates = useMutation({
+		mutationFn: (payload: MergeTriviaDuplicatesRequest) => adminService.mergeTriviaDuplicates(payload),
+		onSuccess: () => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaDuplicates() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		},
+	});
+
+	const confirmMerge = useCallback(() => {
+		if (pendingMerge) {
+			mergeDuplicates.mutate(pendingMerge);
+		}
+		setPendingMerge(null);
+	}, [mergeDuplicates, pendingMerge]);
+
+	const threshold = calculatePercentage(duplicates?.threshold ?? 0, 1);
+	const clusters = duplicates?.clusters ?? [];
+
+	return (
+		<SectionCard
+			title={t(AdminKey.TRIVIA_DUPLICATES_TITLE)}
+			icon={CopyX}
+			description={t(AdminKey.TRIVIA_DUPLICATES_DESC, { threshold })}
+		>
+			{isLoading ? (
+				<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+			) : clusters.length === 0 ? (
+				<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.TRIVIA_DUPLICATES_NONE)}</p>
+			) : (
+				<div className='space-y-6'>
+					{mergeDuplicates.isError && (
+						<p className='text-sm text-destructive'>
+							{mergeDuplicates.error instanceof Error ? mergeDuplicates.error.message : t(AdminKey.FAILED_TO_SAVE)}
+						</p>
+					)}
+					{clusters.map(cluster => (
+						<div key={cluster.questions[0]?.id} className='rounded-md border p-4'>
+							<div className='mb-3 flex flex-wrap items-center gap-2'>
+								<h4 className='text-sm font-semibold'>{formatTitle(cluster.topic)}</h4>
+								<Badge variant={VariantBase.OUTLINE}>
+									{t(AdminKey.TRIVIA_DUPLICATES_QUESTION_COUNT, { count: cluster.questions.length })}
+								</Badge>
+								<Badge variant={VariantBase.SECONDARY}>
+									{t(AdminKey.TRIVIA_DUPLICATES_SIMILARITY, {
+										similarity: calculatePercentage(cluster.maxSimilarity, 1),
+									})}
+								</Badge>
+							</div>
+							<Table>
+								<TableBody>
+									{cluster.questions.map(question => (
+										<TableRow key={question.id}>
+											<TableCell className='font-medium'>{question.question}</TableCell>
+											<TableCell>
+												<Badge
+													variant={VariantBase.OUTLINE}
+													className={cn('shrink-0', getDifficultyBadgeClasses(question.difficulty))}
+												>
+													{getDifficultyDisplayLabel(question.difficulty, t)}
+												</Badge>
+											</TableCell>
+											<TableCell className='text-muted-foreground'>{formatDate(question.createdAt)}</TableCell>
+											<TableCell className='text-end'>
+												<Button
+													size={ButtonSize.SM}
+													variant={VariantBase.OUTLINE}
+													disabled={mergeDuplicates.isPending}
+													onClick={() =>
+														setPendingMerge({
+															keepId: question.id,
+															mergeIds: cluster.questions.filter(q => q.id !== question.id).map(q => q.id),
+														})
+													}
+												>
+													{!mergeDuplicates.isPending ? (
+														<Check className='h-4 w-4' />
+													) : (
+														<Loader2 className='h-4 w-4 animate-spin' />
+													)}
+													{t(AdminKey.TRIVIA_DUPLICATES_KEEP)}
+												</Button>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					))}
+				</div>
+			)}
+
+			<AlertDialog open={pendingMerge != null} onOpenChange={open => !open && setPendingMerge(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t(AdminKey.TRIVIA_DUPLICATES_MERGE_CONFIRM_TITLE)}</AlertDialogTitle>
+						<AlertDialogDescription>
+							{t(AdminKey.TRIVIA_DUPLICATES_MERGE_CONFIRM_DESC, { count: pendingMerge?.mergeIds.length ?? 0 })}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t(CommonKey.CANCEL)}</AlertDialogCancel>
+						<AlertDialogAction type='button' onClick={confirmMerge}>
+							{t(AdminKey.TRIVIA_DUPLICATES_MERGE)}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</SectionCard>
+	);
+}
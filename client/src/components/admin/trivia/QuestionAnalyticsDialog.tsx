@@ -0,0 +1,159 @@
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle2, Eye, Flag, Shuffle, SkipForward, Target, Timer } from 'lucide-react';
+
+import { EMPTY_VALUE, TIME_PERIODS_MS } from '@shared/constants';
+import { calculatePercentage, formatTitle } from '@shared/utils';
+
+import { AdminKey, DialogContentSize, QUERY_KEYS, SEMANTIC_ICON_TEXT, SkeletonVariant, VariantBase } from '@/constants';
+import type { QuestionAnalyticsDialogProps } from '@/types';
+import { analyticsService } from '@/services';
+import { cn, getDifficultyBadgeClasses, getDifficultyDisplayLabel } from '@/utils';
+import {
+	Badge,
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	Progress,
+	Skeleton,
+	StatCard,
+} from '@/components';
+
+export function QuestionAnalyticsDialog({ questionId, onClose }: QuestionAnalyticsDialogProps) {
+	const { t } = useTranslation('admin');
+
+	const {
+		data: analytics,
+		isLoading,
+		error,
+	} = useQuery({
+		queryKey: QUERY_KEYS.analytics.questionAnalyticsDetail(questionId ?? ''),
+		queryFn: () => analyticsService.getQuestionAnalytics(questionId ?? ''),
+		enabled: questionId != null,
+		staleTime: TIME_PERIODS_MS.MINUTE,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const formatRate = (rate: number | null) => (rate != null ? `${calculatePercentage(rate, 1)}%` : EMPTY_VALUE);
+
+	return (
+		<Dialog open={questionId != null} onOpenChange={open => !open && onClose()}>
+			<DialogContent size={DialogContentSize.LG} className='max-h-[85vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>{t(AdminKey.QUESTION_ANALYTICS_TITLE)}</DialogTitle>
+					{analytics && <DialogDescription>{analytics.question}</DialogDescription>}
+				</DialogHeader>
+
+				{isLoading ? (
+					<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+				) : error != null ? (
+					<p className='text-sm text-destructive'>
+						{error instanceof Error ? error.message : t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				) : analytics ? (
+					<div className='space-y-6'>
+						<div className='flex flex-wrap items-center gap-2'>
+							<Badge variant={VariantBase.OUTLINE}>{formatTitle(analytics.topic)}</Badge>
+							<Badge
+								variant={VariantBase.OUTLINE}
+								className={cn('shrink-0', getDifficultyBadgeClasses(analytics.difficulty))}
+							>
+								{getDifficultyDisplayLabel(analytics.difficulty, t)}
+							</Badge>
+						</div>
+
+						<div className='grid grid-cols-2 gap-4 sm:grid-cols-3'>
+							<StatCard
+								stackIconLabel
+								icon={Eye}
+								label={t(AdminKey.QUESTION_ANALYTICS_TIMES_SERVED)}
+								value={analytics.timesServed}
+								color={SEMANTIC_ICON_TEXT.primary}
+							/>
+							<StatCard
+								stackIconLabel
+								icon={Target}
+								label={t(AdminKey.QUESTION_ANALYTICS_CORRECT_RATE)}
+								value={formatRate(analytics.correctRate)}
+								color={SEMANTIC_ICON_TEXT.success}
+							/>
+							<StatCard
+								stackIconLabel
+								icon={SkipForward}
+								label={t(AdminKey.QUESTION_ANALYTICS_SKIP_RATE)}
+								value={formatRate(analytics.skipRate)}
+								color={SEMANTIC_ICON_TEXT.muted}
+							/>
+							<StatCard
+								stackIconLabel
+								icon={Timer}
+								label={t(AdminKey.QUESTION_ANALYTICS_MEDIAN_TIME)}
+								value={
+									analytics.medianTimeSpent != null
+										? t(AdminKey.QUESTION_ANALYTICS_SECONDS, { seconds: analytics.medianTimeSpent.toFixed(1) })
+										: EMPTY_VALUE
+								}
+								color={SEMANTIC_ICON_TEXT.cyan}
+							/>
+							<StatCard
+								stackIconLabel
+								icon={Flag}
+								label={t(AdminKey.QUESTION_ANALYTICS_REPORTS)}
+								value={analytics.reportCount}
+								color={SEMANTIC_ICON_TEXT.destructive}
+							/>
+							<StatCard
+								stackIconLabel
+								icon={Shuffle}
+								label={t(AdminKey.QUESTION_ANALYTICS_TOP_DISTRACTOR)}
+								value={
+									analytics.topDistractor ? `${calculatePercentage(analytics.topDistractor.pickRate, 1)}%` : EMPTY_VALUE
+								}
+								subtext={analytics.topDistractor?.text}
+								color={SEMANTIC_ICON_TEXT.warning}
+							/>
+						</div>
+
+						{analytics.openReportCount > 0 && (
+							<p className='text-sm text-destructive'>
+								{t(AdminKey.QUESTION_ANALYTICS_OPEN_REPORTS, { count: analytics.openReportCount })}
+							</p>
+						)}
+
+						<div className='space-y-3'>
+							<h4 className='text-sm font-semibold'>{t(AdminKey.QUESTION_ANALYTICS_DISTRIBUTION)}</h4>
+							{analytics.timesServed === 0 ? (
+								<p className='text-sm text-muted-foreground'>{t(AdminKey.QUESTION_ANALYTICS_NOT_PLAYED)}</p>
+							) : (
+								analytics.answerDistribution.map(option => (
+									<div key={option.answerIndex} className='space-y-1'>
+										<div className='flex items-center justify-between gap-3 text-sm'>
+											<span className={cn('flex items-center gap-1', option.isCorrect && 'font-semibold')}>
+												{option.isCorrect && (
+													<CheckCircle2
+														className='h-4 w-4 text-primary'
+														aria-label={t(AdminKey.QUESTION_ANALYTICS_CORRECT_ANSWER)}
+													/>
+												)}
+												{option.text}
+											</span>
+											<span className='shrink-0 text-muted-foreground'>
+												{t(AdminKey.QUESTION_ANALYTICS_PICKS, {
+													count: option.pickCount,
+													rate: calculatePercentage(option.pickRate, 1),
+												})}
+											</span>
+										</div>
+										<Progress value={calculatePercentage(option.pickRate, 1)} className='h-2' />
+									</div>
+								))
+							)}
+						</div>
+					</div>
+				) : null}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { BarChart3, ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { EMPTY_VALUE, QuestionAnalyticsSort, TIME_PERIODS_MS, VALIDATION_COUNT } from '@shared/constants';
+import { calculatePercentage, formatTitle } from '@shared/utils';
+import { isQuestionAnalyticsSort } from '@shared/validation';
+
+import {
+	AdminKey,
+	ButtonSize,
+	CommonKey,
+	QUERY_KEYS,
+	QUESTION_ANALYTICS_SORT_LABEL_KEYS,
+	SkeletonVariant,
+	VariantBase,
+} from '@/constants';
+import { analyticsService } from '@/services';
+import { cn, getDifficultyBadgeClasses, getDifficultyDisplayLabel } from '@/utils';
+import {
+	Badge,
+	Button,
+	Label,
+	SectionCard,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Skeleton,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components';
+import { QuestionAnalyticsDialog } from './QuestionAnalyticsDialog';
+
+const PAGE_SIZE = VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.DEFAULT_LIMIT;
+
+export function QuestionAnalyticsSection() {
+	const { t } = useTranslation('admin');
+	const [sort, setSort] = useState<QuestionAnalyticsSort>(QuestionAnalyticsSort.HARDEST);
+	const [offset, setOffset] = useState(0);
+	const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(null);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.analytics.questionAnalytics(sort, offset),
+		queryFn: () => analyticsService.getQuestionAnalyticsList({ sort, limit: PAGE_SIZE, offset }),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const totalCount = data?.totalCount ?? 0;
+	const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+	const currentPage = Math.floor(offset / PAGE_SIZE) + 1;
+
+	return (
+		<SectionCard
+			title={t(AdminKey.QUESTION_ANALYTICS_TITLE)}
+			icon={BarChart3}
+			description={data ? t(AdminKey.QUESTION_ANALYTICS_DESC, { minServed: data.minServedForRanking }) : undefined}
+		>
+			<div className='space-y-4'>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.QUESTION_ANALYTICS_SORT)}</Label>
+					<Select
+						value={sort}
+						onValueChange={value => {
+							if (isQuestionAnalyticsSort(value)) {
+								setSort(value);
+								setOffset(0);
+							}
+						}}
+					>
+						<SelectTrigger className='w-full min-w-0 max-w-[16rem]'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.values(QuestionAnalyticsSort).map(option => (
+								<SelectItem key={option} value={option}>
+									{t(QUESTION_ANALYTICS_SORT_LABEL_KEYS[option])}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				{isLoading ? (
+					<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+				) : error != null ? (
+					<p className='text-sm text-destructive'>
+						{error instanceof Error ? error.message : t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				) : !data || data.questions.length === 0 ? (
+					<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.QUESTION_ANALYTICS_EMPTY)}</p>
+				) : (
+					<>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>{t(AdminKey.TRIVIA_EDITOR_QUESTION)}</TableHead>
+									<TableHead>{t(AdminKey.TRIVIA_EDITOR_DIFFICULTY)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_ANALYTICS_TIMES_SERVED)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_ANALYTICS_CORRECT_RATE)}</TableHead>
+									<TableHead>{t(AdminKey.QUESTION_ANALYTICS_TOP_DISTRACTOR)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_ANALYTICS_REPORTS)}</TableHead>
+									<TableHead />
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{data.questions.map(question => (
+									<TableRow key={question.questionId}>
+										<TableCell>
+											<p className='font-medium'>{question.question}</p>
+											<p className='text-xs text-muted-foreground'>{formatTitle(question.topic)}</p>
+										</TableCell>
+										<TableCell>
+											<Badge
+												variant={VariantBase.OUTLINE}
+												className={cn('shrink-0', getDifficultyBadgeClasses(question.difficulty))}
+											>
+												{getDifficultyDisplayLabel(question.difficulty, t)}
+											</Badge>
+										</TableCell>
+										<TableCell className='text-end'>{question.timesServed}</TableCell>
+										<TableCell className='text-end'>
+											{question.correctRate != null ? `${calculatePercentage(question.correctRate, 1)}%` : EMPTY_VALUE}
+										</TableCell>
+										<TableCell className='text-sm text-muted-foreground'>
+											{question.topDistractor
+												? `${question.topDistractor.text} (${calculatePercentage(question.topDistractor.pickRate, 1)}%)`
+												: EMPTY_VALUE}
+										</TableCell>
+										<TableCell className='text-end'>{question.reportCount}</TableCell>
+										<TableCell className='text-end'>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.MINIMAL}
+												aria-label={t(AdminKey.TRIVIA_ACTION_ANALYTICS)}
+												onClick={() => setSelectedQuestionId(question.questionId)}
+											>
+												<BarChart3 className='h-4 w-4' />
+											</Button>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+
+						<div className='flex items-center justify-between gap-3'>
+							<span className='text-sm text-muted-foreground'>
+								{t(AdminKey.QUESTION_ANALYTICS_PAGE, { page: currentPage, total: pageCount })}
+							</span>
+							<div className='flex gap-2'>
+								<Button
+									size={ButtonSize.SM}
+									variant={VariantBase.OUTLINE}
+									disabled={offset === 0}
+									onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+								>
+									<ChevronLeft className='h-4 w-4' />
+									{t(CommonKey.PREVIOUS)}
+								</Button>
+								<Button
+									size={ButtonSize.SM}
+									variant={VariantBase.OUTLINE}
+									disabled={offset + PAGE_SIZE >= totalCount}
+									onClick={() => setOffset(offset + PAGE_SIZE)}
+								>
+									{t(CommonKey.NEXT)}
+									<ChevronRight className='h-4 w-4' />
+								</Button>
+							</div>
+						</div>
+					</>
+				)}
+			</div>
+
+			<QuestionAnalyticsDialog questionId={selectedQuestionId} onClose={() => setSelectedQuestionId(null)} />
+		</SectionCard>
+	);
+}
@@ -0,0 +1,205 @@
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, ArrowRight, Gauge, Loader2, Play, Scale } from 'lucide-react';
+
+import { TIME_PERIODS_MS } from '@shared/constants';
+import type { MiscalibratedTriviaQuestion } from '@shared/types';
+import { calculatePercentage, formatDateTime, formatTitle } from '@shared/utils';
+
+import {
+	AdminKey,
+	ButtonSize,
+	QUERY_KEYS,
+	QUESTION_CALIBRATION_OUTCOME_KEYS,
+	SEMANTIC_ICON_TEXT,
+	SkeletonVariant,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import { cn, getDifficultyBadgeClasses, getDifficultyDisplayLabel } from '@/utils';
+import {
+	Badge,
+	Button,
+	SectionCard,
+	Skeleton,
+	StatCard,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components';
+
+export function QuestionCalibrationSection() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+
+	const { data: calibration, isLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.questionCalibration(),
+		queryFn: () => adminService.getQuestionCalibration(),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const runCalibration = useMutation({
+		mutationFn: () => adminService.runQuestionCalibration(),
+		onSuccess: () => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.questionCalibration() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		},
+	});
+
+	// Moves the question to the level players actually experience it at
+	const applyCalibration = useMutation({
+		mutationFn: (question: MiscalibratedTriviaQuestion) =>
+			adminService.updateTriviaQuestion(question.id, { difficulty: question.calibratedDifficulty }),
+		onSuccess: () => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.questionCalibration() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		},
+	});
+
+	if (isLoading || !calibration) {
+		return (
+			<SectionCard title={t(AdminKey.QUESTION_CALIBRATION_TITLE)} icon={Scale}>
+				<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+			</SectionCard>
+		);
+	}
+
+	const lastRun = runCalibration.data ?? calibration.lastRun;
+	const mutationError = runCalibration.error ?? applyCalibration.error;
+
+	return (
+		<SectionCard
+			title={t(AdminKey.QUESTION_CALIBRATION_TITLE)}
+			icon={Scale}
+			description={t(AdminKey.QUESTION_CALIBRATION_DESC, {
+				minAttempts: calibration.minAttempts,
+				easy: calculatePercentage(calibration.easySuccessRate, 1),
+				medium: calculatePercentage(calibration.mediumSuccessRate, 1),
+			})}
+		>
+			<div className='space-y-6'>
+				<div className='flex flex-wrap items-center justify-between gap-3'>
+					<div className='flex flex-wrap items-center gap-2'>
+						<h4 className='text-sm font-semibold'>{t(AdminKey.QUESTION_CALIBRATION_LAST_RUN)}</h4>
+						{lastRun ? (
+							<>
+								<Badge variant={VariantBase.OUTLINE}>{t(QUESTION_CALIBRATION_OUTCOME_KEYS[lastRun.outcome])}</Badge>
+								<span className='text-sm text-muted-foreground'>{formatDateTime(lastRun.finishedAt)}</span>
+							</>
+						) : (
+							<span className='text-sm text-muted-foreground'>{t(AdminKey.QUESTION_CALIBRATION_NO_RUNS)}</span>
+						)}
+					</div>
+					<Button
+						size={ButtonSize.SM}
+						variant={VariantBase.OUTLINE}
+						onClick={() => runCalibration.mutate()}
+						disabled={runCalibration.isPending}
+					>
+						{!runCalibration.isPending ? <Play className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+						{t(AdminKey.QUESTION_CALIBRATION_RUN_NOW)}
+					</Button>
+				</div>
+
+				<div className='grid grid-cols-2 gap-4'>
+					<StatCard
+						stackIconLabel
+						icon={Gauge}
+						label={t(AdminKey.QUESTION_CALIBRATION_CALIBRATED)}
+						value={calibration.calibratedCount}
+						color={SEMANTIC_ICON_TEXT.primary}
+					/>
+					<StatCard
+						stackIconLabel
+						icon={AlertTriangle}
+						label={t(AdminKey.QUESTION_CALIBRATION_MISCALIBRATED)}
+						value={calibration.miscalibratedCount}
+						color={SEMANTIC_ICON_TEXT.warning}
+					/>
+				</div>
+
+				{mutationError != null && (
+					<p className='text-sm text-destructive'>
+						{mutationError instanceof Error ? mutationError.message : t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				)}
+
+				{calibration.miscalibrated.length === 0 ? (
+					<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.QUESTION_CALIBRATION_NONE)}</p>
+				) : (
+					<div className='space-y-3'>
+						{calibration.miscalibratedCount > calibration.miscalibrated.length && (
+							<p className='text-sm text-muted-foreground'>
+								{t(AdminKey.QUESTION_CALIBRATION_SHOWING, {
+									shown: calibration.miscalibrated.length,
+									total: calibration.miscalibratedCount,
+								})}
+							</p>
+						)}
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>{t(AdminKey.TRIVIA_EDITOR_QUESTION)}</TableHead>
+									<TableHead>{t(AdminKey.QUESTION_CALIBRATION_STORED)}</TableHead>
+									<TableHead>{t(AdminKey.QUESTION_CALIBRATION_MEASURED)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_CALIBRATION_SUCCESS_RATE)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_CALIBRATION_ANSWERS)}</TableHead>
+									<TableHead className='text-end'>{t(AdminKey.QUESTION_CALIBRATION_AVERAGE_TIME)}</TableHead>
+									<TableHead />
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{calibration.miscalibrated.map(question => (
+									<TableRow key={question.id}>
+										<TableCell>
+											<p className='font-medium'>{question.question}</p>
+											<p className='text-xs text-muted-foreground'>{formatTitle(question.topic)}</p>
+										</TableCell>
+										<TableCell>
+											<Badge
+												variant={VariantBase.OUTLINE}
+												className={cn('shrink-0', getDifficultyBadgeClasses(question.difficulty))}
+											>
+												{getDifficultyDisplayLabel(question.difficulty, t)}
+											</Badge>
+										</TableCell>
+										<TableCell>
+											<Badge
+												variant={VariantBase.OUTLINE}
+												className={cn('shrink-0', getDifficultyBadgeClasses(question.calibratedDifficulty))}
+											>
+												{getDifficultyDisplayLabel(question.calibratedDifficulty, t)}
+											</Badge>
+										</TableCell>
+										<TableCell className='text-end'>{calculatePercentage(question.successRate, 1)}%</TableCell>
+										<TableCell className='text-end'>{question.attemptCount}</TableCell>
+										<TableCell className='text-end text-muted-foreground'>
+											{question.averageTimeSpent != null
+												? t(AdminKey.QUESTION_CALIBRATION_SECONDS, { seconds: question.averageTimeSpent.toFixed(1) })
+												: '-'}
+										</TableCell>
+										<TableCell className='text-end'>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.OUTLINE}
+												disabled={applyCalibration.isPending}
+												onClick={() => applyCalibration.mutate(question)}
+											>
+												<ArrowRight className='h-4 w-4' />
+												{t(AdminKey.QUESTION_CALIBRATION_APPLY)}
+											</Button>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				)}
+			</div>
+		</SectionCard>
+	);
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Loader2, X } from 'lucide-react';
+
+import { Locale, OUTPUT_LANGUAGE_LABELS, VALIDATION_LENGTH } from '@shared/constants';
+import type { TopicLocalizedNames } from '@shared/types';
+
+import { AdminKey, ButtonSize, CommonKey, VariantBase } from '@/constants';
+import type { TopicCatalogEditFormProps } from '@/types';
+import { Button, Input, Label, Textarea } from '@/components';
+
+export function TopicCatalogEditForm({ topic, isSaving, onSubmit, onCancel }: TopicCatalogEditFormProps) {
+	const { t } = useTranslation();
+	const [names, setNames] = useState<TopicLocalizedNames>(topic.names);
+	const [aliasesText, setAliasesText] = useState(topic.aliases.join('\n'));
+	const [parentCategory, setParentCategory] = useState(topic.parentCategory ?? '');
+
+	const handleSubmit = () => {
+		const trimmedCategory = parentCategory.trim();
+		onSubmit({
+			names,
+			aliases: aliasesText
+				.split('\n')
+				.map(alias => alias.trim())
+				.filter(alias => alias.length > 0),
+			parentCategory: trimmedCategory.length > 0 ? trimmedCategory : null,
+		});
+	};
+
+	return (
+		<div className='space-y-4'>
+			<div className='grid gap-4 sm:grid-cols-2'>
+				{Object.values(Locale).map(locale => (
+					<div key={locale} className='space-y-1'>
+						<Label>{t(AdminKey.TOPIC_CATALOG_LOCALIZED_NAME, { language: OUTPUT_LANGUAGE_LABELS[locale] })}</Label>
+						<Input
+							value={names[locale] ?? ''}
+							onChange={e => setNames(current => ({ ...current, [locale]: e.target.value }))}
+							maxLength={VALIDATION_LENGTH.TOPIC.MAX}
+							placeholder={topic.name}
+						/>
+					</div>
+				))}
+			</div>
+
+			<div className='space-y-1'>
+				<Label>{t(AdminKey.TOPIC_CATALOG_CATEGORY)}</Label>
+				<Input
+					value={parentCategory}
+					onChange={e => setParentCategory(e.target.value)}
+					maxLength={VALIDATION_LENGTH.TOPIC.MAX}
+				/>
+			</div>
+
+			<div className='space-y-1'>
+				<Label>{t(AdminKey.TOPIC_CATALOG_ALIASES)}</Label>
+				<Textarea value={aliasesText} onChange={e => setAliasesText(e.target.value)} rows={4} />
+				<p className='text-xs text-muted-foreground'>{t(AdminKey.TOPIC_CATALOG_ALIASES_HINT)}</p>
+			</div>
+
+			<div className='flex justify-end gap-2'>
+				<Button type='button' size={ButtonSize.SM} variant={VariantBase.MINIMAL} onClick={onCancel}>
+					<X className='h-4 w-4' />
+					{t(CommonKey.CANCEL)}
+				</Button>
+				<Button type='button' size={ButtonSize.SM} disabled={isSaving} onClick={handleSubmit}>
+					{!isSaving ? <Check className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+					{t(AdminKey.TOPIC_CATALOG_SAVE)}
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,253 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { GitMerge, Loader2, Pencil, Tags } from 'lucide-react';
+
+import { EMPTY_VALUE, TIME_PERIODS_MS } from '@shared/constants';
+import type { AdminCatalogTopic, MergeCatalogTopicsRequest, UpdateCatalogTopicRequest } from '@shared/types';
+import { normalizeTopicKey } from '@shared/utils';
+
+import {
+	AdminKey,
+	ButtonSize,
+	CommonKey,
+	DialogContentSize,
+	QUERY_KEYS,
+	SkeletonVariant,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import {
+	Badge,
+	Button,
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	Input,
+	Label,
+	SectionCard,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Skeleton,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components';
+import { TopicCatalogEditForm } from './TopicCatalogEditForm';
+
+export function TopicCatalogSection() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const [searchTerm, setSearchTerm] = useState('');
+	const [editingTopic, setEditingTopic] = useState<AdminCatalogTopic | null>(null);
+	const [mergingTopic, setMergingTopic] = useState<AdminCatalogTopic | null>(null);
+	const [mergeTargetId, setMergeTargetId] = useState('');
+
+	const { data, isLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.topicCatalog(),
+		queryFn: () => adminService.getTopicCatalog(),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const updateTopic = useMutation({
+		mutationFn: ({ id, payload }: { id: string; payload: UpdateCatalogTopicRequest }) =>
+			adminService.updateCatalogTopic(id, payload),
+		onSuccess: () => {
+			setEditingTopic(null);
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.topicCatalog() });
+		},
+	});
+
+	// Merging renames stored questions, so the question list is refreshed as well
+	const mergeTopics = useMutation({
+		mutationFn: (payload: MergeCatalogTopicsRequest) => adminService.mergeCatalogTopics(payload),
+		onSuccess: () => {
+			setMergingTopic(null);
+			setMergeTargetId('');
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.topicCatalog() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		},
+	});
+
+	const topics = useMemo(() => data?.topics ?? [], [data]);
+	const filteredTopics = useMemo(() => {
+		const needle = normalizeTopicKey(searchTerm);
+		if (!needle) return topics;
+		return topics.filter(topic => topic.key.includes(needle) || topic.aliases.some(alias => alias.includes(needle)));
+	}, [searchTerm, topics]);
+
+	const openMerge = (topic: AdminCatalogTopic) => {
+		mergeTopics.reset();
+		setMergeTargetId('');
+		setMergingTopic(topic);
+	};
+
+	const mergeResult = mergeTopics.data;
+	const mutationError = updateTopic.error ?? mergeTopics.error;
+
+	return (
+		<SectionCard title={t(AdminKey.TOPIC_CATALOG_TITLE)} icon={Tags} description={t(AdminKey.TOPIC_CATALOG_DESC)}>
+			<div className='space-y-4'>
+				<Input
+					value={searchTerm}
+					onChange={e => setSearchTerm(e.target.value)}
+					placeholder={t(AdminKey.TOPIC_CATALOG_SEARCH)}
+					className='max-w-sm'
+				/>
+
+				{mergeResult && (
+					<p className='text-sm text-muted-foreground'>
+						{t(AdminKey.TOPIC_CATALOG_MERGED, {
+							games: mergeResult.movedGameCount,
+							questions: mergeResult.movedQuestionCount,
+						})}
+					</p>
+				)}
+				{mutationError != null && (
+					<p className='text-sm text-destructive'>
+						{mutationError instanceof Error ? mutationError.message : t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				)}
+
+				{isLoading ? (
+					<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+				) : filteredTopics.length === 0 ? (
+					<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.TOPIC_CATALOG_EMPTY)}</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>{t(AdminKey.TOPIC_CATALOG_NAME)}</TableHead>
+								<TableHead>{t(AdminKey.TOPIC_CATALOG_CATEGORY)}</TableHead>
+								<TableHead>{t(AdminKey.TOPIC_CATALOG_ALIASES)}</TableHead>
+								<TableHead className='text-end'>{t(AdminKey.TOPIC_CATALOG_GAMES)}</TableHead>
+								<TableHead className='text-end'>{t(AdminKey.TOPIC_CATALOG_QUESTIONS)}</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{filteredTopics.map(topic => (
+								<TableRow key={topic.id}>
+									<TableCell>
+										<p className='font-medium'>{topic.name}</p>
+										{Object.values(topic.names).length > 0 && (
+											<p className='text-xs text-muted-foreground'>{Object.values(topic.names).join(' · ')}</p>
+										)}
+									</TableCell>
+									<TableCell className='text-muted-foreground'>{topic.parentCategory ?? EMPTY_VALUE}</TableCell>
+									<TableCell>
+										<div className='flex flex-wrap gap-1'>
+											{topic.aliases.map(alias => (
+												<Badge key={alias} variant={VariantBase.OUTLINE}>
+													{alias}
+												</Badge>
+											))}
+										</div>
+									</TableCell>
+									<TableCell className='text-end'>{topic.gameCount}</TableCell>
+									<TableCell className='text-end'>{topic.questionCount}</TableCell>
+									<TableCell className='text-end'>
+										<div className='flex justify-end gap-1'>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.MINIMAL}
+												aria-label={t(AdminKey.TOPIC_CATALOG_EDIT)}
+												onClick={() => setEditingTopic(topic)}
+											>
+												<Pencil className='h-4 w-4' />
+											</Button>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.MINIMAL}
+												aria-label={t(AdminKey.TOPIC_CATALOG_MERGE)}
+												disabled={topics.length < 2}
+												onClick={() => openMerge(topic)}
+											>
+												<GitMerge className='h-4 w-4' />
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</div>
+
+			<Dialog open={editingTopic != null} onOpenChange={open => !open && setEditingTopic(null)}>
+				<DialogContent size={DialogContentSize.LG}>
+					<DialogHeader>
+						<DialogTitle>{t(AdminKey.TOPIC_CATALOG_EDIT_TITLE, { name: editingTopic?.name ?? '' })}</DialogTitle>
+					</DialogHeader>
+					{editingTopic && (
+						<TopicCatalogEditForm
+							topic={editingTopic}
+							isSaving={updateTopic.isPending}
+							onSubmit={payload => updateTopic.mutate({ id: editingTopic.id, payload })}
+							onCancel={() => setEditingTopic(null)}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
+
+			<Dialog open={mergingTopic != null} onOpenChange={open => !open && setMergingTopic(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>{t(AdminKey.TOPIC_CATALOG_MERGE_TITLE, { name: mergingTopic?.name ?? '' })}</DialogTitle>
+						<DialogDescription>
+							{t(AdminKey.TOPIC_CATALOG_MERGE_DESC, { name: mergingTopic?.name ?? '' })}
+						</DialogDescription>
+					</DialogHeader>
+					<div className='space-y-4'>
+						<div className='space-y-1'>
+							<Label>{t(AdminKey.TOPIC_CATALOG_MERGE_TARGET)}</Label>
+							<Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{topics
+										.filter(topic => topic.id !== mergingTopic?.id)
+										.map(topic => (
+											<SelectItem key={topic.id} value={topic.id}>
+												{topic.name}
+											</SelectItem>
+										))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='flex justify-end gap-2'>
+							<Button size={ButtonSize.SM} variant={VariantBase.MINIMAL} onClick={() => setMergingTopic(null)}>
+								{t(CommonKey.CANCEL)}
+							</Button>
+							<Button
+								size={ButtonSize.SM}
+								variant={VariantBase.DESTRUCTIVE}
+								disabled={!mergingTopic || !mergeTargetId || mergeTopics.isPending}
+								onClick={() =>
+									mergingTopic && mergeTopics.mutate({ sourceId: mergingTopic.id, targetId: mergeTargetId })
+								}
+							>
+								{!mergeTopics.isPending ? (
+									<GitMerge className='h-4 w-4' />
+								) : (
+									<Loader2 className='h-4 w-4 animate-spin' />
+								)}
+								{t(AdminKey.TOPIC_CATALOG_MERGE_CONFIRM)}
+							</Button>
+						</div>
+					</div>
+				</DialogContent>
+			</Dialog>
+		</SectionCard>
+	);
+}
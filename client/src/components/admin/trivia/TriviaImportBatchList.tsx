@@ -0,0 +1,158 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Download, History, Loader2, Undo2 } from 'lucide-react';
+
+import { TIME_PERIODS_MS } from '@shared/constants';
+import type { TriviaImportBatch } from '@shared/types';
+import { formatDate } from '@shared/utils';
+
+import {
+	AdminKey,
+	ButtonSize,
+	CommonKey,
+	QUERY_KEYS,
+	SkeletonVariant,
+	TRIVIA_PACK_FILE_TYPES,
+	TRIVIA_PACK_FORMAT_LABEL_KEYS,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import { downloadTextFile } from '@/utils';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	Badge,
+	Button,
+	SectionCard,
+	Skeleton,
+	Table,
+	TableBody,
+	TableCell,
+	TableRow,
+} from '@/components';
+
+export function TriviaImportBatchList() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const [pendingRollback, setPendingRollback] = useState<TriviaImportBatch | null>(null);
+
+	const { data, isLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.triviaImportBatches(),
+		queryFn: () => adminService.getTriviaImportBatches(),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	// A batch downloads in the format it was imported from
+	const exportBatch = useMutation({
+		mutationFn: (batch: TriviaImportBatch) => adminService.exportTriviaPack(batch.format, batch.id),
+		onSuccess: result => {
+			downloadTextFile(result.content, result.fileName, TRIVIA_PACK_FILE_TYPES[result.format].mimeType);
+		},
+	});
+
+	const rollbackBatch = useMutation({
+		mutationFn: (batchId: string) => adminService.rollbackTriviaImportBatch(batchId),
+		onSuccess: () => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaImportBatches() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaDuplicates() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaReports() });
+		},
+	});
+
+	const confirmRollback = useCallback(() => {
+		if (pendingRollback) {
+			rollbackBatch.mutate(pendingRollback.id);
+		}
+		setPendingRollback(null);
+	}, [pendingRollback, rollbackBatch]);
+
+	const batches = data?.batches ?? [];
+	const mutationError = rollbackBatch.error ?? exportBatch.error;
+
+	return (
+		<SectionCard title={t(AdminKey.TRIVIA_IMPORT_BATCHES_TITLE)} icon={History}>
+			{isLoading ? (
+				<Skeleton variant={SkeletonVariant.BlockTall} className='h-32' />
+			) : batches.length === 0 ? (
+				<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.TRIVIA_IMPORT_BATCHES_EMPTY)}</p>
+			) : (
+				<div className='space-y-3'>
+					{mutationError != null && (
+						<p className='text-sm text-destructive'>
+							{mutationError instanceof Error ? mutationError.message : t(AdminKey.FAILED_TO_SAVE)}
+						</p>
+					)}
+					<Table>
+						<TableBody>
+							{batches.map(batch => (
+								<TableRow key={batch.id}>
+									<TableCell className='font-medium'>{batch.label}</TableCell>
+									<TableCell>
+										<Badge variant={VariantBase.OUTLINE}>{t(TRIVIA_PACK_FORMAT_LABEL_KEYS[batch.format])}</Badge>
+									</TableCell>
+									<TableCell>{t(AdminKey.TRIVIA_IMPORT_BATCH_QUESTIONS, { count: batch.questionCount })}</TableCell>
+									<TableCell className='text-muted-foreground'>{formatDate(batch.createdAt)}</TableCell>
+									<TableCell className='text-end'>
+										<div className='flex justify-end gap-2'>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.OUTLINE}
+												disabled={exportBatch.isPending}
+												onClick={() => exportBatch.mutate(batch)}
+											>
+												<Download className='h-4 w-4' />
+												{t(AdminKey.TRIVIA_EXPORT_DOWNLOAD)}
+											</Button>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.DESTRUCTIVE}
+												disabled={rollbackBatch.isPending}
+												onClick={() => setPendingRollback(batch)}
+											>
+												{!rollbackBatch.isPending ? (
+													<Undo2 className='h-4 w-4' />
+												) : (
+													<Loader2 className='h-4 w-4 animate-spin' />
+												)}
+												{t(AdminKey.TRIVIA_IMPORT_BATCH_ROLLBACK)}
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+
+			<AlertDialog open={pendingRollback != null} onOpenChange={open => !open && setPendingRollback(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t(AdminKey.TRIVIA_IMPORT_ROLLBACK_CONFIRM_TITLE)}</AlertDialogTitle>
+						<AlertDialogDescription>
+							{t(AdminKey.TRIVIA_IMPORT_ROLLBACK_CONFIRM_DESC, {
+								count: pendingRollback?.questionCount ?? 0,
+								label: pendingRollback?.label ?? '',
+							})}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t(CommonKey.CANCEL)}</AlertDialogCancel>
+						<AlertDialogAction type='button' onClick={confirmRollback}>
+							{t(AdminKey.TRIVIA_IMPORT_BATCH_ROLLBACK)}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</SectionCard>
+	);
+}
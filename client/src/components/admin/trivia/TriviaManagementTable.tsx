@@ -1,11 +1,30 @@
 import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Calendar, CheckCircle2, FileQuestion, GamepadIcon, Gauge, Tag } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+	Archive,
+	ArchiveRestore,
+	BarChart3,
+	Calendar,
+	CheckCircle2,
+	FileQuestion,
+	GamepadIcon,
+	Gauge,
+	Pencil,
+	Plus,
+	Tag,
+	Trash2,
+} from 'lucide-react';
 
-import { EMPTY_VALUE } from '@shared/constants';
-import type { AdminTriviaQuestion } from '@shared/types';
+import { DifficultyLevel, EMPTY_VALUE, Locale, TriviaBulkAction } from '@shared/constants';
+import type {
+	AdminTriviaQuestion,
+	BulkTriviaActionRequest,
+	TriviaQuestionDraft,
+	UpdateTriviaQuestionRequest,
+} from '@shared/types';
 import { formatTitle, getCorrectAnswerIndex, namesMatch } from '@shared/utils';
-import { VALIDATORS } from '@shared/validation';
+import { isLocale, isRegisteredDifficulty, VALIDATORS } from '@shared/validation';
 
 import {
 	AdminKey,
@@ -13,20 +32,39 @@ import {
 	CommonKey,
 	DataTableColumnType,
 	DEFAULT_ITEMS_PER_PAGE,
+	DialogContentSize,
 	EMPTY_STATE_LUCIDE_ICON,
+	EMPTY_TRIVIA_QUESTION_DRAFT,
 	FILTER_ALL_VALUE,
+	QUERY_KEYS,
 	SortDirection,
 	TRIVIA_SORT_FIELDS_SET,
+	TriviaReviewFilter,
 	TriviaSortField,
 	VariantBase,
 } from '@/constants';
 import type { DataTableColumn } from '@/types';
+import { adminService } from '@/services';
 import { getDifficultyDisplayLabel } from '@/utils';
 import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	Badge,
 	Button,
 	CardDescription,
 	CardTitle,
+	Checkbox,
 	DataTableCard,
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
 	Input,
 	Label,
 	Select,
@@ -36,6 +74,44 @@ import {
 	SelectValue,
 } from '@/components';
 import { useAllTriviaQuestions, useClientTableState } from '@/hooks';
+import { QuestionAnalyticsDialog } from './QuestionAnalyticsDialog';
+import { TriviaQuestionForm } from './TriviaQuestionForm';
+
+function toTriviaQuestionDraft(question: AdminTriviaQuestion): TriviaQuestionDraft {
+	const language = question.metadata?.language;
+	// Custom-difficulty questions are edited against the standard level they were mapped to
+	const difficulty =
+		isRegisteredDifficulty(question.difficulty) && question.difficulty !== DifficultyLevel.CUSTOM
+			? question.difficulty
+			: (question.metadata?.mappedDifficulty ?? DifficultyLevel.MEDIUM);
+	return {
+		question: question.question,
+		answers: question.answers.map(answer => answer.text),
+		correctAnswerIndex: getCorrectAnswerIndex(question),
+		topic: question.topic,
+		difficulty,
+		locale: isLocale(language) ? language : Locale.EN,
+		explanation: question.metadata?.explanation ?? '',
+	};
+}
+
+// Only changed fields are sent, so an untouched custom difficulty survives an edit of the question text
+function buildTriviaQuestionUpdate(
+	initial: TriviaQuestionDraft,
+	draft: TriviaQuestionDraft
+): UpdateTriviaQuestionRequest {
+	return {
+		...(draft.question !== initial.question ? { question: draft.question } : {}),
+		...(draft.answers.join('\n') !== initial.answers.join('\n') ? { answers: draft.answers } : {}),
+		...(draft.correctAnswerIndex !== initial.correctAnswerIndex
+			? { correctAnswerIndex: draft.correctAnswerIndex }
+			: {}),
+		...(draft.topic !== initial.topic ? { topic: draft.topic } : {}),
+		...(draft.difficulty !== initial.difficulty ? { difficulty: draft.difficulty } : {}),
+		...(draft.locale !== initial.locale ? { locale: draft.locale } : {}),
+		...(draft.explanation !== initial.explanation ? { explanation: draft.explanation } : {}),
+	};
+}
 
 export const TriviaManagementTable = memo(function TriviaManagementTable() {
 	const { t } = useTranslation();
@@ -45,6 +121,85 @@ export const TriviaManagementTable = memo(function TriviaManagementTable() {
 	const [searchTerm, setSearchTerm] = useState('');
 	const [topicFilter, setTopicFilter] = useState<string>(FILTER_ALL_VALUE);
 	const [difficultyFilter, setDifficultyFilter] = useState<string>(FILTER_ALL_VALUE);
+	const [reviewFilter, setReviewFilter] = useState<string>(FILTER_ALL_VALUE);
+	const queryClient = useQueryClient();
+	const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(new Set());
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [isCreating, setIsCreating] = useState(false);
+	const [pendingDeleteIds, setPendingDeleteIds] = useState<string[] | null>(null);
+	const [analyticsQuestionId, setAnalyticsQuestionId] = useState<string | null>(null);
+
+	const invalidateTrivia = useCallback(() => {
+		void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaDuplicates() });
+		void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaReports() });
+	}, [queryClient]);
+
+	const createQuestion = useMutation({
+		mutationFn: (draft: TriviaQuestionDraft) => adminService.createTriviaQuestion(draft),
+		onSuccess: () => {
+			setIsCreating(false);
+			invalidateTrivia();
+		},
+	});
+
+	const updateQuestion = useMutation({
+		mutationFn: ({ id, payload }: { id: string; payload: UpdateTriviaQuestionRequest }) =>
+			adminService.updateTriviaQuestion(id, payload),
+		onSuccess: () => {
+			setEditingId(null);
+			invalidateTrivia();
+		},
+	});
+
+	const setRetired = useMutation({
+		mutationFn: ({ id, retired }: { id: string; retired: boolean }) =>
+			adminService.setTriviaQuestionRetired(id, retired),
+		onSuccess: invalidateTrivia,
+	});
+
+	const deleteQuestion = useMutation({
+		mutationFn: (id: string) => adminService.deleteTriviaQuestion(id),
+		onSuccess: (_result, id) => {
+			setSelectedIds(current => new Set([...current].filter(selectedId => selectedId !== id)));
+			invalidateTrivia();
+		},
+	});
+
+	const bulkAction = useMutation({
+		mutationFn: (payload: BulkTriviaActionRequest) => adminService.applyTriviaBulkAction(payload),
+		onSuccess: () => {
+			setSelectedIds(new Set());
+			invalidateTrivia();
+		},
+	});
+
+	const failedMutation = [createQuestion, updateQuestion, setRetired, deleteQuestion, bulkAction].find(
+		mutation => mutation.isError
+	);
+	const isMutating =
+		updateQuestion.isPending || setRetired.isPending || deleteQuestion.isPending || bulkAction.isPending;
+
+	const toggleSelected = useCallback((id: string, selected: boolean) => {
+		setSelectedIds(current => {
+			const next = new Set(current);
+			if (selected) {
+				next.add(id);
+			} else {
+				next.delete(id);
+			}
+			return next;
+		});
+	}, []);
+
+	const confirmDelete = useCallback(() => {
+		if (pendingDeleteIds?.length === 1 && pendingDeleteIds[0] != null) {
+			deleteQuestion.mutate(pendingDeleteIds[0]);
+		} else if (pendingDeleteIds != null && pendingDeleteIds.length > 1) {
+			bulkAction.mutate({ action: TriviaBulkAction.DELETE, ids: pendingDeleteIds });
+		}
+		setPendingDeleteIds(null);
+	}, [bulkAction, deleteQuestion, pendingDeleteIds]);
 
 	const topics = useMemo(() => Array.from(new Set(questions.map(q => q.topic).filter(Boolean))), [questions]);
 	const difficulties = useMemo(
@@ -57,9 +212,12 @@ export const TriviaManagementTable = memo(function TriviaManagementTable() {
 			const matchesSearch = !searchTerm || q.question.toLowerCase().includes(searchTerm.toLowerCase());
 			const matchesTopic = topicFilter === FILTER_ALL_VALUE || namesMatch(q.topic ?? '', topicFilter);
 			const matchesDifficulty = difficultyFilter === FILTER_ALL_VALUE || q.difficulty === difficultyFilter;
-			return matchesSearch && matchesTopic && matchesDifficulty;
+			const needsReview = q.metadata?.needsReview === true;
+			const matchesReview =
+				reviewFilter === FILTER_ALL_VALUE || needsReview === (reviewFilter === TriviaReviewFilter.NEEDS_REVIEW);
+			return matchesSearch && matchesTopic && matchesDifficulty && matchesReview;
 		},
-		[searchTerm, topicFilter, difficultyFilter]
+		[searchTerm, topicFilter, difficultyFilter, reviewFilter]
 	);
 
 	const compareTrivia = useCallback((a: AdminTriviaQuestion, b: AdminTriviaQuestion, sortBy: string) => {
@@ -90,10 +248,22 @@ export const TriviaManagementTable = memo(function TriviaManagementTable() {
 	useEffect(() => {
 		tableState.pagination.goToFirstPage();
 		// eslint-disable-next-line react-hooks/exhaustive-deps
-	}, [searchTerm, topicFilter, difficultyFilter]);
+	}, [searchTerm, topicFilter, difficultyFilter, reviewFilter]);
 
 	const columns = useMemo((): DataTableColumn<AdminTriviaQuestion>[] => {
 		return [
+			{
+				id: 'select',
+				emptyHeader: true,
+				type: DataTableColumnType.CUSTOM,
+				headerClassName: 'w-10',
+				render: row => (
+					<Checkbox
+						checked={selectedIds.has(row.id)}
+						onCheckedChange={checked => toggleSelected(row.id, checked === true)}
+					/>
+				),
+			},
 			{
 				id: 'question',
 				type: DataTableColumnType.TRUNCATE,
@@ -130,11 +300,87 @@ export const TriviaManagementTable = memo(function TriviaManagementTable() {
 				headerIcon: <Calendar />,
 				sortField: TriviaSortField.CREATED,
 			},
+			{
+				id: 'actions',
+				emptyHeader: true,
+				type: DataTableColumnType.CUSTOM,
+				render: row => {
+					const isRetired = row.retiredAt != null;
+					const isEditing = editingId === row.id;
+					return (
+						<div className='flex items-center justify-end gap-1'>
+							{isRetired && <Badge variant={VariantBase.SECONDARY}>{t(AdminKey.TRIVIA_STATUS_RETIRED)}</Badge>}
+							<Button
+								size={ButtonSize.SM}
+								variant={VariantBase.MINIMAL}
+								aria-label={t(AdminKey.TRIVIA_ACTION_ANALYTICS)}
+								onClick={() => setAnalyticsQuestionId(row.id)}
+							>
+								<BarChart3 className='h-4 w-4' />
+							</Button>
+							<Button
+								size={ButtonSize.SM}
+								variant={isEditing ? VariantBase.DEFAULT : VariantBase.MINIMAL}
+								aria-label={t(AdminKey.TRIVIA_ACTION_EDIT)}
+								onClick={() => setEditingId(isEditing ? null : row.id)}
+							>
+								<Pencil className='h-4 w-4' />
+							</Button>
+							<Button
+								size={ButtonSize.SM}
+								variant={VariantBase.MINIMAL}
+								aria-label={t(isRetired ? AdminKey.TRIVIA_ACTION_RESTORE : AdminKey.TRIVIA_ACTION_RETIRE)}
+								disabled={isMutating}
+								onClick={() => setRetired.mutate({ id: row.id, retired: !isRetired })}
+							>
+								{isRetired ? <ArchiveRestore className='h-4 w-4' /> : <Archive className='h-4 w-4' />}
+							</Button>
+							<Button
+								size={ButtonSize.SM}
+								variant={VariantBase.MINIMAL}
+								aria-label={t(AdminKey.TRIVIA_ACTION_DELETE)}
+								disabled={isMutating}
+								onClick={() => setPendingDeleteIds([row.id])}
+							>
+								<Trash2 className='h-4 w-4 text-destructive' />
+							</Button>
+						</div>
+					);
+				},
+			},
 		];
-	}, []);
+	}, [editingId, isMutating, selectedIds, setRetired, t, toggleSelected]);
+
+	const renderExpandedRow = useCallback(
+		(row: AdminTriviaQuestion) => {
+			if (editingId !== row.id) return null;
+			const initialDraft = toTriviaQuestionDraft(row);
+			return (
+				<div className='p-4'>
+					<TriviaQuestionForm
+						initialDraft={initialDraft}
+						submitLabel={t(AdminKey.TRIVIA_EDITOR_SAVE)}
+						isSaving={updateQuestion.isPending}
+						onSubmit={draft =>
+							updateQuestion.mutate({ id: row.id, payload: buildTriviaQuestionUpdate(initialDraft, draft) })
+						}
+						onCancel={() => setEditingId(null)}
+					/>
+				</div>
+			);
+		},
+		[editingId, t, updateQuestion]
+	);
+
+	const pageIds = tableState.paginatedData.map(row => row.id);
+	const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.has(id));
+	const selectedIdList = Array.from(selectedIds);
 
 	const hasActiveFilters =
-		topicFilter !== FILTER_ALL_VALUE || difficultyFilter !== FILTER_ALL_VALUE || searchTerm.length > 0;
+		topicFilter !== FILTER_ALL_VALUE ||
+		difficultyFilter !== FILTER_ALL_VALUE ||
+		reviewFilter !== FILTER_ALL_VALUE ||
+		searchTerm.length > 0;
 
 	const triviaEmptyIcon =
 		tableState.sortedData.length === 0 && hasActiveFilters
@@ -144,104 +390,223 @@ export const TriviaManagementTable = memo(function TriviaManagementTable() {
 				: undefined;
 
 	return (
-		<DataTableCard<AdminTriviaQuestion>
-			header={{
-				title: (
-					<CardTitle className='flex items-center gap-2'>
-						<GamepadIcon className='h-5 w-5 text-primary' />
-						Trivia Questions Management
-					</CardTitle>
-				),
-				description: (
-					<CardDescription>
-						Showing {tableState.paginatedData.length} of {tableState.sortedData.length} questions
-						{tableState.totalFiltered !== totalCount ? ` (${totalCount} total)` : ''}
-					</CardDescription>
-				),
-				pagination:
-					tableState.pagination.totalPages > 1
-						? {
-								onPrevious: tableState.pagination.goToPreviousPage,
-								onNext: tableState.pagination.goToNextPage,
-								hasPrevious: tableState.pagination.hasPreviousPage,
-								hasNext: tableState.pagination.hasNextPage,
-								currentPage: tableState.pagination.currentPage,
-								totalPages: tableState.pagination.totalPages || 1,
-								disabled: isLoading,
-							}
-						: null,
-			}}
-			filters={
-				<>
-					<div className='flex items-center gap-2'>
-						<Label className='text-sm font-medium'>{t(CommonKey.SEARCH)}:</Label>
-						<Input
-							placeholder={t(AdminKey.TRIVIA_SEARCH_PLACEHOLDER)}
-							value={searchTerm}
-							onChange={e => setSearchTerm(e.target.value)}
-							className='w-full min-w-0 max-w-[14rem]'
-						/>
-					</div>
-					<div className='flex items-center gap-2'>
-						<Label className='text-sm font-medium'>{t(AdminKey.TRIVIA_TOPIC_FILTER)}</Label>
-						<Select value={topicFilter} onValueChange={setTopicFilter}>
-							<SelectTrigger className='w-full min-w-0 max-w-[10rem]'>
-								<SelectValue placeholder={t(AdminKey.ALL_TOPICS)} />
-							</SelectTrigger>
-							<SelectContent>
-								<SelectItem value={FILTER_ALL_VALUE}>{t(AdminKey.ALL_TOPICS)}</SelectItem>
-								{topics.map(topic => (
-									<SelectItem key={topic} value={topic}>
-										{formatTitle(topic)}
-									</SelectItem>
-								))}
-							</SelectContent>
-						</Select>
-					</div>
-					<div className='flex items-center gap-2'>
-						<Label className='text-sm font-medium'>{t(AdminKey.TRIVIA_DIFFICULTY_FILTER)}</Label>
-						<Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
-							<SelectTrigger className='w-full min-w-0 max-w-[10rem]'>
-								<SelectValue placeholder={t(AdminKey.ALL_DIFFICULTIES)} />
-							</SelectTrigger>
-							<SelectContent>
-								<SelectItem value={FILTER_ALL_VALUE}>{t(AdminKey.ALL_DIFFICULTIES)}</SelectItem>
-								{difficulties.map(difficulty => (
-									<SelectItem key={difficulty} value={difficulty}>
-										{getDifficultyDisplayLabel(difficulty, t)}
-									</SelectItem>
-								))}
-							</SelectContent>
-						</Select>
-					</div>
-					{hasActiveFilters && (
-						<Button
-							variant={VariantBase.MINIMAL}
-							size={ButtonSize.SM}
-							onClick={() => {
-								setSearchTerm('');
-								setTopicFilter(FILTER_ALL_VALUE);
-								setDifficultyFilter(FILTER_ALL_VALUE);
-							}}
-						>
-							{t(CommonKey.CLEAR_FILTERS)}
+		<>
+			<DataTableCard<AdminTriviaQuestion>
+				header={{
+					title: (
+						<CardTitle className='flex items-center gap-2'>
+							<GamepadIcon className='h-5 w-5 text-primary' />
+							Trivia Questions Management
+						</CardTitle>
+					),
+					description: (
+						<CardDescription>
+							Showing {tableState.paginatedData.length} of {tableState.sortedData.length} questions
+							{tableState.totalFiltered !== totalCount ? ` (${totalCount} total)` : ''}
+						</CardDescription>
+					),
+					pagination:
+						tableState.pagination.totalPages > 1
+							? {
+									onPrevious: tableState.pagination.goToPreviousPage,
+									onNext: tableState.pagination.goToNextPage,
+									hasPrevious: tableState.pagination.hasPreviousPage,
+									hasNext: tableState.pagination.hasNextPage,
+									currentPage: tableState.pagination.currentPage,
+									totalPages: tableState.pagination.totalPages || 1,
+									disabled: isLoading,
+								}
+							: null,
+					toolbar:
+						selectedIds.size > 0 ? (
+							<div className='flex flex-wrap items-center gap-2'>
+								<span className='text-sm text-muted-foreground'>
+									{t(AdminKey.TRIVIA_BULK_SELECTED, { count: selectedIds.size })}
+								</span>
+								<Button
+									size={ButtonSize.SM}
+									variant={VariantBase.OUTLINE}
+									disabled={isMutating}
+									onClick={() => bulkAction.mutate({ action: TriviaBulkAction.RETIRE, ids: selectedIdList })}
+								>
+									<Archive className='h-4 w-4' />
+									{t(AdminKey.TRIVIA_ACTION_RETIRE)}
+								</Button>
+								<Button
+									size={ButtonSize.SM}
+									variant={VariantBase.OUTLINE}
+									disabled={isMutating}
+									onClick={() => bulkAction.mutate({ action: TriviaBulkAction.RESTORE, ids: selectedIdList })}
+								>
+									<ArchiveRestore className='h-4 w-4' />
+									{t(AdminKey.TRIVIA_ACTION_RESTORE)}
+								</Button>
+								<Button
+									size={ButtonSize.SM}
+									variant={VariantBase.DESTRUCTIVE}
+									disabled={isMutating}
+									onClick={() => setPendingDeleteIds(selectedIdList)}
+								>
+									<Trash2 className='h-4 w-4' />
+									{t(AdminKey.TRIVIA_ACTION_DELETE)}
+								</Button>
+								<Button size={ButtonSize.SM} variant={VariantBase.MINIMAL} onClick={() => setSelectedIds(new Set())}>
+									{t(AdminKey.TRIVIA_BULK_CLEAR)}
+								</Button>
+							</div>
+						) : null,
+					actions: (
+						<Button size={ButtonSize.SM} onClick={() => setIsCreating(true)}>
+							<Plus className='h-4 w-4' />
+							{t(AdminKey.TRIVIA_ADD_QUESTION)}
 						</Button>
+					),
+				}}
+				filters={
+					<>
+						<div className='flex items-center gap-2'>
+							<Checkbox
+								id='trivia-select-page'
+								checked={isPageSelected}
+								onCheckedChange={checked => {
+									for (const id of pageIds) {
+										toggleSelected(id, checked === true);
+									}
+								}}
+							/>
+							<Label htmlFor='trivia-select-page' className='text-sm font-medium'>
+								{t(AdminKey.TRIVIA_BULK_SELECT_PAGE)}
+							</Label>
+						</div>
+						<div className='flex items-center gap-2'>
+							<Label className='text-sm font-medium'>{t(CommonKey.SEARCH)}:</Label>
+							<Input
+								placeholder={t(AdminKey.TRIVIA_SEARCH_PLACEHOLDER)}
+								value={searchTerm}
+								onChange={e => setSearchTerm(e.target.value)}
+								className='w-full min-w-0 max-w-[14rem]'
+							/>
+						</div>
+						<div className='flex items-center gap-2'>
+							<Label className='text-sm font-medium'>{t(AdminKey.TRIVIA_TOPIC_FILTER)}</Label>
+							<Select value={topicFilter} onValueChange={setTopicFilter}>
+								<SelectTrigger className='w-full min-w-0 max-w-[10rem]'>
+									<SelectValue placeholder={t(AdminKey.ALL_TOPICS)} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={FILTER_ALL_VALUE}>{t(AdminKey.ALL_TOPICS)}</SelectItem>
+									{topics.map(topic => (
+										<SelectItem key={topic} value={topic}>
+											{formatTitle(topic)}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='flex items-center gap-2'>
+							<Label className='text-sm font-medium'>{t(AdminKey.TRIVIA_DIFFICULTY_FILTER)}</Label>
+							<Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+								<SelectTrigger className='w-full min-w-0 max-w-[10rem]'>
+									<SelectValue placeholder={t(AdminKey.ALL_DIFFICULTIES)} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={FILTER_ALL_VALUE}>{t(AdminKey.ALL_DIFFICULTIES)}</SelectItem>
+									{difficulties.map(difficulty => (
+										<SelectItem key={difficulty} value={difficulty}>
+											{getDifficultyDisplayLabel(difficulty, t)}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='flex items-center gap-2'>
+							<Label className='text-sm font-medium'>{t(AdminKey.TRIVIA_REVIEW_FILTER)}</Label>
+							<Select value={reviewFilter} onValueChange={setReviewFilter}>
+								<SelectTrigger className='w-full min-w-0 max-w-[10rem]'>
+									<SelectValue placeholder={t(AdminKey.TRIVIA_REVIEW_ALL)} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={FILTER_ALL_VALUE}>{t(AdminKey.TRIVIA_REVIEW_ALL)}</SelectItem>
+									<SelectItem value={TriviaReviewFilter.NEEDS_REVIEW}>{t(AdminKey.TRIVIA_NEEDS_REVIEW)}</SelectItem>
+									<SelectItem value={TriviaReviewFilter.NO_REVIEW_NEEDED}>
+										{t(AdminKey.TRIVIA_NO_REVIEW_NEEDED)}
+									</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						{hasActiveFilters && (
+							<Button
+								variant={VariantBase.MINIMAL}
+								size={ButtonSize.SM}
+								onClick={() => {
+									setSearchTerm('');
+									setTopicFilter(FILTER_ALL_VALUE);
+									setDifficultyFilter(FILTER_ALL_VALUE);
+									setReviewFilter(FILTER_ALL_VALUE);
+								}}
+							>
+								{t(CommonKey.CLEAR_FILTERS)}
+							</Button>
+						)}
+						{failedMutation?.error != null && (
+							<p className='w-full text-sm text-destructive'>
+								{failedMutation.error instanceof Error ? failedMutation.error.message : t(AdminKey.FAILED_TO_SAVE)}
+							</p>
+						)}
+					</>
+				}
+				columns={columns}
+				data={tableState.paginatedData}
+				getRowKey={row => row.id}
+				isLoading={isLoading}
+				emptyState={{
+					title: t(AdminKey.NO_TRIVIA_FOUND_TITLE),
+					description: t(AdminKey.NO_TRIVIA_FOUND_DESCRIPTION),
+					icon: triviaEmptyIcon,
+				}}
+				emptyValue={EMPTY_VALUE}
+				sortBy={tableState.sortBy}
+				sortDirection={tableState.sortDirection}
+				onSort={tableState.onSort}
+				expandedRowId={editingId}
+				renderExpandedRow={renderExpandedRow}
+			/>
+
+			<Dialog open={isCreating} onOpenChange={setIsCreating}>
+				<DialogContent size={DialogContentSize.LG}>
+					<DialogHeader>
+						<DialogTitle>{t(AdminKey.TRIVIA_EDITOR_CREATE_TITLE)}</DialogTitle>
+					</DialogHeader>
+					{isCreating && (
+						<TriviaQuestionForm
+							initialDraft={EMPTY_TRIVIA_QUESTION_DRAFT}
+							submitLabel={t(AdminKey.TRIVIA_EDITOR_SAVE)}
+							isSaving={createQuestion.isPending}
+							onSubmit={draft => createQuestion.mutate(draft)}
+							onCancel={() => setIsCreating(false)}
+						/>
 					)}
-				</>
-			}
-			columns={columns}
-			data={tableState.paginatedData}
-			getRowKey={row => row.id}
-			isLoading={isLoading}
-			emptyState={{
-				title: t(AdminKey.NO_TRIVIA_FOUND_TITLE),
-				description: t(AdminKey.NO_TRIVIA_FOUND_DESCRIPTION),
-				icon: triviaEmptyIcon,
-			}}
-			emptyValue={EMPTY_VALUE}
-			sortBy={tableState.sortBy}
-			sortDirection={tableState.sortDirection}
-			onSort={tableState.onSort}
-		/>
+				</DialogContent>
+			</Dialog>
+
+			<QuestionAnalyticsDialog questionId={analyticsQuestionId} onClose={() => setAnalyticsQuestionId(null)} />
+
+			<AlertDialog open={pendingDeleteIds != null} onOpenChange={open => !open && setPendingDeleteIds(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t(AdminKey.TRIVIA_DELETE_CONFIRM_TITLE)}</AlertDialogTitle>
+						<AlertDialogDescription>
+							{t(AdminKey.TRIVIA_DELETE_CONFIRM_DESC, { count: pendingDeleteIds?.length ?? 0 })}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t(CommonKey.CANCEL)}</AlertDialogCancel>
+						<AlertDialogAction type='button' onClick={confirmDelete}>
+							{t(AdminKey.TRIVIA_ACTION_DELETE)}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</>
 	);
 });
@@ -0,0 +1,301 @@
+import { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Archive, Check, Flag, Loader2, Pencil, X } from 'lucide-react';
+
+import { TIME_PERIODS_MS, TriviaModerationAction, TriviaReportReason } from '@shared/constants';
+import type { ResolveTriviaReportsRequest, TriviaModerationQueueItem } from '@shared/types';
+import { formatDate, formatTitle, getCorrectAnswerIndex } from '@shared/utils';
+
+import {
+	AdminKey,
+	ButtonSize,
+	CommonKey,
+	QUERY_KEYS,
+	SkeletonVariant,
+	TRIVIA_REPORT_REASON_LABEL_KEYS,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import { cn } from '@/utils';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	Badge,
+	Button,
+	Input,
+	Label,
+	SectionCard,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Skeleton,
+} from '@/components';
+
+interface ModerationEditDraft {
+	questionId: string;
+	question: string;
+	answers: string[];
+	correctAnswerIndex: number;
+}
+
+export function TriviaModerationQueue() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const [editDraft, setEditDraft] = useState<ModerationEditDraft | null>(null);
+	const [pendingRetireId, setPendingRetireId] = useState<string | null>(null);
+
+	const { data: queue, isLoading } = useQuery({
+		queryKey: QUERY_KEYS.admin.triviaReports(),
+		queryFn: () => adminService.getTriviaReports(),
+		staleTime: TIME_PERIODS_MS.MINUTE,
+		gcTime: TIME_PERIODS_MS.FIVE_MINUTES,
+	});
+
+	const resolveReports = useMutation({
+		mutationFn: ({ questionId, payload }: { questionId: string; payload: ResolveTriviaReportsRequest }) =>
+			adminService.resolveTriviaReports(questionId, payload),
+		onSuccess: () => {
+			setEditDraft(null);
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaReports() });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+		},
+	});
+
+	const startEdit = useCallback((item: TriviaModerationQueueItem) => {
+		setEditDraft({
+			questionId: item.question.id,
+			question: item.question.question,
+			answers: item.question.answers.map(answer => answer.text),
+			correctAnswerIndex: getCorrectAnswerIndex(item.question),
+		});
+	}, []);
+
+	const confirmRetire = useCallback(() => {
+		if (pendingRetireId) {
+			resolveReports.mutate({ questionId: pendingRetireId, payload: { action: TriviaModerationAction.RETIRE } });
+		}
+		setPendingRetireId(null);
+	}, [pendingRetireId, resolveReports]);
+
+	const items = queue?.items ?? [];
+
+	return (
+		<SectionCard
+			title={t(AdminKey.TRIVIA_MODERATION_TITLE)}
+			icon={Flag}
+			description={t(AdminKey.TRIVIA_MODERATION_DESC, { threshold: queue?.hideThreshold ?? 0 })}
+		>
+			{isLoading ? (
+				<Skeleton variant={SkeletonVariant.BlockTall} className='h-48' />
+			) : items.length === 0 ? (
+				<p className='py-8 text-center text-sm text-muted-foreground'>{t(AdminKey.TRIVIA_MODERATION_EMPTY)}</p>
+			) : (
+				<div className='space-y-6'>
+					{resolveReports.isError && (
+						<p className='text-sm text-destructive'>
+							{resolveReports.error instanceof Error ? resolveReports.error.message : t(AdminKey.FAILED_TO_SAVE)}
+						</p>
+					)}
+					{items.map(item => {
+						const { question } = item;
+						const isEditing = editDraft?.questionId === question.id;
+						const correctAnswerIndex = getCorrectAnswerIndex(question);
+
+						return (
+							<div key={question.id} className='space-y-3 rounded-md border p-4'>
+								<div className='flex flex-wrap items-center gap-2'>
+									<h4 className='text-sm font-semibold'>{formatTitle(question.topic)}</h4>
+									<Badge variant={VariantBase.OUTLINE}>
+										{t(AdminKey.TRIVIA_MODERATION_REPORT_COUNT, { count: item.openReportCount })}
+									</Badge>
+									{item.isHidden && (
+										<Badge variant={VariantBase.DESTRUCTIVE}>{t(AdminKey.TRIVIA_MODERATION_HIDDEN)}</Badge>
+									)}
+									{question.retiredAt != null && (
+										<Badge variant={VariantBase.SECONDARY}>{t(AdminKey.TRIVIA_MODERATION_RETIRED)}</Badge>
+									)}
+									<span className='text-xs text-muted-foreground'>
+										{t(AdminKey.TRIVIA_MODERATION_LAST_REPORTED, { date: formatDate(item.lastReportedAt) })}
+									</span>
+								</div>
+
+								<div className='flex flex-wrap gap-2'>
+									{Object.values(TriviaReportReason)
+										.filter(reason => (item.reasonCounts[reason] ?? 0) > 0)
+										.map(reason => (
+											<Badge key={reason} variant={VariantBase.SECONDARY}>
+												{t(TRIVIA_REPORT_REASON_LABEL_KEYS[reason])}: {item.reasonCounts[reason]}
+											</Badge>
+										))}
+								</div>
+
+								{isEditing && editDraft ? (
+									<div className='space-y-3'>
+										<div className='space-y-1'>
+											<Label>{t(AdminKey.TRIVIA_MODERATION_QUESTION_TEXT)}</Label>
+											<Input
+												value={editDraft.question}
+												onChange={e => setEditDraft({ ...editDraft, question: e.target.value })}
+											/>
+										</div>
+										{editDraft.answers.map((answer, index) => (
+											<Input
+												key={index}
+												value={answer}
+												onChange={e =>
+													setEditDraft({
+														...editDraft,
+														answers: editDraft.answers.map((text, i) => (i === index ? e.target.value : text)),
+													})
+												}
+											/>
+										))}
+										<div className='flex items-center gap-2'>
+											<Label>{t(AdminKey.TRIVIA_MODERATION_CORRECT_ANSWER)}</Label>
+											<Select
+												value={String(editDraft.correctAnswerIndex)}
+												onValueChange={value => setEditDraft({ ...editDraft, correctAnswerIndex: Number(value) })}
+											>
+												<SelectTrigger className='w-full min-w-0 max-w-[14rem]'>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{editDraft.answers.map((answer, index) => (
+														<SelectItem key={index} value={String(index)}>
+															{answer}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</div>
+									</div>
+								) : (
+									<div className='space-y-2'>
+										<p className='font-medium'>{question.question}</p>
+										<ul className='space-y-1 text-sm'>
+											{question.answers.map((answer, index) => (
+												<li
+													key={index}
+													className={cn(
+														'flex items-center gap-2',
+														index === correctAnswerIndex ? 'font-medium text-primary' : 'text-muted-foreground'
+													)}
+												>
+													{index === correctAnswerIndex && <Check className='h-4 w-4' />}
+													{answer.text}
+												</li>
+											))}
+										</ul>
+									</div>
+								)}
+
+								{item.notes.length > 0 && (
+									<ul className='space-y-1 border-s-2 ps-3 text-sm text-muted-foreground'>
+										{item.notes.map((note, index) => (
+											<li key={index}>
+												<span className='font-medium'>{t(TRIVIA_REPORT_REASON_LABEL_KEYS[note.reason])}:</span>{' '}
+												{note.note}
+											</li>
+										))}
+									</ul>
+								)}
+
+								<div className='flex flex-wrap justify-end gap-2'>
+									{isEditing && editDraft ? (
+										<>
+											<Button size={ButtonSize.SM} variant={VariantBase.MINIMAL} onClick={() => setEditDraft(null)}>
+												<X className='h-4 w-4' />
+												{t(CommonKey.CANCEL)}
+											</Button>
+											<Button
+												size={ButtonSize.SM}
+												disabled={resolveReports.isPending}
+												onClick={() =>
+													resolveReports.mutate({
+														questionId: question.id,
+														payload: {
+															action: TriviaModerationAction.EDIT,
+															question: editDraft.question,
+															answers: editDraft.answers,
+															correctAnswerIndex: editDraft.correctAnswerIndex,
+														},
+													})
+												}
+											>
+												{!resolveReports.isPending ? (
+													<Check className='h-4 w-4' />
+												) : (
+													<Loader2 className='h-4 w-4 animate-spin' />
+												)}
+												{t(AdminKey.TRIVIA_MODERATION_SAVE_EDIT)}
+											</Button>
+										</>
+									) : (
+										<>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.OUTLINE}
+												disabled={resolveReports.isPending}
+												onClick={() =>
+													resolveReports.mutate({
+														questionId: question.id,
+														payload: { action: TriviaModerationAction.DISMISS },
+													})
+												}
+											>
+												<X className='h-4 w-4' />
+												{t(AdminKey.TRIVIA_MODERATION_DISMISS)}
+											</Button>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.OUTLINE}
+												disabled={resolveReports.isPending}
+												onClick={() => startEdit(item)}
+											>
+												<Pencil className='h-4 w-4' />
+												{t(AdminKey.TRIVIA_MODERATION_EDIT)}
+											</Button>
+											<Button
+												size={ButtonSize.SM}
+												variant={VariantBase.DESTRUCTIVE}
+												disabled={resolveReports.isPending || question.retiredAt != null}
+												onClick={() => setPendingRetireId(question.id)}
+											>
+												<Archive className='h-4 w-4' />
+												{t(AdminKey.TRIVIA_MODERATION_RETIRE)}
+											</Button>
+										</>
+									)}
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			<AlertDialog open={pendingRetireId != null} onOpenChange={open => !open && setPendingRetireId(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t(AdminKey.TRIVIA_MODERATION_RETIRE_CONFIRM_TITLE)}</AlertDialogTitle>
+						<AlertDialogDescription>{t(AdminKey.TRIVIA_MODERATION_RETIRE_CONFIRM_DESC)}</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t(CommonKey.CANCEL)}</AlertDialogCancel>
+						<AlertDialogAction type='button' onClick={confirmRetire}>
+							{t(AdminKey.TRIVIA_MODERATION_RETIRE)}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</SectionCard>
+	);
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation } from '@tanstack/react-query';
+import { Download, FileDown, Loader2 } from 'lucide-react';
+
+import { TriviaPackFormat } from '@shared/constants';
+import { isTriviaPackFormat } from '@shared/validation';
+
+import { AdminKey, ButtonSize, TRIVIA_PACK_FILE_TYPES, TRIVIA_PACK_FORMAT_LABEL_KEYS } from '@/constants';
+import { adminService } from '@/services';
+import { downloadTextFile } from '@/utils';
+import {
+	Button,
+	Label,
+	SectionCard,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components';
+
+export function TriviaPackExport() {
+	const { t } = useTranslation('admin');
+	const [format, setFormat] = useState<TriviaPackFormat>(TriviaPackFormat.JSON);
+
+	const exportPack = useMutation({
+		mutationFn: (exportFormat: TriviaPackFormat) => adminService.exportTriviaPack(exportFormat),
+		onSuccess: result => {
+			downloadTextFile(result.content, result.fileName, TRIVIA_PACK_FILE_TYPES[result.format].mimeType);
+		},
+	});
+
+	return (
+		<SectionCard title={t(AdminKey.TRIVIA_EXPORT_TITLE)} icon={FileDown} description={t(AdminKey.TRIVIA_EXPORT_DESC)}>
+			<div className='flex flex-wrap items-end gap-3'>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.TRIVIA_PACK_FORMAT)}</Label>
+					<Select value={format} onValueChange={value => isTriviaPackFormat(value) && setFormat(value)}>
+						<SelectTrigger className='w-full min-w-0 max-w-[14rem]'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.values(TriviaPackFormat).map(option => (
+								<SelectItem key={option} value={option}>
+									{t(TRIVIA_PACK_FORMAT_LABEL_KEYS[option])}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<Button size={ButtonSize.SM} disabled={exportPack.isPending} onClick={() => exportPack.mutate(format)}>
+					{!exportPack.isPending ? <Download className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+					{t(AdminKey.TRIVIA_EXPORT_DOWNLOAD)}
+				</Button>
+			</div>
+			{exportPack.isError && (
+				<p className='mt-3 text-sm text-destructive'>
+					{exportPack.error instanceof Error ? exportPack.error.message : t(AdminKey.FAILED_TO_SAVE)}
+				</p>
+			)}
+		</SectionCard>
+	);
+}
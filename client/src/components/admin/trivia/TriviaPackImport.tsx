@@ -0,0 +1,249 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileUp, Loader2, SearchCheck, Upload } from 'lucide-react';
+
+import {
+	Locale,
+	OUTPUT_LANGUAGE_LABELS,
+	TriviaImportRowStatus,
+	TriviaPackFormat,
+	VALIDATION_LENGTH,
+} from '@shared/constants';
+import type { ImportTriviaPackRequest, TriviaImportReport } from '@shared/types';
+import { isLocale, isTriviaPackFormat } from '@shared/validation';
+
+import {
+	AdminKey,
+	ButtonSize,
+	QUERY_KEYS,
+	TRIVIA_IMPORT_ROW_STATUS_LABEL_KEYS,
+	TRIVIA_PACK_FILE_TYPES,
+	TRIVIA_PACK_FORMAT_LABEL_KEYS,
+	VariantBase,
+} from '@/constants';
+import { adminService } from '@/services';
+import {
+	Badge,
+	Button,
+	Input,
+	Label,
+	SectionCard,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components';
+
+const ROW_STATUS_VARIANTS: Record<TriviaImportRowStatus, VariantBase> = {
+	[TriviaImportRowStatus.VALID]: VariantBase.SECONDARY,
+	[TriviaImportRowStatus.INVALID]: VariantBase.DESTRUCTIVE,
+	[TriviaImportRowStatus.DUPLICATE]: VariantBase.OUTLINE,
+};
+
+export function TriviaPackImport() {
+	const { t } = useTranslation('admin');
+	const queryClient = useQueryClient();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [format, setFormat] = useState<TriviaPackFormat>(TriviaPackFormat.JSON);
+	const [locale, setLocale] = useState<Locale>(Locale.EN);
+	const [label, setLabel] = useState('');
+	const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+	const [report, setReport] = useState<TriviaImportReport | null>(null);
+
+	const importPack = useMutation({
+		mutationFn: (payload: ImportTriviaPackRequest) => adminService.importTriviaPack(payload),
+		onSuccess: result => {
+			setReport(result);
+			if (!result.dryRun) {
+				void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.allTriviaQuestions() });
+				void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaImportBatches() });
+				void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.admin.triviaDuplicates() });
+			}
+		},
+	});
+
+	// Any change to what would be imported invalidates the last check
+	const resetReport = () => {
+		setReport(null);
+		importPack.reset();
+	};
+
+	const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+		const selectedFile = e.target.files?.[0];
+		e.target.value = '';
+		if (!selectedFile) return;
+		setFile({ name: selectedFile.name, content: await selectedFile.text() });
+		resetReport();
+	};
+
+	const submit = (dryRun: boolean) => {
+		if (!file) return;
+		const trimmedLabel = label.trim();
+		importPack.mutate({
+			format,
+			content: file.content,
+			dryRun,
+			locale,
+			...(trimmedLabel.length > 0 ? { label: trimmedLabel } : {}),
+		});
+	};
+
+	const canImport = report != null && report.dryRun && report.validCount > 0;
+
+	return (
+		<SectionCard title={t(AdminKey.TRIVIA_IMPORT_TITLE)} icon={FileUp} description={t(AdminKey.TRIVIA_IMPORT_DESC)}>
+			<div className='space-y-4'>
+				<div className='grid gap-4 sm:grid-cols-3'>
+					<div className='space-y-1'>
+						<Label>{t(AdminKey.TRIVIA_PACK_FORMAT)}</Label>
+						<Select
+							value={format}
+							onValueChange={value => {
+								if (isTriviaPackFormat(value)) {
+									setFormat(value);
+									resetReport();
+								}
+							}}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.values(TriviaPackFormat).map(option => (
+									<SelectItem key={option} value={option}>
+										{t(TRIVIA_PACK_FORMAT_LABEL_KEYS[option])}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='space-y-1'>
+						<Label>{t(AdminKey.TRIVIA_IMPORT_DEFAULT_LOCALE)}</Label>
+						<Select
+							value={locale}
+							onValueChange={value => {
+								if (isLocale(value)) {
+									setLocale(value);
+									resetReport();
+								}
+							}}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.values(Locale).map(option => (
+									<SelectItem key={option} value={option}>
+										{OUTPUT_LANGUAGE_LABELS[option]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='space-y-1'>
+						<Label>{t(AdminKey.TRIVIA_IMPORT_LABEL)}</Label>
+						<Input
+							value={label}
+							onChange={e => setLabel(e.target.value)}
+							maxLength={VALIDATION_LENGTH.IMPORT_BATCH_LABEL.MAX}
+						/>
+					</div>
+				</div>
+
+				<div className='flex flex-wrap items-center gap-3'>
+					<input
+						ref={fileInputRef}
+						type='file'
+						accept={TRIVIA_PACK_FILE_TYPES[format].accept}
+						className='hidden'
+						onChange={handleFileChange}
+					/>
+					<Button
+						type='button'
+						variant={VariantBase.OUTLINE}
+						size={ButtonSize.SM}
+						onClick={() => fileInputRef.current?.click()}
+					>
+						<Upload className='h-4 w-4' />
+						{t(AdminKey.TRIVIA_IMPORT_CHOOSE_FILE)}
+					</Button>
+					<span className='text-sm text-muted-foreground'>{file?.name ?? t(AdminKey.TRIVIA_IMPORT_NO_FILE)}</span>
+					<div className='ms-auto flex flex-wrap gap-2'>
+						<Button
+							size={ButtonSize.SM}
+							variant={VariantBase.OUTLINE}
+							disabled={file == null || importPack.isPending}
+							onClick={() => submit(true)}
+						>
+							{!importPack.isPending ? (
+								<SearchCheck className='h-4 w-4' />
+							) : (
+								<Loader2 className='h-4 w-4 animate-spin' />
+							)}
+							{t(AdminKey.TRIVIA_IMPORT_CHECK)}
+						</Button>
+						<Button size={ButtonSize.SM} disabled={!canImport || importPack.isPending} onClick={() => submit(false)}>
+							<FileUp className='h-4 w-4' />
+							{t(AdminKey.TRIVIA_IMPORT_RUN, { count: canImport ? report.validCount : 0 })}
+						</Button>
+					</div>
+				</div>
+
+				{importPack.isError && (
+					<p className='text-sm text-destructive'>
+						{importPack.error instanceof Error ? importPack.error.message : t(AdminKey.FAILED_TO_SAVE)}
+					</p>
+				)}
+
+				{report && (
+					<div className='space-y-3'>
+						<p className='text-sm font-medium'>
+							{report.dryRun
+								? t(AdminKey.TRIVIA_IMPORT_SUMMARY, {
+										total: report.totalRows,
+										valid: report.validCount,
+										invalid: report.invalidCount,
+										duplicate: report.duplicateCount,
+									})
+								: t(AdminKey.TRIVIA_IMPORT_DONE, { count: report.importedCount })}
+						</p>
+						<div className='max-h-96 overflow-auto rounded-md border'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>{t(AdminKey.TRIVIA_IMPORT_ROW)}</TableHead>
+										<TableHead>{t(AdminKey.TRIVIA_EDITOR_QUESTION)}</TableHead>
+										<TableHead>{t(AdminKey.TRIVIA_IMPORT_STATUS)}</TableHead>
+										<TableHead>{t(AdminKey.TRIVIA_IMPORT_ISSUES)}</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{report.rows.map(row => (
+										<TableRow key={row.row}>
+											<TableCell className='text-muted-foreground'>{row.row}</TableCell>
+											<TableCell className='font-medium'>{row.question}</TableCell>
+											<TableCell>
+												<Badge variant={ROW_STATUS_VARIANTS[row.status]}>
+													{t(TRIVIA_IMPORT_ROW_STATUS_LABEL_KEYS[row.status])}
+												</Badge>
+											</TableCell>
+											<TableCell className='text-sm text-muted-foreground'>{row.errors.join('; ')}</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					</div>
+				)}
+			</div>
+		</SectionCard>
+	);
+}
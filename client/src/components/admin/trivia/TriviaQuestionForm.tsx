@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Loader2, Plus, Trash2, X } from 'lucide-react';
+
+import { Locale, OUTPUT_LANGUAGE_LABELS, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+import type { TriviaQuestionDraft } from '@shared/types';
+import { isLocale, isRegisteredDifficulty, validateTriviaQuestionDraft } from '@shared/validation';
+
+import { AdminKey, ButtonSize, CommonKey, TRIVIA_EDITOR_DIFFICULTIES, VariantBase } from '@/constants';
+import type { TriviaQuestionFormProps } from '@/types';
+import { getDifficultyDisplayLabel } from '@/utils';
+import {
+	Button,
+	Input,
+	Label,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Textarea,
+} from '@/components';
+
+export function TriviaQuestionForm({
+	initialDraft,
+	submitLabel,
+	isSaving,
+	onSubmit,
+	onCancel,
+}: TriviaQuestionFormProps) {
+	const { t } = useTranslation();
+	const [draft, setDraft] = useState<TriviaQuestionDraft>(initialDraft);
+	const [errors, setErrors] = useState<string[]>([]);
+
+	const updateDraft = (changes: Partial<TriviaQuestionDraft>) => {
+		setDraft(current => ({ ...current, ...changes }));
+		setErrors([]);
+	};
+
+	const removeAnswer = (index: number) => {
+		const answers = draft.answers.filter((_, i) => i !== index);
+		const correctAnswerIndex =
+			index === draft.correctAnswerIndex ? 0 : draft.correctAnswerIndex - (index < draft.correctAnswerIndex ? 1 : 0);
+		updateDraft({ answers, correctAnswerIndex });
+	};
+
+	const handleSubmit = () => {
+		const validation = validateTriviaQuestionDraft(draft);
+		if (!validation.isValid) {
+			setErrors(validation.errors);
+			return;
+		}
+		onSubmit(draft);
+	};
+
+	return (
+		<div className='space-y-4'>
+			<div className='space-y-1'>
+				<Label>{t(AdminKey.TRIVIA_EDITOR_QUESTION)}</Label>
+				<Textarea
+					value={draft.question}
+					onChange={e => updateDraft({ question: e.target.value })}
+					maxLength={VALIDATION_LENGTH.QUESTION.MAX}
+				/>
+			</div>
+
+			<div className='space-y-2'>
+				<Label>{t(AdminKey.TRIVIA_EDITOR_ANSWERS)}</Label>
+				{draft.answers.map((answer, index) => (
+					<div key={index} className='flex items-center gap-2'>
+						<Input
+							value={answer}
+							onChange={e =>
+								updateDraft({ answers: draft.answers.map((text, i) => (i === index ? e.target.value : text)) })
+							}
+							maxLength={VALIDATION_LENGTH.ANSWER.MAX}
+						/>
+						<Button
+							type='button'
+							size={ButtonSize.SM}
+							variant={VariantBase.MINIMAL}
+							aria-label={t(AdminKey.TRIVIA_EDITOR_REMOVE_ANSWER)}
+							disabled={draft.answers.length <= VALIDATION_COUNT.ANSWER_COUNT.MIN}
+							onClick={() => removeAnswer(index)}
+						>
+							<Trash2 className='h-4 w-4' />
+						</Button>
+					</div>
+				))}
+				<Button
+					type='button'
+					size={ButtonSize.SM}
+					variant={VariantBase.OUTLINE}
+					disabled={draft.answers.length >= VALIDATION_COUNT.ANSWER_COUNT.MAX}
+					onClick={() => updateDraft({ answers: [...draft.answers, ''] })}
+				>
+					<Plus className='h-4 w-4' />
+					{t(AdminKey.TRIVIA_EDITOR_ADD_ANSWER)}
+				</Button>
+			</div>
+
+			<div className='grid gap-4 sm:grid-cols-2'>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.TRIVIA_EDITOR_CORRECT_ANSWER)}</Label>
+					<Select
+						value={String(draft.correctAnswerIndex)}
+						onValueChange={value => updateDraft({ correctAnswerIndex: Number(value) })}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{draft.answers.map((answer, index) => (
+								<SelectItem key={index} value={String(index)}>
+									{answer.trim() || `#${index + 1}`}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.TRIVIA_EDITOR_TOPIC)}</Label>
+					<Input
+						value={draft.topic}
+						onChange={e => updateDraft({ topic: e.target.value })}
+						maxLength={VALIDATION_LENGTH.TOPIC.MAX}
+					/>
+				</div>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.TRIVIA_EDITOR_DIFFICULTY)}</Label>
+					<Select
+						value={draft.difficulty}
+						onValueChange={value => isRegisteredDifficulty(value) && updateDraft({ difficulty: value })}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{TRIVIA_EDITOR_DIFFICULTIES.map(difficulty => (
+								<SelectItem key={difficulty} value={difficulty}>
+									{getDifficultyDisplayLabel(difficulty, t)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className='space-y-1'>
+					<Label>{t(AdminKey.TRIVIA_EDITOR_LOCALE)}</Label>
+					<Select value={draft.locale} onValueChange={value => isLocale(value) && updateDraft({ locale: value })}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.values(Locale).map(locale => (
+								<SelectItem key={locale} value={locale}>
+									{OUTPUT_LANGUAGE_LABELS[locale]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className='space-y-1'>
+				<Label>{t(AdminKey.TRIVIA_EDITOR_EXPLANATION)}</Label>
+				<Textarea
+					value={draft.explanation ?? ''}
+					onChange={e => updateDraft({ explanation: e.target.value })}
+					maxLength={VALIDATION_LENGTH.EXPLANATION.MAX}
+				/>
+			</div>
+
+			{errors.length > 0 && (
+				<ul className='space-y-1 text-sm text-destructive'>
+					{errors.map(error => (
+						<li key={error}>{error}</li>
+					))}
+				</ul>
+			)}
+
+			<div className='flex justify-end gap-2'>
+				<Button type='button' size={ButtonSize.SM} variant={VariantBase.MINIMAL} onClick={onCancel}>
+					<X className='h-4 w-4' />
+					{t(CommonKey.CANCEL)}
+				</Button>
+				<Button type='button' size={ButtonSize.SM} disabled={isSaving} onClick={handleSubmit}>
+					{!isSaving ? <Check className='h-4 w-4' /> : <Loader2 className='h-4 w-4 animate-spin' />}
+					{submitLabel}
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next';
+
+import { AdminKey, TriviaManagementTab } from '@/constants';
+import {
+	DuplicateQuestionsSection,
+	QuestionAnalyticsSection,
+	QuestionCalibrationSection,
+	Tabs,
+	TabsContent,
+	TopicCatalogSection,
+	TriviaImportBatchList,
+	TriviaManagementTable,
+	TriviaModerationQueue,
+	TriviaPackExport,
+	TriviaPackImport,
+} from '@/components';
+import { SecondaryTabsBar } from '@/components/layout';
+
+export function TriviaTabContent() {
+	const { t } = useTranslation('admin');
+
+	const triviaTabItems = [
+		{ value: TriviaManagementTab.QUESTIONS, label: t(AdminKey.TRIVIA_TAB_ALL_QUESTIONS) },
+		{ value: TriviaManagementTab.MODERATION, label: t(AdminKey.TRIVIA_TAB_MODERATION) },
+		{ value: TriviaManagementTab.PACKS, label: t(AdminKey.TRIVIA_TAB_PACKS) },
+		{ value: TriviaManagementTab.TOPICS, label: t(AdminKey.TRIVIA_TAB_TOPICS) },
+	];
+
+	return (
+		<Tabs defaultValue={TriviaManagementTab.QUESTIONS} className='w-full'>
+			<SecondaryTabsBar items={triviaTabItems} columns={4} />
+
+			<TabsContent value={TriviaManagementTab.QUESTIONS} className='space-y-8'>
+				<TriviaManagementTable />
+				<DuplicateQuestionsSection />
+				<QuestionCalibrationSection />
+				<QuestionAnalyticsSection />
+			</TabsContent>
+			<TabsContent value={TriviaManagementTab.MODERATION}>
+				<TriviaModerationQueue />
+			</TabsContent>
+			<TabsContent value={TriviaManagementTab.PACKS} className='space-y-8'>
+				<TriviaPackImport />
+				<TriviaPackExport />
+				<TriviaImportBatchList />
+			</TabsContent>
+			<TabsContent value={TriviaManagementTab.TOPICS}>
+				<TopicCatalogSection />
+			</TabsContent>
+		</Tabs>
+	);
+}
@@ -1 +1,13 @@
+export * from './DuplicateQuestionsSection';
+export * from './QuestionAnalyticsDialog';
+export * from './QuestionAnalyticsSection';
+export * from './QuestionCalibrationSection';
+export * from './TopicCatalogEditForm';
+export * from './TopicCatalogSection';
+export * from './TriviaImportBatchList';
 export * from './TriviaManagementTable';
+export * from './TriviaModerationQueue';
+export * from './TriviaPackExport';
+export * from './TriviaPackImport';
+export * from './TriviaQuestionForm';
+export * from './TriviaTabContent';
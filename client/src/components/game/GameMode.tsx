@@ -216,7 +216,8 @@ export function GameMode({
 					settings.topic ?? DEFAULT_GAME_CONFIG.defaultTopic,
 					settings.difficulty ?? DEFAULT_GAME_CONFIG.defaultDifficulty,
 					settings.mode,
-					locale
+					locale,
+					settings.timeLimit
 				);
 			} catch (error) {
 				const message = getTranslatedErrorMessage(tGlobal, error);
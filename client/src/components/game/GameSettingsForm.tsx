@@ -22,10 +22,11 @@ import {
 } from '@/constants';
 import type { GameSettingsFormProps, TopicWithMeta } from '@/types';
 import { cn, formatTimeLimitDisplay, getDifficultyDisplayLabel } from '@/utils';
-import { Alert, AlertDescription, Badge, Button, Input, Label, NumberInput, Textarea } from '@/components';
+import { Alert, AlertDescription, Badge, Button, Label, NumberInput, Textarea } from '@/components';
 import { useAppSelector, usePopularTopics, useUserAnalytics } from '@/hooks';
 import { selectLocale } from '@/redux/selectors';
 import { SurpriseMeDialog } from './SurpriseMeDialog';
+import { TopicCombobox } from './TopicCombobox';
 
 const topicChipVariants = cva(
 	'inline-flex items-center rounded-md border transition-colors h-auto py-1.5 gap-2 shrink-0',
@@ -227,12 +228,11 @@ export function GameSettingsForm({
 					<Tag className='h-4 w-4 text-muted-foreground' />
 					{t(GameKey.TOPIC)}
 				</Label>
-				<Input
+				<TopicCombobox
 					placeholder={t(GameKey.ENTER_TOPIC_OR_LEAVE_EMPTY)}
 					value={topic}
-					onChange={e => onTopicChange(e.target.value)}
+					onChange={onTopicChange}
 					error={isTopicFieldError}
-					aria-invalid={isTopicFieldError}
 				/>
 				{topicError && !hideInlineFieldAlerts && (
 					<Alert variant={AlertVariant.DESTRUCTIVE} className='py-2'>
@@ -50,6 +50,7 @@ export function GameTimer({
 	onWarning,
 	label,
 	showProgressBar = true,
+	isPaused = false,
 }: GameTimerProps) {
 	const [currentTime, setCurrentTime] = useState(() => {
 		if (mode === TimerMode.COUNTDOWN && initialTime !== undefined) {
@@ -78,6 +79,14 @@ export function GameTimer({
 	useEffect(() => {
 		if (mode !== TimerMode.COUNTDOWN) return;
 
+		// Frozen on the remaining time; the server sends a shifted end timestamp when the clock resumes
+		if (isPaused) {
+			if (serverEndTimestamp !== undefined) {
+				setCurrentTime(Math.floor(Math.max(0, serverEndTimestamp - Date.now()) / TIME_PERIODS_MS.SECOND));
+			}
+			return;
+		}
+
 		const onWarning = onWarningRef.current ?? undefined;
 		lastBeepRemainingRef.current = -1;
 
@@ -121,7 +130,7 @@ export function GameTimer({
 			setCurrentTime(localTime);
 			tryPlayWarning(localTime, threshold, lastBeepRemainingRef, onWarningRef.current ?? undefined);
 		}, TIME_PERIODS_MS.SECOND);
-	}, [mode, initialTime, startTime, serverStartTimestamp, serverEndTimestamp]);
+	}, [mode, initialTime, startTime, serverStartTimestamp, serverEndTimestamp, isPaused]);
 
 	// Handle timeout separately to avoid calling navigate during render
 	useEffect(() => {
@@ -44,16 +44,21 @@ export const PublicLobbyRoomCard = memo(function PublicLobbyRoomCard({
 		[room, density]
 	);
 
-	const handleJoinClick = useCallback(() => {
-		const joinTarget = `${Routes.MULTIPLAYER}?join=${encodeURIComponent(room.roomId)}`;
-		if (isAuthenticated) {
-			navigate(joinTarget);
-			return;
-		}
-		navigate(Routes.LOGIN, {
-			state: { modal: true, returnUrl: joinTarget },
-		});
-	}, [isAuthenticated, navigate, room.roomId]);
+	const openRoom = useCallback(
+		(spectate: boolean) => {
+			const joinTarget = `${Routes.MULTIPLAYER}?join=${encodeURIComponent(room.roomId)}${spectate ? '&spectate=1' : ''}`;
+			if (isAuthenticated) {
+				navigate(joinTarget);
+				return;
+			}
+			navigate(Routes.LOGIN, {
+				state: { modal: true, returnUrl: joinTarget },
+			});
+		},
+		[isAuthenticated, navigate, room.roomId]
+	);
+	const handleJoinClick = useCallback(() => openRoom(false), [openRoom]);
+	const handleWatchClick = useCallback(() => openRoom(true), [openRoom]);
 
 	if (density === UiDensity.COMPACT) {
 		const topicDisplay = formatTitle(room.config.topic ?? DEFAULT_GAME_CONFIG.defaultTopic);
@@ -77,6 +82,12 @@ export const PublicLobbyRoomCard = memo(function PublicLobbyRoomCard({
 							<span className='tabular-nums'>
 								{t(HomeKey.PUBLIC_LOBBY_PLAYER_SLOTS, { current: playerCount, max: maxPlayers })}
 							</span>
+							{room.spectatorCount > 0 && (
+								<>
+									<span className='select-none text-border'>·</span>
+									<span className='tabular-nums'>{t(GameKey.SPECTATOR_COUNT, { count: room.spectatorCount })}</span>
+								</>
+							)}
 						</div>
 					</div>
 					<div className='flex shrink-0 flex-col gap-2 sm:flex-row sm:items-center sm:justify-end'>
@@ -94,6 +105,14 @@ export const PublicLobbyRoomCard = memo(function PublicLobbyRoomCard({
 								<AnimatedCopyFeedbackIcon success={copied} variant={AnimatedCopyFeedbackIconVariant.ON_PRIMARY} />
 							</Button>
 						</div>
+						<Button
+							size={ButtonSize.SM}
+							variant={VariantBase.OUTLINE}
+							onClick={handleWatchClick}
+							className='w-full shrink-0 sm:w-auto'
+						>
+							{t(HomeKey.PUBLIC_LOBBY_WATCH)}
+						</Button>
 						<Button size={ButtonSize.SM} onClick={handleJoinClick} className='w-full shrink-0 sm:w-auto'>
 							{isAuthenticated ? t(HomeKey.PUBLIC_LOBBY_JOIN) : t(HomeKey.PUBLIC_LOBBY_LOGIN_TO_JOIN)}
 						</Button>
@@ -107,12 +126,22 @@ export const PublicLobbyRoomCard = memo(function PublicLobbyRoomCard({
 		<div className='space-y-4 rounded-lg border border-border/60 bg-card/30 p-4 md:p-5'>
 			<div className='flex flex-col items-center gap-3 sm:flex-row sm:flex-wrap sm:items-center sm:justify-between sm:gap-x-6 sm:gap-y-3'>
 				<LobbyRoomCodeBlock roomCode={room.roomId} copied={copied} onCopy={copy} />
-				<Button size={ButtonSize.LG} onClick={handleJoinClick} className='w-full shrink-0 sm:w-auto'>
-					{isAuthenticated ? t(HomeKey.PUBLIC_LOBBY_JOIN) : t(HomeKey.PUBLIC_LOBBY_LOGIN_TO_JOIN)}
-				</Button>
+				<div className='flex w-full shrink-0 gap-2 sm:w-auto'>
+					<Button
+						size={ButtonSize.LG}
+						variant={VariantBase.OUTLINE}
+						onClick={handleWatchClick}
+						className='flex-1 sm:flex-none'
+					>
+						{t(HomeKey.PUBLIC_LOBBY_WATCH)}
+					</Button>
+					<Button size={ButtonSize.LG} onClick={handleJoinClick} className='flex-1 sm:flex-none'>
+						{isAuthenticated ? t(HomeKey.PUBLIC_LOBBY_JOIN) : t(HomeKey.PUBLIC_LOBBY_LOGIN_TO_JOIN)}
+					</Button>
+				</div>
 			</div>
 
-			<LobbyPlayersCard players={playerRows} maxPlayers={room.config.maxPlayers} />
+			<LobbyPlayersCard players={playerRows} maxPlayers={room.config.maxPlayers} spectatorCount={room.spectatorCount} />
 
 			<LobbyGameDetailsCard
 				topic={room.config.topic ?? DEFAULT_GAME_CONFIG.defaultTopic}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Flag } from 'lucide-react';
+
+import { TriviaReportReason, VALIDATION_LENGTH } from '@shared/constants';
+import { getErrorMessage } from '@shared/utils';
+import { isTriviaReportReason } from '@shared/validation';
+
+import {
+	ButtonSize,
+	ComponentSize,
+	DialogContentSize,
+	GameKey,
+	TRIVIA_REPORT_REASON_LABEL_KEYS,
+	VariantBase,
+} from '@/constants';
+import type { ReportQuestionDialogProps } from '@/types';
+import { gameService } from '@/services';
+import {
+	Button,
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	Label,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Spinner,
+	Textarea,
+} from '@/components';
+import { toast } from '@/hooks';
+
+export function ReportQuestionDialog({ questionId, size = ButtonSize.SM }: ReportQuestionDialogProps): JSX.Element {
+	const { t } = useTranslation('game');
+	const [open, setOpen] = useState(false);
+	const [reason, setReason] = useState<TriviaReportReason>(TriviaReportReason.WRONG_ANSWER);
+	const [note, setNote] = useState('');
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const handleOpenChange = (nextOpen: boolean) => {
+		setOpen(nextOpen);
+		if (!nextOpen) {
+			setReason(TriviaReportReason.WRONG_ANSWER);
+			setNote('');
+		}
+	};
+
+	const handleSubmit = async () => {
+		setIsSubmitting(true);
+		try {
+			const trimmedNote = note.trim();
+			await gameService.reportQuestion(questionId, {
+				reason,
+				...(trimmedNote.length > 0 ? { note: trimmedNote } : {}),
+			});
+			toast.success({ title: t(GameKey.REPORT_QUESTION_SENT) });
+			handleOpenChange(false);
+		} catch (error) {
+			const detail = getErrorMessage(error);
+			toast.error({
+				title: t(GameKey.REPORT_QUESTION_FAILED),
+				...(detail.trim().length > 0 ? { description: detail } : {}),
+			});
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<>
+			<Button type='button' variant={VariantBase.MINIMAL} size={size} onClick={() => setOpen(true)}>
+				<Flag className='h-4 w-4 me-2' />
+				{t(GameKey.REPORT_QUESTION)}
+			</Button>
+			<Dialog open={open} onOpenChange={handleOpenChange}>
+				<DialogContent size={DialogContentSize.SM} className='max-w-sm'>
+					<DialogHeader>
+						<DialogTitle>{t(GameKey.REPORT_QUESTION)}</DialogTitle>
+						<DialogDescription>{t(GameKey.REPORT_QUESTION_DESCRIPTION)}</DialogDescription>
+					</DialogHeader>
+					<div className='space-y-4 py-2'>
+						<div className='space-y-2'>
+							<Label>{t(GameKey.REPORT_QUESTION_REASON)}</Label>
+							<Select value={reason} onValueChange={value => isTriviaReportReason(value) && setReason(value)}>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.values(TriviaReportReason).map(option => (
+										<SelectItem key={option} value={option}>
+											{t(TRIVIA_REPORT_REASON_LABEL_KEYS[option])}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='space-y-2'>
+							<Label>{t(GameKey.REPORT_QUESTION_NOTE)}</Label>
+							<Textarea
+								value={note}
+								onChange={e => setNote(e.target.value)}
+								placeholder={t(GameKey.REPORT_QUESTION_NOTE_PLACEHOLDER)}
+								maxLength={VALIDATION_LENGTH.REPORT_NOTE.MAX}
+								disabled={isSubmitting}
+							/>
+						</div>
+					</div>
+					<DialogFooter>
+						<Button
+							type='button'
+							size={ButtonSize.SM}
+							onClick={handleSubmit}
+							disabled={isSubmitting}
+							className='min-w-[6rem] gap-2'
+						>
+							{isSubmitting && <Spinner size={ComponentSize.SM} />}
+							{t(GameKey.REPORT_QUESTION_SUBMIT)}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
@@ -0,0 +1,123 @@
+import { useId, useState, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { GameKey, TOPIC_SUGGESTION_SOURCE_LABEL_KEYS, VariantBase } from '@/constants';
+import type { TopicComboboxProps } from '@/types';
+import { cn } from '@/utils';
+import { Badge, Input } from '@/components';
+import { useAppSelector, useTopicSuggestions } from '@/hooks';
+import { selectLocale } from '@/redux/selectors';
+
+export function TopicCombobox({ value, onChange, placeholder, error = false }: TopicComboboxProps): JSX.Element {
+	const { t } = useTranslation('game');
+	const locale = useAppSelector(selectLocale);
+	const listId = useId();
+	const [isOpen, setIsOpen] = useState(false);
+	const [activeIndex, setActiveIndex] = useState(-1);
+
+	const { data } = useTopicSuggestions(value, locale, { enabled: isOpen });
+	const suggestions = data?.suggestions ?? [];
+	const isListVisible = isOpen && suggestions.length > 0;
+
+	const selectSuggestion = (topic: string) => {
+		onChange(topic);
+		setIsOpen(false);
+		setActiveIndex(-1);
+	};
+
+	const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+		switch (e.key) {
+			case 'ArrowDown':
+				e.preventDefault();
+				setIsOpen(true);
+				setActiveIndex(index => (suggestions.length > 0 ? (index + 1) % suggestions.length : -1));
+				break;
+			case 'ArrowUp':
+				e.preventDefault();
+				setActiveIndex(index => (suggestions.length > 0 ? (index <= 0 ? suggestions.length - 1 : index - 1) : -1));
+				break;
+			case 'Enter': {
+				const active = isListVisible ? suggestions[activeIndex] : undefined;
+				if (active) {
+					e.preventDefault();
+					selectSuggestion(active.topic);
+				}
+				break;
+			}
+			case 'Escape':
+				if (isListVisible) {
+					e.preventDefault();
+					setIsOpen(false);
+					setActiveIndex(-1);
+				}
+				break;
+		}
+	};
+
+	return (
+		<div className='relative'>
+			<Input
+				role='combobox'
+				aria-expanded={isListVisible}
+				aria-controls={listId}
+				aria-autocomplete='list'
+				aria-activedescendant={isListVisible && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+				aria-invalid={error}
+				autoComplete='off'
+				placeholder={placeholder}
+				value={value}
+				error={error}
+				onChange={e => {
+					onChange(e.target.value);
+					setIsOpen(true);
+					setActiveIndex(-1);
+				}}
+				onFocus={() => setIsOpen(true)}
+				onBlur={() => setIsOpen(false)}
+				onKeyDown={handleKeyDown}
+			/>
+			{isListVisible && (
+				<ul
+					id={listId}
+					role='listbox'
+					aria-label={t(GameKey.TOPIC_SUGGESTIONS_LABEL)}
+					className='absolute z-50 mt-1 max-h-72 w-full overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md'
+				>
+					{suggestions.map((suggestion, index) => (
+						<li
+							key={suggestion.topic}
+							id={`${listId}-${index}`}
+							role='option'
+							aria-selected={index === activeIndex}
+							className={cn(
+								'flex cursor-pointer items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-sm',
+								index === activeIndex && 'bg-accent text-accent-foreground'
+							)}
+							// Keeps focus in the input so the blur handler does not close the list before the click lands
+							onMouseDown={e => e.preventDefault()}
+							onMouseEnter={() => setActiveIndex(index)}
+							onClick={() => selectSuggestion(suggestion.topic)}
+						>
+							<span className='truncate'>{suggestion.topic}</span>
+							<span className='flex shrink-0 items-center gap-1.5'>
+								{suggestion.sources.map(source => {
+									const labelKey = TOPIC_SUGGESTION_SOURCE_LABEL_KEYS[source];
+									return labelKey ? (
+										<Badge key={source} variant={VariantBase.OUTLINE} className='h-4 px-1.5 py-0 text-[10px]'>
+											{t(labelKey)}
+										</Badge>
+									) : null;
+								})}
+								<span className='whitespace-nowrap text-xs tabular-nums text-muted-foreground'>
+									{suggestion.questionCount > 0
+										? t(GameKey.TOPIC_SUGGESTION_QUESTIONS_READY, { count: suggestion.questionCount })
+										: t(GameKey.TOPIC_SUGGESTION_NEW_TOPIC)}
+								</span>
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -6,6 +6,8 @@ export * from './GameSessionHud';
 export * from './GameSettingsForm';
 export * from './GameSettingsFlowIssuesAlert';
 export * from './SurpriseMeDialog';
+export * from './TopicCombobox';
 export * from './QuestionBreakdown';
+export * from './ReportQuestionDialog';
 export * from './PublicLobbyRoomCard';
 export * from './SummaryActionButtons';
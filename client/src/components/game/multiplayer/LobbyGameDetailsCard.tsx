@@ -5,7 +5,7 @@ import { Info } from 'lucide-react';
 import { DEFAULT_GAME_CONFIG } from '@shared/constants';
 import { formatTitle } from '@shared/utils';
 
-import { GameKey, MULTIPLAYER_ROOM_STATUS_LABEL_KEYS, VariantBase } from '@/constants';
+import { ANSWER_POLICY_LABEL_KEYS, GameKey, MULTIPLAYER_ROOM_STATUS_LABEL_KEYS, VariantBase } from '@/constants';
 import type { LobbyGameDetailsCardProps } from '@/types';
 import { getDifficultyDisplayLabel } from '@/utils';
 import { Badge, Card, CardContent, CardHeader, CardTitle } from '@/components';
@@ -16,6 +16,8 @@ export const LobbyGameDetailsCard = memo(function LobbyGameDetailsCard({
 	questionsCount,
 	status,
 	statusTrailing,
+	timePerQuestion,
+	answerPolicy,
 }: LobbyGameDetailsCardProps) {
 	const { t } = useTranslation('game');
 	const statusKey = MULTIPLAYER_ROOM_STATUS_LABEL_KEYS[status] ?? GameKey.ROOM_STATUS_WAITING;
@@ -44,6 +46,18 @@ export const LobbyGameDetailsCard = memo(function LobbyGameDetailsCard({
 						<span className='text-muted-foreground'>{t(GameKey.QUESTIONS_LABEL)}:</span>
 						<span className='font-medium'>{questionsCount}</span>
 					</div>
+					{timePerQuestion !== undefined && (
+						<div className='flex justify-between gap-2'>
+							<span className='text-muted-foreground'>{t(GameKey.TIME_PER_QUESTION)}:</span>
+							<span className='font-medium'>{t(GameKey.TIME_PER_QUESTION_OPTION, { count: timePerQuestion })}</span>
+						</div>
+					)}
+					{answerPolicy !== undefined && (
+						<div className='flex justify-between gap-2'>
+							<span className='text-muted-foreground'>{t(GameKey.ANSWER_POLICY)}:</span>
+							<span className='min-w-0 truncate text-end font-medium'>{t(ANSWER_POLICY_LABEL_KEYS[answerPolicy])}</span>
+						</div>
+					)}
 					<div className='flex items-center justify-between gap-2'>
 						<span className='text-muted-foreground'>{t(GameKey.STATUS_LABEL)}:</span>
 						<Badge variant={VariantBase.OUTLINE} className='inline-flex items-center gap-1.5'>
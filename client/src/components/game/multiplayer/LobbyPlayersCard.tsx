@@ -1,17 +1,45 @@
-import { memo } from 'react';
+import { memo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion } from 'framer-motion';
-import { Crown, Grid2x2Check } from 'lucide-react';
+import { Ban, Crown, Eye, Grid2x2Check, UserX } from 'lucide-react';
 
 import { PlayerStatus } from '@shared/constants';
 
-import { AvatarSize, GameKey, SEMANTIC_ICON_TEXT, VariantBase } from '@/constants';
-import type { LobbyPlayersCardProps } from '@/types';
+import { AvatarSize, ButtonSize, GameKey, SEMANTIC_ICON_TEXT, VariantBase } from '@/constants';
+import type { LobbyPlayerCardRow, LobbyPlayersCardProps } from '@/types';
 import { cn } from '@/utils';
-import { Badge, Card, CardContent, CardHeader, CardTitle, UserAvatar } from '@/components';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	Badge,
+	Button,
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	UserAvatar,
+} from '@/components';
 
-export const LobbyPlayersCard = memo(function LobbyPlayersCard({ players, maxPlayers }: LobbyPlayersCardProps) {
+export const LobbyPlayersCard = memo(function LobbyPlayersCard({
+	players,
+	maxPlayers,
+	spectatorCount = 0,
+	moderation,
+	teams,
+}: LobbyPlayersCardProps) {
 	const { t } = useTranslation('game');
+	const [banTarget, setBanTarget] = useState<LobbyPlayerCardRow | null>(null);
 
 	return (
 		<Card>
@@ -19,33 +47,117 @@ export const LobbyPlayersCard = memo(function LobbyPlayersCard({ players, maxPla
 				<CardTitle className='flex items-center gap-2'>
 					<Grid2x2Check className='h-5 w-5 text-primary' />
 					{t(GameKey.PLAYERS)} ({players.length}/{maxPlayers})
+					{spectatorCount > 0 ? (
+						<span className='ms-auto flex items-center gap-1 text-sm font-normal text-muted-foreground'>
+							<Eye className='h-4 w-4' />
+							{t(GameKey.SPECTATOR_COUNT, { count: spectatorCount })}
+						</span>
+					) : null}
 				</CardTitle>
 			</CardHeader>
 			<CardContent>
 				<div className='space-y-3'>
-					{players.map(player => (
-						<motion.div
-							key={player.rowKey}
-							initial={{ opacity: 0, x: -10 }}
-							animate={{ opacity: 1, x: 0 }}
-							className='flex items-center gap-3 rounded-lg bg-muted/50 p-3'
-						>
-							<UserAvatar source={player.avatarSource} name={player.displayName} size={AvatarSize.MD} />
-							<div className='flex-1'>
-								<div className='flex items-center gap-2'>
-									<span className='font-medium'>{player.displayName}</span>
-									{player.showCrown ? <Crown className={cn('h-4 w-4', SEMANTIC_ICON_TEXT.warning)} /> : null}
-								</div>
-							</div>
-							<Badge
-								variant={player.status === PlayerStatus.DISCONNECTED ? VariantBase.SECONDARY : VariantBase.DEFAULT}
+					{players.map(player => {
+						const targetUserId = moderation && !player.showCrown ? player.userId : undefined;
+						const teamUserId = teams && player.userId && teams.canAssign(player.userId) ? player.userId : undefined;
+						return (
+							<motion.div
+								key={player.rowKey}
+								initial={{ opacity: 0, x: -10 }}
+								animate={{ opacity: 1, x: 0 }}
+								className='flex items-center gap-3 rounded-lg bg-muted/50 p-3'
 							>
-								{player.status === PlayerStatus.DISCONNECTED ? t(GameKey.NOT_READY) : t(GameKey.READY)}
-							</Badge>
-						</motion.div>
-					))}
+								<UserAvatar source={player.avatarSource} name={player.displayName} size={AvatarSize.MD} />
+								<div className='flex-1'>
+									<div className='flex items-center gap-2'>
+										<span className='font-medium'>{player.displayName}</span>
+										{player.showCrown ? <Crown className={cn('h-4 w-4', SEMANTIC_ICON_TEXT.warning)} /> : null}
+									</div>
+								</div>
+								{teams && teamUserId ? (
+									<Select
+										value={player.teamIndex !== undefined ? String(player.teamIndex) : undefined}
+										onValueChange={value => teams.onAssign(teamUserId, Number(value))}
+									>
+										<SelectTrigger className='h-8 w-28' aria-label={t(GameKey.TEAMS)}>
+											<SelectValue placeholder={t(GameKey.TEAMS)} />
+										</SelectTrigger>
+										<SelectContent>
+											{Array.from({ length: teams.teamCount }, (_, teamIndex) => (
+												<SelectItem key={teamIndex} value={String(teamIndex)}>
+													{t(GameKey.TEAM_NAME, { number: teamIndex + 1 })}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								) : teams && player.teamIndex !== undefined ? (
+									<Badge variant={VariantBase.OUTLINE}>{t(GameKey.TEAM_NAME, { number: player.teamIndex + 1 })}</Badge>
+								) : null}
+								{moderation && targetUserId ? (
+									<div className='flex items-center gap-1'>
+										<Button
+											size={ButtonSize.SM}
+											variant={VariantBase.MINIMAL}
+											aria-label={t(GameKey.MAKE_HOST)}
+											title={t(GameKey.MAKE_HOST)}
+											disabled={player.status === PlayerStatus.DISCONNECTED}
+											onClick={() => moderation.onTransferHost(targetUserId)}
+										>
+											<Crown className='h-4 w-4' />
+										</Button>
+										<Button
+											size={ButtonSize.SM}
+											variant={VariantBase.MINIMAL}
+											aria-label={t(GameKey.KICK_PLAYER)}
+											title={t(GameKey.KICK_PLAYER)}
+											onClick={() => moderation.onKick(targetUserId)}
+										>
+											<UserX className='h-4 w-4' />
+										</Button>
+										<Button
+											size={ButtonSize.SM}
+											variant={VariantBase.MINIMAL}
+											aria-label={t(GameKey.BAN_PLAYER)}
+											title={t(GameKey.BAN_PLAYER)}
+											onClick={() => setBanTarget(player)}
+										>
+											<Ban className='h-4 w-4 text-destructive' />
+										</Button>
+									</div>
+								) : null}
+								<Badge
+									variant={player.status === PlayerStatus.DISCONNECTED ? VariantBase.SECONDARY : VariantBase.DEFAULT}
+								>
+									{player.status === PlayerStatus.DISCONNECTED ? t(GameKey.NOT_READY) : t(GameKey.READY)}
+								</Badge>
+							</motion.div>
+						);
+					})}
 				</div>
 			</CardContent>
+			<AlertDialog open={banTarget != null} onOpenChange={open => !open && setBanTarget(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t(GameKey.BAN_PLAYER)}</AlertDialogTitle>
+						<AlertDialogDescription>
+							{t(GameKey.BAN_PLAYER_CONFIRM_DESCRIPTION, { name: banTarget?.displayName ?? '' })}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t(GameKey.CANCEL)}</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={() => {
+								if (moderation && banTarget?.userId) {
+									moderation.onBan(banTarget.userId);
+								}
+								setBanTarget(null);
+							}}
+						>
+							{t(GameKey.BAN_PLAYER)}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
 		</Card>
 	);
 });
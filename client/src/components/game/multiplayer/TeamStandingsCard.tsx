@@ -0,0 +1,61 @@
+import { memo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Hash, Users } from 'lucide-react';
+
+import { getDisplayNameFromUserFields } from '@shared/utils';
+
+import { GameKey, SEMANTIC_ICON_TEXT } from '@/constants';
+import type { TeamStandingsCardProps } from '@/types';
+import { cn } from '@/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components';
+
+export const TeamStandingsCard = memo(function TeamStandingsCard({ standings, players }: TeamStandingsCardProps) {
+	const { t } = useTranslation('game');
+	const playersById = new Map(players.map(player => [player.userId, player]));
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<Users className='h-5 w-5 text-primary' />
+					{t(GameKey.TEAM_STANDINGS)}
+				</CardTitle>
+			</CardHeader>
+			<CardContent className='space-y-3'>
+				{standings.map((standing, index) => (
+					<div
+						key={standing.teamIndex}
+						className={cn(
+							'flex items-center gap-4 rounded-lg p-3',
+							index === 0 ? 'bg-primary/20 ring-1 ring-primary/50' : 'bg-muted/50'
+						)}
+					>
+						<span
+							className={cn(
+								'flex w-10 items-center gap-0.5 text-xl font-bold',
+								index === 0 ? SEMANTIC_ICON_TEXT.warning : 'text-muted-foreground'
+							)}
+						>
+							<Hash className='h-4 w-4 flex-shrink-0' />
+							{index + 1}
+						</span>
+						<div className='min-w-0 flex-1'>
+							<div className='font-semibold'>{t(GameKey.TEAM_NAME, { number: standing.teamIndex + 1 })}</div>
+							<div className='truncate text-sm text-muted-foreground'>
+								{standing.memberIds
+									.map(userId => playersById.get(userId))
+									.filter(player => player !== undefined)
+									.map(player => getDisplayNameFromUserFields(player))
+									.join(', ')}
+							</div>
+						</div>
+						<div className='text-right'>
+							<div className='text-xl font-bold text-primary'>{standing.score}</div>
+							<div className='text-xs text-muted-foreground'>{t(GameKey.POINTS)}</div>
+						</div>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	);
+});
@@ -1,3 +1,4 @@
 export * from './LobbyGameDetailsCard';
 export * from './LobbyPlayersCard';
 export * from './LobbyRoomCodeBlock';
+export * from './TeamStandingsCard';
@@ -0,0 +1,65 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { CalendarDays, Play } from 'lucide-react';
+
+import { DAILY_CHALLENGE_CONFIG, GameMode, VALIDATION_COUNT } from '@shared/constants';
+
+import { HomeKey, Routes } from '@/constants';
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, LeaderboardTable } from '@/components';
+import { useAppDispatch, useCurrentUserData, useDailyChallengeLeaderboard, useIsAuthenticated } from '@/hooks';
+import { resetGameSession, setGameMode } from '@/redux/slices';
+
+export function DailyChallengeCard() {
+	const { t } = useTranslation('home');
+	const navigate = useNavigate();
+	const dispatch = useAppDispatch();
+	const isAuthenticated = useIsAuthenticated();
+	const currentUser = useCurrentUserData();
+	const { data, isLoading } = useDailyChallengeLeaderboard();
+	const leaderboard = data?.leaderboard ?? [];
+	const topPlayers = leaderboard.slice(0, 5);
+	const hasPlayedToday = currentUser != null && leaderboard.some(entry => entry.userId === currentUser.id);
+
+	const handlePlay = () => {
+		dispatch(resetGameSession());
+		dispatch(
+			setGameMode({
+				mode: GameMode.DAILY_CHALLENGE,
+				topic: DAILY_CHALLENGE_CONFIG.topic,
+				difficulty: DAILY_CHALLENGE_CONFIG.difficulty,
+				maxQuestionsPerGame: DAILY_CHALLENGE_CONFIG.questionCount,
+				answerCount: VALIDATION_COUNT.ANSWER_COUNT.DEFAULT,
+			})
+		);
+		navigate(Routes.GAME_SINGLE_PLAY.replace(':gameId', crypto.randomUUID()));
+	};
+
+	return (
+		<Card className='h-full flex flex-col'>
+			<CardHeader className='flex flex-row items-center justify-between gap-4 pb-2'>
+				<div className='space-y-1'>
+					<CardTitle className='text-xl flex items-center gap-2'>
+						<CalendarDays className='w-5 h-5 text-primary' />
+						{t(HomeKey.DAILY_CHALLENGE_TITLE)}
+					</CardTitle>
+					<CardDescription>
+						{isAuthenticated
+							? hasPlayedToday
+								? t(HomeKey.DAILY_CHALLENGE_PLAYED)
+								: t(HomeKey.DAILY_CHALLENGE_DESC, { count: DAILY_CHALLENGE_CONFIG.questionCount })
+							: t(HomeKey.DAILY_CHALLENGE_SIGN_IN)}
+					</CardDescription>
+				</div>
+				{isAuthenticated && !hasPlayedToday && (
+					<Button onClick={handlePlay} className='shrink-0 gap-2'>
+						<Play className='w-4 h-4 shrink-0' />
+						{t(HomeKey.DAILY_CHALLENGE_PLAY)}
+					</Button>
+				)}
+			</CardHeader>
+			<CardContent className='flex flex-1 flex-col'>
+				<LeaderboardTable entries={topPlayers} isLoading={isLoading} />
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,3 +1,4 @@
+export * from './DailyChallengeCard';
 export * from './HomeHeader';
 export * from './HomePublicLobbiesPanel';
 export * from './HomeStats';
@@ -3,9 +3,10 @@ import type { TabsBarProps } from '@/types';
 import { cn } from '@/utils';
 import { TabsList, TabsTrigger } from '@/components';
 
-const COLUMNS_CLASS: Record<2 | 3, string> = {
+const COLUMNS_CLASS: Record<2 | 3 | 4, string> = {
 	2: 'grid grid-cols-2 w-full max-w-md items-center',
 	3: 'grid grid-cols-3 w-full max-w-md items-center',
+	4: 'grid grid-cols-4 w-full max-w-xl items-center',
 };
 
 export function TabsBar({ items, variant, columns }: TabsBarProps) {
@@ -369,6 +369,8 @@ export enum GameKey {
 	MODE_QUESTION_LIMITED_DESCRIPTION = 'game:modeQuestionLimitedDescription',
 	MODE_TIME_LIMITED_DESCRIPTION = 'game:modeTimeLimitedDescription',
 	MODE_UNLIMITED_DESCRIPTION = 'game:modeUnlimitedDescription',
+	MODE_DAILY_CHALLENGE = 'game:modeDailyChallenge',
+	MODE_DAILY_CHALLENGE_DESCRIPTION = 'game:modeDailyChallengeDescription',
 	MAX_QUESTIONS = 'game:maxQuestions',
 	PICK_FOR_ME = 'game:pickForMe',
 	PICKED_FOR_YOU = 'game:pickedForYou',
@@ -376,6 +378,50 @@ export enum GameKey {
 	PUBLIC_LOBBY_LIST_HOME_LABEL = 'game:publicLobbyListHomeLabel',
 	PUBLIC_LOBBY_LIST_HOME_SUBTITLE = 'game:publicLobbyListHomeSubtitle',
 	PUBLIC_LOBBY_LIST_HOME_DESCRIPTION = 'game:publicLobbyListHomeDescription',
+	REPORT_QUESTION = 'game:reportQuestion',
+	REPORT_QUESTION_DESCRIPTION = 'game:reportQuestionDescription',
+	REPORT_QUESTION_REASON = 'game:reportQuestionReason',
+	REPORT_QUESTION_NOTE = 'game:reportQuestionNote',
+	REPORT_QUESTION_NOTE_PLACEHOLDER = 'game:reportQuestionNotePlaceholder',
+	REPORT_QUESTION_SUBMIT = 'game:reportQuestionSubmit',
+	REPORT_QUESTION_SENT = 'game:reportQuestionSent',
+	REPORT_QUESTION_FAILED = 'game:reportQuestionFailed',
+	REPORT_REASON_WRONG_ANSWER = 'game:reportReasonWrongAnswer',
+	REPORT_REASON_OFFENSIVE = 'game:reportReasonOffensive',
+	REPORT_REASON_BAD_TRANSLATION = 'game:reportReasonBadTranslation',
+	REPORT_REASON_OTHER = 'game:reportReasonOther',
+	TOPIC_SUGGESTIONS_LABEL = 'game:topicSuggestionsLabel',
+	TOPIC_SUGGESTION_QUESTIONS_READY = 'game:topicSuggestionQuestionsReady',
+	TOPIC_SUGGESTION_NEW_TOPIC = 'game:topicSuggestionNewTopic',
+	TOPIC_SUGGESTION_SOURCE_PRESET = 'game:topicSuggestionSourcePreset',
+	KICK_PLAYER = 'game:kickPlayer',
+	BAN_PLAYER = 'game:banPlayer',
+	BAN_PLAYER_CONFIRM_DESCRIPTION = 'game:banPlayerConfirmDescription',
+	MAKE_HOST = 'game:makeHost',
+	PAUSE_GAME = 'game:pauseGame',
+	RESUME_GAME = 'game:resumeGame',
+	SKIP_QUESTION = 'game:skipQuestion',
+	GAME_PAUSED_BY_HOST = 'game:gamePausedByHost',
+	YOU_ARE_NOW_HOST = 'game:youAreNowHost',
+	SPECTATOR_COUNT = 'game:spectatorCount',
+	SPECTATING_NOTICE = 'game:spectatingNotice',
+	REMATCH = 'game:rematch',
+	TEAMS = 'game:teams',
+	TEAM_NAME = 'game:teamName',
+	TEAM_MODE_OFF = 'game:teamModeOff',
+	TEAM_COUNT_OPTION = 'game:teamCountOption',
+	TEAM_SCORE_RULE = 'game:teamScoreRule',
+	TEAM_SCORE_RULE_SUM = 'game:teamScoreRuleSum',
+	TEAM_SCORE_RULE_BEST = 'game:teamScoreRuleBest',
+	TEAM_SCORE_RULE_AVERAGE = 'game:teamScoreRuleAverage',
+	BALANCE_TEAMS = 'game:balanceTeams',
+	TEAM_STANDINGS = 'game:teamStandings',
+	TIME_PER_QUESTION = 'game:timePerQuestion',
+	TIME_PER_QUESTION_OPTION = 'game:timePerQuestionOption',
+	ANSWER_POLICY = 'game:answerPolicy',
+	ANSWER_POLICY_CHANGEABLE = 'game:answerPolicyChangeable',
+	ANSWER_POLICY_LOCKED = 'game:answerPolicyLocked',
+	END_WHEN_ALL_ANSWERED = 'game:endWhenAllAnswered',
 }
 
 export enum HomeKey {
@@ -421,12 +467,18 @@ export enum HomeKey {
 	PUBLIC_LOBBY_SEARCH_PLACEHOLDER = 'home:publicLobbySearchPlaceholder',
 	PUBLIC_LOBBY_JOIN = 'home:publicLobbyJoin',
 	PUBLIC_LOBBY_LOGIN_TO_JOIN = 'home:publicLobbyLoginToJoin',
+	PUBLIC_LOBBY_WATCH = 'home:publicLobbyWatch',
 	PUBLIC_LOBBY_EMPTY = 'home:publicLobbyEmpty',
 	PUBLIC_LOBBY_EMPTY_TITLE = 'home:publicLobbyEmptyTitle',
 	PUBLIC_LOBBY_EMPTY_FILTERED = 'home:publicLobbyEmptyFiltered',
 	PUBLIC_LOBBY_LOAD_ERROR = 'home:publicLobbyLoadError',
 	PUBLIC_LOBBY_REFRESHING = 'home:publicLobbyRefreshing',
 	PUBLIC_LOBBY_PLAYER_SLOTS = 'home:publicLobbyPlayerSlots',
+	DAILY_CHALLENGE_TITLE = 'home:dailyChallengeTitle',
+	DAILY_CHALLENGE_DESC = 'home:dailyChallengeDesc',
+	DAILY_CHALLENGE_PLAY = 'home:dailyChallengePlay',
+	DAILY_CHALLENGE_PLAYED = 'home:dailyChallengePlayed',
+	DAILY_CHALLENGE_SIGN_IN = 'home:dailyChallengeSignIn',
 }
 
 export enum ValidationKey {
@@ -658,6 +710,176 @@ export enum AdminKey {
 	CHECKING_CONSISTENCY = 'admin:checkingConsistency',
 	USERS_SEARCH_LABEL = 'admin:usersSearchLabel',
 	USER_ANALYSIS_DESC = 'admin:userAnalysisDesc',
+	QUESTION_POOL_TITLE = 'admin:questionPoolTitle',
+	QUESTION_POOL_DESC = 'admin:questionPoolDesc',
+	QUESTION_POOL_SCHEDULED_WARMUP = 'admin:questionPoolScheduledWarmup',
+	QUESTION_POOL_MIN_READY = 'admin:questionPoolMinReady',
+	QUESTION_POOL_POPULAR_TOPICS = 'admin:questionPoolPopularTopics',
+	QUESTION_POOL_MAX_CALLS = 'admin:questionPoolMaxCalls',
+	QUESTION_POOL_RUN_NOW = 'admin:questionPoolRunNow',
+	QUESTION_POOL_LAST_RUN = 'admin:questionPoolLastRun',
+	QUESTION_POOL_NO_RUNS = 'admin:questionPoolNoRuns',
+	QUESTION_POOL_QUESTIONS_ADDED = 'admin:questionPoolQuestionsAdded',
+	QUESTION_POOL_GENERATION_CALLS = 'admin:questionPoolGenerationCalls',
+	QUESTION_POOL_FAILED_CALLS = 'admin:questionPoolFailedCalls',
+	QUESTION_POOL_BELOW_MINIMUM = 'admin:questionPoolBelowMinimum',
+	QUESTION_POOL_COMBINATIONS = 'admin:questionPoolCombinations',
+	QUESTION_POOL_TOPIC = 'admin:questionPoolTopic',
+	QUESTION_POOL_DIFFICULTY = 'admin:questionPoolDifficulty',
+	QUESTION_POOL_LANGUAGE = 'admin:questionPoolLanguage',
+	QUESTION_POOL_SOURCE = 'admin:questionPoolSource',
+	QUESTION_POOL_READY = 'admin:questionPoolReady',
+	QUESTION_POOL_MISSING = 'admin:questionPoolMissing',
+	QUESTION_POOL_SOURCE_POPULAR = 'admin:questionPoolSourcePopular',
+	QUESTION_POOL_SOURCE_PRESET = 'admin:questionPoolSourcePreset',
+	QUESTION_POOL_OUTCOME_COMPLETED = 'admin:questionPoolOutcomeCompleted',
+	QUESTION_POOL_OUTCOME_DISABLED = 'admin:questionPoolOutcomeDisabled',
+	QUESTION_POOL_OUTCOME_ALREADY_RUNNING = 'admin:questionPoolOutcomeAlreadyRunning',
+	QUESTION_POOL_OUTCOME_NO_CONFIGURED_PROVIDERS = 'admin:questionPoolOutcomeNoConfiguredProviders',
+	QUESTION_POOL_OUTCOME_PROVIDERS_COOLING_DOWN = 'admin:questionPoolOutcomeProvidersCoolingDown',
+	QUESTION_POOL_OUTCOME_CALL_BUDGET_REACHED = 'admin:questionPoolOutcomeCallBudgetReached',
+	TRIVIA_DUPLICATES_TITLE = 'admin:triviaDuplicatesTitle',
+	TRIVIA_DUPLICATES_DESC = 'admin:triviaDuplicatesDesc',
+	TRIVIA_DUPLICATES_NONE = 'admin:triviaDuplicatesNone',
+	TRIVIA_DUPLICATES_SIMILARITY = 'admin:triviaDuplicatesSimilarity',
+	TRIVIA_DUPLICATES_QUESTION_COUNT = 'admin:triviaDuplicatesQuestionCount',
+	TRIVIA_DUPLICATES_KEEP = 'admin:triviaDuplicatesKeep',
+	TRIVIA_DUPLICATES_MERGE_CONFIRM_TITLE = 'admin:triviaDuplicatesMergeConfirmTitle',
+	TRIVIA_DUPLICATES_MERGE_CONFIRM_DESC = 'admin:triviaDuplicatesMergeConfirmDesc',
+	TRIVIA_DUPLICATES_MERGE = 'admin:triviaDuplicatesMerge',
+	TRIVIA_REVIEW_FILTER = 'admin:triviaReviewFilter',
+	TRIVIA_REVIEW_ALL = 'admin:triviaReviewAll',
+	TRIVIA_NEEDS_REVIEW = 'admin:triviaNeedsReview',
+	TRIVIA_NO_REVIEW_NEEDED = 'admin:triviaNoReviewNeeded',
+	TRIVIA_TAB_ALL_QUESTIONS = 'admin:triviaTabAllQuestions',
+	TRIVIA_TAB_MODERATION = 'admin:triviaTabModeration',
+	TRIVIA_MODERATION_TITLE = 'admin:triviaModerationTitle',
+	TRIVIA_MODERATION_DESC = 'admin:triviaModerationDesc',
+	TRIVIA_MODERATION_EMPTY = 'admin:triviaModerationEmpty',
+	TRIVIA_MODERATION_REPORT_COUNT = 'admin:triviaModerationReportCount',
+	TRIVIA_MODERATION_HIDDEN = 'admin:triviaModerationHidden',
+	TRIVIA_MODERATION_RETIRED = 'admin:triviaModerationRetired',
+	TRIVIA_MODERATION_LAST_REPORTED = 'admin:triviaModerationLastReported',
+	TRIVIA_MODERATION_DISMISS = 'admin:triviaModerationDismiss',
+	TRIVIA_MODERATION_EDIT = 'admin:triviaModerationEdit',
+	TRIVIA_MODERATION_RETIRE = 'admin:triviaModerationRetire',
+	TRIVIA_MODERATION_SAVE_EDIT = 'admin:triviaModerationSaveEdit',
+	TRIVIA_MODERATION_QUESTION_TEXT = 'admin:triviaModerationQuestionText',
+	TRIVIA_MODERATION_CORRECT_ANSWER = 'admin:triviaModerationCorrectAnswer',
+	TRIVIA_MODERATION_RETIRE_CONFIRM_TITLE = 'admin:triviaModerationRetireConfirmTitle',
+	TRIVIA_MODERATION_RETIRE_CONFIRM_DESC = 'admin:triviaModerationRetireConfirmDesc',
+	TRIVIA_ADD_QUESTION = 'admin:triviaAddQuestion',
+	TRIVIA_EDITOR_CREATE_TITLE = 'admin:triviaEditorCreateTitle',
+	TRIVIA_EDITOR_QUESTION = 'admin:triviaEditorQuestion',
+	TRIVIA_EDITOR_ANSWERS = 'admin:triviaEditorAnswers',
+	TRIVIA_EDITOR_ADD_ANSWER = 'admin:triviaEditorAddAnswer',
+	TRIVIA_EDITOR_REMOVE_ANSWER = 'admin:triviaEditorRemoveAnswer',
+	TRIVIA_EDITOR_CORRECT_ANSWER = 'admin:triviaEditorCorrectAnswer',
+	TRIVIA_EDITOR_TOPIC = 'admin:triviaEditorTopic',
+	TRIVIA_EDITOR_DIFFICULTY = 'admin:triviaEditorDifficulty',
+	TRIVIA_EDITOR_LOCALE = 'admin:triviaEditorLocale',
+	TRIVIA_EDITOR_EXPLANATION = 'admin:triviaEditorExplanation',
+	TRIVIA_EDITOR_SAVE = 'admin:triviaEditorSave',
+	TRIVIA_ACTION_EDIT = 'admin:triviaActionEdit',
+	TRIVIA_ACTION_RETIRE = 'admin:triviaActionRetire',
+	TRIVIA_ACTION_RESTORE = 'admin:triviaActionRestore',
+	TRIVIA_ACTION_DELETE = 'admin:triviaActionDelete',
+	TRIVIA_STATUS_RETIRED = 'admin:triviaStatusRetired',
+	TRIVIA_BULK_SELECT_PAGE = 'admin:triviaBulkSelectPage',
+	TRIVIA_BULK_SELECTED = 'admin:triviaBulkSelected',
+	TRIVIA_BULK_CLEAR = 'admin:triviaBulkClear',
+	TRIVIA_DELETE_CONFIRM_TITLE = 'admin:triviaDeleteConfirmTitle',
+	TRIVIA_DELETE_CONFIRM_DESC = 'admin:triviaDeleteConfirmDesc',
+	TRIVIA_TAB_PACKS = 'admin:triviaTabPacks',
+	TRIVIA_IMPORT_TITLE = 'admin:triviaImportTitle',
+	TRIVIA_IMPORT_DESC = 'admin:triviaImportDesc',
+	TRIVIA_PACK_FORMAT = 'admin:triviaPackFormat',
+	TRIVIA_PACK_FORMAT_JSON = 'admin:triviaPackFormatJson',
+	TRIVIA_PACK_FORMAT_CSV = 'admin:triviaPackFormatCsv',
+	TRIVIA_PACK_FORMAT_OPENTDB = 'admin:triviaPackFormatOpentdb',
+	TRIVIA_IMPORT_CHOOSE_FILE = 'admin:triviaImportChooseFile',
+	TRIVIA_IMPORT_NO_FILE = 'admin:triviaImportNoFile',
+	TRIVIA_IMPORT_DEFAULT_LOCALE = 'admin:triviaImportDefaultLocale',
+	TRIVIA_IMPORT_LABEL = 'admin:triviaImportLabel',
+	TRIVIA_IMPORT_CHECK = 'admin:triviaImportCheck',
+	TRIVIA_IMPORT_RUN = 'admin:triviaImportRun',
+	TRIVIA_IMPORT_SUMMARY = 'admin:triviaImportSummary',
+	TRIVIA_IMPORT_DONE = 'admin:triviaImportDone',
+	TRIVIA_IMPORT_ROW = 'admin:triviaImportRow',
+	TRIVIA_IMPORT_STATUS = 'admin:triviaImportStatus',
+	TRIVIA_IMPORT_ISSUES = 'admin:triviaImportIssues',
+	TRIVIA_IMPORT_STATUS_VALID = 'admin:triviaImportStatusValid',
+	TRIVIA_IMPORT_STATUS_INVALID = 'admin:triviaImportStatusInvalid',
+	TRIVIA_IMPORT_STATUS_DUPLICATE = 'admin:triviaImportStatusDuplicate',
+	TRIVIA_EXPORT_TITLE = 'admin:triviaExportTitle',
+	TRIVIA_EXPORT_DESC = 'admin:triviaExportDesc',
+	TRIVIA_EXPORT_DOWNLOAD = 'admin:triviaExportDownload',
+	TRIVIA_IMPORT_BATCHES_TITLE = 'admin:triviaImportBatchesTitle',
+	TRIVIA_IMPORT_BATCHES_EMPTY = 'admin:triviaImportBatchesEmpty',
+	TRIVIA_IMPORT_BATCH_QUESTIONS = 'admin:triviaImportBatchQuestions',
+	TRIVIA_IMPORT_BATCH_ROLLBACK = 'admin:triviaImportBatchRollback',
+	TRIVIA_IMPORT_ROLLBACK_CONFIRM_TITLE = 'admin:triviaImportRollbackConfirmTitle',
+	TRIVIA_IMPORT_ROLLBACK_CONFIRM_DESC = 'admin:triviaImportRollbackConfirmDesc',
+	QUESTION_CALIBRATION_TITLE = 'admin:questionCalibrationTitle',
+	QUESTION_CALIBRATION_DESC = 'admin:questionCalibrationDesc',
+	QUESTION_CALIBRATION_RUN_NOW = 'admin:questionCalibrationRunNow',
+	QUESTION_CALIBRATION_LAST_RUN = 'admin:questionCalibrationLastRun',
+	QUESTION_CALIBRATION_NO_RUNS = 'admin:questionCalibrationNoRuns',
+	QUESTION_CALIBRATION_CALIBRATED = 'admin:questionCalibrationCalibrated',
+	QUESTION_CALIBRATION_MISCALIBRATED = 'admin:questionCalibrationMiscalibrated',
+	QUESTION_CALIBRATION_NONE = 'admin:questionCalibrationNone',
+	QUESTION_CALIBRATION_SHOWING = 'admin:questionCalibrationShowing',
+	QUESTION_CALIBRATION_STORED = 'admin:questionCalibrationStored',
+	QUESTION_CALIBRATION_MEASURED = 'admin:questionCalibrationMeasured',
+	QUESTION_CALIBRATION_SUCCESS_RATE = 'admin:questionCalibrationSuccessRate',
+	QUESTION_CALIBRATION_ANSWERS = 'admin:questionCalibrationAnswers',
+	QUESTION_CALIBRATION_AVERAGE_TIME = 'admin:questionCalibrationAverageTime',
+	QUESTION_CALIBRATION_SECONDS = 'admin:questionCalibrationSeconds',
+	QUESTION_CALIBRATION_APPLY = 'admin:questionCalibrationApply',
+	QUESTION_CALIBRATION_OUTCOME_COMPLETED = 'admin:questionCalibrationOutcomeCompleted',
+	QUESTION_CALIBRATION_OUTCOME_ALREADY_RUNNING = 'admin:questionCalibrationOutcomeAlreadyRunning',
+	TRIVIA_ACTION_ANALYTICS = 'admin:triviaActionAnalytics',
+	QUESTION_ANALYTICS_TITLE = 'admin:questionAnalyticsTitle',
+	QUESTION_ANALYTICS_DESC = 'admin:questionAnalyticsDesc',
+	QUESTION_ANALYTICS_SORT = 'admin:questionAnalyticsSort',
+	QUESTION_ANALYTICS_SORT_HARDEST = 'admin:questionAnalyticsSortHardest',
+	QUESTION_ANALYTICS_SORT_CONFUSING_DISTRACTOR = 'admin:questionAnalyticsSortConfusingDistractor',
+	QUESTION_ANALYTICS_SORT_MOST_REPORTED = 'admin:questionAnalyticsSortMostReported',
+	QUESTION_ANALYTICS_EMPTY = 'admin:questionAnalyticsEmpty',
+	QUESTION_ANALYTICS_TIMES_SERVED = 'admin:questionAnalyticsTimesServed',
+	QUESTION_ANALYTICS_CORRECT_RATE = 'admin:questionAnalyticsCorrectRate',
+	QUESTION_ANALYTICS_SKIP_RATE = 'admin:questionAnalyticsSkipRate',
+	QUESTION_ANALYTICS_MEDIAN_TIME = 'admin:questionAnalyticsMedianTime',
+	QUESTION_ANALYTICS_SECONDS = 'admin:questionAnalyticsSeconds',
+	QUESTION_ANALYTICS_REPORTS = 'admin:questionAnalyticsReports',
+	QUESTION_ANALYTICS_OPEN_REPORTS = 'admin:questionAnalyticsOpenReports',
+	QUESTION_ANALYTICS_TOP_DISTRACTOR = 'admin:questionAnalyticsTopDistractor',
+	QUESTION_ANALYTICS_DISTRIBUTION = 'admin:questionAnalyticsDistribution',
+	QUESTION_ANALYTICS_PICKS = 'admin:questionAnalyticsPicks',
+	QUESTION_ANALYTICS_CORRECT_ANSWER = 'admin:questionAnalyticsCorrectAnswer',
+	QUESTION_ANALYTICS_NOT_PLAYED = 'admin:questionAnalyticsNotPlayed',
+	QUESTION_ANALYTICS_PAGE = 'admin:questionAnalyticsPage',
+	TRIVIA_TAB_TOPICS = 'admin:triviaTabTopics',
+	TOPIC_CATALOG_TITLE = 'admin:topicCatalogTitle',
+	TOPIC_CATALOG_DESC = 'admin:topicCatalogDesc',
+	TOPIC_CATALOG_EMPTY = 'admin:topicCatalogEmpty',
+	TOPIC_CATALOG_SEARCH = 'admin:topicCatalogSearch',
+	TOPIC_CATALOG_NAME = 'admin:topicCatalogName',
+	TOPIC_CATALOG_CATEGORY = 'admin:topicCatalogCategory',
+	TOPIC_CATALOG_ALIASES = 'admin:topicCatalogAliases',
+	TOPIC_CATALOG_ALIASES_HINT = 'admin:topicCatalogAliasesHint',
+	TOPIC_CATALOG_GAMES = 'admin:topicCatalogGames',
+	TOPIC_CATALOG_QUESTIONS = 'admin:topicCatalogQuestions',
+	TOPIC_CATALOG_LOCALIZED_NAME = 'admin:topicCatalogLocalizedName',
+	TOPIC_CATALOG_EDIT = 'admin:topicCatalogEdit',
+	TOPIC_CATALOG_EDIT_TITLE = 'admin:topicCatalogEditTitle',
+	TOPIC_CATALOG_SAVE = 'admin:topicCatalogSave',
+	TOPIC_CATALOG_MERGE = 'admin:topicCatalogMerge',
+	TOPIC_CATALOG_MERGE_TITLE = 'admin:topicCatalogMergeTitle',
+	TOPIC_CATALOG_MERGE_DESC = 'admin:topicCatalogMergeDesc',
+	TOPIC_CATALOG_MERGE_TARGET = 'admin:topicCatalogMergeTarget',
+	TOPIC_CATALOG_MERGE_CONFIRM = 'admin:topicCatalogMergeConfirm',
+	TOPIC_CATALOG_MERGED = 'admin:topicCatalogMerged',
 }
 
 export enum StatisticsKey {
@@ -954,6 +1176,9 @@ export enum ErrorsKey {
 	FIELD_REQUIRED = 'errors:fieldRequired',
 	VALID_FIELD = 'errors:validField',
 	CUSTOM_DIFFICULTY_REQUIRES_DESCRIPTION = 'errors:customDifficultyRequiresDescription',
+	DAILY_CHALLENGE_ALREADY_PLAYED = 'errors:dailyChallengeAlreadyPlayed',
+	DAILY_CHALLENGE_UNAVAILABLE = 'errors:dailyChallengeUnavailable',
+	ANSWER_AFTER_TIME_LIMIT = 'errors:answerAfterTimeLimit',
 }
 
 export enum SocialKey {
@@ -1,6 +1,19 @@
-import { UserRole } from '@shared/constants';
+import {
+	DifficultyLevel,
+	Locale,
+	QuestionAnalyticsSort,
+	QuestionCalibrationRunOutcome,
+	QuestionPoolRunOutcome,
+	QuestionPoolTopicSource,
+	TriviaImportRowStatus,
+	TriviaPackFormat,
+	UserRole,
+	VALIDATION_COUNT,
+} from '@shared/constants';
+import type { TriviaQuestionDraft } from '@shared/types';
 
 import type { TabSpec } from '@/types';
+import { AdminKey } from '../core/ui/localeKeys.constants';
 
 export const ROLE_BADGE_CLASSES: Record<string, string> = {
 	[UserRole.ADMIN]: 'border-2 border-primary text-primary font-semibold',
@@ -11,7 +24,7 @@ export const ADMIN_TAB_SEARCH_PARAM = 'adminTab' as const;
 
 export const ADMIN_TABS: TabSpec[] = [
 	{ label: 'Performance', componentName: 'PerformanceTabContent' },
-	{ label: 'Trivia', componentName: 'TriviaManagementTable' },
+	{ label: 'Trivia', componentName: 'TriviaTabContent' },
 	{ label: 'Users', componentName: 'UsersTable' },
 	{ label: 'Business', componentName: 'BusinessTabContent' },
 	{ label: 'System', componentName: 'SystemTabContent' },
@@ -36,6 +49,11 @@ export enum TriviaSortField {
 
 export const TRIVIA_SORT_FIELDS_SET: ReadonlySet<string> = new Set(Object.values(TriviaSortField));
 
+export enum TriviaReviewFilter {
+	NEEDS_REVIEW = 'needs-review',
+	NO_REVIEW_NEEDED = 'no-review-needed',
+}
+
 export enum PerformanceTabAccordion {
 	GAME_STATS = 'game-stats',
 	TRENDS = 'trends',
@@ -75,3 +93,69 @@ export enum OverallSystemStatus {
 	ATTENTION = 'attention',
 	CRITICAL = 'critical',
 }
+
+export const QUESTION_POOL_OUTCOME_KEYS: Record<QuestionPoolRunOutcome, AdminKey> = {
+	[QuestionPoolRunOutcome.COMPLETED]: AdminKey.QUESTION_POOL_OUTCOME_COMPLETED,
+	[QuestionPoolRunOutcome.DISABLED]: AdminKey.QUESTION_POOL_OUTCOME_DISABLED,
+	[QuestionPoolRunOutcome.ALREADY_RUNNING]: AdminKey.QUESTION_POOL_OUTCOME_ALREADY_RUNNING,
+	[QuestionPoolRunOutcome.NO_CONFIGURED_PROVIDERS]: AdminKey.QUESTION_POOL_OUTCOME_NO_CONFIGURED_PROVIDERS,
+	[QuestionPoolRunOutcome.PROVIDERS_COOLING_DOWN]: AdminKey.QUESTION_POOL_OUTCOME_PROVIDERS_COOLING_DOWN,
+	[QuestionPoolRunOutcome.CALL_BUDGET_REACHED]: AdminKey.QUESTION_POOL_OUTCOME_CALL_BUDGET_REACHED,
+};
+
+export const QUESTION_ANALYTICS_SORT_LABEL_KEYS: Record<QuestionAnalyticsSort, AdminKey> = {
+	[QuestionAnalyticsSort.HARDEST]: AdminKey.QUESTION_ANALYTICS_SORT_HARDEST,
+	[QuestionAnalyticsSort.CONFUSING_DISTRACTOR]: AdminKey.QUESTION_ANALYTICS_SORT_CONFUSING_DISTRACTOR,
+	[QuestionAnalyticsSort.MOST_REPORTED]: AdminKey.QUESTION_ANALYTICS_SORT_MOST_REPORTED,
+};
+
+export const QUESTION_CALIBRATION_OUTCOME_KEYS: Record<QuestionCalibrationRunOutcome, AdminKey> = {
+	[QuestionCalibrationRunOutcome.COMPLETED]: AdminKey.QUESTION_CALIBRATION_OUTCOME_COMPLETED,
+	[QuestionCalibrationRunOutcome.ALREADY_RUNNING]: AdminKey.QUESTION_CALIBRATION_OUTCOME_ALREADY_RUNNING,
+};
+
+export const QUESTION_POOL_SOURCE_KEYS: Record<QuestionPoolTopicSource, AdminKey> = {
+	[QuestionPoolTopicSource.POPULAR]: AdminKey.QUESTION_POOL_SOURCE_POPULAR,
+	[QuestionPoolTopicSource.PRESET]: AdminKey.QUESTION_POOL_SOURCE_PRESET,
+};
+
+export enum TriviaManagementTab {
+	QUESTIONS = 'questions',
+	MODERATION = 'moderation',
+	PACKS = 'packs',
+	TOPICS = 'topics',
+}
+
+export const TRIVIA_EDITOR_DIFFICULTIES: readonly DifficultyLevel[] = [
+	DifficultyLevel.EASY,
+	DifficultyLevel.MEDIUM,
+	DifficultyLevel.HARD,
+];
+
+export const EMPTY_TRIVIA_QUESTION_DRAFT: TriviaQuestionDraft = {
+	question: '',
+	answers: Array.from({ length: VALIDATION_COUNT.ANSWER_COUNT.DEFAULT }, () => ''),
+	correctAnswerIndex: 0,
+	topic: '',
+	difficulty: DifficultyLevel.MEDIUM,
+	locale: Locale.EN,
+	explanation: '',
+};
+
+export const TRIVIA_PACK_FORMAT_LABEL_KEYS: Record<TriviaPackFormat, AdminKey> = {
+	[TriviaPackFormat.JSON]: AdminKey.TRIVIA_PACK_FORMAT_JSON,
+	[TriviaPackFormat.CSV]: AdminKey.TRIVIA_PACK_FORMAT_CSV,
+	[TriviaPackFormat.OPENTDB]: AdminKey.TRIVIA_PACK_FORMAT_OPENTDB,
+};
+
+export const TRIVIA_PACK_FILE_TYPES: Record<TriviaPackFormat, { accept: string; mimeType: string }> = {
+	[TriviaPackFormat.JSON]: { accept: '.json,application/json', mimeType: 'application/json' },
+	[TriviaPackFormat.CSV]: { accept: '.csv,text/csv', mimeType: 'text/csv' },
+	[TriviaPackFormat.OPENTDB]: { accept: '.json,application/json', mimeType: 'application/json' },
+};
+
+export const TRIVIA_IMPORT_ROW_STATUS_LABEL_KEYS: Record<TriviaImportRowStatus, AdminKey> = {
+	[TriviaImportRowStatus.VALID]: AdminKey.TRIVIA_IMPORT_STATUS_VALID,
+	[TriviaImportRowStatus.INVALID]: AdminKey.TRIVIA_IMPORT_STATUS_INVALID,
+	[TriviaImportRowStatus.DUPLICATE]: AdminKey.TRIVIA_IMPORT_STATUS_DUPLICATE,
+};
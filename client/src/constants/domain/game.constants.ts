@@ -1,6 +1,13 @@
 import { Award, Crown, Flame, Star, User } from 'lucide-react';
 
-import { DEFAULT_GAME_CONFIG, DifficultyLevel, GameMode, SurpriseScope } from '@shared/constants';
+import {
+	DEFAULT_GAME_CONFIG,
+	DifficultyLevel,
+	GameMode,
+	SurpriseScope,
+	TopicSuggestionSource,
+	TriviaReportReason,
+} from '@shared/constants';
 
 import type { GameModeState, RankDisplayEntry, RankKey, TopicBadgeMeta } from '@/types';
 import { SEMANTIC_ICON_TEXT } from '../core/ui/color.constants';
@@ -13,6 +20,13 @@ export const SURPRISE_SCOPE_LABEL_KEYS: Record<SurpriseScope, string> = {
 	[SurpriseScope.BOTH]: GameKey.SURPRISE_BOTH,
 };
 
+export const TRIVIA_REPORT_REASON_LABEL_KEYS: Record<TriviaReportReason, string> = {
+	[TriviaReportReason.WRONG_ANSWER]: GameKey.REPORT_REASON_WRONG_ANSWER,
+	[TriviaReportReason.OFFENSIVE]: GameKey.REPORT_REASON_OFFENSIVE,
+	[TriviaReportReason.BAD_TRANSLATION]: GameKey.REPORT_REASON_BAD_TRANSLATION,
+	[TriviaReportReason.OTHER]: GameKey.REPORT_REASON_OTHER,
+};
+
 export const DIFFICULTY_LABEL_KEYS: Record<DifficultyLevel, string> = {
 	[DifficultyLevel.EASY]: GameKey.DIFFICULTY_EASY,
 	[DifficultyLevel.MEDIUM]: GameKey.DIFFICULTY_MEDIUM,
@@ -190,6 +204,13 @@ export const TOPIC_BADGE_META: Partial<Record<TopicBadgeType, TopicBadgeMeta>> =
 	},
 };
 
+// Stored trivia is not labelled; its availability shows as the question count next to each suggestion
+export const TOPIC_SUGGESTION_SOURCE_LABEL_KEYS: Partial<Record<TopicSuggestionSource, GameKey>> = {
+	[TopicSuggestionSource.PLAYED]: GameKey.TOPIC_BADGE_YOUR,
+	[TopicSuggestionSource.POPULAR]: GameKey.POPULAR,
+	[TopicSuggestionSource.PRESET]: GameKey.TOPIC_SUGGESTION_SOURCE_PRESET,
+};
+
 export const TIMER_WARNING_RATIO = 0.15;
 
 export enum ExitReason {
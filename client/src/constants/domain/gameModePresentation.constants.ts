@@ -1,4 +1,4 @@
-import { Infinity, ListOrdered, Timer, Users, type LucideIcon } from 'lucide-react';
+import { CalendarDays, Infinity, ListOrdered, Timer, Users, type LucideIcon } from 'lucide-react';
 
 import { GameMode } from '@shared/constants';
 
@@ -41,6 +41,13 @@ export const GAME_MODE_PRESENTATION: Record<GameMode, GameModePresentation> = {
 		showQuestionLimit: false,
 		showTimeLimit: false,
 	},
+	[GameMode.DAILY_CHALLENGE]: {
+		icon: CalendarDays,
+		nameKey: GameKey.MODE_DAILY_CHALLENGE,
+		descKey: GameKey.MODE_DAILY_CHALLENGE_DESCRIPTION,
+		showQuestionLimit: false,
+		showTimeLimit: false,
+	},
 } as const;
 
 export const SINGLE_PLAYER_SETUP_GAME_MODES_ORDER: readonly GameMode[] = [
@@ -1,4 +1,4 @@
-import { RoomStatus, TIME_PERIODS_MS } from '@shared/constants';
+import { AnswerPolicy, RoomStatus, TeamScoreRule, TIME_PERIODS_MS } from '@shared/constants';
 
 import { GameKey } from '../core/ui/localeKeys.constants';
 
@@ -12,8 +12,23 @@ export enum MultiplayerSummaryPayloadKey {
 	Leaderboard = 'leaderboard',
 	QuestionCount = 'questionCount',
 	PersonalAnswerHistory = 'personalAnswerHistory',
+	TeamResults = 'teamResults',
 }
 
+// Choices offered when creating a room; all within VALIDATION_COUNT.TIME_PER_QUESTION
+export const MULTIPLAYER_TIME_PER_QUESTION_OPTIONS = [10, 15, 20, 30, 45, 60, 90, 120] as const;
+
+export const ANSWER_POLICY_LABEL_KEYS: Record<AnswerPolicy, GameKey> = {
+	[AnswerPolicy.CHANGEABLE]: GameKey.ANSWER_POLICY_CHANGEABLE,
+	[AnswerPolicy.LOCKED]: GameKey.ANSWER_POLICY_LOCKED,
+};
+
+export const TEAM_SCORE_RULE_LABEL_KEYS: Record<TeamScoreRule, GameKey> = {
+	[TeamScoreRule.SUM]: GameKey.TEAM_SCORE_RULE_SUM,
+	[TeamScoreRule.BEST]: GameKey.TEAM_SCORE_RULE_BEST,
+	[TeamScoreRule.AVERAGE]: GameKey.TEAM_SCORE_RULE_AVERAGE,
+};
+
 export const MULTIPLAYER_ROOM_STATUS_LABEL_KEYS: Record<RoomStatus, GameKey> = {
 	[RoomStatus.WAITING]: GameKey.ROOM_STATUS_WAITING,
 	[RoomStatus.STARTING]: GameKey.ROOM_STATUS_STARTING,
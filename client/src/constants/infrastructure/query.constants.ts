@@ -1,4 +1,10 @@
-import { CACHE_KEYS, TIME_PERIODS_MS, toReactQueryKey, type GameMode } from '@shared/constants';
+import {
+	CACHE_KEYS,
+	TIME_PERIODS_MS,
+	toReactQueryKey,
+	type GameMode,
+	type QuestionAnalyticsSort,
+} from '@shared/constants';
 import type { TopicAnalyticsQuery, UserTrendQuery } from '@shared/types';
 
 export const QUERY_KEYS = {
@@ -39,6 +45,8 @@ export const QUERY_KEYS = {
 		detail: (id: number) => [...QUERY_KEYS.trivia.details(), id] as const,
 		history: () => [...QUERY_KEYS.trivia.all, 'history'] as const,
 		question: (request: unknown) => [...QUERY_KEYS.trivia.all, 'question', request] as const,
+		topicSuggestions: (query: string, locale: string) =>
+			[...QUERY_KEYS.trivia.all, 'topic-suggestions', locale, query] as const,
 		score: (userId: string) => [...QUERY_KEYS.trivia.all, 'score', userId] as const,
 		leaderboard: (limit: number) => [...QUERY_KEYS.trivia.all, 'leaderboard', limit] as const,
 		gameHistory: (userId: string = 'current', limit?: number, offset?: number) => {
@@ -54,6 +62,8 @@ export const QUERY_KEYS = {
 		global: (limit: number = 100, offset: number = 0) => toReactQueryKey(CACHE_KEYS.LEADERBOARD.GLOBAL(limit, offset)),
 		byPeriod: (period: string, limit: number = 100) => toReactQueryKey(CACHE_KEYS.LEADERBOARD.PERIOD(period, limit)),
 		stats: (period: string) => toReactQueryKey(CACHE_KEYS.LEADERBOARD.STATS(period)),
+		dailyChallenge: (date: string, limit: number) =>
+			toReactQueryKey(CACHE_KEYS.LEADERBOARD.DAILY_CHALLENGE(date, limit)),
 	},
 
 	multiplayer: {
@@ -76,6 +86,10 @@ export const QUERY_KEYS = {
 		systemSecurity: () => [...QUERY_KEYS.analytics.all, 'systemSecurity'] as const,
 		systemRecommendations: () => [...QUERY_KEYS.analytics.all, 'systemRecommendations'] as const,
 		systemInsights: () => [...QUERY_KEYS.analytics.all, 'systemInsights'] as const,
+		questionAnalytics: (sort: QuestionAnalyticsSort, offset: number) =>
+			[...QUERY_KEYS.analytics.all, 'questionAnalytics', sort, offset] as const,
+		questionAnalyticsDetail: (questionId: string) =>
+			[...QUERY_KEYS.analytics.all, 'questionAnalyticsDetail', questionId] as const,
 	},
 
 	// Admin keys
@@ -128,6 +142,12 @@ export const QUERY_KEYS = {
 		allUsersConsistency: () => [...QUERY_KEYS.admin.all, 'allUsersConsistency'] as const,
 		userStatsConsistency: (userId: string) => [...QUERY_KEYS.admin.all, 'userStatsConsistency', userId] as const,
 		pricing: () => [...QUERY_KEYS.admin.all, 'pricing'] as const,
+		questionPool: () => [...QUERY_KEYS.admin.all, 'questionPool'] as const,
+		questionCalibration: () => [...QUERY_KEYS.admin.all, 'questionCalibration'] as const,
+		topicCatalog: () => [...QUERY_KEYS.admin.all, 'topicCatalog'] as const,
+		triviaDuplicates: () => [...QUERY_KEYS.admin.all, 'triviaDuplicates'] as const,
+		triviaReports: () => [...QUERY_KEYS.admin.all, 'triviaReports'] as const,
+		triviaImportBatches: () => [...QUERY_KEYS.admin.all, 'triviaImportBatches'] as const,
 	},
 } as const;
 
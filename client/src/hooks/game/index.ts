@@ -3,3 +3,4 @@ export { useGameFinalization } from './useGameFinalization';
 export { useGameSettingsForm } from './useGameSettingsForm';
 export { useSingleSession } from './useSingleSession';
 export { useGameHistory } from './useGameHistory';
+export { useTopicSuggestions } from './useTopicSuggestions';
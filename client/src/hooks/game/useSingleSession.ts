@@ -13,7 +13,12 @@ import {
 	TIME_PERIODS_MS,
 	VALIDATION_COUNT,
 } from '@shared/constants';
-import type { StartGameSessionParams, SubmitAnswerToSessionParams, TriviaQuestion } from '@shared/types';
+import type {
+	SessionTriviaQuestion,
+	StartGameSessionParams,
+	SubmitAnswerToSessionParams,
+	TriviaStreamQuestionEvent,
+} from '@shared/types';
 import {
 	calculateElapsedSeconds,
 	createAnswerHistory,
@@ -36,6 +41,7 @@ import {
 	getSingleSessionGameModeFlags,
 	getSingleSessionQuestionsPerRequest,
 	isTriviaGenerationDeclinedLoadError,
+	toPendingTriviaQuestion,
 } from '@/utils';
 import {
 	useAppDispatch,
@@ -79,6 +85,7 @@ import {
 	finalizeGame,
 	moveToNextQuestion as moveToNextQuestionAction,
 	resetGameSession,
+	revealQuestionAnswer,
 	selectAnswer,
 	setAnswered,
 	setAnswerHistory,
@@ -214,6 +221,16 @@ export function useSingleSession(): UseSingleSessionReturn {
 	const loadInProgressRef = useRef(false);
 	const serverSessionGameIdRef = useRef<string | null>(null);
 	const loadGenerationRef = useRef(0);
+	const triviaStreamAbortRef = useRef<AbortController | null>(null);
+	const [isStreamingQuestions, setIsStreamingQuestions] = useState(false);
+
+	const stopTriviaStream = useCallback(() => {
+		triviaStreamAbortRef.current?.abort();
+		triviaStreamAbortRef.current = null;
+		setIsStreamingQuestions(false);
+	}, []);
+
+	useEffect(() => stopTriviaStream, [stopTriviaStream]);
 
 	const prevSettingsRef = useRef<{ topic: string; difficulty: string; mode: GameMode }>({
 		topic: '',
@@ -281,7 +298,8 @@ export function useSingleSession(): UseSingleSessionReturn {
 				params.topic,
 				params.difficulty,
 				params.gameMode,
-				params.outputLanguage
+				params.outputLanguage,
+				params.timeLimit
 			),
 		onError: (error: unknown) => {
 			const message = getErrorMessage(error);
@@ -308,6 +326,9 @@ export function useSingleSession(): UseSingleSessionReturn {
 	const trackAnalyticsEvent = useTrackAnalyticsEvent();
 
 	useEffect(() => {
+		if (!gameId || isGameFinalized) {
+			stopTriviaStream();
+		}
 		if (!gameId && serverSessionGameIdRef.current) {
 			serverSessionGameIdRef.current = null;
 		}
@@ -316,11 +337,12 @@ export function useSingleSession(): UseSingleSessionReturn {
 			questionsLoadedRef.current = false;
 			initialLoadValuesRef.current = null;
 		}
-	}, [isGameFinalized, gameId]);
+	}, [isGameFinalized, gameId, stopTriviaStream]);
 
 	const progress = hasQuestionLimit && gameQuestionCount ? ((currentQuestionIndex + 1) / gameQuestionCount) * 100 : 0;
 
 	const isChargeAfterGame = shouldChargeAfterGame(currentGameMode);
+	const isFreeGameMode = currentGameMode ? GAME_MODES_CONFIG[currentGameMode]?.fixedCost === 0 : false;
 
 	useEffect(() => {
 		if (questions.length === 0) {
@@ -338,12 +360,13 @@ export function useSingleSession(): UseSingleSessionReturn {
 		if (
 			isAdmin ||
 			isChargeAfterGame ||
+			isFreeGameMode ||
 			creditsDeducted ||
 			questions.length === 0 ||
 			deductCredits.isPending ||
 			creditsDeductionFailedRef.current
 		) {
-			if (isChargeAfterGame && !creditsDeducted && questions.length > 0) {
+			if ((isChargeAfterGame || isFreeGameMode) && !creditsDeducted && questions.length > 0) {
 				dispatch(setCreditsDeducted(true));
 			}
 			return;
@@ -385,6 +408,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 	}, [
 		isAdmin,
 		isChargeAfterGame,
+		isFreeGameMode,
 		creditsDeducted,
 		questions.length,
 		currentGameMode,
@@ -408,6 +432,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 			prevSettingsRef.current.mode !== currentGameMode;
 
 		if (settingsChanged) {
+			stopTriviaStream();
 			questionsLoadedRef.current = false;
 			isLoadingRef.current = false;
 			initialLoadValuesRef.current = null;
@@ -417,7 +442,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 			}
 			prevSettingsRef.current = { topic: currentTopic, difficulty: currentDifficulty, mode: currentGameMode };
 		}
-	}, [currentTopic, currentDifficulty, currentGameMode, dispatch, gameId, questions.length]);
+	}, [currentTopic, currentDifficulty, currentGameMode, dispatch, gameId, questions.length, stopTriviaStream]);
 
 	useEffect(() => {
 		if (loadInProgressRef.current || questionsLoadedRef.current) {
@@ -449,6 +474,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 		const abortController = new AbortController();
 
 		const loadQuestions = async () => {
+			let deliveredCount = 0;
 			try {
 				if (ignore) return;
 				dispatch(setLoading({ loading: true, loadingStep: LoadingMessages.CONNECTING }));
@@ -507,6 +533,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 							difficulty: currentDifficulty ?? DEFAULT_GAME_CONFIG.defaultDifficulty,
 							gameMode: currentGameMode ?? GameMode.QUESTION_LIMITED,
 							outputLanguage: locale,
+							...(isTimeLimited && { timeLimit }),
 						});
 						const sessionStartTimeoutMs = 15 * TIME_PERIODS_MS.SECOND;
 						const timeoutPromise = new Promise<never>((_, reject) => {
@@ -552,98 +579,107 @@ export function useSingleSession(): UseSingleSessionReturn {
 					dispatch(setLoading({ loading: true, loadingStep: LoadingMessages.FETCHING_QUESTIONS_HINT }));
 				}, 8 * TIME_PERIODS_MS.SECOND);
 				const answerCountToSend = currentSettings?.answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT;
-				const response = await triviaMutation.mutateAsync({
-					topic: currentTopic || DEFAULT_GAME_CONFIG.defaultTopic,
-					difficulty: currentDifficulty || DEFAULT_GAME_CONFIG.defaultDifficulty,
-					questionsPerRequest: questionsPerRequestForAPI,
-					answerCount: answerCountToSend,
-					...(sessionGameId ? { gameId: sessionGameId } : {}),
-					outputLanguage: locale,
-					signal: abortController.signal,
-				});
-
-				if (ignore) return;
-
-				const responseQuestionCount =
-					isRecord(response) && Array.isArray(response?.questions) ? response.questions.length : 0;
-				logger.gameInfo('Trivia response received', {
-					count: responseQuestionCount,
-					resultsCount: responseQuestionCount,
-				});
+				// The game starts on the first streamed question; the rest of the queue fills in the background
+				const handleStreamedQuestion = ({ question }: TriviaStreamQuestionEvent) => {
+					if (abortController.signal.aborted) return;
+					if (hasQuestionLimit && expectedQuestionCount !== undefined && deliveredCount >= expectedQuestionCount) {
+						return;
+					}
+					const pendingQuestion = toPendingTriviaQuestion(question);
+					deliveredCount += 1;
+					if (deliveredCount > 1) {
+						dispatch(appendQuestions({ questions: [pendingQuestion] }));
+						return;
+					}
 
-				if (response && isRecord(response) && 'questions' in response) {
-					if (Array.isArray(response.questions) && response.questions.length > 0) {
-						if (fetchingQuestionsHintTimeoutRef.current) {
-							clearTimeout(fetchingQuestionsHintTimeoutRef.current);
-							fetchingQuestionsHintTimeoutRef.current = null;
-						}
-						dispatch(setLoading({ loading: true, loadingStep: LoadingMessages.VALIDATING_QUESTIONS }));
-						const validQuestions = response.questions.filter(
-							(q): q is TriviaQuestion =>
-								isRecord(q) && isNonEmptyString(q.question) && Array.isArray(q.answers) && q.answers.length > 0
-						);
+					logger.gameInfo('First streamed question received', {
+						questionId: pendingQuestion.id,
+						...(expectedQuestionCount !== undefined && { expectedQuestionCount }),
+					});
 
-						if (validQuestions.length > 0) {
-							const limitedQuestions =
-								hasQuestionLimit && expectedQuestionCount !== undefined
-									? validQuestions.slice(0, expectedQuestionCount)
-									: validQuestions;
+					if (currentUser?.id && sessionGameId) {
+						trackAnalyticsEvent.mutate({
+							eventType: AnalyticsEventType.GAME_START,
+							page: AnalyticsPageName.GAME_SESSION,
+							action: AnalyticsAction.GAME_STARTED,
+							sessionId: sessionGameId,
+							properties: {
+								topic: currentTopic ?? DEFAULT_GAME_CONFIG.defaultTopic,
+								difficulty: currentDifficulty ?? DEFAULT_GAME_CONFIG.defaultDifficulty,
+								gameMode: currentGameMode ?? GameMode.QUESTION_LIMITED,
+								questionCount: expectedQuestionCount ?? deliveredCount,
+							},
+						});
+					}
 
-							const actualQuestionCount = limitedQuestions.length;
+					initialLoadValuesRef.current = {
+						maxQuestionsPerGame,
+						answerCount: currentSettings?.answerCount,
+						hasQuestionLimit,
+					};
+					questionsLoadedRef.current = true;
+					dispatch(setQuestions({ questions: [pendingQuestion] }));
+					// setQuestions caps the count at the questions present so far; the stream is still bringing the rest
+					if (hasQuestionLimit && expectedQuestionCount !== undefined) {
+						dispatch(setGameQuestionCount(expectedQuestionCount));
+					}
+					dispatch(ensureGameStartTime());
 
-							logger.gameInfo('Questions loaded successfully', {
-								count: limitedQuestions.length,
-								...(gameQuestionCount !== undefined && { questionsPerRequest: gameQuestionCount }),
-								actualQuestionCount,
-								resultsCount: validQuestions.length,
-							});
+					if (fetchingQuestionsHintTimeoutRef.current) {
+						clearTimeout(fetchingQuestionsHintTimeoutRef.current);
+						fetchingQuestionsHintTimeoutRef.current = null;
+					}
+					dispatch(setLoading({ loading: false, loadingStep: LoadingMessages.READY }));
+				};
+
+				triviaStreamAbortRef.current = abortController;
+				setIsStreamingQuestions(true);
+				try {
+					await gameService.streamTrivia(
+						{
+							topic: currentTopic || DEFAULT_GAME_CONFIG.defaultTopic,
+							difficulty: currentDifficulty || DEFAULT_GAME_CONFIG.defaultDifficulty,
+							questionsPerRequest: questionsPerRequestForAPI,
+							answerCount: answerCountToSend,
+							...(sessionGameId ? { gameId: sessionGameId } : {}),
+							...(currentGameMode === GameMode.DAILY_CHALLENGE ? { gameMode: currentGameMode } : {}),
+							outputLanguage: locale,
+							signal: abortController.signal,
+						},
+						{ onQuestion: handleStreamedQuestion }
+					);
+				} finally {
+					if (triviaStreamAbortRef.current === abortController) {
+						triviaStreamAbortRef.current = null;
+						setIsStreamingQuestions(false);
+					}
+				}
 
-							if (ignore) return;
-							if (currentUser?.id && sessionGameId) {
-								trackAnalyticsEvent.mutate({
-									eventType: AnalyticsEventType.GAME_START,
-									page: AnalyticsPageName.GAME_SESSION,
-									action: AnalyticsAction.GAME_STARTED,
-									sessionId: sessionGameId,
-									properties: {
-										topic: currentTopic ?? DEFAULT_GAME_CONFIG.defaultTopic,
-										difficulty: currentDifficulty ?? DEFAULT_GAME_CONFIG.defaultDifficulty,
-										gameMode: currentGameMode ?? GameMode.QUESTION_LIMITED,
-										questionCount: limitedQuestions.length,
-									},
-								});
-							}
+				logger.gameInfo('Trivia stream finished', {
+					count: deliveredCount,
+					...(expectedQuestionCount !== undefined && { expectedQuestionCount }),
+				});
 
-							if (hasQuestionLimit) {
-								if (gameQuestionCount !== actualQuestionCount) {
-									dispatch(setGameQuestionCount(actualQuestionCount));
-								}
-							}
-							dispatch(setQuestions({ questions: limitedQuestions }));
-
-							dispatch(ensureGameStartTime());
-
-							initialLoadValuesRef.current = {
-								maxQuestionsPerGame,
-								answerCount: currentSettings?.answerCount,
-								hasQuestionLimit,
-							};
-							questionsLoadedRef.current = true;
-							if (fetchingQuestionsHintTimeoutRef.current) {
-								clearTimeout(fetchingQuestionsHintTimeoutRef.current);
-								fetchingQuestionsHintTimeoutRef.current = null;
-							}
-							dispatch(setLoading({ loading: false, loadingStep: LoadingMessages.READY }));
-						} else {
-							throw new Error(ERROR_MESSAGES.api.NO_VALID_QUESTIONS_IN_RESPONSE);
+				if (deliveredCount === 0) {
+					throw new Error(ERROR_MESSAGES.api.NO_QUESTIONS_RETURNED);
+				}
+				if (hasQuestionLimit && expectedQuestionCount !== undefined && deliveredCount < expectedQuestionCount) {
+					dispatch(setGameQuestionCount(deliveredCount));
+				}
+			} catch (error) {
+				if (deliveredCount > 0) {
+					// The game is already running on the streamed questions; a late failure only shortens it
+					if (!abortController.signal.aborted) {
+						logger.gameError('Trivia stream ended early', {
+							errorInfo: { message: getErrorMessage(error) },
+							count: deliveredCount,
+						});
+						if (hasQuestionLimit) {
+							dispatch(setGameQuestionCount(deliveredCount));
 						}
-					} else {
-						throw new Error(ERROR_MESSAGES.api.NO_QUESTIONS_RETURNED);
 					}
-				} else {
-					throw new Error(ERROR_MESSAGES.api.INVALID_API_RESPONSE_STRUCTURE);
+					return;
 				}
-			} catch (error) {
 				if (ignore) return;
 				const message = getErrorMessage(error);
 
@@ -708,7 +744,10 @@ export function useSingleSession(): UseSingleSessionReturn {
 			ignore = true;
 			isLoadingRef.current = false;
 			loadInProgressRef.current = false;
-			abortController.abort();
+			// Once the first question is on screen the stream keeps filling the queue until stopTriviaStream
+			if (!questionsLoadedRef.current) {
+				abortController.abort();
+			}
 			if (fetchingQuestionsHintTimeoutRef.current) {
 				clearTimeout(fetchingQuestionsHintTimeoutRef.current);
 				fetchingQuestionsHintTimeoutRef.current = null;
@@ -756,71 +795,78 @@ export function useSingleSession(): UseSingleSessionReturn {
 		});
 	}, [score, correctAnswers, currentQuestionIndex, timeLimit, finalizeGameSession, dispatch, serverSessionGameIdRef]);
 
-	const fetchMoreQuestionsAndContinue = useCallback(async () => {
-		setIsFetchingMoreQuestions(true);
-		const answerCountToSend = currentSettings?.answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT;
-		const sessionGameId = serverSessionGameIdRef.current;
-		try {
-			const response = await triviaMutation.mutateAsync({
-				topic: currentTopic || DEFAULT_GAME_CONFIG.defaultTopic,
-				difficulty: currentDifficulty || DEFAULT_GAME_CONFIG.defaultDifficulty,
-				questionsPerRequest: getSingleSessionQuestionsPerRequest({ gameMode: GameMode.TIME_LIMITED }),
-				...(sessionGameId ? { gameId: sessionGameId } : {}),
-				answerCount: answerCountToSend,
-				outputLanguage: locale,
-			});
-			if (!response || !isRecord(response) || !('questions' in response) || !Array.isArray(response.questions))
-				throw new Error(ERROR_MESSAGES.api.INVALID_API_RESPONSE_STRUCTURE);
-			const validQuestions = response.questions.filter(
-				(q): q is TriviaQuestion =>
-					isRecord(q) && isNonEmptyString(q.question) && Array.isArray(q.answers) && q.answers.length > 0
-			);
-			if (validQuestions.length > 0) {
-				dispatch(appendQuestions({ questions: validQuestions }));
-				setIsFetchingMoreQuestions(false);
-				dispatch(moveToNextQuestionAction());
-				logger.gameInfo('More questions loaded for time-limited game', { count: validQuestions.length });
-			} else {
-				throw new Error(ERROR_MESSAGES.api.NO_VALID_QUESTIONS_IN_RESPONSE);
-			}
-		} catch (err) {
-			const message = getErrorMessage(err);
-			logger.gameError('Failed to load more questions for time-limited game', { errorInfo: { message } });
-			setIsFetchingMoreQuestions(false);
-			audioService.play(AudioKey.ERROR);
-			setDialogError(err);
-			setShowErrorDialog(true);
-			dispatch(finalizeGame());
-			if (serverSessionGameIdRef.current) {
-				setShowSummaryLoading(true);
-				finalizeGameSession({
-					navigateToSummary: true,
-					trackAnalytics: false,
-					logContext: 'out of questions (fetch more failed)',
-					gameId: serverSessionGameIdRef.current,
-					playErrorSound: false,
+	const fetchMoreQuestionsAndContinue = useCallback(
+		async (advanceAfterLoad: boolean = true) => {
+			setIsFetchingMoreQuestions(true);
+			const answerCountToSend = currentSettings?.answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT;
+			const sessionGameId = serverSessionGameIdRef.current;
+			try {
+				const response = await triviaMutation.mutateAsync({
+					topic: currentTopic || DEFAULT_GAME_CONFIG.defaultTopic,
+					difficulty: currentDifficulty || DEFAULT_GAME_CONFIG.defaultDifficulty,
+					questionsPerRequest: getSingleSessionQuestionsPerRequest({ gameMode: GameMode.TIME_LIMITED }),
+					...(sessionGameId ? { gameId: sessionGameId } : {}),
+					answerCount: answerCountToSend,
+					outputLanguage: locale,
 				});
+				if (!response || !isRecord(response) || !('questions' in response) || !Array.isArray(response.questions))
+					throw new Error(ERROR_MESSAGES.api.INVALID_API_RESPONSE_STRUCTURE);
+				const validQuestions = response.questions
+					.filter(
+						(q): q is SessionTriviaQuestion =>
+							isRecord(q) && isNonEmptyString(q.question) && Array.isArray(q.answers) && q.answers.length > 0
+					)
+					.map(toPendingTriviaQuestion);
+				if (validQuestions.length > 0) {
+					dispatch(appendQuestions({ questions: validQuestions }));
+					setIsFetchingMoreQuestions(false);
+					if (advanceAfterLoad) {
+						dispatch(moveToNextQuestionAction());
+					}
+					logger.gameInfo('More questions loaded for time-limited game', { count: validQuestions.length });
+				} else {
+					throw new Error(ERROR_MESSAGES.api.NO_VALID_QUESTIONS_IN_RESPONSE);
+				}
+			} catch (err) {
+				const message = getErrorMessage(err);
+				logger.gameError('Failed to load more questions for time-limited game', { errorInfo: { message } });
+				setIsFetchingMoreQuestions(false);
+				audioService.play(AudioKey.ERROR);
+				setDialogError(err);
+				setShowErrorDialog(true);
+				dispatch(finalizeGame());
+				if (serverSessionGameIdRef.current) {
+					setShowSummaryLoading(true);
+					finalizeGameSession({
+						navigateToSummary: true,
+						trackAnalytics: false,
+						logContext: 'out of questions (fetch more failed)',
+						gameId: serverSessionGameIdRef.current,
+						playErrorSound: false,
+					});
+				}
 			}
-		}
-	}, [
-		currentTopic,
-		currentDifficulty,
-		currentSettings?.answerCount,
-		dispatch,
-		locale,
-		triviaMutation,
-		finalizeGameSession,
-		setDialogError,
-		setShowErrorDialog,
-	]);
+		},
+		[
+			currentTopic,
+			currentDifficulty,
+			currentSettings?.answerCount,
+			dispatch,
+			locale,
+			triviaMutation,
+			finalizeGameSession,
+			setDialogError,
+			setShowErrorDialog,
+		]
+	);
 
 	const recordAnswerHistory = useCallback(
-		(isCorrect: boolean, timeSpent: number) => {
+		(isCorrect: boolean, timeSpent: number, correctAnswerIndex: number) => {
 			if (!currentQuestion) return;
 
 			const userAnswer: number = selectedAnswer ?? -1;
 
-			const entry = createAnswerHistory(currentQuestion, userAnswer, isCorrect, timeSpent);
+			const entry = createAnswerHistory({ ...currentQuestion, correctAnswerIndex }, userAnswer, isCorrect, timeSpent);
 			const answers = currentQuestion.answers ?? [];
 			const correctText = answers[entry.correctAnswerIndex]?.text;
 			const userText = userAnswer >= 0 && userAnswer < answers.length ? answers[userAnswer]?.text : undefined;
@@ -835,6 +881,55 @@ export function useSingleSession(): UseSingleSessionReturn {
 		[currentQuestion, selectedAnswer, dispatch]
 	);
 
+	const completeQuestionLimitedGame = useCallback(
+		(logContext: string) => {
+			dispatch(finalizeGame());
+			if (!serverSessionGameIdRef.current) return;
+			const sessionGameId = serverSessionGameIdRef.current;
+			setShowSummaryLoading(true);
+			setTimeout(() => {
+				finalizeGameSession({
+					navigateToSummary: true,
+					trackAnalytics: false,
+					logContext,
+					gameId: sessionGameId,
+					onSuccess: savedHistory => {
+						if (savedHistory) {
+							const totalTimeSpent = calculateElapsedSeconds(gameStartTime ?? Date.now());
+
+							logger.gameInfo('Game completed and finalized', {
+								score: savedHistory.score,
+								correctAnswers: savedHistory.correctAnswers,
+								gameQuestionCount: savedHistory.gameQuestionCount,
+								timeSpent: totalTimeSpent,
+							});
+
+							dispatch(
+								updateScore({
+									score: savedHistory.score,
+									correctAnswers: savedHistory.correctAnswers,
+									streak,
+									lastScoreEarned: lastScoreEarned ?? 0,
+								})
+							);
+							dispatch(updateTimeSpent(savedHistory.timeSpent ?? totalTimeSpent));
+							if (savedHistory.answerHistory) {
+								dispatch(setAnswerHistory(savedHistory.answerHistory));
+							}
+						}
+					},
+					onError: error => {
+						audioService.play(AudioKey.ERROR);
+						setDialogError(error);
+						setShowErrorDialog(true);
+					},
+					playErrorSound: true,
+				});
+			}, TIME_PERIODS_MS.ONE_AND_HALF_SECONDS);
+		},
+		[dispatch, finalizeGameSession, gameStartTime, streak, lastScoreEarned, setDialogError, setShowErrorDialog]
+	);
+
 	const moveToNextQuestion = useCallback(
 		(wasCorrect: boolean, scoreEarned: number) => {
 			const nextQuestionIndex = currentQuestionIndex + 1;
@@ -855,54 +950,17 @@ export function useSingleSession(): UseSingleSessionReturn {
 			});
 
 			if (shouldFetchMore) {
-				fetchMoreQuestionsAndContinue();
+				// Questions still streaming in from the initial load will fill the gap; wait for them instead
+				if (isStreamingQuestions) {
+					dispatch(moveToNextQuestionAction());
+				} else {
+					fetchMoreQuestionsAndContinue();
+				}
 				return;
 			}
 
 			if (shouldEndGame) {
-				dispatch(finalizeGame());
-				if (!serverSessionGameIdRef.current) return;
-				const sessionGameId = serverSessionGameIdRef.current;
-				setShowSummaryLoading(true);
-				setTimeout(() => {
-					finalizeGameSession({
-						navigateToSummary: true,
-						trackAnalytics: false,
-						logContext: 'question limit reached',
-						gameId: sessionGameId,
-						onSuccess: savedHistory => {
-							if (savedHistory) {
-								const totalTimeSpent = calculateElapsedSeconds(gameStartTime ?? Date.now());
-
-								logger.gameInfo('Game completed and finalized', {
-									score: savedHistory.score,
-									correctAnswers: savedHistory.correctAnswers,
-									gameQuestionCount: savedHistory.gameQuestionCount,
-									timeSpent: totalTimeSpent,
-								});
-
-								dispatch(
-									updateScore({
-										score: savedHistory.score,
-										correctAnswers: savedHistory.correctAnswers,
-										streak,
-										lastScoreEarned: lastScoreEarned ?? 0,
-									})
-								);
-								dispatch(updateTimeSpent(savedHistory.timeSpent ?? totalTimeSpent));
-								if (savedHistory.answerHistory) {
-									dispatch(setAnswerHistory(savedHistory.answerHistory));
-								}
-							}
-						},
-						onError: error => {
-							audioService.play(AudioKey.ERROR);
-							setDialogError(error);
-							setShowErrorDialog(true);
-						},
-						playErrorSound: true,
-					});
-				}, TIME_PERIODS_MS.ONE_AND_HALF_SECONDS);
+				completeQuestionLimitedGame('question limit reached');
 				return;
 			} else if (isUnlimited && !isAdmin) {
 				if (unlimitedCreditStepLockRef.current) {
@@ -1014,14 +1072,41 @@ export function useSingleSession(): UseSingleSessionReturn {
 			deductCredits,
 			finalizeGameSession,
 			fetchMoreQuestionsAndContinue,
+			completeQuestionLimitedGame,
+			isStreamingQuestions,
 			dispatch,
 			streak,
-			lastScoreEarned,
-			setDialogError,
-			setShowErrorDialog,
 		]
 	);
 
+	// The player caught up with the stream and it ended without bringing another question
+	useEffect(() => {
+		if (
+			isStreamingQuestions ||
+			isFetchingMoreQuestions ||
+			isGameFinalized ||
+			questions.length === 0 ||
+			currentQuestionIndex < questions.length
+		) {
+			return;
+		}
+		if (hasQuestionLimit) {
+			completeQuestionLimitedGame('question stream ended');
+		} else if (isTimeLimited) {
+			void fetchMoreQuestionsAndContinue(false);
+		}
+	}, [
+		isStreamingQuestions,
+		isFetchingMoreQuestions,
+		isGameFinalized,
+		questions.length,
+		currentQuestionIndex,
+		hasQuestionLimit,
+		isTimeLimited,
+		completeQuestionLimitedGame,
+		fetchMoreQuestionsAndContinue,
+	]);
+
 	const handleAnswerSelect = useCallback(
 		(answerIndex: number) => {
 			if (answered) return;
@@ -1084,6 +1169,14 @@ export function useSingleSession(): UseSingleSessionReturn {
 					const scoreEarned = result.scoreEarned;
 					const sessionScore = result.sessionScore;
 
+					dispatch(
+						revealQuestionAnswer({
+							questionId: submittingQuestionId,
+							correctAnswerIndex: result.correctAnswerIndex,
+							...(result.explanation !== undefined && { explanation: result.explanation }),
+						})
+					);
+
 					const newStreak = isCorrect ? streak + 1 : 0;
 					const newCorrectAnswers = isCorrect ? correctAnswers + 1 : correctAnswers;
 
@@ -1105,7 +1198,7 @@ export function useSingleSession(): UseSingleSessionReturn {
 						isCorrect,
 					});
 
-					recordAnswerHistory(isCorrect, timeSpent);
+					recordAnswerHistory(isCorrect, timeSpent, result.correctAnswerIndex);
 
 					if (answerTimeoutRef.current) {
 						clearTimeout(answerTimeoutRef.current);
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { TIME_PERIODS_MS, type Locale } from '@shared/constants';
+
+import { QUERY_KEYS } from '@/constants';
+import { gameService } from '@/services';
+import { useIsAuthenticated } from '../useAuth';
+import { useDebouncedValue } from '../useDebouncedValue';
+
+// Typing only refetches once the input settles
+export const useTopicSuggestions = (query: string, locale: Locale, options?: { enabled?: boolean }) => {
+	const debouncedQuery = useDebouncedValue(query.trim(), TIME_PERIODS_MS.FOUR_HUNDRED_MILLISECONDS);
+	const isAuthenticated = useIsAuthenticated();
+
+	return useQuery({
+		queryKey: QUERY_KEYS.trivia.topicSuggestions(debouncedQuery, locale),
+		queryFn: () => gameService.getTopicSuggestions(debouncedQuery, locale),
+		staleTime: TIME_PERIODS_MS.FIVE_MINUTES,
+		gcTime: TIME_PERIODS_MS.FIFTEEN_MINUTES,
+		enabled: isAuthenticated && options?.enabled !== false,
+		refetchOnWindowFocus: false,
+	});
+};
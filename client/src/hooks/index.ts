@@ -23,7 +23,14 @@ export {
 	usePurchaseCredits,
 } from './useCredits';
 
-export { useCopyRoomCode, useGameHistory, useGameSettingsForm, useGameFinalization, useSingleSession } from './game';
+export {
+	useCopyRoomCode,
+	useGameHistory,
+	useGameSettingsForm,
+	useGameFinalization,
+	useSingleSession,
+	useTopicSuggestions,
+} from './game';
 
 export {
 	useSetAvatar,
@@ -38,6 +45,7 @@ export {
 	useGlobalStats,
 	useGlobalTrends,
 	useGlobalLeaderboard,
+	useDailyChallengeLeaderboard,
 	useLeaderboardByPeriod,
 	useLeaderboardStats,
 	usePopularTopics,
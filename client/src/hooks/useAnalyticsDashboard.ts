@@ -1,6 +1,12 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 
-import { AnalyticsResult, LeaderboardPeriod, LogLevel, TIME_PERIODS_MS } from '@shared/constants';
+import {
+	AnalyticsResult,
+	DAILY_CHALLENGE_CONFIG,
+	LeaderboardPeriod,
+	LogLevel,
+	TIME_PERIODS_MS,
+} from '@shared/constants';
 import type {
 	BasicValue,
 	CompleteUserAnalytics,
@@ -12,7 +18,7 @@ import type {
 	UserAnalyticsQuery,
 	UserTrendPoint,
 } from '@shared/types';
-import { getErrorMessage } from '@shared/utils';
+import { getErrorMessage, getUtcDateKey } from '@shared/utils';
 
 import { QUERY_CACHE_PRESETS, QUERY_KEYS } from '@/constants';
 import { analyticsService, clientLogger as logger } from '@/services';
@@ -124,6 +130,17 @@ export const useLeaderboardByPeriod = (period: LeaderboardPeriod, limit: number
 	});
 };
 
+export const useDailyChallengeLeaderboard = (limit: number = DAILY_CHALLENGE_CONFIG.leaderboardLimit) => {
+	const date = getUtcDateKey();
+	return useQuery({
+		queryKey: QUERY_KEYS.leaderboard.dailyChallenge(date, limit),
+		queryFn: () => analyticsService.getDailyChallengeLeaderboard(date, limit),
+		...QUERY_CACHE_PRESETS.staleThirtySecGcTwoMin,
+		refetchOnWindowFocus: true,
+		refetchOnMount: 'always',
+	});
+};
+
 export const useLeaderboardStats = (period: LeaderboardPeriod = LeaderboardPeriod.WEEKLY) => {
 	return useQuery<LeaderboardStats>({
 		queryKey: QUERY_KEYS.leaderboard.stats(period),
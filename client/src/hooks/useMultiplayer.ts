@@ -1,28 +1,33 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { useQueryClient } from '@tanstack/react-query';
 
 import { ErrorCode, MultiplayerEvent, RoomStatus, TIME_PERIODS_MS, VALIDATION_COUNT } from '@shared/constants';
 import type { CreateRoomConfig, MultiplayerRoom } from '@shared/types';
 import {
 	calculateClockOffset,
+	calculateTeamStandings,
 	getCorrectAnswerIndex,
 	getErrorMessage,
 	isAnswerReceivedEvent,
 	isCreateRoomResponse,
 	isGameEndedEvent,
 	isGameStartedEvent,
+	isHostChangedEvent,
 	isPlayerJoinedEvent,
+	isPlayerKickedEvent,
 	isPlayerLeftEvent,
 	isQuestionEndedEvent,
 	isQuestionStartedEvent,
 	isRecord,
 	isRoomStateResponse,
 	isRoomUpdatedEvent,
+	isTeamMode,
 	validateClockOffset,
 } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
-import { LoadingMessages, MultiplayerSummaryPayloadKey, StorageKeys } from '@/constants';
+import { GameKey, LoadingMessages, MultiplayerSummaryPayloadKey, StorageKeys } from '@/constants';
 import type { MultiplayerUnsubscribe, PendingMultiplayerAnswerMerge } from '@/types';
 import { clientLogger as logger, multiplayerService, queryInvalidationService, storageService } from '@/services';
 import { getMultiplayerSummaryStorageKey } from '@/utils';
@@ -32,6 +37,7 @@ import {
 	selectMultiplayerGameState,
 	selectMultiplayerLoading,
 	selectMultiplayerPersonalAnswerHistory,
+	selectMultiplayerRemovedFromRoomId,
 	selectMultiplayerRoom,
 } from '@/redux/selectors';
 import {
@@ -40,15 +46,18 @@ import {
 	setConnectionStatus,
 	setError,
 	setMultiplayerLoading,
+	setRemovedFromRoomId,
 	setRevealPhase,
 	setRoom,
 	updateGameState,
 } from '@/redux/slices';
 import { store } from '@/redux/store';
+import { toast } from './ui';
 import { useCurrentUserData } from './useAuth';
 import { useAppDispatch, useAppSelector } from './useRedux';
 
 export const useMultiplayer = (roomId?: string) => {
+	const { t } = useTranslation('game');
 	const dispatch = useAppDispatch();
 	const queryClient = useQueryClient();
 	const isConnected = useAppSelector(selectIsConnected);
@@ -56,7 +65,16 @@ export const useMultiplayer = (roomId?: string) => {
 	const gameState = useAppSelector(selectMultiplayerGameState);
 	const error = useAppSelector(selectMultiplayerError);
 	const isLoading = useAppSelector(selectMultiplayerLoading);
+	const removedFromRoomId = useAppSelector(selectMultiplayerRemovedFromRoomId);
 	const leaderboard = gameState?.leaderboard ?? [];
+	// Derived with the same rule the server uses, so live score events keep team totals current
+	const teamLeaderboard = useMemo(
+		() =>
+			room && isTeamMode(room.config)
+				? calculateTeamStandings(gameState?.leaderboard ?? room.players, room.config)
+				: [],
+		[room, gameState?.leaderboard]
+	);
 	const isConnectingRef = useRef(false);
 	const isLoadingRef = useRef(false);
 	const listenerCleanupRef = useRef<(() => void) | null>(null);
@@ -68,6 +86,9 @@ export const useMultiplayer = (roomId?: string) => {
 
 	const currentUser = useCurrentUserData();
 	currentUserIdRef.current = currentUser?.id;
+	// Listeners are registered once per connection, so they read the latest translator through a ref
+	const translateRef = useRef(t);
+	translateRef.current = t;
 
 	const setupEventListeners = useCallback(() => {
 		listenerCleanupRef.current?.();
@@ -107,6 +128,7 @@ export const useMultiplayer = (roomId?: string) => {
 		registerListener(MultiplayerEvent.ROOM_CREATED, (data: unknown) => {
 			if (isCreateRoomResponse(data)) {
 				dispatch(setRoom(data.room));
+				dispatch(setRemovedFromRoomId(null));
 				dispatch(setError(null));
 			}
 		});
@@ -115,6 +137,7 @@ export const useMultiplayer = (roomId?: string) => {
 			if (isRoomStateResponse(data)) {
 				pendingAnswerMergesRef.current.clear();
 				dispatch(setRoom(data.room));
+				dispatch(setRemovedFromRoomId(null));
 				dispatch(updateGameState(data.gameState));
 			}
 		});
@@ -155,6 +178,35 @@ export const useMultiplayer = (roomId?: string) => {
 			}
 		});
 
+		registerListener(MultiplayerEvent.PLAYER_KICKED, (event: unknown) => {
+			if (isPlayerKickedEvent(event)) {
+				const currentRoom = selectMultiplayerRoom(store.getState());
+				if (!currentRoom || currentRoom.roomId !== event.roomId) return;
+				if (event.data.userId === currentUserIdRef.current) {
+					pendingAnswerMergesRef.current.clear();
+					dispatch(setRoom(null));
+					dispatch(updateGameState(null));
+					dispatch(setRemovedFromRoomId(event.roomId));
+					dispatch(
+						setError(getErrorMessage(event.data.banned ? ErrorCode.BANNED_FROM_ROOM : ErrorCode.REMOVED_FROM_ROOM))
+					);
+					return;
+				}
+				dispatch(setRoom({ ...currentRoom, players: event.data.players }));
+			}
+		});
+
+		registerListener(MultiplayerEvent.HOST_CHANGED, (event: unknown) => {
+			if (isHostChangedEvent(event)) {
+				const currentRoom = selectMultiplayerRoom(store.getState());
+				if (!currentRoom || currentRoom.roomId !== event.roomId) return;
+				dispatch(setRoom({ ...currentRoom, hostId: event.data.hostId, players: event.data.players }));
+				if (event.data.hostId === currentUserIdRef.current && event.data.previousHostId !== event.data.hostId) {
+					toast.info({ title: translateRef.current(GameKey.YOU_ARE_NOW_HOST) });
+				}
+			}
+		});
+
 		// Game events
 		registerListener(MultiplayerEvent.GAME_STARTED, (event: unknown) => {
 			if (isGameStartedEvent(event)) {
@@ -210,6 +262,8 @@ export const useMultiplayer = (roomId?: string) => {
 
 				const serverStartTimestamp = event.data.serverStartTimestamp;
 				const serverEndTimestamp = event.data.serverEndTimestamp;
+				// Re-sent for the same question on resume or reconnect; answers already given must survive it
+				const isSameQuestion = currentGameState?.currentQuestion?.id === newQuestionId;
 
 				dispatch(setRevealPhase(false));
 				dispatch(
@@ -235,8 +289,8 @@ export const useMultiplayer = (roomId?: string) => {
 									currentQuestionIndex: event.data.questionIndex,
 									gameQuestionCount,
 									timeRemaining: event.data.timeLimit,
-									playersAnswers: {},
-									answerCounts: {},
+									playersAnswers: isSameQuestion ? currentGameState.playersAnswers : {},
+									answerCounts: isSameQuestion ? currentGameState.answerCounts : {},
 									...(questionStartTime && { currentQuestionStartTime: questionStartTime }),
 									...(serverStartTimestamp !== undefined && { serverStartTimestamp }),
 									...(serverEndTimestamp !== undefined && { serverEndTimestamp }),
@@ -363,7 +417,7 @@ export const useMultiplayer = (roomId?: string) => {
 			if (isGameEndedEvent(event)) {
 				const currentGameState = selectMultiplayerGameState(store.getState());
 				if (!currentGameState || currentGameState.roomId !== event.roomId) return;
-				const finalLeaderboard = event.data.finalLeaderboard;
+				const { finalLeaderboard, teamResults } = event.data;
 				dispatch(
 					updateGameState({
 						...currentGameState,
@@ -380,6 +434,7 @@ export const useMultiplayer = (roomId?: string) => {
 							? {
 									[MultiplayerSummaryPayloadKey.Leaderboard]: finalLeaderboard,
 									...(questionCount > 0 && { [MultiplayerSummaryPayloadKey.QuestionCount]: questionCount }),
+									...(teamResults && { [MultiplayerSummaryPayloadKey.TeamResults]: teamResults }),
 									...(personalAnswerHistory.length > 0 && {
 										[MultiplayerSummaryPayloadKey.PersonalAnswerHistory]: personalAnswerHistory,
 									}),
@@ -402,6 +457,13 @@ export const useMultiplayer = (roomId?: string) => {
 
 		registerListener(MultiplayerEvent.ROOM_UPDATED, (event: unknown) => {
 			if (isRoomUpdatedEvent(event)) {
+				const previousRoom = selectMultiplayerRoom(store.getState());
+				// A rematch reopens the finished room, so the last game's state must not leak into the new lobby
+				if (previousRoom?.status === RoomStatus.FINISHED && event.data.room.status === RoomStatus.WAITING) {
+					pendingAnswerMergesRef.current.clear();
+					dispatch(updateGameState(null));
+					dispatch(setRevealPhase(false));
+				}
 				dispatch(setRoom(event.data.room));
 			}
 		});
@@ -476,7 +538,12 @@ export const useMultiplayer = (roomId?: string) => {
 					const roomMismatch = snapRoom != null && snapRoom.roomId !== routeRoomId;
 					const playingWithoutState = snapRoom != null && snapRoom.status === RoomStatus.PLAYING && snapGame == null;
 					if (roomMismatch || playingWithoutState) {
-						multiplayerService.emit(MultiplayerEvent.JOIN_ROOM, { roomId: routeRoomId });
+						// Spectators are dropped on disconnect, so they ask to watch again instead of taking a seat
+						const wasSpectating = snapRoom?.spectators?.some(s => s.userId === currentUserIdRef.current) ?? false;
+						multiplayerService.emit(MultiplayerEvent.JOIN_ROOM, {
+							roomId: routeRoomId,
+							...(wasSpectating && { spectate: true }),
+						});
 					}
 				}
 			});
@@ -522,10 +589,10 @@ export const useMultiplayer = (roomId?: string) => {
 	);
 
 	const joinRoom = useCallback(
-		(targetRoomId: string) => {
+		(targetRoomId: string, spectate = false) => {
 			dispatch(setMultiplayerLoading(true));
 			isLoadingRef.current = true;
-			multiplayerService.emit(MultiplayerEvent.JOIN_ROOM, { roomId: targetRoomId });
+			multiplayerService.emit(MultiplayerEvent.JOIN_ROOM, { roomId: targetRoomId, ...(spectate && { spectate }) });
 		},
 		[dispatch]
 	);
@@ -559,6 +626,47 @@ export const useMultiplayer = (roomId?: string) => {
 		}
 	}, [room, dispatch]);
 
+	const emitRoomAction = useCallback(
+		(event: MultiplayerEvent, payload: Record<string, string | number> = {}) => {
+			if (!room?.roomId) {
+				return;
+			}
+			multiplayerService.emit(event, { roomId: room.roomId, ...payload });
+		},
+		[room?.roomId]
+	);
+
+	const kickPlayer = useCallback(
+		(targetUserId: string) => emitRoomAction(MultiplayerEvent.KICK_PLAYER, { targetUserId }),
+		[emitRoomAction]
+	);
+
+	const banPlayer = useCallback(
+		(targetUserId: string) => emitRoomAction(MultiplayerEvent.BAN_PLAYER, { targetUserId }),
+		[emitRoomAction]
+	);
+
+	const transferHost = useCallback(
+		(targetUserId: string) => emitRoomAction(MultiplayerEvent.TRANSFER_HOST, { targetUserId }),
+		[emitRoomAction]
+	);
+
+	const pauseGame = useCallback(() => emitRoomAction(MultiplayerEvent.PAUSE_GAME), [emitRoomAction]);
+
+	const resumeGame = useCallback(() => emitRoomAction(MultiplayerEvent.RESUME_GAME), [emitRoomAction]);
+
+	const skipQuestion = useCallback(() => emitRoomAction(MultiplayerEvent.SKIP_QUESTION), [emitRoomAction]);
+
+	const rematch = useCallback(() => emitRoomAction(MultiplayerEvent.REMATCH), [emitRoomAction]);
+
+	const assignTeam = useCallback(
+		(targetUserId: string, teamIndex: number) =>
+			emitRoomAction(MultiplayerEvent.ASSIGN_TEAM, { targetUserId, teamIndex }),
+		[emitRoomAction]
+	);
+
+	const balanceTeams = useCallback(() => emitRoomAction(MultiplayerEvent.BALANCE_TEAMS), [emitRoomAction]);
+
 	const submitAnswer = useCallback((roomId: string, questionId: string, answer: number, timeSpent: number) => {
 		lastSubmittedAnswerRef.current = { questionId, answerIndex: answer };
 		multiplayerService.emit(MultiplayerEvent.SUBMIT_ANSWER, {
@@ -580,12 +688,12 @@ export const useMultiplayer = (roomId?: string) => {
 		// Disconnect should be called explicitly (e.g., when leaving multiplayer section)
 	}, [currentUser, connect]);
 
-	// Auto-join room if roomId provided
+	// Auto-join room if roomId provided (not after the host removed this user from it)
 	useEffect(() => {
-		if (roomId && isConnected && !room) {
+		if (roomId && isConnected && !room && removedFromRoomId !== roomId.toUpperCase()) {
 			joinRoom(roomId);
 		}
-	}, [roomId, isConnected, room, joinRoom]);
+	}, [roomId, isConnected, room, removedFromRoomId, joinRoom]);
 
 	// Stop loading when room is created, join completes, error occurs, or after game start (so spinner is visible)
 	useEffect(() => {
@@ -618,12 +726,18 @@ export const useMultiplayer = (roomId?: string) => {
 	// Check if user is host
 	const isHost = room?.hostId === currentUser?.id;
 
+	const isPaused = room?.pausedAt != null;
+
 	// Get current player
 	const currentPlayer = room?.players.find(p => p.userId === currentUser?.id);
 
-	// Check if room is ready to start (min players to start can be less than max players in room)
+	const isSpectator = room?.spectators?.some(s => s.userId === currentUser?.id) ?? false;
+
+	// Check if room is ready to start (min players to start can be less than max players in room); team rooms also need two teams with players
 	const isReadyToStart =
-		(room?.players?.length ?? 0) >= VALIDATION_COUNT.PLAYERS.MIN && room?.status === RoomStatus.WAITING;
+		(room?.players?.length ?? 0) >= VALIDATION_COUNT.PLAYERS.MIN &&
+		room?.status === RoomStatus.WAITING &&
+		(!isTeamMode(room.config) || new Set(room.players.map(p => p.teamIndex)).size >= 2);
 
 	// Loading state management
 	const [loadingStep, setLoadingStep] = useState<LoadingMessages | null>(null);
@@ -657,10 +771,14 @@ export const useMultiplayer = (roomId?: string) => {
 		room,
 		gameState,
 		leaderboard,
+		teamLeaderboard,
 		error,
 		isLoading,
 		isHost,
+		isPaused,
+		removedFromRoomId,
 		currentPlayer,
+		isSpectator,
 		isReadyToStart,
 		roomCode,
 		connect,
@@ -670,6 +788,15 @@ export const useMultiplayer = (roomId?: string) => {
 		leaveRoom,
 		updatePublicLobbyVisibility,
 		startGame,
+		kickPlayer,
+		banPlayer,
+		transferHost,
+		pauseGame,
+		resumeGame,
+		skipQuestion,
+		rematch,
+		assignTeam,
+		balanceTeams,
 		submitAnswer,
 		loadingStep,
 		displayMessage,
@@ -39,6 +39,7 @@ export const selectMultiplayerGameState = (state: RootState) => state.multiplaye
 export const selectMultiplayerError = (state: RootState) => state.multiplayer.error;
 export const selectMultiplayerLoading = (state: RootState) => state.multiplayer.isLoading;
 export const selectMultiplayerPersonalAnswerHistory = (state: RootState) => state.multiplayer.personalAnswerHistory;
+export const selectMultiplayerRemovedFromRoomId = (state: RootState) => state.multiplayer.removedFromRoomId;
 
 export const selectVolume = (state: RootState) => state.audioSettings.volume;
 export const selectSoundEffectsVolume = (state: RootState) => state.audioSettings.soundEffectsVolume ?? 1;
@@ -68,8 +68,27 @@ const gameSessionSlice = createSlice({
 			}
 		},
 		appendQuestions: (state, action: PayloadAction<{ questions: TriviaQuestion[] }>) => {
+			// A player already waiting past the end of the queue starts the first appended question now
+			if (state.currentQuestionIndex >= state.questions.length) {
+				state.questionStartTime = Date.now();
+			}
 			state.questions.push(...action.payload.questions);
 		},
+		revealQuestionAnswer: (
+			state,
+			action: PayloadAction<{ questionId: string; correctAnswerIndex: number; explanation?: string }>
+		) => {
+			const { questionId, correctAnswerIndex, explanation } = action.payload;
+			const question = state.questions.find(q => q.id === questionId);
+			if (!question) return;
+			question.correctAnswerIndex = correctAnswerIndex;
+			question.answers.forEach((answer, index) => {
+				answer.isCorrect = index === correctAnswerIndex;
+			});
+			if (explanation !== undefined) {
+				question.metadata = { ...question.metadata, explanation };
+			}
+		},
 		setGameQuestionCount: (state, action: PayloadAction<number>) => {
 			state.gameQuestionCount = action.payload;
 		},
@@ -130,6 +149,7 @@ export const {
 	startGameSession,
 	setQuestions,
 	appendQuestions,
+	revealQuestionAnswer,
 	setGameQuestionCount,
 	setQuestionIndex,
 	selectAnswer,
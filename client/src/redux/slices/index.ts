@@ -4,6 +4,7 @@ export {
 	startGameSession,
 	setQuestions,
 	appendQuestions,
+	revealQuestionAnswer,
 	setGameQuestionCount,
 	setQuestionIndex,
 	selectAnswer,
@@ -28,6 +29,7 @@ export {
 	setRevealPhase,
 	pushPersonalAnswerEntry,
 	clearPersonalAnswerHistory,
+	setRemovedFromRoomId,
 	resetMultiplayer,
 } from './multiplayerSlice';
 export {
@@ -13,6 +13,7 @@ const initialState: MultiplayerState = {
 	revealPhase: false,
 	personalAnswerHistory: [],
 	answerCountsForQuestionId: null,
+	removedFromRoomId: null,
 };
 
 const multiplayerSlice = createSlice({
@@ -69,6 +70,9 @@ const multiplayerSlice = createSlice({
 			}
 			state.personalAnswerHistory.push(payload);
 		},
+		setRemovedFromRoomId: (state, action: PayloadAction<string | null>) => {
+			state.removedFromRoomId = action.payload;
+		},
 		clearPersonalAnswerHistory: state => {
 			state.personalAnswerHistory = [];
 		},
@@ -85,6 +89,7 @@ export const {
 	setRevealPhase,
 	pushPersonalAnswerEntry,
 	clearPersonalAnswerHistory,
+	setRemovedFromRoomId,
 	resetMultiplayer,
 } = multiplayerSlice.actions;
 
@@ -72,12 +72,14 @@ export const store = configureStore({
 					'payload.startTime',
 					'payload.endTime',
 					'payload.currentQuestionStartTime',
+					'payload.pausedAt',
 					'payload.startedAt',
 				],
 				ignoredPaths: [
 					'multiplayer.room.startTime',
 					'multiplayer.room.endTime',
 					'multiplayer.room.currentQuestionStartTime',
+					'multiplayer.room.pausedAt',
 					'multiplayer.room.createdAt',
 					'multiplayer.room.updatedAt',
 				],
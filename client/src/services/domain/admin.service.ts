@@ -1,5 +1,36 @@
-import { API_ENDPOINTS, QUERY_PARAMS } from '@shared/constants';
-import type { AiProviderHealth, AiProviderStats, UsersListResponse } from '@shared/types';
+import { API_ENDPOINTS, QUERY_PARAMS, type TriviaPackFormat } from '@shared/constants';
+import type {
+	AdminTriviaQuestion,
+	AiProviderHealth,
+	AiProviderStats,
+	BulkTriviaActionRequest,
+	BulkTriviaActionResponse,
+	CatalogTopic,
+	DeleteTriviaQuestionResponse,
+	ExportTriviaPackResponse,
+	ImportTriviaPackRequest,
+	MergeCatalogTopicsRequest,
+	MergeCatalogTopicsResponse,
+	MergeTriviaDuplicatesRequest,
+	MergeTriviaDuplicatesResponse,
+	QuestionCalibrationRunSummary,
+	QuestionCalibrationStatus,
+	QuestionPoolRunSummary,
+	QuestionPoolSettings,
+	QuestionPoolStatus,
+	ResolveTriviaReportsRequest,
+	ResolveTriviaReportsResponse,
+	RollbackTriviaImportBatchResponse,
+	TopicCatalogResponse,
+	TriviaDuplicateClustersResponse,
+	TriviaImportBatchesResponse,
+	TriviaImportReport,
+	TriviaModerationQueueResponse,
+	TriviaQuestionDraft,
+	UpdateCatalogTopicRequest,
+	UpdateTriviaQuestionRequest,
+	UsersListResponse,
+} from '@shared/types';
 import { getErrorMessage } from '@shared/utils';
 
 import type { AdminPricingResponse, AdminPricingUpdatePayload } from '@/types';
@@ -75,6 +106,297 @@ class AdminService {
 			throw error;
 		}
 	}
+
+	async getQuestionPoolStatus(): Promise<QuestionPoolStatus> {
+		try {
+			const response = await apiService.get<QuestionPoolStatus>(API_ENDPOINTS.ADMIN.QUESTION_POOL);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get question pool status', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async updateQuestionPoolSettings(payload: Partial<QuestionPoolSettings>): Promise<QuestionPoolSettings> {
+		try {
+			const response = await apiService.put<QuestionPoolSettings>(API_ENDPOINTS.ADMIN.QUESTION_POOL_SETTINGS, payload);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to update question pool settings', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async runQuestionPoolWarmer(): Promise<QuestionPoolRunSummary> {
+		try {
+			const response = await apiService.post<QuestionPoolRunSummary>(API_ENDPOINTS.ADMIN.QUESTION_POOL_RUN);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to run question pool warmer', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async getQuestionCalibration(): Promise<QuestionCalibrationStatus> {
+		try {
+			const response = await apiService.get<QuestionCalibrationStatus>(API_ENDPOINTS.ADMIN.QUESTION_CALIBRATION);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get question calibration status', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async runQuestionCalibration(): Promise<QuestionCalibrationRunSummary> {
+		try {
+			const response = await apiService.post<QuestionCalibrationRunSummary>(
+				API_ENDPOINTS.ADMIN.QUESTION_CALIBRATION_RUN
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to run question calibration', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async getTopicCatalog(): Promise<TopicCatalogResponse> {
+		try {
+			const response = await apiService.get<TopicCatalogResponse>(API_ENDPOINTS.ADMIN.TOPICS);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get topic catalog', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async updateCatalogTopic(id: string, payload: UpdateCatalogTopicRequest): Promise<CatalogTopic> {
+		try {
+			const response = await apiService.patch<CatalogTopic>(
+				API_ENDPOINTS.ADMIN.TOPIC_BY_ID.replace(':id', id),
+				payload
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to update catalog topic', {
+				errorInfo: { message: getErrorMessage(error) },
+				id,
+			});
+			throw error;
+		}
+	}
+
+	async mergeCatalogTopics(payload: MergeCatalogTopicsRequest): Promise<MergeCatalogTopicsResponse> {
+		try {
+			const response = await apiService.post<MergeCatalogTopicsResponse>(API_ENDPOINTS.ADMIN.TOPICS_MERGE, payload);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to merge catalog topics', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async getTriviaDuplicates(): Promise<TriviaDuplicateClustersResponse> {
+		try {
+			const response = await apiService.get<TriviaDuplicateClustersResponse>(API_ENDPOINTS.ADMIN.TRIVIA_DUPLICATES);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get trivia duplicate clusters', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async mergeTriviaDuplicates(payload: MergeTriviaDuplicatesRequest): Promise<MergeTriviaDuplicatesResponse> {
+		try {
+			const response = await apiService.post<MergeTriviaDuplicatesResponse>(
+				API_ENDPOINTS.ADMIN.TRIVIA_DUPLICATES_MERGE,
+				payload
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to merge trivia duplicates', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async getTriviaReports(): Promise<TriviaModerationQueueResponse> {
+		try {
+			const response = await apiService.get<TriviaModerationQueueResponse>(API_ENDPOINTS.ADMIN.TRIVIA_REPORTS);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get trivia moderation queue', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async resolveTriviaReports(
+		questionId: string,
+		payload: ResolveTriviaReportsRequest
+	): Promise<ResolveTriviaReportsResponse> {
+		try {
+			const response = await apiService.post<ResolveTriviaReportsResponse>(
+				API_ENDPOINTS.ADMIN.TRIVIA_REPORTS_RESOLVE.replace(':questionId', questionId),
+				payload
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to resolve trivia reports', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId,
+			});
+			throw error;
+		}
+	}
+
+	async createTriviaQuestion(payload: TriviaQuestionDraft): Promise<AdminTriviaQuestion> {
+		try {
+			const response = await apiService.post<AdminTriviaQuestion>(API_ENDPOINTS.ADMIN.TRIVIA, payload);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to create trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async updateTriviaQuestion(id: string, payload: UpdateTriviaQuestionRequest): Promise<AdminTriviaQuestion> {
+		try {
+			const response = await apiService.patch<AdminTriviaQuestion>(
+				API_ENDPOINTS.ADMIN.TRIVIA_BY_ID.replace(':id', id),
+				payload
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to update trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	async setTriviaQuestionRetired(id: string, retired: boolean): Promise<AdminTriviaQuestion> {
+		const endpoint = retired ? API_ENDPOINTS.ADMIN.TRIVIA_RETIRE : API_ENDPOINTS.ADMIN.TRIVIA_RESTORE;
+		try {
+			const response = await apiService.post<AdminTriviaQuestion>(endpoint.replace(':id', id));
+			return response.data;
+		} catch (error) {
+			logger.userError(`Failed to ${retired ? 'retire' : 'restore'} trivia question`, {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	async deleteTriviaQuestion(id: string): Promise<DeleteTriviaQuestionResponse> {
+		try {
+			const response = await apiService.delete<DeleteTriviaQuestionResponse>(
+				API_ENDPOINTS.ADMIN.TRIVIA_BY_ID.replace(':id', id)
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to delete trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	async applyTriviaBulkAction(payload: BulkTriviaActionRequest): Promise<BulkTriviaActionResponse> {
+		try {
+			const response = await apiService.post<BulkTriviaActionResponse>(API_ENDPOINTS.ADMIN.TRIVIA_BULK, payload);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to apply trivia bulk action', {
+				errorInfo: { message: getErrorMessage(error) },
+				action: payload.action,
+				count: payload.ids.length,
+			});
+			throw error;
+		}
+	}
+
+	async importTriviaPack(payload: ImportTriviaPackRequest): Promise<TriviaImportReport> {
+		try {
+			const response = await apiService.post<TriviaImportReport>(API_ENDPOINTS.ADMIN.TRIVIA_IMPORT, payload);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to import trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				format: payload.format,
+				dryRun: payload.dryRun,
+			});
+			throw error;
+		}
+	}
+
+	async exportTriviaPack(format: TriviaPackFormat, batchId?: string): Promise<ExportTriviaPackResponse> {
+		try {
+			const searchParams = new URLSearchParams({ [QUERY_PARAMS.FORMAT]: format });
+			if (batchId != null) searchParams.append(QUERY_PARAMS.BATCH_ID, batchId);
+
+			const response = await apiService.get<ExportTriviaPackResponse>(
+				`${API_ENDPOINTS.ADMIN.TRIVIA_EXPORT}?${searchParams.toString()}`
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to export trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				format,
+				batchId,
+			});
+			throw error;
+		}
+	}
+
+	async getTriviaImportBatches(): Promise<TriviaImportBatchesResponse> {
+		try {
+			const response = await apiService.get<TriviaImportBatchesResponse>(API_ENDPOINTS.ADMIN.TRIVIA_IMPORT_BATCHES);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get trivia import batches', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
+	async rollbackTriviaImportBatch(batchId: string): Promise<RollbackTriviaImportBatchResponse> {
+		try {
+			const response = await apiService.delete<RollbackTriviaImportBatchResponse>(
+				API_ENDPOINTS.ADMIN.TRIVIA_IMPORT_BATCH_BY_ID.replace(':id', batchId)
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to roll back trivia import batch', {
+				errorInfo: { message: getErrorMessage(error) },
+				batchId,
+			});
+			throw error;
+		}
+	}
 }
 
 export const adminService = new AdminService();
@@ -13,11 +13,15 @@ import type {
 	BusinessMetrics,
 	ComparisonQueryOptions,
 	CompleteUserAnalytics,
+	DailyChallengeLeaderboardResponse,
 	DifficultyBreakdown,
 	GlobalStatsResponse,
 	LeaderboardEntry,
 	LeaderboardResponse,
 	LeaderboardStats,
+	QuestionAnalyticsDetail,
+	QuestionAnalyticsListQuery,
+	QuestionAnalyticsListResponse,
 	SecurityMetrics,
 	SystemInsights,
 	SystemPerformanceMetrics,
@@ -449,6 +453,42 @@ class AnalyticsService {
 		}
 	}
 
+	async getQuestionAnalyticsList(query: QuestionAnalyticsListQuery = {}): Promise<QuestionAnalyticsListResponse> {
+		try {
+			const searchParams = new URLSearchParams();
+			if (query.sort != null) searchParams.append(QUERY_PARAMS.SORT, query.sort);
+			if (query.limit != null) searchParams.append(QUERY_PARAMS.LIMIT, String(query.limit));
+			if (query.offset != null) searchParams.append(QUERY_PARAMS.OFFSET, String(query.offset));
+			const queryString = searchParams.toString() ? `?${searchParams.toString()}` : '';
+
+			const response = await apiService.get<QuestionAnalyticsListResponse>(
+				API_ENDPOINTS.ANALYTICS.QUESTIONS + queryString
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get question analytics', {
+				errorInfo: { message: getErrorMessage(error) },
+				sort: query.sort,
+			});
+			throw error;
+		}
+	}
+
+	async getQuestionAnalytics(questionId: string): Promise<QuestionAnalyticsDetail> {
+		try {
+			const response = await apiService.get<QuestionAnalyticsDetail>(
+				API_ENDPOINTS.ANALYTICS.QUESTION_BY_ID.replace(':questionId', questionId)
+			);
+			return response.data;
+		} catch (error) {
+			logger.userError('Failed to get question analytics detail', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId,
+			});
+			throw error;
+		}
+	}
+
 	async getAdminSystemHealthDashboard(): Promise<AdminSystemHealthDashboardBundle> {
 		try {
 			logger.userInfo('Fetching bundled admin system health dashboard');
@@ -525,6 +565,32 @@ class AnalyticsService {
 		}
 	}
 
+	async getDailyChallengeLeaderboard(date: string, limit: number): Promise<DailyChallengeLeaderboardResponse> {
+		try {
+			logger.userInfo('Fetching daily challenge leaderboard', { date, limit });
+			const query = new URLSearchParams();
+			query.append(QUERY_PARAMS.DATE, date);
+			query.append(QUERY_PARAMS.LIMIT, String(limit));
+
+			const response = await apiService.get<DailyChallengeLeaderboardResponse>(
+				`${API_ENDPOINTS.ANALYTICS.LEADERBOARD.DAILY_CHALLENGE}?${query.toString()}`
+			);
+
+			logger.userInfo('Daily challenge leaderboard fetched successfully', {
+				date,
+				count: response.data.leaderboard.length,
+			});
+			return response.data;
+		} catch (error) {
+			logger.gameError('Failed to get daily challenge leaderboard', {
+				errorInfo: { message: getErrorMessage(error) },
+				date,
+				limit,
+			});
+			throw error;
+		}
+	}
+
 	async getLeaderboardStats(period: LeaderboardPeriod = LeaderboardPeriod.WEEKLY): Promise<LeaderboardStats> {
 		try {
 			const query = `?${QUERY_PARAMS.PERIOD}=${period}`;
@@ -1,21 +1,41 @@
-import { API_ENDPOINTS, HTTP_TIMEOUTS, Locale, ValidateTextContext, VALIDATION_COUNT } from '@shared/constants';
+import {
+	API_ENDPOINTS,
+	ERROR_MESSAGES,
+	HTTP_TIMEOUTS,
+	Locale,
+	TriviaStreamEventType,
+	ValidateTextContext,
+	VALIDATION_COUNT,
+} from '@shared/constants';
 import type {
 	AdminGameStatistics,
+	ApiError,
 	GameDifficulty,
 	GameSessionValidationResponse,
 	LanguageValidationResult,
-	TriviaResponse,
+	ReportTriviaQuestionRequest,
+	ReportTriviaQuestionResponse,
+	SessionTriviaResponse,
+	TopicSuggestionsResponse,
+	TriviaStreamDoneEvent,
 } from '@shared/types';
 import { getErrorMessage, hasProperty, isRecord } from '@shared/utils';
 
-import type { TriviaQuestionsResponse, TriviaRequestWithSignal } from '@/types';
+import type { TriviaQuestionsResponse, TriviaRequestWithSignal, TriviaStreamHandlers } from '@/types';
 import { apiService, clientLogger as logger } from '@/services';
+import {
+	isTriviaStreamDoneEvent,
+	isTriviaStreamErrorEvent,
+	isTriviaStreamEventType,
+	isTriviaStreamProgressEvent,
+	isTriviaStreamQuestionEvent,
+} from '@/utils';
 
 class GameService {
-	async getTrivia(request: TriviaRequestWithSignal): Promise<TriviaResponse> {
+	async getTrivia(request: TriviaRequestWithSignal): Promise<SessionTriviaResponse> {
 		try {
 			const { signal, ...triviaRequest } = request;
-			const apiResponse = await apiService.post<TriviaResponse>(API_ENDPOINTS.GAME.TRIVIA, triviaRequest, {
+			const apiResponse = await apiService.post<SessionTriviaResponse>(API_ENDPOINTS.GAME.TRIVIA, triviaRequest, {
 				signal,
 				timeout: HTTP_TIMEOUTS.TRIVIA_CLIENT,
 				skipDeduplication: true,
@@ -44,6 +64,59 @@ class GameService {
 		}
 	}
 
+	// Same request as getTrivia, but questions arrive one by one while the server is still generating the rest
+	async streamTrivia(request: TriviaRequestWithSignal, handlers: TriviaStreamHandlers): Promise<TriviaStreamDoneEvent> {
+		const { signal, ...triviaRequest } = request;
+		const outcome: { done?: TriviaStreamDoneEvent; error?: ApiError } = {};
+		try {
+			await apiService.postEventStream(
+				API_ENDPOINTS.GAME.TRIVIA_STREAM,
+				triviaRequest,
+				(event, data) => {
+					if (!isTriviaStreamEventType(event)) return;
+					switch (event) {
+						case TriviaStreamEventType.QUESTION:
+							if (isTriviaStreamQuestionEvent(data)) handlers.onQuestion(data);
+							break;
+						case TriviaStreamEventType.PROGRESS:
+							if (isTriviaStreamProgressEvent(data)) handlers.onProgress?.(data);
+							break;
+						case TriviaStreamEventType.ERROR:
+							if (isTriviaStreamErrorEvent(data)) {
+								outcome.error = { message: data.message, statusCode: data.statusCode };
+							}
+							break;
+						case TriviaStreamEventType.DONE:
+							if (isTriviaStreamDoneEvent(data)) outcome.done = data;
+							break;
+					}
+				},
+				{ signal }
+			);
+			if (outcome.error) {
+				throw outcome.error;
+			}
+			if (!outcome.done) {
+				throw new Error(ERROR_MESSAGES.api.INVALID_API_RESPONSE_STRUCTURE);
+			}
+			return outcome.done;
+		} catch (error) {
+			const message = getErrorMessage(error);
+			const isAbortError =
+				message === 'Request was cancelled' ||
+				message.includes('aborted') ||
+				(isRecord(error) && 'statusCode' in error && error.statusCode === 0);
+			if (!isAbortError) {
+				logger.gameError('Failed to stream trivia questions', {
+					errorInfo: { message },
+					topic: request.topic,
+					difficulty: request.difficulty,
+				});
+			}
+			throw error;
+		}
+	}
+
 	async validateTriviaTopic(params: {
 		topic: string;
 		difficulty: GameDifficulty;
@@ -62,6 +135,25 @@ class GameService {
 		}
 	}
 
+	async getTopicSuggestions(query: string, locale: Locale): Promise<TopicSuggestionsResponse> {
+		try {
+			const params = new URLSearchParams({ locale, limit: String(VALIDATION_COUNT.TOPIC_SUGGESTIONS.DEFAULT) });
+			if (query.length > 0) {
+				params.set('query', query);
+			}
+			const response = await apiService.get<TopicSuggestionsResponse>(
+				`${API_ENDPOINTS.GAME.TOPIC_SUGGESTIONS}?${params.toString()}`
+			);
+			return response.data;
+		} catch (error) {
+			logger.gameError('Failed to get topic suggestions', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: query,
+			});
+			throw error;
+		}
+	}
+
 	async validateText(
 		text: string,
 		context?: ValidateTextContext,
@@ -114,6 +206,24 @@ class GameService {
 		}
 	}
 
+	async reportQuestion(
+		questionId: string,
+		request: ReportTriviaQuestionRequest
+	): Promise<ReportTriviaQuestionResponse> {
+		try {
+			const url = API_ENDPOINTS.GAME.TRIVIA_REPORT.replace(':id', questionId);
+			const response = await apiService.post<ReportTriviaQuestionResponse>(url, request);
+			logger.gameInfo('Trivia question reported', { questionId, reason: request.reason });
+			return response.data;
+		} catch (error) {
+			logger.gameError('Failed to report trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId,
+			});
+			throw error;
+		}
+	}
+
 	async validateSession(gameId: string): Promise<GameSessionValidationResponse> {
 		try {
 			const url = API_ENDPOINTS.GAME.VALIDATE_SESSION.replace(':gameId', gameId);
@@ -106,7 +106,8 @@ class GameHistoryService {
 		topic: string,
 		difficulty: GameDifficulty,
 		gameMode: GameMode,
-		outputLanguage?: Locale
+		outputLanguage?: Locale,
+		timeLimit?: number
 	): Promise<GameSessionStartResponse> {
 		try {
 			const response = await apiService.post<GameSessionStartResponse>(API_ENDPOINTS.GAME.SESSION_START, {
@@ -115,6 +116,7 @@ class GameHistoryService {
 				difficulty,
 				gameMode,
 				...(outputLanguage !== undefined && { outputLanguage }),
+				...(timeLimit !== undefined && { timeLimit }),
 			});
 			return response.data;
 		} catch (error) {
@@ -130,6 +130,8 @@ class MultiplayerService {
 		this.socket.off(MultiplayerEvent.ROOM_LEFT);
 		this.socket.off(MultiplayerEvent.PLAYER_JOINED);
 		this.socket.off(MultiplayerEvent.PLAYER_LEFT);
+		this.socket.off(MultiplayerEvent.PLAYER_KICKED);
+		this.socket.off(MultiplayerEvent.HOST_CHANGED);
 		this.socket.off(MultiplayerEvent.GAME_STARTED);
 		this.socket.off(MultiplayerEvent.QUESTION_STARTED);
 		this.socket.off(MultiplayerEvent.ANSWER_RECEIVED);
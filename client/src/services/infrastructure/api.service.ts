@@ -598,6 +598,106 @@ class ApiService {
 		return this.executeRequest<T>(url, HttpMethod.POST, config, data);
 	}
 
+	// Server-sent events over POST: EventSource cannot send a JSON body, so the stream is read from fetch directly.
+	// Resolves once the server closes the stream; each frame's data is JSON-parsed before it reaches onEvent.
+	async postEventStream(
+		url: string,
+		data: RequestData,
+		onEvent: (event: string, data: unknown) => void,
+		config?: EnhancedRequestConfig,
+		hasAttemptedRefresh: boolean = false
+	): Promise<void> {
+		const fullUrl = this.baseURL + url;
+		const interceptedConfig = await this.interceptors.executeRequest({
+			method: HttpMethod.POST,
+			baseURL: this.baseURL,
+			credentials: 'include',
+			signal: config?.signal,
+		});
+		const headers = new Headers(interceptedConfig.headers);
+		headers.set('Content-Type', 'application/json');
+		headers.set('Accept', 'text/event-stream');
+
+		let response: Response;
+		try {
+			response = await fetch(fullUrl, {
+				method: HttpMethod.POST,
+				headers,
+				body: JSON.stringify(data),
+				credentials: 'include',
+				signal: interceptedConfig.signal,
+			});
+		} catch (error) {
+			throw this.toEventStreamError(error);
+		}
+
+		if (!response.ok) {
+			const originalRequestFn = async (): Promise<ApiResponse<void>> => {
+				await this.postEventStream(url, data, onEvent, config, true);
+				return { data: undefined, success: true, statusCode: response.status, timestamp: new Date().toISOString() };
+			};
+			await this.handleResponse<void>(response, HttpMethod.POST, originalRequestFn, hasAttemptedRefresh, fullUrl);
+			return;
+		}
+		if (!response.body) {
+			throw new Error(ERROR_MESSAGES.api.INVALID_API_RESPONSE_STRUCTURE);
+		}
+
+		const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+		let buffer = '';
+		try {
+			for (;;) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				buffer += value;
+				let boundary = buffer.indexOf('\n\n');
+				while (boundary !== -1) {
+					this.dispatchEventStreamFrame(buffer.slice(0, boundary), onEvent);
+					buffer = buffer.slice(boundary + 2);
+					boundary = buffer.indexOf('\n\n');
+				}
+			}
+		} catch (error) {
+			throw this.toEventStreamError(error);
+		}
+	}
+
+	private toEventStreamError(error: unknown): unknown {
+		if (error instanceof Error && error.name === 'AbortError') {
+			const abortError: ApiError = {
+				message: 'Request was cancelled',
+				statusCode: 0,
+				details: { error: 'Request was cancelled' },
+			};
+			return abortError;
+		}
+		return error;
+	}
+
+	private dispatchEventStreamFrame(frame: string, onEvent: (event: string, data: unknown) => void): void {
+		let eventName = 'message';
+		const dataLines: string[] = [];
+		for (const line of frame.split('\n')) {
+			if (line.startsWith('event:')) {
+				eventName = line.slice('event:'.length).trim();
+			} else if (line.startsWith('data:')) {
+				dataLines.push(line.slice('data:'.length).trim());
+			}
+		}
+		if (dataLines.length === 0) return;
+		let payload: unknown;
+		try {
+			payload = JSON.parse(dataLines.join('\n'));
+		} catch (error) {
+			logger.apiDebug('Skipping malformed event stream frame', {
+				eventType: eventName,
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			return;
+		}
+		onEvent(eventName, payload);
+	}
+
 	async put<T>(url: string, data?: RequestData, config?: EnhancedRequestConfig): Promise<ApiResponse<T>> {
 		return this.executeRequest<T>(url, HttpMethod.PUT, config, data);
 	}
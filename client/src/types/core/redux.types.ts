@@ -53,6 +53,7 @@ export interface MultiplayerState {
 	revealPhase: boolean;
 	personalAnswerHistory: MultiplayerAnswerBreakdownEntry[];
 	answerCountsForQuestionId: string | null;
+	removedFromRoomId: string | null;
 }
 
 export interface UIPreferencesState {
@@ -2,7 +2,10 @@ import type { LucideIcon } from 'lucide-react';
 
 import type {
 	AnalyticsResponse,
+	CatalogTopic,
 	SystemRecommendation,
+	TriviaQuestionDraft,
+	UpdateCatalogTopicRequest,
 	UserAnalyticsRecord,
 	UserInsightsData,
 	UserPerformanceMetrics,
@@ -75,3 +78,23 @@ export interface SystemInsightDetailGridProps {
 	readonly categoryLabelKey: AdminKey;
 	readonly idPrefix: string;
 }
+
+export interface TriviaQuestionFormProps {
+	initialDraft: TriviaQuestionDraft;
+	submitLabel: string;
+	isSaving: boolean;
+	onSubmit: (draft: TriviaQuestionDraft) => void;
+	onCancel: () => void;
+}
+
+export interface QuestionAnalyticsDialogProps {
+	questionId: string | null;
+	onClose: () => void;
+}
+
+export interface TopicCatalogEditFormProps {
+	topic: CatalogTopic;
+	isSaving: boolean;
+	onSubmit: (payload: UpdateCatalogTopicRequest) => void;
+	onCancel: () => void;
+}
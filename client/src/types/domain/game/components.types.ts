@@ -43,6 +43,7 @@ export interface GameTimerProps {
 	onWarning?: () => void;
 	label?: string;
 	showProgressBar?: boolean;
+	isPaused?: boolean;
 }
 
 export interface GameSessionHudProps extends GameTimerProps {
@@ -72,6 +73,11 @@ export interface ExitGameButtonProps {
 	disabled?: boolean;
 }
 
+export interface ReportQuestionDialogProps {
+	questionId: string;
+	size?: ButtonSize;
+}
+
 export interface SingleSessionDialogsProps {
 	showErrorDialog: boolean;
 	setShowErrorDialog: (open: boolean | ((prev: boolean) => boolean)) => void;
@@ -91,6 +97,13 @@ export interface TopicWithMeta {
 	gameCount?: number;
 }
 
+export interface TopicComboboxProps {
+	value: string;
+	onChange: (topic: string) => void;
+	placeholder?: string;
+	error?: boolean;
+}
+
 export interface GameSettingsFormProps {
 	topic: string;
 	onTopicChange: (topic: string) => void;
@@ -1,5 +1,13 @@
 import type { DifficultyLevel, GameMode } from '@shared/constants';
-import type { AnswerHistory, GameConfig, GameDifficulty, GameHistoryEntry, TriviaRequest } from '@shared/types';
+import type {
+	AnswerHistory,
+	GameConfig,
+	GameDifficulty,
+	GameHistoryEntry,
+	TriviaRequest,
+	TriviaStreamProgressEvent,
+	TriviaStreamQuestionEvent,
+} from '@shared/types';
 
 import { RANK_DISPLAY, TextLanguageStatus } from '@/constants';
 
@@ -60,6 +68,11 @@ export interface ValidateGameSettingsOptions {
 
 export type TriviaRequestWithSignal = TriviaRequest & { signal?: AbortSignal };
 
+export interface TriviaStreamHandlers {
+	onQuestion: (event: TriviaStreamQuestionEvent) => void;
+	onProgress?: (event: TriviaStreamProgressEvent) => void;
+}
+
 export interface UseGameSettingsFormReturn {
 	topic: string;
 	topicError: string;
@@ -1,7 +1,7 @@
 import type { ReactNode } from 'react';
 
-import type { PlayerStatus, RoomStatus } from '@shared/constants';
-import type { Player, PublicWaitingRoomDto } from '@shared/types';
+import type { AnswerPolicy, PlayerStatus, RoomStatus } from '@shared/constants';
+import type { Player, PublicWaitingRoomDto, TeamStanding } from '@shared/types';
 
 import type { UiDensity } from '@/constants';
 import type { UserAvatarSource } from '../user/components.types';
@@ -12,6 +12,10 @@ export interface LobbyGameDetailsCardProps {
 	questionsCount: number;
 	status: RoomStatus;
 	statusTrailing?: ReactNode;
+
+	// Room timing rules; omitted where only the public lobby summary is known
+	timePerQuestion?: number;
+	answerPolicy?: AnswerPolicy;
 }
 
 export interface LobbyRoomCodeBlockProps {
@@ -23,6 +27,30 @@ export interface LobbyRoomCodeBlockProps {
 export interface LobbyPlayersCardProps {
 	players: LobbyPlayerCardRow[];
 	maxPlayers: number;
+	spectatorCount?: number;
+
+	// Only passed for the room host; rows without a userId or with the crown get no controls
+	moderation?: LobbyPlayerModerationActions;
+
+	// Only passed for team rooms; rows show a team picker where canAssign allows it and a badge otherwise
+	teams?: LobbyTeamAssignment;
+}
+
+export interface LobbyTeamAssignment {
+	teamCount: number;
+	canAssign: (userId: string) => boolean;
+	onAssign: (userId: string, teamIndex: number) => void;
+}
+
+export interface TeamStandingsCardProps {
+	standings: TeamStanding[];
+	players: Player[];
+}
+
+export interface LobbyPlayerModerationActions {
+	onKick: (userId: string) => void;
+	onBan: (userId: string) => void;
+	onTransferHost: (userId: string) => void;
 }
 
 export interface PublicLobbyRoomCardProps {
@@ -34,10 +62,12 @@ export interface PublicLobbyRoomCardProps {
 
 export interface LobbyPlayerCardRow {
 	rowKey: string;
+	userId?: string;
 	avatarSource: UserAvatarSource;
 	displayName: string;
 	showCrown: boolean;
 	status: PlayerStatus;
+	teamIndex?: number;
 }
 
 export interface MultiplayerErrorMessage {
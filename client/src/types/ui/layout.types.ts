@@ -4,13 +4,13 @@ export interface TabsBarProps {
 	items: ReadonlyArray<TabsBarItem>;
 	variant: TabsBarVariant;
 
-	columns?: 2 | 3;
+	columns?: 2 | 3 | 4;
 }
 
 export interface SecondaryTabsBarProps {
 	items: ReadonlyArray<SecondaryTabsBarItem>;
 
-	columns?: 2 | 3;
+	columns?: 2 | 3 | 4;
 }
 
 export type FooterSection =
@@ -0,0 +1,9 @@
+// Saves text produced in the browser (e.g. an API export) as a file through a temporary object URL
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
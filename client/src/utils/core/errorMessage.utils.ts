@@ -19,6 +19,9 @@ const VALIDATION_MESSAGE_TO_KEY: Record<string, string> = {
 	[ERROR_MESSAGES.validation.INPUT_VALIDATION_FAILED]: ErrorsKey.INPUT_VALIDATION_FAILED,
 	[ERROR_MESSAGES.validation.INVALID_INPUT_DATA]: ErrorsKey.INVALID_INPUT_DATA,
 	[ERROR_MESSAGES.validation.CUSTOM_DIFFICULTY_REQUIRES_DESCRIPTION]: ErrorsKey.CUSTOM_DIFFICULTY_REQUIRES_DESCRIPTION,
+	[ERROR_MESSAGES.game.DAILY_CHALLENGE_ALREADY_PLAYED]: ErrorsKey.DAILY_CHALLENGE_ALREADY_PLAYED,
+	[ERROR_MESSAGES.game.DAILY_CHALLENGE_UNAVAILABLE]: ErrorsKey.DAILY_CHALLENGE_UNAVAILABLE,
+	[ERROR_MESSAGES.game.ANSWER_AFTER_TIME_LIMIT]: ErrorsKey.ANSWER_AFTER_TIME_LIMIT,
 
 	'Validation failed': ErrorsKey.INPUT_VALIDATION_FAILED,
 };
@@ -2,6 +2,7 @@ export * from './authQueryKey.utils';
 export * from './backgroundAnimationPath.utils';
 export * from './cn.utils';
 export * from './direction.utils';
+export * from './download.utils';
 export * from './errorMessage.utils';
 export * from './format.utils';
 export * from './repeat.utils';
@@ -11,7 +11,7 @@ const TAB_IMPORTS: Record<DashboardTabBundle, TabImportsMap> = {
 	},
 	admin: {
 		PerformanceTabContent: () => import('@/components/admin/performance/PerformanceTabContent'),
-		TriviaManagementTable: () => import('@/components/admin/trivia/TriviaManagementTable'),
+		TriviaTabContent: () => import('@/components/admin/trivia/TriviaTabContent'),
 		UsersTable: () => import('@/components/admin/users/UsersTable'),
 		BusinessTabContent: () => import('@/components/admin/business/BusinessTabContent'),
 		SystemTabContent: () => import('@/components/admin/system/SystemTabContent'),
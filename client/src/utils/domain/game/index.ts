@@ -7,5 +7,6 @@ export {
 	getSingleSessionExpectedQuestionCount,
 	getSingleSessionGameModeFlags,
 	getSingleSessionQuestionsPerRequest,
+	toPendingTriviaQuestion,
 } from './singleSessionGame.utils';
 export { isTriviaGenerationDeclinedLoadError } from './sessionLoadError.utils';
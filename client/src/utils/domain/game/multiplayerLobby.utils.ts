@@ -6,6 +6,7 @@ import type { LobbyPlayerCardRow } from '@/types';
 export function toLobbyPlayerRowsFromMultiplayerRoom(room: MultiplayerRoom): LobbyPlayerCardRow[] {
 	return room.players.map(player => ({
 		rowKey: player.userId,
+		userId: player.userId,
 		avatarSource: {
 			firstName: player.firstName ?? null,
 			lastName: player.lastName ?? null,
@@ -16,6 +17,7 @@ export function toLobbyPlayerRowsFromMultiplayerRoom(room: MultiplayerRoom): Lob
 		displayName: getDisplayNameFromUserFields(player),
 		showCrown: player.userId === room.hostId,
 		status: player.status,
+		teamIndex: player.teamIndex,
 	}));
 }
 
@@ -1,4 +1,5 @@
 import { DEFAULT_GAME_CONFIG, GAME_MODES_CONFIG, GameMode, VALIDATION_COUNT } from '@shared/constants';
+import type { SessionTriviaQuestion, TriviaQuestion } from '@shared/types';
 
 import type {
 	SingleSessionCompletionParams,
@@ -13,7 +14,8 @@ export function getSingleSessionGameModeFlags(gameMode: GameMode): SingleSession
 	const isQuestionLimited = gameMode === GameMode.QUESTION_LIMITED;
 	const isTimeLimited = gameMode === GameMode.TIME_LIMITED;
 	const isUnlimited = gameMode === GameMode.UNLIMITED;
-	const hasQuestionLimit = isQuestionLimited || gameMode === GameMode.MULTIPLAYER;
+	const hasQuestionLimit =
+		isQuestionLimited || gameMode === GameMode.MULTIPLAYER || gameMode === GameMode.DAILY_CHALLENGE;
 	return {
 		isQuestionLimited,
 		isTimeLimited,
@@ -84,3 +86,12 @@ export function getSingleSessionCompletionState(params: SingleSessionCompletionP
 
 	return { shouldEndGame, shouldFetchMore };
 }
+
+// Session questions arrive without correctness data; -1 keeps the answer unrevealed until revealQuestionAnswer
+export function toPendingTriviaQuestion(question: SessionTriviaQuestion): TriviaQuestion {
+	return {
+		...question,
+		answers: question.answers.map(answer => ({ ...answer, isCorrect: false })),
+		correctAnswerIndex: -1,
+	};
+}
@@ -1,4 +1,11 @@
-import { isErrorWithProperties, isNonEmptyString, isRecord } from '@shared/utils';
+import { TRIVIA_STREAM_EVENT_TYPES, TriviaStreamEventType } from '@shared/constants';
+import type {
+	TriviaStreamDoneEvent,
+	TriviaStreamErrorEvent,
+	TriviaStreamProgressEvent,
+	TriviaStreamQuestionEvent,
+} from '@shared/types';
+import { hasPropertyOfType, isErrorWithProperties, isNonEmptyString, isRecord } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
 import { Routes } from '@/constants';
@@ -12,6 +19,38 @@ export function isDifficultyTooltipPoint(obj: unknown): obj is DifficultyTooltip
 	return isNonEmptyString(name) && VALIDATORS.number(games) && VALIDATORS.number(successRate);
 }
 
+export function isTriviaStreamEventType(value: string): value is TriviaStreamEventType {
+	return TRIVIA_STREAM_EVENT_TYPES.has(value);
+}
+
+export function isTriviaStreamQuestionEvent(obj: unknown): obj is TriviaStreamQuestionEvent {
+	if (!isRecord(obj) || !isRecord(obj.question) || !VALIDATORS.number(obj.index)) return false;
+	return (
+		isNonEmptyString(obj.question.id) &&
+		isNonEmptyString(obj.question.question) &&
+		Array.isArray(obj.question.answers) &&
+		obj.question.answers.length > 0
+	);
+}
+
+export function isTriviaStreamProgressEvent(obj: unknown): obj is TriviaStreamProgressEvent {
+	return (
+		hasPropertyOfType(obj, 'delivered', VALIDATORS.number) &&
+		hasPropertyOfType(obj, 'requested', VALIDATORS.number) &&
+		hasPropertyOfType(obj, 'generating', VALIDATORS.boolean)
+	);
+}
+
+export function isTriviaStreamErrorEvent(obj: unknown): obj is TriviaStreamErrorEvent {
+	return (
+		hasPropertyOfType(obj, 'message', VALIDATORS.string) && hasPropertyOfType(obj, 'statusCode', VALIDATORS.number)
+	);
+}
+
+export function isTriviaStreamDoneEvent(obj: unknown): obj is TriviaStreamDoneEvent {
+	return hasPropertyOfType(obj, 'delivered', VALIDATORS.number);
+}
+
 export function isSessionExpiredError(error: unknown): boolean {
 	if (error instanceof Error) {
 		return (
@@ -2,9 +2,15 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate, useParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { Pause, Play, SkipForward } from 'lucide-react';
 
-import { MULTIPLAYER_TIME_PER_QUESTION, RoomStatus, TIME_PERIODS_MS } from '@shared/constants';
-import { calculateElapsedSeconds, getCorrectAnswerIndex, getDisplayNameFromUserFields } from '@shared/utils';
+import { AnswerPolicy, RoomStatus, TIME_PERIODS_MS } from '@shared/constants';
+import {
+	calculateElapsedSeconds,
+	getCorrectAnswerIndex,
+	getDisplayNameFromUserFields,
+	getRoomTimePerQuestion,
+} from '@shared/utils';
 
 import {
 	AlertVariant,
@@ -49,6 +55,7 @@ export function MultiplayerGameView() {
 		room,
 		gameState,
 		leaderboard,
+		teamLeaderboard,
 		submitAnswer,
 		leaveRoom,
 		joinRoom,
@@ -56,6 +63,13 @@ export function MultiplayerGameView() {
 		displayMessage,
 		isConnected,
 		error,
+		isHost,
+		isPaused,
+		isSpectator,
+		removedFromRoomId,
+		pauseGame,
+		resumeGame,
+		skipQuestion,
 	} = useMultiplayer(roomId);
 	const revealPhase = useAppSelector(state => state.multiplayer.revealPhase);
 	const answerCountsForQuestionId = useAppSelector(state => state.multiplayer.answerCountsForQuestionId);
@@ -76,7 +90,9 @@ export function MultiplayerGameView() {
 	const currentQuestion = gameState?.currentQuestion;
 	const questionIndex = gameState?.currentQuestionIndex ?? 0;
 	const gameQuestionCount = gameState?.gameQuestionCount ?? 0;
-	const timePerQuestion = MULTIPLAYER_TIME_PER_QUESTION;
+	const timePerQuestion = getRoomTimePerQuestion(room?.config);
+	// In locked rooms the first pick is final, including one restored from the server after a reconnect
+	const isAnswerLocked = room?.config.answerPolicy === AnswerPolicy.LOCKED && displayedSelectedAnswer !== null;
 	const isQuestionLoaded = !!(
 		currentQuestion?.question &&
 		currentQuestion?.answers &&
@@ -143,6 +159,13 @@ export function MultiplayerGameView() {
 		return () => clearTimeout(timeoutId);
 	}, [room?.status, roomId, navigate]);
 
+	// The lobby shows why the host removed this player
+	useEffect(() => {
+		if (roomId && removedFromRoomId === roomId.toUpperCase()) {
+			navigate(Routes.MULTIPLAYER, { replace: true });
+		}
+	}, [roomId, removedFromRoomId, navigate]);
+
 	// Play correct/wrong sound when answer is revealed (revealPhase becomes true). Use same source as display: server when available, else local.
 	const prevRevealPhaseRef = useRef(false);
 	useEffect(() => {
@@ -158,7 +181,8 @@ export function MultiplayerGameView() {
 	}, [revealPhase, currentQuestion, displayedSelectedAnswer]);
 
 	const handleAnswerSelect = (answerIndex: number) => {
-		if (selectionLocked || revealPhase || !roomId || !currentQuestion?.id) return;
+		if (selectionLocked || isAnswerLocked || revealPhase || isPaused || isSpectator || !roomId || !currentQuestion?.id)
+			return;
 		const timeSpent = questionStartTime ? Math.max(1, calculateElapsedSeconds(questionStartTime)) : 0;
 		setSelectedAnswer(answerIndex);
 		submitAnswer(roomId, currentQuestion.id, answerIndex, timeSpent);
@@ -247,6 +271,7 @@ export function MultiplayerGameView() {
 									serverEndTimestamp={serverEndTimestamp}
 									onTimeout={handleTimerTimeout}
 									label={t(GameKey.TIME_REMAINING)}
+									isPaused={isPaused}
 								/>
 							</CardContent>
 						</Card>
@@ -255,6 +280,19 @@ export function MultiplayerGameView() {
 								<CardTitle className='text-sm'>{t(GameKey.STANDINGS)}</CardTitle>
 							</CardHeader>
 							<CardContent className='flex min-h-0 flex-col px-4 pb-3 pt-0'>
+								{teamLeaderboard.length > 0 && (
+									<div className='mb-2 flex flex-wrap gap-x-4 gap-y-1 border-b pb-2'>
+										{teamLeaderboard.map((standing, index) => (
+											<div
+												key={standing.teamIndex}
+												className={cn('flex items-center gap-2 text-sm', index === 0 && 'font-semibold')}
+											>
+												<span>{t(GameKey.TEAM_NAME, { number: standing.teamIndex + 1 })}</span>
+												<span className='font-bold tabular-nums'>{standing.score}</span>
+											</div>
+										))}
+									</div>
+								)}
 								<div className='max-h-36 min-h-0 overflow-y-auto overflow-x-hidden pr-1'>
 									<div className='flex flex-wrap gap-x-4 gap-y-2'>
 										{(leaderboard.length > 0 ? leaderboard : (room?.players ?? [])).map((player, index) => {
@@ -283,6 +321,16 @@ export function MultiplayerGameView() {
 					{/* Question card; % who chose each answer shown only on answer buttons (one UX) */}
 					<Card className='flex-1 flex flex-col min-h-0 mb-3 relative overflow-hidden'>
 						<CardContent className='pt-4 pb-4 flex-1 flex flex-col min-h-0'>
+							{isPaused && (
+								<Alert variant={AlertVariant.DEFAULT} className='mb-4 flex-shrink-0'>
+									<AlertDescription>{t(GameKey.GAME_PAUSED_BY_HOST)}</AlertDescription>
+								</Alert>
+							)}
+							{isSpectator && (
+								<Alert variant={AlertVariant.DEFAULT} className='mb-4 flex-shrink-0'>
+									<AlertDescription>{t(GameKey.SPECTATING_NOTICE)}</AlertDescription>
+								</Alert>
+							)}
 							<h2 className='text-xl font-bold mb-4 leading-tight flex-shrink-0'>
 								{currentQuestion?.question ?? t(LoadingMessages.LOADING_QUESTION)}
 							</h2>
@@ -290,7 +338,7 @@ export function MultiplayerGameView() {
 								<div className='relative'>
 									<AnswerButton
 										answers={currentQuestion?.answers}
-										answered={selectionLocked}
+										answered={selectionLocked || isAnswerLocked || isPaused || isSpectator}
 										selectedAnswer={displayedSelectedAnswer}
 										currentQuestion={currentQuestion}
 										onAnswerClick={handleAnswerSelect}
@@ -301,7 +349,28 @@ export function MultiplayerGameView() {
 								</div>
 							</div>
 
-							<div className='mt-4 flex justify-center flex-shrink-0'>
+							<div className='mt-4 flex flex-wrap justify-center gap-2 flex-shrink-0'>
+								{isHost && (
+									<>
+										<Button
+											variant={VariantBase.OUTLINE}
+											size={ButtonSize.SM}
+											onClick={isPaused ? resumeGame : pauseGame}
+										>
+											{isPaused ? <Play className='h-4 w-4 me-2' /> : <Pause className='h-4 w-4 me-2' />}
+											{t(isPaused ? GameKey.RESUME_GAME : GameKey.PAUSE_GAME)}
+										</Button>
+										<Button
+											variant={VariantBase.OUTLINE}
+											size={ButtonSize.SM}
+											onClick={skipQuestion}
+											disabled={revealPhase || !isQuestionLoaded}
+										>
+											<SkipForward className='h-4 w-4 me-2 rtl:scale-x-[-1]' />
+											{t(GameKey.SKIP_QUESTION)}
+										</Button>
+									</>
+								)}
 								<ExitGameButton
 									variant={ExitGameButtonVariant.ROOM}
 									onConfirm={() => {
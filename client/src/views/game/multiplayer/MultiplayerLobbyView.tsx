@@ -2,27 +2,33 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, CreditCard, Grid2x2Check, Grid2x2Plus, Play } from 'lucide-react';
+import { ArrowLeft, CreditCard, Grid2x2Check, Grid2x2Plus, Play, Shuffle } from 'lucide-react';
 
 import {
+	AnswerPolicy,
 	DEFAULT_GAME_CONFIG,
 	GAME_MODES_CONFIG,
 	GameMode,
 	RoomStatus,
+	TeamScoreRule,
 	VALIDATION_COUNT,
 	VALIDATION_LENGTH,
 } from '@shared/constants';
 import type { CreateRoomConfig } from '@shared/types';
-import { getErrorMessage, isRecord } from '@shared/utils';
+import { getErrorMessage, getRoomTimePerQuestion, isRecord, isTeamMode } from '@shared/utils';
+import { isAnswerPolicy, isTeamScoreRule } from '@shared/validation';
 
 import {
 	AlertVariant,
+	ANSWER_POLICY_LABEL_KEYS,
 	ButtonSize,
 	ComponentSize,
 	ExitGameButtonVariant,
 	GameKey,
+	MULTIPLAYER_TIME_PER_QUESTION_OPTIONS,
 	Routes,
 	TabsListVariant,
+	TEAM_SCORE_RULE_LABEL_KEYS,
 	TextLanguageStatus,
 	VALIDATION_MESSAGES,
 	VariantBase,
@@ -44,6 +50,11 @@ import {
 	LobbyGameDetailsCard,
 	LobbyPlayersCard,
 	LobbyRoomCodeBlock,
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
 	Spinner,
 	Switch,
 	Tabs,
@@ -89,13 +100,20 @@ export function MultiplayerLobbyView() {
 		isConnected,
 		error,
 		isHost,
+		isSpectator,
 		isReadyToStart,
+		currentPlayer,
 		roomCode,
 		createRoom,
 		joinRoom,
 		leaveRoom,
 		startGame,
 		updatePublicLobbyVisibility,
+		kickPlayer,
+		banPlayer,
+		transferHost,
+		assignTeam,
+		balanceTeams,
 		loadingStep,
 		displayMessage,
 	} = useMultiplayer();
@@ -121,6 +139,22 @@ export function MultiplayerLobbyView() {
 	const { copied: roomCodeCopied, copy: copyRoomCode } = useCopyRoomCode(roomCode);
 
 	const lobbyPlayerRows = useMemo(() => (room ? toLobbyPlayerRowsFromMultiplayerRoom(room) : []), [room]);
+	const lobbyModeration = useMemo(
+		() => (isHost ? { onKick: kickPlayer, onBan: banPlayer, onTransferHost: transferHost } : undefined),
+		[isHost, kickPlayer, banPlayer, transferHost]
+	);
+	const isTeamRoom = isTeamMode(room?.config);
+	const lobbyTeams = useMemo(
+		() =>
+			room && isTeamMode(room.config) && room.status === RoomStatus.WAITING
+				? {
+						teamCount: room.config.teamCount ?? 0,
+						canAssign: (userId: string) => isHost || userId === currentPlayer?.userId,
+						onAssign: assignTeam,
+					}
+				: undefined,
+		[room, isHost, currentPlayer?.userId, assignTeam]
+	);
 
 	const [createRoomFlowIssues, setCreateRoomFlowIssues] = useState<string[]>([]);
 
@@ -138,6 +172,9 @@ export function MultiplayerLobbyView() {
 		questionsPerRequest: GAME_MODES_CONFIG[GameMode.MULTIPLAYER].defaults.maxQuestionsPerGame ?? 10,
 		maxPlayers: VALIDATION_COUNT.PLAYERS.DEFAULT,
 		isPublicLobby: false,
+		timePerQuestion: VALIDATION_COUNT.TIME_PER_QUESTION.DEFAULT,
+		answerPolicy: AnswerPolicy.CHANGEABLE,
+		endWhenAllAnswered: false,
 	});
 
 	const createRoomHostCreditPreview = useMemo(() => {
@@ -229,7 +266,7 @@ export function MultiplayerLobbyView() {
 			return;
 		}
 		joinFromQueryHandledForSearchRef.current = location.search;
-		void joinRoom(code);
+		void joinRoom(code, params.get('spectate') === '1');
 	}, [location.search, isConnected, room, joinRoom]);
 
 	useEffect(() => {
@@ -242,6 +279,7 @@ export function MultiplayerLobbyView() {
 			return;
 		}
 		params.delete('join');
+		params.delete('spectate');
 		const qs = params.toString();
 		navigate({ pathname: Routes.MULTIPLAYER, search: qs ? `?${qs}` : '' }, { replace: true });
 	}, [room?.roomId, location.search, navigate]);
@@ -300,9 +338,18 @@ export function MultiplayerLobbyView() {
 						</Alert>
 					)}
 
+					{isSpectator && (
+						<Alert variant={AlertVariant.DEFAULT}>
+							<AlertDescription>{t(GameKey.SPECTATING_NOTICE)}</AlertDescription>
+						</Alert>
+					)}
+
 					<LobbyPlayersCard
 						players={lobbyPlayerRows}
 						maxPlayers={room.config?.maxPlayers ?? VALIDATION_COUNT.PLAYERS.MAX}
+						spectatorCount={room.spectators?.length ?? 0}
+						moderation={room.status === RoomStatus.WAITING ? lobbyModeration : undefined}
+						teams={lobbyTeams}
 					/>
 
 					<LobbyGameDetailsCard
@@ -310,6 +357,8 @@ export function MultiplayerLobbyView() {
 						difficulty={room.config?.difficulty ?? DEFAULT_GAME_CONFIG.defaultDifficulty}
 						questionsCount={questionsCount}
 						status={room.status}
+						timePerQuestion={getRoomTimePerQuestion(room.config)}
+						answerPolicy={room.config?.answerPolicy ?? AnswerPolicy.CHANGEABLE}
 						statusTrailing={
 							room.status === RoomStatus.STARTING ? <Spinner size={ComponentSize.SM} className='shrink-0' /> : undefined
 						}
@@ -361,6 +410,12 @@ export function MultiplayerLobbyView() {
 					)}
 					{/* Action Buttons */}
 					<div className='flex gap-4'>
+						{isHost && isTeamRoom && room.status === RoomStatus.WAITING && (
+							<Button variant={VariantBase.OUTLINE} size={ButtonSize.LG} onClick={balanceTeams} disabled={isLoading}>
+								<Shuffle className='h-4 w-4 me-2' />
+								{t(GameKey.BALANCE_TEAMS)}
+							</Button>
+						)}
 						{isHost && (
 							<Button
 								className='flex-1'
@@ -523,6 +578,109 @@ export function MultiplayerLobbyView() {
 									hideInlineFieldAlerts
 								/>
 
+								<div className='grid gap-4 sm:grid-cols-2'>
+									<div className='space-y-2'>
+										<Label>{t(GameKey.TEAMS)}</Label>
+										<Select
+											value={String(gameSettings.teamCount ?? 0)}
+											onValueChange={value => {
+												const teamCount = Number(value);
+												setGameSettings(prev => ({
+													...prev,
+													teamCount: teamCount > 0 ? teamCount : undefined,
+													teamScoreRule: teamCount > 0 ? (prev.teamScoreRule ?? TeamScoreRule.SUM) : undefined,
+												}));
+											}}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value='0'>{t(GameKey.TEAM_MODE_OFF)}</SelectItem>
+												{Array.from(
+													{ length: VALIDATION_COUNT.TEAMS.MAX - VALIDATION_COUNT.TEAMS.MIN + 1 },
+													(_, index) => VALIDATION_COUNT.TEAMS.MIN + index
+												).map(count => (
+													<SelectItem key={count} value={String(count)}>
+														{t(GameKey.TEAM_COUNT_OPTION, { count })}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+									<div className='space-y-2'>
+										<Label>{t(GameKey.TEAM_SCORE_RULE)}</Label>
+										<Select
+											value={gameSettings.teamScoreRule ?? TeamScoreRule.SUM}
+											onValueChange={value =>
+												isTeamScoreRule(value) && setGameSettings(prev => ({ ...prev, teamScoreRule: value }))
+											}
+											disabled={!isTeamMode(gameSettings)}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{Object.values(TeamScoreRule).map(rule => (
+													<SelectItem key={rule} value={rule}>
+														{t(TEAM_SCORE_RULE_LABEL_KEYS[rule])}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+									<div className='space-y-2'>
+										<Label>{t(GameKey.TIME_PER_QUESTION)}</Label>
+										<Select
+											value={String(getRoomTimePerQuestion(gameSettings))}
+											onValueChange={value => setGameSettings(prev => ({ ...prev, timePerQuestion: Number(value) }))}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{MULTIPLAYER_TIME_PER_QUESTION_OPTIONS.map(seconds => (
+													<SelectItem key={seconds} value={String(seconds)}>
+														{t(GameKey.TIME_PER_QUESTION_OPTION, { count: seconds })}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+									<div className='space-y-2'>
+										<Label>{t(GameKey.ANSWER_POLICY)}</Label>
+										<Select
+											value={gameSettings.answerPolicy ?? AnswerPolicy.CHANGEABLE}
+											onValueChange={value =>
+												isAnswerPolicy(value) && setGameSettings(prev => ({ ...prev, answerPolicy: value }))
+											}
+										>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{Object.values(AnswerPolicy).map(policy => (
+													<SelectItem key={policy} value={policy}>
+														{t(ANSWER_POLICY_LABEL_KEYS[policy])}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+
+								<div className='flex items-center justify-between gap-3 rounded-lg border border-border/60 bg-muted/30 p-3'>
+									<Label htmlFor='end-when-all-answered' className='cursor-pointer text-sm font-medium'>
+										{t(GameKey.END_WHEN_ALL_ANSWERED)}
+									</Label>
+									<Switch
+										id='end-when-all-answered'
+										className='shrink-0'
+										checked={gameSettings.endWhenAllAnswered ?? false}
+										onCheckedChange={next => setGameSettings(prev => ({ ...prev, endWhenAllAnswered: next }))}
+									/>
+								</div>
+
 								<Button
 									className='w-full'
 									size={ButtonSize.LG}
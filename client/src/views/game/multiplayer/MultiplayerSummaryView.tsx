@@ -1,19 +1,26 @@
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { FileQuestion, Gauge, Hash, PartyPopper, Timer, Trophy } from 'lucide-react';
+import { FileQuestion, Gauge, Hash, PartyPopper, Repeat, Timer, Trophy } from 'lucide-react';
 
-import { APP_NAME, DEFAULT_GAME_CONFIG } from '@shared/constants';
-import type { Player } from '@shared/types';
-import { calculatePercentage, formatTitle, getDisplayNameFromUserFields, isRecord } from '@shared/utils';
+import { APP_NAME, DEFAULT_GAME_CONFIG, RoomStatus } from '@shared/constants';
+import type { Player, TeamStanding } from '@shared/types';
+import {
+	calculatePercentage,
+	formatTitle,
+	getDisplayNameFromUserFields,
+	isRecord,
+	isTeamStanding,
+} from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
 import {
 	AnimationDelays,
 	AvatarSize,
 	AvatarVariant,
+	ButtonSize,
 	GameKey,
 	MultiplayerSummaryPayloadKey,
 	PODIUM_SLOTS,
@@ -21,6 +28,7 @@ import {
 	SEMANTIC_ICON_TEXT,
 	SocialShareMode,
 	SPRING_CONFIGS,
+	VariantBase,
 } from '@/constants';
 import type { MultiplayerAnswerBreakdownEntry } from '@/types';
 import { queryInvalidationService } from '@/services';
@@ -31,6 +39,7 @@ import {
 	getMultiplayerSummaryStorageKey,
 } from '@/utils';
 import {
+	Button,
 	Card,
 	CardContent,
 	CardHeader,
@@ -38,6 +47,7 @@ import {
 	QuestionBreakdown,
 	StatCard,
 	SummaryActionButtons,
+	TeamStandingsCard,
 	UserAvatar,
 } from '@/components';
 import { useAppSelector, useCurrentUserData, useMultiplayer } from '@/hooks';
@@ -72,16 +82,18 @@ function parsePersistedSummary(roomId: string): {
 	leaderboard: Player[];
 	questionCount: number | null;
 	personalAnswerHistory: MultiplayerAnswerBreakdownEntry[];
+	teamResults: TeamStanding[];
 } {
 	try {
 		const tabScopedKey = getMultiplayerSummaryStorageKey(roomId);
 		let raw = sessionStorage.getItem(tabScopedKey);
 		raw ??= sessionStorage.getItem(getLegacyMultiplayerSummaryStorageKey(roomId));
-		if (!raw) return { leaderboard: [], questionCount: null, personalAnswerHistory: [] };
+		if (!raw) return { leaderboard: [], questionCount: null, personalAnswerHistory: [], teamResults: [] };
 		const parsed: unknown = JSON.parse(raw);
 		let leaderboard: Player[] = [];
 		let questionCount: number | null = null;
 		let personalAnswerHistory: MultiplayerAnswerBreakdownEntry[] = [];
+		let teamResults: TeamStanding[] = [];
 		if (isRecord(parsed) && MultiplayerSummaryPayloadKey.Leaderboard in parsed) {
 			const arr = parsed[MultiplayerSummaryPayloadKey.Leaderboard];
 			if (Array.isArray(arr) && arr.length > 0 && arr.every(isPlayerLike)) leaderboard = arr;
@@ -89,21 +101,26 @@ function parsePersistedSummary(roomId: string): {
 				questionCount = parsed[MultiplayerSummaryPayloadKey.QuestionCount];
 			const history = parsed[MultiplayerSummaryPayloadKey.PersonalAnswerHistory];
 			if (Array.isArray(history) && history.every(isBreakdownEntry)) personalAnswerHistory = history;
-			return { leaderboard, questionCount, personalAnswerHistory };
+			const teams = parsed[MultiplayerSummaryPayloadKey.TeamResults];
+			if (Array.isArray(teams) && teams.every(isTeamStanding)) teamResults = teams;
+			return { leaderboard, questionCount, personalAnswerHistory, teamResults };
 		}
 		if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isPlayerLike))
-			return { leaderboard: parsed, questionCount: null, personalAnswerHistory: [] };
-		return { leaderboard: [], questionCount: null, personalAnswerHistory: [] };
+			return { leaderboard: parsed, questionCount: null, personalAnswerHistory: [], teamResults: [] };
+		return { leaderboard: [], questionCount: null, personalAnswerHistory: [], teamResults: [] };
 	} catch {
-		return { leaderboard: [], questionCount: null, personalAnswerHistory: [] };
+		return { leaderboard: [], questionCount: null, personalAnswerHistory: [], teamResults: [] };
 	}
 }
 
 export function MultiplayerSummaryView() {
 	const { t } = useTranslation();
 	const { roomId } = useParams<{ roomId: string }>();
+	const navigate = useNavigate();
 
-	const { leaderboard, room, disconnect } = useMultiplayer();
+	const { leaderboard, teamLeaderboard, room, isHost, rematch, disconnect } = useMultiplayer();
+	// Set when a rematch moves this view back to the lobby, which needs the socket and room kept
+	const keepConnectionRef = useRef(false);
 	const currentUser = useCurrentUserData();
 
 	const persistedSummary = useMemo(
@@ -114,6 +131,7 @@ export function MultiplayerSummaryView() {
 						leaderboard: [],
 						questionCount: null,
 						personalAnswerHistory: [] satisfies MultiplayerAnswerBreakdownEntry[],
+						teamResults: [] satisfies TeamStanding[],
 					},
 		[roomId]
 	);
@@ -130,6 +148,8 @@ export function MultiplayerSummaryView() {
 		return [];
 	}, [leaderboard, persistedSummary.leaderboard]);
 
+	const teamResults = teamLeaderboard.length > 0 ? teamLeaderboard : persistedSummary.teamResults;
+
 	const { winner, isWinner } = useMemo((): { winner: Player | null; isWinner: boolean } => {
 		const first = results[0];
 		if (!first || results.length === 0) return { winner: null, isWinner: false };
@@ -164,10 +184,20 @@ export function MultiplayerSummaryView() {
 	useEffect(() => {
 		return () => {
 			clearPersistedSummary();
-			disconnect();
+			if (!keepConnectionRef.current) {
+				disconnect();
+			}
 		};
 	}, [disconnect, clearPersistedSummary]);
 
+	// Everyone still in the room follows the host back to the lobby once the rematch opens
+	useEffect(() => {
+		if (room?.status === RoomStatus.WAITING && room.roomId === roomId?.toUpperCase()) {
+			keepConnectionRef.current = true;
+			navigate(Routes.MULTIPLAYER);
+		}
+	}, [room?.status, room?.roomId, roomId, navigate]);
+
 	useEffect(() => {
 		if (results.length > 0 && currentUser?.id) {
 			void queryInvalidationService.invalidateAfterGameComplete(queryClient, currentUser.id);
@@ -305,6 +335,8 @@ export function MultiplayerSummaryView() {
 						);
 					})()}
 
+				{teamResults.length > 0 && <TeamStandingsCard standings={teamResults} players={results} />}
+
 				{/* Full Results */}
 				<Card>
 					<CardHeader>
@@ -383,9 +415,7 @@ export function MultiplayerSummaryView() {
 								<StatCard
 									icon={FileQuestion}
 									label={t(GameKey.CORRECT_ANSWERS)}
-									value={
-										shareTotal > 0 ? `${shareScore}/${shareTotal} (${sharePercentage}%)` : `${shareScore}`
-									}
+									value={shareTotal > 0 ? `${shareScore}/${shareTotal} (${sharePercentage}%)` : `${shareScore}`}
 									color={SEMANTIC_ICON_TEXT.success}
 								/>
 								<StatCard
@@ -405,6 +435,15 @@ export function MultiplayerSummaryView() {
 					</Card>
 				)}
 
+				{isHost && room?.status === RoomStatus.FINISHED && (
+					<div className='flex justify-center'>
+						<Button variant={VariantBase.OUTLINE} size={ButtonSize.LG} onClick={rematch}>
+							<Repeat className='h-4 w-4 me-2' />
+							{t(GameKey.REMATCH)}
+						</Button>
+					</div>
+				)}
+
 				<SummaryActionButtons
 					playAgainTo={Routes.MULTIPLAYER}
 					onBeforeNavigate={onBeforeNavigate}
@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next';
 import { Zap } from 'lucide-react';
 
+import { getCorrectAnswerIndex } from '@shared/utils';
+
 import {
 	ButtonSize,
 	ComponentSize,
@@ -12,7 +14,16 @@ import {
 } from '@/constants';
 import type { UseSingleSessionReturn } from '@/types';
 import { getDifficultyDisplayLabel } from '@/utils';
-import { AnswerButton, Button, Card, ExitGameButton, GameSessionHud, Progress, Spinner } from '@/components';
+import {
+	AnswerButton,
+	Button,
+	Card,
+	ExitGameButton,
+	GameSessionHud,
+	Progress,
+	ReportQuestionDialog,
+	Spinner,
+} from '@/components';
 
 export function SingleSessionPlayArea(session: UseSingleSessionReturn) {
 	const { t } = useTranslation();
@@ -117,7 +128,7 @@ export function SingleSessionPlayArea(session: UseSingleSessionReturn) {
 							selectedAnswer={selectedAnswer}
 							currentQuestion={currentQuestion}
 							onAnswerClick={handleAnswerSelect}
-							showResult={answered}
+							showResult={answered && currentQuestion != null && getCorrectAnswerIndex(currentQuestion) !== -1}
 						/>
 					</div>
 
@@ -132,7 +143,7 @@ export function SingleSessionPlayArea(session: UseSingleSessionReturn) {
 						</Button>
 					)}
 
-					<div className='text-center flex-shrink-0'>
+					<div className='flex flex-wrap items-center justify-center gap-2 flex-shrink-0'>
 						{isUnlimited && currentQuestionIndex > 0 ? (
 							<Button
 								onClick={handleFinishUnlimitedGame}
@@ -145,6 +156,7 @@ export function SingleSessionPlayArea(session: UseSingleSessionReturn) {
 						) : (
 							!isUnlimited && <ExitGameButton onConfirm={handleExitGame} />
 						)}
+						{currentQuestion?.id && <ReportQuestionDialog key={currentQuestion.id} questionId={currentQuestion.id} />}
 					</div>
 				</div>
 			</div>
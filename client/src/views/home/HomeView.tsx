@@ -22,6 +22,7 @@ import {
 	CardContent,
 	CardHeader,
 	CardTitle,
+	DailyChallengeCard,
 	HomeHeader,
 	HomePublicLobbiesPanel,
 	HomeStats,
@@ -151,6 +152,15 @@ export function HomeView() {
 						/>
 					</div>
 
+					<motion.section
+						initial={{ opacity: 0, y: 12 }}
+						animate={{ opacity: 1, y: 0 }}
+						transition={{ delay: AnimationDelays.STAGGER_NORMAL }}
+						className='mb-5 flex-shrink-0 md:mb-6'
+					>
+						<DailyChallengeCard />
+					</motion.section>
+
 					<motion.section
 						initial={{ opacity: 0, y: 12 }}
 						animate={{ opacity: 1, y: 0 }}
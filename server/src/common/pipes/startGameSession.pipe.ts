@@ -1,6 +1,6 @@
 import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
 
-import { DEFAULT_LANGUAGE, Locale } from '@shared/constants';
+import { DEFAULT_LANGUAGE, GameMode, Locale } from '@shared/constants';
 import { isLocale, VALIDATORS } from '@shared/validation';
 
 import { serverLogger as logger } from '@internal/services';
@@ -32,7 +32,10 @@ export class StartGameSessionPipe implements PipeTransform {
 		const outputLanguage: Locale =
 			body.outputLanguage != null && isLocale(body.outputLanguage) ? body.outputLanguage : DEFAULT_LANGUAGE;
 
-		await this.gameTextLanguageGate.assertTriviaGameInputValid(body.topic, body.difficulty, outputLanguage);
+		// The server assigns the daily challenge topic and difficulty, so there is no user text to check
+		if (body.gameMode !== GameMode.DAILY_CHALLENGE) {
+			await this.gameTextLanguageGate.assertTriviaGameInputValid(body.topic, body.difficulty, outputLanguage);
+		}
 
 		return body;
 	}
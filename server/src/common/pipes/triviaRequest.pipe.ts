@@ -1,6 +1,6 @@
 import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
 
-import { VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+import { GAME_MODES, GameMode, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
 import type { TriviaRequest } from '@shared/types';
 import { getErrorMessage, isNonEmptyString, isRecord, sanitizeInput, truncateWithEllipsis } from '@shared/utils';
 import { isLocale, VALIDATORS } from '@shared/validation';
@@ -30,11 +30,14 @@ export class TriviaRequestPipe implements PipeTransform {
 
 			const payload = this.buildTriviaPayload(value);
 
-			await this.gameTextLanguageGate.assertTriviaGameInputValid(
-				payload.topic,
-				payload.difficulty,
-				payload.outputLanguage
-			);
+			// Daily challenge questions come from the pinned set, so the client topic is never used for generation
+			if (payload.gameMode !== GameMode.DAILY_CHALLENGE) {
+				await this.gameTextLanguageGate.assertTriviaGameInputValid(
+					payload.topic,
+					payload.difficulty,
+					payload.outputLanguage
+				);
+			}
 
 			// Keep UNLIMITED (-1) so GameService can use INITIAL_BATCH_UNLIMITED instead of requesting MAX questions.
 			// TriviaRequestDto skips @Min/@Max when questionsPerRequest === UNLIMITED.
@@ -213,7 +216,10 @@ export class TriviaRequestPipe implements PipeTransform {
 			return false;
 		}
 
-		return this.isOptionalString(candidate.gameId);
+		return (
+			this.isOptionalString(candidate.gameId) &&
+			(candidate.gameMode == null || (VALIDATORS.string(candidate.gameMode) && GAME_MODES.has(candidate.gameMode)))
+		);
 	}
 
 	private isValidAnswerCount(value: unknown): value is number {
@@ -246,6 +252,10 @@ export class TriviaRequestPipe implements PipeTransform {
 			dto.gameId = payload.gameId;
 		}
 
+		if (payload.gameMode !== undefined) {
+			dto.gameMode = payload.gameMode;
+		}
+
 		dto.answerCount = payload.answerCount;
 		dto.outputLanguage = payload.outputLanguage;
 
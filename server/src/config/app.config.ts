@@ -3,13 +3,23 @@ import type { DataSourceOptions } from 'typeorm';
 import { ERROR_MESSAGES, LOCALHOST_CONFIG, PayPalEnvironment } from '@shared/constants';
 
 import {
+	AI_PROVIDER_DEFAULTS,
+	AI_PROVIDER_IDS,
+	AIProviderId,
+	ANSWER_TIMING_DEFAULTS,
 	AUTH_CONSTANTS,
 	DATABASE_DEFAULTS,
 	DATABASE_POOL_CONFIG,
+	FIXTURE_PROVIDER_DEFAULTS,
+	isTriviaFactCheckMode,
+	isTriviaGenerationDeclinedReason,
+	OPENAI_COMPATIBLE_DEFAULT_MODEL,
+	OPENAI_COMPATIBLE_PROVIDER_NAME,
 	REDIS_DEFAULTS,
 	REDIS_RETRY_STRATEGY_CONFIG,
+	TriviaFactCheckMode,
 } from '@internal/constants';
-import type { PayPalConfig } from '@internal/types';
+import type { FixtureProviderConfig, PayPalConfig } from '@internal/types';
 
 export class AppConfig {
 	static get port() {
@@ -125,6 +135,61 @@ export class AppConfig {
 		};
 	}
 
+	static get answerTiming() {
+		const toleranceSeconds = parseInt(
+			process.env.ANSWER_TIME_TOLERANCE_SECONDS ?? ANSWER_TIMING_DEFAULTS.toleranceSeconds.toString(),
+			10
+		);
+		return {
+			toleranceSeconds:
+				Number.isFinite(toleranceSeconds) && toleranceSeconds >= 0
+					? toleranceSeconds
+					: ANSWER_TIMING_DEFAULTS.toleranceSeconds,
+		};
+	}
+
+	static get aiProviders() {
+		const configuredPriority = (process.env.AI_PROVIDER_PRIORITY ?? '')
+			.split(',')
+			.map(id => id.trim().toLowerCase())
+			.filter((id): id is AIProviderId => AI_PROVIDER_IDS.has(id));
+		return {
+			priority: configuredPriority.length > 0 ? configuredPriority : [...AI_PROVIDER_DEFAULTS.priority],
+			groq: {
+				apiKey: process.env.GROQ_API_KEY ?? '',
+			},
+			openAICompatible: {
+				baseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL ?? '').trim(),
+				apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? '',
+				model: process.env.OPENAI_COMPATIBLE_MODEL ?? OPENAI_COMPATIBLE_DEFAULT_MODEL,
+				name: process.env.OPENAI_COMPATIBLE_PROVIDER_NAME ?? OPENAI_COMPATIBLE_PROVIDER_NAME,
+			},
+		};
+	}
+
+	static get triviaFactCheck(): { mode: TriviaFactCheckMode } {
+		const mode = (process.env.TRIVIA_FACT_CHECK_MODE ?? '').trim().toLowerCase();
+		return {
+			mode: isTriviaFactCheckMode(mode) ? mode : TriviaFactCheckMode.OFF,
+		};
+	}
+
+	static get fixtureProvider(): FixtureProviderConfig {
+		const declineReason = (process.env.FIXTURE_PROVIDER_DECLINE_REASON ?? '').trim().toLowerCase();
+		const timeoutRate = parseFloat(
+			process.env.FIXTURE_PROVIDER_TIMEOUT_RATE ?? FIXTURE_PROVIDER_DEFAULTS.timeoutRate.toString()
+		);
+		return {
+			corpusPath: (process.env.FIXTURE_PROVIDER_CORPUS_PATH ?? '').trim(),
+			seed: process.env.FIXTURE_PROVIDER_SEED ?? FIXTURE_PROVIDER_DEFAULTS.seed,
+			declineReason: isTriviaGenerationDeclinedReason(declineReason) ? declineReason : null,
+			timeoutRate:
+				Number.isFinite(timeoutRate) && timeoutRate >= 0 && timeoutRate <= 1
+					? timeoutRate
+					: FIXTURE_PROVIDER_DEFAULTS.timeoutRate,
+		};
+	}
+
 	static get paypal(): PayPalConfig {
 		const environmentValue = (process.env.PAYPAL_ENVIRONMENT ?? PayPalEnvironment.PRODUCTION).toLowerCase();
 		const environment: PayPalEnvironment =
@@ -1,6 +1,20 @@
-import { Body, Controller, Get, Put, Query } from '@nestjs/common';
+import { Body, Controller, Delete, Get, Param, Patch, Post, Put, Query } from '@nestjs/common';
 
 import { API_ENDPOINTS, TIME_DURATIONS_SECONDS, UserRole } from '@shared/constants';
+import type {
+	AdminTriviaQuestion,
+	BulkTriviaActionResponse,
+	DeleteTriviaQuestionResponse,
+	ExportTriviaPackResponse,
+	MergeTriviaDuplicatesResponse,
+	ResolveTriviaReportsResponse,
+	RollbackTriviaImportBatchResponse,
+	TriviaDuplicateClustersResponse,
+	TriviaImportBatchesResponse,
+	TriviaImportReport,
+	TriviaModerationQueueResponse,
+	TriviaPackSchemaResponse,
+} from '@shared/types';
 import { getErrorMessage } from '@shared/utils';
 
 import { Cache, CurrentUser, Roles } from '@common/decorators';
@@ -9,12 +23,23 @@ import type { CreditPackageConfigItem, TokenPayload } from '@internal/types';
 
 import { CreditsService, UpdateCreditPackagesDto } from '../credits';
 import { AdminService } from './admin.service';
-import { AdminTriviaListQueryDto } from './dtos';
+import {
+	AdminTriviaListQueryDto,
+	BulkTriviaActionDto,
+	CreateTriviaQuestionDto,
+	ExportTriviaPackQueryDto,
+	ImportTriviaPackDto,
+	MergeTriviaDuplicatesDto,
+	ResolveTriviaReportsDto,
+	UpdateTriviaQuestionDto,
+} from './dtos';
+import { TriviaImportService } from './triviaImport';
 
 @Controller(API_ENDPOINTS.ADMIN.BASE)
 export class AdminController {
 	constructor(
 		private readonly adminService: AdminService,
+		private readonly triviaImportService: TriviaImportService,
 		private readonly creditsService: CreditsService
 	) {}
 
@@ -82,6 +107,390 @@ export class AdminController {
 		}
 	}
 
+	@Get('trivia/duplicates')
+	@Roles(UserRole.ADMIN)
+	async getTriviaDuplicates(@CurrentUser() user: TokenPayload): Promise<TriviaDuplicateClustersResponse> {
+		try {
+			const result = await this.adminService.getTriviaDuplicateClusters();
+
+			logger.apiRead('admin_trivia_duplicates', {
+				userId: user.sub,
+				role: user.role,
+				count: result.clusters.length,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to get trivia duplicate clusters', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/duplicates/merge')
+	@Roles(UserRole.ADMIN)
+	async mergeTriviaDuplicates(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: MergeTriviaDuplicatesDto
+	): Promise<MergeTriviaDuplicatesResponse> {
+		try {
+			const result = await this.adminService.mergeTriviaDuplicates(body);
+
+			logger.apiDelete('admin_trivia_duplicates_merge', {
+				userId: user.sub,
+				role: user.role,
+				questionId: result.keptId,
+				deletedCount: result.removedCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to merge trivia duplicates', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Get('trivia/reports')
+	@Roles(UserRole.ADMIN)
+	async getTriviaModerationQueue(@CurrentUser() user: TokenPayload): Promise<TriviaModerationQueueResponse> {
+		try {
+			const result = await this.adminService.getTriviaModerationQueue();
+
+			logger.apiRead('admin_trivia_reports', {
+				userId: user.sub,
+				role: user.role,
+				count: result.items.length,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to get trivia moderation queue', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/reports/:questionId/resolve')
+	@Roles(UserRole.ADMIN)
+	async resolveTriviaReports(
+		@CurrentUser() user: TokenPayload,
+		@Param('questionId') questionId: string,
+		@Body() body: ResolveTriviaReportsDto
+	): Promise<ResolveTriviaReportsResponse> {
+		try {
+			const result = await this.adminService.resolveTriviaReports(questionId, body);
+
+			logger.apiUpdate('admin_trivia_reports_resolve', {
+				userId: user.sub,
+				role: user.role,
+				questionId,
+				action: result.action,
+				count: result.resolvedCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to resolve trivia reports', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				questionId,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia')
+	@Roles(UserRole.ADMIN)
+	async createTriviaQuestion(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: CreateTriviaQuestionDto
+	): Promise<AdminTriviaQuestion> {
+		try {
+			const result = await this.adminService.createTriviaQuestion(body);
+
+			logger.apiCreate('admin_trivia_question', {
+				userId: user.sub,
+				role: user.role,
+				questionId: result.id,
+				topic: result.topic,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to create trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/bulk')
+	@Roles(UserRole.ADMIN)
+	async applyTriviaBulkAction(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: BulkTriviaActionDto
+	): Promise<BulkTriviaActionResponse> {
+		try {
+			const result = await this.adminService.applyTriviaBulkAction(body);
+
+			logger.apiUpdate('admin_trivia_bulk', {
+				userId: user.sub,
+				role: user.role,
+				action: result.action,
+				count: result.affectedCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to apply trivia bulk action', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				action: body.action,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/import')
+	@Roles(UserRole.ADMIN)
+	async importTriviaPack(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: ImportTriviaPackDto
+	): Promise<TriviaImportReport> {
+		try {
+			const result = await this.triviaImportService.importPack(user.sub, body);
+
+			logger.apiCreate('admin_trivia_import', {
+				userId: user.sub,
+				role: user.role,
+				format: result.format,
+				dryRun: result.dryRun,
+				totalCount: result.totalRows,
+				count: result.importedCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to import trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				format: body.format,
+			});
+			throw error;
+		}
+	}
+
+	// Layout reference for curators preparing a pack: JSON Schema of the native format plus the CSV header
+	@Get('trivia/import/schema')
+	@Roles(UserRole.ADMIN)
+	getTriviaPackSchema(@CurrentUser() user: TokenPayload): TriviaPackSchemaResponse {
+		logger.apiRead('admin_trivia_import_schema', {
+			userId: user.sub,
+			role: user.role,
+		});
+		return this.triviaImportService.getPackSchema();
+	}
+
+	@Get('trivia/export')
+	@Roles(UserRole.ADMIN)
+	async exportTriviaPack(
+		@CurrentUser() user: TokenPayload,
+		@Query() query: ExportTriviaPackQueryDto
+	): Promise<ExportTriviaPackResponse> {
+		try {
+			const result = await this.triviaImportService.exportPack(query.format, query.batchId);
+
+			logger.apiRead('admin_trivia_export', {
+				userId: user.sub,
+				role: user.role,
+				format: result.format,
+				count: result.questionCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to export trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				format: query.format,
+			});
+			throw error;
+		}
+	}
+
+	@Get('trivia/import-batches')
+	@Roles(UserRole.ADMIN)
+	async getTriviaImportBatches(@CurrentUser() user: TokenPayload): Promise<TriviaImportBatchesResponse> {
+		try {
+			const result = await this.triviaImportService.getImportBatches();
+
+			logger.apiRead('admin_trivia_import_batches', {
+				userId: user.sub,
+				role: user.role,
+				count: result.batches.length,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to get trivia import batches', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Delete('trivia/import-batches/:id')
+	@Roles(UserRole.ADMIN)
+	async rollbackTriviaImportBatch(
+		@CurrentUser() user: TokenPayload,
+		@Param('id') id: string
+	): Promise<RollbackTriviaImportBatchResponse> {
+		try {
+			const result = await this.triviaImportService.rollbackImportBatch(id);
+
+			logger.apiDelete('admin_trivia_import_batch', {
+				userId: user.sub,
+				role: user.role,
+				batchId: id,
+				count: result.removedCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to roll back trivia import batch', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				batchId: id,
+			});
+			throw error;
+		}
+	}
+
+	@Patch('trivia/:id')
+	@Roles(UserRole.ADMIN)
+	async updateTriviaQuestion(
+		@CurrentUser() user: TokenPayload,
+		@Param('id') id: string,
+		@Body() body: UpdateTriviaQuestionDto
+	): Promise<AdminTriviaQuestion> {
+		try {
+			const result = await this.adminService.updateTriviaQuestion(id, body);
+
+			logger.apiUpdate('admin_trivia_question', {
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to update trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/:id/retire')
+	@Roles(UserRole.ADMIN)
+	async retireTriviaQuestion(@CurrentUser() user: TokenPayload, @Param('id') id: string): Promise<AdminTriviaQuestion> {
+		try {
+			const result = await this.adminService.setTriviaQuestionRetired(id, true);
+
+			logger.apiUpdate('admin_trivia_question_retire', {
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to retire trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	@Post('trivia/:id/restore')
+	@Roles(UserRole.ADMIN)
+	async restoreTriviaQuestion(
+		@CurrentUser() user: TokenPayload,
+		@Param('id') id: string
+	): Promise<AdminTriviaQuestion> {
+		try {
+			const result = await this.adminService.setTriviaQuestionRetired(id, false);
+
+			logger.apiUpdate('admin_trivia_question_restore', {
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to restore trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
+	@Delete('trivia/:id')
+	@Roles(UserRole.ADMIN)
+	async deleteTriviaQuestion(
+		@CurrentUser() user: TokenPayload,
+		@Param('id') id: string
+	): Promise<DeleteTriviaQuestionResponse> {
+		try {
+			const result = await this.adminService.deleteTriviaQuestion(id);
+
+			logger.apiDelete('admin_trivia_question', {
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to delete trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
 	@Get('pricing')
 	@Roles(UserRole.ADMIN)
 	async getPricing(@CurrentUser() user: TokenPayload) {
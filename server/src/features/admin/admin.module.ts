@@ -2,7 +2,14 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { CommonAuthModule } from '@common/auth';
-import { GameHistoryEntity, TriviaEntity, UserEntity, UserStatsEntity } from '@internal/entities';
+import {
+	GameHistoryEntity,
+	TriviaEntity,
+	TriviaImportBatchEntity,
+	TriviaReportEntity,
+	UserEntity,
+	UserStatsEntity,
+} from '@internal/entities';
 import { CacheModule } from '@internal/modules';
 
 import { AnalyticsModule } from '../analytics';
@@ -10,17 +17,25 @@ import { CreditsModule } from '../credits';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
 import { AdminBootstrapService } from './adminBootstrap.service';
+import { TriviaImportService } from './triviaImport';
 
 @Module({
 	imports: [
 		CommonAuthModule,
-		TypeOrmModule.forFeature([GameHistoryEntity, TriviaEntity, UserStatsEntity, UserEntity]),
+		TypeOrmModule.forFeature([
+			GameHistoryEntity,
+			TriviaEntity,
+			TriviaImportBatchEntity,
+			TriviaReportEntity,
+			UserStatsEntity,
+			UserEntity,
+		]),
 		CacheModule,
 		AnalyticsModule,
 		CreditsModule,
 	],
 	controllers: [AdminController],
-	providers: [AdminService, AdminBootstrapService],
+	providers: [AdminService, AdminBootstrapService, TriviaImportService],
 	exports: [AdminService],
 })
 export class AdminModule {}
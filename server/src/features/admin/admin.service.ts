@@ -1,18 +1,61 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
 
-import { CACHE_KEYS, TIME_DURATIONS_SECONDS, TIME_PERIODS_MS, VALIDATION_COUNT } from '@shared/constants';
-import type { AdminGameStatistics, AdminTriviaQuestion, CountRecord, TriviaQuestionsResponse } from '@shared/types';
-import { buildCountRecord, calculateScoreRate, getErrorMessage } from '@shared/utils';
+import {
+	CACHE_KEYS,
+	TIME_DURATIONS_SECONDS,
+	TIME_PERIODS_MS,
+	TriviaBulkAction,
+	TriviaModerationAction,
+	TriviaReportStatus,
+	VALIDATION_COUNT,
+} from '@shared/constants';
+import type {
+	AdminGameStatistics,
+	AdminTriviaQuestion,
+	BulkTriviaActionRequest,
+	BulkTriviaActionResponse,
+	CountRecord,
+	DeleteTriviaQuestionResponse,
+	MergeTriviaDuplicatesRequest,
+	MergeTriviaDuplicatesResponse,
+	ResolveTriviaReportsRequest,
+	ResolveTriviaReportsResponse,
+	TriviaDuplicateCluster,
+	TriviaDuplicateClustersResponse,
+	TriviaModerationQueueItem,
+	TriviaModerationQueueResponse,
+	TriviaQuestionDraft,
+	TriviaQuestionsResponse,
+	UpdateTriviaQuestionRequest,
+} from '@shared/types';
+import { buildCountRecord, calculateScoreRate, getErrorMessage, isNonEmptyString, namesMatch } from '@shared/utils';
+import { isUuid, validateTriviaQuestionDraft } from '@shared/validation';
 
 import { restoreGameDifficulty } from '@common/validation';
-import { SQL_CONDITIONS } from '@internal/constants';
-import { GameHistoryEntity, TriviaEntity } from '@internal/entities';
-import { CacheService } from '@internal/modules';
+import { QUESTION_SIMILARITY_DEFAULTS, SQL_CONDITIONS, TRIVIA_REPORT_DEFAULTS } from '@internal/constants';
+import { GameHistoryEntity, TriviaEntity, TriviaReportEntity } from '@internal/entities';
+import { CacheInvalidationService, CacheService } from '@internal/modules';
 import { serverLogger as logger } from '@internal/services';
-import type { AdminStatisticsRaw, DifficultyCountRecord, NumericQueryResult, TopicCountRecord } from '@internal/types';
-import { addDateRangeConditions, createGroupByQuery, isAdminGameStatistics } from '@internal/utils';
+import type {
+	AdminStatisticsRaw,
+	DifficultyCountRecord,
+	NumericQueryResult,
+	TopicCountRecord,
+	TriviaReportQueueRow,
+	TriviaSimilarityPairRow,
+} from '@internal/types';
+import {
+	addDateRangeConditions,
+	createGroupByQuery,
+	createNotFoundError,
+	createServerError,
+	createValidationError,
+	fromTriviaQuestionDraft,
+	isAdminGameStatistics,
+	toTriviaQuestionDraft,
+} from '@internal/utils';
 
 @Injectable()
 export class AdminService {
@@ -21,7 +64,10 @@ export class AdminService {
 		private readonly gameHistoryRepository: Repository<GameHistoryEntity>,
 		@InjectRepository(TriviaEntity)
 		private readonly triviaRepository: Repository<TriviaEntity>,
-		private readonly cacheService: CacheService
+		@InjectRepository(TriviaReportEntity)
+		private readonly triviaReportRepository: Repository<TriviaReportEntity>,
+		private readonly cacheService: CacheService,
+		private readonly cacheInvalidationService: CacheInvalidationService
 	) {}
 
 	async getAdminStatistics(): Promise<AdminGameStatistics> {
@@ -137,22 +183,7 @@ export class AdminService {
 			});
 
 			return {
-				questions: questionEntities.map(questionEntity => {
-					const restoredDifficulty = restoreGameDifficulty(
-						questionEntity.difficulty,
-						questionEntity.metadata?.difficulty
-					);
-
-					const { user: _user, difficulty: _difficulty, ...rest } = questionEntity;
-
-					const triviaQuestion: AdminTriviaQuestion = {
-						...rest,
-						difficulty: restoredDifficulty,
-						userId: questionEntity.userId,
-						isCorrect: questionEntity.isCorrect,
-					};
-					return triviaQuestion;
-				}),
+				questions: questionEntities.map(questionEntity => this.toAdminTriviaQuestion(questionEntity)),
 				totalCount,
 			};
 		} catch (error) {
@@ -162,4 +193,447 @@ export class AdminService {
 			throw error;
 		}
 	}
+
+	async createTriviaQuestion(draft: TriviaQuestionDraft): Promise<AdminTriviaQuestion> {
+		try {
+			this.assertValidTriviaQuestionDraft(draft);
+
+			const questionEntity = this.triviaRepository.create(fromTriviaQuestionDraft(draft));
+			const savedQuestion = await this.triviaRepository.save(questionEntity);
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			return this.toAdminTriviaQuestion(savedQuestion);
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to create trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: draft.topic,
+			});
+			throw createServerError('create trivia question', error);
+		}
+	}
+
+	async updateTriviaQuestion(id: string, request: UpdateTriviaQuestionRequest): Promise<AdminTriviaQuestion> {
+		try {
+			const questionEntity = await this.findTriviaQuestionOrThrow(id);
+			this.applyTriviaQuestionUpdate(questionEntity, request);
+
+			const savedQuestion = await this.triviaRepository.save(questionEntity);
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			return this.toAdminTriviaQuestion(savedQuestion);
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to update trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw createServerError('update trivia question', error);
+		}
+	}
+
+	async setTriviaQuestionRetired(id: string, retired: boolean): Promise<AdminTriviaQuestion> {
+		try {
+			const questionEntity = await this.findTriviaQuestionOrThrow(id);
+			// Retiring an already retired question keeps its original retirement date
+			questionEntity.retiredAt = retired ? (questionEntity.retiredAt ?? new Date()) : null;
+
+			const savedQuestion = await this.triviaRepository.save(questionEntity);
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			return this.toAdminTriviaQuestion(savedQuestion);
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError(`Failed to ${retired ? 'retire' : 'restore'} trivia question`, {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw createServerError(`${retired ? 'retire' : 'restore'} trivia question`, error);
+		}
+	}
+
+	async deleteTriviaQuestion(id: string): Promise<DeleteTriviaQuestionResponse> {
+		try {
+			const questionEntity = await this.findTriviaQuestionOrThrow(id);
+			await this.triviaRepository.delete({ id: questionEntity.id });
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			return { id, deleted: true };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to delete trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: id,
+			});
+			throw createServerError('delete trivia question', error);
+		}
+	}
+
+	async applyTriviaBulkAction(request: BulkTriviaActionRequest): Promise<BulkTriviaActionResponse> {
+		const ids = Array.from(new Set(request.ids));
+		try {
+			let affectedCount: number;
+			switch (request.action) {
+				case TriviaBulkAction.RETIRE: {
+					const result = await this.triviaRepository.update(
+						{ id: In(ids), retiredAt: IsNull() },
+						{ retiredAt: new Date() }
+					);
+					affectedCount = result.affected ?? 0;
+					break;
+				}
+				case TriviaBulkAction.RESTORE: {
+					const result = await this.triviaRepository.update(
+						{ id: In(ids), retiredAt: Not(IsNull()) },
+						{ retiredAt: null }
+					);
+					affectedCount = result.affected ?? 0;
+					break;
+				}
+				case TriviaBulkAction.DELETE: {
+					const result = await this.triviaRepository.delete({ id: In(ids) });
+					affectedCount = result.affected ?? 0;
+					break;
+				}
+			}
+
+			if (affectedCount > 0) {
+				await this.cacheInvalidationService.invalidateOnTriviaChange();
+			}
+
+			return { action: request.action, affectedCount };
+		} catch (error) {
+			logger.gameError('Failed to apply trivia bulk action', {
+				errorInfo: { message: getErrorMessage(error) },
+				action: request.action,
+				count: ids.length,
+			});
+			throw createServerError('apply trivia bulk action', error);
+		}
+	}
+
+	async getTriviaDuplicateClusters(): Promise<TriviaDuplicateClustersResponse> {
+		const threshold = QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold;
+		try {
+			// Raw SQL: the pg_trgm % operator lets the self-join use the trigram index before scoring each pair
+			const pairs: TriviaSimilarityPairRow[] = await this.triviaRepository.query(
+				`SELECT a.id AS "firstId",
+				        b.id AS "secondId",
+				        similarity(LOWER(a.question), LOWER(b.question)) AS "similarity"
+				 FROM trivia a
+				 JOIN trivia b
+				   ON LOWER(a.topic) = LOWER(b.topic)
+				  AND a.id < b.id
+				  AND LOWER(a.question) % LOWER(b.question)
+				 WHERE similarity(LOWER(a.question), LOWER(b.question)) >= $1
+				 ORDER BY "similarity" DESC
+				 LIMIT $2`,
+				[threshold, QUESTION_SIMILARITY_DEFAULTS.maxDuplicateClusterPairs]
+			);
+
+			// Union-find: questions linked through any chain of similar pairs end up in one cluster
+			const parents = new Map<string, string>();
+			const findRoot = (id: string): string => {
+				const parent = parents.get(id) ?? id;
+				if (parent === id) {
+					return id;
+				}
+				const root = findRoot(parent);
+				parents.set(id, root);
+				return root;
+			};
+			for (const { firstId, secondId } of pairs) {
+				parents.set(firstId, parents.get(firstId) ?? firstId);
+				parents.set(secondId, parents.get(secondId) ?? secondId);
+				const firstRoot = findRoot(firstId);
+				const secondRoot = findRoot(secondId);
+				if (firstRoot !== secondRoot) {
+					parents.set(secondRoot, firstRoot);
+				}
+			}
+
+			const maxSimilarityByRoot = new Map<string, number>();
+			for (const { firstId, similarity } of pairs) {
+				const root = findRoot(firstId);
+				maxSimilarityByRoot.set(root, Math.max(maxSimilarityByRoot.get(root) ?? 0, Number(similarity)));
+			}
+
+			const questionIds = Array.from(parents.keys());
+			const questionEntities =
+				questionIds.length > 0 ? await this.triviaRepository.findBy({ id: In(questionIds) }) : [];
+
+			const clustersByRoot = new Map<string, TriviaDuplicateCluster>();
+			for (const questionEntity of questionEntities) {
+				const root = findRoot(questionEntity.id);
+				const cluster = clustersByRoot.get(root) ?? {
+					topic: questionEntity.topic,
+					maxSimilarity: maxSimilarityByRoot.get(root) ?? threshold,
+					questions: [],
+				};
+				cluster.questions.push(this.toAdminTriviaQuestion(questionEntity));
+				clustersByRoot.set(root, cluster);
+			}
+
+			const clusters = Array.from(clustersByRoot.values())
+				.filter(cluster => cluster.questions.length > 1)
+				.sort((a, b) => b.questions.length - a.questions.length || b.maxSimilarity - a.maxSimilarity);
+			for (const cluster of clusters) {
+				cluster.questions.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+			}
+
+			return { clusters, threshold };
+		} catch (error) {
+			logger.gameError('Failed to get trivia duplicate clusters', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('get trivia duplicate clusters', error);
+		}
+	}
+
+	async mergeTriviaDuplicates(request: MergeTriviaDuplicatesRequest): Promise<MergeTriviaDuplicatesResponse> {
+		const mergeIds = Array.from(new Set(request.mergeIds)).filter(id => id !== request.keepId);
+		try {
+			if (mergeIds.length === 0) {
+				throw createValidationError('mergeIds', 'question ids other than keepId');
+			}
+
+			const keptQuestion = await this.triviaRepository.findOne({ where: { id: request.keepId } });
+			if (!keptQuestion) {
+				throw createNotFoundError('Trivia question');
+			}
+
+			const mergedQuestions = await this.triviaRepository.findBy({ id: In(mergeIds) });
+			if (mergedQuestions.length !== mergeIds.length) {
+				throw createNotFoundError('Trivia question');
+			}
+			if (mergedQuestions.some(question => !namesMatch(question.topic, keptQuestion.topic))) {
+				throw createValidationError('mergeIds', 'questions on the same topic as keepId');
+			}
+
+			const result = await this.triviaRepository.delete({ id: In(mergeIds) });
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			return { keptId: keptQuestion.id, removedCount: result.affected ?? mergeIds.length };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to merge trivia duplicates', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: request.keepId,
+				count: mergeIds.length,
+			});
+			throw createServerError('merge trivia duplicates', error);
+		}
+	}
+
+	async getTriviaModerationQueue(): Promise<TriviaModerationQueueResponse> {
+		const { hideThreshold, moderationQueueLimit, notesPerQuestion } = TRIVIA_REPORT_DEFAULTS;
+		try {
+			const rows: TriviaReportQueueRow[] = await this.triviaReportRepository.query(
+				`SELECT report.question_id AS "questionId",
+				        CAST(COUNT(*) AS INTEGER) AS "openReportCount",
+				        MAX(report.created_at) AS "lastReportedAt"
+				 FROM trivia_reports report
+				 WHERE report.status = $1
+				 GROUP BY report.question_id
+				 ORDER BY "openReportCount" DESC, "lastReportedAt" DESC
+				 LIMIT $2`,
+				[TriviaReportStatus.OPEN, moderationQueueLimit]
+			);
+			if (rows.length === 0) {
+				return { items: [], hideThreshold };
+			}
+
+			const questionIds = rows.map(row => row.questionId);
+			const [questionEntities, openReports] = await Promise.all([
+				this.triviaRepository.findBy({ id: In(questionIds) }),
+				this.triviaReportRepository.find({
+					where: { questionId: In(questionIds), status: TriviaReportStatus.OPEN },
+					order: { createdAt: 'DESC' },
+				}),
+			]);
+			const questionsById = new Map(questionEntities.map(questionEntity => [questionEntity.id, questionEntity]));
+
+			const items: TriviaModerationQueueItem[] = [];
+			for (const row of rows) {
+				const questionEntity = questionsById.get(row.questionId);
+				if (!questionEntity) {
+					continue;
+				}
+
+				const reports = openReports.filter(report => report.questionId === row.questionId);
+				const reasonCounts: TriviaModerationQueueItem['reasonCounts'] = {};
+				for (const report of reports) {
+					reasonCounts[report.reason] = (reasonCounts[report.reason] ?? 0) + 1;
+				}
+
+				items.push({
+					question: this.toAdminTriviaQuestion(questionEntity),
+					openReportCount: row.openReportCount,
+					reasonCounts,
+					notes: reports
+						.filter(report => isNonEmptyString(report.note))
+						.slice(0, notesPerQuestion)
+						.map(report => ({ reason: report.reason, note: report.note ?? '', createdAt: report.createdAt })),
+					lastReportedAt: new Date(row.lastReportedAt),
+					isHidden: row.openReportCount >= hideThreshold,
+				});
+			}
+
+			return { items, hideThreshold };
+		} catch (error) {
+			logger.gameError('Failed to get trivia moderation queue', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('get trivia moderation queue', error);
+		}
+	}
+
+	async resolveTriviaReports(
+		questionId: string,
+		request: ResolveTriviaReportsRequest
+	): Promise<ResolveTriviaReportsResponse> {
+		try {
+			if (!isUuid(questionId)) {
+				throw createValidationError('questionId', 'UUID');
+			}
+
+			const questionEntity = await this.triviaRepository.findOne({ where: { id: questionId } });
+			if (!questionEntity) {
+				throw createNotFoundError('Trivia question');
+			}
+
+			if (request.action === TriviaModerationAction.EDIT) {
+				this.applyModerationEdit(questionEntity, request);
+			} else if (request.action === TriviaModerationAction.RETIRE) {
+				questionEntity.retiredAt = new Date();
+			}
+
+			const resolvedStatus =
+				request.action === TriviaModerationAction.DISMISS ? TriviaReportStatus.DISMISSED : TriviaReportStatus.RESOLVED;
+			const resolvedCount = await this.triviaRepository.manager.transaction(async manager => {
+				if (request.action !== TriviaModerationAction.DISMISS) {
+					await manager.save(TriviaEntity, questionEntity);
+				}
+				const result = await manager.update(
+					TriviaReportEntity,
+					{ questionId, status: TriviaReportStatus.OPEN },
+					{ status: resolvedStatus, resolvedAt: new Date() }
+				);
+				return result.affected ?? 0;
+			});
+
+			if (request.action !== TriviaModerationAction.DISMISS) {
+				await this.cacheInvalidationService.invalidateOnTriviaChange();
+			}
+
+			return { questionId, action: request.action, resolvedCount };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to resolve trivia reports', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId,
+			});
+			throw createServerError('resolve trivia reports', error);
+		}
+	}
+
+	private applyModerationEdit(questionEntity: TriviaEntity, request: ResolveTriviaReportsRequest): void {
+		if (request.question == null && request.answers == null && request.correctAnswerIndex == null) {
+			throw createValidationError('question', 'question, answers or correctAnswerIndex to edit');
+		}
+
+		this.applyTriviaQuestionUpdate(questionEntity, {
+			question: request.question,
+			answers: request.answers,
+			correctAnswerIndex: request.correctAnswerIndex,
+		});
+	}
+
+	private async findTriviaQuestionOrThrow(id: string): Promise<TriviaEntity> {
+		if (!isUuid(id)) {
+			throw createValidationError('id', 'UUID');
+		}
+		const questionEntity = await this.triviaRepository.findOne({ where: { id } });
+		if (!questionEntity) {
+			throw createNotFoundError('Trivia question');
+		}
+		return questionEntity;
+	}
+
+	private applyTriviaQuestionUpdate(questionEntity: TriviaEntity, request: UpdateTriviaQuestionRequest): void {
+		const metadata = questionEntity.metadata ?? {};
+		// Generated questions may carry a custom difficulty; validate against the level it maps to unless it is replaced
+		const currentDraft = toTriviaQuestionDraft(questionEntity);
+		const draft: TriviaQuestionDraft = {
+			question: request.question ?? currentDraft.question,
+			answers: request.answers ?? currentDraft.answers,
+			correctAnswerIndex: request.correctAnswerIndex ?? currentDraft.correctAnswerIndex,
+			topic: request.topic ?? currentDraft.topic,
+			difficulty: request.difficulty ?? currentDraft.difficulty,
+			locale: request.locale ?? currentDraft.locale,
+			explanation: request.explanation ?? currentDraft.explanation,
+		};
+		this.assertValidTriviaQuestionDraft(draft);
+
+		questionEntity.question = draft.question.trim();
+		questionEntity.topic = draft.topic.trim();
+		questionEntity.answers = draft.answers.map((text, index) => ({
+			...questionEntity.answers[index],
+			text: text.trim(),
+			isCorrect: index === draft.correctAnswerIndex,
+		}));
+		questionEntity.correctAnswerIndex = draft.correctAnswerIndex;
+
+		const { explanation: _explanation, ...keptMetadata } = metadata;
+		if (request.difficulty != null) {
+			// A replaced difficulty drops the custom difficulty the question was generated with
+			questionEntity.difficulty = request.difficulty;
+			delete keptMetadata.difficulty;
+			delete keptMetadata.customDifficultyDescription;
+			delete keptMetadata.mappedDifficulty;
+		}
+		const explanation = draft.explanation?.trim();
+		questionEntity.metadata = {
+			...keptMetadata,
+			language: draft.locale,
+			...(isNonEmptyString(explanation) ? { explanation } : {}),
+			// An admin has now looked at the question, so a fact-check flag no longer applies
+			needsReview: false,
+		};
+	}
+
+	private assertValidTriviaQuestionDraft(draft: TriviaQuestionDraft): void {
+		const validation = validateTriviaQuestionDraft(draft);
+		if (!validation.isValid) {
+			throw new BadRequestException({
+				message: 'Trivia question validation failed',
+				errors: validation.errors,
+			});
+		}
+	}
+
+	private toAdminTriviaQuestion(questionEntity: TriviaEntity): AdminTriviaQuestion {
+		const restoredDifficulty = restoreGameDifficulty(questionEntity.difficulty, questionEntity.metadata?.difficulty);
+
+		const { user: _user, difficulty: _difficulty, ...rest } = questionEntity;
+
+		return {
+			...rest,
+			difficulty: restoredDifficulty,
+			userId: questionEntity.userId,
+			isCorrect: questionEntity.isCorrect,
+		};
+	}
 }
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsEnum, IsUUID } from 'class-validator';
+
+import { TriviaBulkAction, VALIDATION_COUNT } from '@shared/constants';
+
+export class BulkTriviaActionDto {
+	@ApiProperty({ description: 'Action applied to every selected question', enum: TriviaBulkAction })
+	@IsEnum(TriviaBulkAction)
+	action!: TriviaBulkAction;
+
+	@ApiProperty({
+		description: 'Selected question ids',
+		type: [String],
+		minItems: VALIDATION_COUNT.TRIVIA_BULK_ACTION.MIN_IDS,
+		maxItems: VALIDATION_COUNT.TRIVIA_BULK_ACTION.MAX_IDS,
+	})
+	@IsArray()
+	@ArrayMinSize(VALIDATION_COUNT.TRIVIA_BULK_ACTION.MIN_IDS)
+	@ArrayMaxSize(VALIDATION_COUNT.TRIVIA_BULK_ACTION.MAX_IDS)
+	@IsUUID('all', { each: true })
+	ids!: string[];
+}
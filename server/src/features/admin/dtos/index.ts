@@ -1 +1,6 @@
 export * from './adminTriviaListQuery.dto';
+export * from './bulkTriviaAction.dto';
+export * from './mergeTriviaDuplicates.dto';
+export * from './resolveTriviaReports.dto';
+export * from './triviaQuestion.dto';
+export * from './triviaPack.dto';
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsUUID } from 'class-validator';
+
+import { VALIDATION_COUNT } from '@shared/constants';
+
+export class MergeTriviaDuplicatesDto {
+	@ApiProperty({
+		description: 'Question that stays in the trivia bank',
+		example: '550e8400-e29b-41d4-a716-446655440000',
+	})
+	@IsUUID()
+	keepId!: string;
+
+	@ApiProperty({
+		description: 'Near-duplicate questions folded into the kept question and removed',
+		type: [String],
+		minItems: VALIDATION_COUNT.TRIVIA_DUPLICATE_MERGE.MIN_IDS,
+		maxItems: VALIDATION_COUNT.TRIVIA_DUPLICATE_MERGE.MAX_IDS,
+	})
+	@IsArray()
+	@ArrayMinSize(VALIDATION_COUNT.TRIVIA_DUPLICATE_MERGE.MIN_IDS)
+	@ArrayMaxSize(VALIDATION_COUNT.TRIVIA_DUPLICATE_MERGE.MAX_IDS)
+	@IsUUID('all', { each: true })
+	mergeIds!: string[];
+}
@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+	ArrayMaxSize,
+	ArrayMinSize,
+	IsArray,
+	IsEnum,
+	IsInt,
+	IsOptional,
+	IsString,
+	MaxLength,
+	Min,
+	MinLength,
+} from 'class-validator';
+
+import { TriviaModerationAction, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+
+export class ResolveTriviaReportsDto {
+	@ApiProperty({
+		description: 'How the reported question is handled; every action closes its open reports',
+		enum: TriviaModerationAction,
+	})
+	@IsEnum(TriviaModerationAction)
+	action!: TriviaModerationAction;
+
+	@ApiPropertyOptional({
+		description: 'Corrected question text (edit only)',
+		minLength: VALIDATION_LENGTH.QUESTION.MIN,
+		maxLength: VALIDATION_LENGTH.QUESTION.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MinLength(VALIDATION_LENGTH.QUESTION.MIN)
+	@MaxLength(VALIDATION_LENGTH.QUESTION.MAX)
+	question?: string;
+
+	@ApiPropertyOptional({
+		description: 'Corrected answer texts in display order (edit only)',
+		type: [String],
+		minItems: VALIDATION_COUNT.ANSWER_COUNT.MIN,
+		maxItems: VALIDATION_COUNT.ANSWER_COUNT.MAX,
+	})
+	@IsOptional()
+	@IsArray()
+	@ArrayMinSize(VALIDATION_COUNT.ANSWER_COUNT.MIN)
+	@ArrayMaxSize(VALIDATION_COUNT.ANSWER_COUNT.MAX)
+	@IsString({ each: true })
+	@MinLength(1, { each: true })
+	@MaxLength(VALIDATION_LENGTH.ANSWER.MAX, { each: true })
+	answers?: string[];
+
+	@ApiPropertyOptional({
+		description: 'Index of the correct answer (edit only)',
+		minimum: 0,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(0)
+	correctAnswerIndex?: number;
+}
@@ -0,0 +1,45 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsString, IsUUID, MaxLength, MinLength } from 'class-validator';
+
+import { Locale, TriviaPackFormat, VALIDATION_LENGTH } from '@shared/constants';
+
+export class ImportTriviaPackDto {
+	@ApiProperty({ description: 'Layout of the pack content', enum: TriviaPackFormat })
+	@IsEnum(TriviaPackFormat)
+	format!: TriviaPackFormat;
+
+	@ApiProperty({ description: 'Pack file content', maxLength: VALIDATION_LENGTH.TRIVIA_PACK_CONTENT.MAX })
+	@IsString()
+	@MinLength(1)
+	@MaxLength(VALIDATION_LENGTH.TRIVIA_PACK_CONTENT.MAX)
+	content!: string;
+
+	@ApiProperty({ description: 'Only validate the pack and report each row without storing anything' })
+	@IsBoolean()
+	dryRun!: boolean;
+
+	@ApiPropertyOptional({ description: 'Language for rows that do not state one', enum: Locale })
+	@IsOptional()
+	@IsEnum(Locale)
+	locale?: Locale;
+
+	@ApiPropertyOptional({
+		description: 'Name shown for the import batch',
+		maxLength: VALIDATION_LENGTH.IMPORT_BATCH_LABEL.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.IMPORT_BATCH_LABEL.MAX)
+	label?: string;
+}
+
+export class ExportTriviaPackQueryDto {
+	@ApiProperty({ description: 'Layout of the exported file', enum: TriviaPackFormat })
+	@IsEnum(TriviaPackFormat)
+	format!: TriviaPackFormat;
+
+	@ApiPropertyOptional({ description: 'Export only the questions of this import batch' })
+	@IsOptional()
+	@IsUUID()
+	batchId?: string;
+}
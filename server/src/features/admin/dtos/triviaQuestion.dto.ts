@@ -0,0 +1,137 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+	ArrayMaxSize,
+	ArrayMinSize,
+	IsArray,
+	IsEnum,
+	IsInt,
+	IsOptional,
+	IsString,
+	MaxLength,
+	Min,
+	MinLength,
+} from 'class-validator';
+
+import { DifficultyLevel, Locale, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+
+export class CreateTriviaQuestionDto {
+	@ApiProperty({
+		description: 'Question text',
+		minLength: VALIDATION_LENGTH.QUESTION.MIN,
+		maxLength: VALIDATION_LENGTH.QUESTION.MAX,
+	})
+	@IsString()
+	@MinLength(VALIDATION_LENGTH.QUESTION.MIN)
+	@MaxLength(VALIDATION_LENGTH.QUESTION.MAX)
+	question!: string;
+
+	@ApiProperty({
+		description: 'Answer texts in display order',
+		type: [String],
+		minItems: VALIDATION_COUNT.ANSWER_COUNT.MIN,
+		maxItems: VALIDATION_COUNT.ANSWER_COUNT.MAX,
+	})
+	@IsArray()
+	@ArrayMinSize(VALIDATION_COUNT.ANSWER_COUNT.MIN)
+	@ArrayMaxSize(VALIDATION_COUNT.ANSWER_COUNT.MAX)
+	@IsString({ each: true })
+	@MinLength(1, { each: true })
+	@MaxLength(VALIDATION_LENGTH.ANSWER.MAX, { each: true })
+	answers!: string[];
+
+	@ApiProperty({ description: 'Index of the correct answer', minimum: 0 })
+	@IsInt()
+	@Min(0)
+	correctAnswerIndex!: number;
+
+	@ApiProperty({
+		description: 'Question topic',
+		minLength: VALIDATION_LENGTH.TOPIC.MIN,
+		maxLength: VALIDATION_LENGTH.TOPIC.MAX,
+	})
+	@IsString()
+	@MinLength(VALIDATION_LENGTH.TOPIC.MIN)
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX)
+	topic!: string;
+
+	@ApiProperty({ description: 'Stored difficulty level', enum: DifficultyLevel })
+	@IsEnum(DifficultyLevel)
+	difficulty!: DifficultyLevel;
+
+	@ApiProperty({ description: 'Language the question is written in', enum: Locale })
+	@IsEnum(Locale)
+	locale!: Locale;
+
+	@ApiPropertyOptional({
+		description: 'Explanation shown after answering',
+		maxLength: VALIDATION_LENGTH.EXPLANATION.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.EXPLANATION.MAX)
+	explanation?: string;
+}
+
+export class UpdateTriviaQuestionDto {
+	@ApiPropertyOptional({
+		description: 'Question text',
+		minLength: VALIDATION_LENGTH.QUESTION.MIN,
+		maxLength: VALIDATION_LENGTH.QUESTION.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MinLength(VALIDATION_LENGTH.QUESTION.MIN)
+	@MaxLength(VALIDATION_LENGTH.QUESTION.MAX)
+	question?: string;
+
+	@ApiPropertyOptional({
+		description: 'Answer texts in display order',
+		type: [String],
+		minItems: VALIDATION_COUNT.ANSWER_COUNT.MIN,
+		maxItems: VALIDATION_COUNT.ANSWER_COUNT.MAX,
+	})
+	@IsOptional()
+	@IsArray()
+	@ArrayMinSize(VALIDATION_COUNT.ANSWER_COUNT.MIN)
+	@ArrayMaxSize(VALIDATION_COUNT.ANSWER_COUNT.MAX)
+	@IsString({ each: true })
+	@MinLength(1, { each: true })
+	@MaxLength(VALIDATION_LENGTH.ANSWER.MAX, { each: true })
+	answers?: string[];
+
+	@ApiPropertyOptional({ description: 'Index of the correct answer', minimum: 0 })
+	@IsOptional()
+	@IsInt()
+	@Min(0)
+	correctAnswerIndex?: number;
+
+	@ApiPropertyOptional({
+		description: 'Question topic',
+		minLength: VALIDATION_LENGTH.TOPIC.MIN,
+		maxLength: VALIDATION_LENGTH.TOPIC.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MinLength(VALIDATION_LENGTH.TOPIC.MIN)
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX)
+	topic?: string;
+
+	@ApiPropertyOptional({ description: 'Stored difficulty level', enum: DifficultyLevel })
+	@IsOptional()
+	@IsEnum(DifficultyLevel)
+	difficulty?: DifficultyLevel;
+
+	@ApiPropertyOptional({ description: 'Language the question is written in', enum: Locale })
+	@IsOptional()
+	@IsEnum(Locale)
+	locale?: Locale;
+
+	@ApiPropertyOptional({
+		description: 'Explanation shown after answering; an empty string clears it',
+		maxLength: VALIDATION_LENGTH.EXPLANATION.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.EXPLANATION.MAX)
+	explanation?: string;
+}
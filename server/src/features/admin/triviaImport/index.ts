@@ -0,0 +1 @@
+export { TriviaImportService } from './triviaImport.service';
@@ -0,0 +1,311 @@
+import { HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+
+import { ERROR_MESSAGES, Locale, TriviaImportRowStatus, TriviaPackFormat } from '@shared/constants';
+import type {
+	ExportTriviaPackResponse,
+	ImportTriviaPackRequest,
+	RollbackTriviaImportBatchResponse,
+	TriviaImportBatch,
+	TriviaImportBatchesResponse,
+	TriviaImportReport,
+	TriviaImportRowReport,
+	TriviaPackSchemaResponse,
+	TriviaQuestionDraft,
+} from '@shared/types';
+import { getErrorMessage, isNonEmptyString } from '@shared/utils';
+import { isUuid, validateTriviaQuestionDraft } from '@shared/validation';
+
+import { QUESTION_SIMILARITY_DEFAULTS, TRIVIA_PACK_EXPORT_FILE_PREFIX } from '@internal/constants';
+import { TriviaEntity, TriviaImportBatchEntity } from '@internal/entities';
+import { CacheInvalidationService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { ParsedTriviaPackRow, TriviaImportDuplicateRow, TriviaImportPackDuplicateRow } from '@internal/types';
+import {
+	createNotFoundError,
+	createServerError,
+	createValidationError,
+	fromTriviaQuestionDraft,
+	getTriviaPackSchema,
+	parseTriviaPack,
+	serializeTriviaPack,
+	toTriviaQuestionDraft,
+} from '@internal/utils';
+
+interface AcceptedPackRow {
+	row: number;
+	draft: TriviaQuestionDraft;
+}
+
+@Injectable()
+export class TriviaImportService {
+	constructor(
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		@InjectRepository(TriviaImportBatchEntity)
+		private readonly triviaImportBatchRepository: Repository<TriviaImportBatchEntity>,
+		private readonly cacheInvalidationService: CacheInvalidationService
+	) {}
+
+	async importPack(userId: string, request: ImportTriviaPackRequest): Promise<TriviaImportReport> {
+		try {
+			const parsedRows = parseTriviaPack(request.format, request.content, request.locale ?? Locale.EN);
+			const { rows, acceptedRows } = await this.checkPackRows(parsedRows);
+
+			let batch: TriviaImportBatch | null = null;
+			if (!request.dryRun && acceptedRows.length > 0) {
+				const label = request.label?.trim();
+				// The batch row and its questions are written together so a rollback always finds every imported question
+				const batchEntity = await this.triviaRepository.manager.transaction(async manager => {
+					const savedBatch = await manager.save(
+						manager.create(TriviaImportBatchEntity, {
+							label: isNonEmptyString(label) ? label : `${request.format} import`,
+							format: request.format,
+							questionCount: acceptedRows.length,
+							userId,
+						})
+					);
+					await manager.save(
+						acceptedRows.map(({ draft }) =>
+							manager.create(TriviaEntity, { ...fromTriviaQuestionDraft(draft), importBatchId: savedBatch.id })
+						)
+					);
+					return savedBatch;
+				});
+				await this.cacheInvalidationService.invalidateOnTriviaChange();
+				batch = this.toTriviaImportBatch(batchEntity);
+
+				logger.gameInfo('Trivia question pack imported', {
+					userId,
+					batchId: batchEntity.id,
+					format: request.format,
+					count: acceptedRows.length,
+				});
+			}
+
+			return {
+				format: request.format,
+				dryRun: request.dryRun,
+				totalRows: rows.length,
+				validCount: acceptedRows.length,
+				invalidCount: rows.filter(row => row.status === TriviaImportRowStatus.INVALID).length,
+				duplicateCount: rows.filter(row => row.status === TriviaImportRowStatus.DUPLICATE).length,
+				importedCount: batch?.questionCount ?? 0,
+				batch,
+				rows,
+			};
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to import trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				format: request.format,
+			});
+			throw createServerError('import trivia question pack', error);
+		}
+	}
+
+	getPackSchema(): TriviaPackSchemaResponse {
+		return getTriviaPackSchema();
+	}
+
+	async exportPack(format: TriviaPackFormat, batchId?: string): Promise<ExportTriviaPackResponse> {
+		try {
+			if (batchId != null && !isUuid(batchId)) {
+				throw createValidationError('batchId', 'UUID');
+			}
+
+			// Retired questions stay out of a full export; a batch export returns the batch as it was imported
+			const questionEntities = await this.triviaRepository.find({
+				where: batchId != null ? { importBatchId: batchId } : { retiredAt: IsNull() },
+				order: { createdAt: 'ASC' },
+			});
+			const fileExtension = format === TriviaPackFormat.CSV ? 'csv' : 'json';
+			const fileSuffix = format === TriviaPackFormat.OPENTDB ? `-${TriviaPackFormat.OPENTDB}` : '';
+
+			return {
+				format,
+				fileName: `${TRIVIA_PACK_EXPORT_FILE_PREFIX}-${new Date().toISOString().slice(0, 10)}${fileSuffix}.${fileExtension}`,
+				content: serializeTriviaPack(format, questionEntities.map(toTriviaQuestionDraft)),
+				questionCount: questionEntities.length,
+			};
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to export trivia question pack', {
+				errorInfo: { message: getErrorMessage(error) },
+				format,
+				batchId,
+			});
+			throw createServerError('export trivia question pack', error);
+		}
+	}
+
+	async getImportBatches(): Promise<TriviaImportBatchesResponse> {
+		try {
+			const batchEntities = await this.triviaImportBatchRepository.find({ order: { createdAt: 'DESC' } });
+			return { batches: batchEntities.map(batchEntity => this.toTriviaImportBatch(batchEntity)) };
+		} catch (error) {
+			logger.gameError('Failed to get trivia import batches', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('get trivia import batches', error);
+		}
+	}
+
+	async rollbackImportBatch(batchId: string): Promise<RollbackTriviaImportBatchResponse> {
+		try {
+			if (!isUuid(batchId)) {
+				throw createValidationError('batchId', 'UUID');
+			}
+			const batchExists = await this.triviaImportBatchRepository.exists({ where: { id: batchId } });
+			if (!batchExists) {
+				throw createNotFoundError('Trivia import batch');
+			}
+
+			// Questions edited after the import still belong to the batch and are removed with it
+			const removedCount = await this.triviaRepository.manager.transaction(async manager => {
+				const deleteResult = await manager.delete(TriviaEntity, { importBatchId: batchId });
+				await manager.delete(TriviaImportBatchEntity, { id: batchId });
+				return deleteResult.affected ?? 0;
+			});
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			logger.gameInfo('Trivia import batch rolled back', {
+				batchId,
+				count: removedCount,
+			});
+
+			return { batchId, removedCount };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to roll back trivia import batch', {
+				errorInfo: { message: getErrorMessage(error) },
+				batchId,
+			});
+			throw createServerError('roll back trivia import batch', error);
+		}
+	}
+
+	// Invalid rows are reported as-is; valid rows are checked against earlier rows of the pack, then against stored questions
+	private async checkPackRows(
+		parsedRows: ParsedTriviaPackRow[]
+	): Promise<{ rows: TriviaImportRowReport[]; acceptedRows: AcceptedPackRow[] }> {
+		const reports = new Map<number, TriviaImportRowReport>();
+		const validRows: AcceptedPackRow[] = [];
+
+		for (const { row, question, draft, errors } of parsedRows) {
+			const rowErrors = draft != null ? [...errors, ...validateTriviaQuestionDraft(draft).errors] : errors;
+			if (draft == null || rowErrors.length > 0) {
+				reports.set(row, { row, status: TriviaImportRowStatus.INVALID, question, errors: rowErrors });
+				continue;
+			}
+			validRows.push({ row, draft });
+		}
+
+		const packDuplicates = await this.findPackDuplicates(validRows);
+		const uniqueRows: AcceptedPackRow[] = [];
+		for (const validRow of validRows) {
+			const duplicateOfRow = packDuplicates.get(validRow.row);
+			if (duplicateOfRow != null) {
+				reports.set(validRow.row, {
+					row: validRow.row,
+					status: TriviaImportRowStatus.DUPLICATE,
+					question: validRow.draft.question,
+					errors: [ERROR_MESSAGES.validation.DUPLICATE_OF_PACK_ROW(duplicateOfRow)],
+				});
+				continue;
+			}
+			uniqueRows.push(validRow);
+		}
+
+		const storedDuplicates = await this.findStoredDuplicates(uniqueRows);
+		const acceptedRows: AcceptedPackRow[] = [];
+		for (const uniqueRow of uniqueRows) {
+			const duplicateOfId = storedDuplicates.get(uniqueRow.row);
+			reports.set(uniqueRow.row, {
+				row: uniqueRow.row,
+				status: duplicateOfId != null ? TriviaImportRowStatus.DUPLICATE : TriviaImportRowStatus.VALID,
+				question: uniqueRow.draft.question,
+				errors: duplicateOfId != null ? [ERROR_MESSAGES.validation.DUPLICATE_OF_STORED_QUESTION] : [],
+				...(duplicateOfId != null ? { duplicateOfId } : {}),
+			});
+			if (duplicateOfId == null) {
+				acceptedRows.push(uniqueRow);
+			}
+		}
+
+		return {
+			rows: parsedRows.flatMap(({ row }) => reports.get(row) ?? []),
+			acceptedRows,
+		};
+	}
+
+	// Same trigram match as findStoredDuplicates, run in the database so large packs do not block the event loop;
+	// each row points at the first earlier row on the same topic it repeats
+	private async findPackDuplicates(packRows: AcceptedPackRow[]): Promise<Map<number, number>> {
+		if (packRows.length < 2) {
+			return new Map();
+		}
+		const duplicateRows: TriviaImportPackDuplicateRow[] = await this.triviaRepository.query(
+			`SELECT pack.row_number AS "row", MIN(earlier.row_number) AS "duplicateOfRow"
+			 FROM unnest($1::int[], $2::text[], $3::text[]) AS pack(row_number, topic, question)
+			 JOIN unnest($1::int[], $2::text[], $3::text[]) AS earlier(row_number, topic, question)
+			   ON earlier.row_number < pack.row_number
+			  AND LOWER(earlier.topic) = LOWER(pack.topic)
+			  AND LOWER(earlier.question) % LOWER(pack.question)
+			  AND similarity(LOWER(earlier.question), LOWER(pack.question)) >= $4
+			 GROUP BY pack.row_number`,
+			[
+				packRows.map(({ row }) => row),
+				packRows.map(({ draft }) => draft.topic),
+				packRows.map(({ draft }) => draft.question),
+				QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold,
+			]
+		);
+		return new Map(duplicateRows.map(({ row, duplicateOfRow }) => [Number(row), Number(duplicateOfRow)]));
+	}
+
+	// One round trip for the whole pack: each row picks its most similar stored question on the same topic, if any
+	private async findStoredDuplicates(packRows: AcceptedPackRow[]): Promise<Map<number, string>> {
+		if (packRows.length === 0) {
+			return new Map();
+		}
+		const duplicateRows: TriviaImportDuplicateRow[] = await this.triviaRepository.query(
+			`SELECT pack.row_number AS "row", match.id AS "duplicateOfId"
+			 FROM unnest($1::int[], $2::text[], $3::text[]) AS pack(row_number, topic, question)
+			 CROSS JOIN LATERAL (
+			   SELECT t.id
+			   FROM trivia t
+			   WHERE LOWER(t.topic) = LOWER(pack.topic)
+			     AND LOWER(t.question) % LOWER(pack.question)
+			     AND similarity(LOWER(t.question), LOWER(pack.question)) >= $4
+			   ORDER BY similarity(LOWER(t.question), LOWER(pack.question)) DESC
+			   LIMIT 1
+			 ) AS match`,
+			[
+				packRows.map(({ row }) => row),
+				packRows.map(({ draft }) => draft.topic),
+				packRows.map(({ draft }) => draft.question),
+				QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold,
+			]
+		);
+		return new Map(duplicateRows.map(({ row, duplicateOfId }) => [Number(row), duplicateOfId]));
+	}
+
+	private toTriviaImportBatch(batchEntity: TriviaImportBatchEntity): TriviaImportBatch {
+		return {
+			id: batchEntity.id,
+			label: batchEntity.label,
+			format: batchEntity.format,
+			questionCount: batchEntity.questionCount,
+			createdAt: batchEntity.createdAt,
+		};
+	}
+}
@@ -19,8 +19,15 @@ import {
 	UserRole,
 	VALIDATION_COUNT,
 } from '@shared/constants';
-import type { AnalyticsEventData, LeaderboardEntry, LeaderboardResponse } from '@shared/types';
-import { getErrorMessage, hasProperty, isRecord } from '@shared/utils';
+import type {
+	AnalyticsEventData,
+	DailyChallengeLeaderboardResponse,
+	LeaderboardEntry,
+	LeaderboardResponse,
+	QuestionAnalyticsDetail,
+	QuestionAnalyticsListResponse,
+} from '@shared/types';
+import { calculatePercentage, getErrorMessage, getUtcDateKey, hasProperty, isRecord } from '@shared/utils';
 import { isLeaderboardPeriod, VALIDATORS } from '@shared/validation';
 
 import { Cache, CurrentUser, CurrentUserId, Public, Roles } from '@common/decorators';
@@ -30,8 +37,11 @@ import { serverLogger as logger } from '@internal/services';
 import { getAvatarUrlForUser } from '@internal/utils';
 
 import {
+	GetDailyChallengeLeaderboardDto,
 	GetLeaderboardDto,
 	GetLeaderboardStatsDto,
+	QuestionAnalyticsQueryDto,
+	QuestionIdParamDto,
 	TopicAnalyticsQueryDto,
 	TrackEventDto,
 	UnifiedUserAnalyticsQueryDto,
@@ -45,6 +55,7 @@ import {
 	BusinessAnalyticsService,
 	GlobalAnalyticsService,
 	LeaderboardAnalyticsService,
+	QuestionAnalyticsService,
 	SystemAnalyticsService,
 	UserAnalyticsService,
 } from './services';
@@ -69,7 +80,8 @@ export class AnalyticsController {
 		private readonly businessAnalyticsService: BusinessAnalyticsService,
 		private readonly systemAnalyticsService: SystemAnalyticsService,
 		private readonly analyticsTrackerService: AnalyticsTrackerService,
-		private readonly leaderboardAnalyticsService: LeaderboardAnalyticsService
+		private readonly leaderboardAnalyticsService: LeaderboardAnalyticsService,
+		private readonly questionAnalyticsService: QuestionAnalyticsService
 	) {}
 
 	@Post('track')
@@ -524,6 +536,57 @@ export class AnalyticsController {
 		}
 	}
 
+	// Question analytics endpoints
+
+	@Get('questions')
+	@Roles(UserRole.ADMIN)
+	@Cache(TIME_DURATIONS_SECONDS.MINUTE)
+	async getQuestionAnalyticsList(@Query() query: QuestionAnalyticsQueryDto): Promise<QuestionAnalyticsListResponse> {
+		try {
+			const result = await this.questionAnalyticsService.getQuestionAnalyticsList(query);
+
+			logger.apiRead('analytics_questions', {
+				chart: 'question_analytics',
+				sort: result.sort,
+				limit: query.limit,
+				offset: query.offset,
+				resultsCount: result.questions.length,
+				totalCount: result.totalCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.analyticsError('Error getting question analytics', {
+				errorInfo: { message: getErrorMessage(error) },
+				sort: query.sort,
+			});
+			throw error;
+		}
+	}
+
+	@Get('questions/:questionId')
+	@Roles(UserRole.ADMIN)
+	@Cache(TIME_DURATIONS_SECONDS.MINUTE)
+	async getQuestionAnalytics(@Param() params: QuestionIdParamDto): Promise<QuestionAnalyticsDetail> {
+		try {
+			const result = await this.questionAnalyticsService.getQuestionAnalytics(params.questionId);
+
+			logger.apiRead('analytics_question_detail', {
+				chart: 'question_analytics_detail',
+				questionId: params.questionId,
+				count: result.timesServed,
+			});
+
+			return result;
+		} catch (error) {
+			logger.analyticsError('Error getting question analytics detail', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId: params.questionId,
+			});
+			throw error;
+		}
+	}
+
 	// Leaderboard endpoints
 
 	@Get('leaderboard/global')
@@ -672,6 +735,55 @@ export class AnalyticsController {
 		}
 	}
 
+	@Get('leaderboard/daily-challenge')
+	@Public()
+	async getDailyChallengeLeaderboard(@Query() query: GetDailyChallengeLeaderboardDto) {
+		try {
+			const date = query.date ?? getUtcDateKey();
+			const results = await this.leaderboardAnalyticsService.getDailyChallengeLeaderboard(date, query.limit);
+
+			logger.apiRead('leaderboard_daily_challenge', {
+				date,
+				limit: query.limit,
+				resultsCount: results.length,
+				chart: 'leaderboard_daily_challenge',
+				totalReturned: results.length,
+			});
+
+			const leaderboardEntries: LeaderboardEntry[] = results.map((entry, index) => ({
+				userId: entry.userId,
+				email: entry.user?.email ?? '',
+				firstName: entry.user?.firstName,
+				lastName: entry.user?.lastName,
+				avatar: entry.user?.preferences?.avatar,
+				avatarUrl: getAvatarUrlForUser(entry.user),
+				rank: index + 1,
+				score: entry.score,
+				averageScore: entry.score,
+				bestScore: entry.score,
+				gamesPlayed: 1,
+				lastPlayed: entry.createdAt,
+				successRate: calculatePercentage(entry.correctAnswers, entry.gameQuestionCount),
+				totalGames: 1,
+				totalQuestionsAnswered: entry.gameQuestionCount,
+				totalPlayTime: entry.timeSpent ?? 0,
+			}));
+
+			const response: DailyChallengeLeaderboardResponse = {
+				date,
+				leaderboard: leaderboardEntries,
+			};
+			return response;
+		} catch (error) {
+			logger.userError('Error getting daily challenge leaderboard', {
+				errorInfo: { message: getErrorMessage(error) },
+				date: query.date,
+				limit: query.limit,
+			});
+			throw error;
+		}
+	}
+
 	@Get('leaderboard/stats')
 	@Public()
 	async getLeaderboardStats(@Query() query: GetLeaderboardStatsDto) {
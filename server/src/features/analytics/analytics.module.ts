@@ -1,7 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
-import { GameHistoryEntity, PaymentHistoryEntity, TriviaEntity, UserEntity, UserStatsEntity } from '@internal/entities';
+import {
+	GameHistoryEntity,
+	PaymentHistoryEntity,
+	TriviaEntity,
+	TriviaReportEntity,
+	UserEntity,
+	UserStatsEntity,
+} from '@internal/entities';
 import { CacheModule } from '@internal/modules';
 
 import { AuthModule } from '../auth';
@@ -12,6 +19,7 @@ import {
 	BusinessAnalyticsService,
 	GlobalAnalyticsService,
 	LeaderboardAnalyticsService,
+	QuestionAnalyticsService,
 	SystemAnalyticsService,
 	UserAnalyticsService,
 	UserStatsUpdateService,
@@ -19,7 +27,14 @@ import {
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([UserEntity, UserStatsEntity, GameHistoryEntity, TriviaEntity, PaymentHistoryEntity]),
+		TypeOrmModule.forFeature([
+			UserEntity,
+			UserStatsEntity,
+			GameHistoryEntity,
+			TriviaEntity,
+			TriviaReportEntity,
+			PaymentHistoryEntity,
+		]),
 		CacheModule,
 		AuthModule,
 	],
@@ -32,6 +47,7 @@ import {
 		SystemAnalyticsService,
 		AnalyticsTrackerService,
 		LeaderboardAnalyticsService,
+		QuestionAnalyticsService,
 		UserStatsUpdateService,
 	],
 	exports: [
@@ -11,6 +11,7 @@ import {
 	IsOptional,
 	IsString,
 	IsUUID,
+	Matches,
 	Max,
 	MaxLength,
 	Min,
@@ -23,8 +24,10 @@ import {
 	AnalyticsPageName,
 	AnalyticsResult,
 	ComparisonTarget,
+	DAILY_CHALLENGE_CONFIG,
 	DEFAULT_GAME_CONFIG,
 	LeaderboardPeriod,
+	QuestionAnalyticsSort,
 	TimePeriod,
 	VALIDATION_COUNT,
 	VALIDATION_LENGTH,
@@ -174,6 +177,56 @@ export class UserIdParamDto {
 	userId!: string;
 }
 
+export class QuestionIdParamDto {
+	@ApiProperty({
+		description: 'Trivia question ID (UUID)',
+		example: 'b3c4d5e6-1234-4abd-9c1d-5e7f6b8a9c0d',
+	})
+	@IsString()
+	@IsNotEmpty({ message: 'Question ID is required' })
+	@IsUUID('4', { message: 'Question ID must be a valid UUID' })
+	questionId!: string;
+}
+
+export class QuestionAnalyticsQueryDto {
+	@ApiPropertyOptional({
+		description: 'Ordering of the question list',
+		enum: QuestionAnalyticsSort,
+		default: QuestionAnalyticsSort.HARDEST,
+	})
+	@IsOptional()
+	@IsEnum(QuestionAnalyticsSort, { message: 'Sort must be a valid QuestionAnalyticsSort' })
+	sort?: QuestionAnalyticsSort;
+
+	@ApiPropertyOptional({
+		description: 'Maximum number of questions to return',
+		minimum: VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MIN,
+		maximum: VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MAX,
+		default: VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.DEFAULT_LIMIT,
+	})
+	@IsOptional()
+	@Transform(({ value }) => parseOptionalQueryInt(value))
+	@IsNumber({}, { message: 'Limit must be a number' })
+	@Min(VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MIN, {
+		message: `Limit must be at least ${VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MIN}`,
+	})
+	@Max(VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MAX, {
+		message: `Limit cannot exceed ${VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.LIMIT_MAX}`,
+	})
+	limit?: number;
+
+	@ApiPropertyOptional({
+		description: 'Starting position for pagination',
+		minimum: VALIDATION_COUNT.LIST_QUERY.OFFSET_MIN,
+		default: VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.DEFAULT_OFFSET,
+	})
+	@IsOptional()
+	@Transform(({ value }) => parseOptionalQueryInt(value))
+	@IsNumber({}, { message: 'Offset must be a number' })
+	@Min(VALIDATION_COUNT.LIST_QUERY.OFFSET_MIN, { message: 'Offset must be at least 0' })
+	offset?: number;
+}
+
 export class UserTrendQueryDto {
 	@ApiPropertyOptional({
 		description: 'Start date for user trend analytics',
@@ -310,6 +363,33 @@ export class GetLeaderboardDto {
 	offset: number = 0;
 }
 
+export class GetDailyChallengeLeaderboardDto {
+	@ApiPropertyOptional({
+		description: 'UTC calendar day (YYYY-MM-DD). Defaults to today.',
+		example: '2024-01-01',
+	})
+	@IsOptional()
+	@IsString()
+	@Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'Date must be in YYYY-MM-DD format' })
+	date?: string;
+
+	@ApiPropertyOptional({
+		description: 'Maximum number of entries to return',
+		minimum: VALIDATION_COUNT.LEADERBOARD.MIN,
+		maximum: VALIDATION_COUNT.LEADERBOARD.MAX,
+		default: DAILY_CHALLENGE_CONFIG.leaderboardLimit,
+	})
+	@Transform(({ value }) => parseQueryIntDefaultWhenMissing(value, DAILY_CHALLENGE_CONFIG.leaderboardLimit))
+	@IsNumber({}, { message: 'Limit must be a number' })
+	@Min(VALIDATION_COUNT.LEADERBOARD.MIN, {
+		message: `Limit must be at least ${VALIDATION_COUNT.LEADERBOARD.MIN}`,
+	})
+	@Max(VALIDATION_COUNT.LEADERBOARD.MAX, {
+		message: `Limit cannot exceed ${VALIDATION_COUNT.LEADERBOARD.MAX}`,
+	})
+	limit: number = DAILY_CHALLENGE_CONFIG.leaderboardLimit;
+}
+
 export class GetLeaderboardStatsDto {
 	@ApiPropertyOptional({
 		description: 'Time period for statistics',
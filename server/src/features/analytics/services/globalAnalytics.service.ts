@@ -43,10 +43,13 @@ import {
 	isAnalyticsResponseUserTrendPointArray,
 	isDifficultyStatsRecord,
 	isTopicAnalyticsRecordArray,
+	leftJoinCatalogTopic,
 } from '@internal/utils';
 
 import { AnalyticsCommonService } from './commonAnalytics.service';
 
+const CATALOG_TOPIC_NAME_SQL = 'COALESCE(catalog.name, TRIM(game.topic))';
+
 @Injectable()
 export class GlobalAnalyticsService {
 	constructor(
@@ -241,15 +244,17 @@ export class GlobalAnalyticsService {
 			return await this.cacheService.getOrSet<TopicAnalyticsRecord[]>(
 				cacheKey,
 				async () => {
-					const queryBuilder = this.createFilteredGameHistoryQuery(query).andWhere(
-						'game.gameQuestionCount > :minQuestions',
-						{ minQuestions: 0 }
-					);
+					const queryBuilder = leftJoinCatalogTopic(
+						this.createFilteredGameHistoryQuery(query),
+						'game.topic',
+						'catalog'
+					).andWhere('game.gameQuestionCount > :minQuestions', { minQuestions: 0 });
 
+					// Spelling variants and aliases of a catalog topic are counted under its canonical name
 					const topicStatsRaw = await queryBuilder
-						.select('game.topic', 'topic')
+						.select(CATALOG_TOPIC_NAME_SQL, 'topic')
 						.addSelect('CAST(COUNT(*) AS INTEGER)', 'totalGames')
-						.groupBy('game.topic')
+						.groupBy(CATALOG_TOPIC_NAME_SQL)
 						.addOrderBy('COUNT(*)', 'DESC')
 						.getRawMany<TopicAnalyticsRecord>();
 
@@ -327,11 +332,15 @@ export class GlobalAnalyticsService {
 				.select('CAST(COALESCE(SUM(game.score), 0) AS INTEGER)', 'value')
 				.getRawOne<NumericQueryResult>();
 
-			const topicStatsRaw = await this.createFilteredGameHistoryQuery(query)
+			const topicStatsRaw = await leftJoinCatalogTopic(
+				this.createFilteredGameHistoryQuery(query),
+				'game.topic',
+				'catalog'
+			)
 				.andWhere('game.gameQuestionCount > :minQuestions', { minQuestions: 0 })
-				.select('game.topic', 'topic')
+				.select(CATALOG_TOPIC_NAME_SQL, 'topic')
 				.addSelect('CAST(COUNT(*) AS INTEGER)', 'totalGames')
-				.groupBy('game.topic')
+				.groupBy(CATALOG_TOPIC_NAME_SQL)
 				.addOrderBy('COUNT(*)', 'DESC')
 				.limit(5)
 				.getRawMany<TopicAnalyticsRecord>();
@@ -5,4 +5,5 @@ export * from './businessAnalytics.service';
 export * from './systemAnalytics.service';
 export * from './analyticsTracker.service';
 export * from './leaderboard.service';
+export * from './questionAnalytics.service';
 export * from './userStatsUpdate.service';
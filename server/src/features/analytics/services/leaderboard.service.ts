@@ -5,12 +5,13 @@ import { Repository } from 'typeorm';
 import {
 	CACHE_KEYS,
 	ERROR_MESSAGES,
+	GameMode,
 	LeaderboardPeriod,
 	TIME_DURATIONS_SECONDS,
 	VALIDATION_COUNT,
 } from '@shared/constants';
 import type { LeaderboardStats } from '@shared/types';
-import { getErrorMessage } from '@shared/utils';
+import { getErrorMessage, getUtcDayBounds } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
 import { LEADERBOARD_PERIOD_CONFIG } from '@internal/constants';
@@ -221,6 +222,51 @@ export class LeaderboardAnalyticsService {
 		}
 	}
 
+	async getDailyChallengeLeaderboard(date: string, limit: number): Promise<GameHistoryEntity[]> {
+		try {
+			const cacheKey = CACHE_KEYS.LEADERBOARD.DAILY_CHALLENGE(date, limit);
+
+			return await this.cacheService.getOrSet<GameHistoryEntity[]>(
+				cacheKey,
+				async () => {
+					const { start, end } = getUtcDayBounds(date);
+					const fetchSize = Math.min(
+						limit + VALIDATION_COUNT.LEADERBOARD.QUERY_FETCH_BUFFER,
+						VALIDATION_COUNT.LEADERBOARD.QUERY_FETCH_CAP
+					);
+					const raw = await this.gameHistoryRepository
+						.createQueryBuilder('game')
+						.innerJoinAndSelect('game.user', 'user')
+						.where('user.isActive = :isActive', { isActive: true })
+						.andWhere('game.gameMode = :gameMode', { gameMode: GameMode.DAILY_CHALLENGE })
+						.andWhere('game.createdAt >= :start AND game.createdAt < :end', { start, end })
+						.orderBy('game.score', 'DESC')
+						.addOrderBy('game.timeSpent', 'ASC')
+						.addOrderBy('game.createdAt', 'ASC')
+						.take(fetchSize)
+						.getMany();
+
+					const seen = new Set<string>();
+					const firstPerUser = raw.filter(row => {
+						if (seen.has(row.userId)) return false;
+						seen.add(row.userId);
+						return true;
+					});
+					return firstPerUser.slice(0, limit);
+				},
+				TIME_DURATIONS_SECONDS.FIVE_MINUTES,
+				(data): data is GameHistoryEntity[] => Array.isArray(data)
+			);
+		} catch (error) {
+			logger.analyticsError('getDailyChallengeLeaderboard', {
+				errorInfo: { message: getErrorMessage(error) },
+				date,
+				limit,
+			});
+			throw error;
+		}
+	}
+
 	private async getLeaderboardStatsAllTime(): Promise<LeaderboardStats> {
 		const activeUsersRaw = await this.gameHistoryRepository
 			.createQueryBuilder('game')
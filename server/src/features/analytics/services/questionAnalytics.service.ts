@@ -0,0 +1,239 @@
+import { HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { QuestionAnalyticsSort, TriviaReportStatus, VALIDATION_COUNT } from '@shared/constants';
+import type {
+	QuestionAnalytics,
+	QuestionAnalyticsDetail,
+	QuestionAnalyticsListQuery,
+	QuestionAnalyticsListResponse,
+	QuestionAnswerOptionStats,
+	QuestionDistractorStats,
+} from '@shared/types';
+import { getErrorMessage } from '@shared/utils';
+import { isUuid } from '@shared/validation';
+
+import { QUESTION_ANALYTICS_DEFAULTS } from '@internal/constants';
+import { TriviaEntity, TriviaReportEntity } from '@internal/entities';
+import { serverLogger as logger } from '@internal/services';
+import type { QuestionAnalyticsRow, QuestionAnswerSummaryRow, QuestionAnswerTextCountRow } from '@internal/types';
+import { createNotFoundError, createServerError, createValidationError } from '@internal/utils';
+
+// One row per recorded answer in game history. Multiplayer games are saved per player, so the live room answer
+// counts end up here as well. Timed-out or skipped questions are stored with userAnswerIndex -1. Answer positions
+// are shuffled per delivery, so picks are identified by the recorded answer texts rather than the index.
+const ANSWER_ROWS_CTE = `answers AS (
+	SELECT answer->>'questionId' AS question_id,
+		CASE WHEN jsonb_typeof(answer->'userAnswerIndex') = 'number' THEN (answer->>'userAnswerIndex')::int ELSE -1 END AS answer_index,
+		answer->>'userAnswerText' AS answer_text,
+		answer->>'correctAnswerText' AS correct_text,
+		answer->>'isCorrect' = 'true' AS is_correct,
+		CASE WHEN jsonb_typeof(answer->'timeSpent') = 'number' THEN (answer->>'timeSpent')::real END AS time_spent
+	FROM game_history gh,
+	LATERAL jsonb_array_elements(gh.questions_data) AS answer
+)`;
+
+// Questions with too few answers to trust their rates sort after the rest ($3 is the minimum)
+const RANKED_FIRST = 'CASE WHEN COALESCE(qs.times_served, 0) >= $3 THEN 0 ELSE 1 END';
+
+const QUESTION_ANALYTICS_ORDER_BY: Record<QuestionAnalyticsSort, string> = {
+	[QuestionAnalyticsSort.HARDEST]: `${RANKED_FIRST}, qs.correct_count::real / NULLIF(qs.times_served, 0) ASC NULLS LAST, qs.times_served DESC NULLS LAST`,
+	[QuestionAnalyticsSort.CONFUSING_DISTRACTOR]: `${RANKED_FIRST}, td.pick_count::real / NULLIF(qs.answered_count, 0) DESC NULLS LAST, qs.times_served DESC NULLS LAST`,
+	[QuestionAnalyticsSort.MOST_REPORTED]: `COALESCE(rc.report_count, 0) DESC, ${RANKED_FIRST}, qs.times_served DESC NULLS LAST`,
+};
+
+function toRate(count: number, total: number): number | null {
+	return total > 0 ? count / total : null;
+}
+
+@Injectable()
+export class QuestionAnalyticsService {
+	constructor(
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		@InjectRepository(TriviaReportEntity)
+		private readonly triviaReportRepository: Repository<TriviaReportEntity>
+	) {}
+
+	/**
+	 * Lists questions that have been served or reported, with served count, correct and skip rates,
+	 * median answer time, report count and the wrong answer picked most often.
+	 */
+	async getQuestionAnalyticsList(query: QuestionAnalyticsListQuery): Promise<QuestionAnalyticsListResponse> {
+		const sort = query.sort ?? QuestionAnalyticsSort.HARDEST;
+		try {
+			const rows: QuestionAnalyticsRow[] = await this.triviaRepository.query(
+				`WITH ${ANSWER_ROWS_CTE},
+				 question_stats AS (
+				   SELECT question_id,
+				     COUNT(*) AS times_served,
+				     COUNT(*) FILTER (WHERE answer_index >= 0) AS answered_count,
+				     COUNT(*) FILTER (WHERE is_correct) AS correct_count,
+				     percentile_cont(0.5) WITHIN GROUP (ORDER BY time_spent) FILTER (WHERE answer_index >= 0) AS median_time_spent
+				   FROM answers
+				   GROUP BY question_id
+				 ),
+				 top_distractors AS (
+				   SELECT DISTINCT ON (a.question_id) a.question_id, a.answer_text, COUNT(*) AS pick_count
+				   FROM answers a
+				   JOIN trivia dt ON dt.id::text = a.question_id
+				   WHERE a.answer_index >= 0 AND NOT a.is_correct
+				     AND a.answer_text IS DISTINCT FROM a.correct_text
+				     AND EXISTS (SELECT 1 FROM jsonb_array_elements(dt.answers) AS opt WHERE opt->>'text' = a.answer_text)
+				   GROUP BY a.question_id, a.answer_text
+				   ORDER BY a.question_id, COUNT(*) DESC, a.answer_text
+				 ),
+				 report_counts AS (
+				   SELECT question_id::text AS question_id, COUNT(*) AS report_count
+				   FROM trivia_reports
+				   GROUP BY question_id
+				 )
+				 SELECT t.id AS "questionId", t.question AS question, t.topic AS topic, t.difficulty AS difficulty,
+				   t.answers AS answers,
+				   CAST(COALESCE(qs.times_served, 0) AS INTEGER) AS "timesServed",
+				   CAST(COALESCE(qs.answered_count, 0) AS INTEGER) AS "answeredCount",
+				   CAST(COALESCE(qs.correct_count, 0) AS INTEGER) AS "correctCount",
+				   qs.median_time_spent AS "medianTimeSpent",
+				   CAST(COALESCE(rc.report_count, 0) AS INTEGER) AS "reportCount",
+				   td.answer_text AS "distractorText",
+				   CAST(td.pick_count AS INTEGER) AS "distractorPickCount",
+				   CAST(COUNT(*) OVER () AS INTEGER) AS "totalCount"
+				 FROM trivia t
+				 LEFT JOIN question_stats qs ON qs.question_id = t.id::text
+				 LEFT JOIN top_distractors td ON td.question_id = t.id::text
+				 LEFT JOIN report_counts rc ON rc.question_id = t.id::text
+				 WHERE qs.question_id IS NOT NULL OR rc.question_id IS NOT NULL
+				 ORDER BY ${QUESTION_ANALYTICS_ORDER_BY[sort]}, t.id
+				 LIMIT $1 OFFSET $2`,
+				[
+					query.limit ?? VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.DEFAULT_LIMIT,
+					query.offset ?? VALIDATION_COUNT.QUESTION_ANALYTICS_LIST.DEFAULT_OFFSET,
+					QUESTION_ANALYTICS_DEFAULTS.minServedForRanking,
+				]
+			);
+
+			return {
+				sort,
+				minServedForRanking: QUESTION_ANALYTICS_DEFAULTS.minServedForRanking,
+				questions: rows.map(row => this.toQuestionAnalytics(row)),
+				totalCount: rows[0]?.totalCount ?? 0,
+			};
+		} catch (error) {
+			logger.analyticsError('Failed to get question analytics', {
+				errorInfo: { message: getErrorMessage(error) },
+				sort,
+			});
+			throw createServerError('get question analytics', error);
+		}
+	}
+
+	async getQuestionAnalytics(questionId: string): Promise<QuestionAnalyticsDetail> {
+		try {
+			if (!isUuid(questionId)) {
+				throw createValidationError('questionId', 'UUID');
+			}
+			const questionEntity = await this.triviaRepository.findOne({ where: { id: questionId } });
+			if (!questionEntity) {
+				throw createNotFoundError('Trivia question');
+			}
+
+			const textCounts: QuestionAnswerTextCountRow[] = await this.triviaRepository.query(
+				`WITH ${ANSWER_ROWS_CTE}
+				 SELECT answer_text AS "answerText", CAST(COUNT(*) AS INTEGER) AS "pickCount"
+				 FROM answers
+				 WHERE question_id = $1 AND answer_index >= 0 AND answer_text IS NOT NULL
+				 GROUP BY answer_text`,
+				[questionId]
+			);
+			const [summary]: QuestionAnswerSummaryRow[] = await this.triviaRepository.query(
+				`WITH ${ANSWER_ROWS_CTE}
+				 SELECT CAST(COUNT(*) AS INTEGER) AS "timesServed",
+				   CAST(COUNT(*) FILTER (WHERE answer_index >= 0) AS INTEGER) AS "answeredCount",
+				   CAST(COUNT(*) FILTER (WHERE is_correct) AS INTEGER) AS "correctCount",
+				   percentile_cont(0.5) WITHIN GROUP (ORDER BY time_spent) FILTER (WHERE answer_index >= 0) AS "medianTimeSpent"
+				 FROM answers
+				 WHERE question_id = $1`,
+				[questionId]
+			);
+			const reportCount = await this.triviaReportRepository.count({ where: { questionId } });
+			const openReportCount = await this.triviaReportRepository.count({
+				where: { questionId, status: TriviaReportStatus.OPEN },
+			});
+
+			const pickCounts = new Map(textCounts.map(({ answerText, pickCount }) => [answerText, pickCount]));
+			const timesServed = summary?.timesServed ?? 0;
+			const answeredCount = summary?.answeredCount ?? 0;
+			// Picks of answer texts the question no longer has (after an edit) are left out of the distribution
+			const answerDistribution: QuestionAnswerOptionStats[] = questionEntity.answers.map((answer, answerIndex) => {
+				const pickCount = pickCounts.get(answer.text) ?? 0;
+				return {
+					answerIndex,
+					text: answer.text,
+					isCorrect: answerIndex === questionEntity.correctAnswerIndex,
+					pickCount,
+					pickRate: toRate(pickCount, answeredCount) ?? 0,
+				};
+			});
+			const topDistractor = answerDistribution
+				.filter(option => !option.isCorrect && option.pickCount > 0)
+				.reduce<QuestionAnswerOptionStats | null>(
+					(top, option) => (top == null || option.pickCount > top.pickCount ? option : top),
+					null
+				);
+
+			return {
+				questionId: questionEntity.id,
+				question: questionEntity.question,
+				topic: questionEntity.topic,
+				difficulty: questionEntity.difficulty,
+				timesServed,
+				answeredCount,
+				correctRate: toRate(summary?.correctCount ?? 0, timesServed),
+				skipRate: toRate(timesServed - answeredCount, timesServed),
+				medianTimeSpent: summary?.medianTimeSpent ?? null,
+				reportCount,
+				openReportCount,
+				topDistractor:
+					topDistractor != null
+						? { answerIndex: topDistractor.answerIndex, text: topDistractor.text, pickRate: topDistractor.pickRate }
+						: null,
+				answerDistribution,
+			};
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.analyticsError('Failed to get question analytics detail', {
+				errorInfo: { message: getErrorMessage(error) },
+				questionId,
+			});
+			throw createServerError('get question analytics detail', error);
+		}
+	}
+
+	private toQuestionAnalytics(row: QuestionAnalyticsRow): QuestionAnalytics {
+		const { distractorText, distractorPickCount } = row;
+		const topDistractor: QuestionDistractorStats | null =
+			distractorText != null && distractorPickCount != null
+				? {
+						answerIndex: row.answers.findIndex(answer => answer.text === distractorText),
+						text: distractorText,
+						pickRate: toRate(distractorPickCount, row.answeredCount) ?? 0,
+					}
+				: null;
+
+		return {
+			questionId: row.questionId,
+			question: row.question,
+			topic: row.topic,
+			difficulty: row.difficulty,
+			timesServed: row.timesServed,
+			correctRate: toRate(row.correctCount, row.timesServed),
+			skipRate: toRate(row.timesServed - row.answeredCount, row.timesServed),
+			medianTimeSpent: row.medianTimeSpent,
+			reportCount: row.reportCount,
+			topDistractor,
+		};
+	}
+}
@@ -3,7 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { EntityManager, MoreThanOrEqual, Repository } from 'typeorm';
 
 import { RETRY_LIMITS, TIME_PERIODS_MS } from '@shared/constants';
-import { calculateScoreRate, delay, getErrorMessage, sumBy } from '@shared/utils';
+import { calculateScoreRate, delay, getErrorMessage, normalizeTopicKey, sumBy } from '@shared/utils';
 
 import { MAX_RECENT_ACTIVITY } from '@internal/constants';
 import { GameHistoryEntity, UserStatsEntity } from '@internal/entities';
@@ -414,8 +414,8 @@ export class UserStatsUpdateService {
 			return;
 		}
 		if (gameHistory.topic) {
-			const key = gameHistory.topic.trim().toLowerCase();
-			const existingKey = Object.keys(userStats.topicStats ?? {}).find(k => k.toLowerCase() === key);
+			const key = normalizeTopicKey(gameHistory.topic);
+			const existingKey = Object.keys(userStats.topicStats ?? {}).find(k => normalizeTopicKey(k) === key);
 			const existingTopicStats = existingKey ? userStats.topicStats[existingKey] : undefined;
 			const topicStats = existingTopicStats ?? {
 				totalQuestionsAnswered: 0,
@@ -467,8 +467,8 @@ export class UserStatsUpdateService {
 
 	private decrementCategoryStats(userStats: UserStatsEntity, gameHistory: GameHistoryEntity): void {
 		if (gameHistory.topic) {
-			const key = gameHistory.topic.trim().toLowerCase();
-			const existingKey = Object.keys(userStats.topicStats ?? {}).find(k => k.toLowerCase() === key);
+			const key = normalizeTopicKey(gameHistory.topic);
+			const existingKey = Object.keys(userStats.topicStats ?? {}).find(k => normalizeTopicKey(k) === key);
 			const topicStats = existingKey ? userStats.topicStats[existingKey] : undefined;
 			if (topicStats) {
 				topicStats.totalQuestionsAnswered = Math.max(
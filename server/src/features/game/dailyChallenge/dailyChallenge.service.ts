@@ -0,0 +1,129 @@
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+	CACHE_KEYS,
+	DAILY_CHALLENGE_CONFIG,
+	ERROR_MESSAGES,
+	GameMode,
+	Locale,
+	VALIDATION_COUNT,
+} from '@shared/constants';
+import { getErrorMessage, getUtcDateKey, getUtcDayBounds, isNonEmptyString, isStringArray } from '@shared/utils';
+
+import { DAILY_CHALLENGE_DIFFICULTIES, DAILY_CHALLENGE_STORAGE_TTL_SECONDS } from '@internal/constants';
+import { GameHistoryEntity, TriviaEntity } from '@internal/entities';
+import { StorageService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { DailyChallengeAttempt } from '@internal/types';
+import { addServableTriviaConditions, createServerError } from '@internal/utils';
+
+@Injectable()
+export class DailyChallengeService {
+	constructor(
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		@InjectRepository(GameHistoryEntity)
+		private readonly gameHistoryRepository: Repository<GameHistoryEntity>,
+		private readonly storageService: StorageService
+	) {}
+
+	async beginAttempt(userId: string, gameId: string, locale: Locale): Promise<DailyChallengeAttempt> {
+		const date = getUtcDateKey();
+		try {
+			if (await this.hasFinishedAttempt(userId, date)) {
+				throw new BadRequestException(ERROR_MESSAGES.game.DAILY_CHALLENGE_ALREADY_PLAYED);
+			}
+
+			const questionIds = await this.getQuestionSet(date, locale);
+			if (questionIds.length === 0) {
+				throw new BadRequestException(ERROR_MESSAGES.game.DAILY_CHALLENGE_UNAVAILABLE);
+			}
+
+			// A live session is resumed by the game service before reaching here, so any stored attempt (even for the
+			// same gameId, whose session expired after its answers were revealed) counts as already played
+			const attemptKey = CACHE_KEYS.DAILY_CHALLENGE.ATTEMPT(date, userId);
+			const claimResult = await this.storageService.setIfAbsent(
+				attemptKey,
+				gameId,
+				DAILY_CHALLENGE_STORAGE_TTL_SECONDS
+			);
+			if (!claimResult.success) {
+				throw createServerError(
+					'claim daily challenge attempt',
+					new Error(claimResult.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR)
+				);
+			}
+			if (!claimResult.data) {
+				throw new BadRequestException(ERROR_MESSAGES.game.DAILY_CHALLENGE_ALREADY_PLAYED);
+			}
+
+			logger.gameInfo('Daily challenge attempt started', {
+				userId,
+				gameId,
+				date,
+				count: questionIds.length,
+			});
+
+			return { date, questionIds };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to start daily challenge attempt', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				gameId,
+				date,
+			});
+			throw createServerError('start daily challenge attempt', error);
+		}
+	}
+
+	private async hasFinishedAttempt(userId: string, date: string): Promise<boolean> {
+		const { start, end } = getUtcDayBounds(date);
+		const count = await this.gameHistoryRepository
+			.createQueryBuilder('gh')
+			.where('gh.userId = :userId', { userId })
+			.andWhere('gh.gameMode = :gameMode', { gameMode: GameMode.DAILY_CHALLENGE })
+			.andWhere('gh.createdAt >= :start AND gh.createdAt < :end', { start, end })
+			.getCount();
+		return count > 0;
+	}
+
+	private async getQuestionSet(date: string, locale: Locale): Promise<string[]> {
+		const setKey = CACHE_KEYS.DAILY_CHALLENGE.QUESTION_SET(date, locale);
+		const storedResult = await this.storageService.get(setKey, isStringArray);
+		if (storedResult.success && storedResult.data && storedResult.data.length > 0) {
+			return storedResult.data;
+		}
+
+		// Ordering by a hash of (id, date) instead of RANDOM() keeps the pick deterministic, so concurrent
+		// first requests on different instances settle on the same set without a distributed lock.
+		const queryBuilder = this.triviaRepository
+			.createQueryBuilder('trivia')
+			.select('trivia.id', 'id')
+			.addSelect('MD5(CONCAT(trivia.id, :seed))', 'daily_rank')
+			.where('trivia.difficulty IN (:...difficulties)', { difficulties: DAILY_CHALLENGE_DIFFICULTIES })
+			.andWhere('jsonb_array_length(trivia.answers) >= :minAnswers', {
+				minAnswers: VALIDATION_COUNT.ANSWER_COUNT.MIN,
+			})
+			.andWhere(
+				"(trivia.metadata->>'language' = :outputLanguage OR (trivia.metadata->>'language' IS NULL AND :outputLanguage = :enLocale))",
+				{ outputLanguage: locale, enLocale: Locale.EN }
+			);
+		const rows = await addServableTriviaConditions(queryBuilder, 'trivia')
+			.setParameter('seed', date)
+			.orderBy('daily_rank', 'ASC')
+			.limit(DAILY_CHALLENGE_CONFIG.questionCount)
+			.getRawMany<{ id: string }>();
+
+		const questionIds = rows.map(row => row.id).filter(isNonEmptyString);
+		if (questionIds.length > 0) {
+			await this.storageService.set(setKey, questionIds, DAILY_CHALLENGE_STORAGE_TTL_SECONDS);
+		}
+
+		return questionIds;
+	}
+}
@@ -0,0 +1 @@
+export { DailyChallengeService } from './dailyChallenge.service';
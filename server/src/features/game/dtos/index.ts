@@ -4,7 +4,11 @@ export * from './finalizeGameSession.dto';
 export * from './gameHistoryQuery.dto';
 export * from './saveGameHistory.dto';
 export * from './surprisePickQuery.dto';
+export * from './topicSuggestionsQuery.dto';
 export * from './startGameSession.dto';
 export * from './submitAnswerToSession.dto';
 export * from './triviaRequest.dto';
 export * from './validateTriviaTopic.dto';
+export * from './updateQuestionPoolSettings.dto';
+export * from './reportTriviaQuestion.dto';
+export * from './topicCatalog.dto';
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+import { TriviaReportReason, VALIDATION_LENGTH } from '@shared/constants';
+
+export class ReportTriviaQuestionDto {
+	@ApiProperty({
+		description: 'Why the question is being reported',
+		enum: TriviaReportReason,
+	})
+	@IsEnum(TriviaReportReason)
+	reason!: TriviaReportReason;
+
+	@ApiPropertyOptional({
+		description: 'Optional details from the player',
+		maxLength: VALIDATION_LENGTH.REPORT_NOTE.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.REPORT_NOTE.MAX)
+	note?: string;
+}
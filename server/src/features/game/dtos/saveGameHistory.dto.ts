@@ -1,6 +1,16 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
-import { IsArray, IsEnum, IsNotEmpty, IsNumber, IsString, IsUUID, Min, ValidateNested } from 'class-validator';
+import {
+	IsArray,
+	IsEnum,
+	IsNotEmpty,
+	IsNumber,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Min,
+	ValidateNested,
+} from 'class-validator';
 
 import { DifficultyLevel, GameMode } from '@shared/constants';
 import type { AnswerHistory, GameDifficulty } from '@shared/types';
@@ -89,4 +99,13 @@ export class SaveGameHistoryDto {
 	@IsUUID()
 	@IsNotEmpty()
 	clientMutationId!: string;
+
+	@ApiPropertyOptional({
+		description:
+			'Session token returned by session/start. Required unless the session was already finalized; the score is recomputed from the server session.',
+	})
+	@IsOptional()
+	@IsString()
+	@IsNotEmpty()
+	sessionToken?: string;
 }
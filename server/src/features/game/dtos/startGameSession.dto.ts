@@ -1,7 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEnum, IsOptional, IsString, IsUUID, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, Min, MinLength } from 'class-validator';
 
-import { DEFAULT_GAME_CONFIG, DEFAULT_LANGUAGE, GameMode, Locale } from '@shared/constants';
+import { DEFAULT_GAME_CONFIG, DEFAULT_LANGUAGE, GameMode, Locale, VALIDATION_COUNT } from '@shared/constants';
 import type { GameDifficulty } from '@shared/types';
 
 export class StartGameSessionDto {
@@ -39,4 +40,16 @@ export class StartGameSessionDto {
 	@IsOptional()
 	@IsEnum(Locale)
 	outputLanguage?: Locale;
+
+	@ApiPropertyOptional({
+		description: 'Game time limit in seconds (time-limited mode only; answers after it are rejected)',
+		minimum: VALIDATION_COUNT.TIME_LIMIT.MIN,
+		maximum: VALIDATION_COUNT.TIME_LIMIT.MAX,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt()
+	@Min(VALIDATION_COUNT.TIME_LIMIT.MIN)
+	@Max(VALIDATION_COUNT.TIME_LIMIT.MAX)
+	timeLimit?: number;
 }
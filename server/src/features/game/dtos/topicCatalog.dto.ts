@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+	ArrayMaxSize,
+	IsArray,
+	IsOptional,
+	IsString,
+	IsUUID,
+	MaxLength,
+	MinLength,
+	ValidateIf,
+	ValidateNested,
+} from 'class-validator';
+
+import { VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+
+export class TopicLocalizedNamesDto {
+	@ApiPropertyOptional({ description: 'English display name', maxLength: VALIDATION_LENGTH.TOPIC.MAX })
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX)
+	en?: string;
+
+	@ApiPropertyOptional({ description: 'Hebrew display name', maxLength: VALIDATION_LENGTH.TOPIC.MAX })
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX)
+	he?: string;
+}
+
+export class UpdateCatalogTopicDto {
+	@ApiPropertyOptional({
+		description: 'Display name per locale; empty names are removed',
+		type: TopicLocalizedNamesDto,
+	})
+	@IsOptional()
+	@ValidateNested()
+	@Type(() => TopicLocalizedNamesDto)
+	names?: TopicLocalizedNamesDto;
+
+	@ApiPropertyOptional({
+		description: 'Other spellings that resolve to this topic; replaces the stored list',
+		type: [String],
+		maxItems: VALIDATION_COUNT.TOPIC_ALIASES.MAX,
+	})
+	@IsOptional()
+	@IsArray()
+	@ArrayMaxSize(VALIDATION_COUNT.TOPIC_ALIASES.MAX)
+	@IsString({ each: true })
+	@MinLength(VALIDATION_LENGTH.TOPIC.MIN, { each: true })
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX, { each: true })
+	aliases?: string[];
+
+	@ApiPropertyOptional({
+		description: 'Category the topic is grouped under; null clears it',
+		maxLength: VALIDATION_LENGTH.TOPIC.MAX,
+		nullable: true,
+	})
+	@IsOptional()
+	@ValidateIf(o => o.parentCategory !== null)
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX)
+	parentCategory?: string | null;
+}
+
+export class MergeCatalogTopicsDto {
+	@ApiProperty({
+		description: 'Topic folded into the target and removed from the catalog',
+		example: '550e8400-e29b-41d4-a716-446655440000',
+	})
+	@IsUUID()
+	sourceId!: string;
+
+	@ApiProperty({
+		description: 'Topic that stays in the catalog and takes over the source topic games, questions and stats',
+		example: '550e8400-e29b-41d4-a716-446655440001',
+	})
+	@IsUUID()
+	targetId!: string;
+}
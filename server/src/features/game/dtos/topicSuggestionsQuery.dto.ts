@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEnum, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+import { Locale, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+import { parseOptionalQueryInt } from '@shared/utils';
+
+export class TopicSuggestionsQueryDto {
+	@ApiPropertyOptional({
+		description: 'Text typed so far; empty returns the best topics without filtering',
+		maxLength: VALIDATION_LENGTH.TOPIC.MAX,
+	})
+	@IsOptional()
+	@IsString()
+	@MaxLength(VALIDATION_LENGTH.TOPIC.MAX, {
+		message: `Query cannot exceed ${VALIDATION_LENGTH.TOPIC.MAX} characters`,
+	})
+	query?: string;
+
+	@ApiPropertyOptional({
+		description: 'Locale the game will be played in',
+		enum: Locale,
+	})
+	@IsOptional()
+	@IsEnum(Locale, { message: 'locale must be a supported locale (en or he)' })
+	locale?: Locale;
+
+	@ApiPropertyOptional({
+		description: 'Maximum number of suggestions to return',
+		minimum: VALIDATION_COUNT.TOPIC_SUGGESTIONS.MIN,
+		maximum: VALIDATION_COUNT.TOPIC_SUGGESTIONS.MAX,
+		default: VALIDATION_COUNT.TOPIC_SUGGESTIONS.DEFAULT,
+	})
+	@IsOptional()
+	@Transform(({ value }) => parseOptionalQueryInt(value))
+	@IsNumber({}, { message: 'Limit must be a number' })
+	@Min(VALIDATION_COUNT.TOPIC_SUGGESTIONS.MIN, {
+		message: `Limit must be at least ${VALIDATION_COUNT.TOPIC_SUGGESTIONS.MIN}`,
+	})
+	@Max(VALIDATION_COUNT.TOPIC_SUGGESTIONS.MAX, {
+		message: `Limit cannot exceed ${VALIDATION_COUNT.TOPIC_SUGGESTIONS.MAX}`,
+	})
+	limit?: number;
+}
@@ -1,7 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min, MinLength, ValidateIf } from 'class-validator';
 
-import { Locale, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+import { GameMode, Locale, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
 import type { GameDifficulty } from '@shared/types';
 
 import { IsGameDifficulty } from '@common/decorators';
@@ -56,4 +56,13 @@ export class TriviaRequestDto {
 	@IsString()
 	@IsEnum(Locale)
 	outputLanguage!: Locale;
+
+	@ApiPropertyOptional({
+		description:
+			'Optional game mode of the session. For daily-challenge the server returns the pinned daily questions and ignores topic and difficulty.',
+		enum: GameMode,
+	})
+	@IsOptional()
+	@IsEnum(GameMode)
+	gameMode?: GameMode;
 }
@@ -0,0 +1,46 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+import { VALIDATION_COUNT } from '@shared/constants';
+
+const { MIN_READY, POPULAR_TOPICS, GENERATION_CALLS_PER_RUN } = VALIDATION_COUNT.QUESTION_POOL;
+
+export class UpdateQuestionPoolSettingsDto {
+	@ApiPropertyOptional({ description: 'Whether the scheduled pool warmer runs' })
+	@IsOptional()
+	@IsBoolean()
+	enabled?: boolean;
+
+	@ApiPropertyOptional({
+		description: 'Unseen questions to keep ready per topic, difficulty and locale',
+		minimum: MIN_READY.MIN,
+		maximum: MIN_READY.MAX,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(MIN_READY.MIN)
+	@Max(MIN_READY.MAX)
+	minReadyPerCombination?: number;
+
+	@ApiPropertyOptional({
+		description: 'How many of the most played topics are warmed in addition to the preset topics',
+		minimum: POPULAR_TOPICS.MIN,
+		maximum: POPULAR_TOPICS.MAX,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(POPULAR_TOPICS.MIN)
+	@Max(POPULAR_TOPICS.MAX)
+	popularTopicLimit?: number;
+
+	@ApiPropertyOptional({
+		description: 'Upper bound on provider batch calls per warmer run',
+		minimum: GENERATION_CALLS_PER_RUN.MIN,
+		maximum: GENERATION_CALLS_PER_RUN.MAX,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(GENERATION_CALLS_PER_RUN.MIN)
+	@Max(GENERATION_CALLS_PER_RUN.MAX)
+	maxGenerationCallsPerRun?: number;
+}
@@ -1,16 +1,28 @@
-import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Query } from '@nestjs/common';
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Query, Res } from '@nestjs/common';
+import type { Response } from 'express';
 
 import {
 	API_ENDPOINTS,
 	DEFAULT_LANGUAGE,
+	ERROR_MESSAGES,
 	ErrorCode,
 	SURPRISE_SCOPE_DEFAULT,
 	TIME_DURATIONS_SECONDS,
+	TriviaStreamEventType,
 } from '@shared/constants';
-import type { GameData } from '@shared/types';
-import { calculateDuration, getErrorMessage } from '@shared/utils';
-
-import { Cache, CurrentUserId, NoCache } from '@common/decorators';
+import type {
+	GameData,
+	ReportTriviaQuestionResponse,
+	SessionTriviaQuestion,
+	SessionTriviaResponse,
+	TriviaStreamDoneEvent,
+	TriviaStreamErrorEvent,
+	TriviaStreamProgressEvent,
+	TriviaStreamQuestionEvent,
+} from '@shared/types';
+import { calculateDuration, getErrorMessage, toSessionTriviaQuestion } from '@shared/utils';
+
+import { Cache, CurrentUserId, NoCache, SkipResponseFormatter } from '@common/decorators';
 import { CustomDifficultyPipe, StartGameSessionPipe, TriviaRequestPipe } from '@common/pipes';
 import { LanguageToolService } from '@common/validation';
 import { serverLogger as logger } from '@internal/services';
@@ -18,27 +30,33 @@ import { serverLogger as logger } from '@internal/services';
 import {
 	FinalizeGameSessionDto,
 	GameHistoryQueryDto,
+	ReportTriviaQuestionDto,
 	SaveGameHistoryDto,
 	StartGameSessionDto,
 	SubmitAnswerToSessionDto,
 	SurprisePickQueryDto,
+	TopicSuggestionsQueryDto,
 	TriviaRequestDto,
 	ValidateCustomDifficultyDto,
 	ValidateTextDto,
 	ValidateTriviaTopicDto,
 } from './dtos';
 import { GameService } from './game.service';
+import { TopicSuggestionService } from './topicSuggestions';
+import { TriviaReportService } from './triviaReports';
 
 @Controller(API_ENDPOINTS.GAME.BASE)
 export class GameController {
 	constructor(
 		private readonly gameService: GameService,
+		private readonly triviaReportService: TriviaReportService,
+		private readonly topicSuggestionService: TopicSuggestionService,
 		private readonly languageToolService: LanguageToolService
 	) {}
 
 	@Get('trivia/:id')
 	@Cache(TIME_DURATIONS_SECONDS.HOUR)
-	async getQuestionById(@Param('id') id: string) {
+	async getQuestionById(@Param('id') id: string): Promise<SessionTriviaQuestion> {
 		try {
 			const result = await this.gameService.getQuestionById(id);
 
@@ -46,7 +64,7 @@ export class GameController {
 				questionId: id,
 			});
 
-			return result;
+			return toSessionTriviaQuestion(result);
 		} catch (error) {
 			logger.gameError('Error getting question by ID', {
 				errorInfo: { message: getErrorMessage(error) },
@@ -56,6 +74,33 @@ export class GameController {
 		}
 	}
 
+	@Post('trivia/:id/report')
+	@NoCache()
+	async reportQuestion(
+		@CurrentUserId() userId: string,
+		@Param('id') id: string,
+		@Body() body: ReportTriviaQuestionDto
+	): Promise<ReportTriviaQuestionResponse> {
+		try {
+			const result = await this.triviaReportService.reportQuestion(userId, id, body.reason, body.note);
+
+			logger.apiCreate('game_question_report', {
+				userId,
+				questionId: id,
+				reason: body.reason,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Error reporting question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				questionId: id,
+			});
+			throw error;
+		}
+	}
+
 	@Post('session/start')
 	@NoCache()
 	async startGameSession(@CurrentUserId() userId: string, @Body(StartGameSessionPipe) body: StartGameSessionDto) {
@@ -65,7 +110,9 @@ export class GameController {
 				body.gameId,
 				body.topic,
 				body.difficulty,
-				body.gameMode
+				body.gameMode,
+				body.outputLanguage,
+				body.timeLimit
 			);
 
 			logger.apiCreate('game_session_start', {
@@ -137,6 +184,25 @@ export class GameController {
 		}
 	}
 
+	@Get('topic-suggestions')
+	@NoCache()
+	async getTopicSuggestions(@CurrentUserId() userId: string, @Query() query: TopicSuggestionsQueryDto) {
+		try {
+			const result = await this.topicSuggestionService.getSuggestions(userId, query.query, query.locale, query.limit);
+			logger.apiRead('game_topic_suggestions', {
+				query: result.query,
+				language: result.locale,
+				count: result.suggestions.length,
+			});
+			return result;
+		} catch (error) {
+			logger.gameError('Error getting topic suggestions', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw error;
+		}
+	}
+
 	@Get('validate-session/:gameId')
 	@NoCache()
 	async validateSession(@CurrentUserId() userId: string, @Param('gameId') gameId: string) {
@@ -184,7 +250,10 @@ export class GameController {
 
 	@Post('trivia')
 	@NoCache()
-	async getTriviaQuestions(@CurrentUserId() userId: string, @Body(TriviaRequestPipe) body: TriviaRequestDto) {
+	async getTriviaQuestions(
+		@CurrentUserId() userId: string,
+		@Body(TriviaRequestPipe) body: TriviaRequestDto
+	): Promise<SessionTriviaResponse> {
 		try {
 			const result = await this.gameService.getTriviaQuestion({
 				topic: body.topic,
@@ -194,6 +263,7 @@ export class GameController {
 				answerCount: body.answerCount,
 				gameId: body.gameId,
 				outputLanguage: body.outputLanguage,
+				gameMode: body.gameMode,
 			});
 
 			logger.apiCreate('game_trivia_questions', {
@@ -203,7 +273,11 @@ export class GameController {
 				questionsPerRequest: body.questionsPerRequest,
 			});
 
-			return result;
+			// Correct answers are revealed per question by session/answer; see GameService.submitAnswerToSession
+			return {
+				questions: result.questions.map(toSessionTriviaQuestion),
+				fromCache: result.fromCache,
+			};
 		} catch (error) {
 			logger.gameError('Error getting trivia questions', {
 				errorInfo: { message: getErrorMessage(error) },
@@ -215,6 +289,95 @@ export class GameController {
 		}
 	}
 
+	@Post('trivia/stream')
+	@NoCache()
+	@SkipResponseFormatter()
+	async streamTriviaQuestions(
+		@CurrentUserId() userId: string,
+		@Body(TriviaRequestPipe) body: TriviaRequestDto,
+		@Res() res: Response
+	): Promise<void> {
+		// Headers are flushed before generation starts, so failures past this point travel as error events
+		res.status(HttpStatus.OK);
+		res.setHeader('Content-Type', 'text/event-stream');
+		res.setHeader('Cache-Control', 'no-cache, no-transform');
+		res.setHeader('Connection', 'keep-alive');
+		res.setHeader('X-Accel-Buffering', 'no');
+		res.flushHeaders();
+
+		const abortController = new AbortController();
+		res.on('close', () => {
+			if (!res.writableEnded) {
+				abortController.abort();
+			}
+		});
+
+		const writeEvent = (
+			type: TriviaStreamEventType,
+			data: TriviaStreamQuestionEvent | TriviaStreamProgressEvent | TriviaStreamErrorEvent | TriviaStreamDoneEvent
+		) => {
+			if (!res.writableEnded && !abortController.signal.aborted) {
+				res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+			}
+		};
+
+		let delivered = 0;
+		try {
+			await this.gameService.getTriviaQuestion(
+				{
+					topic: body.topic,
+					difficulty: body.difficulty,
+					questionsPerRequest: body.questionsPerRequest,
+					userId,
+					answerCount: body.answerCount,
+					gameId: body.gameId,
+					outputLanguage: body.outputLanguage,
+					gameMode: body.gameMode,
+				},
+				{
+					signal: abortController.signal,
+					onQuestions: (questions, source) => {
+						for (const question of questions) {
+							writeEvent(TriviaStreamEventType.QUESTION, {
+								question: toSessionTriviaQuestion(question),
+								source,
+								index: delivered,
+							});
+							delivered++;
+						}
+					},
+					onProgress: progress => writeEvent(TriviaStreamEventType.PROGRESS, progress),
+				}
+			);
+
+			logger.apiCreate('game_trivia_questions_stream', {
+				userId,
+				topic: body.topic,
+				difficulty: body.difficulty,
+				questionsPerRequest: body.questionsPerRequest,
+				actualCount: delivered,
+			});
+
+			writeEvent(TriviaStreamEventType.DONE, { delivered });
+		} catch (error) {
+			logger.gameError('Error streaming trivia questions', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				topic: body.topic,
+				difficulty: body.difficulty,
+				actualCount: delivered,
+			});
+			// Only HTTP errors carry client-facing text; anything else keeps its detail in the log above
+			const isHttpError = error instanceof HttpException;
+			writeEvent(TriviaStreamEventType.ERROR, {
+				message: isHttpError ? getErrorMessage(error) : ERROR_MESSAGES.general.REQUEST_FAILED,
+				statusCode: isHttpError ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+			});
+		} finally {
+			res.end();
+		}
+	}
+
 	@Get('history')
 	async getGameHistory(@CurrentUserId() userId: string, @Query() query: GameHistoryQueryDto) {
 		const startTime = Date.now();
@@ -277,9 +440,10 @@ export class GameController {
 				clientMutationId: body.clientMutationId,
 			};
 
-			const result = await this.gameService.saveGameHistory({
+			const result = await this.gameService.saveClientGameHistory({
 				userId,
 				gameData,
+				sessionToken: body.sessionToken,
 			});
 
 			logger.apiCreate('game_history_save', {
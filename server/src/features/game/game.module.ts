@@ -3,21 +3,43 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { CustomDifficultyPipe, StartGameSessionPipe, TriviaRequestPipe } from '@common/pipes';
 import { ValidationModule } from '@common/validation';
-import { GameHistoryEntity, TriviaEntity, UserEntity, UserStatsEntity } from '@internal/entities';
+import {
+	AppSettingEntity,
+	GameHistoryEntity,
+	TopicEntity,
+	TriviaEntity,
+	TriviaReportEntity,
+	UserEntity,
+	UserStatsEntity,
+} from '@internal/entities';
 import { CacheModule, StorageModule } from '@internal/modules';
 
 import { AnalyticsModule } from '../analytics';
 import { AuthModule } from '../auth';
 import { UserModule } from '../user';
+import { DailyChallengeService } from './dailyChallenge';
 import { GameController } from './game.controller';
 import { GameService } from './game.service';
+import { QuestionCalibrationController, QuestionCalibrationService } from './questionCalibration';
+import { QuestionPoolController, QuestionPoolService } from './questionPool';
+import { TopicCatalogController, TopicCatalogService } from './topicCatalog';
+import { TopicSuggestionService } from './topicSuggestions';
 import { AiProvidersController } from './triviaGeneration/aiProviders.controller';
 import { TopicDifficultyGateService } from './triviaGeneration/topicDifficultyGate.service';
 import { TriviaGenerationService } from './triviaGeneration/triviaGeneration.service';
+import { TriviaReportService } from './triviaReports';
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([UserEntity, UserStatsEntity, GameHistoryEntity, TriviaEntity]),
+		TypeOrmModule.forFeature([
+			UserEntity,
+			UserStatsEntity,
+			GameHistoryEntity,
+			TopicEntity,
+			TriviaEntity,
+			TriviaReportEntity,
+			AppSettingEntity,
+		]),
 		forwardRef(() => AnalyticsModule),
 		AuthModule,
 		CacheModule,
@@ -25,15 +47,27 @@ import { TriviaGenerationService } from './triviaGeneration/triviaGeneration.ser
 		UserModule,
 		ValidationModule,
 	],
-	controllers: [GameController, AiProvidersController],
+	controllers: [
+		GameController,
+		AiProvidersController,
+		QuestionPoolController,
+		QuestionCalibrationController,
+		TopicCatalogController,
+	],
 	providers: [
 		GameService,
+		DailyChallengeService,
+		QuestionPoolService,
+		QuestionCalibrationService,
+		TopicCatalogService,
+		TopicSuggestionService,
 		TriviaGenerationService,
 		TopicDifficultyGateService,
+		TriviaReportService,
 		CustomDifficultyPipe,
 		TriviaRequestPipe,
 		StartGameSessionPipe,
 	],
-	exports: [GameService],
+	exports: [GameService, QuestionPoolService, QuestionCalibrationService, TopicCatalogService],
 })
 export class GameModule {}
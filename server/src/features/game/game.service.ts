@@ -1,14 +1,22 @@
-import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import {
+	BadRequestException,
+	ForbiddenException,
+	HttpException,
+	Injectable,
+	InternalServerErrorException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { In, Repository } from 'typeorm';
 
 import {
 	CACHE_KEYS,
+	DAILY_CHALLENGE_CONFIG,
 	DEFAULT_GAME_CONFIG,
 	DEFAULT_LANGUAGE,
 	DifficultyLevel,
 	ERROR_MESSAGES,
 	ErrorCode,
+	GAME_MODES_CONFIG,
 	GameMode,
 	HTTP_TIMEOUTS,
 	Locale,
@@ -17,6 +25,8 @@ import {
 	SURPRISE_SCOPE_DEFAULT,
 	SurpriseScope,
 	TIME_DURATIONS_SECONDS,
+	TIME_PERIODS_MS,
+	TriviaQuestionSource,
 	VALIDATION_COUNT,
 	VALIDATION_LENGTH,
 } from '@shared/constants';
@@ -41,7 +51,7 @@ import {
 	createAnswerHistory,
 	delay,
 	getErrorMessage,
-	isAnswerCorrect,
+	getQuestionExplanation,
 	isNonEmptyString,
 	isStringArray,
 	normalizeGameData,
@@ -59,23 +69,41 @@ import {
 	VALIDATORS,
 } from '@shared/validation';
 
+import { AppConfig } from '@config';
 import { GameTextLanguageGateService, restoreGameDifficulty } from '@common/validation';
-import { GAME_STATUSES, GameStatus } from '@internal/constants';
+import {
+	GAME_STATUSES,
+	GameStatus,
+	QUESTION_SIMILARITY_DEFAULTS,
+	TRIVIA_BATCH_GENERATION_DEFAULTS,
+} from '@internal/constants';
 import { GameHistoryEntity, TriviaEntity, UserEntity } from '@internal/entities';
 import { CacheService, StorageService } from '@internal/modules';
 import { serverLogger as logger } from '@internal/services';
 import type {
 	DeleteGameHistoryParams,
+	GameSessionQuestionSnapshot,
 	GetTriviaQuestionParams,
 	PromptParams,
+	SaveClientGameHistoryParams,
 	SaveGameHistoryParams,
 	ServerGameSessionState,
 	SubmitAnswerParams,
+	TriviaQuestionStreamHandlers,
 	UserGameHistoryParams,
 } from '@internal/types';
-import { createNotFoundError, createServerError, isGameSessionState } from '@internal/utils';
+import {
+	createNotFoundError,
+	createServerError,
+	hasSimilarText,
+	isGameSessionState,
+	signGameSessionToken,
+	verifyGameSessionToken,
+} from '@internal/utils';
 
 import { UserStatsUpdateService } from '../analytics/services';
+import { DailyChallengeService } from './dailyChallenge';
+import { TopicCatalogService } from './topicCatalog';
 import { TopicDifficultyGateService, TriviaGenerationService } from './triviaGeneration';
 
 @Injectable()
@@ -92,7 +120,9 @@ export class GameService {
 		private readonly triviaGenerationService: TriviaGenerationService,
 		private readonly topicDifficultyGateService: TopicDifficultyGateService,
 		private readonly gameTextLanguageGateService: GameTextLanguageGateService,
-		private readonly userStatsUpdateService: UserStatsUpdateService
+		private readonly userStatsUpdateService: UserStatsUpdateService,
+		private readonly dailyChallengeService: DailyChallengeService,
+		private readonly topicCatalogService: TopicCatalogService
 	) {}
 
 	private triviaEntityToTriviaQuestion(questionEntity: TriviaEntity): TriviaQuestion {
@@ -188,7 +218,62 @@ export class GameService {
 		}
 	}
 
-	async getTriviaQuestion(params: GetTriviaQuestionParams) {
+	// Stores answer snapshots and session exclude texts for questions handed to a single-player session
+	private async recordDeliveredQuestions(
+		userId: string | undefined,
+		gameId: string | undefined,
+		questions: TriviaQuestion[]
+	): Promise<void> {
+		if (userId && gameId && isNonEmptyString(gameId) && isUuid(gameId) && questions.length > 0) {
+			const sessionKey = CACHE_KEYS.GAME.SESSION(userId, gameId);
+			const sessionResult = await this.storageService.get(sessionKey);
+			if (sessionResult.success && sessionResult.data && isGameSessionState(sessionResult.data)) {
+				const session = sessionResult.data;
+				let sessionDirty = false;
+
+				const deliveredAt = new Date().toISOString();
+				const newSnapshots: Record<string, GameSessionQuestionSnapshot> = {};
+				for (const q of questions) {
+					if (q?.id && VALIDATORS.number(q.correctAnswerIndex)) {
+						newSnapshots[q.id] = {
+							correctAnswerIndex: q.correctAnswerIndex,
+							deliveredAt,
+							answerTexts: q.answers.map(a => a.text),
+						};
+					}
+				}
+				if (Object.keys(newSnapshots).length > 0) {
+					session.questionSnapshots = { ...(session.questionSnapshots ?? {}), ...newSnapshots };
+					sessionDirty = true;
+				}
+
+				const newTextsForSession = questions
+					.map(q => (isNonEmptyString(q?.question) ? q.question.trim().toLowerCase() : ''))
+					.filter((t): t is string => t.length > 0);
+				if (newTextsForSession.length > 0) {
+					const prevTexts = session.sessionExcludeQuestionTexts ?? [];
+					const combined = [...prevTexts, ...newTextsForSession];
+					const deduped: string[] = [];
+					const seenText = new Set<string>();
+					for (const t of combined) {
+						if (!seenText.has(t)) {
+							seenText.add(t);
+							deduped.push(t);
+						}
+					}
+					session.sessionExcludeQuestionTexts = deduped.slice(-VALIDATION_LENGTH.STRING_TRUNCATION.LONG_PREVIEW);
+					sessionDirty = true;
+				}
+
+				if (sessionDirty) {
+					session.lastHeartbeat = new Date().toISOString();
+					await this.storageService.set(sessionKey, session, TIME_DURATIONS_SECONDS.HOUR);
+				}
+			}
+		}
+	}
+
+	async getTriviaQuestion(params: GetTriviaQuestionParams, stream?: TriviaQuestionStreamHandlers) {
 		const {
 			topic,
 			difficulty,
@@ -197,6 +282,7 @@ export class GameService {
 			answerCount = VALIDATION_COUNT.ANSWER_COUNT.DEFAULT,
 			gameId,
 			outputLanguage,
+			gameMode,
 		} = params;
 		// Note: questionsPerRequest is already validated and converted by TriviaRequestPipe
 		// For unlimited mode (-1), we request questions in batches to allow continuous gameplay
@@ -232,6 +318,13 @@ export class GameService {
 		let totalGeneratedTimeouts = 0;
 
 		try {
+			// Daily challenge questions are pinned at session start; never generate or pick per user
+			if (gameMode === GameMode.DAILY_CHALLENGE) {
+				const dailyResult = await this.getDailyChallengeQuestions(userId, gameId);
+				stream?.onQuestions(dailyResult.questions, TriviaQuestionSource.POOL);
+				return dailyResult;
+			}
+
 			// Get user's seen questions if userId is provided
 			const userSeenStartMs = Date.now();
 			const userSeenQuestions = userId ? await this.getUserSeenQuestions(userId) : new Set<string>();
@@ -265,6 +358,19 @@ export class GameService {
 			}
 			const excludeQuestionTexts = Array.from(mergedExcludeTexts);
 
+			// Recent questions on this topic plus this session's questions are also matched by similarity, so
+			// rephrasings of something the player just saw are skipped too; the full seen set stays exact-match only
+			const recentStartMs = Date.now();
+			const recentTopicQuestions = userId
+				? await this.getUserRecentQuestionsForTopic(
+						userId,
+						topic,
+						QUESTION_SIMILARITY_DEFAULTS.recentTopicQuestionLimit
+					)
+				: [];
+			stageRecentMs = Date.now() - recentStartMs;
+			const similarExcludeTexts = Array.from(new Set([...recentTopicQuestions, ...sessionExcludeQuestionTexts]));
+
 			const locale = isLocale(outputLanguage) ? outputLanguage : Locale.EN;
 
 			// Check if questions exist in database for this topic, difficulty, and language
@@ -286,13 +392,15 @@ export class GameService {
 					normalizedQuestionsPerRequest * 2,
 					excludeQuestionTexts,
 					[],
-					locale
+					locale,
+					similarExcludeTexts
 				);
 				stageGetAvailableMs = Date.now() - getAvailableStartMs;
 			}
 
 			const questions: TriviaQuestion[] = [];
 			const excludeQuestionsSet = new Set<string>(excludeQuestionTexts.map(q => q.toLowerCase().trim()));
+			const similarExcludeList = [...similarExcludeTexts];
 			// All duplicate prevention happens here on the server—LLM prompts never manage exclusion lists.
 			const appendExcludeQuestion = (value: string) => {
 				const trimmed = value.trim();
@@ -302,6 +410,27 @@ export class GameService {
 
 				const normalized = trimmed.toLowerCase();
 				excludeQuestionsSet.add(normalized);
+				similarExcludeList.push(normalized);
+			};
+			const isDuplicateQuestion = (value: string) => {
+				const normalized = value.toLowerCase().trim();
+				return (
+					excludeQuestionsSet.has(normalized) ||
+					hasSimilarText(normalized, similarExcludeList, QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold)
+				);
+			};
+			// Streamed questions must be answerable as soon as the client has them, so each batch is recorded first
+			const publishQuestions = async (batch: TriviaQuestion[], source: TriviaQuestionSource) => {
+				if (!stream || batch.length === 0) {
+					return;
+				}
+				await this.recordDeliveredQuestions(userId, gameId, batch);
+				stream.onQuestions(batch, source);
+				stream.onProgress({
+					delivered: questions.length,
+					requested: normalizedQuestionsPerRequest,
+					generating: questions.length < normalizedQuestionsPerRequest,
+				});
 			};
 			const generationTimeout = HTTP_TIMEOUTS.QUESTION_GENERATION;
 			const maxRetries = RETRY_LIMITS.questionGeneration;
@@ -319,6 +448,10 @@ export class GameService {
 				if (questions.length >= normalizedQuestionsPerRequest) {
 					break;
 				}
+				// Two stored rephrasings of the same fact can both pass the SQL filter; hand out only one of them
+				if (isDuplicateQuestion(questionEntity.question)) {
+					continue;
+				}
 
 				// Restore GameDifficulty from entity (DifficultyLevel) and metadata if available
 				const restoredDifficulty = restoreGameDifficulty(
@@ -369,10 +502,11 @@ export class GameService {
 
 				appendExcludeQuestion(questionEntity.question);
 			}
+			await publishQuestions([...questions], TriviaQuestionSource.POOL);
 
 			// Generate new questions if we don't have enough
 			const remainingCount = normalizedQuestionsPerRequest - questions.length;
-			if (remainingCount > 0) {
+			if (remainingCount > 0 && !stream?.signal?.aborted) {
 				const gateStartMs = Date.now();
 				await this.topicDifficultyGateService.enforceTopicDifficultyGate({
 					topic,
@@ -380,29 +514,124 @@ export class GameService {
 					outputLanguage: locale,
 				});
 				stageGateMs = Date.now() - gateStartMs;
-				// Get recent questions from same topic across all difficulty levels to help LLM avoid duplicates (once per batch)
-				// Limit to 50 questions to avoid overwhelming the prompt (each question ~50-100 chars = ~10-20 tokens)
-				const recentStartMs = Date.now();
-				const baseRecentQuestions = userId ? await this.getUserRecentQuestionsForTopic(userId, topic, 50) : [];
-				stageRecentMs = Date.now() - recentStartMs;
+				// Recent questions from same topic across all difficulty levels help the LLM avoid duplicates (once per batch)
+				// Limited to 50 questions to avoid overwhelming the prompt (each question ~50-100 chars = ~10-20 tokens)
+				const baseRecentQuestions = recentTopicQuestions;
 				// Track questions generated in this batch to include in exclude list for subsequent generations
 				const batchGeneratedQuestions: string[] = [];
+				// Combine base recent questions with questions generated in this batch
+				const buildExcludeQuestions = () =>
+					[...baseRecentQuestions, ...batchGeneratedQuestions, ...Array.from(excludeQuestionsSet)]
+						.slice(0, VALIDATION_COUNT.QUESTIONS.MAX)
+						.filter((q, idx, arr) => arr.indexOf(q) === idx); // Remove duplicates
+				const toGeneratedQuestion = (generationResult: TriviaEntity): TriviaQuestion => {
+					// Restore GameDifficulty from entity (DifficultyLevel) and metadata if available
+					const restoredDifficulty = restoreGameDifficulty(
+						generationResult.difficulty,
+						generationResult.metadata?.difficulty
+					);
+
+					const {
+						userId: _userId,
+						user: _user,
+						isCorrect: _isCorrect,
+						difficulty: _difficulty,
+						...rest
+					} = generationResult;
+					return {
+						...rest,
+						difficulty: restoredDifficulty,
+					};
+				};
 
+				stream?.onProgress({
+					delivered: questions.length,
+					requested: normalizedQuestionsPerRequest,
+					generating: true,
+				});
 				const generationStartMs = Date.now();
-				for (let i = 0; i < remainingCount; i++) {
+
+				// Ask for whole chunks in one call first; whatever the batches could not deliver falls back to
+				// single generation with its own retries below
+				let batchDeliveredCount = 0;
+				while (
+					remainingCount - batchDeliveredCount >= TRIVIA_BATCH_GENERATION_DEFAULTS.minQuestionsPerCall &&
+					!stream?.signal?.aborted
+				) {
+					// A streaming client with nothing to show yet gets the smallest chunk first so the game can start
+					const maxChunkSize =
+						stream && questions.length === 0
+							? TRIVIA_BATCH_GENERATION_DEFAULTS.minQuestionsPerCall
+							: TRIVIA_BATCH_GENERATION_DEFAULTS.maxQuestionsPerCall;
+					const chunkSize = Math.min(remainingCount - batchDeliveredCount, maxChunkSize);
+					const excludeQuestions = buildExcludeQuestions();
+					const batchPromptParams: PromptParams = {
+						topic,
+						difficulty,
+						answerCount: answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT,
+						excludeQuestions: excludeQuestions.length > 0 ? excludeQuestions : undefined,
+						outputLanguageLabel: OUTPUT_LANGUAGE_LABELS[locale],
+						outputLanguage: locale,
+					};
+					const batchAbortController = new AbortController();
+					const batchTimeoutId = setTimeout(() => {
+						batchAbortController.abort();
+					}, generationTimeout);
+
+					let batchResults: TriviaEntity[];
+					try {
+						batchResults = await this.triviaGenerationService.generateQuestionBatch(
+							batchPromptParams,
+							chunkSize,
+							userId,
+							{ signal: batchAbortController.signal }
+						);
+					} catch (error) {
+						if (error instanceof BadRequestException) {
+							throw error;
+						}
+						if (batchAbortController.signal.aborted) {
+							totalGeneratedTimeouts += 1;
+						}
+						logger.gameError('Batch question generation failed, falling back to single generation', {
+							errorInfo: { message: getErrorMessage(error) },
+							topic,
+							difficulty,
+							count: chunkSize,
+						});
+						break;
+					} finally {
+						clearTimeout(batchTimeoutId);
+					}
+
+					const acceptedQuestions: TriviaQuestion[] = [];
+					for (const generationResult of batchResults) {
+						if (acceptedQuestions.length >= chunkSize || isDuplicateQuestion(generationResult.question)) {
+							continue;
+						}
+						appendExcludeQuestion(generationResult.question);
+						batchGeneratedQuestions.push(generationResult.question);
+						acceptedQuestions.push(toGeneratedQuestion(generationResult));
+					}
+					questions.push(...acceptedQuestions);
+					await publishQuestions(acceptedQuestions, TriviaQuestionSource.GENERATED);
+					const acceptedCount = acceptedQuestions.length;
+					batchDeliveredCount += acceptedCount;
+
+					// A short batch means the model is running out of fresh questions; single calls take it from here
+					if (acceptedCount < chunkSize) {
+						break;
+					}
+				}
+
+				const singleGenerationCount = remainingCount - batchDeliveredCount;
+				for (let i = 0; i < singleGenerationCount && !stream?.signal?.aborted; i++) {
 					let question: TriviaQuestion | null = null;
 					let retries = 0;
 
 					while (retries < maxRetries && !question) {
 						try {
-							// Combine base recent questions with questions generated in this batch
-							const excludeQuestions = [
-								...baseRecentQuestions,
-								...batchGeneratedQuestions,
-								...Array.from(excludeQuestionsSet),
-							]
-								.slice(0, VALIDATION_COUNT.QUESTIONS.MAX)
-								.filter((q, idx, arr) => arr.indexOf(q) === idx); // Remove duplicates
+							const excludeQuestions = buildExcludeQuestions();
 
 							const promptParams: PromptParams = {
 								topic,
@@ -437,10 +666,8 @@ export class GameService {
 								clearTimeout(timeoutId);
 							}
 
-							const questionText = generationResult.question.toLowerCase().trim();
-
-							// Check if this question is a duplicate in the current batch or already seen by user
-							if (excludeQuestionsSet.has(questionText)) {
+							// Check if this question repeats or rephrases one in the current batch or already seen by user
+							if (isDuplicateQuestion(generationResult.question)) {
 								logger.gameError('Generated duplicate question, retrying', {
 									topic,
 									difficulty,
@@ -451,23 +678,7 @@ export class GameService {
 								continue;
 							}
 
-							// Restore GameDifficulty from entity (DifficultyLevel) and metadata if available
-							const restoredDifficulty = restoreGameDifficulty(
-								generationResult.difficulty,
-								generationResult.metadata?.difficulty
-							);
-
-							const {
-								userId: _userId,
-								user: _user,
-								isCorrect: _isCorrect,
-								difficulty: _difficulty,
-								...rest
-							} = generationResult;
-							question = {
-								...rest,
-								difficulty: restoredDifficulty,
-							};
+							question = toGeneratedQuestion(generationResult);
 
 							appendExcludeQuestion(generationResult.question);
 							batchGeneratedQuestions.push(generationResult.question);
@@ -488,7 +699,9 @@ export class GameService {
 						}
 					}
 
-					if (!question) {
+					if (question) {
+						await publishQuestions([question], TriviaQuestionSource.GENERATED);
+					} else {
 						logger.gameError('Failed to generate question after max retries', {
 							topic,
 							difficulty,
@@ -496,7 +709,7 @@ export class GameService {
 							maxRetries,
 						});
 					}
-					if (i < remainingCount - 1) {
+					if (i < singleGenerationCount - 1) {
 						if (delayBetweenQuestionsMs > 0) {
 							await delay(delayBetweenQuestionsMs);
 						}
@@ -518,48 +731,9 @@ export class GameService {
 				});
 			}
 
-			// Store question snapshots and session exclude texts when gameId and userId provided
-			if (userId && gameId && isNonEmptyString(gameId) && isUuid(gameId) && questions.length > 0) {
-				const sessionKey = CACHE_KEYS.GAME.SESSION(userId, gameId);
-				const sessionResult = await this.storageService.get(sessionKey);
-				if (sessionResult.success && sessionResult.data && isGameSessionState(sessionResult.data)) {
-					const session = sessionResult.data;
-					let sessionDirty = false;
-
-					const newSnapshots: Record<string, { correctAnswerIndex: number }> = {};
-					for (const q of questions) {
-						if (q?.id && VALIDATORS.number(q.correctAnswerIndex)) {
-							newSnapshots[q.id] = { correctAnswerIndex: q.correctAnswerIndex };
-						}
-					}
-					if (Object.keys(newSnapshots).length > 0) {
-						session.questionSnapshots = { ...(session.questionSnapshots ?? {}), ...newSnapshots };
-						sessionDirty = true;
-					}
-
-					const newTextsForSession = questions
-						.map(q => (isNonEmptyString(q?.question) ? q.question.trim().toLowerCase() : ''))
-						.filter((t): t is string => t.length > 0);
-					if (newTextsForSession.length > 0) {
-						const prevTexts = session.sessionExcludeQuestionTexts ?? [];
-						const combined = [...prevTexts, ...newTextsForSession];
-						const deduped: string[] = [];
-						const seenText = new Set<string>();
-						for (const t of combined) {
-							if (!seenText.has(t)) {
-								seenText.add(t);
-								deduped.push(t);
-							}
-						}
-						session.sessionExcludeQuestionTexts = deduped.slice(-VALIDATION_LENGTH.STRING_TRUNCATION.LONG_PREVIEW);
-						sessionDirty = true;
-					}
-
-					if (sessionDirty) {
-						session.lastHeartbeat = new Date().toISOString();
-						await this.storageService.set(sessionKey, session, TIME_DURATIONS_SECONDS.HOUR);
-					}
-				}
+			// Streamed questions were recorded batch by batch as they went out
+			if (!stream) {
+				await this.recordDeliveredQuestions(userId, gameId, questions);
 			}
 
 			const totalMs = Date.now() - requestStartMs;
@@ -659,10 +833,35 @@ export class GameService {
 		gameId: string,
 		topic: string,
 		difficulty: GameDifficulty,
-		gameMode: GameMode
+		gameMode: GameMode,
+		outputLanguage: Locale = DEFAULT_LANGUAGE,
+		timeLimit?: number
 	): Promise<GameSessionStartResponse> {
 		try {
 			const sessionKey = CACHE_KEYS.GAME.SESSION(userId, gameId);
+
+			if (gameMode === GameMode.DAILY_CHALLENGE) {
+				// Restarting the same daily game resumes it as is; a fresh session would wipe recorded answers and
+				// allow replaying the challenge for a better score
+				const existingResult = await this.storageService.get(sessionKey);
+				if (existingResult.success && existingResult.data != null) {
+					if (!isGameSessionState(existingResult.data)) {
+						throw createServerError(
+							'get game session',
+							new Error(ERROR_MESSAGES.game.INVALID_GAME_SESSION_DATA_STRUCTURE)
+						);
+					}
+					if (existingResult.data.gameMode !== GameMode.DAILY_CHALLENGE) {
+						throw new BadRequestException(ErrorCode.INVALID_GAME_MODE);
+					}
+					return {
+						gameId,
+						status: existingResult.data.status,
+						sessionToken: signGameSessionToken(this.getSessionTokenSecret(), userId, gameId),
+					};
+				}
+			}
+
 			const sessionState: ServerGameSessionState = {
 				gameId,
 				userId,
@@ -678,6 +877,24 @@ export class GameService {
 				status: GameStatus.IN_PROGRESS,
 			};
 
+			if (gameMode === GameMode.TIME_LIMITED) {
+				sessionState.timeLimit = timeLimit ?? GAME_MODES_CONFIG[GameMode.TIME_LIMITED].defaults.timeLimit;
+			}
+
+			if (gameMode !== GameMode.DAILY_CHALLENGE) {
+				// The session (and the history saved from it) carries the catalog name, so spelling variants share stats
+				sessionState.topic = await this.topicCatalogService.resolveTopicName(topic, outputLanguage);
+			}
+
+			if (gameMode === GameMode.DAILY_CHALLENGE) {
+				// Topic and difficulty are fixed so every daily run lands in the same history/leaderboard bucket
+				const attempt = await this.dailyChallengeService.beginAttempt(userId, gameId, outputLanguage);
+				sessionState.topic = DAILY_CHALLENGE_CONFIG.topic;
+				sessionState.difficulty = DAILY_CHALLENGE_CONFIG.difficulty;
+				sessionState.dailyChallengeDate = attempt.date;
+				sessionState.pinnedQuestionIds = attempt.questionIds;
+			}
+
 			const result = await this.storageService.set(sessionKey, sessionState, TIME_DURATIONS_SECONDS.HOUR);
 			if (!result.success) {
 				logger.gameError('Failed to start game session', {
@@ -693,6 +910,7 @@ export class GameService {
 			return {
 				gameId,
 				status: GameStatus.IN_PROGRESS,
+				sessionToken: signGameSessionToken(this.getSessionTokenSecret(), userId, gameId),
 			};
 		} catch (error) {
 			logger.gameError('Failed to start game session', {
@@ -700,10 +918,95 @@ export class GameService {
 				userId,
 				gameId,
 			});
+			if (error instanceof HttpException) {
+				throw error;
+			}
 			throw createServerError('start game session', error);
 		}
 	}
 
+	private async getDailyChallengeQuestions(
+		userId: string | undefined,
+		gameId: string | undefined
+	): Promise<{ questions: TriviaQuestion[]; fromCache: boolean }> {
+		if (!userId || !isNonEmptyString(gameId) || !isUuid(gameId)) {
+			throw new BadRequestException(ErrorCode.INVALID_GAME_ID_FORMAT);
+		}
+
+		const sessionKey = CACHE_KEYS.GAME.SESSION(userId, gameId);
+		const sessionResult = await this.storageService.get(sessionKey);
+		if (!sessionResult.success || !sessionResult.data) {
+			throw createNotFoundError('Game session');
+		}
+		if (!isGameSessionState(sessionResult.data)) {
+			throw createServerError('get game session', new Error(ERROR_MESSAGES.game.INVALID_GAME_SESSION_DATA_STRUCTURE));
+		}
+
+		const session = sessionResult.data;
+		const pinnedQuestionIds = session.pinnedQuestionIds ?? [];
+		if (session.gameMode !== GameMode.DAILY_CHALLENGE || pinnedQuestionIds.length === 0) {
+			throw new BadRequestException(ErrorCode.INVALID_GAME_MODE);
+		}
+
+		const entities = await this.triviaRepository.find({ where: { id: In(pinnedQuestionIds) } });
+		const entityById = new Map(entities.map(entity => [entity.id, entity]));
+
+		// Re-fetches (e.g. after a reload) replay the answer order served first, so the stored snapshots keep
+		// matching what the player sees and the delivery times are not reset
+		const existingSnapshots = session.questionSnapshots ?? {};
+		const isFirstDelivery = Object.keys(existingSnapshots).length === 0;
+
+		// Keep the pinned order so every player sees the same sequence; only answer positions are shuffled
+		const questions: TriviaQuestion[] = [];
+		const answerOrders = new Map<string, number[]>();
+		for (const questionId of pinnedQuestionIds) {
+			const entity = entityById.get(questionId);
+			if (!entity) {
+				continue;
+			}
+			const answerOrder =
+				existingSnapshots[questionId]?.answerOrder ?? shuffle(entity.answers.map((_, index) => index));
+			const answers = answerOrder
+				.map(index => entity.answers[index])
+				.filter((answer): answer is TriviaAnswer => answer !== undefined);
+			const correctAnswerIndex = answers.findIndex((a: TriviaAnswer) => a.isCorrect);
+			if (answers.length !== entity.answers.length || correctAnswerIndex < 0) {
+				continue;
+			}
+			answerOrders.set(questionId, answerOrder);
+			questions.push({
+				...this.triviaEntityToTriviaQuestion(entity),
+				answers,
+				correctAnswerIndex,
+			});
+		}
+
+		if (questions.length === 0) {
+			throw new BadRequestException(ERROR_MESSAGES.game.DAILY_CHALLENGE_UNAVAILABLE);
+		}
+
+		if (isFirstDelivery) {
+			const deliveredAt = new Date().toISOString();
+			const snapshots: Record<string, GameSessionQuestionSnapshot> = {};
+			for (const q of questions) {
+				snapshots[q.id] = {
+					correctAnswerIndex: q.correctAnswerIndex,
+					deliveredAt,
+					answerOrder: answerOrders.get(q.id),
+					answerTexts: q.answers.map(a => a.text),
+				};
+			}
+			session.questionSnapshots = snapshots;
+			session.lastHeartbeat = deliveredAt;
+			await this.storageService.set(sessionKey, session, TIME_DURATIONS_SECONDS.HOUR);
+		}
+
+		return {
+			questions,
+			fromCache: false,
+		};
+	}
+
 	private async getTopicsPlayedByUser(userId: string): Promise<string[]> {
 		try {
 			const rows = await this.gameHistoryRepository
@@ -840,23 +1143,53 @@ export class GameService {
 
 			const session = sessionResult.data;
 
-			// Use snapshot correctAnswerIndex when available (matches client shuffle); otherwise fallback to question from DB
+			// Clients never see correctness data, so only questions served in this session (with a snapshot of the
+			// shuffled correct index) can be answered, and each of them only once
 			const snapshot = session.questionSnapshots?.[questionId];
-			const isCorrect =
-				snapshot !== undefined && VALIDATORS.number(snapshot.correctAnswerIndex)
-					? answer === snapshot.correctAnswerIndex
-					: isAnswerCorrect(question, answer);
+			if (snapshot === undefined) {
+				throw new BadRequestException(ErrorCode.QUESTION_NOT_FOUND_OR_NOT_CURRENT);
+			}
+			if (session.questions.some(q => q.questionId === questionId)) {
+				throw new BadRequestException(ErrorCode.QUESTION_ALREADY_ANSWERED);
+			}
+
+			const answeredAtMs = Date.now();
+			this.assertWithinSessionTimeLimit(session, answeredAtMs);
+			const acceptedTimeSpent = this.resolveAnswerTimeSpent(session, snapshot, timeSpent, answeredAtMs);
+
+			// The session is read, updated and written back, so concurrent submits for the same question would both
+			// pass the check above; only the one that claims the answer first is scored
+			const claimResult = await this.storageService.setIfAbsent(
+				CACHE_KEYS.GAME.ANSWER_CLAIM(userId, gameId, questionId),
+				answeredAtMs,
+				TIME_DURATIONS_SECONDS.HOUR
+			);
+			if (!claimResult.success) {
+				throw createServerError('claim answer', new Error(claimResult.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR));
+			}
+			if (!claimResult.data) {
+				throw new BadRequestException(ErrorCode.QUESTION_ALREADY_ANSWERED);
+			}
+
+			const correctAnswerIndex = snapshot.correctAnswerIndex;
+			const isCorrect = answer === correctAnswerIndex;
 
 			const streak = session.questions.filter(q => q.isCorrect).length;
-			const score = calculateAnswerScore(toDifficultyLevel(question.difficulty), timeSpent, streak, isCorrect);
+			const score = calculateAnswerScore(
+				toDifficultyLevel(question.difficulty),
+				acceptedTimeSpent * TIME_PERIODS_MS.SECOND,
+				streak,
+				isCorrect
+			);
 
 			session.questions.push({
 				questionId,
 				answer,
-				timeSpent,
+				timeSpent: acceptedTimeSpent,
 				isCorrect,
 				score,
 			});
+			session.lastAnsweredAt = new Date(answeredAtMs).toISOString();
 			session.currentScore += score;
 			session.totalQuestions += 1;
 			if (isCorrect) {
@@ -880,17 +1213,87 @@ export class GameService {
 				questionId,
 				userAnswerIndex: answer >= 0 ? answer : -1,
 				isCorrect,
-				timeSpent,
+				timeSpent: acceptedTimeSpent,
 				scoreEarned: score,
 				totalScore: 0,
+				correctAnswerIndex,
+				explanation: getQuestionExplanation(question),
 				feedback: isCorrect ? 'Correct answer!' : 'Wrong answer. Try again!',
 				sessionScore: session.currentScore,
 			};
 		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
 			throw createServerError('submit answer to session', error);
 		}
 	}
 
+	// An empty secret would make session tokens forgeable, so a missing one fails the request instead
+	private getSessionTokenSecret(): string {
+		const secret = AppConfig.jwt.secret;
+		if (!isNonEmptyString(secret)) {
+			logger.gameError('JWT secret is not configured; cannot sign or verify game session tokens', {
+				errorInfo: { message: ErrorCode.JWT_SECRET_NOT_CONFIGURED },
+			});
+			throw new InternalServerErrorException(ErrorCode.JWT_SECRET_NOT_CONFIGURED);
+		}
+		return secret;
+	}
+
+	private assertWithinSessionTimeLimit(session: ServerGameSessionState, answeredAtMs: number): void {
+		if (session.timeLimit == null) {
+			return;
+		}
+		// The game clock starts when the first batch reaches the client, not at session start (generation can be slow)
+		const deliveredTimes = Object.values(session.questionSnapshots ?? {})
+			.map(snapshot => (snapshot.deliveredAt ? Date.parse(snapshot.deliveredAt) : NaN))
+			.filter(time => Number.isFinite(time));
+		const playStartedAtMs = deliveredTimes.length > 0 ? Math.min(...deliveredTimes) : Date.parse(session.startedAt);
+		const deadlineMs =
+			playStartedAtMs + (session.timeLimit + AppConfig.answerTiming.toleranceSeconds) * TIME_PERIODS_MS.SECOND;
+		if (answeredAtMs > deadlineMs) {
+			logger.gameError('Rejected answer submitted after the time limit', {
+				userId: session.userId,
+				gameId: session.gameId,
+				limit: session.timeLimit,
+			});
+			throw new BadRequestException(ERROR_MESSAGES.game.ANSWER_AFTER_TIME_LIMIT);
+		}
+	}
+
+	private resolveAnswerTimeSpent(
+		session: ServerGameSessionState,
+		snapshot: GameSessionQuestionSnapshot,
+		clientTimeSpent: number,
+		answeredAtMs: number
+	): number {
+		// A question is on screen from its delivery or from the previous answer, whichever came later
+		const deliveredAtMs = Date.parse(snapshot.deliveredAt ?? session.startedAt);
+		const lastAnsweredAtMs = session.lastAnsweredAt ? Date.parse(session.lastAnsweredAt) : 0;
+		const questionStartMs = Math.max(
+			Number.isFinite(deliveredAtMs) ? deliveredAtMs : 0,
+			Number.isFinite(lastAnsweredAtMs) ? lastAnsweredAtMs : 0
+		);
+		if (questionStartMs === 0) {
+			return clientTimeSpent;
+		}
+
+		const serverTimeSpent = Math.max(0, Math.floor((answeredAtMs - questionStartMs) / TIME_PERIODS_MS.SECOND));
+		const { toleranceSeconds } = AppConfig.answerTiming;
+		if (Math.abs(clientTimeSpent - serverTimeSpent) <= toleranceSeconds) {
+			return clientTimeSpent;
+		}
+
+		logger.gameInfo('Client answer time outside tolerance, using server-measured time', {
+			userId: session.userId,
+			gameId: session.gameId,
+			timeSpent: clientTimeSpent,
+			duration: serverTimeSpent,
+		});
+		return serverTimeSpent;
+	}
+
 	async validateGameSession(userId: string, gameId: string): Promise<GameSessionValidationResponse> {
 		try {
 			const sessionKey = CACHE_KEYS.GAME.SESSION(userId, gameId);
@@ -985,7 +1388,13 @@ export class GameService {
 			const answerHistory = session.questions.map(q => {
 				const question = questionById.get(q.questionId);
 				if (question) {
-					return createAnswerHistory(question, q.answer, q.isCorrect, q.timeSpent);
+					// Stored answers are in catalog order, so the texts come from what this session actually served
+					const snapshot = session.questionSnapshots?.[q.questionId];
+					return {
+						...createAnswerHistory(question, q.answer, q.isCorrect, q.timeSpent),
+						userAnswerText: snapshot?.answerTexts?.[q.answer],
+						correctAnswerText: snapshot?.answerTexts?.[snapshot.correctAnswerIndex],
+					};
 				}
 				logger.gameError('Question not found when finalizing session', {
 					errorInfo: { message: 'missing_or_invalid_question_id' },
@@ -1041,6 +1450,83 @@ export class GameService {
 		}
 	}
 
+	// POST /game/history: client numbers are never persisted. The game must already be finalized or carry a valid
+	// session token, and is then finalized from the server session.
+	async saveClientGameHistory(params: SaveClientGameHistoryParams) {
+		const { userId, gameData, sessionToken } = params;
+		const gameId = gameData.clientMutationId;
+		try {
+			if (!gameId) {
+				this.rejectGameHistorySubmission(userId, gameData, 'missing_client_mutation_id');
+			}
+
+			const alreadyFinalized = await this.gameHistoryRepository.exists({
+				where: { clientMutationId: gameId, userId },
+			});
+			if (alreadyFinalized) {
+				return await this.finalizeGameSession(userId, gameId);
+			}
+
+			if (!sessionToken || !verifyGameSessionToken(this.getSessionTokenSecret(), sessionToken, userId, gameId)) {
+				this.rejectGameHistorySubmission(userId, gameData, 'invalid_session_token');
+			}
+
+			const sessionResult = await this.storageService.get(CACHE_KEYS.GAME.SESSION(userId, gameId));
+			if (!sessionResult.success || !isGameSessionState(sessionResult.data)) {
+				this.rejectGameHistorySubmission(userId, gameData, 'session_not_found');
+			}
+
+			// Recompute from the per-answer records the server scored in submitAnswerToSession
+			const session = sessionResult.data;
+			const serverScore = sumBy(session.questions, q => q.score);
+			const serverCorrectAnswers = session.questions.filter(q => q.isCorrect).length;
+			const serverQuestionCount = session.questions.length;
+			if (
+				gameData.score !== serverScore ||
+				gameData.correctAnswers !== serverCorrectAnswers ||
+				gameData.gameQuestionCount !== serverQuestionCount
+			) {
+				this.rejectGameHistorySubmission(userId, gameData, 'score_mismatch', {
+					score: serverScore,
+					correctAnswers: serverCorrectAnswers,
+					gameQuestionCount: serverQuestionCount,
+				});
+			}
+
+			return await this.finalizeGameSession(userId, gameId);
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			throw createServerError('save game history', error);
+		}
+	}
+
+	private rejectGameHistorySubmission(
+		userId: string,
+		gameData: SaveGameHistoryParams['gameData'],
+		reason: string,
+		expected?: { score: number; correctAnswers: number; gameQuestionCount: number }
+	): never {
+		logger.securityDenied('Rejected game history submission (suspected tampering)', {
+			userId,
+			gameId: gameData.clientMutationId,
+			reason,
+			score: gameData.score,
+			...(expected && {
+				analysis: JSON.stringify({
+					submitted: {
+						score: gameData.score,
+						correctAnswers: gameData.correctAnswers,
+						gameQuestionCount: gameData.gameQuestionCount,
+					},
+					expected,
+				}),
+			}),
+		});
+		throw new ForbiddenException(ErrorCode.GAME_HISTORY_REJECTED);
+	}
+
 	async saveGameHistory(params: SaveGameHistoryParams) {
 		const { userId, gameData } = params;
 		const activeGameKey = `active_game:${userId}`;
@@ -1,4 +1,9 @@
 export { GameModule } from './game.module';
+export * from './dailyChallenge';
+export * from './questionCalibration';
+export * from './questionPool';
+export * from './topicCatalog';
+export * from './topicSuggestions';
 export * from './triviaGeneration';
 export { MultiplayerModule } from './multiplayer/multiplayer.module';
 export { GameController } from './game.controller';
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsString, IsUUID, Length, Matches, Max, Min } from 'class-validator';
+
+import { VALIDATION_COUNT } from '@shared/constants';
+
+export class AssignTeamDto {
+	@ApiProperty({
+		description: 'Room ID (8 alphanumeric characters)',
+		example: 'ABC12345',
+	})
+	@IsString()
+	@Length(8, 8)
+	@Matches(/^[A-Z0-9]{8}$/, {
+		message: 'Room ID must be exactly 8 alphanumeric characters (A-Z, 0-9)',
+	})
+	roomId!: string;
+
+	@ApiProperty({ description: 'User ID of the player to move; players may move themselves, the host may move anyone' })
+	@IsUUID()
+	targetUserId!: string;
+
+	@ApiProperty({
+		description: 'Zero-based team index; must be below the room team count',
+		minimum: 0,
+		maximum: VALIDATION_COUNT.TEAMS.MAX - 1,
+	})
+	@IsInt()
+	@Min(0)
+	@Max(VALIDATION_COUNT.TEAMS.MAX - 1)
+	teamIndex!: number;
+}
@@ -1,7 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsBoolean, IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
 
-import { DEFAULT_GAME_CONFIG, DifficultyLevel, Locale, VALIDATION_COUNT, VALIDATION_LENGTH } from '@shared/constants';
+import {
+	AnswerPolicy,
+	DEFAULT_GAME_CONFIG,
+	DifficultyLevel,
+	Locale,
+	TeamScoreRule,
+	VALIDATION_COUNT,
+	VALIDATION_LENGTH,
+} from '@shared/constants';
 import type { GameDifficulty } from '@shared/types';
 
 import { IsGameDifficulty } from '@common/decorators';
@@ -79,4 +87,53 @@ export class CreateRoomDto {
 	@IsOptional()
 	@IsBoolean()
 	isPublicLobby?: boolean;
+
+	@ApiPropertyOptional({
+		description: `Number of teams (${VALIDATION_COUNT.TEAMS.MIN}-${VALIDATION_COUNT.TEAMS.MAX}); omit for free-for-all`,
+		minimum: VALIDATION_COUNT.TEAMS.MIN,
+		maximum: VALIDATION_COUNT.TEAMS.MAX,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(VALIDATION_COUNT.TEAMS.MIN)
+	@Max(VALIDATION_COUNT.TEAMS.MAX)
+	teamCount?: number;
+
+	@ApiPropertyOptional({
+		description: 'How member scores combine into the team score',
+		enum: TeamScoreRule,
+		default: TeamScoreRule.SUM,
+	})
+	@IsOptional()
+	@IsEnum(TeamScoreRule)
+	teamScoreRule?: TeamScoreRule;
+
+	@ApiPropertyOptional({
+		description: `Seconds per question (${VALIDATION_COUNT.TIME_PER_QUESTION.MIN}-${VALIDATION_COUNT.TIME_PER_QUESTION.MAX})`,
+		minimum: VALIDATION_COUNT.TIME_PER_QUESTION.MIN,
+		maximum: VALIDATION_COUNT.TIME_PER_QUESTION.MAX,
+		default: VALIDATION_COUNT.TIME_PER_QUESTION.DEFAULT,
+	})
+	@IsOptional()
+	@IsInt()
+	@Min(VALIDATION_COUNT.TIME_PER_QUESTION.MIN)
+	@Max(VALIDATION_COUNT.TIME_PER_QUESTION.MAX)
+	timePerQuestion?: number;
+
+	@ApiPropertyOptional({
+		description: 'Whether players can change their answer until the deadline or are locked in on first submit',
+		enum: AnswerPolicy,
+		default: AnswerPolicy.CHANGEABLE,
+	})
+	@IsOptional()
+	@IsEnum(AnswerPolicy)
+	answerPolicy?: AnswerPolicy;
+
+	@ApiPropertyOptional({
+		description: 'When true, a question ends as soon as every connected player has answered',
+		default: false,
+	})
+	@IsOptional()
+	@IsBoolean()
+	endWhenAllAnswered?: boolean;
 }
@@ -1,6 +1,8 @@
+export * from './assignTeam.dto';
 export * from './createRoom.dto';
 export * from './joinRoom.dto';
 export * from './publicWaitingRoomsQuery.dto';
 export * from './submitAnswer.dto';
 export * from './roomAction.dto';
+export * from './roomPlayerAction.dto';
 export * from './updateRoomLobbyVisibility.dto';
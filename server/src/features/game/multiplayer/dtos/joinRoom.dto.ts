@@ -1,5 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsString, Length, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, Length, Matches } from 'class-validator';
 
 export class JoinRoomDto {
 	@ApiProperty({
@@ -12,4 +12,11 @@ export class JoinRoomDto {
 		message: 'Room ID must be exactly 8 alphanumeric characters (A-Z, 0-9)',
 	})
 	roomId!: string;
+
+	@ApiPropertyOptional({
+		description: 'Join as a spectator; players joining after the game started always become spectators',
+	})
+	@IsOptional()
+	@IsBoolean()
+	spectate?: boolean;
 }
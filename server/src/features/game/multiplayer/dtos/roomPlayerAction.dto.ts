@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsUUID, Length, Matches } from 'class-validator';
+
+export class RoomPlayerActionDto {
+	@ApiProperty({
+		description: 'Room ID (8 alphanumeric characters)',
+		example: 'ABC12345',
+	})
+	@IsString()
+	@Length(8, 8)
+	@Matches(/^[A-Z0-9]{8}$/, {
+		message: 'Room ID must be exactly 8 alphanumeric characters (A-Z, 0-9)',
+	})
+	roomId!: string;
+
+	@ApiProperty({ description: 'User ID of the player the host is acting on' })
+	@IsUUID()
+	targetUserId!: string;
+}
@@ -1,13 +1,6 @@
 import { Injectable } from '@nestjs/common';
 
-import {
-	ErrorCode,
-	MULTIPLAYER_TIME_PER_QUESTION,
-	PlayerStatus,
-	QuestionState,
-	RoomStatus,
-	TIME_PERIODS_MS,
-} from '@shared/constants';
+import { AnswerPolicy, ErrorCode, PlayerStatus, QuestionState, RoomStatus, TIME_PERIODS_MS } from '@shared/constants';
 import type {
 	GameState,
 	MultiplayerRoom,
@@ -16,7 +9,14 @@ import type {
 	QuestionEndResult,
 	TriviaQuestion,
 } from '@shared/types';
-import { calculateAnswerScore, getErrorMessage, isAnswerCorrect } from '@shared/utils';
+import {
+	calculateAnswerScore,
+	calculateTeamStandings,
+	getErrorMessage,
+	getRoomTimePerQuestion,
+	isAnswerCorrect,
+	isTeamMode,
+} from '@shared/utils';
 import { toDifficultyLevel, VALIDATORS } from '@shared/validation';
 
 import { serverLogger as logger } from '@internal/services';
@@ -43,6 +43,7 @@ export class GameStateService {
 			player.correctAnswers = 0;
 			player.currentAnswer = undefined;
 			player.timeSpent = undefined;
+			player.answerHistory = [];
 		});
 
 		const { version, ...updates } = room;
@@ -102,6 +103,7 @@ export class GameStateService {
 				? new Date(room.currentQuestionStartTime).toISOString()
 				: undefined,
 			answerCounts: Object.keys(answerCounts).length > 0 ? answerCounts : undefined,
+			teamLeaderboard: isTeamMode(room.config) ? calculateTeamStandings(room.players, room.config) : undefined,
 		};
 	}
 
@@ -122,11 +124,16 @@ export class GameStateService {
 			throw new Error(ErrorCode.QUESTION_NOT_FOUND_OR_NOT_CURRENT);
 		}
 
+		if (room.pausedAt) {
+			throw new Error(ErrorCode.GAME_PAUSED);
+		}
+
 		// Check if question has expired (server-authoritative timestamp check)
 		if (room.currentQuestionStartTime && room.status === RoomStatus.PLAYING) {
 			const now = Date.now();
 			const questionEndTime =
-				new Date(room.currentQuestionStartTime).getTime() + MULTIPLAYER_TIME_PER_QUESTION * TIME_PERIODS_MS.SECOND;
+				new Date(room.currentQuestionStartTime).getTime() +
+				getRoomTimePerQuestion(room.config) * TIME_PERIODS_MS.SECOND;
 			if (now >= questionEndTime) {
 				throw new Error(ErrorCode.QUESTION_NOT_FOUND_OR_NOT_CURRENT);
 			}
@@ -137,6 +144,10 @@ export class GameStateService {
 			room.config.mappedDifficulty ??
 			toDifficultyLevel(currentQuestion.difficulty);
 
+		if (player.status === PlayerStatus.ANSWERED && room.config.answerPolicy === AnswerPolicy.LOCKED) {
+			throw new Error(ErrorCode.ANSWER_LOCKED);
+		}
+
 		if (player.status === PlayerStatus.ANSWERED) {
 			const oldCorrect = isAnswerCorrect(currentQuestion, player.currentAnswer ?? -1);
 			const oldStreak = oldCorrect ? player.correctAnswers - 1 : 0;
@@ -259,6 +270,18 @@ export class GameStateService {
 				toDifficultyLevel(currentQuestion.difficulty);
 			const streak = isCorrect ? player.correctAnswers - 1 : player.correctAnswers;
 			const scoreEarned = calculateAnswerScore(difficulty, player.timeSpent ?? 0, streak, isCorrect);
+			const answered = player.currentAnswer !== undefined;
+
+			// Recorded here rather than on submit so changed answers and players who never answered are captured once
+			const answerHistory = (player.answerHistory ?? []).filter(entry => entry.questionId !== currentQuestion.id);
+			answerHistory.push({
+				questionId: currentQuestion.id,
+				answerIndex: player.currentAnswer ?? -1,
+				isCorrect,
+				timeSpent: answered ? (player.timeSpent ?? 0) : getRoomTimePerQuestion(room.config),
+				scoreEarned: isCorrect ? scoreEarned : 0,
+			});
+			player.answerHistory = answerHistory;
 
 			return {
 				userId: player.userId,
@@ -319,13 +342,15 @@ export class GameStateService {
 	}
 
 	private calculateTimeRemaining(room: MultiplayerRoom): number {
+		const timePerQuestion = getRoomTimePerQuestion(room.config);
 		if (!room.currentQuestionStartTime || room.status !== RoomStatus.PLAYING) {
-			return MULTIPLAYER_TIME_PER_QUESTION;
+			return timePerQuestion;
 		}
 
-		const now = Date.now();
+		// The clock stands still while the host has the game paused
+		const now = room.pausedAt ? new Date(room.pausedAt).getTime() : Date.now();
 		const elapsed = (now - new Date(room.currentQuestionStartTime).getTime()) / TIME_PERIODS_MS.SECOND;
-		const remaining = MULTIPLAYER_TIME_PER_QUESTION - elapsed;
+		const remaining = timePerQuestion - elapsed;
 
 		return Math.max(0, Math.floor(remaining));
 	}
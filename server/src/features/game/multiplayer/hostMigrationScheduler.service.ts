@@ -0,0 +1,233 @@
+import { randomUUID } from 'crypto';
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+
+import { CACHE_KEYS, ERROR_MESSAGES, PlayerStatus } from '@shared/constants';
+import { getErrorMessage } from '@shared/utils';
+
+import { HOST_MIGRATION_DEFAULTS } from '@internal/constants';
+import { StorageService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { HostMigrationSchedule } from '@internal/types';
+
+import { RoomService } from './room.service';
+
+type MigrationHandler = (roomId: string) => Promise<void>;
+
+@Injectable()
+export class HostMigrationSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+	private readonly activeSchedules = new Map<string, HostMigrationSchedule>();
+	private readonly instanceId = randomUUID();
+	private migrationHandler: MigrationHandler | null = null;
+	private sweepInterval: NodeJS.Timeout | null = null;
+	private isSweeping = false;
+
+	constructor(
+		private readonly storageService: StorageService,
+		private readonly roomService: RoomService
+	) {}
+
+	registerMigrationHandler(handler: MigrationHandler): void {
+		this.migrationHandler = handler;
+	}
+
+	async onApplicationBootstrap(): Promise<void> {
+		await this.recoverDisconnectedHosts();
+		this.sweepInterval = setInterval(() => {
+			void this.sweepOverdueMigrations();
+		}, HOST_MIGRATION_DEFAULTS.sweepIntervalMs);
+	}
+
+	// Keeps an already scheduled deadline, so repeated disconnects do not extend the grace period
+	async scheduleMigration(roomId: string): Promise<void> {
+		if (this.activeSchedules.has(roomId) || (await this.getStoredDeadline(roomId)) != null) {
+			return;
+		}
+		await this.scheduleDeadline(roomId, Date.now() + HOST_MIGRATION_DEFAULTS.gracePeriodMs);
+	}
+
+	async cancelMigration(roomId: string): Promise<void> {
+		this.clearLocalTimer(roomId);
+		const result = await this.storageService.removeFromSortedSet(
+			CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES,
+			roomId
+		);
+		if (!result.success) {
+			logger.gameError('Failed to delete host migration deadline', {
+				roomId,
+				errorInfo: { message: result.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+			});
+		}
+	}
+
+	onModuleDestroy(): void {
+		if (this.sweepInterval) {
+			clearInterval(this.sweepInterval);
+			this.sweepInterval = null;
+		}
+		// Deadlines stay in Redis so another instance (or this one after a restart) picks them up
+		for (const schedule of this.activeSchedules.values()) {
+			clearTimeout(schedule.timeoutId);
+		}
+		this.activeSchedules.clear();
+	}
+
+	private async scheduleDeadline(roomId: string, deadline: number): Promise<void> {
+		this.clearLocalTimer(roomId);
+
+		const result = await this.storageService.addToSortedSet(
+			CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES,
+			roomId,
+			deadline
+		);
+		if (!result.success) {
+			logger.gameError('Failed to persist host migration deadline, relying on local timer', {
+				roomId,
+				errorInfo: { message: result.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+			});
+		}
+
+		const timeoutId = setTimeout(
+			() => {
+				void this.fireDeadline(roomId, deadline);
+			},
+			Math.max(0, deadline - Date.now())
+		);
+
+		this.activeSchedules.set(roomId, {
+			timeoutId,
+			roomId,
+			deadline,
+		});
+	}
+
+	private clearLocalTimer(roomId: string): void {
+		const schedule = this.activeSchedules.get(roomId);
+		if (schedule) {
+			clearTimeout(schedule.timeoutId);
+			this.activeSchedules.delete(roomId);
+		}
+	}
+
+	private async fireDeadline(roomId: string, deadline: number): Promise<void> {
+		if (this.activeSchedules.get(roomId)?.deadline === deadline) {
+			this.activeSchedules.delete(roomId);
+		}
+
+		if (!this.migrationHandler) {
+			return;
+		}
+
+		const leaseKey = CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_LEASE(roomId);
+		const lease = await this.storageService.setIfAbsent(
+			leaseKey,
+			this.instanceId,
+			HOST_MIGRATION_DEFAULTS.leaseTtlSeconds
+		);
+		if (!lease.success || !lease.data) {
+			return;
+		}
+
+		try {
+			// A returning host (on any instance) clears the deadline; a new disconnect replaces it
+			const current = await this.getStoredDeadline(roomId);
+			if (current != null && current !== deadline) {
+				return;
+			}
+
+			await this.migrationHandler(roomId);
+
+			const after = await this.getStoredDeadline(roomId);
+			if (after === deadline) {
+				await this.storageService.removeFromSortedSet(CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES, roomId);
+			}
+		} catch (error) {
+			// The deadline is kept, so the sweep retries once the lease expires
+			logger.gameError('Host migration handler failed', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+		} finally {
+			const released = await this.storageService.deleteIfValue(leaseKey, this.instanceId);
+			if (!released.success) {
+				logger.gameError('Failed to release host migration lease', {
+					roomId,
+					errorInfo: { message: released.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+				});
+			}
+		}
+	}
+
+	private async getStoredDeadline(roomId: string): Promise<number | null> {
+		const result = await this.storageService.getSortedSetScore(CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES, roomId);
+		return result.success ? (result.data ?? null) : null;
+	}
+
+	private async sweepOverdueMigrations(): Promise<void> {
+		if (this.isSweeping) {
+			return;
+		}
+
+		this.isSweeping = true;
+		try {
+			const now = Date.now();
+			const overdueResult = await this.storageService.getSortedSetRangeByScore(
+				CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES,
+				now
+			);
+			if (!overdueResult.success || !overdueResult.data) {
+				return;
+			}
+
+			for (const { member: roomId, score: deadline } of overdueResult.data) {
+				if (now - deadline > HOST_MIGRATION_DEFAULTS.staleDeadlineMs) {
+					await this.storageService.removeFromSortedSet(CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES, roomId);
+					continue;
+				}
+				await this.fireDeadline(roomId, deadline);
+			}
+		} catch (error) {
+			logger.gameError('Failed to sweep host migration deadlines', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		} finally {
+			this.isSweeping = false;
+		}
+	}
+
+	// Rooms whose host dropped while no deadline was stored (e.g. the instance went down first) get one now
+	private async recoverDisconnectedHosts(): Promise<void> {
+		try {
+			const rooms = await this.roomService.listOpenRooms();
+			let recovered = 0;
+
+			for (const room of rooms) {
+				const host = room.players.find(p => p.userId === room.hostId);
+				const needsMigration =
+					host?.status === PlayerStatus.DISCONNECTED || room.players.every(p => p.status === PlayerStatus.DISCONNECTED);
+				if (!needsMigration || (await this.getStoredDeadline(room.roomId)) != null) {
+					continue;
+				}
+
+				const disconnectedAt = new Date(host?.lastActivity ?? room.updatedAt).getTime();
+				const result = await this.storageService.addToSortedSet(
+					CACHE_KEYS.MULTIPLAYER.HOST_MIGRATION_DEADLINES,
+					room.roomId,
+					disconnectedAt + HOST_MIGRATION_DEFAULTS.gracePeriodMs
+				);
+				if (result.success) {
+					recovered++;
+				}
+			}
+
+			if (recovered > 0) {
+				logger.gameInfo('Recovered host migration deadlines for open multiplayer rooms', {
+					count: recovered,
+				});
+			}
+		} catch (error) {
+			logger.gameError('Failed to recover host migration deadlines', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		}
+	}
+}
@@ -89,6 +89,11 @@ export class MultiplayerController {
 				questionsPerRequest: body.questionsPerRequest,
 				maxPlayers: body.maxPlayers,
 				answerCount: body.answerCount,
+				teamCount: body.teamCount,
+				teamScoreRule: body.teamScoreRule,
+				timePerQuestion: body.timePerQuestion,
+				answerPolicy: body.answerPolicy,
+				endWhenAllAnswered: body.endWhenAllAnswered,
 				mappedDifficulty: body.mappedDifficulty ?? toDifficultyLevel(body.difficulty),
 				outputLanguage,
 			};
@@ -123,7 +128,7 @@ export class MultiplayerController {
 
 		try {
 			const room = await this.executeWithRoomRestore(normalizedRoomId, () =>
-				this.multiplayerService.joinRoom(normalizedRoomId, userId)
+				this.multiplayerService.joinRoom(normalizedRoomId, userId, body.spectate)
 			);
 
 			this.roomCache.set(room.roomId, room);
@@ -1,4 +1,4 @@
-import { UseGuards, UsePipes } from '@nestjs/common';
+import { OnModuleInit, UseGuards, UsePipes } from '@nestjs/common';
 import {
 	ConnectedSocket,
 	MessageBody,
@@ -18,32 +18,42 @@ import {
 	Locale,
 	LOCALHOST_CLIENT_ORIGINS,
 	LOCALHOST_CONFIG,
-	MULTIPLAYER_TIME_PER_QUESTION,
 	MultiplayerEvent,
 	PlayerStatus,
+	QuestionState,
 	RoomStatus,
 	TIME_PERIODS_MS,
 	VALIDATION_COUNT,
 } from '@shared/constants';
 import type { GameEvent, GameEventDataMap, GameEventType, MultiplayerRoom } from '@shared/types';
-import { getErrorCode, getErrorMessage } from '@shared/utils';
+import {
+	createAnswerHistory,
+	getErrorCode,
+	getErrorMessage,
+	getRoomTimePerQuestion,
+	haveAllPlayersAnswered,
+} from '@shared/utils';
 import { isLocale, toDifficultyLevel } from '@shared/validation';
 
 import { WsCurrentUserId } from '@common/decorators';
 import { WsAuthGuard } from '@common/guards';
 import { createAppValidationPipe } from '@common/pipes';
 import { GameTextLanguageGateService } from '@common/validation';
+import { HOST_MIGRATION_DEFAULTS } from '@internal/constants';
 import { serverLogger as logger } from '@internal/services';
 import type { TypedSocket } from '@internal/types';
 
 import { GameService } from '../game.service';
 import {
+	AssignTeamDto,
 	CreateRoomDto,
 	JoinRoomDto,
 	MultiplayerSubmitAnswerDto,
 	RoomActionDto,
+	RoomPlayerActionDto,
 	UpdateRoomLobbyVisibilityDto,
 } from './dtos';
+import { HostMigrationSchedulerService } from './hostMigrationScheduler.service';
 import { MultiplayerService } from './multiplayer.service';
 import { QuestionSchedulerService } from './questionScheduler.service';
 import { RoomService } from './room.service';
@@ -60,7 +70,7 @@ import { RoomService } from './room.service';
 })
 @UseGuards(WsAuthGuard)
 @UsePipes(createAppValidationPipe())
-export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconnect, OnModuleInit {
 	@WebSocketServer()
 	server!: Server;
 
@@ -69,11 +79,17 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 	constructor(
 		private readonly multiplayerService: MultiplayerService,
 		private readonly questionScheduler: QuestionSchedulerService,
+		private readonly hostMigrationScheduler: HostMigrationSchedulerService,
 		private readonly gameService: GameService,
 		private readonly roomService: RoomService,
 		private readonly gameTextLanguageGate: GameTextLanguageGateService
 	) {}
 
+	onModuleInit(): void {
+		this.questionScheduler.registerDeadlineHandler(roomId => this.handleQuestionDeadline(roomId));
+		this.hostMigrationScheduler.registerMigrationHandler(roomId => this.migrateHostAfterGracePeriod(roomId));
+	}
+
 	private createGameEvent<T extends GameEventType>(type: T, roomId: string, data: GameEventDataMap[T]): GameEvent {
 		return {
 			type,
@@ -118,12 +134,18 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 				// Check if all players disconnected
 				if (room) {
 					const activePlayers = room.players.filter(p => p.status !== PlayerStatus.DISCONNECTED);
-					if (activePlayers.length === 0) {
+					if (activePlayers.length === 0 && room.status !== RoomStatus.WAITING) {
 						// All players disconnected - cancel game
 						await this.handleAllPlayersDisconnected(roomId);
 					} else {
 						const event = this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, roomId, { room });
 						this.broadcastToRoom(roomId, event);
+
+						// A waiting lobby is only cancelled once the grace period passes without anyone coming back
+						const isOpenRoom = room.status === RoomStatus.WAITING || room.status === RoomStatus.PLAYING;
+						if (isOpenRoom && (room.hostId === userId || activePlayers.length === 0)) {
+							await this.hostMigrationScheduler.scheduleMigration(roomId);
+						}
 					}
 				}
 			}
@@ -164,6 +186,11 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 					questionsPerRequest: data.questionsPerRequest,
 					maxPlayers: data.maxPlayers,
 					answerCount: data.answerCount,
+					teamCount: data.teamCount,
+					teamScoreRule: data.teamScoreRule,
+					timePerQuestion: data.timePerQuestion,
+					answerPolicy: data.answerPolicy,
+					endWhenAllAnswered: data.endWhenAllAnswered,
 					mappedDifficulty: data.mappedDifficulty ?? toDifficultyLevel(data.difficulty),
 					outputLanguage,
 				},
@@ -261,13 +288,19 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 			// Store player count before join to detect if this is a new join
 			const roomBeforeJoin = await this.roomService.getRoom(data.roomId);
 			const playerCountBeforeJoin = roomBeforeJoin?.players.length ?? 0;
+			const spectatorCountBeforeJoin = roomBeforeJoin?.spectators?.length ?? 0;
 
-			const room = await this.multiplayerService.joinRoom(data.roomId, userId);
+			const room = await this.multiplayerService.joinRoom(data.roomId, userId, data.spectate);
 
 			// Join client to room
 			client.join(room.roomId);
 			client.data.roomId = room.roomId;
 
+			// A host returning within the grace period keeps the room
+			if (room.hostId === userId) {
+				await this.hostMigrationScheduler.cancelMigration(room.roomId);
+			}
+
 			// Send current game state if game is playing
 			// Always send room state (with gameState) when joining
 			await this.sendGameStateToClient(client, room);
@@ -288,6 +321,12 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 					roomId: room.roomId,
 					userId,
 				});
+			} else if ((room.spectators?.length ?? 0) > spectatorCountBeforeJoin) {
+				this.broadcastToRoom(room.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, room.roomId, { room }));
+				logger.gameInfo('Spectator joined room via WebSocket', {
+					roomId: room.roomId,
+					userId,
+				});
 			}
 		} catch (error) {
 			logger.gameError('Failed to join room via WebSocket', {
@@ -456,6 +495,10 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 				questionId: data.questionId,
 				isCorrect: result.isCorrect,
 			});
+
+			if (result.room.config.endWhenAllAnswered && haveAllPlayersAnswered(result.room.players)) {
+				await this.endQuestion(data.roomId);
+			}
 		} catch (error) {
 			logger.gameError('Failed to submit answer via WebSocket', {
 				errorInfo: { message: getErrorMessage(error) },
@@ -470,6 +513,334 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 		}
 	}
 
+	@SubscribeMessage(MultiplayerEvent.KICK_PLAYER)
+	async handleKickPlayer(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomPlayerActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		await this.removePlayerFromRoom(userId, data, client, false);
+	}
+
+	@SubscribeMessage(MultiplayerEvent.BAN_PLAYER)
+	async handleBanPlayer(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomPlayerActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		await this.removePlayerFromRoom(userId, data, client, true);
+	}
+
+	@SubscribeMessage(MultiplayerEvent.TRANSFER_HOST)
+	async handleTransferHost(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomPlayerActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.transferHost(data.roomId, userId, data.targetUserId);
+			await this.hostMigrationScheduler.cancelMigration(data.roomId);
+			this.broadcastHostChanged(room, userId);
+
+			logger.gameInfo('Room host transferred via WebSocket', {
+				roomId: data.roomId,
+				userId,
+				targetUserId: data.targetUserId,
+			});
+		} catch (error) {
+			logger.gameError('Failed to transfer room host via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.REMATCH)
+	async handleRematch(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.rematch(data.roomId, userId);
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+
+			logger.gameInfo('Room reopened for rematch via WebSocket', {
+				roomId: data.roomId,
+				userId,
+				playerCount: room.players.length,
+			});
+		} catch (error) {
+			logger.gameError('Failed to reopen room for rematch via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.ASSIGN_TEAM)
+	async handleAssignTeam(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: AssignTeamDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.assignTeam(data.roomId, userId, data.targetUserId, data.teamIndex);
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+
+			logger.gameInfo('Team assigned via WebSocket', {
+				roomId: data.roomId,
+				userId,
+				targetUserId: data.targetUserId,
+				teamIndex: data.teamIndex,
+			});
+		} catch (error) {
+			logger.gameError('Failed to assign team via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.BALANCE_TEAMS)
+	async handleBalanceTeams(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.balanceTeams(data.roomId, userId);
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+
+			logger.gameInfo('Teams balanced via WebSocket', {
+				roomId: data.roomId,
+				userId,
+				teamCount: room.config.teamCount,
+			});
+		} catch (error) {
+			logger.gameError('Failed to balance teams via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.PAUSE_GAME)
+	async handlePauseGame(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.pauseGame(data.roomId, userId);
+			await this.questionScheduler.cancelSchedule(data.roomId);
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+
+			logger.gameInfo('Game paused via WebSocket', {
+				roomId: data.roomId,
+				userId,
+			});
+		} catch (error) {
+			logger.gameError('Failed to pause game via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.RESUME_GAME)
+	async handleResumeGame(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.resumeGame(data.roomId, userId);
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+			await this.resumeQuestionClock(room);
+
+			logger.gameInfo('Game resumed via WebSocket', {
+				roomId: data.roomId,
+				userId,
+			});
+		} catch (error) {
+			logger.gameError('Failed to resume game via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	@SubscribeMessage(MultiplayerEvent.SKIP_QUESTION)
+	async handleSkipQuestion(
+		@WsCurrentUserId() userId: string,
+		@MessageBody() data: RoomActionDto,
+		@ConnectedSocket() client: TypedSocket
+	) {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			await this.multiplayerService.skipQuestion(data.roomId, userId);
+			await this.endQuestion(data.roomId);
+
+			const room = await this.roomService.getRoom(data.roomId);
+			if (room) {
+				this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+			}
+
+			logger.gameInfo('Question skipped via WebSocket', {
+				roomId: data.roomId,
+				userId,
+			});
+		} catch (error) {
+			logger.gameError('Failed to skip question via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	private async removePlayerFromRoom(
+		userId: string,
+		data: RoomPlayerActionDto,
+		client: TypedSocket,
+		ban: boolean
+	): Promise<void> {
+		try {
+			if (!userId) {
+				throw new Error(ErrorCode.USER_NOT_AUTHENTICATED);
+			}
+
+			const room = await this.multiplayerService.kickPlayer(data.roomId, userId, data.targetUserId, ban);
+
+			// Announced before the removed player's sockets leave, so they learn why they were dropped
+			const playerKickedEvent = this.createGameEvent(MultiplayerEvent.PLAYER_KICKED, data.roomId, {
+				userId: data.targetUserId,
+				banned: ban,
+				players: room.players,
+			});
+			this.broadcastToRoom(data.roomId, playerKickedEvent);
+
+			const sockets = await this.server.in(data.roomId).fetchSockets();
+			for (const socket of sockets) {
+				if (socket.data.userId === data.targetUserId) {
+					socket.leave(data.roomId);
+				}
+			}
+
+			this.broadcastToRoom(data.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, data.roomId, { room }));
+
+			logger.gameInfo(ban ? 'Player banned via WebSocket' : 'Player kicked via WebSocket', {
+				roomId: data.roomId,
+				userId,
+				targetUserId: data.targetUserId,
+			});
+		} catch (error) {
+			logger.gameError(ban ? 'Failed to ban player via WebSocket' : 'Failed to kick player via WebSocket', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				roomId: data.roomId,
+			});
+			const code = getErrorCode(error);
+			client.emit('error', {
+				message: getErrorMessage(error),
+				...(code && { code }),
+			});
+		}
+	}
+
+	private async resumeQuestionClock(room: MultiplayerRoom): Promise<void> {
+		const question = room.questions[room.currentQuestionIndex];
+		if (room.questionState !== QuestionState.ACTIVE || !room.currentQuestionStartTime || !question) {
+			// Paused between questions, so the next one follows after the usual short gap
+			await this.questionScheduler.scheduleNextQuestion(room.roomId, TIME_PERIODS_MS.ONE_AND_HALF_SECONDS);
+			return;
+		}
+
+		// The start time was shifted by the paused span, so clients restart their countdown from the remaining time
+		const timeLimit = getRoomTimePerQuestion(room.config);
+		const serverStartTimestamp = new Date(room.currentQuestionStartTime).getTime();
+		const serverEndTimestamp = serverStartTimestamp + timeLimit * TIME_PERIODS_MS.SECOND;
+		const questionStartedEvent = this.createGameEvent(MultiplayerEvent.QUESTION_STARTED, room.roomId, {
+			question,
+			questionIndex: room.currentQuestionIndex,
+			timeLimit,
+			serverStartTimestamp,
+			serverEndTimestamp,
+		});
+		this.broadcastToRoom(room.roomId, questionStartedEvent);
+
+		await this.questionScheduler.scheduleQuestionEnd(room.roomId, Math.max(0, serverEndTimestamp - Date.now()));
+	}
+
 	private async startQuestion(room: MultiplayerRoom) {
 		if (room.status !== RoomStatus.PLAYING) {
 			return;
@@ -487,10 +858,24 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 		);
 		this.broadcastToRoom(room.roomId, questionStartedEvent);
 
-		const durationMs = MULTIPLAYER_TIME_PER_QUESTION * TIME_PERIODS_MS.SECOND;
-		this.questionScheduler.scheduleQuestionEnd(room.roomId, durationMs, async () => {
-			await this.endQuestion(room.roomId);
-		});
+		const durationMs = questionStartResponse.timeLimit * TIME_PERIODS_MS.SECOND;
+		await this.questionScheduler.scheduleQuestionEnd(room.roomId, durationMs);
+	}
+
+	private async handleQuestionDeadline(roomId: string): Promise<void> {
+		// The deadline may fire on an instance that did not run the previous step, so read the shared snapshot
+		this.roomService.invalidateRoomCache(roomId);
+		const room = await this.roomService.getRoom(roomId);
+		if (!room || room.status !== RoomStatus.PLAYING || room.pausedAt) {
+			return;
+		}
+
+		if (room.questionState === QuestionState.ACTIVE) {
+			await this.endQuestion(roomId);
+			return;
+		}
+
+		await this.startQuestion(room);
 	}
 
 	private async endQuestion(roomId: string) {
@@ -517,12 +902,12 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 			});
 			this.broadcastToRoom(roomId, questionEndedEvent);
 
-			this.questionScheduler.cancelSchedule(roomId);
+			await this.questionScheduler.cancelSchedule(roomId);
 
 			const updatedRoom = await this.multiplayerService.nextQuestion(roomId);
 
 			if (updatedRoom.status === RoomStatus.FINISHED) {
-				this.questionScheduler.cancelSchedule(roomId);
+				await this.questionScheduler.cancelSchedule(roomId);
 
 				const finalGameState = await this.multiplayerService.getGameState(roomId);
 				const leaderboard = finalGameState.leaderboard;
@@ -539,6 +924,7 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 					finalLeaderboard: finalGameState.leaderboard,
 					winner,
 					gameDuration: gameDurationMs,
+					teamResults: finalGameState.teamLeaderboard,
 				});
 				this.broadcastToRoom(roomId, gameEndedEvent);
 
@@ -546,8 +932,24 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 				const difficulty =
 					updatedRoom.config?.mappedDifficulty ?? toDifficultyLevel(updatedRoom.config?.difficulty ?? 'medium');
 				const gameQuestionCount = updatedRoom.questions?.length ?? 0;
+				const questionById = new Map((updatedRoom.questions ?? []).map(question => [question.id, question]));
 
 				for (const player of finalGameState.leaderboard) {
+					const answerHistory = (player.answerHistory ?? []).flatMap(record => {
+						const question = questionById.get(record.questionId);
+						if (!question) {
+							return [];
+						}
+						return [
+							{
+								...createAnswerHistory(question, record.answerIndex, record.isCorrect, record.timeSpent),
+								userAnswerText: question.answers[record.answerIndex]?.text,
+								correctAnswerText: question.answers[question.correctAnswerIndex]?.text,
+								scoreEarned: record.scoreEarned,
+							},
+						];
+					});
+
 					try {
 						await this.gameService.saveGameHistory({
 							userId: player.userId,
@@ -558,7 +960,7 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 								difficulty,
 								gameMode: GameMode.MULTIPLAYER,
 								creditsUsed: 0,
-								answerHistory: [],
+								answerHistory,
 								topic,
 								timeSpent: gameDurationSeconds,
 							},
@@ -572,9 +974,7 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 					}
 				}
 			} else {
-				setTimeout(() => {
-					this.startNextQuestionAsync(updatedRoom, roomId);
-				}, TIME_PERIODS_MS.ONE_AND_HALF_SECONDS);
+				await this.questionScheduler.scheduleNextQuestion(roomId, TIME_PERIODS_MS.ONE_AND_HALF_SECONDS);
 			}
 
 			this.endingRooms.delete(roomId);
@@ -587,18 +987,68 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 		}
 	}
 
+	private async migrateHostAfterGracePeriod(roomId: string): Promise<void> {
+		// The deadline may fire on an instance that did not see the disconnect, so read the shared snapshot
+		this.roomService.invalidateRoomCache(roomId);
+		try {
+			const result = await this.roomService.migrateHost(roomId, HOST_MIGRATION_DEFAULTS.gracePeriodMs);
+			if (result) {
+				this.broadcastHostChanged(result.room, result.previousHostId);
+				return;
+			}
+
+			const room = await this.roomService.getRoom(roomId);
+			if (room?.status === RoomStatus.WAITING && room.players.every(p => p.status === PlayerStatus.DISCONNECTED)) {
+				await this.handleAllPlayersDisconnected(roomId);
+			}
+		} catch (error) {
+			logger.gameError('Failed to migrate room host after grace period', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+		}
+	}
+
+	private broadcastHostChanged(room: MultiplayerRoom, previousHostId: string): void {
+		this.broadcastToRoom(
+			room.roomId,
+			this.createGameEvent(MultiplayerEvent.HOST_CHANGED, room.roomId, {
+				previousHostId,
+				hostId: room.hostId,
+				players: room.players,
+			})
+		);
+		this.broadcastToRoom(room.roomId, this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, room.roomId, { room }));
+	}
+
 	private async handleReconnection(client: TypedSocket, userId: string): Promise<void> {
 		try {
 			const rooms = await this.roomService.findRoomsByUserId(userId);
-			for (const room of rooms) {
+			for (const foundRoom of rooms) {
 				try {
+					const wasDisconnected =
+						foundRoom.players.find(p => p.userId === userId)?.status === PlayerStatus.DISCONNECTED;
+					const room = (await this.roomService.reconnectPlayer(foundRoom.roomId, userId)) ?? foundRoom;
+
 					// Rejoin socket to room
 					client.join(room.roomId);
 					client.data.roomId = room.roomId;
 
+					// A host returning within the grace period keeps the room
+					if (room.hostId === userId) {
+						await this.hostMigrationScheduler.cancelMigration(room.roomId);
+					}
+
 					// Send current game state (may fail if room was deleted after findRoomsByUserId)
 					await this.sendGameStateToClient(client, room);
 
+					if (wasDisconnected) {
+						this.broadcastToRoom(
+							room.roomId,
+							this.createGameEvent(MultiplayerEvent.ROOM_UPDATED, room.roomId, { room })
+						);
+					}
+
 					logger.gameInfo('User reconnected to room', {
 						roomId: room.roomId,
 						userId,
@@ -606,7 +1056,7 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 				} catch (roomError) {
 					logger.gameError('Failed to send game state for reconnection, skipping room', {
 						errorInfo: { message: getErrorMessage(roomError) },
-						roomId: room.roomId,
+						roomId: foundRoom.roomId,
 						userId,
 					});
 				}
@@ -628,12 +1078,15 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 
 		// If there's a current question, send question-started event
 		if (room.status === RoomStatus.PLAYING && gameState.currentQuestion && room.currentQuestionStartTime) {
-			const serverStartTimestamp = new Date(room.currentQuestionStartTime).getTime();
-			const serverEndTimestamp = serverStartTimestamp + MULTIPLAYER_TIME_PER_QUESTION * TIME_PERIODS_MS.SECOND;
+			// While paused the window is moved forward so its remaining time matches the frozen clock
+			const pausedMs = room.pausedAt ? Date.now() - new Date(room.pausedAt).getTime() : 0;
+			const timeLimit = getRoomTimePerQuestion(room.config);
+			const serverStartTimestamp = new Date(room.currentQuestionStartTime).getTime() + pausedMs;
+			const serverEndTimestamp = serverStartTimestamp + timeLimit * TIME_PERIODS_MS.SECOND;
 			const questionStartedEvent = this.createGameEvent(MultiplayerEvent.QUESTION_STARTED, room.roomId, {
 				question: gameState.currentQuestion,
 				questionIndex: gameState.currentQuestionIndex,
-				timeLimit: MULTIPLAYER_TIME_PER_QUESTION,
+				timeLimit,
 				serverStartTimestamp,
 				serverEndTimestamp,
 			});
@@ -644,7 +1097,7 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 
 	private async handleAllPlayersDisconnected(roomId: string): Promise<void> {
 		try {
-			this.questionScheduler.cancelSchedule(roomId);
+			await this.questionScheduler.cancelSchedule(roomId);
 
 			// Update room status to cancelled
 			await this.roomService.updateRoomStatus(roomId, RoomStatus.CANCELLED);
@@ -668,18 +1121,4 @@ export class MultiplayerGateway implements OnGatewayConnection, OnGatewayDisconn
 	private broadcastToRoom(roomId: string, event: GameEvent) {
 		this.server.to(roomId).emit(event.type, event);
 	}
-
-	private startNextQuestionAsync(room: MultiplayerRoom, roomId: string): void {
-		const handleStartQuestion = async () => {
-			try {
-				await this.startQuestion(room);
-			} catch (error) {
-				logger.gameError('Failed to start next question', {
-					errorInfo: { message: getErrorMessage(error) },
-					roomId,
-				});
-			}
-		};
-		handleStartQuestion();
-	}
 }
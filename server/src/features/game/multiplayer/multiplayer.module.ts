@@ -11,6 +11,7 @@ import { CacheModule, StorageModule } from '@internal/modules';
 import { CreditsModule } from '../../credits';
 import { GameModule } from '../game.module';
 import { GameStateService } from './gameState.service';
+import { HostMigrationSchedulerService } from './hostMigrationScheduler.service';
 import { MultiplayerController } from './multiplayer.controller';
 import { MultiplayerGateway } from './multiplayer.gateway';
 import { MultiplayerService } from './multiplayer.service';
@@ -36,6 +37,7 @@ import { RoomService } from './room.service';
 		MultiplayerService,
 		MultiplayerGateway,
 		QuestionSchedulerService,
+		HostMigrationSchedulerService,
 		WsAuthGuard,
 	],
 	controllers: [MultiplayerController],
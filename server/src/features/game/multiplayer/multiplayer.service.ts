@@ -6,7 +6,8 @@ import {
 	GAME_MODES_CONFIG,
 	GameMode,
 	Locale,
-	MULTIPLAYER_TIME_PER_QUESTION,
+	PlayerStatus,
+	QuestionState,
 	RoomStatus,
 	TIME_PERIODS_MS,
 	VALIDATION_COUNT,
@@ -22,12 +23,13 @@ import type {
 	RoomConfig,
 	RoomStateResponse,
 } from '@shared/types';
-import { getCorrectAnswerIndex, getErrorMessage } from '@shared/utils';
+import { getCorrectAnswerIndex, getErrorMessage, getRoomTimePerQuestion, isTeamMode } from '@shared/utils';
 
 import { serverLogger as logger } from '@internal/services';
 
 import { CreditsService } from '../../credits/credits.service';
 import { GameService } from '../game.service';
+import { TopicCatalogService } from '../topicCatalog';
 import { GameStateService } from './gameState.service';
 import { RoomService } from './room.service';
 
@@ -37,7 +39,8 @@ export class MultiplayerService {
 		private readonly roomService: RoomService,
 		private readonly gameStateService: GameStateService,
 		private readonly gameService: GameService,
-		private readonly creditsService: CreditsService
+		private readonly creditsService: CreditsService,
+		private readonly topicCatalogService: TopicCatalogService
 	) {}
 
 	async createRoom(hostId: string, config: RoomConfig, isPublicLobby = false): Promise<CreateRoomResponse> {
@@ -73,8 +76,110 @@ export class MultiplayerService {
 		return this.roomService.updateRoom(roomId, { isPublicLobby, version: room.version });
 	}
 
-	async joinRoom(roomId: string, userId: string): Promise<MultiplayerRoom> {
-		return this.roomService.joinRoom(roomId, userId);
+	async kickPlayer(roomId: string, hostId: string, targetUserId: string, ban: boolean): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		this.validateModerationTarget(room, targetUserId);
+
+		return this.roomService.removePlayer(roomId, targetUserId, ban);
+	}
+
+	async transferHost(roomId: string, hostId: string, newHostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		this.validateModerationTarget(room, newHostId);
+		// A disconnected host would leave the room without anyone able to run it until migration kicks in
+		if (room.players.find(player => player.userId === newHostId)?.status === PlayerStatus.DISCONNECTED) {
+			throw new BadRequestException(ErrorCode.HOST_TARGET_DISCONNECTED);
+		}
+
+		return this.roomService.transferHost(roomId, newHostId);
+	}
+
+	async pauseGame(roomId: string, hostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		if (room.status !== RoomStatus.PLAYING) {
+			throw new BadRequestException(ErrorCode.GAME_NOT_IN_PLAYING_STATE);
+		}
+		if (room.pausedAt) {
+			throw new BadRequestException(ErrorCode.GAME_PAUSED);
+		}
+
+		return this.roomService.pauseRoom(roomId);
+	}
+
+	async resumeGame(roomId: string, hostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		if (room.status !== RoomStatus.PLAYING) {
+			throw new BadRequestException(ErrorCode.GAME_NOT_IN_PLAYING_STATE);
+		}
+		if (!room.pausedAt) {
+			throw new BadRequestException(ErrorCode.GAME_NOT_PAUSED);
+		}
+
+		return this.roomService.resumeRoom(roomId);
+	}
+
+	// Skipping from a paused state lifts the pause, otherwise the next question would never be scheduled
+	async skipQuestion(roomId: string, hostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		if (room.status !== RoomStatus.PLAYING) {
+			throw new BadRequestException(ErrorCode.GAME_NOT_IN_PLAYING_STATE);
+		}
+		if (room.questionState !== QuestionState.ACTIVE) {
+			throw new BadRequestException(ErrorCode.QUESTION_NOT_FOUND_OR_NOT_CURRENT);
+		}
+
+		return room.pausedAt ? this.roomService.resumeRoom(roomId) : room;
+	}
+
+	async rematch(roomId: string, hostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		if (room.status !== RoomStatus.FINISHED) {
+			throw new BadRequestException(ErrorCode.GAME_NOT_FINISHED);
+		}
+
+		return this.roomService.resetForRematch(roomId);
+	}
+
+	// Players pick their own team in the lobby; the host can move anyone
+	async assignTeam(
+		roomId: string,
+		requesterId: string,
+		targetUserId: string,
+		teamIndex: number
+	): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		if (requesterId === targetUserId) {
+			this.validateParticipant(room, requesterId);
+		} else {
+			this.validateHost(room, requesterId);
+		}
+		this.validateTeamLobby(room);
+		if (teamIndex >= (room.config.teamCount ?? 0)) {
+			throw new BadRequestException(ErrorCode.INVALID_TEAM);
+		}
+		if (!room.players.some(player => player.userId === targetUserId)) {
+			throw new NotFoundException(ErrorCode.PLAYER_NOT_FOUND_IN_ROOM);
+		}
+
+		return this.roomService.assignTeam(roomId, targetUserId, teamIndex);
+	}
+
+	async balanceTeams(roomId: string, hostId: string): Promise<MultiplayerRoom> {
+		const room = await this.roomService.getRoom(roomId);
+		this.validateHost(room, hostId);
+		this.validateTeamLobby(room);
+
+		return this.roomService.balanceTeams(roomId);
+	}
+
+	async joinRoom(roomId: string, userId: string, spectate = false): Promise<MultiplayerRoom> {
+		return this.roomService.joinRoom(roomId, userId, spectate);
 	}
 
 	async leaveRoom(roomId: string, userId: string): Promise<MultiplayerRoom | null> {
@@ -111,14 +216,27 @@ export class MultiplayerService {
 			throw new BadRequestException(ErrorCode.NEED_AT_LEAST_2_PLAYERS);
 		}
 
+		if (isTeamMode(room.config) && new Set(room.players.map(player => player.teamIndex)).size < 2) {
+			throw new BadRequestException(ErrorCode.NEED_AT_LEAST_2_TEAMS);
+		}
+
 		const defaultQuestions =
 			GAME_MODES_CONFIG[GameMode.MULTIPLAYER].defaults.maxQuestionsPerGame ?? VALIDATION_COUNT.QUESTIONS.MIN;
 		const questionsPerRequest = room.config.questionsPerRequest ?? defaultQuestions;
 		// Host pays for all questions × whoever is in the room at start time (same value enforced in creditsService.deductCredits).
+		// Spectators are kept outside room.players, so watching never adds to the charge.
 		const creditsToDeduct = questionsPerRequest * room.players.length;
 		await this.creditsService.deductCredits(hostId, creditsToDeduct, GameMode.MULTIPLAYER, 'multiplayer_host_start');
 
 		try {
+			// Resolved once at start so every player's history lands on the same catalog topic
+			room.config = {
+				...room.config,
+				topic: await this.topicCatalogService.resolveTopicName(
+					room.config.topic,
+					room.config.outputLanguage ?? DEFAULT_LANGUAGE
+				),
+			};
 			const triviaResult = await this.gameService.getTriviaQuestion({
 				topic: room.config.topic,
 				difficulty: room.config.difficulty,
@@ -175,6 +293,10 @@ export class MultiplayerService {
 			throw new BadRequestException(ErrorCode.GAME_NOT_IN_PLAYING_STATE);
 		}
 
+		if (room.spectators?.some(spectator => spectator.userId === userId)) {
+			throw new ForbiddenException(ErrorCode.SPECTATORS_CANNOT_ANSWER);
+		}
+
 		const result = await this.gameStateService.submitAnswer(room, userId, questionId, answer, timeSpent);
 		const gameState = this.gameStateService.getGameState(result.room);
 
@@ -217,13 +339,14 @@ export class MultiplayerService {
 		}
 
 		// Calculate server timestamps as authoritative source
+		const timeLimit = getRoomTimePerQuestion(updatedRoom.config);
 		const serverStartTimestamp = Date.now();
-		const serverEndTimestamp = serverStartTimestamp + MULTIPLAYER_TIME_PER_QUESTION * TIME_PERIODS_MS.SECOND;
+		const serverEndTimestamp = serverStartTimestamp + timeLimit * TIME_PERIODS_MS.SECOND;
 
 		return {
 			question,
 			questionIndex: updatedRoom.currentQuestionIndex,
-			timeLimit: MULTIPLAYER_TIME_PER_QUESTION,
+			timeLimit,
 			serverStartTimestamp,
 			serverEndTimestamp,
 		};
@@ -260,12 +383,44 @@ export class MultiplayerService {
 			throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
 		}
 
-		const isParticipant = room.players.some(player => player.userId === userId);
+		const isParticipant =
+			room.players.some(player => player.userId === userId) ||
+			(room.spectators?.some(spectator => spectator.userId === userId) ?? false);
 		if (!isParticipant) {
 			throw new ForbiddenException(ErrorCode.NOT_PART_OF_ROOM);
 		}
 	}
 
+	private validateHost(room: MultiplayerRoom | null, userId: string): asserts room is MultiplayerRoom {
+		if (!room) {
+			throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+		}
+		if (room.hostId !== userId) {
+			throw new ForbiddenException(ErrorCode.FORBIDDEN);
+		}
+	}
+
+	private validateTeamLobby(room: MultiplayerRoom): void {
+		if (!isTeamMode(room.config)) {
+			throw new BadRequestException(ErrorCode.TEAM_MODE_DISABLED);
+		}
+		if (room.status !== RoomStatus.WAITING) {
+			throw new BadRequestException(ErrorCode.GAME_ALREADY_STARTED_OR_FINISHED);
+		}
+	}
+
+	private validateModerationTarget(room: MultiplayerRoom, targetUserId: string): void {
+		if (targetUserId === room.hostId) {
+			throw new BadRequestException(ErrorCode.CANNOT_MODERATE_SELF);
+		}
+		if (room.status !== RoomStatus.WAITING && room.status !== RoomStatus.PLAYING) {
+			throw new BadRequestException(ErrorCode.GAME_ALREADY_STARTED_OR_FINISHED);
+		}
+		if (!room.players.some(player => player.userId === targetUserId)) {
+			throw new NotFoundException(ErrorCode.PLAYER_NOT_FOUND_IN_ROOM);
+		}
+	}
+
 	async getRoomDetails(roomId: string, userId: string): Promise<MultiplayerRoom> {
 		const room = await this.roomService.getRoom(roomId);
 		this.validateParticipant(room, userId);
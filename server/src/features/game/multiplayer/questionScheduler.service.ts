@@ -1,58 +1,237 @@
-import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
 
-import { getErrorMessage } from '@shared/utils';
+import { CACHE_KEYS, ERROR_MESSAGES, QuestionState, TIME_PERIODS_MS } from '@shared/constants';
+import { getErrorMessage, getRoomTimePerQuestion } from '@shared/utils';
 
+import { QUESTION_SCHEDULER_DEFAULTS } from '@internal/constants';
+import { StorageService } from '@internal/modules';
 import { serverLogger as logger } from '@internal/services';
 import type { QuestionSchedule } from '@internal/types';
 
+import { RoomService } from './room.service';
+
+type DeadlineHandler = (roomId: string) => Promise<void>;
+
 @Injectable()
-export class QuestionSchedulerService implements OnModuleDestroy {
+export class QuestionSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
 	private readonly activeSchedules = new Map<string, QuestionSchedule>();
+	private readonly instanceId = randomUUID();
+	private deadlineHandler: DeadlineHandler | null = null;
+	private sweepInterval: NodeJS.Timeout | null = null;
+	private isSweeping = false;
 
-	scheduleQuestionEnd(roomId: string, durationMs: number, endCallback: () => Promise<void>): void {
-		this.cancelSchedule(roomId);
-
-		const handleTimeout = async () => {
-			try {
-				this.activeSchedules.delete(roomId);
-				await endCallback();
-			} catch (error) {
-				logger.gameError('Question end callback failed (timeout)', {
-					errorInfo: { message: getErrorMessage(error) },
-					roomId,
-				});
-			}
-		};
-		const timeoutId = setTimeout(handleTimeout, durationMs);
+	constructor(
+		private readonly storageService: StorageService,
+		private readonly roomService: RoomService
+	) {}
+
+	registerDeadlineHandler(handler: DeadlineHandler): void {
+		this.deadlineHandler = handler;
+	}
+
+	async onApplicationBootstrap(): Promise<void> {
+		await this.recoverInFlightRooms();
+		this.sweepInterval = setInterval(() => {
+			void this.sweepOverdueDeadlines();
+		}, QUESTION_SCHEDULER_DEFAULTS.sweepIntervalMs);
+	}
+
+	async scheduleQuestionEnd(roomId: string, durationMs: number): Promise<void> {
+		await this.scheduleDeadline(roomId, durationMs);
+	}
+
+	async scheduleNextQuestion(roomId: string, delayMs: number): Promise<void> {
+		await this.scheduleDeadline(roomId, delayMs);
+	}
+
+	async cancelSchedule(roomId: string): Promise<void> {
+		this.clearLocalTimer(roomId);
+		const result = await this.storageService.removeFromSortedSet(CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES, roomId);
+		if (!result.success) {
+			logger.gameError('Failed to delete question deadline', {
+				roomId,
+				errorInfo: { message: result.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+			});
+		}
+	}
+
+	onModuleDestroy(): void {
+		if (this.sweepInterval) {
+			clearInterval(this.sweepInterval);
+			this.sweepInterval = null;
+		}
+		// Deadlines stay in Redis so another instance (or this one after a restart) picks them up
+		for (const [roomId, schedule] of this.activeSchedules.entries()) {
+			clearTimeout(schedule.timeoutId);
+			logger.gameInfo('Cleaned up question schedule on module destroy', {
+				roomId,
+			});
+		}
+		this.activeSchedules.clear();
+	}
+
+	private async scheduleDeadline(roomId: string, durationMs: number): Promise<void> {
+		this.clearLocalTimer(roomId);
+
+		const deadline = Date.now() + durationMs;
+		const result = await this.storageService.addToSortedSet(
+			CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES,
+			roomId,
+			deadline
+		);
+		if (!result.success) {
+			logger.gameError('Failed to persist question deadline, relying on local timer', {
+				roomId,
+				errorInfo: { message: result.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+			});
+		}
+
+		// The local timer keeps the owning instance on time; the sweep only covers deadlines whose owner is gone
+		const timeoutId = setTimeout(() => {
+			void this.fireDeadline(roomId, deadline);
+		}, durationMs);
 
 		this.activeSchedules.set(roomId, {
 			timeoutId,
 			roomId,
-			startedAt: new Date(),
+			deadline,
 		});
 	}
 
-	cancelSchedule(roomId: string): void {
+	private clearLocalTimer(roomId: string): void {
 		const schedule = this.activeSchedules.get(roomId);
 		if (schedule) {
 			clearTimeout(schedule.timeoutId);
-			if (schedule.checkInterval) {
-				clearInterval(schedule.checkInterval);
-			}
 			this.activeSchedules.delete(roomId);
 		}
 	}
 
-	onModuleDestroy(): void {
-		for (const [roomId, schedule] of this.activeSchedules.entries()) {
-			clearTimeout(schedule.timeoutId);
-			if (schedule.checkInterval) {
-				clearInterval(schedule.checkInterval);
+	private async fireDeadline(roomId: string, deadline: number): Promise<void> {
+		if (this.activeSchedules.get(roomId)?.deadline === deadline) {
+			this.activeSchedules.delete(roomId);
+		}
+
+		if (!this.deadlineHandler) {
+			return;
+		}
+
+		const leaseKey = CACHE_KEYS.MULTIPLAYER.QUESTION_LEASE(roomId);
+		const lease = await this.storageService.setIfAbsent(
+			leaseKey,
+			this.instanceId,
+			QUESTION_SCHEDULER_DEFAULTS.leaseTtlSeconds
+		);
+		if (!lease.success || !lease.data) {
+			return;
+		}
+
+		try {
+			// The deadline may have been handled or replaced while another instance held the lease
+			const current = await this.getStoredDeadline(roomId);
+			if (current != null && current !== deadline) {
+				return;
 			}
-			logger.gameInfo('Cleaned up question schedule on module destroy', {
+
+			await this.deadlineHandler(roomId);
+
+			const after = await this.getStoredDeadline(roomId);
+			if (after === deadline) {
+				await this.storageService.removeFromSortedSet(CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES, roomId);
+			}
+		} catch (error) {
+			// The deadline is kept, so the sweep retries once the lease expires
+			logger.gameError('Question deadline handler failed', {
+				errorInfo: { message: getErrorMessage(error) },
 				roomId,
 			});
+		} finally {
+			await this.releaseLease(leaseKey);
+		}
+	}
+
+	private async releaseLease(leaseKey: string): Promise<void> {
+		// Compare-and-delete, so a lease that expired and was taken over by another instance is left alone
+		const result = await this.storageService.deleteIfValue(leaseKey, this.instanceId);
+		if (!result.success) {
+			logger.gameError('Failed to release question lease', {
+				errorInfo: { message: result.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+			});
+		}
+	}
+
+	private async getStoredDeadline(roomId: string): Promise<number | null> {
+		const result = await this.storageService.getSortedSetScore(CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES, roomId);
+		return result.success ? (result.data ?? null) : null;
+	}
+
+	private async sweepOverdueDeadlines(): Promise<void> {
+		if (this.isSweeping) {
+			return;
+		}
+
+		this.isSweeping = true;
+		try {
+			const now = Date.now();
+			const overdueResult = await this.storageService.getSortedSetRangeByScore(
+				CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES,
+				now
+			);
+			if (!overdueResult.success || !overdueResult.data) {
+				return;
+			}
+
+			for (const { member: roomId, score: deadline } of overdueResult.data) {
+				if (now - deadline > QUESTION_SCHEDULER_DEFAULTS.staleDeadlineMs) {
+					await this.storageService.removeFromSortedSet(CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES, roomId);
+					continue;
+				}
+				await this.fireDeadline(roomId, deadline);
+			}
+		} catch (error) {
+			logger.gameError('Failed to sweep question deadlines', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		} finally {
+			this.isSweeping = false;
+		}
+	}
+
+	private async recoverInFlightRooms(): Promise<void> {
+		try {
+			const rooms = await this.roomService.listInFlightRooms();
+			let recovered = 0;
+
+			for (const room of rooms) {
+				// A paused room gets its deadline back when the host resumes
+				if (room.pausedAt !== undefined || (await this.getStoredDeadline(room.roomId)) != null) {
+					continue;
+				}
+
+				// A room interrupted mid-question keeps its original end time; one caught between questions resumes now
+				const deadline =
+					room.questionState === QuestionState.ACTIVE && room.currentQuestionStartTime
+						? room.currentQuestionStartTime.getTime() + getRoomTimePerQuestion(room.config) * TIME_PERIODS_MS.SECOND
+						: Date.now();
+				const result = await this.storageService.addToSortedSet(
+					CACHE_KEYS.MULTIPLAYER.QUESTION_DEADLINES,
+					room.roomId,
+					deadline
+				);
+				if (result.success) {
+					recovered++;
+				}
+			}
+
+			if (recovered > 0) {
+				logger.gameInfo('Recovered question deadlines for in-flight multiplayer rooms', {
+					count: recovered,
+				});
+			}
+		} catch (error) {
+			logger.gameError('Failed to recover in-flight multiplayer rooms', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
 		}
-		this.activeSchedules.clear();
 	}
 }
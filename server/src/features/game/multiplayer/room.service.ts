@@ -1,4 +1,4 @@
-import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 
@@ -23,15 +23,18 @@ import {
 	delay,
 	getDisplayNameFromUserFields,
 	getErrorMessage,
+	getSmallestTeamIndex,
 	isMultiplayerRoom,
 	isNonEmptyString,
 	isRecord,
+	isTeamMode,
 } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
 import { UserEntity } from '@internal/entities';
 import { StorageService } from '@internal/modules';
 import { serverLogger as logger } from '@internal/services';
+import type { HostMigrationResult } from '@internal/types';
 import { getAvatarUrlForUser } from '@internal/utils';
 
 @Injectable()
@@ -112,6 +115,7 @@ export class RoomService {
 				isHost: true,
 				answersSubmitted: 0,
 				correctAnswers: 0,
+				...(isTeamMode(config) && { teamIndex: 0 }),
 			};
 
 			// Create room
@@ -186,7 +190,7 @@ export class RoomService {
 		}
 	}
 
-	async joinRoom(roomId: string, userId: string): Promise<MultiplayerRoom> {
+	async joinRoom(roomId: string, userId: string, spectate = false): Promise<MultiplayerRoom> {
 		try {
 			const room = await this.getRoom(roomId);
 			if (!room) {
@@ -198,21 +202,26 @@ export class RoomService {
 			// This prevents ROOM_FULL and ROOM_NOT_ACCEPTING_PLAYERS errors when user reconnects
 			const existingPlayer = room.players.find(p => p.userId === userId);
 			if (existingPlayer) {
-				if (existingPlayer.status === PlayerStatus.DISCONNECTED) {
-					existingPlayer.status = room.status === RoomStatus.PLAYING ? PlayerStatus.PLAYING : PlayerStatus.WAITING;
-					existingPlayer.lastActivity = new Date();
-					room.updatedAt = new Date();
-					await this.persistRoomSnapshot(room);
-				}
+				await this.restoreDisconnectedPlayer(room, existingPlayer);
+				return room;
+			}
+			if (room.spectators?.some(s => s.userId === userId)) {
 				return room;
 			}
 
+			if (room.bannedUserIds?.includes(userId)) {
+				throw new ForbiddenException(ErrorCode.BANNED_FROM_ROOM);
+			}
+
 			// Only check room status for new joins
-			if (room.status !== RoomStatus.WAITING) {
+			if (room.status === RoomStatus.FINISHED || room.status === RoomStatus.CANCELLED) {
 				throw new BadRequestException(ErrorCode.ROOM_NOT_ACCEPTING_PLAYERS);
 			}
 
-			if (room.players.length >= room.config.maxPlayers) {
+			// Anyone arriving after the game started can only watch it
+			const asSpectator = spectate || room.status !== RoomStatus.WAITING;
+			const capacity = asSpectator ? VALIDATION_COUNT.SPECTATORS.MAX : room.config.maxPlayers;
+			if ((asSpectator ? (room.spectators?.length ?? 0) : room.players.length) >= capacity) {
 				throw new BadRequestException(ErrorCode.ROOM_FULL);
 			}
 
@@ -239,16 +248,21 @@ export class RoomService {
 				correctAnswers: 0,
 			};
 
-			// Add player to room
-			room.players.push(player);
+			if (asSpectator) {
+				room.spectators = [...(room.spectators ?? []), player];
+			} else {
+				this.assignOpenTeam(room, player);
+				room.players.push(player);
+			}
 			room.updatedAt = new Date();
 
 			await this.persistRoomSnapshot(room);
 
-			logger.gameInfo('Player joined multiplayer room', {
+			logger.gameInfo(asSpectator ? 'Spectator joined multiplayer room' : 'Player joined multiplayer room', {
 				roomId,
 				userId,
 				playerCount: room.players.length,
+				spectatorCount: room.spectators?.length ?? 0,
 			});
 
 			return room;
@@ -269,6 +283,10 @@ export class RoomService {
 				return null;
 			}
 
+			if (await this.removeSpectator(room, userId)) {
+				return room;
+			}
+
 			// Remove player
 			room.players = room.players.filter(p => p.userId !== userId);
 
@@ -314,6 +332,30 @@ export class RoomService {
 		}
 	}
 
+	// Socket-level reconnects skip JOIN_ROOM, so the player is marked back as connected here
+	async reconnectPlayer(roomId: string, userId: string): Promise<MultiplayerRoom | null> {
+		try {
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				return null;
+			}
+
+			const player = room.players.find(p => p.userId === userId);
+			if (player) {
+				await this.restoreDisconnectedPlayer(room, player);
+			}
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to mark player as reconnected', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+				userId,
+			});
+			throw error;
+		}
+	}
+
 	async disconnectPlayer(roomId: string, userId: string): Promise<MultiplayerRoom | null> {
 		try {
 			const room = await this.getRoom(roomId);
@@ -321,6 +363,11 @@ export class RoomService {
 				return null;
 			}
 
+			// Spectators hold no game state, so a dropped one simply rejoins as a new watcher
+			if (await this.removeSpectator(room, userId)) {
+				return room;
+			}
+
 			const player = room.players.find(p => p.userId === userId);
 			if (!player) {
 				return room;
@@ -347,6 +394,317 @@ export class RoomService {
 		}
 	}
 
+	async removePlayer(roomId: string, userId: string, ban: boolean): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+			if (!room.players.some(p => p.userId === userId)) {
+				throw new NotFoundException(ErrorCode.PLAYER_NOT_FOUND_IN_ROOM);
+			}
+
+			room.players = room.players.filter(p => p.userId !== userId);
+			if (ban && !room.bannedUserIds?.includes(userId)) {
+				room.bannedUserIds = [...(room.bannedUserIds ?? []), userId];
+			}
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Player removed from multiplayer room', {
+				roomId,
+				targetUserId: userId,
+				banned: ban,
+				playerCount: room.players.length,
+			});
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to remove player from multiplayer room', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+				targetUserId: userId,
+			});
+			throw error;
+		}
+	}
+
+	async transferHost(roomId: string, newHostId: string): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+			if (!room.players.some(p => p.userId === newHostId)) {
+				throw new NotFoundException(ErrorCode.PLAYER_NOT_FOUND_IN_ROOM);
+			}
+
+			this.assignHost(room, newHostId);
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Multiplayer room host transferred', {
+				roomId,
+				hostId: newHostId,
+			});
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to transfer multiplayer room host', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+				targetUserId: newHostId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Hands host rights to the longest-connected active player once the host has been disconnected for the grace period.
+	 * Returns null when the host came back, the grace period has not elapsed, or nobody is left to take over.
+	 */
+	async migrateHost(roomId: string, gracePeriodMs: number): Promise<HostMigrationResult | null> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room || (room.status !== RoomStatus.WAITING && room.status !== RoomStatus.PLAYING)) {
+				return null;
+			}
+
+			const previousHostId = room.hostId;
+			const host = room.players.find(p => p.userId === previousHostId);
+			if (host) {
+				const disconnectedMs = Date.now() - new Date(host.lastActivity ?? room.updatedAt).getTime();
+				if (host.status !== PlayerStatus.DISCONNECTED || disconnectedMs < gracePeriodMs) {
+					return null;
+				}
+			}
+
+			const [newHost] = room.players
+				.filter(p => p.userId !== previousHostId && p.status !== PlayerStatus.DISCONNECTED)
+				.sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+			if (!newHost) {
+				return null;
+			}
+
+			this.assignHost(room, newHost.userId);
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Multiplayer room host migrated after disconnect', {
+				roomId,
+				hostId: newHost.userId,
+				targetUserId: previousHostId,
+			});
+
+			return { room, previousHostId };
+		} catch (error) {
+			logger.gameError('Failed to migrate multiplayer room host', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Reopens a finished room as a waiting lobby with fresh scores.
+	 * Spectators fill free seats in the order they arrived, and players who dropped out of the last game are let go.
+	 */
+	async resetForRematch(roomId: string): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+
+			const players = room.players.filter(p => p.status !== PlayerStatus.DISCONNECTED);
+			const spectators = [...(room.spectators ?? [])].sort(
+				(a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime()
+			);
+			const openSeats = Math.max(room.config.maxPlayers - players.length, 0);
+
+			room.players = [...players, ...spectators.slice(0, openSeats)].map(player => ({
+				...player,
+				status: PlayerStatus.WAITING,
+				score: 0,
+				answersSubmitted: 0,
+				correctAnswers: 0,
+				currentAnswer: undefined,
+				timeSpent: undefined,
+				answerHistory: [],
+			}));
+			room.spectators = spectators.slice(openSeats);
+			// Promoted spectators join the smallest team, one at a time so each pick sees the previous one
+			room.players
+				.filter(player => player.teamIndex === undefined)
+				.forEach(player => this.assignOpenTeam(room, player));
+			room.status = RoomStatus.WAITING;
+			room.questions = [];
+			room.currentQuestionIndex = 0;
+			room.questionState = QuestionState.IDLE;
+			delete room.currentQuestionStartTime;
+			delete room.startTime;
+			delete room.endTime;
+			delete room.pausedAt;
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Multiplayer room reset for rematch', {
+				roomId,
+				playerCount: room.players.length,
+				spectatorCount: room.spectators.length,
+			});
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to reset multiplayer room for rematch', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+			throw error;
+		}
+	}
+
+	async assignTeam(roomId: string, userId: string, teamIndex: number): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+			const player = room.players.find(p => p.userId === userId);
+			if (!player) {
+				throw new NotFoundException(ErrorCode.PLAYER_NOT_FOUND_IN_ROOM);
+			}
+
+			player.teamIndex = teamIndex;
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Multiplayer player assigned to team', {
+				roomId,
+				userId,
+				teamIndex,
+			});
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to assign multiplayer team', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+				userId,
+				teamIndex,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Deals players out to the teams in join order, so team sizes differ by at most one.
+	 * Players who are not connected are still dealt a team so a rejoin does not leave them without one.
+	 */
+	async balanceTeams(roomId: string): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+
+			const teamCount = room.config.teamCount ?? 0;
+			[...room.players]
+				.sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime())
+				.forEach((player, index) => {
+					player.teamIndex = index % teamCount;
+				});
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			logger.gameInfo('Multiplayer teams balanced', {
+				roomId,
+				playerCount: room.players.length,
+				teamCount,
+			});
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to balance multiplayer teams', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+			throw error;
+		}
+	}
+
+	async pauseRoom(roomId: string): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+
+			room.pausedAt ??= new Date();
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to pause multiplayer room', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+			throw error;
+		}
+	}
+
+	async resumeRoom(roomId: string): Promise<MultiplayerRoom> {
+		try {
+			this.invalidateRoomCache(roomId);
+
+			const room = await this.getRoom(roomId);
+			if (!room) {
+				throw new NotFoundException(ErrorCode.ROOM_NOT_FOUND);
+			}
+
+			// Shifting the start by the paused span keeps every deadline derived from it (answers, recovery) correct
+			if (room.pausedAt && room.questionState === QuestionState.ACTIVE && room.currentQuestionStartTime) {
+				const pausedMs = Date.now() - new Date(room.pausedAt).getTime();
+				room.currentQuestionStartTime = new Date(new Date(room.currentQuestionStartTime).getTime() + pausedMs);
+			}
+			delete room.pausedAt;
+			room.updatedAt = new Date();
+
+			await this.persistRoomSnapshot(room);
+
+			return room;
+		} catch (error) {
+			logger.gameError('Failed to resume multiplayer room', {
+				errorInfo: { message: getErrorMessage(error) },
+				roomId,
+			});
+			throw error;
+		}
+	}
+
 	async updateRoomStatus(roomId: string, status: RoomStatus): Promise<MultiplayerRoom> {
 		try {
 			this.invalidateRoomCache(roomId);
@@ -480,6 +838,67 @@ export class RoomService {
 		}
 	}
 
+	async listInFlightRooms(): Promise<MultiplayerRoom[]> {
+		return this.listRoomsByStatus([RoomStatus.PLAYING]);
+	}
+
+	// Rooms that still have a host to hand over (lobby or game in progress)
+	async listOpenRooms(): Promise<MultiplayerRoom[]> {
+		return this.listRoomsByStatus([RoomStatus.WAITING, RoomStatus.PLAYING]);
+	}
+
+	private async listRoomsByStatus(statuses: RoomStatus[]): Promise<MultiplayerRoom[]> {
+		const rooms: MultiplayerRoom[] = [];
+		const keysResult = await this.storageService.getKeysByRelativePattern(CACHE_KEYS.MULTIPLAYER.ROOM_PATTERN);
+		if (!keysResult.success || !keysResult.data) {
+			return rooms;
+		}
+
+		for (const key of keysResult.data) {
+			const result = await this.storageService.get(key);
+			if (!result.success || result.data == null) {
+				continue;
+			}
+			const room = this.parseRoomFromStorage(result.data);
+			if (room && statuses.includes(room.status)) {
+				rooms.push(room);
+			}
+		}
+
+		return rooms;
+	}
+
+	private async removeSpectator(room: MultiplayerRoom, userId: string): Promise<boolean> {
+		if (!room.spectators?.some(s => s.userId === userId)) {
+			return false;
+		}
+
+		room.spectators = room.spectators.filter(s => s.userId !== userId);
+		room.updatedAt = new Date();
+		await this.persistRoomSnapshot(room);
+
+		logger.gameInfo('Spectator left multiplayer room', {
+			roomId: room.roomId,
+			userId,
+			spectatorCount: room.spectators.length,
+		});
+
+		return true;
+	}
+
+	private assignHost(room: MultiplayerRoom, hostId: string): void {
+		room.hostId = hostId;
+		for (const player of room.players) {
+			player.isHost = player.userId === hostId;
+		}
+	}
+
+	private assignOpenTeam(room: MultiplayerRoom, player: Player): void {
+		if (isTeamMode(room.config)) {
+			player.teamIndex = getSmallestTeamIndex(room.players, room.config.teamCount ?? 0);
+		}
+	}
+
 	private cacheRoom(room: MultiplayerRoom): void {
 		this.inMemoryRooms.set(room.roomId, {
 			room,
@@ -579,9 +998,16 @@ export class RoomService {
 			lastActivity: p.lastActivity !== undefined ? RoomService.toDate(p.lastActivity, 'lastActivity') : undefined,
 		}));
 
+		const normalizedSpectators: Player[] | undefined = merged.spectators?.map(s => ({
+			...s,
+			joinedAt: RoomService.toDate(s.joinedAt, 'joinedAt'),
+			lastActivity: s.lastActivity !== undefined ? RoomService.toDate(s.lastActivity, 'lastActivity') : undefined,
+		}));
+
 		return {
 			...merged,
 			players: normalizedPlayers,
+			spectators: normalizedSpectators,
 			createdAt: RoomService.toDate(merged.createdAt, 'createdAt'),
 			updatedAt: RoomService.toDate(merged.updatedAt, 'updatedAt'),
 			currentQuestionStartTime:
@@ -590,6 +1016,7 @@ export class RoomService {
 					: undefined,
 			startTime: merged.startTime !== undefined ? RoomService.toDate(merged.startTime, 'startTime') : undefined,
 			endTime: merged.endTime !== undefined ? RoomService.toDate(merged.endTime, 'endTime') : undefined,
+			pausedAt: merged.pausedAt !== undefined ? RoomService.toDate(merged.pausedAt, 'pausedAt') : undefined,
 		};
 	}
 
@@ -628,6 +1055,7 @@ export class RoomService {
 					status: p.status,
 				};
 			}),
+			spectatorCount: room.spectators?.length ?? 0,
 		};
 	}
 
@@ -669,6 +1097,7 @@ export class RoomService {
 		if ('questionState' in rest) room.questionState = rest.questionState;
 		if ('startTime' in rest) room.startTime = rest.startTime;
 		if ('endTime' in rest) room.endTime = rest.endTime;
+		if ('pausedAt' in rest) room.pausedAt = rest.pausedAt;
 		if (Array.isArray(incomingPlayers)) {
 			for (const incoming of incomingPlayers) {
 				const existing = room.players.find(p => p.userId === incoming.userId);
@@ -692,6 +1121,7 @@ export class RoomService {
 					});
 					if ('currentAnswer' in incoming) existing.currentAnswer = incoming.currentAnswer;
 					if ('timeSpent' in incoming) existing.timeSpent = incoming.timeSpent;
+					if ('answerHistory' in incoming) existing.answerHistory = incoming.answerHistory;
 				} else {
 					const newPlayer: Player = {
 						userId: incoming.userId,
@@ -709,6 +1139,7 @@ export class RoomService {
 						isHost: incoming.isHost ?? false,
 						currentAnswer: incoming.currentAnswer,
 						timeSpent: incoming.timeSpent,
+						answerHistory: incoming.answerHistory,
 						answersSubmitted: incoming.answersSubmitted ?? 0,
 						correctAnswers: incoming.correctAnswers ?? 0,
 					};
@@ -718,6 +1149,16 @@ export class RoomService {
 		}
 	}
 
+	private async restoreDisconnectedPlayer(room: MultiplayerRoom, player: Player): Promise<void> {
+		if (player.status !== PlayerStatus.DISCONNECTED) {
+			return;
+		}
+		player.status = room.status === RoomStatus.PLAYING ? PlayerStatus.PLAYING : PlayerStatus.WAITING;
+		player.lastActivity = new Date();
+		room.updatedAt = new Date();
+		await this.persistRoomSnapshot(room);
+	}
+
 	private async persistRoomSnapshot(room: MultiplayerRoom): Promise<void> {
 		this.cacheRoom(room);
 		const maxRetries = 3;
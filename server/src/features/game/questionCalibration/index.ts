@@ -0,0 +1,2 @@
+export { QuestionCalibrationController } from './questionCalibration.controller';
+export { QuestionCalibrationService } from './questionCalibration.service';
@@ -0,0 +1,63 @@
+import { Controller, Get, Post } from '@nestjs/common';
+
+import { API_ENDPOINTS, UserRole } from '@shared/constants';
+import type { QuestionCalibrationRunSummary, QuestionCalibrationStatus } from '@shared/types';
+import { getErrorMessage } from '@shared/utils';
+
+import { CurrentUser, Roles } from '@common/decorators';
+import { serverLogger as logger } from '@internal/services';
+import type { TokenPayload } from '@internal/types';
+
+import { QuestionCalibrationService } from './questionCalibration.service';
+
+@Controller(API_ENDPOINTS.ADMIN.QUESTION_CALIBRATION)
+export class QuestionCalibrationController {
+	constructor(private readonly questionCalibrationService: QuestionCalibrationService) {}
+
+	@Get()
+	@Roles(UserRole.ADMIN)
+	async getStatus(@CurrentUser() user: TokenPayload): Promise<QuestionCalibrationStatus> {
+		try {
+			const status = await this.questionCalibrationService.getStatus();
+
+			logger.apiRead('admin_question_calibration_status', {
+				userId: user.sub,
+				role: user.role,
+				count: status.miscalibratedCount,
+			});
+
+			return status;
+		} catch (error) {
+			logger.gameError('Failed to get question calibration status', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('run')
+	@Roles(UserRole.ADMIN)
+	async runCalibration(@CurrentUser() user: TokenPayload): Promise<QuestionCalibrationRunSummary> {
+		try {
+			const summary = await this.questionCalibrationService.calibrate();
+
+			logger.apiUpdate('admin_question_calibration_run', {
+				userId: user.sub,
+				role: user.role,
+				status: summary.outcome,
+				actualCount: summary.questionsCalibrated,
+			});
+
+			return summary;
+		} catch (error) {
+			logger.gameError('Failed to run question calibration', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+}
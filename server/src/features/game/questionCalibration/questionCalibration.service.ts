@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+
+import { CACHE_KEYS, DifficultyLevel, ERROR_MESSAGES, QuestionCalibrationRunOutcome } from '@shared/constants';
+import type {
+	MiscalibratedTriviaQuestion,
+	QuestionCalibrationRunSummary,
+	QuestionCalibrationStatus,
+} from '@shared/types';
+import { calculateDuration, getErrorMessage } from '@shared/utils';
+
+import { QUESTION_CALIBRATION_DEFAULTS } from '@internal/constants';
+import { TriviaEntity } from '@internal/entities';
+import { CacheInvalidationService, StorageService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import { addMiscalibratedTriviaConditions, createServerError, isQuestionCalibrationRunSummary } from '@internal/utils';
+
+@Injectable()
+export class QuestionCalibrationService {
+	constructor(
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		private readonly storageService: StorageService,
+		private readonly cacheInvalidationService: CacheInvalidationService
+	) {}
+
+	async getStatus(): Promise<QuestionCalibrationStatus> {
+		try {
+			const miscalibratedQuery = addMiscalibratedTriviaConditions(
+				this.triviaRepository.createQueryBuilder('trivia').where('trivia.retiredAt IS NULL'),
+				'trivia'
+			);
+			const [miscalibratedEntities, miscalibratedCount] = await miscalibratedQuery
+				.orderBy('trivia.attemptCount', 'DESC')
+				.take(QUESTION_CALIBRATION_DEFAULTS.miscalibratedListLimit)
+				.getManyAndCount();
+			const calibratedCount = await this.triviaRepository.count({
+				where: { calibratedDifficulty: Not(IsNull()), retiredAt: IsNull() },
+			});
+			const lastRun = await this.storageService.get(
+				CACHE_KEYS.QUESTION_CALIBRATION.LAST_RUN,
+				isQuestionCalibrationRunSummary
+			);
+
+			return {
+				minAttempts: QUESTION_CALIBRATION_DEFAULTS.minAttempts,
+				easySuccessRate: QUESTION_CALIBRATION_DEFAULTS.easySuccessRate,
+				mediumSuccessRate: QUESTION_CALIBRATION_DEFAULTS.mediumSuccessRate,
+				calibratedCount,
+				miscalibratedCount,
+				miscalibrated: miscalibratedEntities.flatMap(
+					questionEntity => this.toMiscalibratedQuestion(questionEntity) ?? []
+				),
+				lastRun: lastRun.success ? (lastRun.data ?? null) : null,
+			};
+		} catch (error) {
+			throw createServerError('get question calibration status', error);
+		}
+	}
+
+	/**
+	 * Recomputes success rate and average answer time for every question that appears in game history,
+	 * then stores a calibrated level and score (1 - success rate) for questions with at least minAttempts answers.
+	 * The whole pass is a single statement, so a run never leaves half-updated statistics behind.
+	 */
+	async calibrate(): Promise<QuestionCalibrationRunSummary> {
+		const startTime = Date.now();
+		const startedAt = new Date(startTime).toISOString();
+
+		const lease = await this.storageService.setIfAbsent(
+			CACHE_KEYS.QUESTION_CALIBRATION.RUN_LEASE,
+			startedAt,
+			QUESTION_CALIBRATION_DEFAULTS.leaseTtlSeconds
+		);
+		if (!lease.success || !lease.data) {
+			return {
+				outcome: QuestionCalibrationRunOutcome.ALREADY_RUNNING,
+				startedAt,
+				finishedAt: new Date().toISOString(),
+				questionsWithAnswers: 0,
+				questionsCalibrated: 0,
+				miscalibratedCount: 0,
+			};
+		}
+
+		try {
+			const [, questionsWithAnswers]: [unknown[], number] = await this.triviaRepository.query(
+				`WITH answer_stats AS (
+				   SELECT answer->>'questionId' AS question_id,
+				     COUNT(*) AS attempt_count,
+				     AVG(CASE WHEN answer->>'isCorrect' = 'true' THEN 1.0 ELSE 0.0 END) AS success_rate,
+				     AVG(CASE WHEN jsonb_typeof(answer->'timeSpent') = 'number' THEN (answer->>'timeSpent')::real END) AS average_time_spent
+				   FROM game_history gh,
+				   LATERAL jsonb_array_elements(gh.questions_data) AS answer
+				   WHERE answer->>'questionId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+				   GROUP BY answer->>'questionId'
+				 )
+				 UPDATE trivia t
+				 SET attempt_count = s.attempt_count,
+				   success_rate = s.success_rate,
+				   average_time_spent = s.average_time_spent,
+				   calibrated_difficulty = CASE
+				     WHEN s.attempt_count < $1 THEN NULL
+				     WHEN s.success_rate >= $2 THEN $4
+				     WHEN s.success_rate >= $3 THEN $5
+				     ELSE $6
+				   END,
+				   calibrated_difficulty_score = CASE WHEN s.attempt_count < $1 THEN NULL ELSE 1 - s.success_rate END,
+				   calibrated_at = NOW()
+				 FROM answer_stats s
+				 WHERE t.id = s.question_id::uuid`,
+				[
+					QUESTION_CALIBRATION_DEFAULTS.minAttempts,
+					QUESTION_CALIBRATION_DEFAULTS.easySuccessRate,
+					QUESTION_CALIBRATION_DEFAULTS.mediumSuccessRate,
+					DifficultyLevel.EASY,
+					DifficultyLevel.MEDIUM,
+					DifficultyLevel.HARD,
+				]
+			);
+
+			const questionsCalibrated = await this.triviaRepository.count({
+				where: { calibratedDifficulty: Not(IsNull()) },
+			});
+			const miscalibratedCount = await addMiscalibratedTriviaConditions(
+				this.triviaRepository.createQueryBuilder('trivia').where('trivia.retiredAt IS NULL'),
+				'trivia'
+			).getCount();
+
+			// Calibrated levels change which questions games pick, so cached question lists are stale
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+
+			const summary: QuestionCalibrationRunSummary = {
+				outcome: QuestionCalibrationRunOutcome.COMPLETED,
+				startedAt,
+				finishedAt: new Date().toISOString(),
+				questionsWithAnswers,
+				questionsCalibrated,
+				miscalibratedCount,
+			};
+			await this.storageService.set(
+				CACHE_KEYS.QUESTION_CALIBRATION.LAST_RUN,
+				summary,
+				QUESTION_CALIBRATION_DEFAULTS.lastRunTtlSeconds
+			);
+
+			logger.gameInfo('Question calibration finished', {
+				status: summary.outcome,
+				totalCount: questionsWithAnswers,
+				actualCount: questionsCalibrated,
+				count: miscalibratedCount,
+				duration: calculateDuration(startTime),
+			});
+
+			return summary;
+		} catch (error) {
+			logger.gameError('Question calibration failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('calibrate questions', error);
+		} finally {
+			// Compare-and-delete, so a run that outlived its lease leaves the one another instance took over alone
+			const released = await this.storageService.deleteIfValue(CACHE_KEYS.QUESTION_CALIBRATION.RUN_LEASE, startedAt);
+			if (!released.success) {
+				logger.gameError('Failed to release question calibration lease', {
+					errorInfo: { message: released.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+				});
+			}
+		}
+	}
+
+	private toMiscalibratedQuestion(questionEntity: TriviaEntity): MiscalibratedTriviaQuestion | null {
+		const { calibratedDifficulty, calibratedDifficultyScore, successRate } = questionEntity;
+		if (calibratedDifficulty == null || calibratedDifficultyScore == null || successRate == null) {
+			return null;
+		}
+
+		return {
+			id: questionEntity.id,
+			question: questionEntity.question,
+			topic: questionEntity.topic,
+			difficulty:
+				questionEntity.difficulty === DifficultyLevel.CUSTOM
+					? (questionEntity.metadata?.mappedDifficulty ?? DifficultyLevel.MEDIUM)
+					: questionEntity.difficulty,
+			calibratedDifficulty,
+			calibratedDifficultyScore,
+			attemptCount: questionEntity.attemptCount,
+			successRate,
+			averageTimeSpent: questionEntity.averageTimeSpent,
+		};
+	}
+}
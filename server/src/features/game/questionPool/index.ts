@@ -0,0 +1,2 @@
+export { QuestionPoolController } from './questionPool.controller';
+export { QuestionPoolService } from './questionPool.service';
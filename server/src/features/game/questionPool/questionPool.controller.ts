@@ -0,0 +1,89 @@
+import { Body, Controller, Get, Post, Put } from '@nestjs/common';
+
+import { API_ENDPOINTS, UserRole } from '@shared/constants';
+import type { QuestionPoolRunSummary, QuestionPoolSettings, QuestionPoolStatus } from '@shared/types';
+import { getErrorMessage } from '@shared/utils';
+
+import { CurrentUser, Roles } from '@common/decorators';
+import { serverLogger as logger } from '@internal/services';
+import type { TokenPayload } from '@internal/types';
+
+import { UpdateQuestionPoolSettingsDto } from '../dtos';
+import { QuestionPoolService } from './questionPool.service';
+
+@Controller(API_ENDPOINTS.ADMIN.QUESTION_POOL)
+export class QuestionPoolController {
+	constructor(private readonly questionPoolService: QuestionPoolService) {}
+
+	@Get()
+	@Roles(UserRole.ADMIN)
+	async getStatus(@CurrentUser() user: TokenPayload): Promise<QuestionPoolStatus> {
+		try {
+			const status = await this.questionPoolService.getStatus();
+
+			logger.apiRead('admin_question_pool_status', {
+				userId: user.sub,
+				role: user.role,
+				count: status.combinations.length,
+			});
+
+			return status;
+		} catch (error) {
+			logger.gameError('Failed to get question pool status', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Put('settings')
+	@Roles(UserRole.ADMIN)
+	async updateSettings(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: UpdateQuestionPoolSettingsDto
+	): Promise<QuestionPoolSettings> {
+		try {
+			const settings = await this.questionPoolService.updateSettings(body);
+
+			logger.apiUpdate('admin_question_pool_settings', {
+				userId: user.sub,
+				role: user.role,
+			});
+
+			return settings;
+		} catch (error) {
+			logger.gameError('Failed to update question pool settings', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('run')
+	@Roles(UserRole.ADMIN)
+	async runWarmer(@CurrentUser() user: TokenPayload): Promise<QuestionPoolRunSummary> {
+		try {
+			const summary = await this.questionPoolService.warmPool({ force: true });
+
+			logger.apiUpdate('admin_question_pool_run', {
+				userId: user.sub,
+				role: user.role,
+				status: summary.outcome,
+				actualCount: summary.questionsAdded,
+			});
+
+			return summary;
+		} catch (error) {
+			logger.gameError('Failed to run question pool warmer', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,391 @@
+import { randomUUID } from 'crypto';
+import { HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+	CACHE_KEYS,
+	ERROR_MESSAGES,
+	Locale,
+	OUTPUT_LANGUAGE_LABELS,
+	QUESTION_POOL_DEFAULT_SETTINGS,
+	QUESTION_POOL_SETTINGS_KEY,
+	QuestionPoolRunOutcome,
+	QuestionPoolTopicSource,
+	TriviaReportStatus,
+	VALIDATION_COUNT,
+} from '@shared/constants';
+import type {
+	QuestionPoolCombination,
+	QuestionPoolRunSummary,
+	QuestionPoolSettings,
+	QuestionPoolStatus,
+} from '@shared/types';
+import { calculateDuration, clamp, delay, getErrorMessage, isRecord } from '@shared/utils';
+import { isPredominantlyHebrewText, TRUSTED_PRESET_TOPICS_BY_LOCALE, VALIDATORS } from '@shared/validation';
+
+import {
+	QUESTION_POOL_WARMER_DEFAULTS,
+	TRIVIA_BATCH_GENERATION_DEFAULTS,
+	TRIVIA_REPORT_DEFAULTS,
+} from '@internal/constants';
+import { AppSettingEntity, TriviaEntity } from '@internal/entities';
+import { StorageService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { PromptParams, QuestionPoolReadyCountRow, QuestionPoolTarget } from '@internal/types';
+import { createServerError, isQuestionPoolRunSummary } from '@internal/utils';
+
+import { GlobalAnalyticsService } from '../../analytics';
+import { TriviaGenerationService } from '../triviaGeneration/triviaGeneration.service';
+
+@Injectable()
+export class QuestionPoolService {
+	constructor(
+		@InjectRepository(AppSettingEntity)
+		private readonly appSettingRepository: Repository<AppSettingEntity>,
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		private readonly triviaGenerationService: TriviaGenerationService,
+		private readonly globalAnalyticsService: GlobalAnalyticsService,
+		private readonly storageService: StorageService
+	) {}
+
+	async getSettings(): Promise<{ settings: QuestionPoolSettings; isDefault: boolean }> {
+		const row = await this.appSettingRepository.findOne({ where: { key: QUESTION_POOL_SETTINGS_KEY } });
+		if (!row || !isRecord(row.value)) {
+			return { settings: { ...QUESTION_POOL_DEFAULT_SETTINGS }, isDefault: true };
+		}
+		return { settings: this.normalizeSettings(row.value), isDefault: false };
+	}
+
+	async updateSettings(update: Partial<QuestionPoolSettings>): Promise<QuestionPoolSettings> {
+		try {
+			const { settings: current } = await this.getSettings();
+			const settings = this.normalizeSettings({ ...current, ...update });
+
+			const row =
+				(await this.appSettingRepository.findOne({ where: { key: QUESTION_POOL_SETTINGS_KEY } })) ??
+				this.appSettingRepository.create({ key: QUESTION_POOL_SETTINGS_KEY });
+			row.value = settings;
+			await this.appSettingRepository.save(row);
+
+			logger.gameInfo('Question pool settings updated', {
+				status: settings.enabled ? 'enabled' : 'disabled',
+				count: settings.minReadyPerCombination,
+				limit: settings.popularTopicLimit,
+				requestCount: settings.maxGenerationCallsPerRun,
+			});
+
+			return settings;
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			throw createServerError('update question pool settings', error);
+		}
+	}
+
+	async getStatus(): Promise<QuestionPoolStatus> {
+		try {
+			const { settings, isDefault } = await this.getSettings();
+			const combinations = await this.getCombinations(settings);
+			const lastRun = await this.storageService.get(CACHE_KEYS.QUESTION_POOL.LAST_RUN, isQuestionPoolRunSummary);
+
+			return {
+				settings,
+				isDefault,
+				combinations,
+				lastRun: lastRun.success ? (lastRun.data ?? null) : null,
+				timestamp: new Date().toISOString(),
+			};
+		} catch (error) {
+			throw createServerError('get question pool status', error);
+		}
+	}
+
+	/**
+	 * Tops up every popular and preset combination that has fewer unseen questions than the configured minimum.
+	 * Runs at most maxGenerationCallsPerRun batch calls, spaced out, and stops as soon as every provider is cooling down.
+	 * `force` lets an admin run the warmer while the scheduled job is disabled.
+	 */
+	async warmPool(options: { force?: boolean } = {}): Promise<QuestionPoolRunSummary> {
+		const startTime = Date.now();
+		const summary: QuestionPoolRunSummary = {
+			outcome: QuestionPoolRunOutcome.COMPLETED,
+			startedAt: new Date(startTime).toISOString(),
+			finishedAt: new Date(startTime).toISOString(),
+			combinationsChecked: 0,
+			combinationsBelowMinimum: 0,
+			generationCalls: 0,
+			failedCalls: 0,
+			questionsAdded: 0,
+		};
+
+		const { settings } = await this.getSettings();
+		if (!settings.enabled && !options.force) {
+			return this.finishRun(summary, QuestionPoolRunOutcome.DISABLED, startTime);
+		}
+		if (!this.triviaGenerationService.hasConfiguredProvider()) {
+			return this.finishRun(summary, QuestionPoolRunOutcome.NO_CONFIGURED_PROVIDERS, startTime);
+		}
+
+		// Per-run token, so a run that outlives its lease cannot release the one another instance took over
+		const leaseToken = randomUUID();
+		const lease = await this.storageService.setIfAbsent(
+			CACHE_KEYS.QUESTION_POOL.RUN_LEASE,
+			leaseToken,
+			QUESTION_POOL_WARMER_DEFAULTS.leaseTtlSeconds
+		);
+		if (!lease.success || !lease.data) {
+			// Another instance (or a manual run) is already warming; its summary is the one worth keeping
+			return { ...summary, outcome: QuestionPoolRunOutcome.ALREADY_RUNNING, finishedAt: new Date().toISOString() };
+		}
+
+		try {
+			const combinations = await this.getCombinations(settings);
+			const pending = combinations.filter(combination => combination.deficit > 0).sort((a, b) => b.deficit - a.deficit);
+			summary.combinationsChecked = combinations.length;
+			summary.combinationsBelowMinimum = pending.length;
+
+			let stopOutcome: QuestionPoolRunOutcome | null = null;
+			for (const combination of pending) {
+				let remaining = combination.deficit;
+				const excludeQuestions = await this.getRecentQuestionTexts(combination.topic, combination.locale);
+
+				while (remaining > 0) {
+					if (summary.generationCalls >= settings.maxGenerationCallsPerRun) {
+						stopOutcome = QuestionPoolRunOutcome.CALL_BUDGET_REACHED;
+						break;
+					}
+					if (this.triviaGenerationService.getProviderHealth().availableProviders === 0) {
+						stopOutcome = QuestionPoolRunOutcome.PROVIDERS_COOLING_DOWN;
+						break;
+					}
+					if (summary.generationCalls > 0) {
+						await delay(QUESTION_POOL_WARMER_DEFAULTS.callSpacingMs);
+					}
+
+					const questionCount = clamp(
+						remaining,
+						TRIVIA_BATCH_GENERATION_DEFAULTS.minQuestionsPerCall,
+						TRIVIA_BATCH_GENERATION_DEFAULTS.maxQuestionsPerCall
+					);
+					// Pool questions carry the maximum answer count so they can serve games with any answer count
+					const params: PromptParams = {
+						topic: combination.topic,
+						difficulty: combination.difficulty,
+						answerCount: VALIDATION_COUNT.ANSWER_COUNT.MAX,
+						excludeQuestions: excludeQuestions.length > 0 ? [...excludeQuestions] : undefined,
+						outputLanguageLabel: OUTPUT_LANGUAGE_LABELS[combination.locale],
+						outputLanguage: combination.locale,
+					};
+
+					summary.generationCalls++;
+					try {
+						const saved = await this.triviaGenerationService.generateQuestionBatch(params, questionCount);
+						summary.questionsAdded += saved.length;
+						remaining -= saved.length;
+						excludeQuestions.push(...saved.map(question => question.question));
+						if (saved.length === 0) {
+							break;
+						}
+					} catch (error) {
+						summary.failedCalls++;
+						logger.gameError('Question pool generation failed', {
+							errorInfo: { message: getErrorMessage(error) },
+							topic: combination.topic,
+							difficulty: combination.difficulty,
+							language: combination.locale,
+						});
+						break;
+					}
+				}
+
+				if (stopOutcome != null) {
+					break;
+				}
+			}
+
+			return await this.finishRun(summary, stopOutcome ?? QuestionPoolRunOutcome.COMPLETED, startTime);
+		} catch (error) {
+			logger.gameError('Question pool warm-up failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('warm question pool', error);
+		} finally {
+			const released = await this.storageService.deleteIfValue(CACHE_KEYS.QUESTION_POOL.RUN_LEASE, leaseToken);
+			if (!released.success) {
+				logger.gameError('Failed to release question pool lease', {
+					errorInfo: { message: released.error ?? ERROR_MESSAGES.general.UNKNOWN_ERROR },
+				});
+			}
+		}
+	}
+
+	private async finishRun(
+		summary: QuestionPoolRunSummary,
+		outcome: QuestionPoolRunOutcome,
+		startTime: number
+	): Promise<QuestionPoolRunSummary> {
+		const finished: QuestionPoolRunSummary = { ...summary, outcome, finishedAt: new Date().toISOString() };
+		await this.storageService.set(
+			CACHE_KEYS.QUESTION_POOL.LAST_RUN,
+			finished,
+			QUESTION_POOL_WARMER_DEFAULTS.lastRunTtlSeconds
+		);
+
+		logger.gameInfo('Question pool warm-up finished', {
+			status: outcome,
+			totalCount: finished.combinationsChecked,
+			remaining: finished.combinationsBelowMinimum,
+			requestCount: finished.generationCalls,
+			errorsCount: finished.failedCalls,
+			actualCount: finished.questionsAdded,
+			duration: calculateDuration(startTime),
+		});
+
+		return finished;
+	}
+
+	private async getCombinations(settings: QuestionPoolSettings): Promise<QuestionPoolCombination[]> {
+		const targets = await this.getTargets(settings.popularTopicLimit);
+		const combinations: QuestionPoolCombination[] = [];
+
+		const readyCounts = await this.countReadyQuestions(targets);
+		for (const [targetIndex, target] of targets.entries()) {
+			for (const difficulty of QUESTION_POOL_WARMER_DEFAULTS.difficulties) {
+				const readyCount = readyCounts.get(`${targetIndex}:${difficulty}`) ?? 0;
+				combinations.push({
+					...target,
+					difficulty,
+					readyCount,
+					deficit: Math.max(settings.minReadyPerCombination - readyCount, 0),
+				});
+			}
+		}
+
+		return combinations;
+	}
+
+	private async getTargets(popularTopicLimit: number): Promise<QuestionPoolTarget[]> {
+		const targets = new Map<string, QuestionPoolTarget>();
+		const addTarget = (topic: string, locale: Locale, source: QuestionPoolTopicSource) => {
+			const key = `${locale}:${topic.trim().toLowerCase()}`;
+			if (!targets.has(key)) {
+				targets.set(key, { topic: topic.trim(), locale, source });
+			}
+		};
+
+		if (popularTopicLimit > 0) {
+			try {
+				const topicStats = await this.globalAnalyticsService.getTopicStats({});
+				for (const { topic } of topicStats.data.topics.slice(0, popularTopicLimit)) {
+					// Game history does not record the locale, so it is inferred from the topic text
+					addTarget(topic, isPredominantlyHebrewText(topic) ? Locale.HE : Locale.EN, QuestionPoolTopicSource.POPULAR);
+				}
+			} catch (error) {
+				logger.gameError('Failed to load popular topics for the question pool', {
+					errorInfo: { message: getErrorMessage(error) },
+				});
+			}
+		}
+
+		for (const locale of Object.values(Locale)) {
+			for (const topic of TRUSTED_PRESET_TOPICS_BY_LOCALE[locale]) {
+				addTarget(topic, locale, QuestionPoolTopicSource.PRESET);
+			}
+		}
+
+		return Array.from(targets.values());
+	}
+
+	/**
+	 * Unseen means no game in the seen-questions window (same as GameService.getUserSeenQuestions) has served it yet.
+	 * Served questions are collected once for all targets, so game history is scanned once per call.
+	 * Counts are keyed by `${targetIndex}:${difficulty}`.
+	 */
+	private async countReadyQuestions(targets: QuestionPoolTarget[]): Promise<Map<string, number>> {
+		if (targets.length === 0) {
+			return new Map();
+		}
+
+		const rows: QuestionPoolReadyCountRow[] = await this.triviaRepository.query(
+			`WITH targets AS (
+			   SELECT target.topic, target.locale, CAST(target.ordinality - 1 AS INTEGER) AS target_index
+			   FROM unnest($1::text[], $2::text[]) WITH ORDINALITY AS target(topic, locale, ordinality)
+			 ),
+			 served AS (
+			   SELECT DISTINCT LOWER(gh.topic) AS topic, LOWER(TRIM(elem->>'question')) AS question
+			   FROM game_history gh,
+			   LATERAL jsonb_array_elements(gh.questions_data) AS elem
+			   WHERE gh.created_at >= NOW() - INTERVAL '6 months'
+			     AND LOWER(gh.topic) IN (SELECT LOWER(topic) FROM targets)
+			 )
+			 SELECT target.target_index AS "targetIndex", t.difficulty AS difficulty,
+			        CAST(COUNT(*) AS INTEGER) AS "readyCount"
+			 FROM trivia t
+			 JOIN targets target
+			   ON LOWER(t.topic) = LOWER(target.topic)
+			  AND (t.metadata->>'language' = target.locale OR (t.metadata->>'language' IS NULL AND target.locale = $3))
+			 WHERE t.retired_at IS NULL
+			   AND (
+			     SELECT COUNT(*) FROM trivia_reports report WHERE report.question_id = t.id AND report.status = $4
+			   ) < $5
+			   AND NOT EXISTS (
+			     SELECT 1 FROM served
+			     WHERE served.topic = LOWER(t.topic) AND served.question = LOWER(TRIM(t.question))
+			   )
+			 GROUP BY target.target_index, t.difficulty`,
+			[
+				targets.map(target => target.topic),
+				targets.map(target => target.locale),
+				Locale.EN,
+				TriviaReportStatus.OPEN,
+				TRIVIA_REPORT_DEFAULTS.hideThreshold,
+			]
+		);
+
+		return new Map(rows.map(row => [`${row.targetIndex}:${row.difficulty}`, row.readyCount]));
+	}
+
+	private async getRecentQuestionTexts(topic: string, locale: Locale): Promise<string[]> {
+		const rows: { question: string }[] = await this.triviaRepository.query(
+			`SELECT t.question AS question
+			 FROM trivia t
+			 WHERE LOWER(t.topic) = LOWER($1)
+			   AND (t.metadata->>'language' = $2 OR (t.metadata->>'language' IS NULL AND $2 = $3))
+			 ORDER BY t.created_at DESC
+			 LIMIT $4`,
+			[topic, locale, Locale.EN, VALIDATION_COUNT.QUESTIONS.MAX]
+		);
+		return rows.map(row => row.question).filter(VALIDATORS.string);
+	}
+
+	private normalizeSettings(value: Record<string, unknown>): QuestionPoolSettings {
+		const { MIN_READY, POPULAR_TOPICS, GENERATION_CALLS_PER_RUN } = VALIDATION_COUNT.QUESTION_POOL;
+		const toBoundedInt = (raw: unknown, min: number, max: number, fallback: number) =>
+			VALIDATORS.number(raw) ? clamp(Math.round(raw), min, max) : fallback;
+
+		return {
+			enabled: VALIDATORS.boolean(value.enabled) ? value.enabled : QUESTION_POOL_DEFAULT_SETTINGS.enabled,
+			minReadyPerCombination: toBoundedInt(
+				value.minReadyPerCombination,
+				MIN_READY.MIN,
+				MIN_READY.MAX,
+				QUESTION_POOL_DEFAULT_SETTINGS.minReadyPerCombination
+			),
+			popularTopicLimit: toBoundedInt(
+				value.popularTopicLimit,
+				POPULAR_TOPICS.MIN,
+				POPULAR_TOPICS.MAX,
+				QUESTION_POOL_DEFAULT_SETTINGS.popularTopicLimit
+			),
+			maxGenerationCallsPerRun: toBoundedInt(
+				value.maxGenerationCallsPerRun,
+				GENERATION_CALLS_PER_RUN.MIN,
+				GENERATION_CALLS_PER_RUN.MAX,
+				QUESTION_POOL_DEFAULT_SETTINGS.maxGenerationCallsPerRun
+			),
+		};
+	}
+}
@@ -0,0 +1,2 @@
+export { TopicCatalogController } from './topicCatalog.controller';
+export { TopicCatalogService } from './topicCatalog.service';
@@ -0,0 +1,95 @@
+import { Body, Controller, Get, Param, Patch, Post } from '@nestjs/common';
+
+import { API_ENDPOINTS, UserRole } from '@shared/constants';
+import type { CatalogTopic, MergeCatalogTopicsResponse, TopicCatalogResponse } from '@shared/types';
+import { getErrorMessage } from '@shared/utils';
+
+import { CurrentUser, Roles } from '@common/decorators';
+import { serverLogger as logger } from '@internal/services';
+import type { TokenPayload } from '@internal/types';
+
+import { MergeCatalogTopicsDto, UpdateCatalogTopicDto } from '../dtos';
+import { TopicCatalogService } from './topicCatalog.service';
+
+@Controller(API_ENDPOINTS.ADMIN.TOPICS)
+export class TopicCatalogController {
+	constructor(private readonly topicCatalogService: TopicCatalogService) {}
+
+	@Get()
+	@Roles(UserRole.ADMIN)
+	async getCatalog(@CurrentUser() user: TokenPayload): Promise<TopicCatalogResponse> {
+		try {
+			const result = await this.topicCatalogService.getCatalog();
+
+			logger.apiRead('admin_topic_catalog', {
+				userId: user.sub,
+				role: user.role,
+				count: result.topics.length,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to get topic catalog', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Post('merge')
+	@Roles(UserRole.ADMIN)
+	async mergeTopics(
+		@CurrentUser() user: TokenPayload,
+		@Body() body: MergeCatalogTopicsDto
+	): Promise<MergeCatalogTopicsResponse> {
+		try {
+			const result = await this.topicCatalogService.mergeTopics(body);
+
+			logger.apiUpdate('admin_topic_catalog_merge', {
+				userId: user.sub,
+				role: user.role,
+				id: result.targetId,
+				count: result.movedGameCount,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to merge catalog topics', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+			});
+			throw error;
+		}
+	}
+
+	@Patch(':id')
+	@Roles(UserRole.ADMIN)
+	async updateTopic(
+		@CurrentUser() user: TokenPayload,
+		@Param('id') id: string,
+		@Body() body: UpdateCatalogTopicDto
+	): Promise<CatalogTopic> {
+		try {
+			const result = await this.topicCatalogService.updateTopic(id, body);
+
+			logger.apiUpdate('admin_topic_catalog_topic', {
+				userId: user.sub,
+				role: user.role,
+				id,
+			});
+
+			return result;
+		} catch (error) {
+			logger.gameError('Failed to update catalog topic', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId: user.sub,
+				role: user.role,
+				id,
+			});
+			throw error;
+		}
+	}
+}
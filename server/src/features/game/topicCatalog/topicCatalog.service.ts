@@ -0,0 +1,338 @@
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { ERROR_MESSAGES, Locale } from '@shared/constants';
+import type {
+	CatalogTopic,
+	CategoryStatistics,
+	MergeCatalogTopicsRequest,
+	MergeCatalogTopicsResponse,
+	TopicCatalogResponse,
+	TopicLocalizedNames,
+	UpdateCatalogTopicRequest,
+} from '@shared/types';
+import { calculateScoreRate, getErrorMessage, isNonEmptyString, normalizeTopicKey } from '@shared/utils';
+import { isUuid } from '@shared/validation';
+
+import { GameHistoryEntity, TopicEntity, TriviaEntity, UserStatsEntity } from '@internal/entities';
+import { CacheInvalidationService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { CatalogTopicUsageRow } from '@internal/types';
+import { createNotFoundError, createServerError, createValidationError, topicKeySql } from '@internal/utils';
+
+@Injectable()
+export class TopicCatalogService {
+	constructor(
+		@InjectRepository(TopicEntity)
+		private readonly topicRepository: Repository<TopicEntity>,
+		private readonly cacheInvalidationService: CacheInvalidationService
+	) {}
+
+	/**
+	 * Resolves free text to its catalog topic by key, alias or localized name.
+	 * Unknown text becomes a new catalog topic, so every played topic can later be merged by an admin.
+	 */
+	async resolveTopic(topic: string, locale: Locale): Promise<TopicEntity> {
+		const key = normalizeTopicKey(topic);
+		const existing = await this.findTopicByTerm(key);
+		if (existing) {
+			return existing;
+		}
+
+		const name = topic.trim().replace(/\s+/g, ' ');
+		// A concurrent game start may create the same topic first; either way the stored row wins
+		await this.topicRepository
+			.createQueryBuilder()
+			.insert()
+			.into(TopicEntity)
+			.values({ key, name, names: { [locale]: name } })
+			.orIgnore()
+			.execute();
+
+		const created = await this.findTopicByTerm(key);
+		if (!created) {
+			throw createNotFoundError('Topic');
+		}
+		return created;
+	}
+
+	// Game start never fails on the catalog; the free text is kept when it cannot be resolved
+	async resolveTopicName(topic: string, locale: Locale): Promise<string> {
+		try {
+			const catalogTopic = await this.resolveTopic(topic, locale);
+			return catalogTopic.name;
+		} catch (error) {
+			logger.gameError('Failed to resolve topic against the catalog', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic,
+			});
+			return topic;
+		}
+	}
+
+	async getCatalog(): Promise<TopicCatalogResponse> {
+		try {
+			const topicEntities = await this.topicRepository.find({ order: { name: 'ASC' } });
+			const usageRows: CatalogTopicUsageRow[] = await this.topicRepository.query(
+				`WITH game_topics AS (
+				   SELECT ${topicKeySql('gh.topic')} AS topic_key, COUNT(*) AS uses
+				   FROM game_history gh
+				   GROUP BY 1
+				 ),
+				 question_topics AS (
+				   SELECT ${topicKeySql('t.topic')} AS topic_key, COUNT(*) AS uses
+				   FROM trivia t
+				   GROUP BY 1
+				 )
+				 SELECT catalog.id AS "topicId",
+				        CAST(COALESCE((
+				          SELECT SUM(g.uses) FROM game_topics g
+				          WHERE g.topic_key = catalog.key OR g.topic_key = ANY(catalog.aliases)
+				        ), 0) AS INTEGER) AS "gameCount",
+				        CAST(COALESCE((
+				          SELECT SUM(q.uses) FROM question_topics q
+				          WHERE q.topic_key = catalog.key OR q.topic_key = ANY(catalog.aliases)
+				        ), 0) AS INTEGER) AS "questionCount"
+				 FROM topics catalog`
+			);
+			const usageByTopicId = new Map(usageRows.map(row => [row.topicId, row]));
+
+			return {
+				topics: topicEntities.map(topicEntity => ({
+					...this.toCatalogTopic(topicEntity),
+					gameCount: usageByTopicId.get(topicEntity.id)?.gameCount ?? 0,
+					questionCount: usageByTopicId.get(topicEntity.id)?.questionCount ?? 0,
+				})),
+			};
+		} catch (error) {
+			logger.gameError('Failed to get topic catalog', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			throw createServerError('get topic catalog', error);
+		}
+	}
+
+	async updateTopic(id: string, request: UpdateCatalogTopicRequest): Promise<CatalogTopic> {
+		try {
+			if (!isUuid(id)) {
+				throw createValidationError('id', 'UUID');
+			}
+			const topicEntity = await this.topicRepository.findOne({ where: { id } });
+			if (!topicEntity) {
+				throw createNotFoundError('Topic');
+			}
+
+			if (request.names !== undefined) {
+				topicEntity.names = this.cleanLocalizedNames(request.names);
+			}
+			if (request.aliases !== undefined) {
+				topicEntity.aliases = this.cleanAliases(request.aliases, topicEntity.key);
+			}
+			if (request.parentCategory !== undefined) {
+				const parentCategory = request.parentCategory?.trim();
+				topicEntity.parentCategory = isNonEmptyString(parentCategory) ? parentCategory : null;
+			}
+
+			await this.assertTermsAvailable(topicEntity);
+			const savedTopic = await this.topicRepository.save(topicEntity);
+			// Aliases change which stored topics group together in topic stats
+			await this.cacheInvalidationService.invalidateOnAnalyticsUpdate();
+
+			return this.toCatalogTopic(savedTopic);
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to update catalog topic', {
+				errorInfo: { message: getErrorMessage(error) },
+				id,
+			});
+			throw createServerError('update catalog topic', error);
+		}
+	}
+
+	/**
+	 * Folds the source topic into the target: its key, aliases and names become target aliases, stored games and
+	 * questions are renamed to the target name, per-user topic stats are combined, and the source leaves the catalog.
+	 */
+	async mergeTopics(request: MergeCatalogTopicsRequest): Promise<MergeCatalogTopicsResponse> {
+		try {
+			if (request.sourceId === request.targetId) {
+				throw new BadRequestException(ERROR_MESSAGES.validation.TOPIC_MERGE_SAME_TOPIC);
+			}
+			const [sourceTopic, targetTopic] = await Promise.all([
+				this.topicRepository.findOne({ where: { id: request.sourceId } }),
+				this.topicRepository.findOne({ where: { id: request.targetId } }),
+			]);
+			if (!sourceTopic || !targetTopic) {
+				throw createNotFoundError('Topic');
+			}
+
+			const sourceTerms = this.getTopicTerms(sourceTopic);
+			const result = await this.topicRepository.manager.transaction(async manager => {
+				targetTopic.aliases = this.cleanAliases([...targetTopic.aliases, ...sourceTerms], targetTopic.key);
+				targetTopic.names = { ...sourceTopic.names, ...targetTopic.names };
+				targetTopic.parentCategory = targetTopic.parentCategory ?? sourceTopic.parentCategory;
+				await manager.delete(TopicEntity, { id: sourceTopic.id });
+				await manager.save(targetTopic);
+
+				const gameResult = await manager
+					.createQueryBuilder()
+					.update(GameHistoryEntity)
+					.set({ topic: targetTopic.name })
+					.where(`${topicKeySql('topic')} = ANY(:terms)`, { terms: sourceTerms })
+					.execute();
+				const questionResult = await manager
+					.createQueryBuilder()
+					.update(TriviaEntity)
+					.set({ topic: targetTopic.name })
+					.where(`${topicKeySql('topic')} = ANY(:terms)`, { terms: sourceTerms })
+					.execute();
+
+				const mergedKeys = [...sourceTerms, targetTopic.key];
+				const userStatsEntities = await manager
+					.getRepository(UserStatsEntity)
+					.createQueryBuilder('stats')
+					.where(
+						`EXISTS (SELECT 1 FROM jsonb_object_keys(stats.topicStats) AS stat_key WHERE ${topicKeySql('stat_key')} = ANY(:terms))`,
+						{ terms: sourceTerms }
+					)
+					.getMany();
+				for (const userStats of userStatsEntities) {
+					userStats.topicStats = this.combineTopicStats(userStats.topicStats, mergedKeys, targetTopic.key);
+				}
+				await manager.save(userStatsEntities);
+
+				return {
+					targetId: targetTopic.id,
+					movedGameCount: gameResult.affected ?? 0,
+					movedQuestionCount: questionResult.affected ?? 0,
+					mergedUserStatsCount: userStatsEntities.length,
+				};
+			});
+
+			await this.cacheInvalidationService.invalidateOnTriviaChange();
+			await this.cacheInvalidationService.invalidateOnAnalyticsUpdate();
+
+			logger.gameInfo('Catalog topics merged', {
+				id: targetTopic.id,
+				topic: sourceTopic.name,
+				count: result.movedGameCount,
+			});
+
+			return result;
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to merge catalog topics', {
+				errorInfo: { message: getErrorMessage(error) },
+				id: request.targetId,
+			});
+			throw createServerError('merge catalog topics', error);
+		}
+	}
+
+	// A key match wins over an alias or localized-name match
+	private async findTopicByTerm(term: string): Promise<TopicEntity | null> {
+		return this.topicRepository
+			.createQueryBuilder('topic')
+			.where('topic.key = :term OR :term = ANY(topic.aliases)', { term })
+			.orWhere(
+				`EXISTS (SELECT 1 FROM jsonb_each_text(topic.names) AS localized WHERE ${topicKeySql('localized.value')} = :term)`
+			)
+			.orderBy('CASE WHEN topic.key = :term THEN 0 ELSE 1 END')
+			.getOne();
+	}
+
+	// Every normalized spelling that resolves to the topic
+	private getTopicTerms(topicEntity: TopicEntity): string[] {
+		const nameTerms = Object.values(topicEntity.names).flatMap(name =>
+			isNonEmptyString(name) ? [normalizeTopicKey(name)] : []
+		);
+		return Array.from(new Set([topicEntity.key, ...topicEntity.aliases, ...nameTerms]));
+	}
+
+	// Aliases and names must not already resolve to another topic, or resolution would depend on row order
+	private async assertTermsAvailable(topicEntity: TopicEntity): Promise<void> {
+		const terms = this.getTopicTerms(topicEntity);
+		const otherTopics = await this.topicRepository
+			.createQueryBuilder('topic')
+			.where('topic.id <> :id', { id: topicEntity.id })
+			.andWhere(
+				`(topic.key = ANY(:terms) OR topic.aliases && CAST(:terms AS text[]) OR EXISTS (SELECT 1 FROM jsonb_each_text(topic.names) AS localized WHERE ${topicKeySql('localized.value')} = ANY(:terms)))`,
+				{ terms }
+			)
+			.getMany();
+
+		for (const otherTopic of otherTopics) {
+			const otherTerms = new Set(this.getTopicTerms(otherTopic));
+			const takenTerm = terms.find(term => otherTerms.has(term));
+			if (takenTerm != null) {
+				throw new BadRequestException(ERROR_MESSAGES.validation.TOPIC_ALIAS_IN_USE(takenTerm, otherTopic.name));
+			}
+		}
+	}
+
+	private cleanLocalizedNames(names: TopicLocalizedNames): TopicLocalizedNames {
+		const cleaned: TopicLocalizedNames = {};
+		for (const locale of Object.values(Locale)) {
+			const localizedName = names[locale]?.trim().replace(/\s+/g, ' ');
+			if (isNonEmptyString(localizedName)) {
+				cleaned[locale] = localizedName;
+			}
+		}
+		return cleaned;
+	}
+
+	private cleanAliases(aliases: string[], key: string): string[] {
+		return Array.from(new Set(aliases.map(normalizeTopicKey))).filter(alias => alias.length > 0 && alias !== key);
+	}
+
+	private combineTopicStats(
+		topicStats: Record<string, CategoryStatistics>,
+		mergedKeys: string[],
+		targetKey: string
+	): Record<string, CategoryStatistics> {
+		const combined: Record<string, CategoryStatistics> = {};
+		let targetStats: CategoryStatistics | null = null;
+
+		for (const [statKey, stats] of Object.entries(topicStats)) {
+			if (!mergedKeys.includes(normalizeTopicKey(statKey))) {
+				combined[statKey] = stats;
+				continue;
+			}
+			if (!targetStats) {
+				targetStats = { ...stats, lastPlayed: new Date(stats.lastPlayed) };
+				continue;
+			}
+			const lastPlayed = new Date(stats.lastPlayed);
+			targetStats.totalQuestionsAnswered += stats.totalQuestionsAnswered;
+			targetStats.correctAnswers += stats.correctAnswers;
+			targetStats.score += stats.score;
+			targetStats.successRate = calculateScoreRate(targetStats.score, targetStats.totalQuestionsAnswered);
+			if (lastPlayed > targetStats.lastPlayed) {
+				targetStats.lastPlayed = lastPlayed;
+			}
+		}
+
+		if (targetStats) {
+			combined[targetKey] = targetStats;
+		}
+		return combined;
+	}
+
+	private toCatalogTopic(topicEntity: TopicEntity): CatalogTopic {
+		return {
+			id: topicEntity.id,
+			key: topicEntity.key,
+			name: topicEntity.name,
+			names: topicEntity.names,
+			aliases: topicEntity.aliases,
+			parentCategory: topicEntity.parentCategory,
+			createdAt: topicEntity.createdAt,
+			updatedAt: topicEntity.updatedAt,
+		};
+	}
+}
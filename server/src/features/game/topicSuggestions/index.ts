@@ -0,0 +1 @@
+export { TopicSuggestionService } from './topicSuggestion.service';
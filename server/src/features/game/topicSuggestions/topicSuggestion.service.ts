@@ -0,0 +1,194 @@
+import { HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import {
+	CACHE_KEYS,
+	DEFAULT_LANGUAGE,
+	Locale,
+	TIME_DURATIONS_SECONDS,
+	TopicSuggestionSource,
+	VALIDATION_COUNT,
+} from '@shared/constants';
+import type { TopicSuggestion, TopicSuggestionsResponse } from '@shared/types';
+import { getErrorMessage, normalizeTopicKey } from '@shared/utils';
+import { matchesLocaleText, TRUSTED_PRESET_TOPICS_BY_LOCALE } from '@shared/validation';
+
+import { TOPIC_SUGGESTION_DEFAULTS } from '@internal/constants';
+import { GameHistoryEntity, TriviaEntity } from '@internal/entities';
+import { CacheService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import type { TopicCountRow } from '@internal/types';
+import {
+	calculateTextSimilarity,
+	createServerError,
+	isTopicCountRowArray,
+	leftJoinCatalogTopic,
+} from '@internal/utils';
+
+import { GlobalAnalyticsService } from '../../analytics';
+
+type TopicSuggestionCounts = Partial<Pick<TopicSuggestion, 'questionCount' | 'playedCount' | 'globalGameCount'>>;
+
+@Injectable()
+export class TopicSuggestionService {
+	constructor(
+		@InjectRepository(GameHistoryEntity)
+		private readonly gameHistoryRepository: Repository<GameHistoryEntity>,
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		private readonly cacheService: CacheService,
+		private readonly globalAnalyticsService: GlobalAnalyticsService
+	) {}
+
+	/**
+	 * Ranks topics for the game setup input from stored trivia, the user's own games, global popularity and presets.
+	 * Every source is counted under its canonical catalog name, so variants of one topic merge into a single suggestion.
+	 */
+	async getSuggestions(
+		userId: string,
+		query: string = '',
+		locale: Locale = DEFAULT_LANGUAGE,
+		limit: number = VALIDATION_COUNT.TOPIC_SUGGESTIONS.DEFAULT
+	): Promise<TopicSuggestionsResponse> {
+		try {
+			const [questionCounts, userTopics, popularTopics] = await Promise.all([
+				this.getQuestionCounts(locale),
+				this.getUserTopicCounts(userId),
+				this.getPopularTopicCounts(),
+			]);
+
+			const candidates = new Map<string, TopicSuggestion>();
+			const addCandidate = (topic: string, source: TopicSuggestionSource, counts: TopicSuggestionCounts = {}) => {
+				const key = normalizeTopicKey(topic);
+				if (key.length === 0) return;
+				const suggestion = candidates.get(key) ?? {
+					topic: topic.trim().replace(/\s+/g, ' '),
+					sources: [],
+					questionCount: 0,
+					playedCount: 0,
+					globalGameCount: 0,
+				};
+				if (!suggestion.sources.includes(source)) {
+					suggestion.sources.push(source);
+				}
+				suggestion.questionCount = Math.max(suggestion.questionCount, counts.questionCount ?? 0);
+				suggestion.playedCount = Math.max(suggestion.playedCount, counts.playedCount ?? 0);
+				suggestion.globalGameCount = Math.max(suggestion.globalGameCount, counts.globalGameCount ?? 0);
+				candidates.set(key, suggestion);
+			};
+
+			for (const { topic, count } of questionCounts) {
+				addCandidate(topic, TopicSuggestionSource.TRIVIA, { questionCount: count });
+			}
+			// Game history does not record the locale, so played topics are filtered by their script
+			for (const { topic, count } of userTopics) {
+				if (matchesLocaleText(topic, locale)) {
+					addCandidate(topic, TopicSuggestionSource.PLAYED, { playedCount: count });
+				}
+			}
+			for (const { topic, count } of popularTopics) {
+				if (matchesLocaleText(topic, locale)) {
+					addCandidate(topic, TopicSuggestionSource.POPULAR, { globalGameCount: count });
+				}
+			}
+			for (const topic of TRUSTED_PRESET_TOPICS_BY_LOCALE[locale] ?? TRUSTED_PRESET_TOPICS_BY_LOCALE[Locale.EN]) {
+				addCandidate(topic, TopicSuggestionSource.PRESET);
+			}
+
+			const normalizedQuery = normalizeTopicKey(query);
+			const ranked = Array.from(candidates.entries()).flatMap(([key, suggestion]) => {
+				const matchScore = normalizedQuery.length > 0 ? this.getMatchScore(normalizedQuery, key) : 0;
+				if (normalizedQuery.length > 0 && matchScore === 0) {
+					return [];
+				}
+				const sourceBoost = suggestion.sources.reduce(
+					(total, source) => total + TOPIC_SUGGESTION_DEFAULTS.sourceBoosts[source],
+					0
+				);
+				return [{ suggestion, score: matchScore + sourceBoost }];
+			});
+
+			ranked.sort(
+				(a, b) =>
+					b.score - a.score ||
+					b.suggestion.playedCount - a.suggestion.playedCount ||
+					b.suggestion.questionCount - a.suggestion.questionCount ||
+					b.suggestion.globalGameCount - a.suggestion.globalGameCount
+			);
+
+			return {
+				query: query.trim(),
+				locale,
+				suggestions: ranked.slice(0, limit).map(({ suggestion }) => suggestion),
+			};
+		} catch (error) {
+			if (error instanceof HttpException) throw error;
+			throw createServerError('get topic suggestions', error);
+		}
+	}
+
+	private getMatchScore(query: string, key: string): number {
+		const { matchScores, fuzzyThreshold } = TOPIC_SUGGESTION_DEFAULTS;
+		if (key === query) return matchScores.exact;
+		if (key.startsWith(query)) return matchScores.prefix;
+		if (key.split(' ').some(word => word.startsWith(query))) return matchScores.wordPrefix;
+		if (key.includes(query)) return matchScores.substring;
+
+		const similarity = calculateTextSimilarity(query, key);
+		return similarity >= fuzzyThreshold ? similarity * matchScores.fuzzyScale : 0;
+	}
+
+	// Active questions per canonical topic in one locale; cleared with the rest of the trivia cache on question changes
+	private async getQuestionCounts(locale: Locale): Promise<TopicCountRow[]> {
+		return this.cacheService.getOrSet<TopicCountRow[]>(
+			CACHE_KEYS.TRIVIA.TOPIC_QUESTION_COUNTS(locale),
+			async () => {
+				const topicName = 'COALESCE(catalog.name, TRIM(trivia.topic))';
+				return leftJoinCatalogTopic(this.triviaRepository.createQueryBuilder('trivia'), 'trivia.topic', 'catalog')
+					.select(topicName, 'topic')
+					.addSelect('CAST(COUNT(*) AS INTEGER)', 'count')
+					.where('trivia.retiredAt IS NULL')
+					.andWhere("TRIM(trivia.topic) != ''")
+					.andWhere(
+						"(trivia.metadata->>'language' = :locale OR (trivia.metadata->>'language' IS NULL AND :locale = :defaultLocale))",
+						{ locale, defaultLocale: Locale.EN }
+					)
+					.groupBy(topicName)
+					.orderBy('COUNT(*)', 'DESC')
+					.limit(TOPIC_SUGGESTION_DEFAULTS.questionCountTopicLimit)
+					.getRawMany<TopicCountRow>();
+			},
+			TIME_DURATIONS_SECONDS.FIVE_MINUTES,
+			isTopicCountRowArray
+		);
+	}
+
+	private async getUserTopicCounts(userId: string): Promise<TopicCountRow[]> {
+		const topicName = 'COALESCE(catalog.name, TRIM(game.topic))';
+		return leftJoinCatalogTopic(this.gameHistoryRepository.createQueryBuilder('game'), 'game.topic', 'catalog')
+			.select(topicName, 'topic')
+			.addSelect('CAST(COUNT(*) AS INTEGER)', 'count')
+			.where('game.userId = :userId', { userId })
+			.andWhere("TRIM(game.topic) != ''")
+			.groupBy(topicName)
+			.orderBy('COUNT(*)', 'DESC')
+			.limit(TOPIC_SUGGESTION_DEFAULTS.userTopicLimit)
+			.getRawMany<TopicCountRow>();
+	}
+
+	// Popularity only improves ranking; suggestions still work from the other sources when analytics is unavailable
+	private async getPopularTopicCounts(): Promise<TopicCountRow[]> {
+		try {
+			const topicStats = await this.globalAnalyticsService.getTopicStats({});
+			return topicStats.data.topics
+				.slice(0, TOPIC_SUGGESTION_DEFAULTS.popularTopicLimit)
+				.map(({ topic, totalGames }) => ({ topic, count: totalGames }));
+		} catch (error) {
+			logger.gameError('Failed to load popular topics for suggestions', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			return [];
+		}
+	}
+}
@@ -8,62 +8,69 @@ import {
 	TIME_PERIODS_MS,
 	VALIDATION_LENGTH,
 } from '@shared/constants';
-import { executeRetry, getErrorMessage, isProviderAuthError, isRecord, truncateWithEllipsis } from '@shared/utils';
+import {
+	executeRetry,
+	getErrorMessage,
+	isProviderAuthError,
+	isProviderRateLimitError,
+	isRecord,
+	truncateWithEllipsis,
+} from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
-import {
-	GROQ_API_BASE_URL,
-	GROQ_DEFAULT_MAX_TOKENS,
-	GROQ_DEFAULT_TEMPERATURE,
-	GROQ_FREE_TIER_MODELS,
-	GROQ_MODELS,
-	GROQ_PROVIDER_NAME,
-	GROQ_PROVIDER_NAME_LOWERCASE,
-} from '@internal/constants';
+import { LLM_DEFAULT_MAX_TOKENS, LLM_DEFAULT_TEMPERATURE } from '@internal/constants';
 import { serverLogger as logger } from '@internal/services';
-import type { GroqApiCallOptions, GroqMessageForLog, LLMResponse, ProviderConfig } from '@internal/types';
+import type {
+	ChatCompletionCallOptions,
+	ChatCompletionClientOptions,
+	ChatMessageForLog,
+	LLMResponse,
+	ProviderConfig,
+} from '@internal/types';
 import { createAuthError } from '@internal/utils';
 
 import { TRIVIA_GENERATION_SYSTEM_PROMPT } from '../prompts';
 
 const DEFAULT_SYSTEM_PROMPT = TRIVIA_GENERATION_SYSTEM_PROMPT;
 
-export class GroqApiClient {
-	constructor(
-		private readonly apiKey: string,
-		private readonly providerName: string = GROQ_PROVIDER_NAME,
-		private currentModelIndex: number = 0
-	) {}
+// Speaks the OpenAI chat completions protocol, which Groq, llama.cpp and Ollama all expose
+export class ChatCompletionApiClient {
+	private currentModelIndex = 0;
+
+	constructor(private readonly options: ChatCompletionClientOptions) {}
+
+	private get providerName(): string {
+		return this.options.providerName;
+	}
 
 	private selectModel(): string {
-		const freeTierModelsLength = GROQ_FREE_TIER_MODELS.length;
-		// GROQ_FREE_TIER_MODELS always has at least 2 models, so we can safely use it
-		// Round-robin selection among free tier models
-		const selectedModel = GROQ_FREE_TIER_MODELS[this.currentModelIndex % freeTierModelsLength];
-		this.currentModelIndex = (this.currentModelIndex + 1) % freeTierModelsLength;
+		const { models } = this.options;
+		// Round-robin selection among the configured models
+		const selectedModel = models[this.currentModelIndex % models.length];
+		this.currentModelIndex = (this.currentModelIndex + 1) % Math.max(models.length, 1);
 
 		if (selectedModel == null) {
-			throw new Error(ERROR_MESSAGES.provider.NO_GROQ_MODEL_AVAILABLE);
+			throw new Error(ERROR_MESSAGES.provider.NO_AI_MODEL_AVAILABLE);
 		}
 
 		return selectedModel;
 	}
 
-	getProviderConfig(prompt: string, systemPrompt?: string, options?: GroqApiCallOptions): ProviderConfig {
+	getProviderConfig(prompt: string, systemPrompt?: string, options?: ChatCompletionCallOptions): ProviderConfig {
 		const selectedModel = this.selectModel();
-		const modelConfig = GROQ_MODELS[selectedModel];
 		const systemContent = systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+		const { apiKey } = this.options;
 
 		return {
-			name: GROQ_PROVIDER_NAME_LOWERCASE,
-			apiKey: this.apiKey,
-			baseUrl: GROQ_API_BASE_URL,
+			name: this.options.providerId,
+			apiKey,
+			baseUrl: this.options.baseUrl,
 			timeout: options?.timeoutMs ?? HTTP_TIMEOUTS.AI_PROVIDER,
 			maxRetries: HTTP_CLIENT_CONFIG.RETRY_ATTEMPTS,
 			enabled: true,
-			priority: modelConfig?.priority ?? 1,
+			priority: this.options.priority,
 			headers: {
-				Authorization: `Bearer ${this.apiKey}`,
+				...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
 				'Content-Type': 'application/json',
 			},
 			body: {
@@ -75,14 +82,14 @@ export class GroqApiClient {
 					},
 					{ role: 'user', content: prompt },
 				],
-				temperature: GROQ_DEFAULT_TEMPERATURE,
-				max_tokens: options?.maxTokens ?? GROQ_DEFAULT_MAX_TOKENS,
+				temperature: options?.temperature ?? LLM_DEFAULT_TEMPERATURE,
+				max_tokens: options?.maxTokens ?? LLM_DEFAULT_MAX_TOKENS,
 			},
 		};
 	}
 
-	async makeApiCall(prompt: string, systemPrompt?: string, options?: GroqApiCallOptions): Promise<LLMResponse> {
-		if (!this.apiKey) {
+	async makeApiCall(prompt: string, systemPrompt?: string, options?: ChatCompletionCallOptions): Promise<LLMResponse> {
+		if (this.options.requiresApiKey && !this.options.apiKey) {
 			throw createAuthError(ErrorCode.API_KEY_NOT_CONFIGURED);
 		}
 
@@ -91,7 +98,7 @@ export class GroqApiClient {
 		// Log initial request with detailed info (redact sensitive data)
 		const sanitizedBody = config.body ? { ...config.body } : {};
 		if ('messages' in sanitizedBody && Array.isArray(sanitizedBody.messages)) {
-			sanitizedBody.messages = sanitizedBody.messages.map((msg: GroqMessageForLog) => ({
+			sanitizedBody.messages = sanitizedBody.messages.map((msg: ChatMessageForLog) => ({
 				role: msg.role,
 				content: VALIDATORS.string(msg.content)
 					? truncateWithEllipsis(msg.content, VALIDATION_LENGTH.STRING_TRUNCATION.CONTENT_PREVIEW)
@@ -222,10 +229,11 @@ export class GroqApiClient {
 				maxTotalTimeMs: TIME_PERIODS_MS.MINUTE,
 				signal: options?.signal,
 				retryOnAuthError: false,
-				retryOnRateLimit: true,
+				retryOnRateLimit: this.options.retryOnRateLimit,
 				retryOnServerError: true,
 				retryOnNetworkError: true,
-				shouldRetry: error => !isProviderAuthError(error),
+				shouldRetry: error =>
+					!isProviderAuthError(error) && (this.options.retryOnRateLimit || !isProviderRateLimitError(error)),
 				onRetry: (attempt, error, delay) => {
 					logger.providerStats(this.providerName, {
 						eventType: attempt === 1 ? 'retry_attempt' : 'rate_limit_retry',
@@ -0,0 +1,660 @@
+import { BadRequestException } from '@nestjs/common';
+
+import {
+	DEFAULT_LANGUAGE,
+	DifficultyLevel,
+	ERROR_MESSAGES,
+	ErrorCode,
+	HTTP_TIMEOUTS,
+	OUTPUT_LANGUAGE_LABELS,
+	SurpriseScope,
+	VALIDATION_COUNT,
+	VALIDATION_LENGTH,
+} from '@shared/constants';
+import type {
+	GameDifficulty,
+	SurprisePickResult,
+	TriviaQuestion,
+	TriviaQuestionCore,
+	TriviaQuestionDetailsMetadata,
+} from '@shared/types';
+import {
+	calculateDuration,
+	clamp,
+	getErrorMessage,
+	isProviderAuthError,
+	isProviderRateLimitError,
+	isRecord,
+	sanitizeInput,
+	shuffle,
+} from '@shared/utils';
+import {
+	createCustomDifficulty,
+	extractCustomDifficultyText,
+	isCustomDifficulty,
+	isRegisteredDifficulty,
+	toDifficultyLevel,
+	VALIDATORS,
+} from '@shared/validation';
+
+import {
+	AIProviderId,
+	LLM_DEFAULT_MAX_TOKENS,
+	LLM_FACT_CHECK_MAX_TOKENS,
+	LLM_FACT_CHECK_TEMPERATURE,
+	LLM_TOPIC_DIFFICULTY_GATE_MAX_TOKENS,
+	parseTriviaGenerationDeclinedReason,
+	TRIVIA_BATCH_GENERATION_DEFAULTS,
+	TRIVIA_GENERATION_DECLINED_REASON,
+	type TriviaGenerationDeclinedReason,
+} from '@internal/constants';
+import { serverLogger as logger } from '@internal/services';
+import type {
+	AIProviderInstance,
+	LLMTriviaResponse,
+	PromptParams,
+	ProviderTriviaBatchResult,
+	ProviderTriviaGenerationResult,
+	SurprisePickOptions,
+	TopicDifficultyGateParams,
+	TriviaFactCheckAnswer,
+	TriviaFactCheckParams,
+	TriviaProvider,
+} from '@internal/types';
+import { createServerError, createTriviaDeclinedError } from '@internal/utils';
+
+import {
+	buildSurprisePickPrompt,
+	buildTopicDifficultyGateUserPrompt,
+	buildTriviaBatchPrompt,
+	buildTriviaFactCheckUserPrompt,
+	buildTriviaPrompt,
+	SURPRISE_PICK_SYSTEM_PROMPT,
+	TOPIC_DIFFICULTY_GATE_SYSTEM_PROMPT,
+	TRIVIA_BATCH_GENERATION_SYSTEM_PROMPT,
+	TRIVIA_FACT_CHECK_SYSTEM_PROMPT,
+} from '../prompts';
+import { ChatCompletionApiClient } from './chatCompletion.apiClient';
+import { ChatCompletionResponseParser } from './chatCompletion.responseParser';
+
+// Prompting, parsing and validation shared by every provider that speaks the OpenAI chat completions protocol
+export abstract class ChatCompletionTriviaProvider implements TriviaProvider {
+	abstract readonly id: AIProviderId;
+	abstract readonly name: string;
+	abstract provider: AIProviderInstance;
+
+	private responseParser: ChatCompletionResponseParser | null = null;
+
+	private static stripControlCharacters(value: string): string {
+		return value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+	}
+
+	// Declines describe the request itself, and rate-limit/auth errors keep their markers so the registry can fail over
+	private static isPassThroughError(error: unknown): boolean {
+		return error instanceof BadRequestException || isProviderRateLimitError(error) || isProviderAuthError(error);
+	}
+
+	protected abstract readonly apiClient: ChatCompletionApiClient;
+
+	abstract isConfigured(): boolean;
+
+	private get parser(): ChatCompletionResponseParser {
+		this.responseParser ??= new ChatCompletionResponseParser(this.name);
+		return this.responseParser;
+	}
+
+	async evaluateTopicDifficultyGate(params: TopicDifficultyGateParams): Promise<TriviaGenerationDeclinedReason | null> {
+		const startTime = Date.now();
+		try {
+			const sanitizedTopic = ChatCompletionTriviaProvider.stripControlCharacters(
+				sanitizeInput(params.topic, VALIDATION_LENGTH.TOPIC.MAX)
+			);
+
+			let sanitizedDifficulty: GameDifficulty = params.difficulty;
+			if (isCustomDifficulty(params.difficulty)) {
+				sanitizedDifficulty = createCustomDifficulty(
+					ChatCompletionTriviaProvider.stripControlCharacters(
+						sanitizeInput(extractCustomDifficultyText(params.difficulty), VALIDATION_LENGTH.CUSTOM_DIFFICULTY.MAX)
+					)
+				);
+			} else {
+				const normalizedRegistered = ChatCompletionTriviaProvider.stripControlCharacters(
+					sanitizeInput(params.difficulty, 32)
+				).toLowerCase();
+				sanitizedDifficulty = isRegisteredDifficulty(normalizedRegistered)
+					? normalizedRegistered
+					: toDifficultyLevel(params.difficulty);
+			}
+
+			const userPrompt = buildTopicDifficultyGateUserPrompt({
+				topic: sanitizedTopic,
+				difficulty: sanitizedDifficulty,
+				outputLanguageLabel: params.outputLanguageLabel,
+				outputLanguage: params.outputLanguage,
+			});
+
+			const response = await this.apiClient.makeApiCall(userPrompt, TOPIC_DIFFICULTY_GATE_SYSTEM_PROMPT, {
+				maxTokens: LLM_TOPIC_DIFFICULTY_GATE_MAX_TOKENS,
+				timeoutMs: HTTP_TIMEOUTS.TOPIC_DIFFICULTY_GATE,
+			});
+
+			const rawContent = response.data?.choices?.[0]?.message?.content;
+			const content = VALIDATORS.string(rawContent)
+				? rawContent
+				: typeof rawContent === 'object' && rawContent != null
+					? JSON.stringify(rawContent)
+					: '';
+			if (!content || content.trim().length === 0) {
+				return TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC_AND_DIFFICULTY;
+			}
+
+			let jsonString: string;
+			try {
+				jsonString = this.extractSurprisePickJson(content.trim());
+			} catch {
+				return TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC_AND_DIFFICULTY;
+			}
+
+			let parsed: Record<string, unknown>;
+			try {
+				const parsedResult = JSON.parse(jsonString);
+				parsed = isRecord(parsedResult) ? parsedResult : {};
+			} catch {
+				return TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC_AND_DIFFICULTY;
+			}
+
+			if (parsed.ok === true) {
+				logger.providerStats(this.name, {
+					eventType: 'topic_difficulty_gate_accepted',
+					responseTime: calculateDuration(startTime),
+				});
+				return null;
+			}
+
+			const reason = parseTriviaGenerationDeclinedReason(parsed.reason);
+			logger.providerStats(this.name, {
+				eventType: 'topic_difficulty_gate_rejected',
+				reason,
+				responseTime: calculateDuration(startTime),
+			});
+			return reason;
+		} catch (error) {
+			logger.providerError(this.name, 'Topic difficulty gate failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			if (ChatCompletionTriviaProvider.isPassThroughError(error)) {
+				throw error;
+			}
+			throw createServerError('topic difficulty gate', error);
+		}
+	}
+
+	async checkTriviaAnswer(params: TriviaFactCheckParams, signal?: AbortSignal): Promise<TriviaFactCheckAnswer> {
+		const startTime = Date.now();
+		try {
+			const userPrompt = buildTriviaFactCheckUserPrompt({
+				...params,
+				topic: ChatCompletionTriviaProvider.stripControlCharacters(
+					sanitizeInput(params.topic, VALIDATION_LENGTH.TOPIC.MAX)
+				),
+			});
+
+			const response = await this.apiClient.makeApiCall(userPrompt, TRIVIA_FACT_CHECK_SYSTEM_PROMPT, {
+				signal,
+				maxTokens: LLM_FACT_CHECK_MAX_TOKENS,
+				temperature: LLM_FACT_CHECK_TEMPERATURE,
+				timeoutMs: HTTP_TIMEOUTS.TOPIC_DIFFICULTY_GATE,
+			});
+
+			const rawContent = response.data?.choices?.[0]?.message?.content;
+			const content = VALIDATORS.string(rawContent) ? rawContent.trim() : '';
+			if (content.length === 0) {
+				throw createServerError('fact-check trivia question', new Error(ErrorCode.RESPONSE_CONTENT_EMPTY));
+			}
+
+			let parsed: Record<string, unknown>;
+			try {
+				const parsedResult = JSON.parse(this.extractSurprisePickJson(content));
+				parsed = isRecord(parsedResult) ? parsedResult : {};
+			} catch {
+				throw createServerError('fact-check trivia question', new Error(ErrorCode.INVALID_QUESTION_FORMAT_FROM_AI));
+			}
+
+			// The prompt numbers options from 1; anything outside the option list is dropped
+			const toAnswerIndex = (value: unknown): number | null =>
+				VALIDATORS.number(value) && Number.isInteger(value) && value >= 1 && value <= params.answers.length
+					? value - 1
+					: null;
+			const defensibleAnswerIndexes = Array.isArray(parsed.correct)
+				? Array.from(new Set(parsed.correct.map(toAnswerIndex).filter((index): index is number => index != null)))
+				: [];
+			const result: TriviaFactCheckAnswer = {
+				answerIndex: toAnswerIndex(parsed.answer),
+				defensibleAnswerIndexes,
+			};
+
+			logger.providerStats(this.name, {
+				eventType: 'fact_check_completed',
+				topic: params.topic,
+				responseTime: calculateDuration(startTime),
+			});
+			return result;
+		} catch (error) {
+			logger.providerError(this.name, 'Fact check failed', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: params.topic,
+			});
+			if (ChatCompletionTriviaProvider.isPassThroughError(error)) {
+				throw error;
+			}
+			throw createServerError('fact-check trivia question', error);
+		}
+	}
+
+	async generateTriviaQuestion(params: PromptParams, signal?: AbortSignal): Promise<ProviderTriviaGenerationResult> {
+		const startTime = Date.now();
+
+		try {
+			const sanitizedParams = this.sanitizePromptParams(params);
+			const actualAnswerCount = sanitizedParams.answerCount;
+
+			const prompt = buildTriviaPrompt({
+				...sanitizedParams,
+				isCustomDifficulty: isCustomDifficulty(sanitizedParams.difficulty),
+			});
+
+			const response = await this.apiClient.makeApiCall(prompt, undefined, { signal });
+
+			// Parse the LLM response with smart error handling
+			let data: LLMTriviaResponse;
+			try {
+				data = this.parser.parseResponse(response, actualAnswerCount);
+			} catch (err) {
+				logger.providerError(this.name, ERROR_MESSAGES.provider.INVALID_PROVIDER_RESPONSE, {
+					errorInfo: { message: getErrorMessage(err) },
+					topic: params.topic,
+					difficulty: params.difficulty,
+				});
+
+				// Throw error instead of returning fallback question
+				throw createServerError('parse AI provider response', err);
+			}
+
+			if (data.validationSummary) {
+				logger.providerStats(this.name, {
+					topic: params.topic,
+					difficulty: params.difficulty,
+					validation: data.validationSummary,
+				});
+			}
+
+			const { questions } = data;
+
+			// Check if AI returned null response (could not generate question)
+			if (!questions || questions.length === 0) {
+				logger.providerError(this.name, 'AI could not generate question', {
+					topic: params.topic,
+					difficulty: params.difficulty,
+					explanation: data.explanation ?? 'No explanation provided',
+					generationDeclinedReason:
+						data.declinedReason ?? TRIVIA_GENERATION_DECLINED_REASON.INSUFFICIENT_VERIFIABLE_FACTS,
+				});
+
+				this.throwTriviaGenerationDeclined(
+					data.declinedReason ?? TRIVIA_GENERATION_DECLINED_REASON.INSUFFICIENT_VERIFIABLE_FACTS
+				);
+			}
+
+			// Create trivia question object
+			const firstQuestion = questions[0];
+			if (!firstQuestion) {
+				this.throwTriviaGenerationDeclined(
+					data.declinedReason ?? TRIVIA_GENERATION_DECLINED_REASON.INSUFFICIENT_VERIFIABLE_FACTS
+				);
+			}
+
+			const result = this.buildQuestionResult(firstQuestion, params);
+
+			const responseTime = calculateDuration(startTime);
+			logger.providerSuccess(this.name, {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				responseTime,
+			});
+			return result;
+		} catch (error) {
+			logger.providerError(this.name, ERROR_MESSAGES.provider.AI_GENERATION_FAILED, {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: params.topic,
+				difficulty: params.difficulty,
+			});
+
+			if (ChatCompletionTriviaProvider.isPassThroughError(error)) {
+				throw error;
+			}
+			// Re-throw the error instead of returning fallback question
+			throw createServerError('generate trivia question', error);
+		}
+	}
+
+	async generateTriviaQuestionBatch(
+		params: PromptParams,
+		questionCount: number,
+		signal?: AbortSignal
+	): Promise<ProviderTriviaBatchResult> {
+		const startTime = Date.now();
+
+		try {
+			const sanitizedParams = this.sanitizePromptParams(params);
+			const actualQuestionCount = clamp(
+				questionCount,
+				TRIVIA_BATCH_GENERATION_DEFAULTS.minQuestionsPerCall,
+				TRIVIA_BATCH_GENERATION_DEFAULTS.maxQuestionsPerCall
+			);
+
+			const prompt = buildTriviaBatchPrompt({
+				...sanitizedParams,
+				questionCount: actualQuestionCount,
+				isCustomDifficulty: isCustomDifficulty(sanitizedParams.difficulty),
+			});
+
+			const response = await this.apiClient.makeApiCall(prompt, TRIVIA_BATCH_GENERATION_SYSTEM_PROMPT, {
+				signal,
+				timeoutMs: HTTP_TIMEOUTS.QUESTION_GENERATION,
+				maxTokens: Math.min(
+					LLM_DEFAULT_MAX_TOKENS + TRIVIA_BATCH_GENERATION_DEFAULTS.maxTokensPerQuestion * actualQuestionCount,
+					TRIVIA_BATCH_GENERATION_DEFAULTS.maxTokens
+				),
+			});
+
+			let data: LLMTriviaResponse;
+			try {
+				data = this.parser.parseBatchResponse(response, sanitizedParams.answerCount, actualQuestionCount);
+			} catch (err) {
+				logger.providerError(this.name, ERROR_MESSAGES.provider.INVALID_PROVIDER_RESPONSE, {
+					errorInfo: { message: getErrorMessage(err) },
+					topic: params.topic,
+					difficulty: params.difficulty,
+				});
+				throw createServerError('parse AI provider batch response', err);
+			}
+
+			if (data.validationSummary) {
+				logger.providerStats(this.name, {
+					topic: params.topic,
+					difficulty: params.difficulty,
+					validation: data.validationSummary,
+				});
+			}
+
+			// A decline only counts when the model returned nothing at all; otherwise it is a partial batch
+			if (data.questions.length === 0 && (data.rejectedCount ?? 0) === 0 && data.declinedReason != null) {
+				this.throwTriviaGenerationDeclined(data.declinedReason);
+			}
+
+			let rejectedCount = data.rejectedCount ?? 0;
+			const questions: ProviderTriviaGenerationResult[] = [];
+			for (const core of data.questions) {
+				try {
+					questions.push(this.buildQuestionResult(core, params));
+				} catch {
+					rejectedCount += 1;
+				}
+			}
+
+			if (questions.length === 0) {
+				throw createServerError('generate trivia question batch', new Error(ErrorCode.AI_PROVIDERS_FAILED));
+			}
+
+			logger.providerSuccess(this.name, {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				responseTime: calculateDuration(startTime),
+				count: questions.length,
+			});
+			return { questions, rejectedCount };
+		} catch (error) {
+			logger.providerError(this.name, ERROR_MESSAGES.provider.AI_GENERATION_FAILED, {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: params.topic,
+				difficulty: params.difficulty,
+				count: questionCount,
+			});
+
+			if (ChatCompletionTriviaProvider.isPassThroughError(error)) {
+				throw error;
+			}
+			throw createServerError('generate trivia question batch', error);
+		}
+	}
+
+	private sanitizePromptParams(params: PromptParams): PromptParams {
+		// Get answer count with default value and clamp to valid range (3-5)
+		const answerCount = params.answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT;
+		const actualAnswerCount = clamp(answerCount, VALIDATION_COUNT.ANSWER_COUNT.MIN, VALIDATION_COUNT.ANSWER_COUNT.MAX);
+
+		// Log the answer count for debugging
+		if (params.answerCount !== undefined && params.answerCount !== actualAnswerCount) {
+			logger.providerStats(this.name, {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				requestedAnswerCount: params.answerCount,
+				clampedAnswerCount: actualAnswerCount,
+				message: 'Answer count was clamped to valid range',
+			});
+		}
+
+		const sanitizedTopic = ChatCompletionTriviaProvider.stripControlCharacters(
+			sanitizeInput(params.topic, VALIDATION_LENGTH.TOPIC.MAX)
+		);
+
+		let sanitizedDifficulty: GameDifficulty = params.difficulty;
+		if (isCustomDifficulty(params.difficulty)) {
+			sanitizedDifficulty = createCustomDifficulty(
+				ChatCompletionTriviaProvider.stripControlCharacters(
+					sanitizeInput(extractCustomDifficultyText(params.difficulty), VALIDATION_LENGTH.CUSTOM_DIFFICULTY.MAX)
+				)
+			);
+		} else {
+			const normalizedRegistered = ChatCompletionTriviaProvider.stripControlCharacters(
+				sanitizeInput(params.difficulty, 32)
+			).toLowerCase();
+			sanitizedDifficulty = isRegisteredDifficulty(normalizedRegistered)
+				? normalizedRegistered
+				: toDifficultyLevel(params.difficulty);
+		}
+
+		const mappedExcludes = params.excludeQuestions
+			?.map(q => ChatCompletionTriviaProvider.stripControlCharacters(sanitizeInput(q, VALIDATION_LENGTH.QUESTION.MAX)))
+			.filter(q => q.length > 0);
+
+		return {
+			...params,
+			answerCount: actualAnswerCount,
+			topic: sanitizedTopic,
+			difficulty: sanitizedDifficulty,
+			...(mappedExcludes && mappedExcludes.length > 0
+				? { excludeQuestions: mappedExcludes }
+				: { excludeQuestions: undefined }),
+		};
+	}
+
+	private buildQuestionResult(core: TriviaQuestionCore, params: PromptParams): ProviderTriviaGenerationResult {
+		// Create base question object (without correctAnswerIndex initially)
+		const questionBase = {
+			topic: params.topic,
+			difficulty: params.difficulty,
+			question: core.question,
+			answers: core.answers,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+
+		// Validate the question quality
+		if (!questionBase.question || !questionBase.answers || questionBase.answers.length < 2) {
+			logger.providerError(this.name, 'Question validation failed: Invalid question format', {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				errorInfo: { messages: ['Invalid question format'] },
+			});
+
+			// Throw error instead of returning fallback question
+			throw createServerError('validate question format', new Error(ErrorCode.INVALID_QUESTION_FORMAT_FROM_AI));
+		}
+
+		// Sanitize the question
+		questionBase.question = questionBase.question.trim();
+		questionBase.answers = questionBase.answers.map(answer => ({
+			...answer,
+			text: answer.text.trim(),
+		}));
+
+		// Shuffle answers to prevent position bias
+		questionBase.answers = shuffle(questionBase.answers);
+
+		// Validate that there is exactly one correct answer after shuffling
+		const correctAnswerCount = questionBase.answers.filter(answer => answer.isCorrect).length;
+		if (correctAnswerCount !== 1) {
+			logger.providerError(this.name, 'Question validation failed: Invalid correct answer count after shuffle', {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				errorInfo: { messages: [`Expected 1 correct answer, found ${correctAnswerCount}`] },
+			});
+			throw createServerError('validate question format', new Error(ErrorCode.NO_CORRECT_ANSWER_FOUND));
+		}
+
+		// Calculate correctAnswerIndex after shuffling and create final question object
+		const correctAnswerIndex = questionBase.answers.findIndex(answer => answer.isCorrect);
+		const question: Omit<TriviaQuestion, 'id'> = {
+			...questionBase,
+			correctAnswerIndex,
+		};
+
+		const resolvedMappedDifficulty = toDifficultyLevel(params.difficulty);
+		question.metadata = this.applyMetadata(question.metadata, resolvedMappedDifficulty, params.difficulty);
+
+		return {
+			question,
+			mappedDifficulty: resolvedMappedDifficulty,
+		};
+	}
+
+	async pickSurpriseTopicAndDifficulty(options: SurprisePickOptions): Promise<SurprisePickResult> {
+		const { excludeTopics, scope, locale } = options;
+		const outputLanguage = OUTPUT_LANGUAGE_LABELS[locale ?? DEFAULT_LANGUAGE];
+		try {
+			const userPrompt = buildSurprisePickPrompt({
+				excludeTopics,
+				scope,
+				outputLanguageLabel: outputLanguage,
+				locale: locale ?? DEFAULT_LANGUAGE,
+			});
+			const response = await this.apiClient.makeApiCall(userPrompt, SURPRISE_PICK_SYSTEM_PROMPT);
+
+			const rawContent = response.data?.choices?.[0]?.message?.content;
+			const content = VALIDATORS.string(rawContent)
+				? rawContent
+				: typeof rawContent === 'object' && rawContent != null
+					? JSON.stringify(rawContent)
+					: '';
+			if (!content || content.trim().length === 0) {
+				throw createServerError('surprise pick', new Error(ERROR_MESSAGES.provider.INVALID_CHAT_COMPLETION_RESPONSE));
+			}
+
+			const jsonString = this.extractSurprisePickJson(content.trim());
+			let parsed: Record<string, unknown>;
+			try {
+				const result = JSON.parse(jsonString);
+				parsed = isRecord(result) ? result : {};
+			} catch {
+				throw createServerError('surprise pick', new Error(ErrorCode.INVALID_QUESTION_FORMAT_FROM_AI));
+			}
+
+			const result: SurprisePickResult = {};
+
+			if (scope === SurpriseScope.TOPIC || scope === SurpriseScope.BOTH) {
+				const topic = VALIDATORS.string(parsed.topic) ? parsed.topic.trim() : '';
+				if (topic.length < VALIDATION_LENGTH.TOPIC.MIN || topic.length > VALIDATION_LENGTH.TOPIC.MAX) {
+					throw createServerError(
+						'surprise pick',
+						new Error(`Topic length must be between ${VALIDATION_LENGTH.TOPIC.MIN} and ${VALIDATION_LENGTH.TOPIC.MAX}`)
+					);
+				}
+				result.topic = topic;
+			}
+
+			if (scope === SurpriseScope.DIFFICULTY || scope === SurpriseScope.BOTH) {
+				const difficultyRaw = VALIDATORS.string(parsed.difficulty) ? parsed.difficulty.trim() : '';
+				if (difficultyRaw.length === 0) {
+					throw createServerError('surprise pick', new Error('Difficulty is required'));
+				}
+				const difficultyLower = difficultyRaw.toLowerCase();
+				result.difficulty = isRegisteredDifficulty(difficultyLower)
+					? difficultyLower
+					: createCustomDifficulty(
+							difficultyRaw.length > VALIDATION_LENGTH.CUSTOM_DIFFICULTY.MAX
+								? difficultyRaw.slice(0, VALIDATION_LENGTH.CUSTOM_DIFFICULTY.MAX)
+								: difficultyRaw
+						);
+			}
+
+			return result;
+		} catch (error) {
+			logger.providerError(this.name, 'Surprise pick failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+			if (ChatCompletionTriviaProvider.isPassThroughError(error)) {
+				throw error;
+			}
+			throw createServerError('surprise pick', error);
+		}
+	}
+
+	private extractSurprisePickJson(content: string): string {
+		try {
+			JSON.parse(content);
+			return content;
+		} catch {
+			// ignore
+		}
+		const markdownBlock = /```(?:json)?\s*([\s\S]*?)```/i;
+		const match = content.match(markdownBlock);
+		if (match?.[1]) {
+			const candidate = match[1].trim();
+			try {
+				JSON.parse(candidate);
+				return candidate;
+			} catch {
+				// ignore
+			}
+		}
+		const objectMatch = content.match(/\{[\s\S]*\}/);
+		if (objectMatch?.[0]) {
+			return objectMatch[0];
+		}
+		throw createServerError('surprise pick', new Error(ErrorCode.INVALID_QUESTION_FORMAT_FROM_AI));
+	}
+
+	private applyMetadata(
+		existing: TriviaQuestionDetailsMetadata | undefined,
+		mappedDifficulty: DifficultyLevel,
+		requestedDifficulty: string
+	): TriviaQuestionDetailsMetadata {
+		const base: TriviaQuestionDetailsMetadata = {
+			...(existing ?? {}),
+			providerName: this.name,
+			mappedDifficulty,
+		};
+
+		if (isCustomDifficulty(requestedDifficulty)) {
+			const customText = extractCustomDifficultyText(requestedDifficulty).trim();
+			base.customDifficultyDescription = customText.length > 0 ? customText : requestedDifficulty;
+		}
+
+		return base;
+	}
+
+	private throwTriviaGenerationDeclined(reason: TriviaGenerationDeclinedReason): never {
+		throw createTriviaDeclinedError(reason);
+	}
+}
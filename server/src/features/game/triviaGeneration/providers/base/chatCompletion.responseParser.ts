@@ -1,31 +1,88 @@
 import { ERROR_MESSAGES, ErrorCode, LLM_PARSER, VALIDATION_LENGTH } from '@shared/constants';
-import type { TriviaAnswer } from '@shared/types';
+import type { TriviaAnswer, TriviaQuestionCore } from '@shared/types';
 import { isNonEmptyString, isRecord } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
-import { GROQ_PROVIDER_NAME, LLMResponseStatus, parseTriviaGenerationDeclinedReason } from '@internal/constants';
+import {
+	LLMResponseStatus,
+	parseTriviaGenerationDeclinedReason,
+	type TriviaGenerationDeclinedReason,
+} from '@internal/constants';
 import type { LLMResponse, LLMTriviaResponse, TriviaLLMJsonPayload } from '@internal/types';
 import { createValidationError } from '@internal/utils';
 
-export class GroqResponseParser {
-	constructor(private readonly providerName: string = GROQ_PROVIDER_NAME) {}
+export class ChatCompletionResponseParser {
+	constructor(private readonly providerName: string) {}
 
 	parseResponse(response: LLMResponse, expectedAnswerCount: number): LLMTriviaResponse {
-		const data = response.data;
-		if (!data?.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-			throw createValidationError(ERROR_MESSAGES.provider.INVALID_GROQ_RESPONSE, 'string');
+		return this.parseLLMContentToTriviaResponse(this.extractResponseContent(response), expectedAnswerCount);
+	}
+
+	// Items are validated one by one, so a batch with a few bad or truncated items still yields the good ones
+	parseBatchResponse(
+		response: LLMResponse,
+		expectedAnswerCount: number,
+		expectedQuestionCount: number
+	): LLMTriviaResponse {
+		const content = this.extractResponseContent(response);
+		if (!isNonEmptyString(content)) {
+			throw createValidationError(`${this.providerName} ${ErrorCode.RESPONSE_CONTENT_EMPTY}`, 'string');
 		}
-		const firstChoice = data.choices[0];
-		if (firstChoice == null) {
-			throw createValidationError(ERROR_MESSAGES.provider.INVALID_GROQ_RESPONSE, 'string');
+
+		const { normalizedContent, replacements } = this.normalizeContentQuotes(content);
+		const { items, declinedReason } = this.extractBatchItems(normalizedContent);
+
+		const questions: TriviaQuestionCore[] = [];
+		const seenQuestions = new Set<string>();
+		let rejectedCount = 0;
+		for (const item of items) {
+			if (questions.length >= expectedQuestionCount) {
+				break;
+			}
+			try {
+				const record = isRecord(item) ? item : {};
+				const question = this.sanitizeQuestion(record.question);
+				const normalizedQuestion = question.toLowerCase();
+				if (question.length === 0 || seenQuestions.has(normalizedQuestion)) {
+					rejectedCount += 1;
+					continue;
+				}
+				const answers = this.sanitizeAnswers(record.answers, expectedAnswerCount, false);
+				seenQuestions.add(normalizedQuestion);
+				questions.push({
+					question,
+					answers: answers.map((answer, index) => ({
+						text: answer,
+						isCorrect: index === 0,
+					})),
+				});
+			} catch {
+				rejectedCount += 1;
+			}
 		}
-		const rawContent = firstChoice.message.content;
-		const content = VALIDATORS.string(rawContent)
-			? rawContent
-			: typeof rawContent === 'object' && rawContent != null
-				? JSON.stringify(rawContent)
-				: String(rawContent ?? '');
-		return this.parseLLMContentToTriviaResponse(content, expectedAnswerCount);
+
+		const declined = questions.length === 0 && declinedReason != null ? `,declined=${declinedReason}` : '';
+		const validationSummary = `validated:batch=${questions.length}/${expectedQuestionCount},rejected=${rejectedCount},answers=${expectedAnswerCount},quotesFixed=${replacements}${declined}`;
+
+		if (questions.length === 0) {
+			return {
+				questions: [],
+				explanation: ERROR_MESSAGES.provider.UNABLE_TO_GENERATE_QUESTION,
+				content: normalizedContent,
+				status: LLMResponseStatus.ERROR,
+				validationSummary,
+				declinedReason,
+				rejectedCount,
+			};
+		}
+
+		return {
+			questions,
+			content: normalizedContent,
+			status: LLMResponseStatus.SUCCESS,
+			validationSummary,
+			rejectedCount,
+		};
 	}
 
 	parseLLMContentToTriviaResponse(content: string, expectedAnswerCount: number): LLMTriviaResponse {
@@ -66,6 +123,102 @@ export class GroqResponseParser {
 		};
 	}
 
+	private extractResponseContent(response: LLMResponse): string {
+		const data = response.data;
+		if (!data?.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
+			throw createValidationError(ERROR_MESSAGES.provider.INVALID_CHAT_COMPLETION_RESPONSE, 'string');
+		}
+		const firstChoice = data.choices[0];
+		if (firstChoice == null) {
+			throw createValidationError(ERROR_MESSAGES.provider.INVALID_CHAT_COMPLETION_RESPONSE, 'string');
+		}
+		const rawContent = firstChoice.message.content;
+		return VALIDATORS.string(rawContent)
+			? rawContent
+			: typeof rawContent === 'object' && rawContent != null
+				? JSON.stringify(rawContent)
+				: String(rawContent ?? '');
+	}
+
+	private extractBatchItems(content: string): {
+		items: unknown[];
+		declinedReason?: TriviaGenerationDeclinedReason;
+	} {
+		let parsed: unknown = null;
+		try {
+			parsed = JSON.parse(this.extractJsonFromContent(content));
+		} catch {
+			// Usually a response cut off by max_tokens; salvaged below
+		}
+
+		if (Array.isArray(parsed)) {
+			return { items: parsed };
+		}
+		if (!isRecord(parsed) || !Array.isArray(parsed.questions)) {
+			// Keep every item that was fully written before the JSON broke off
+			const items = this.salvageBatchItems(content);
+			if (items.length === 0) {
+				throw createValidationError(`${this.providerName} response is not valid JSON`, 'string');
+			}
+			return { items };
+		}
+
+		return {
+			items: parsed.questions,
+			declinedReason:
+				parsed.questions.length === 0
+					? parseTriviaGenerationDeclinedReason(parsed.generationDeclinedReason)
+					: undefined,
+		};
+	}
+
+	private salvageBatchItems(content: string): unknown[] {
+		const keyIdx = content.indexOf('"questions"');
+		const arrayStart = content.indexOf('[', Math.max(keyIdx, 0));
+		if (arrayStart === -1) {
+			return [];
+		}
+
+		const items: unknown[] = [];
+		let depth = 0;
+		let itemStart = -1;
+		let inString = false;
+		let escaped = false;
+		for (let i = arrayStart + 1; i < content.length; i++) {
+			const ch = content[i];
+			if (inString) {
+				if (escaped) escaped = false;
+				else if (ch === '\\') escaped = true;
+				else if (ch === '"') inString = false;
+				continue;
+			}
+			// Depth counts brackets as well as braces, so the ] that closes the questions array is the first one at depth 0
+			if (ch === '"') {
+				inString = true;
+			} else if (ch === '{' || ch === '[') {
+				if (depth === 0 && ch === '{') itemStart = i;
+				depth += 1;
+			} else if (ch === ']' && depth === 0) {
+				break;
+			} else if (ch === '}' || ch === ']') {
+				if (depth === 0) {
+					// A stray closing brace between items belongs to no item
+					continue;
+				}
+				depth -= 1;
+				if (depth === 0 && ch === '}' && itemStart !== -1) {
+					try {
+						items.push(JSON.parse(content.slice(itemStart, i + 1)));
+					} catch {
+						// Skip the malformed item and keep scanning
+					}
+					itemStart = -1;
+				}
+			}
+		}
+		return items;
+	}
+
 	private parseAndValidatePayload(content: string, expectedAnswerCount: number): TriviaLLMJsonPayload {
 		const jsonString = this.extractJsonFromContent(content);
 		let parsed: Record<string, unknown>;
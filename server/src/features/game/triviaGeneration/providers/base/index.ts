@@ -0,0 +1,2 @@
+export { ChatCompletionApiClient } from './chatCompletion.apiClient';
+export { ChatCompletionTriviaProvider } from './chatCompletion.provider';
@@ -0,0 +1,353 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { DEFAULT_LANGUAGE, ErrorCode, HTTP_TIMEOUTS, Locale, SurpriseScope, VALIDATION_COUNT } from '@shared/constants';
+import type { SurprisePickResult, TriviaAnswer, TriviaQuestion } from '@shared/types';
+import { calculateDuration, clamp } from '@shared/utils';
+import { extractCustomDifficultyText, isCustomDifficulty, toDifficultyLevel } from '@shared/validation';
+
+import { AppConfig } from '@config';
+import {
+	AIProviderId,
+	FIXTURE_PROVIDER_DEFAULTS,
+	FIXTURE_PROVIDER_NAME,
+	FIXTURE_PROVIDER_VERSION,
+	TRIVIA_BATCH_GENERATION_DEFAULTS,
+	type TriviaGenerationDeclinedReason,
+} from '@internal/constants';
+import { serverLogger as logger } from '@internal/services';
+import type {
+	AIProviderInstance,
+	FixtureCorpus,
+	FixtureCorpusQuestion,
+	FixtureCorpusTopic,
+	FixtureProviderConfig,
+	PromptParams,
+	ProviderTriviaBatchResult,
+	ProviderTriviaGenerationResult,
+	SurprisePickOptions,
+	TopicDifficultyGateParams,
+	TriviaFactCheckAnswer,
+	TriviaFactCheckParams,
+	TriviaProvider,
+} from '@internal/types';
+import { createServerError, createTriviaDeclinedError, isFixtureCorpus } from '@internal/utils';
+
+import { createSeededRandom, seededShuffle } from './fixture.random';
+
+export class FixtureTriviaProvider implements TriviaProvider {
+	readonly id = AIProviderId.FIXTURE;
+	readonly name = FIXTURE_PROVIDER_NAME;
+	private readonly config: FixtureProviderConfig;
+	private corpus: FixtureCorpus | null = null;
+	// Drives the simulated timeouts so a run of requests fails at the same positions every time
+	private requestCount = 0;
+
+	provider: AIProviderInstance = {
+		name: FIXTURE_PROVIDER_NAME,
+		config: {
+			model: FIXTURE_PROVIDER_DEFAULTS.model,
+			version: FIXTURE_PROVIDER_VERSION,
+			capabilities: ['trivia-generation'],
+			rateLimit: {
+				requestsPerMinute: 0,
+				tokensPerMinute: 0,
+			},
+			costPerToken: 0,
+			maxTokens: 0,
+			lastUpdated: new Date(),
+		},
+		isAvailable: true,
+		lastCheck: new Date(),
+		errorCount: 0,
+		successCount: 0,
+		averageResponseTime: 0,
+		currentLoad: 0,
+	};
+
+	constructor() {
+		this.config = AppConfig.fixtureProvider;
+	}
+
+	isConfigured(): boolean {
+		return true;
+	}
+
+	async evaluateTopicDifficultyGate(params: TopicDifficultyGateParams): Promise<TriviaGenerationDeclinedReason | null> {
+		return this.resolveDeclineReason(params.topic, params.outputLanguage);
+	}
+
+	// Corpus questions carry their own answer key; template questions are reported as unverified
+	async checkTriviaAnswer(params: TriviaFactCheckParams, signal?: AbortSignal): Promise<TriviaFactCheckAnswer> {
+		await this.maybeSimulateTimeout(signal);
+
+		const normalizedQuestion = params.question.toLowerCase().trim();
+		const entry = this.getCorpus()
+			.topics.flatMap(topic => topic.questions)
+			.find(question => question.question.toLowerCase().trim() === normalizedQuestion);
+		const answerIndex = entry
+			? params.answers.findIndex(answer => answer.toLowerCase().trim() === entry.correctAnswer.toLowerCase().trim())
+			: -1;
+
+		logger.providerStats(this.name, {
+			eventType: 'fact_check_completed',
+			topic: params.topic,
+		});
+		return answerIndex >= 0
+			? { answerIndex, defensibleAnswerIndexes: [answerIndex] }
+			: { answerIndex: null, defensibleAnswerIndexes: [] };
+	}
+
+	async generateTriviaQuestion(params: PromptParams, signal?: AbortSignal): Promise<ProviderTriviaGenerationResult> {
+		const startTime = Date.now();
+		await this.maybeSimulateTimeout(signal);
+
+		const result = this.createQuestion(params);
+		logger.providerSuccess(this.name, {
+			topic: params.topic,
+			difficulty: params.difficulty,
+			responseTime: calculateDuration(startTime),
+		});
+		return result;
+	}
+
+	async generateTriviaQuestionBatch(
+		params: PromptParams,
+		questionCount: number,
+		signal?: AbortSignal
+	): Promise<ProviderTriviaBatchResult> {
+		const startTime = Date.now();
+		await this.maybeSimulateTimeout(signal);
+
+		const count = clamp(
+			questionCount,
+			TRIVIA_BATCH_GENERATION_DEFAULTS.minQuestionsPerCall,
+			TRIVIA_BATCH_GENERATION_DEFAULTS.maxQuestionsPerCall
+		);
+		const excludeQuestions = [...(params.excludeQuestions ?? [])];
+		const questions: ProviderTriviaGenerationResult[] = [];
+		for (let i = 0; i < count; i++) {
+			const result = this.createQuestion({ ...params, excludeQuestions });
+			questions.push(result);
+			excludeQuestions.push(result.question.question);
+		}
+
+		logger.providerSuccess(this.name, {
+			topic: params.topic,
+			difficulty: params.difficulty,
+			responseTime: calculateDuration(startTime),
+			count: questions.length,
+		});
+		return { questions, rejectedCount: 0 };
+	}
+
+	async pickSurpriseTopicAndDifficulty(options: SurprisePickOptions): Promise<SurprisePickResult> {
+		const locale = options.locale ?? DEFAULT_LANGUAGE;
+		const excluded = new Set(options.excludeTopics.map(topic => topic.toLowerCase().trim()));
+		const random = createSeededRandom(`${this.config.seed}:surprise:${locale}:${[...excluded].join('|')}`);
+
+		const playable = this.getCorpus().topics.filter(
+			topic => topic.locale === locale && topic.declineReason == null && topic.questions.length > 0
+		);
+		const fresh = playable.filter(topic => !excluded.has(topic.topic.toLowerCase()));
+		// Once every corpus topic has been played, repeat them rather than failing the pick
+		const candidates = fresh.length > 0 ? fresh : playable;
+
+		const result: SurprisePickResult = {};
+		if (options.scope === SurpriseScope.TOPIC || options.scope === SurpriseScope.BOTH) {
+			const [topic] = seededShuffle(candidates, random);
+			if (!topic) {
+				throw createServerError('surprise pick', new Error(`Fixture corpus has no topics for locale ${locale}`));
+			}
+			result.topic = topic.topic;
+		}
+		if (options.scope === SurpriseScope.DIFFICULTY || options.scope === SurpriseScope.BOTH) {
+			const [difficulty] = seededShuffle(FIXTURE_PROVIDER_DEFAULTS.surpriseDifficulties, random);
+			result.difficulty = difficulty;
+		}
+
+		return result;
+	}
+
+	private createQuestion(params: PromptParams): ProviderTriviaGenerationResult {
+		const locale = params.outputLanguage ?? DEFAULT_LANGUAGE;
+
+		const declineReason = this.resolveDeclineReason(params.topic, locale);
+		if (declineReason != null) {
+			logger.providerStats(this.name, {
+				eventType: 'fixture_decline',
+				topic: params.topic,
+				difficulty: params.difficulty,
+				reason: declineReason,
+			});
+			throw createTriviaDeclinedError(declineReason);
+		}
+
+		const answerCount = clamp(
+			params.answerCount ?? VALIDATION_COUNT.ANSWER_COUNT.DEFAULT,
+			VALIDATION_COUNT.ANSWER_COUNT.MIN,
+			VALIDATION_COUNT.ANSWER_COUNT.MAX
+		);
+		const excluded = new Set((params.excludeQuestions ?? []).map(text => text.toLowerCase().trim()));
+		const mappedDifficulty = toDifficultyLevel(params.difficulty);
+		const random = createSeededRandom(
+			[this.config.seed, params.topic.toLowerCase().trim(), params.difficulty, locale].join(':')
+		);
+
+		const entry =
+			this.pickCorpusQuestion(params.topic, locale, mappedDifficulty, answerCount, excluded, random) ??
+			this.buildTemplateQuestion(params.topic, locale, answerCount, excluded, random);
+
+		const distractors = seededShuffle(entry.incorrectAnswers, random).slice(0, answerCount - 1);
+		const answers: TriviaAnswer[] = seededShuffle(
+			[{ text: entry.correctAnswer, isCorrect: true }, ...distractors.map(text => ({ text, isCorrect: false }))],
+			random
+		);
+
+		const question: Omit<TriviaQuestion, 'id'> = {
+			topic: params.topic,
+			difficulty: params.difficulty,
+			question: entry.question,
+			answers,
+			correctAnswerIndex: answers.findIndex(answer => answer.isCorrect),
+			metadata: {
+				providerName: this.name,
+				mappedDifficulty,
+				language: locale,
+				...(entry.explanation ? { explanation: entry.explanation } : {}),
+				...(isCustomDifficulty(params.difficulty)
+					? { customDifficultyDescription: extractCustomDifficultyText(params.difficulty).trim() }
+					: {}),
+			},
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+
+		return { question, mappedDifficulty };
+	}
+
+	private getCorpus(): FixtureCorpus {
+		if (this.corpus) {
+			return this.corpus;
+		}
+
+		const corpusPath = this.config.corpusPath || join(__dirname, FIXTURE_PROVIDER_DEFAULTS.corpusFileName);
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(readFileSync(corpusPath, 'utf8'));
+		} catch (error) {
+			throw createServerError('load fixture corpus', error);
+		}
+		if (!isFixtureCorpus(parsed)) {
+			throw createServerError('load fixture corpus', new Error(`Invalid fixture corpus format in ${corpusPath}`));
+		}
+
+		logger.providerStats(this.name, {
+			eventType: 'fixture_corpus_loaded',
+			count: parsed.topics.length,
+		});
+		this.corpus = parsed;
+		return parsed;
+	}
+
+	private findTopic(topic: string, locale: Locale): FixtureCorpusTopic | undefined {
+		const normalized = topic.toLowerCase().trim();
+		return this.getCorpus().topics.find(
+			entry =>
+				entry.locale === locale &&
+				(entry.topic.toLowerCase() === normalized ||
+					(entry.aliases ?? []).some(alias => alias.toLowerCase() === normalized))
+		);
+	}
+
+	private resolveDeclineReason(topic: string, locale: Locale): TriviaGenerationDeclinedReason | null {
+		return this.config.declineReason ?? this.findTopic(topic, locale)?.declineReason ?? null;
+	}
+
+	private pickCorpusQuestion(
+		topic: string,
+		locale: Locale,
+		difficulty: string,
+		answerCount: number,
+		excluded: Set<string>,
+		random: () => number
+	): FixtureCorpusQuestion | null {
+		const entry = this.findTopic(topic, locale);
+		if (!entry) {
+			return null;
+		}
+
+		const available = seededShuffle(entry.questions, random).filter(
+			question =>
+				question.incorrectAnswers.length >= answerCount - 1 && !excluded.has(question.question.toLowerCase().trim())
+		);
+		// Prefer the requested difficulty, but any unplayed question beats falling through to a template
+		return available.find(question => question.difficulty === difficulty) ?? available[0] ?? null;
+	}
+
+	private buildTemplateQuestion(
+		topic: string,
+		locale: Locale,
+		answerCount: number,
+		excluded: Set<string>,
+		random: () => number
+	): FixtureCorpusQuestion {
+		const usable = this.getCorpus().templates.filter(template => template.incorrectAnswers.length >= answerCount - 1);
+		const localized = usable.filter(template => template.locale === locale);
+		const templates = seededShuffle(localized.length > 0 ? localized : usable, random);
+		if (templates.length === 0) {
+			throw createServerError('generate trivia question', new Error(ErrorCode.INVALID_QUESTION_FORMAT_FROM_AI));
+		}
+
+		const displayTopic = topic.trim();
+		const fill = (text: string, n: number) => text.replaceAll('{topic}', displayTopic).replaceAll('{n}', String(n));
+
+		// Every excluded text can block at most one variant, so this always finds a fresh one
+		for (let n = 1; ; n++) {
+			const template = templates[(n - 1) % templates.length];
+			if (!template) {
+				continue;
+			}
+			const question = fill(template.question, n);
+			if (!excluded.has(question.toLowerCase().trim())) {
+				return {
+					question,
+					correctAnswer: fill(template.correctAnswer, n),
+					incorrectAnswers: template.incorrectAnswers.map(answer => fill(answer, n)),
+				};
+			}
+		}
+	}
+
+	private async maybeSimulateTimeout(signal?: AbortSignal): Promise<void> {
+		const timeoutRandom = createSeededRandom(`${this.config.seed}:timeout:${this.requestCount++}`);
+		if (timeoutRandom() < this.config.timeoutRate) {
+			await this.simulateTimeout(signal);
+		}
+	}
+
+	private async simulateTimeout(signal?: AbortSignal): Promise<never> {
+		await new Promise<void>(resolve => {
+			const timeoutId = setTimeout(resolve, HTTP_TIMEOUTS.QUESTION_GENERATION);
+			signal?.addEventListener(
+				'abort',
+				() => {
+					clearTimeout(timeoutId);
+					resolve();
+				},
+				{ once: true }
+			);
+		});
+
+		logger.providerStats(this.name, {
+			eventType: 'fixture_timeout',
+		});
+
+		if (signal?.aborted) {
+			const abortError = new Error('Request aborted');
+			abortError.name = 'AbortError';
+			throw abortError;
+		}
+		throw createServerError('generate trivia question', new Error(ErrorCode.QUESTION_GENERATION_TIMEOUT));
+	}
+}
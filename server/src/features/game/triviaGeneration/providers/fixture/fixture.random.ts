@@ -0,0 +1,37 @@
+// Seeded PRNG for the fixture provider: the same seed string always yields the same sequence,
+// so a given topic, difficulty and exclude list produce the same question on every run.
+
+function hashSeed(seed: string): number {
+	// FNV-1a
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+export function createSeededRandom(seed: string): () => number {
+	// mulberry32
+	let state = hashSeed(seed);
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+export function seededShuffle<T>(items: readonly T[], random: () => number): T[] {
+	const shuffled = [...items];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		const itemI = shuffled[i];
+		const itemJ = shuffled[j];
+		if (itemI != null && itemJ != null) {
+			[shuffled[i], shuffled[j]] = [itemJ, itemI];
+		}
+	}
+	return shuffled;
+}
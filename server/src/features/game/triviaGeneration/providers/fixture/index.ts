@@ -0,0 +1 @@
+export { FixtureTriviaProvider } from './fixture.provider';
@@ -0,0 +1,3 @@
+export { FixtureTriviaProvider } from './fixture';
+export { GroqTriviaProvider } from './groq';
+export { OpenAICompatibleTriviaProvider } from './openaiCompatible';
@@ -0,0 +1 @@
+export { OpenAICompatibleTriviaProvider } from './openaiCompatible.provider';
@@ -0,0 +1,62 @@
+import { AppConfig } from '@config';
+import {
+	AIProviderId,
+	OPENAI_COMPATIBLE_PROVIDER_MAX_TOKENS,
+	OPENAI_COMPATIBLE_PROVIDER_VERSION,
+} from '@internal/constants';
+import type { AIProviderInstance } from '@internal/types';
+
+import { ChatCompletionApiClient, ChatCompletionTriviaProvider } from '../base';
+
+// Any server exposing /v1/chat/completions: a local llama.cpp server, Ollama, vLLM or a hosted OpenAI-style API
+export class OpenAICompatibleTriviaProvider extends ChatCompletionTriviaProvider {
+	readonly id = AIProviderId.OPENAI_COMPATIBLE;
+	readonly name: string;
+	protected readonly apiClient: ChatCompletionApiClient;
+	private readonly baseUrl: string;
+
+	provider: AIProviderInstance;
+
+	constructor(options: { retryOnRateLimit?: boolean } = {}) {
+		super();
+		const config = AppConfig.aiProviders.openAICompatible;
+		this.name = config.name;
+		this.baseUrl = config.baseUrl;
+		this.apiClient = new ChatCompletionApiClient({
+			providerName: this.name,
+			providerId: this.id,
+			baseUrl: this.baseUrl,
+			apiKey: config.apiKey,
+			requiresApiKey: false,
+			models: [config.model],
+			priority: 1,
+			retryOnRateLimit: options.retryOnRateLimit ?? true,
+		});
+		this.provider = {
+			name: this.name,
+			config: {
+				model: config.model,
+				version: OPENAI_COMPATIBLE_PROVIDER_VERSION,
+				capabilities: ['trivia-generation'],
+				// Local servers have no published limits; 0 means unlimited
+				rateLimit: {
+					requestsPerMinute: 0,
+					tokensPerMinute: 0,
+				},
+				costPerToken: 0,
+				maxTokens: OPENAI_COMPATIBLE_PROVIDER_MAX_TOKENS,
+				lastUpdated: new Date(),
+			},
+			isAvailable: true,
+			lastCheck: new Date(),
+			errorCount: 0,
+			successCount: 0,
+			averageResponseTime: 0,
+			currentLoad: 0,
+		};
+	}
+
+	isConfigured(): boolean {
+		return this.baseUrl.length > 0;
+	}
+}
@@ -1,19 +1,21 @@
-import { BadRequestException, Injectable } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 
-import { ERROR_MESSAGES, Locale, OUTPUT_LANGUAGE_LABELS } from '@shared/constants';
+import { Locale, OUTPUT_LANGUAGE_LABELS } from '@shared/constants';
 import type { GameDifficulty } from '@shared/types';
 import { buildTopicDifficultyGateCacheKey, shouldSkipTopicDifficultyGate } from '@shared/validation';
 
 import { TRIVIA_GENERATION_DECLINED_REASON, type TriviaGenerationDeclinedReason } from '@internal/constants';
 import { serverLogger as logger } from '@internal/services';
+import { createTriviaDeclinedError } from '@internal/utils';
 
-import { GroqTriviaProvider } from './providers/groq';
 import { TopicDifficultyGateCache } from './topicDifficultyGate.cache';
+import { TriviaGenerationService } from './triviaGeneration.service';
 
 @Injectable()
 export class TopicDifficultyGateService {
 	private readonly cache = new TopicDifficultyGateCache();
-	private readonly provider = new GroqTriviaProvider();
+
+	constructor(private readonly triviaGenerationService: TriviaGenerationService) {}
 
 	async enforceTopicDifficultyGate(params: {
 		topic: string;
@@ -34,7 +36,7 @@ export class TopicDifficultyGateService {
 			return;
 		}
 
-		const declineReason = await this.provider.evaluateTopicDifficultyGate({
+		const declineReason = await this.triviaGenerationService.evaluateTopicDifficultyGate({
 			topic: params.topic,
 			difficulty: params.difficulty,
 			outputLanguage: params.outputLanguage,
@@ -77,24 +79,6 @@ export class TopicDifficultyGateService {
 	}
 
 	private throwDeclined(reason: TriviaGenerationDeclinedReason): never {
-		let message: string;
-		switch (reason) {
-			case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC:
-				message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_TOPIC;
-				break;
-			case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_DIFFICULTY:
-				message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_DIFFICULTY;
-				break;
-			case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC_AND_DIFFICULTY:
-				message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_TOPIC_AND_DIFFICULTY;
-				break;
-			case TRIVIA_GENERATION_DECLINED_REASON.INSUFFICIENT_VERIFIABLE_FACTS:
-				message = ERROR_MESSAGES.game.TRIVIA_DECLINED_INSUFFICIENT_VERIFIABLE_FACTS;
-				break;
-		}
-		throw new BadRequestException({
-			message,
-			errors: [message],
-		});
+		throw createTriviaDeclinedError(reason);
 	}
 }
@@ -1,8 +1,15 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { DeepPartial, Repository } from 'typeorm';
 
-import { DifficultyLevel, ErrorCode, Locale, ProviderHealthStatus, SurpriseScope } from '@shared/constants';
+import {
+	DifficultyLevel,
+	ErrorCode,
+	Locale,
+	ProviderHealthStatus,
+	TIME_PERIODS_MS,
+	TriviaFactCheckVerdict,
+} from '@shared/constants';
 import type {
 	AiProviderHealth,
 	AiProviderStats,
@@ -12,25 +19,55 @@ import type {
 	TriviaQuestionDetailsMetadata,
 	TriviaQuestionInput,
 } from '@shared/types';
-import { calculatePercentage, getErrorMessage, isNonEmptyString, normalizeStringArray } from '@shared/utils';
+import {
+	calculateDuration,
+	calculatePercentage,
+	getErrorMessage,
+	isNonEmptyString,
+	isProviderAuthError,
+	isProviderRateLimitError,
+	normalizeStringArray,
+} from '@shared/utils';
 import { isCustomDifficulty, toDifficultyLevel, VALIDATORS } from '@shared/validation';
 
+import { AppConfig } from '@config';
+import {
+	AI_PROVIDER_DEFAULTS,
+	AIProviderId,
+	QUESTION_SIMILARITY_DEFAULTS,
+	TriviaFactCheckMode,
+	type TriviaGenerationDeclinedReason,
+} from '@internal/constants';
 import { TriviaEntity } from '@internal/entities';
 import { serverLogger as logger } from '@internal/services';
-import type { PromptParams, ProviderTriviaGenerationResult } from '@internal/types';
-import { createServerError, createValidationError } from '@internal/utils';
+import type {
+	PromptParams,
+	ProviderTriviaGenerationResult,
+	SurprisePickOptions,
+	TopicDifficultyGateParams,
+	TriviaProvider,
+} from '@internal/types';
+import { addServableTriviaConditions, createServerError, createValidationError } from '@internal/utils';
+
+import { FixtureTriviaProvider, GroqTriviaProvider, OpenAICompatibleTriviaProvider } from './providers';
 
-import { GroqTriviaProvider } from './providers/groq';
+type TriviaProviderFactory = (options: { retryOnRateLimit?: boolean }) => TriviaProvider;
+
+const TRIVIA_PROVIDER_FACTORIES: Record<AIProviderId, TriviaProviderFactory> = {
+	[AIProviderId.GROQ]: options => new GroqTriviaProvider(options),
+	[AIProviderId.OPENAI_COMPATIBLE]: options => new OpenAICompatibleTriviaProvider(options),
+	[AIProviderId.FIXTURE]: () => new FixtureTriviaProvider(),
+};
 
 @Injectable()
 export class TriviaGenerationService {
-	private readonly groqProvider: GroqTriviaProvider;
+	private readonly providers: TriviaProvider[];
 
 	constructor(
 		@InjectRepository(TriviaEntity)
 		private readonly triviaRepository: Repository<TriviaEntity>
 	) {
-		this.groqProvider = new GroqTriviaProvider();
+		this.providers = this.createProviders();
 	}
 
 	async generateQuestion(
@@ -39,44 +76,84 @@ export class TriviaGenerationService {
 		options?: { signal?: AbortSignal }
 	): Promise<TriviaEntity> {
 		try {
-			// Try to generate question using Groq AI provider
-			const providerResult = await this.groqProvider.generateTriviaQuestion(params, options?.signal);
-			this.applyProviderMetadata(providerResult, params.difficulty);
+			const providerResult = await this.executeWithFailover(
+				'generate trivia question',
+				provider => provider.generateTriviaQuestion(params, options?.signal),
+				options?.signal
+			);
+			return await this.saveGeneratedQuestion(providerResult, params, userId, options?.signal);
+		} catch (error) {
+			if (error instanceof BadRequestException) {
+				throw error;
+			}
+			logger.gameError('Failed to generate trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: params.topic,
+				difficulty: params.difficulty,
+				userId: userId ?? 'anonymous',
+			});
 
-			const question = this.convertAIQuestionToFormat(providerResult.question, params.topic, params.difficulty);
+			// Re-throw the error instead of falling back to mock
+			throw createServerError('generate trivia question', error);
+		}
+	}
 
-			if (!question?.question || question.answers.length === 0) {
-				throw createServerError('generate question with AI providers', new Error(ErrorCode.AI_PROVIDERS_FAILED));
+	async generateQuestionBatch(
+		params: PromptParams,
+		questionCount: number,
+		userId?: string,
+		options?: { signal?: AbortSignal }
+	): Promise<TriviaEntity[]> {
+		try {
+			const batch = await this.executeWithFailover(
+				'generate trivia question batch',
+				provider => provider.generateTriviaQuestionBatch(params, questionCount, options?.signal),
+				options?.signal
+			);
+
+			const savedQuestions: TriviaEntity[] = [];
+			for (const providerResult of batch.questions) {
+				try {
+					savedQuestions.push(await this.saveGeneratedQuestion(providerResult, params, userId, options?.signal));
+				} catch (error) {
+					logger.gameError('Failed to save batch-generated trivia question', {
+						errorInfo: { message: getErrorMessage(error) },
+						topic: params.topic,
+						difficulty: params.difficulty,
+					});
+				}
 			}
 
-			const triviaEntity = this.convertQuestionToEntity(question, userId);
-			if (params.outputLanguage != null && triviaEntity.metadata != null) {
-				triviaEntity.metadata = { ...triviaEntity.metadata, language: params.outputLanguage };
-			} else if (params.outputLanguage != null) {
-				triviaEntity.metadata = { language: params.outputLanguage };
-			}
-			const savedQuestion = await this.saveQuestion(triviaEntity);
+			logger.gameInfo('Generated trivia question batch', {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				requestCounts: { requested: questionCount },
+				actualCount: savedQuestions.length,
+				errorsCount: batch.rejectedCount,
+			});
 
-			return savedQuestion;
+			return savedQuestions;
 		} catch (error) {
-			logger.gameError('Failed to generate trivia question', {
+			if (error instanceof BadRequestException) {
+				throw error;
+			}
+			logger.gameError('Failed to generate trivia question batch', {
 				errorInfo: { message: getErrorMessage(error) },
 				topic: params.topic,
 				difficulty: params.difficulty,
+				count: questionCount,
 				userId: userId ?? 'anonymous',
 			});
-
-			// Re-throw the error instead of falling back to mock
-			throw createServerError('generate trivia question', error);
+			throw createServerError('generate trivia question batch', error);
 		}
 	}
 
-	async getSurprisePick(options: {
-		excludeTopics: string[];
-		scope: SurpriseScope;
-		locale?: Locale;
-	}): Promise<SurprisePickResult> {
-		return this.groqProvider.pickSurpriseTopicAndDifficulty(options);
+	async getSurprisePick(options: SurprisePickOptions): Promise<SurprisePickResult> {
+		return this.executeWithFailover('surprise pick', provider => provider.pickSurpriseTopicAndDifficulty(options));
+	}
+
+	async evaluateTopicDifficultyGate(params: TopicDifficultyGateParams): Promise<TriviaGenerationDeclinedReason | null> {
+		return this.executeWithFailover('topic difficulty gate', provider => provider.evaluateTopicDifficultyGate(params));
 	}
 
 	async getAvailableQuestions(
@@ -85,15 +162,18 @@ export class TriviaGenerationService {
 		count: number,
 		excludeQuestionTexts: string[] = [],
 		excludeQuestionIds: string[] = [],
-		outputLanguage?: Locale
+		outputLanguage?: Locale,
+		similarExcludeTexts: string[] = []
 	): Promise<TriviaEntity[]> {
 		try {
 			const difficultyLevel = toDifficultyLevel(difficulty);
 			const queryBuilder = this.triviaRepository
 				.createQueryBuilder('trivia')
 				.where('LOWER(trivia.topic) = LOWER(:topic)', { topic })
-				.andWhere('trivia.difficulty = :difficulty', {
+				// A question also serves the level players actually found it to be, not only the level it was generated for
+				.andWhere('(trivia.difficulty = :difficulty OR trivia.calibratedDifficulty = :calibratedDifficulty)', {
 					difficulty: difficultyLevel,
+					calibratedDifficulty: difficultyLevel,
 				});
 
 			if (outputLanguage != null) {
@@ -103,18 +183,39 @@ export class TriviaGenerationService {
 				);
 			}
 
+			addServableTriviaConditions(queryBuilder, 'trivia');
+
 			if (excludeQuestionTexts.length > 0) {
 				const normalizedExcludes = excludeQuestionTexts.map(q => q.toLowerCase().trim());
 				queryBuilder.andWhere('LOWER(TRIM(trivia.question)) NOT IN (:...excludes)', { excludes: normalizedExcludes });
 			}
 
+			if (similarExcludeTexts.length > 0) {
+				// Looks up the similar questions per excluded text, so `LOWER(question) % text` can use the trigram index
+				// (a per-row NOT EXISTS would compare two runtime values and scan); similarity() applies the stricter threshold
+				queryBuilder.andWhere(
+					'trivia.id NOT IN (SELECT similar_trivia.id FROM unnest(ARRAY[:...similarExcludes]::text[]) AS excluded(text) JOIN trivia similar_trivia ON LOWER(similar_trivia.question) % excluded.text AND similarity(LOWER(similar_trivia.question), excluded.text) >= :similarityThreshold)',
+					{
+						similarExcludes: similarExcludeTexts.map(q => q.toLowerCase().trim()),
+						similarityThreshold: QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold,
+					}
+				);
+			}
+
 			if (excludeQuestionIds.length > 0) {
 				queryBuilder.andWhere('trivia.id NOT IN (:...excludeIds)', {
 					excludeIds: excludeQuestionIds,
 				});
 			}
 
-			queryBuilder.orderBy('RANDOM()').limit(count);
+			// Questions measured at the requested level come first, then uncalibrated ones, then ones measured at another level
+			queryBuilder
+				.orderBy(
+					'CASE WHEN trivia.calibratedDifficulty = :calibratedDifficulty THEN 0 WHEN trivia.calibratedDifficulty IS NULL THEN 1 ELSE 2 END',
+					'ASC'
+				)
+				.addOrderBy('RANDOM()')
+				.limit(count);
 
 			const questions = await queryBuilder.getMany();
 
@@ -140,8 +241,10 @@ export class TriviaGenerationService {
 			const queryBuilder = this.triviaRepository
 				.createQueryBuilder('trivia')
 				.where('LOWER(trivia.topic) = LOWER(:topic)', { topic })
-				.andWhere('trivia.difficulty = :difficulty', {
+				// Same level match as getAvailableQuestions, so calibrated questions do not trigger needless generation
+				.andWhere('(trivia.difficulty = :difficulty OR trivia.calibratedDifficulty = :calibratedDifficulty)', {
 					difficulty: difficultyLevel,
+					calibratedDifficulty: difficultyLevel,
 				});
 
 			if (outputLanguage != null) {
@@ -151,6 +254,8 @@ export class TriviaGenerationService {
 				);
 			}
 
+			addServableTriviaConditions(queryBuilder, 'trivia');
+
 			const count = await queryBuilder.getCount();
 
 			return count > 0;
@@ -221,6 +326,8 @@ export class TriviaGenerationService {
 			language: isNonEmptyString(base.language) ? base.language : undefined,
 			explanation: isNonEmptyString(base.explanation) ? base.explanation : fallbackExplanation,
 			mappedDifficulty: base.mappedDifficulty ?? undefined,
+			factCheckVerdict: base.factCheckVerdict,
+			needsReview: base.needsReview,
 		};
 	}
 
@@ -248,13 +355,19 @@ export class TriviaGenerationService {
 		difficulty: DifficultyLevel
 	): Promise<TriviaEntity | null> {
 		try {
+			// Rephrased copies of a stored question count as the same question, not just exact text matches.
+			// The pg_trgm % operator lets the lookup use the trigram index before similarity() scores the candidates.
 			const existingQuestion = await this.triviaRepository
 				.createQueryBuilder('trivia')
-				.where('LOWER(TRIM(trivia.question)) = LOWER(TRIM(:question))', {
+				.where('LOWER(trivia.topic) = LOWER(:topic)', { topic })
+				.andWhere('trivia.difficulty = :difficulty', { difficulty })
+				.andWhere('trivia.retiredAt IS NULL')
+				.andWhere('LOWER(trivia.question) % LOWER(TRIM(:question))')
+				.andWhere('similarity(LOWER(trivia.question), LOWER(TRIM(:question))) >= :threshold', {
 					question: questionText,
+					threshold: QUESTION_SIMILARITY_DEFAULTS.duplicateThreshold,
 				})
-				.andWhere('LOWER(trivia.topic) = LOWER(:topic)', { topic })
-				.andWhere('trivia.difficulty = :difficulty', { difficulty })
+				.orderBy('similarity(LOWER(trivia.question), LOWER(TRIM(:question)))', 'DESC')
 				.getOne();
 
 			return existingQuestion ?? null;
@@ -320,37 +433,239 @@ export class TriviaGenerationService {
 		};
 	}
 
+	private async resolveFactCheckVerdict(
+		providerResult: ProviderTriviaGenerationResult,
+		params: PromptParams,
+		signal?: AbortSignal
+	): Promise<TriviaFactCheckVerdict> {
+		const { question } = providerResult;
+		const correctAnswerIndex = question.answers.findIndex(answer => answer.isCorrect);
+		try {
+			const check = await this.executeWithFailover(
+				'fact-check trivia question',
+				provider =>
+					provider.checkTriviaAnswer(
+						{
+							topic: params.topic,
+							question: question.question,
+							answers: question.answers.map(answer => answer.text),
+							outputLanguageLabel: params.outputLanguageLabel,
+						},
+						signal
+					),
+				signal
+			);
+
+			if (check.defensibleAnswerIndexes.length > 1) {
+				return TriviaFactCheckVerdict.AMBIGUOUS;
+			}
+			if (check.answerIndex == null) {
+				return TriviaFactCheckVerdict.UNVERIFIED;
+			}
+			return check.answerIndex === correctAnswerIndex
+				? TriviaFactCheckVerdict.CONFIRMED
+				: TriviaFactCheckVerdict.WRONG_ANSWER;
+		} catch (error) {
+			if (signal?.aborted) {
+				throw error;
+			}
+			// A failed check must not cost the player a question; it only leaves the verdict open
+			logger.gameError('Failed to fact-check trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				topic: params.topic,
+			});
+			return TriviaFactCheckVerdict.UNVERIFIED;
+		}
+	}
+
+	private async applyFactCheck(
+		providerResult: ProviderTriviaGenerationResult,
+		params: PromptParams,
+		signal?: AbortSignal
+	): Promise<void> {
+		const { mode } = AppConfig.triviaFactCheck;
+		if (mode === TriviaFactCheckMode.OFF) {
+			return;
+		}
+
+		const verdict = await this.resolveFactCheckVerdict(providerResult, params, signal);
+		if (
+			mode === TriviaFactCheckMode.DISCARD &&
+			(verdict === TriviaFactCheckVerdict.WRONG_ANSWER || verdict === TriviaFactCheckVerdict.AMBIGUOUS)
+		) {
+			logger.gameInfo('Discarded trivia question that failed fact check', {
+				topic: params.topic,
+				difficulty: params.difficulty,
+				reason: verdict,
+			});
+			throw createServerError('fact-check trivia question', new Error(ErrorCode.QUESTION_FAILED_FACT_CHECK));
+		}
+
+		providerResult.question.metadata = {
+			...(providerResult.question.metadata ?? {}),
+			factCheckVerdict: verdict,
+			needsReview: verdict !== TriviaFactCheckVerdict.CONFIRMED,
+		};
+	}
+
+	private async saveGeneratedQuestion(
+		providerResult: ProviderTriviaGenerationResult,
+		params: PromptParams,
+		userId?: string,
+		signal?: AbortSignal
+	): Promise<TriviaEntity> {
+		this.applyProviderMetadata(providerResult, params.difficulty);
+		await this.applyFactCheck(providerResult, params, signal);
+
+		const question = this.convertAIQuestionToFormat(providerResult.question, params.topic, params.difficulty);
+
+		if (!question?.question || question.answers.length === 0) {
+			throw createServerError('generate question with AI providers', new Error(ErrorCode.AI_PROVIDERS_FAILED));
+		}
+
+		const triviaEntity = this.convertQuestionToEntity(question, userId);
+		if (params.outputLanguage != null && triviaEntity.metadata != null) {
+			triviaEntity.metadata = { ...triviaEntity.metadata, language: params.outputLanguage };
+		} else if (params.outputLanguage != null) {
+			triviaEntity.metadata = { language: params.outputLanguage };
+		}
+		return this.saveQuestion(triviaEntity);
+	}
+
+	private createProviders(): TriviaProvider[] {
+		const priority = [...new Set(AppConfig.aiProviders.priority)];
+		const configured = priority
+			.map(id => TRIVIA_PROVIDER_FACTORIES[id]({}))
+			.filter(provider => provider.isConfigured());
+
+		if (configured.length === 0) {
+			// Keep Groq registered so requests still fail with its "API key not configured" error
+			return [new GroqTriviaProvider()];
+		}
+		if (configured.length === 1) {
+			return configured;
+		}
+
+		// With a fallback available, a rate-limited provider hands over at once instead of waiting out its retries
+		return configured.map(provider => TRIVIA_PROVIDER_FACTORIES[provider.id]({ retryOnRateLimit: false }));
+	}
+
+	private isProviderReady(provider: TriviaProvider, now: number = Date.now()): boolean {
+		const { unavailableUntil } = provider.provider;
+		return unavailableUntil == null || unavailableUntil.getTime() <= now;
+	}
+
+	private async executeWithFailover<T>(
+		operation: string,
+		run: (provider: TriviaProvider) => Promise<T>,
+		signal?: AbortSignal
+	): Promise<T> {
+		const now = Date.now();
+		const ready = this.providers.filter(provider => this.isProviderReady(provider, now));
+		// When every provider is cooling down, try them anyway rather than failing without a single request
+		const candidates = ready.length > 0 ? ready : this.providers;
+		let lastError: unknown = null;
+
+		for (const [index, provider] of candidates.entries()) {
+			const startTime = Date.now();
+			try {
+				const result = await run(provider);
+				this.recordProviderSuccess(provider, calculateDuration(startTime));
+				return result;
+			} catch (error) {
+				// A decline is the model's answer about the request, and an aborted request has no one left to serve
+				if (error instanceof BadRequestException || signal?.aborted) {
+					throw error;
+				}
+				this.recordProviderFailure(provider, error);
+				lastError = error;
+
+				const nextProvider = candidates[index + 1];
+				if (nextProvider) {
+					logger.providerStats(provider.name, {
+						eventType: 'provider_failover',
+						operation,
+						provider: nextProvider.name,
+						errorInfo: { message: getErrorMessage(error) },
+					});
+				}
+			}
+		}
+
+		throw createServerError(operation, lastError ?? new Error(ErrorCode.AI_PROVIDERS_FAILED));
+	}
+
+	private recordProviderSuccess(provider: TriviaProvider, responseTime: number): void {
+		const instance = provider.provider;
+		instance.successCount++;
+		instance.averageResponseTime += (responseTime - instance.averageResponseTime) / instance.successCount;
+		instance.lastUsed = new Date();
+		instance.lastCheck = new Date();
+		instance.isAvailable = true;
+		instance.unavailableUntil = undefined;
+	}
+
+	private recordProviderFailure(provider: TriviaProvider, error: unknown): void {
+		const instance = provider.provider;
+		instance.errorCount++;
+		instance.lastUsed = new Date();
+		instance.lastCheck = new Date();
+
+		let cooldownMs: number | null = null;
+		if (isProviderRateLimitError(error)) {
+			cooldownMs =
+				error.retryAfter != null ? error.retryAfter * TIME_PERIODS_MS.SECOND : AI_PROVIDER_DEFAULTS.rateLimitCooldownMs;
+		} else if (isProviderAuthError(error)) {
+			cooldownMs = AI_PROVIDER_DEFAULTS.authFailureCooldownMs;
+		}
+
+		if (cooldownMs != null) {
+			instance.isAvailable = false;
+			instance.unavailableUntil = new Date(Date.now() + cooldownMs);
+		}
+	}
+
 	getProviderStats(): AiProviderStats {
-		const provider = this.groqProvider.provider;
-		const totalRequests = provider.errorCount + provider.successCount;
+		const now = Date.now();
+		const providerDetails: AiProviderStats['providerDetails'] = {};
+		for (const { provider } of this.providers) {
+			const totalRequests = provider.errorCount + provider.successCount;
+			const isReady = provider.unavailableUntil == null || provider.unavailableUntil.getTime() <= now;
+			providerDetails[provider.name] = {
+				status: isReady ? ProviderHealthStatus.HEALTHY : ProviderHealthStatus.UNHEALTHY,
+				requests: totalRequests,
+				successes: provider.successCount,
+				failures: provider.errorCount,
+				successRate: calculatePercentage(provider.successCount, totalRequests),
+				errorRate: calculatePercentage(provider.errorCount, totalRequests),
+				averageResponseTime: provider.averageResponseTime,
+				lastUsed: provider.lastUsed?.toISOString(),
+			};
+		}
+
+		const currentProviderIndex = this.providers.findIndex(provider => this.isProviderReady(provider, now));
 
 		return {
-			totalProviders: 1,
-			currentProviderIndex: 0,
-			providers: [provider.name],
-			providerDetails: {
-				[provider.name]: {
-					status: provider.isAvailable ? ProviderHealthStatus.HEALTHY : ProviderHealthStatus.UNHEALTHY,
-					requests: totalRequests,
-					successes: provider.successCount,
-					failures: provider.errorCount,
-					successRate: calculatePercentage(provider.successCount, totalRequests),
-					errorRate: calculatePercentage(provider.errorCount, totalRequests),
-					averageResponseTime: provider.averageResponseTime,
-					lastUsed: provider.isAvailable ? new Date().toISOString() : undefined,
-				},
-			},
+			totalProviders: this.providers.length,
+			currentProviderIndex: Math.max(currentProviderIndex, 0),
+			providers: this.providers.map(provider => provider.name),
+			providerDetails,
 			timestamp: new Date().toISOString(),
 		};
 	}
 
+	hasConfiguredProvider(): boolean {
+		return this.providers.some(provider => provider.isConfigured());
+	}
+
 	getProviderHealth(): AiProviderHealth {
-		const provider = this.groqProvider.provider;
+		const now = Date.now();
+		const availableProviders = this.providers.filter(provider => this.isProviderReady(provider, now)).length;
 
 		return {
-			status: provider.isAvailable ? ProviderHealthStatus.HEALTHY : ProviderHealthStatus.UNHEALTHY,
-			availableProviders: provider.isAvailable ? 1 : 0,
-			totalProviders: 1,
+			status: availableProviders > 0 ? ProviderHealthStatus.HEALTHY : ProviderHealthStatus.UNHEALTHY,
+			availableProviders,
+			totalProviders: this.providers.length,
 			timestamp: new Date().toISOString(),
 		};
 	}
@@ -0,0 +1 @@
+export { TriviaReportService } from './triviaReport.service';
@@ -0,0 +1,124 @@
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { CACHE_KEYS, ErrorCode, TriviaReportReason, TriviaReportStatus } from '@shared/constants';
+import type { ReportTriviaQuestionResponse } from '@shared/types';
+import { getErrorMessage, isNonEmptyString } from '@shared/utils';
+import { isUuid } from '@shared/validation';
+
+import { TRIVIA_REPORT_DEFAULTS } from '@internal/constants';
+import { GameHistoryEntity, TriviaEntity, TriviaReportEntity } from '@internal/entities';
+import { StorageService } from '@internal/modules';
+import { serverLogger as logger } from '@internal/services';
+import { createNotFoundError, createServerError, isGameSessionState } from '@internal/utils';
+
+@Injectable()
+export class TriviaReportService {
+	constructor(
+		@InjectRepository(TriviaEntity)
+		private readonly triviaRepository: Repository<TriviaEntity>,
+		@InjectRepository(TriviaReportEntity)
+		private readonly triviaReportRepository: Repository<TriviaReportEntity>,
+		@InjectRepository(GameHistoryEntity)
+		private readonly gameHistoryRepository: Repository<GameHistoryEntity>,
+		private readonly storageService: StorageService
+	) {}
+
+	async reportQuestion(
+		userId: string,
+		questionId: string,
+		reason: TriviaReportReason,
+		note?: string
+	): Promise<ReportTriviaQuestionResponse> {
+		try {
+			if (!isUuid(questionId)) {
+				throw new BadRequestException(ErrorCode.INVALID_QUESTION_ID_FORMAT);
+			}
+
+			const questionExists = await this.triviaRepository.exists({ where: { id: questionId } });
+			if (!questionExists) {
+				throw createNotFoundError('Question');
+			}
+
+			// Only players who were served the question count toward hiding it
+			const wasDelivered = await this.wasQuestionDelivered(userId, questionId);
+			if (!wasDelivered) {
+				throw new BadRequestException(ErrorCode.QUESTION_NOT_DELIVERED);
+			}
+
+			const trimmedNote = isNonEmptyString(note) ? note.trim() : '';
+			const storedNote = trimmedNote.length > 0 ? trimmedNote : null;
+			// One open report per player and question (a partial unique index): a concurrent or repeated report hits
+			// the conflict and replaces the reason and note instead
+			const insertResult = await this.triviaReportRepository
+				.createQueryBuilder()
+				.insert()
+				.into(TriviaReportEntity)
+				.values({ questionId, userId, reason, note: storedNote, status: TriviaReportStatus.OPEN })
+				.orIgnore()
+				.execute();
+			const insertedRows: unknown = insertResult.raw;
+			const isNewReport = Array.isArray(insertedRows) && insertedRows.length > 0;
+			if (!isNewReport) {
+				await this.triviaReportRepository.update(
+					{ questionId, userId, status: TriviaReportStatus.OPEN },
+					{ reason, note: storedNote }
+				);
+			}
+
+			const openReportCount = await this.triviaReportRepository.count({
+				where: { questionId, status: TriviaReportStatus.OPEN },
+			});
+			logger.gameInfo('Trivia question reported', {
+				userId,
+				questionId,
+				reason,
+				count: openReportCount,
+			});
+			if (isNewReport && openReportCount === TRIVIA_REPORT_DEFAULTS.hideThreshold) {
+				logger.gameInfo('Trivia question hidden pending moderation', {
+					questionId,
+					count: openReportCount,
+				});
+			}
+
+			return { questionId, reported: true };
+		} catch (error) {
+			if (error instanceof HttpException) {
+				throw error;
+			}
+			logger.gameError('Failed to report trivia question', {
+				errorInfo: { message: getErrorMessage(error) },
+				userId,
+				questionId,
+			});
+			throw createServerError('report trivia question', error);
+		}
+	}
+
+	// Checks the player's active session snapshots first, then their finished games
+	private async wasQuestionDelivered(userId: string, questionId: string): Promise<boolean> {
+		const keysResult = await this.storageService.getKeysByRelativePattern(CACHE_KEYS.GAME.SESSION(userId, '*'));
+		if (keysResult.success && keysResult.data) {
+			for (const sessionKey of keysResult.data) {
+				const sessionResult = await this.storageService.get(sessionKey);
+				if (
+					sessionResult.success &&
+					isGameSessionState(sessionResult.data) &&
+					sessionResult.data.questionSnapshots?.[questionId] != null
+				) {
+					return true;
+				}
+			}
+		}
+
+		return this.gameHistoryRepository
+			.createQueryBuilder('history')
+			.where('history.userId = :userId', { userId })
+			.andWhere('history.answerHistory @> CAST(:deliveredQuestion AS jsonb)', {
+				deliveredQuestion: JSON.stringify([{ questionId }]),
+			})
+			.getExists();
+	}
+}
@@ -16,7 +16,12 @@ import { AnalyticsModule } from '../analytics/analytics.module';
 import { GameModule } from '../game/game.module';
 import { DataMaintenanceService } from './dataMaintenance.service';
 import { MaintenanceController } from './maintenance.controller';
-import { GameSessionScheduler, ScoreResetScheduler } from './schedulers';
+import {
+	GameSessionScheduler,
+	QuestionCalibrationScheduler,
+	QuestionPoolScheduler,
+	ScoreResetScheduler,
+} from './schedulers';
 import { UserStatsMaintenanceService } from './userStatsMaintenance.service';
 
 @Module({
@@ -31,12 +36,19 @@ import { UserStatsMaintenanceService } from './userStatsMaintenance.service';
 			PaymentHistoryEntity,
 		]),
 		forwardRef(() => AnalyticsModule), // For UserStatsUpdateService
-		forwardRef(() => GameModule), // For GameService
+		forwardRef(() => GameModule), // For GameService, QuestionPoolService and QuestionCalibrationService
 		StorageModule, // For GameSessionScheduler
 		CacheModule, // For DataMaintenanceService
 	],
 	controllers: [MaintenanceController],
-	providers: [UserStatsMaintenanceService, DataMaintenanceService, ScoreResetScheduler, GameSessionScheduler],
+	providers: [
+		UserStatsMaintenanceService,
+		DataMaintenanceService,
+		ScoreResetScheduler,
+		GameSessionScheduler,
+		QuestionPoolScheduler,
+		QuestionCalibrationScheduler,
+	],
 	exports: [UserStatsMaintenanceService, DataMaintenanceService],
 })
 export class MaintenanceModule {}
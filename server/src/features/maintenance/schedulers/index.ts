@@ -1,2 +1,4 @@
 export { ScoreResetScheduler } from './scoreReset.scheduler';
 export { GameSessionScheduler } from './gameSession.scheduler';
+export { QuestionPoolScheduler } from './questionPool.scheduler';
+export { QuestionCalibrationScheduler } from './questionCalibration.scheduler';
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { getErrorMessage } from '@shared/utils';
+
+import { serverLogger as logger } from '@internal/services';
+
+import { QuestionCalibrationService } from '../../game/questionCalibration/questionCalibration.service';
+
+@Injectable()
+export class QuestionCalibrationScheduler {
+	constructor(private readonly questionCalibrationService: QuestionCalibrationService) {}
+
+	@Cron(CronExpression.EVERY_DAY_AT_4AM)
+	async calibrateQuestions(): Promise<void> {
+		try {
+			const summary = await this.questionCalibrationService.calibrate();
+
+			logger.gameInfo('Scheduled question calibration completed', {
+				status: summary.outcome,
+				actualCount: summary.questionsCalibrated,
+			});
+		} catch (error) {
+			logger.gameError('Scheduled question calibration failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		}
+	}
+}
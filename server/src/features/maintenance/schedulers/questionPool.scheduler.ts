@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { getErrorMessage } from '@shared/utils';
+
+import { serverLogger as logger } from '@internal/services';
+
+import { QuestionPoolService } from '../../game/questionPool/questionPool.service';
+
+@Injectable()
+export class QuestionPoolScheduler {
+	constructor(private readonly questionPoolService: QuestionPoolService) {}
+
+	@Cron(CronExpression.EVERY_10_MINUTES)
+	async warmQuestionPool(): Promise<void> {
+		try {
+			const summary = await this.questionPoolService.warmPool();
+
+			logger.gameInfo('Scheduled question pool warm-up completed', {
+				status: summary.outcome,
+				actualCount: summary.questionsAdded,
+			});
+		} catch (error) {
+			logger.gameError('Scheduled question pool warm-up failed', {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		}
+	}
+}
@@ -3,7 +3,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 
 import { TIME_PERIODS_MS } from '@shared/constants';
-import { calculateScoreRate, getErrorMessage, namesMatch, sumBy } from '@shared/utils';
+import { calculateScoreRate, getErrorMessage, normalizeTopicKey, sumBy } from '@shared/utils';
 
 import { GameHistoryEntity, UserStatsEntity } from '@internal/entities';
 import { CacheInvalidationService } from '@internal/modules';
@@ -166,7 +166,7 @@ export class UserStatsMaintenanceService {
 			const topicStatsInconsistent: string[] = [];
 			if (userStats.topicStats) {
 				for (const [topic, stats] of Object.entries(userStats.topicStats)) {
-					const topicGames = gameHistory.filter(game => namesMatch(game.topic, topic));
+					const topicGames = gameHistory.filter(game => normalizeTopicKey(game.topic) === normalizeTopicKey(topic));
 					const expectedTopicQuestions = sumBy(topicGames, g => g.gameQuestionCount);
 					const expectedTopicCorrect = sumBy(topicGames, g => g.correctAnswers);
 
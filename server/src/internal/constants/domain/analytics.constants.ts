@@ -11,3 +11,8 @@ export const UNIFIED_SECTION_KEYS = new Set([
 	'progress',
 	'comparison',
 ]);
+
+// Rates from a handful of answers are noise, so the rate-based orderings list questions below this after the rest
+export const QUESTION_ANALYTICS_DEFAULTS = {
+	minServedForRanking: 5,
+} as const;
@@ -1,4 +1,10 @@
-import { LeaderboardPeriod, TIME_PERIODS_MS } from '@shared/constants';
+import {
+	DifficultyLevel,
+	LeaderboardPeriod,
+	TIME_DURATIONS_SECONDS,
+	TIME_PERIODS_MS,
+	TopicSuggestionSource,
+} from '@shared/constants';
 
 import type { GroqModelConfig } from '@internal/types';
 
@@ -39,6 +45,59 @@ export const LEADERBOARD_PERIOD_CONFIG: Record<LeaderboardPeriod, { durationMs:
 	},
 };
 
+// Pinned question sets and attempt markers outlive the UTC day so late finalizers still resolve them
+export const DAILY_CHALLENGE_STORAGE_TTL_SECONDS = 2 * TIME_DURATIONS_SECONDS.DAY;
+
+export const DAILY_CHALLENGE_DIFFICULTIES: readonly DifficultyLevel[] = [
+	DifficultyLevel.EASY,
+	DifficultyLevel.MEDIUM,
+	DifficultyLevel.HARD,
+];
+
+// Single-player answer timing: how far the client-reported timeSpent may drift from the server-measured elapsed time
+// (render latency, the reveal delay between questions) before the server value is used instead
+export const ANSWER_TIMING_DEFAULTS = {
+	toleranceSeconds: 3,
+} as const;
+
+// Multiplayer question deadlines live in a Redis sorted set; every instance sweeps for overdue ones and a short
+// per-room lease makes sure only one of them runs the question-end flow. Deadlines overdue for longer than
+// staleDeadlineMs belong to abandoned rooms and are dropped.
+export const QUESTION_SCHEDULER_DEFAULTS = {
+	sweepIntervalMs: TIME_PERIODS_MS.SECOND,
+	leaseTtlSeconds: TIME_DURATIONS_SECONDS.TEN_SECONDS,
+	staleDeadlineMs: TIME_PERIODS_MS.HOUR,
+} as const;
+
+// How long a disconnected host keeps the room before host rights pass to the longest-connected active player.
+// Migration deadlines are stored and swept like question deadlines, so any instance can run or clear them.
+export const HOST_MIGRATION_DEFAULTS = {
+	gracePeriodMs: TIME_PERIODS_MS.THIRTY_SECONDS,
+	sweepIntervalMs: TIME_PERIODS_MS.FIVE_SECONDS,
+	leaseTtlSeconds: TIME_DURATIONS_SECONDS.TEN_SECONDS,
+	staleDeadlineMs: TIME_PERIODS_MS.HOUR,
+} as const;
+
+// Background question pool warmer: a single instance holds the run lease, and generation calls are spaced out
+// so live games keep most of the provider rate limit
+export const QUESTION_POOL_WARMER_DEFAULTS = {
+	difficulties: [DifficultyLevel.EASY, DifficultyLevel.MEDIUM, DifficultyLevel.HARD],
+	leaseTtlSeconds: TIME_DURATIONS_SECONDS.FIFTEEN_MINUTES,
+	lastRunTtlSeconds: TIME_DURATIONS_SECONDS.WEEK,
+	callSpacingMs: TIME_PERIODS_MS.TWO_SECONDS,
+} as const;
+
+// Question calibration: a question gets a measured level once it has enough answers in game history.
+// Success rate at or above easySuccessRate reads as easy, at or above mediumSuccessRate as medium, anything lower as hard
+export const QUESTION_CALIBRATION_DEFAULTS = {
+	minAttempts: 20,
+	easySuccessRate: 0.75,
+	mediumSuccessRate: 0.45,
+	miscalibratedListLimit: 100,
+	leaseTtlSeconds: TIME_DURATIONS_SECONDS.FIFTEEN_MINUTES,
+	lastRunTtlSeconds: TIME_DURATIONS_SECONDS.WEEK,
+} as const;
+
 const GROQ_DEFAULT_MODEL = 'llama-3.1-8b-instant';
 
 export const GROQ_FREE_TIER_MODELS = ['llama-3.1-8b-instant'] as const;
@@ -100,19 +159,127 @@ export const GROQ_DEFAULT_TOKENS_PER_MINUTE = 30000;
 
 export const GROQ_PROVIDER_NAME = 'Groq';
 
-export const GROQ_PROVIDER_NAME_LOWERCASE = 'groq';
-
 export const GROQ_API_BASE_URL = 'https://api.groq.com/openai/v1/chat/completions';
 
-export const GROQ_DEFAULT_TEMPERATURE = 0.7;
+export const GROQ_PROVIDER_MAX_TOKENS = 8192;
 
-export const GROQ_DEFAULT_MAX_TOKENS = 512;
+export const GROQ_PROVIDER_VERSION = '1.0';
 
-export const GROQ_TOPIC_DIFFICULTY_GATE_MAX_TOKENS = 160;
+export enum AIProviderId {
+	GROQ = 'groq',
+	OPENAI_COMPATIBLE = 'openai-compatible',
+	FIXTURE = 'fixture',
+}
 
-export const GROQ_PROVIDER_MAX_TOKENS = 8192;
+export const AI_PROVIDER_IDS = new Set<string>(Object.values(AIProviderId));
 
-export const GROQ_PROVIDER_VERSION = '1.0';
+// Providers are tried in priority order; one that is rate limited or rejects its credentials sits out for a cooldown
+export const AI_PROVIDER_DEFAULTS = {
+	priority: [AIProviderId.GROQ, AIProviderId.OPENAI_COMPATIBLE],
+	rateLimitCooldownMs: TIME_PERIODS_MS.MINUTE,
+	authFailureCooldownMs: TIME_PERIODS_MS.FIVE_MINUTES,
+} as const;
+
+// OpenAI-compatible chat completions endpoint (e.g. a local llama.cpp server or Ollama)
+export const OPENAI_COMPATIBLE_PROVIDER_NAME = 'OpenAI-compatible';
+
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'llama3.1';
+
+export const OPENAI_COMPATIBLE_PROVIDER_MAX_TOKENS = 8192;
+
+export const OPENAI_COMPATIBLE_PROVIDER_VERSION = '1.0';
+
+// Offline provider serving a local JSON corpus; only used when listed in AI_PROVIDER_PRIORITY
+export const FIXTURE_PROVIDER_NAME = 'Fixture';
+
+export const FIXTURE_PROVIDER_VERSION = '1.0';
+
+export const FIXTURE_PROVIDER_DEFAULTS = {
+	corpusFileName: 'fixture.corpus.json',
+	seed: 'everytriv',
+	timeoutRate: 0,
+	model: 'fixture-corpus',
+	surpriseDifficulties: [DifficultyLevel.EASY, DifficultyLevel.MEDIUM, DifficultyLevel.HARD],
+} as const;
+
+export const LLM_DEFAULT_TEMPERATURE = 0.7;
+
+export const LLM_DEFAULT_MAX_TOKENS = 512;
+
+export const LLM_TOPIC_DIFFICULTY_GATE_MAX_TOKENS = 160;
+
+export const LLM_FACT_CHECK_MAX_TOKENS = 64;
+
+export const LLM_FACT_CHECK_TEMPERATURE = 0;
+
+// off: store generated questions as-is; flag: store failures with needsReview; discard: drop failures and regenerate
+export enum TriviaFactCheckMode {
+	OFF = 'off',
+	FLAG = 'flag',
+	DISCARD = 'discard',
+}
+
+const TRIVIA_FACT_CHECK_MODES: ReadonlySet<string> = new Set<string>(Object.values(TriviaFactCheckMode));
+
+export function isTriviaFactCheckMode(value: string): value is TriviaFactCheckMode {
+	return TRIVIA_FACT_CHECK_MODES.has(value);
+}
+
+// One batch call replaces up to maxQuestionsPerCall single calls; its token budget grows with the requested count
+export const TRIVIA_BATCH_GENERATION_DEFAULTS = {
+	minQuestionsPerCall: 2,
+	maxQuestionsPerCall: 10,
+	maxTokensPerQuestion: 160,
+	maxTokens: 4096,
+} as const;
+
+// Trigram similarity (pg_trgm semantics) at or above duplicateThreshold marks two questions as rephrasings of each other
+export const QUESTION_SIMILARITY_DEFAULTS = {
+	duplicateThreshold: 0.6,
+	recentTopicQuestionLimit: 50,
+	maxDuplicateClusterPairs: 2000,
+} as const;
+
+// Prefix hits outrank substring hits, which outrank trigram (typo) matches; source boosts only reorder comparable matches
+export const TOPIC_SUGGESTION_DEFAULTS = {
+	fuzzyThreshold: 0.3,
+	matchScores: {
+		exact: 1,
+		prefix: 0.9,
+		wordPrefix: 0.75,
+		substring: 0.6,
+		fuzzyScale: 0.6,
+	},
+	sourceBoosts: {
+		[TopicSuggestionSource.PLAYED]: 0.15,
+		[TopicSuggestionSource.POPULAR]: 0.1,
+		[TopicSuggestionSource.PRESET]: 0.05,
+		[TopicSuggestionSource.TRIVIA]: 0.05,
+	},
+	userTopicLimit: 50,
+	popularTopicLimit: 100,
+	questionCountTopicLimit: 1000,
+} as const;
+
+// A question with hideThreshold open player reports stops being served until an admin handles it in the moderation queue
+export const TRIVIA_REPORT_DEFAULTS = {
+	hideThreshold: 3,
+	moderationQueueLimit: 100,
+	notesPerQuestion: 10,
+} as const;
+
+// Question pack CSV header; answers use numbered columns (answer1, answer2, ...) up to the answer count limit
+export const TRIVIA_PACK_CSV_COLUMNS = {
+	question: 'question',
+	answerPrefix: 'answer',
+	correctAnswerIndex: 'correctAnswerIndex',
+	topic: 'topic',
+	difficulty: 'difficulty',
+	locale: 'locale',
+	explanation: 'explanation',
+} as const;
+
+export const TRIVIA_PACK_EXPORT_FILE_PREFIX = 'everytriv-questions';
 
 export const TRIVIA_GENERATION_DECLINED_REASON = {
 	UNCLEAR_TOPIC: 'unclear_topic',
@@ -2,6 +2,7 @@ export const PUBLIC_ENDPOINTS = [
 	'/analytics/leaderboard/global',
 	'/analytics/leaderboard/period',
 	'/analytics/leaderboard/stats',
+	'/analytics/leaderboard/daily-challenge',
 	'/api/health',
 	'/api/health/liveness',
 	'/api/health/readiness',
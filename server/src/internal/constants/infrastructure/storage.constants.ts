@@ -10,6 +10,10 @@ export const SERVER_STORAGE_CONFIG = {
 	type: StorageType.PERSISTENT,
 } as const;
 
+// Deletes KEYS[1] only while it still holds ARGV[1], so a lease is never released on behalf of another holder
+export const COMPARE_AND_DELETE_SCRIPT =
+	"if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
+
 export const CACHE_CONFIG = {
 	prefix: 'everytriv_cache_',
 	defaultTtl: TIME_DURATIONS_SECONDS.HOUR,
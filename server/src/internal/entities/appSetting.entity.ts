@@ -0,0 +1,13 @@
+import { Column, Entity, Index } from 'typeorm';
+
+import { BaseEntity } from './base.entity';
+
+@Entity('app_settings')
+export class AppSettingEntity extends BaseEntity {
+	@Column({ type: 'varchar', length: 128 })
+	@Index({ unique: true })
+	key!: string;
+
+	@Column({ type: 'jsonb', default: () => "'null'::jsonb" })
+	value!: unknown;
+}
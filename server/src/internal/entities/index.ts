@@ -1,3 +1,5 @@
+export * from './appSetting.entity';
+
 export * from './base.entity';
 
 export * from './gameHistory.entity';
@@ -8,8 +10,14 @@ export * from './creditTransaction.entity';
 
 export * from './creditsConfig.entity';
 
+export * from './topic.entity';
+
 export * from './trivia.entity';
 
+export * from './triviaImportBatch.entity';
+
+export * from './triviaReport.entity';
+
 export * from './user.entity';
 
 export * from './userStats.entity';
@@ -0,0 +1,26 @@
+import { Column, Entity, Index } from 'typeorm';
+
+import type { TopicLocalizedNames } from '@shared/types';
+
+import { BaseEntity } from './base.entity';
+
+@Entity('topics')
+export class TopicEntity extends BaseEntity {
+	// Normalized canonical id; stats and merges key on it, so it never changes after creation
+	@Column({ type: 'varchar', length: 100 })
+	@Index({ unique: true })
+	key: string = '';
+
+	@Column({ type: 'varchar', length: 100 })
+	name: string = '';
+
+	@Column('jsonb', { default: {} })
+	names: TopicLocalizedNames = {};
+
+	// Stored normalized so free text can be matched with a plain equality check
+	@Column('text', { array: true, default: [] })
+	aliases: string[] = [];
+
+	@Column({ name: 'parent_category', type: 'varchar', length: 100, nullable: true })
+	parentCategory: string | null = null;
+}
@@ -42,4 +42,32 @@ export class TriviaEntity extends BaseEntity {
 
 	@Column('jsonb', { nullable: true })
 	metadata: TriviaQuestionDetailsMetadata = {};
+
+	@Column({ name: 'retired_at', type: 'timestamp', nullable: true })
+	retiredAt: Date | null = null;
+
+	// Set for questions loaded from an admin question pack; rolling back the batch deletes them
+	@Column({ name: 'import_batch_id', type: 'uuid', nullable: true })
+	@Index()
+	importBatchId: string | null = null;
+
+	// Calibration from real answers; see QuestionCalibrationService
+	@Column({ name: 'attempt_count', type: 'int', default: 0 })
+	attemptCount: number = 0;
+
+	@Column({ name: 'success_rate', type: 'real', nullable: true })
+	successRate: number | null = null;
+
+	@Column({ name: 'average_time_spent', type: 'real', nullable: true })
+	averageTimeSpent: number | null = null;
+
+	@Column({ name: 'calibrated_difficulty', type: 'varchar', length: 16, nullable: true })
+	@Index()
+	calibratedDifficulty: DifficultyLevel | null = null;
+
+	@Column({ name: 'calibrated_difficulty_score', type: 'real', nullable: true })
+	calibratedDifficultyScore: number | null = null;
+
+	@Column({ name: 'calibrated_at', type: 'timestamp', nullable: true })
+	calibratedAt: Date | null = null;
 }
@@ -0,0 +1,25 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+
+import { TriviaPackFormat } from '@shared/constants';
+
+import { BaseEntity } from './base.entity';
+import { UserEntity } from './user.entity';
+
+@Entity('trivia_import_batches')
+export class TriviaImportBatchEntity extends BaseEntity {
+	@Column({ type: 'varchar', length: 100 })
+	label: string = '';
+
+	@Column({ type: 'varchar', length: 16 })
+	format: TriviaPackFormat = TriviaPackFormat.JSON;
+
+	@Column({ name: 'question_count', type: 'int', default: 0 })
+	questionCount: number = 0;
+
+	@Column({ name: 'user_id', type: 'uuid', nullable: true })
+	userId: string | null = null;
+
+	@ManyToOne(() => UserEntity, { nullable: true, onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'user_id' })
+	user?: UserEntity;
+}
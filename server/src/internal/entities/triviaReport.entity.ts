@@ -0,0 +1,37 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import { TriviaReportReason, TriviaReportStatus } from '@shared/constants';
+
+import { BaseEntity } from './base.entity';
+import { TriviaEntity } from './trivia.entity';
+import { UserEntity } from './user.entity';
+
+@Entity('trivia_reports')
+@Index(['questionId', 'status'])
+export class TriviaReportEntity extends BaseEntity {
+	@Column({ name: 'question_id', type: 'uuid' })
+	questionId!: string;
+
+	@ManyToOne(() => TriviaEntity, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'question_id' })
+	question?: TriviaEntity;
+
+	@Column({ name: 'user_id', type: 'uuid', nullable: true })
+	userId: string | null = null;
+
+	@ManyToOne(() => UserEntity, { nullable: true, onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'user_id' })
+	user?: UserEntity;
+
+	@Column({ type: 'varchar', length: 32 })
+	reason: TriviaReportReason = TriviaReportReason.OTHER;
+
+	@Column({ type: 'text', nullable: true })
+	note: string | null = null;
+
+	@Column({ type: 'varchar', length: 16, default: TriviaReportStatus.OPEN })
+	status: TriviaReportStatus = TriviaReportStatus.OPEN;
+
+	@Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+	resolvedAt: Date | null = null;
+}
@@ -120,6 +120,26 @@ export class CacheInvalidationService {
 		}
 	}
 
+	// Stored questions changed: drop cached question sets and the admin trivia list HTTP cache
+	async invalidateOnTriviaChange(): Promise<void> {
+		try {
+			const invalidationPromises: Promise<unknown>[] = [
+				this.cacheService.invalidatePattern(CACHE_KEYS.TRIVIA.ALL_PATTERN),
+				this.cacheService.invalidatePattern(CACHE_KEYS.ADMIN.TRIVIA_LIST_PATTERN),
+			];
+
+			await Promise.allSettled(invalidationPromises);
+
+			logger.cacheInfo('Cache invalidated on trivia change', {
+				keysInvalidated: invalidationPromises.length,
+			});
+		} catch (error) {
+			logger.cacheError('Failed to invalidate caches on trivia change', CACHE_KEYS.TRIVIA.ALL_PATTERN, {
+				errorInfo: { message: getErrorMessage(error) },
+			});
+		}
+	}
+
 	async invalidateAll(): Promise<void> {
 		try {
 			const invalidationPromises: Promise<unknown>[] = [
@@ -6,9 +6,10 @@ import type { StorageOperationResult, StorageValue, TypeGuard } from '@shared/ty
 import { calculatePercentage, createTimedResult, getErrorMessage } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
-import { SERVER_STORAGE_CONFIG, StorageOperation } from '@internal/constants';
+import { COMPARE_AND_DELETE_SCRIPT, SERVER_STORAGE_CONFIG, StorageOperation } from '@internal/constants';
 import type {
 	IStorageService,
+	SortedSetEntry,
 	StorageCleanupOptions,
 	StorageConfig,
 	StorageItemMetadata,
@@ -95,6 +96,27 @@ export class StorageService implements IStorageService {
 		}
 	}
 
+	// Atomic SET NX: data is true only when this call created the key (used for short-lived leases)
+	async setIfAbsent(key: string, value: StorageValue, ttl: number): Promise<StorageOperationResult<boolean>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			const serialized = StorageUtils.serialize(value);
+			const result = await this.redisClient.set(prefixedKey, serialized, 'EX', ttl, 'NX');
+			const created = result === 'OK';
+
+			if (created) {
+				this.updateMetadata(key, serialized.length, ttl);
+			}
+			this.trackOperationWithTiming(StorageOperation.SET, startTime, true, StorageType.PERSISTENT, serialized.length);
+
+			return StorageUtils.createSuccessResult<boolean>(created, this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.SET, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<boolean>(`Failed to set item: ${getErrorMessage(error)}`, this.config.type);
+		}
+	}
+
 	async get(key: string): Promise<StorageOperationResult<StorageValue | null>>;
 	async get<T extends StorageValue>(key: string, validator: TypeGuard<T>): Promise<StorageOperationResult<T | null>>;
 	async get<T extends StorageValue>(
@@ -163,6 +185,103 @@ export class StorageService implements IStorageService {
 		}
 	}
 
+	// Atomic compare-and-delete: data is true only when the key still held this value and was removed
+	async deleteIfValue(key: string, value: StorageValue): Promise<StorageOperationResult<boolean>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			const serialized = StorageUtils.serialize(value);
+			const deleted = await this.redisClient.eval(COMPARE_AND_DELETE_SCRIPT, 1, prefixedKey, serialized);
+
+			this.trackOperationWithTiming(StorageOperation.DELETE, startTime, true, StorageType.PERSISTENT);
+			return StorageUtils.createSuccessResult<boolean>(deleted === 1, this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.DELETE, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<boolean>(
+				`Failed to delete item: ${getErrorMessage(error)}`,
+				this.config.type
+			);
+		}
+	}
+
+	// Sorted sets hold no TTL; members are removed explicitly once handled
+	async addToSortedSet(key: string, member: string, score: number): Promise<StorageOperationResult<void>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			await this.redisClient.zadd(prefixedKey, score, member);
+
+			this.trackOperationWithTiming(StorageOperation.SET, startTime, true, StorageType.PERSISTENT);
+			return StorageUtils.createSuccessResult<void>(undefined, this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.SET, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<void>(
+				`Failed to add sorted set member: ${getErrorMessage(error)}`,
+				this.config.type
+			);
+		}
+	}
+
+	async getSortedSetScore(key: string, member: string): Promise<StorageOperationResult<number | null>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			const score = await this.redisClient.zscore(prefixedKey, member);
+
+			this.trackOperationWithTiming(StorageOperation.GET, startTime, true, StorageType.PERSISTENT);
+			return StorageUtils.createSuccessResult<number | null>(score == null ? null : Number(score), this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.GET, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<number | null>(
+				`Failed to get sorted set score: ${getErrorMessage(error)}`,
+				this.config.type
+			);
+		}
+	}
+
+	// Members scored at or below maxScore, lowest score first
+	async getSortedSetRangeByScore(key: string, maxScore: number): Promise<StorageOperationResult<SortedSetEntry[]>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			const flat = await this.redisClient.zrangebyscore(prefixedKey, '-inf', maxScore, 'WITHSCORES');
+			const entries: SortedSetEntry[] = [];
+			for (let i = 0; i + 1 < flat.length; i += 2) {
+				const member = flat[i];
+				const score = flat[i + 1];
+				if (member !== undefined && score !== undefined) {
+					entries.push({ member, score: Number(score) });
+				}
+			}
+
+			this.trackOperationWithTiming(StorageOperation.GET, startTime, true, StorageType.PERSISTENT);
+			return StorageUtils.createSuccessResult<SortedSetEntry[]>(entries, this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.GET, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<SortedSetEntry[]>(
+				`Failed to get sorted set range: ${getErrorMessage(error)}`,
+				this.config.type
+			);
+		}
+	}
+
+	async removeFromSortedSet(key: string, member: string): Promise<StorageOperationResult<void>> {
+		const startTime = Date.now();
+		try {
+			const prefixedKey = StorageUtils.getPrefixedKey(key, this.config.prefix);
+			await this.redisClient.zrem(prefixedKey, member);
+
+			this.trackOperationWithTiming(StorageOperation.DELETE, startTime, true, StorageType.PERSISTENT);
+			return StorageUtils.createSuccessResult<void>(undefined, this.config.type);
+		} catch (error) {
+			this.trackOperationWithTiming(StorageOperation.DELETE, startTime, false, StorageType.PERSISTENT);
+			return StorageUtils.createErrorResult<void>(
+				`Failed to remove sorted set member: ${getErrorMessage(error)}`,
+				this.config.type
+			);
+		}
+	}
+
 	async exists(key: string): Promise<StorageOperationResult<boolean>> {
 		const startTime = Date.now();
 		try {
@@ -1,7 +1,7 @@
-import { DifficultyLevel, type Locale } from '@shared/constants';
-import type { BasicValue, GameDifficulty, TriviaQuestion, TriviaQuestionCore } from '@shared/types';
+import { DifficultyLevel, SurpriseScope, type Locale } from '@shared/constants';
+import type { BasicValue, GameDifficulty, SurprisePickResult, TriviaQuestion, TriviaQuestionCore } from '@shared/types';
 
-import { LLMResponseStatus, type TriviaGenerationDeclinedReason } from '@internal/constants';
+import { AIProviderId, LLMResponseStatus, type TriviaGenerationDeclinedReason } from '@internal/constants';
 
 export interface LLMTriviaResponse {
 	questions: TriviaQuestionCore[];
@@ -10,6 +10,7 @@ export interface LLMTriviaResponse {
 	status: LLMResponseStatus;
 	validationSummary?: string;
 	declinedReason?: TriviaGenerationDeclinedReason;
+	rejectedCount?: number;
 }
 
 export interface TriviaLLMJsonPayload {
@@ -40,6 +41,10 @@ export interface PromptParams {
 	isCustomDifficulty?: boolean;
 }
 
+export interface TriviaBatchPromptParams extends PromptParams {
+	questionCount: number;
+}
+
 export interface LLMResponse {
 	content: string;
 	data?: {
@@ -75,9 +80,119 @@ export interface AIProviderInstance {
 	successCount: number;
 	averageResponseTime: number;
 	currentLoad: number;
+	lastUsed?: Date;
+	unavailableUntil?: Date;
+}
+
+export type ChatCompletionCallOptions = Readonly<{
+	maxTokens?: number;
+	temperature?: number;
+	timeoutMs?: number;
+	signal?: AbortSignal;
+}>;
+
+export interface ChatMessageForLog {
+	role?: string;
+	content?: unknown;
+}
+
+export interface ChatCompletionClientOptions {
+	providerName: string;
+	providerId: AIProviderId;
+	baseUrl: string;
+	apiKey: string;
+	requiresApiKey: boolean;
+	models: readonly string[];
+	priority: number;
+	retryOnRateLimit: boolean;
+}
+
+export interface TopicDifficultyGateParams {
+	topic: string;
+	difficulty: GameDifficulty;
+	outputLanguage: Locale;
+	outputLanguageLabel: string;
+}
+
+// Only the answer texts go to the checker, so it cannot lean on the generator's marked answer
+export interface TriviaFactCheckParams {
+	topic: string;
+	question: string;
+	answers: string[];
+	outputLanguageLabel: string;
+}
+
+export interface TriviaFactCheckAnswer {
+	answerIndex: number | null;
+	defensibleAnswerIndexes: number[];
+}
+
+export interface SurprisePickOptions {
+	excludeTopics: string[];
+	scope: SurpriseScope;
+	locale?: Locale;
+}
+
+// Implemented by every LLM backend registered in TriviaGenerationService
+export interface TriviaProvider {
+	readonly id: AIProviderId;
+	readonly name: string;
+	provider: AIProviderInstance;
+	isConfigured(): boolean;
+	generateTriviaQuestion(params: PromptParams, signal?: AbortSignal): Promise<ProviderTriviaGenerationResult>;
+	generateTriviaQuestionBatch(
+		params: PromptParams,
+		questionCount: number,
+		signal?: AbortSignal
+	): Promise<ProviderTriviaBatchResult>;
+	evaluateTopicDifficultyGate(params: TopicDifficultyGateParams): Promise<TriviaGenerationDeclinedReason | null>;
+	checkTriviaAnswer(params: TriviaFactCheckParams, signal?: AbortSignal): Promise<TriviaFactCheckAnswer>;
+	pickSurpriseTopicAndDifficulty(options: SurprisePickOptions): Promise<SurprisePickResult>;
 }
 
 export interface ProviderTriviaGenerationResult {
 	question: Omit<TriviaQuestion, 'id'>;
 	mappedDifficulty?: DifficultyLevel;
 }
+
+export interface ProviderTriviaBatchResult {
+	questions: ProviderTriviaGenerationResult[];
+	// Items the provider returned but that failed validation; the caller fills the gap with single generations
+	rejectedCount: number;
+}
+
+export interface FixtureCorpusQuestion {
+	question: string;
+	correctAnswer: string;
+	incorrectAnswers: string[];
+	difficulty?: DifficultyLevel;
+	explanation?: string;
+}
+
+export interface FixtureCorpusTopic {
+	topic: string;
+	aliases?: string[];
+	locale: Locale;
+	declineReason?: TriviaGenerationDeclinedReason;
+	questions: FixtureCorpusQuestion[];
+}
+
+// Templates fill `{topic}` and `{n}` so unknown topics still get distinct, stable questions
+export interface FixtureQuestionTemplate {
+	locale: Locale;
+	question: string;
+	correctAnswer: string;
+	incorrectAnswers: string[];
+}
+
+export interface FixtureCorpus {
+	topics: FixtureCorpusTopic[];
+	templates: FixtureQuestionTemplate[];
+}
+
+export interface FixtureProviderConfig {
+	corpusPath: string;
+	seed: string;
+	declineReason: TriviaGenerationDeclinedReason | null;
+	timeoutRate: number;
+}
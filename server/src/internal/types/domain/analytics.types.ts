@@ -1,5 +1,5 @@
-import type { ComparisonTarget, TimePeriod } from '@shared/constants';
-import type { CountRecord, GameDifficulty } from '@shared/types';
+import type { ComparisonTarget, DifficultyLevel, TimePeriod } from '@shared/constants';
+import type { CountRecord, GameDifficulty, TriviaAnswer } from '@shared/types';
 
 import type { GameHistoryEntity, UserEntity } from '@internal/entities';
 
@@ -84,3 +84,31 @@ export interface MeanVarianceStddev {
 	variance: number;
 	standardDeviation: number;
 }
+
+export interface QuestionAnalyticsRow {
+	questionId: string;
+	question: string;
+	topic: string;
+	difficulty: DifficultyLevel;
+	answers: TriviaAnswer[];
+	timesServed: number;
+	answeredCount: number;
+	correctCount: number;
+	medianTimeSpent: number | null;
+	reportCount: number;
+	distractorText: string | null;
+	distractorPickCount: number | null;
+	totalCount: number;
+}
+
+export interface QuestionAnswerTextCountRow {
+	answerText: string;
+	pickCount: number;
+}
+
+export interface QuestionAnswerSummaryRow {
+	timesServed: number;
+	answeredCount: number;
+	correctCount: number;
+	medianTimeSpent: number | null;
+}
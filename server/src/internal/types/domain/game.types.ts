@@ -1,7 +1,15 @@
 import type { Socket } from 'socket.io';
 
-import { GameMode, type Locale } from '@shared/constants';
-import type { GameDifficulty, MultiplayerRoom, Player, SaveGameHistoryData } from '@shared/types';
+import { GameMode, type Locale, type QuestionPoolTopicSource, type TriviaQuestionSource } from '@shared/constants';
+import type {
+	GameDifficulty,
+	MultiplayerRoom,
+	Player,
+	SaveGameHistoryData,
+	TriviaQuestion,
+	TriviaQuestionDraft,
+	TriviaStreamProgressEvent,
+} from '@shared/types';
 
 import { GameStatus } from '@internal/constants';
 
@@ -9,9 +17,19 @@ import type { TokenPayload } from './auth.types';
 
 export interface QuestionSchedule {
 	timeoutId: NodeJS.Timeout;
-	checkInterval?: NodeJS.Timeout;
 	roomId: string;
-	startedAt: Date;
+	deadline: number;
+}
+
+export interface HostMigrationSchedule {
+	timeoutId: NodeJS.Timeout;
+	roomId: string;
+	deadline: number;
+}
+
+export interface HostMigrationResult {
+	room: MultiplayerRoom;
+	previousHostId: string;
 }
 
 export interface SocketData {
@@ -68,6 +86,26 @@ export interface GetTriviaQuestionParams {
 	answerCount?: number;
 	gameId?: string;
 	outputLanguage?: Locale;
+	gameMode?: GameMode;
+}
+
+// Streaming callers receive questions as soon as they are recorded in the session instead of one final array
+export interface TriviaQuestionStreamHandlers {
+	signal?: AbortSignal;
+	onQuestions: (questions: TriviaQuestion[], source: TriviaQuestionSource) => void;
+	onProgress: (progress: TriviaStreamProgressEvent) => void;
+}
+
+export interface TriviaSimilarityPairRow {
+	firstId: string;
+	secondId: string;
+	similarity: number;
+}
+
+export interface TriviaReportQueueRow {
+	questionId: string;
+	openReportCount: number;
+	lastReportedAt: Date;
 }
 
 export interface SubmitAnswerParams {
@@ -88,6 +126,10 @@ export interface SaveGameHistoryParams {
 	gameData: SaveGameHistoryData;
 }
 
+export interface SaveClientGameHistoryParams extends SaveGameHistoryParams {
+	sessionToken?: string;
+}
+
 export interface DeleteGameHistoryParams {
 	userId: string;
 	gameId: string;
@@ -108,6 +150,10 @@ export interface GameSessionQuestion {
 
 export interface GameSessionQuestionSnapshot {
 	correctAnswerIndex: number;
+	deliveredAt?: string;
+	// Positions in the stored answers, in the order they were served
+	answerOrder?: number[];
+	answerTexts?: string[];
 }
 
 export interface ServerGameSessionState {
@@ -122,11 +168,21 @@ export interface ServerGameSessionState {
 	sessionExcludeQuestionTexts?: string[];
 
 	questionSnapshots?: Record<string, GameSessionQuestionSnapshot>;
+	dailyChallengeDate?: string;
+	pinnedQuestionIds?: string[];
+	timeLimit?: number;
+	lastAnsweredAt?: string;
 	currentScore: number;
 	correctAnswers: number;
 	totalQuestions: number;
 	status: GameStatus;
 }
+
+export interface DailyChallengeAttempt {
+	date: string;
+	questionIds: string[];
+}
+
 export interface GameConfigParams {
 	defaultDifficulty?: GameDifficulty;
 	defaultTopic?: string;
@@ -153,3 +209,45 @@ export interface TopicDifficultyGateCacheEntry {
 	readonly reason?: string;
 	readonly expiresAt: number;
 }
+
+// A topic and locale the pool warmer keeps stocked at every warmed difficulty
+export interface QuestionPoolTarget {
+	topic: string;
+	locale: Locale;
+	source: QuestionPoolTopicSource;
+}
+
+export interface QuestionPoolReadyCountRow {
+	targetIndex: number;
+	difficulty: string;
+	readyCount: number;
+}
+
+// One question read from an imported pack; draft is null when the row could not be mapped to a question at all
+export interface ParsedTriviaPackRow {
+	row: number;
+	question: string;
+	draft: TriviaQuestionDraft | null;
+	errors: string[];
+}
+
+export interface TriviaImportDuplicateRow {
+	row: number;
+	duplicateOfId: string;
+}
+
+export interface TriviaImportPackDuplicateRow {
+	row: number;
+	duplicateOfRow: number;
+}
+
+export interface CatalogTopicUsageRow {
+	topicId: string;
+	gameCount: number;
+	questionCount: number;
+}
+
+export interface TopicCountRow {
+	topic: string;
+	count: number;
+}
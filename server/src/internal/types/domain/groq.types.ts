@@ -1,14 +1,3 @@
-export type GroqApiCallOptions = Readonly<{
-	maxTokens?: number;
-	timeoutMs?: number;
-	signal?: AbortSignal;
-}>;
-
-export interface GroqMessageForLog {
-	role?: string;
-	content?: unknown;
-}
-
 export interface GroqModelConfig {
 	priority: number;
 	cost: number;
@@ -20,6 +20,11 @@ export interface IStorageService {
 	): Promise<T>;
 }
 
+export interface SortedSetEntry {
+	member: string;
+	score: number;
+}
+
 export interface StorageConfig {
 	prefix: string;
 	defaultTtl?: number;
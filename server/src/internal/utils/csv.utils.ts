@@ -0,0 +1,65 @@
+// RFC 4180 CSV: comma separated, double-quoted fields may contain commas, quotes ("") and line breaks
+export function parseCsv(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	const text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	if (field.length > 0 || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter(cells => cells.some(cell => cell.trim().length > 0));
+}
+
+// Spreadsheets run cells starting with one of these as formulas, so exported cells get a leading apostrophe
+const CSV_FORMULA_PREFIX = /^[=+\-@]/;
+const CSV_ESCAPED_FORMULA_PREFIX = /^'[=+\-@]/;
+
+function escapeCsvField(value: string): string {
+	const safeValue = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+}
+
+// Reverses the formula escaping of serializeCsv so exported files import back unchanged
+export function unescapeCsvFormula(value: string): string {
+	return CSV_ESCAPED_FORMULA_PREFIX.test(value) ? value.slice(1) : value;
+}
+
+export function serializeCsv(rows: string[][]): string {
+	return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -17,6 +17,7 @@ import { isRecord } from '@shared/utils';
 import { VALIDATORS } from '@shared/validation';
 
 import { UNIFIED_SECTION_KEYS } from '@internal/constants';
+import type { TopicCountRow } from '@internal/types';
 
 // Type guard for required basic values (string, number, boolean).
 // Uses VALIDATORS for consistent validation (includes Number.isFinite check for numbers).
@@ -94,6 +95,11 @@ export const isTopicAnalyticsRecordArray = createArrayGuard(
 		isRecord(value) && hasBasicValue(value.topic, 'string') && hasBasicValue(value.totalGames, 'number')
 );
 
+export const isTopicCountRowArray = createArrayGuard(
+	(value: unknown): value is TopicCountRow =>
+		isRecord(value) && hasBasicValue(value.topic, 'string') && hasBasicValue(value.count, 'number')
+);
+
 export const isDifficultyStatsRecord = (value: unknown): value is Record<string, DifficultyStats> => {
 	if (!isRecord(value)) {
 		return false;
@@ -5,8 +5,10 @@ import {
 	UnauthorizedException,
 } from '@nestjs/common';
 
+import { ERROR_MESSAGES } from '@shared/constants';
 import { getErrorMessage } from '@shared/utils';
 
+import { TRIVIA_GENERATION_DECLINED_REASON, type TriviaGenerationDeclinedReason } from '@internal/constants';
 import type { PayPalErrorResponse } from '@internal/types';
 
 import { isErrorWithPayPalResponse } from './guards.utils';
@@ -26,6 +28,28 @@ export function createServerError(operation: string, originalError: unknown): In
 	return new InternalServerErrorException(`Failed to ${operation}: ${getErrorMessage(originalError)}`);
 }
 
+export function createTriviaDeclinedError(reason: TriviaGenerationDeclinedReason): BadRequestException {
+	let message: string;
+	switch (reason) {
+		case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC:
+			message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_TOPIC;
+			break;
+		case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_DIFFICULTY:
+			message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_DIFFICULTY;
+			break;
+		case TRIVIA_GENERATION_DECLINED_REASON.UNCLEAR_TOPIC_AND_DIFFICULTY:
+			message = ERROR_MESSAGES.game.TRIVIA_DECLINED_UNCLEAR_TOPIC_AND_DIFFICULTY;
+			break;
+		case TRIVIA_GENERATION_DECLINED_REASON.INSUFFICIENT_VERIFIABLE_FACTS:
+			message = ERROR_MESSAGES.game.TRIVIA_DECLINED_INSUFFICIENT_VERIFIABLE_FACTS;
+			break;
+	}
+	return new BadRequestException({
+		message,
+		errors: [message],
+	});
+}
+
 export function createNotFoundError(resource: string): NotFoundException {
 	return new NotFoundException(`${resource} not found`);
 }
@@ -1,6 +1,6 @@
 import { TIME_PERIODS_MS } from '@shared/constants';
 import type { CategoryStatistics, CountRecord } from '@shared/types';
-import { calculateScoreRate, groupByKey, sumBy } from '@shared/utils';
+import { calculateScoreRate, groupByKey, normalizeTopicKey, sumBy } from '@shared/utils';
 
 import type { GameHistoryEntity } from '@internal/entities';
 import type { StreakData } from '@internal/types';
@@ -86,7 +86,7 @@ export function calculateCategoryStats(
 	category: 'topic' | 'difficulty'
 ): Record<string, CategoryStatistics> {
 	const getKey = (game: GameHistoryEntity) =>
-		category === 'topic' ? String(game.topic).toLowerCase() : String(game[category]);
+		category === 'topic' ? normalizeTopicKey(String(game.topic)) : String(game[category]);
 	const groupedByCategory = groupByKey(gameHistory, getKey);
 	const categoryStats: Record<string, CategoryStatistics> = {};
 
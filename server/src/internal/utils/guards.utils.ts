@@ -1,10 +1,19 @@
-import { GAME_MODES } from '@shared/constants';
-import type { LeaderboardStats, StorageValue } from '@shared/types';
-import { hasProperty, isRecord } from '@shared/utils';
-import { VALIDATORS } from '@shared/validation';
+import { GAME_MODES, QuestionCalibrationRunOutcome, QuestionPoolRunOutcome } from '@shared/constants';
+import type {
+	LeaderboardStats,
+	QuestionCalibrationRunSummary,
+	QuestionPoolRunSummary,
+	StorageValue,
+} from '@shared/types';
+import { isRecord, isStringArray } from '@shared/utils';
+import { isLocale, isRegisteredDifficulty, VALIDATORS } from '@shared/validation';
 
-import { GAME_STATUSES, PUBLIC_ENDPOINTS } from '@internal/constants';
+import { GAME_STATUSES, isTriviaGenerationDeclinedReason, PUBLIC_ENDPOINTS } from '@internal/constants';
 import type {
+	FixtureCorpus,
+	FixtureCorpusQuestion,
+	FixtureCorpusTopic,
+	FixtureQuestionTemplate,
 	GameSessionQuestion,
 	GameSessionQuestionSnapshot,
 	PayPalErrorResponse,
@@ -33,7 +42,14 @@ function isOptionalStringArray(value: unknown): boolean {
 }
 
 function isGameSessionQuestionSnapshot(value: unknown): value is GameSessionQuestionSnapshot {
-	return hasProperty(value, 'correctAnswerIndex') && VALIDATORS.number(value.correctAnswerIndex);
+	return (
+		isRecord(value) &&
+		VALIDATORS.number(value.correctAnswerIndex) &&
+		(value.deliveredAt == null || VALIDATORS.string(value.deliveredAt)) &&
+		(value.answerOrder == null ||
+			(Array.isArray(value.answerOrder) && value.answerOrder.every(index => VALIDATORS.number(index)))) &&
+		isOptionalStringArray(value.answerTexts)
+	);
 }
 
 function isOptionalQuestionSnapshots(value: unknown): boolean {
@@ -74,7 +90,88 @@ export function isGameSessionState(value: unknown): value is ServerGameSessionSt
 		Array.isArray(value.questions) &&
 		value.questions.every(isGameSessionQuestion) &&
 		isOptionalStringArray(value.sessionExcludeQuestionTexts) &&
-		isOptionalQuestionSnapshots(value.questionSnapshots)
+		isOptionalQuestionSnapshots(value.questionSnapshots) &&
+		(value.dailyChallengeDate == null || VALIDATORS.string(value.dailyChallengeDate)) &&
+		isOptionalStringArray(value.pinnedQuestionIds) &&
+		(value.timeLimit == null || VALIDATORS.number(value.timeLimit)) &&
+		(value.lastAnsweredAt == null || VALIDATORS.string(value.lastAnsweredAt))
+	);
+}
+
+function isFixtureCorpusQuestion(value: unknown): value is FixtureCorpusQuestion {
+	return (
+		isRecord(value) &&
+		VALIDATORS.string(value.question) &&
+		VALIDATORS.string(value.correctAnswer) &&
+		isStringArray(value.incorrectAnswers) &&
+		(value.difficulty === undefined ||
+			(VALIDATORS.string(value.difficulty) && isRegisteredDifficulty(value.difficulty))) &&
+		(value.explanation === undefined || VALIDATORS.string(value.explanation))
+	);
+}
+
+function isFixtureCorpusTopic(value: unknown): value is FixtureCorpusTopic {
+	return (
+		isRecord(value) &&
+		VALIDATORS.string(value.topic) &&
+		(value.aliases === undefined || isStringArray(value.aliases)) &&
+		isLocale(value.locale) &&
+		(value.declineReason === undefined ||
+			(VALIDATORS.string(value.declineReason) && isTriviaGenerationDeclinedReason(value.declineReason))) &&
+		Array.isArray(value.questions) &&
+		value.questions.every(isFixtureCorpusQuestion)
+	);
+}
+
+function isFixtureQuestionTemplate(value: unknown): value is FixtureQuestionTemplate {
+	return (
+		isRecord(value) &&
+		isLocale(value.locale) &&
+		VALIDATORS.string(value.question) &&
+		VALIDATORS.string(value.correctAnswer) &&
+		isStringArray(value.incorrectAnswers)
+	);
+}
+
+export function isFixtureCorpus(value: unknown): value is FixtureCorpus {
+	return (
+		isRecord(value) &&
+		Array.isArray(value.topics) &&
+		value.topics.every(isFixtureCorpusTopic) &&
+		Array.isArray(value.templates) &&
+		value.templates.every(isFixtureQuestionTemplate)
+	);
+}
+
+const QUESTION_POOL_RUN_OUTCOMES = new Set<string>(Object.values(QuestionPoolRunOutcome));
+
+export function isQuestionPoolRunSummary(value: unknown): value is QuestionPoolRunSummary {
+	return (
+		isRecord(value) &&
+		VALIDATORS.string(value.outcome) &&
+		QUESTION_POOL_RUN_OUTCOMES.has(value.outcome) &&
+		VALIDATORS.string(value.startedAt) &&
+		VALIDATORS.string(value.finishedAt) &&
+		VALIDATORS.number(value.combinationsChecked) &&
+		VALIDATORS.number(value.combinationsBelowMinimum) &&
+		VALIDATORS.number(value.generationCalls) &&
+		VALIDATORS.number(value.failedCalls) &&
+		VALIDATORS.number(value.questionsAdded)
+	);
+}
+
+const QUESTION_CALIBRATION_RUN_OUTCOMES = new Set<string>(Object.values(QuestionCalibrationRunOutcome));
+
+export function isQuestionCalibrationRunSummary(value: unknown): value is QuestionCalibrationRunSummary {
+	return (
+		isRecord(value) &&
+		VALIDATORS.string(value.outcome) &&
+		QUESTION_CALIBRATION_RUN_OUTCOMES.has(value.outcome) &&
+		VALIDATORS.string(value.startedAt) &&
+		VALIDATORS.string(value.finishedAt) &&
+		VALIDATORS.number(value.questionsWithAnswers) &&
+		VALIDATORS.number(value.questionsCalibrated) &&
+		VALIDATORS.number(value.miscalibratedCount)
 	);
 }
 
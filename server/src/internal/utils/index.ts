@@ -1,4 +1,5 @@
 export * from './avatar.utils';
+export * from './csv.utils';
 export * from './entityGuards.utils';
 export * from './error.utils';
 export * from './gameStats.utils';
@@ -6,4 +7,7 @@ export * from './guards.utils';
 export * from './payment.utils';
 export * from './query.utils';
 export * from './redis.utils';
+export * from './sessionToken.utils';
 export * from './statistics.utils';
+export * from './textSimilarity.utils';
+export * from './triviaPack.utils';
@@ -1,8 +1,10 @@
 import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
 
+import { DifficultyLevel, TriviaReportStatus } from '@shared/constants';
 import { VALIDATORS } from '@shared/validation';
 
-import { SQL_CONDITIONS, WildcardPattern } from '@internal/constants';
+import { SQL_CONDITIONS, TRIVIA_REPORT_DEFAULTS, WildcardPattern } from '@internal/constants';
+import { TopicEntity } from '@internal/entities';
 
 export function addDateRangeConditions<T extends ObjectLiteral>(
 	queryBuilder: SelectQueryBuilder<T>,
@@ -22,6 +24,57 @@ export function addDateRangeConditions<T extends ObjectLiteral>(
 	return queryBuilder;
 }
 
+// Keeps retired questions and questions hidden by player reports out of games
+export function addServableTriviaConditions<T extends ObjectLiteral>(
+	queryBuilder: SelectQueryBuilder<T>,
+	alias: string
+): SelectQueryBuilder<T> {
+	return queryBuilder
+		.andWhere(`${alias}.retiredAt IS NULL`)
+		.andWhere(
+			`(SELECT COUNT(*) FROM trivia_reports report WHERE report.question_id = ${alias}.id AND report.status = :openReportStatus) < :reportHideThreshold`,
+			{
+				openReportStatus: TriviaReportStatus.OPEN,
+				reportHideThreshold: TRIVIA_REPORT_DEFAULTS.hideThreshold,
+			}
+		);
+}
+
+// Calibrated questions whose measured level differs from their stored level (custom questions use their mapped level)
+export function addMiscalibratedTriviaConditions<T extends ObjectLiteral>(
+	queryBuilder: SelectQueryBuilder<T>,
+	alias: string
+): SelectQueryBuilder<T> {
+	return queryBuilder
+		.andWhere(`${alias}.calibratedDifficulty IS NOT NULL`)
+		.andWhere(
+			`${alias}.calibratedDifficulty <> CASE WHEN ${alias}.difficulty = :customDifficulty THEN COALESCE(${alias}.metadata->>'mappedDifficulty', :fallbackDifficulty) ELSE CAST(${alias}.difficulty AS TEXT) END`,
+			{
+				customDifficulty: DifficultyLevel.CUSTOM,
+				fallbackDifficulty: DifficultyLevel.MEDIUM,
+			}
+		);
+}
+
+// SQL form of normalizeTopicKey, used to match stored free-text topics against catalog keys and aliases
+export function topicKeySql(column: string): string {
+	return `LOWER(REGEXP_REPLACE(TRIM(${column}), '\\s+', ' ', 'g'))`;
+}
+
+// Joins the catalog topic a stored free-text topic resolves to; rows with an uncatalogued topic keep a null join
+export function leftJoinCatalogTopic<T extends ObjectLiteral>(
+	queryBuilder: SelectQueryBuilder<T>,
+	topicColumn: string,
+	catalogAlias: string
+): SelectQueryBuilder<T> {
+	const topicKey = topicKeySql(topicColumn);
+	return queryBuilder.leftJoin(
+		TopicEntity,
+		catalogAlias,
+		`${catalogAlias}.key = ${topicKey} OR ${topicKey} = ANY(${catalogAlias}.aliases)`
+	);
+}
+
 export function createGroupByQuery<T extends ObjectLiteral>(
 	repository: { createQueryBuilder: (alias: string) => SelectQueryBuilder<T> },
 	alias: string,
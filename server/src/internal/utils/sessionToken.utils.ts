@@ -0,0 +1,13 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const GAME_SESSION_TOKEN_SCOPE = 'game_session';
+
+export function signGameSessionToken(secret: string, userId: string, gameId: string): string {
+	return createHmac('sha256', secret).update(`${GAME_SESSION_TOKEN_SCOPE}:${userId}:${gameId}`).digest('base64url');
+}
+
+export function verifyGameSessionToken(secret: string, token: string, userId: string, gameId: string): boolean {
+	const expected = Buffer.from(signGameSessionToken(secret, userId, gameId));
+	const received = Buffer.from(token);
+	return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,41 @@
+// Mirrors pg_trgm: lowercase words padded with two leading spaces and one trailing space, split into trigrams
+function extractTrigrams(text: string): Set<string> {
+	const trigrams = new Set<string>();
+	const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+	for (const word of words) {
+		if (word.length === 0) {
+			continue;
+		}
+		const padded = `  ${word} `;
+		const chars = Array.from(padded);
+		for (let i = 0; i + 3 <= chars.length; i++) {
+			trigrams.add(chars.slice(i, i + 3).join(''));
+		}
+	}
+	return trigrams;
+}
+
+export function calculateTextSimilarity(first: string, second: string): number {
+	const firstTrigrams = extractTrigrams(first);
+	const secondTrigrams = extractTrigrams(second);
+	if (firstTrigrams.size === 0 || secondTrigrams.size === 0) {
+		return 0;
+	}
+
+	let shared = 0;
+	for (const trigram of firstTrigrams) {
+		if (secondTrigrams.has(trigram)) {
+			shared++;
+		}
+	}
+	return shared / (firstTrigrams.size + secondTrigrams.size - shared);
+}
+
+export function hasSimilarText(text: string, candidates: Iterable<string>, threshold: number): boolean {
+	for (const candidate of candidates) {
+		if (calculateTextSimilarity(text, candidate) >= threshold) {
+			return true;
+		}
+	}
+	return false;
+}
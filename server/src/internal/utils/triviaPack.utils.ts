@@ -0,0 +1,455 @@
+import { BadRequestException } from '@nestjs/common';
+import type { DeepPartial } from 'typeorm';
+
+import {
+	DifficultyLevel,
+	ERROR_MESSAGES,
+	Locale,
+	TRIVIA_PACK_SCHEMA_VERSION,
+	TriviaPackFormat,
+	VALIDATION_COUNT,
+	VALIDATION_LENGTH,
+} from '@shared/constants';
+import type { OpenTriviaDbPack, TriviaPackFile, TriviaPackSchemaResponse, TriviaQuestionDraft } from '@shared/types';
+import { isNonEmptyString, isRecord } from '@shared/utils';
+import { isLocale, isRegisteredDifficulty } from '@shared/validation';
+
+import { TRIVIA_PACK_CSV_COLUMNS } from '@internal/constants';
+import type { TriviaEntity } from '@internal/entities';
+import type { ParsedTriviaPackRow } from '@internal/types';
+
+import { parseCsv, serializeCsv, unescapeCsvFormula } from './csv.utils';
+
+const CSV_ANSWER_COLUMNS = Array.from(
+	{ length: VALIDATION_COUNT.ANSWER_COUNT.MAX },
+	(_, index) => `${TRIVIA_PACK_CSV_COLUMNS.answerPrefix}${index + 1}`
+);
+
+const CSV_HEADER: string[] = [
+	TRIVIA_PACK_CSV_COLUMNS.question,
+	...CSV_ANSWER_COLUMNS,
+	TRIVIA_PACK_CSV_COLUMNS.correctAnswerIndex,
+	TRIVIA_PACK_CSV_COLUMNS.topic,
+	TRIVIA_PACK_CSV_COLUMNS.difficulty,
+	TRIVIA_PACK_CSV_COLUMNS.locale,
+	TRIVIA_PACK_CSV_COLUMNS.explanation,
+];
+
+const CSV_REQUIRED_COLUMNS = [
+	TRIVIA_PACK_CSV_COLUMNS.question,
+	...CSV_ANSWER_COLUMNS.slice(0, VALIDATION_COUNT.ANSWER_COUNT.MIN),
+	TRIVIA_PACK_CSV_COLUMNS.correctAnswerIndex,
+	TRIVIA_PACK_CSV_COLUMNS.topic,
+	TRIVIA_PACK_CSV_COLUMNS.difficulty,
+];
+
+const OPEN_TRIVIA_DB_MULTIPLE_CHOICE_TYPE = 'multiple';
+
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: '\u00A0',
+	shy: '\u00AD',
+	hellip: '…',
+	ndash: '–',
+	mdash: '—',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	iexcl: '¡',
+	iquest: '¿',
+	middot: '·',
+	deg: '°',
+	times: '×',
+	divide: '÷',
+	pi: 'π',
+	micro: 'µ',
+	sup2: '²',
+	sup3: '³',
+	frac12: '½',
+	frac14: '¼',
+	euro: '€',
+	pound: '£',
+	copy: '©',
+	reg: '®',
+	trade: '™',
+	szlig: 'ß',
+	aelig: 'æ',
+	AElig: 'Æ',
+	oslash: 'ø',
+	Oslash: 'Ø',
+	eth: 'ð',
+	thorn: 'þ',
+};
+
+// Accented Latin letters (&eacute;, &Ouml;, ...) are decoded as letter + combining mark, then composed
+const HTML_ACCENT_MARKS: Record<string, string> = {
+	acute: '\u0301',
+	grave: '\u0300',
+	circ: '\u0302',
+	uml: '\u0308',
+	tilde: '\u0303',
+	cedil: '\u0327',
+	ring: '\u030A',
+};
+
+function decodeHtmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+		if (name.startsWith('#')) {
+			const isHex = name[1] === 'x' || name[1] === 'X';
+			const codePoint = isHex ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+			return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+		}
+		const named = HTML_NAMED_ENTITIES[name];
+		if (named != null) {
+			return named;
+		}
+		const accented = /^([a-zA-Z])(acute|grave|circ|uml|tilde|cedil|ring)$/.exec(name);
+		const mark = accented?.[2] != null ? HTML_ACCENT_MARKS[accented[2]] : undefined;
+		return accented?.[1] != null && mark != null ? `${accented[1]}${mark}`.normalize('NFC') : entity;
+	});
+}
+
+function encodeHtmlEntities(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#039;');
+}
+
+function toText(value: unknown): string {
+	return typeof value === 'string' ? value : '';
+}
+
+function toWholeNumber(value: unknown): number | null {
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? value : null;
+	}
+	if (typeof value === 'string' && /^\s*\d+\s*$/.test(value)) {
+		return Number(value);
+	}
+	return null;
+}
+
+function parsePackJson(content: string): unknown {
+	try {
+		return JSON.parse(content);
+	} catch {
+		throw new BadRequestException(ERROR_MESSAGES.validation.TRIVIA_PACK_INVALID_JSON);
+	}
+}
+
+interface TriviaPackRowFields {
+	question: string;
+	answers: string[];
+	correctAnswerIndex: unknown;
+	topic: string;
+	difficulty: string;
+	locale: string;
+	explanation: string;
+}
+
+// Field-level problems that keep a row from becoming a draft; everything else is left to validateTriviaQuestionDraft
+function toParsedRow(row: number, fields: TriviaPackRowFields, defaultLocale: Locale): ParsedTriviaPackRow {
+	const difficulty = fields.difficulty.trim().toLowerCase();
+	const localeText = fields.locale.trim().toLowerCase();
+	const locale = localeText.length > 0 ? localeText : defaultLocale;
+	const correctAnswerIndex = toWholeNumber(fields.correctAnswerIndex);
+	const question = fields.question.trim();
+
+	if (!isRegisteredDifficulty(difficulty) || !isLocale(locale) || correctAnswerIndex == null) {
+		const errors: string[] = [];
+		if (!isRegisteredDifficulty(difficulty)) {
+			errors.push(ERROR_MESSAGES.validation.INVALID_DIFFICULTY_LEVEL(difficulty));
+		}
+		if (!isLocale(locale)) {
+			errors.push(ERROR_MESSAGES.validation.VALID_FIELD('locale'));
+		}
+		if (correctAnswerIndex == null) {
+			errors.push(ERROR_MESSAGES.validation.TRIVIA_PACK_INVALID_NUMBER('Correct answer index'));
+		}
+		return { row, question, draft: null, errors };
+	}
+
+	const explanation = fields.explanation.trim();
+	return {
+		row,
+		question,
+		draft: {
+			question,
+			answers: fields.answers.map(answer => answer.trim()),
+			correctAnswerIndex,
+			topic: fields.topic.trim(),
+			difficulty,
+			locale,
+			...(explanation.length > 0 ? { explanation } : {}),
+		},
+		errors: [],
+	};
+}
+
+function notAQuestionRow(row: number): ParsedTriviaPackRow {
+	return { row, question: '', draft: null, errors: [ERROR_MESSAGES.validation.TRIVIA_PACK_ROW_NOT_A_QUESTION] };
+}
+
+function parseJsonPack(content: string, defaultLocale: Locale): ParsedTriviaPackRow[] {
+	const pack = parsePackJson(content);
+	if (!isRecord(pack) || !Array.isArray(pack.questions)) {
+		throw new BadRequestException(ERROR_MESSAGES.validation.TRIVIA_PACK_INVALID_LAYOUT(TriviaPackFormat.JSON));
+	}
+	if (pack.version !== TRIVIA_PACK_SCHEMA_VERSION) {
+		throw new BadRequestException(
+			ERROR_MESSAGES.validation.TRIVIA_PACK_UNSUPPORTED_VERSION(TRIVIA_PACK_SCHEMA_VERSION)
+		);
+	}
+
+	return pack.questions.map((item: unknown, index) => {
+		if (!isRecord(item)) {
+			return notAQuestionRow(index + 1);
+		}
+		return toParsedRow(
+			index + 1,
+			{
+				question: toText(item.question),
+				answers: Array.isArray(item.answers) ? item.answers.map(toText) : [],
+				correctAnswerIndex: item.correctAnswerIndex,
+				topic: toText(item.topic),
+				difficulty: toText(item.difficulty),
+				locale: toText(item.locale),
+				explanation: toText(item.explanation),
+			},
+			defaultLocale
+		);
+	});
+}
+
+function parseCsvPack(content: string, defaultLocale: Locale): ParsedTriviaPackRow[] {
+	const [header = [], ...records] = parseCsv(content);
+	const columnIndexes = new Map(header.map((column, index) => [column.trim(), index]));
+	const missingColumns = CSV_REQUIRED_COLUMNS.filter(column => !columnIndexes.has(column));
+	if (missingColumns.length > 0) {
+		throw new BadRequestException(ERROR_MESSAGES.validation.TRIVIA_PACK_MISSING_COLUMNS(missingColumns.join(', ')));
+	}
+
+	return records.map((record, index) => {
+		const cell = (column: string): string => {
+			const columnIndex = columnIndexes.get(column);
+			return columnIndex != null ? unescapeCsvFormula(record[columnIndex] ?? '') : '';
+		};
+		// Questions with fewer answers than the widest one leave the trailing answer columns empty
+		const answers = CSV_ANSWER_COLUMNS.map(cell);
+		while (answers.length > 0 && answers[answers.length - 1]?.trim().length === 0) {
+			answers.pop();
+		}
+
+		return toParsedRow(
+			index + 1,
+			{
+				question: cell(TRIVIA_PACK_CSV_COLUMNS.question),
+				answers,
+				correctAnswerIndex: cell(TRIVIA_PACK_CSV_COLUMNS.correctAnswerIndex),
+				topic: cell(TRIVIA_PACK_CSV_COLUMNS.topic),
+				difficulty: cell(TRIVIA_PACK_CSV_COLUMNS.difficulty),
+				locale: cell(TRIVIA_PACK_CSV_COLUMNS.locale),
+				explanation: cell(TRIVIA_PACK_CSV_COLUMNS.explanation),
+			},
+			defaultLocale
+		);
+	});
+}
+
+function parseOpenTriviaDbPack(content: string, defaultLocale: Locale): ParsedTriviaPackRow[] {
+	const pack = parsePackJson(content);
+	if (!isRecord(pack) || !Array.isArray(pack.results)) {
+		throw new BadRequestException(ERROR_MESSAGES.validation.TRIVIA_PACK_INVALID_LAYOUT(TriviaPackFormat.OPENTDB));
+	}
+
+	return pack.results.map((item: unknown, index) => {
+		if (!isRecord(item)) {
+			return notAQuestionRow(index + 1);
+		}
+		const incorrectAnswers = Array.isArray(item.incorrect_answers)
+			? item.incorrect_answers.map(answer => decodeHtmlEntities(toText(answer)))
+			: [];
+		// Open Trivia DB lists the correct answer on its own; rotate its position so a pack does not always put it first
+		const correctAnswerIndex = index % (incorrectAnswers.length + 1);
+		const answers = [...incorrectAnswers];
+		answers.splice(correctAnswerIndex, 0, decodeHtmlEntities(toText(item.correct_answer)));
+
+		return toParsedRow(
+			index + 1,
+			{
+				question: decodeHtmlEntities(toText(item.question)),
+				answers,
+				correctAnswerIndex,
+				topic: decodeHtmlEntities(toText(item.category)),
+				difficulty: toText(item.difficulty),
+				locale: '',
+				explanation: '',
+			},
+			defaultLocale
+		);
+	});
+}
+
+export function parseTriviaPack(
+	format: TriviaPackFormat,
+	content: string,
+	defaultLocale: Locale
+): ParsedTriviaPackRow[] {
+	let rows: ParsedTriviaPackRow[];
+	switch (format) {
+		case TriviaPackFormat.JSON:
+			rows = parseJsonPack(content, defaultLocale);
+			break;
+		case TriviaPackFormat.CSV:
+			rows = parseCsvPack(content, defaultLocale);
+			break;
+		case TriviaPackFormat.OPENTDB:
+			rows = parseOpenTriviaDbPack(content, defaultLocale);
+			break;
+	}
+
+	if (rows.length === 0) {
+		throw new BadRequestException(ERROR_MESSAGES.validation.TRIVIA_PACK_EMPTY);
+	}
+	if (rows.length > VALIDATION_COUNT.TRIVIA_PACK.MAX_ROWS) {
+		throw new BadRequestException(
+			ERROR_MESSAGES.validation.TRIVIA_PACK_TOO_MANY_ROWS(VALIDATION_COUNT.TRIVIA_PACK.MAX_ROWS)
+		);
+	}
+	return rows;
+}
+
+export function serializeTriviaPack(format: TriviaPackFormat, drafts: TriviaQuestionDraft[]): string {
+	switch (format) {
+		case TriviaPackFormat.JSON: {
+			const pack: TriviaPackFile = { version: TRIVIA_PACK_SCHEMA_VERSION, questions: drafts };
+			return JSON.stringify(pack, null, 2);
+		}
+		case TriviaPackFormat.CSV:
+			return serializeCsv([
+				CSV_HEADER,
+				...drafts.map(draft => [
+					draft.question,
+					...CSV_ANSWER_COLUMNS.map((_, index) => draft.answers[index] ?? ''),
+					String(draft.correctAnswerIndex),
+					draft.topic,
+					draft.difficulty,
+					draft.locale,
+					draft.explanation ?? '',
+				]),
+			]);
+		case TriviaPackFormat.OPENTDB: {
+			const pack: OpenTriviaDbPack = {
+				response_code: 0,
+				results: drafts.map(draft => ({
+					category: encodeHtmlEntities(draft.topic),
+					type: OPEN_TRIVIA_DB_MULTIPLE_CHOICE_TYPE,
+					difficulty: draft.difficulty,
+					question: encodeHtmlEntities(draft.question),
+					correct_answer: encodeHtmlEntities(draft.answers[draft.correctAnswerIndex] ?? ''),
+					incorrect_answers: draft.answers
+						.filter((_, index) => index !== draft.correctAnswerIndex)
+						.map(encodeHtmlEntities),
+				})),
+			};
+			return JSON.stringify(pack, null, 2);
+		}
+	}
+}
+
+// JSON Schema (draft 2020-12) of the native JSON pack, with the same limits validateTriviaQuestionDraft enforces
+export function getTriviaPackSchema(): TriviaPackSchemaResponse {
+	const { MIN: minAnswers, MAX: maxAnswers } = VALIDATION_COUNT.ANSWER_COUNT;
+	return {
+		version: TRIVIA_PACK_SCHEMA_VERSION,
+		csvColumns: CSV_HEADER,
+		jsonSchema: {
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			title: 'Trivia question pack',
+			type: 'object',
+			required: ['version', 'questions'],
+			properties: {
+				version: { const: TRIVIA_PACK_SCHEMA_VERSION },
+				questions: {
+					type: 'array',
+					minItems: 1,
+					maxItems: VALIDATION_COUNT.TRIVIA_PACK.MAX_ROWS,
+					items: {
+						type: 'object',
+						required: ['question', 'answers', 'correctAnswerIndex', 'topic', 'difficulty'],
+						properties: {
+							question: {
+								type: 'string',
+								minLength: VALIDATION_LENGTH.QUESTION.MIN,
+								maxLength: VALIDATION_LENGTH.QUESTION.MAX,
+							},
+							answers: {
+								type: 'array',
+								minItems: minAnswers,
+								maxItems: maxAnswers,
+								uniqueItems: true,
+								items: { type: 'string', minLength: 1, maxLength: VALIDATION_LENGTH.ANSWER.MAX },
+							},
+							correctAnswerIndex: { type: 'integer', minimum: 0, maximum: maxAnswers - 1 },
+							topic: { type: 'string', minLength: VALIDATION_LENGTH.TOPIC.MIN, maxLength: VALIDATION_LENGTH.TOPIC.MAX },
+							difficulty: { enum: Object.values(DifficultyLevel).filter(level => level !== DifficultyLevel.CUSTOM) },
+							locale: {
+								enum: Object.values(Locale),
+								description: 'Defaults to the locale chosen for the import',
+							},
+							explanation: { type: 'string', maxLength: VALIDATION_LENGTH.EXPLANATION.MAX },
+						},
+					},
+				},
+			},
+		},
+	};
+}
+
+// Stored question as an editable draft; generated custom-difficulty questions use the level they were mapped to
+export function toTriviaQuestionDraft(questionEntity: TriviaEntity): TriviaQuestionDraft {
+	const metadata = questionEntity.metadata ?? {};
+	const explanation = metadata.explanation;
+	return {
+		question: questionEntity.question,
+		answers: questionEntity.answers.map(answer => answer.text),
+		correctAnswerIndex: questionEntity.correctAnswerIndex,
+		topic: questionEntity.topic,
+		difficulty:
+			questionEntity.difficulty === DifficultyLevel.CUSTOM
+				? (metadata.mappedDifficulty ?? DifficultyLevel.MEDIUM)
+				: questionEntity.difficulty,
+		locale: isLocale(metadata.language) ? metadata.language : Locale.EN,
+		...(explanation != null ? { explanation } : {}),
+	};
+}
+
+// Column values for a new admin-authored question; the draft is expected to have passed validateTriviaQuestionDraft
+export function fromTriviaQuestionDraft(draft: TriviaQuestionDraft): DeepPartial<TriviaEntity> {
+	const explanation = draft.explanation?.trim();
+	return {
+		topic: draft.topic.trim(),
+		difficulty: draft.difficulty,
+		question: draft.question.trim(),
+		answers: draft.answers.map((text, index) => ({
+			text: text.trim(),
+			isCorrect: index === draft.correctAnswerIndex,
+		})),
+		correctAnswerIndex: draft.correctAnswerIndex,
+		userId: null,
+		metadata: {
+			language: draft.locale,
+			...(isNonEmptyString(explanation) ? { explanation } : {}),
+		},
+	};
+}
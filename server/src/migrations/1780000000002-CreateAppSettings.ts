@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAppSettings1780000000002 implements MigrationInterface {
+	name = 'CreateAppSettings1780000000002';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		// Key-value store for admin-tunable runtime settings (e.g. the question pool warmer)
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "app_settings" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"key" character varying(128) NOT NULL,
+				"value" jsonb NOT NULL DEFAULT 'null'::jsonb,
+				"created_at" TIMESTAMP NOT NULL DEFAULT now(),
+				"updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+				CONSTRAINT "UQ_app_settings_key" UNIQUE ("key"),
+				CONSTRAINT "PK_app_settings" PRIMARY KEY ("id")
+			)
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP TABLE IF EXISTS "app_settings"`);
+	}
+}
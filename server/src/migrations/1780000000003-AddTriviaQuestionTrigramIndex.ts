@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTriviaQuestionTrigramIndex1780000000003 implements MigrationInterface {
+	name = 'AddTriviaQuestionTrigramIndex1780000000003';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		// Trigram similarity backs near-duplicate detection for stored and excluded questions
+		await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+		await queryRunner.query(`
+			CREATE INDEX IF NOT EXISTS "IDX_trivia_question_trgm"
+			ON "trivia" USING GIN (LOWER("question") gin_trgm_ops)
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_trivia_question_trgm"`);
+	}
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTriviaReports1780000000004 implements MigrationInterface {
+	name = 'CreateTriviaReports1780000000004';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		// Retired questions stay in the bank for history and moderation but are never served again
+		await queryRunner.query(`
+			ALTER TABLE "trivia"
+			ADD COLUMN IF NOT EXISTS "retired_at" TIMESTAMP NULL
+		`);
+
+		// Player reports against individual questions; open reports feed the admin moderation queue
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "trivia_reports" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"question_id" uuid NOT NULL,
+				"user_id" uuid,
+				"reason" character varying(32) NOT NULL,
+				"note" text,
+				"status" character varying(16) NOT NULL DEFAULT 'open',
+				"resolved_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT now(),
+				"updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+				CONSTRAINT "PK_trivia_reports" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_trivia_reports_question" FOREIGN KEY ("question_id")
+					REFERENCES "trivia"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+				CONSTRAINT "FK_trivia_reports_user" FOREIGN KEY ("user_id")
+					REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+			)
+		`);
+		await queryRunner.query(`
+			CREATE INDEX IF NOT EXISTS "IDX_trivia_reports_question_status"
+			ON "trivia_reports" ("question_id", "status")
+		`);
+		await queryRunner.query(`
+			CREATE UNIQUE INDEX IF NOT EXISTS "UQ_trivia_reports_open_user"
+			ON "trivia_reports" ("question_id", "user_id")
+			WHERE "status" = 'open'
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP TABLE IF EXISTS "trivia_reports"`);
+		await queryRunner.query(`ALTER TABLE "trivia" DROP COLUMN IF EXISTS "retired_at"`);
+	}
+}
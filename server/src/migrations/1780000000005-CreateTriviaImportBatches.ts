@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTriviaImportBatches1780000000005 implements MigrationInterface {
+	name = 'CreateTriviaImportBatches1780000000005';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		// One row per imported question pack so the whole pack can be rolled back together
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "trivia_import_batches" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"label" character varying(100) NOT NULL,
+				"format" character varying(16) NOT NULL,
+				"question_count" integer NOT NULL DEFAULT 0,
+				"user_id" uuid,
+				"created_at" TIMESTAMP NOT NULL DEFAULT now(),
+				"updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+				CONSTRAINT "PK_trivia_import_batches" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_trivia_import_batches_user" FOREIGN KEY ("user_id")
+					REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+			)
+		`);
+		await queryRunner.query(`
+			ALTER TABLE "trivia"
+			ADD COLUMN IF NOT EXISTS "import_batch_id" uuid NULL
+		`);
+		await queryRunner.query(`
+			ALTER TABLE "trivia"
+			ADD CONSTRAINT "FK_trivia_import_batch" FOREIGN KEY ("import_batch_id")
+				REFERENCES "trivia_import_batches"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+		`);
+		await queryRunner.query(`
+			CREATE INDEX IF NOT EXISTS "IDX_trivia_import_batch_id"
+			ON "trivia" ("import_batch_id")
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_trivia_import_batch_id"`);
+		await queryRunner.query(`ALTER TABLE "trivia" DROP CONSTRAINT IF EXISTS "FK_trivia_import_batch"`);
+		await queryRunner.query(`ALTER TABLE "trivia" DROP COLUMN IF EXISTS "import_batch_id"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "trivia_import_batches"`);
+	}
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTriviaCalibration1780000000006 implements MigrationInterface {
+	name = 'AddTriviaCalibration1780000000006';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		// Filled by the calibration job from answers recorded in game_history.questions_data
+		await queryRunner.query(`
+			ALTER TABLE "trivia"
+			ADD COLUMN IF NOT EXISTS "attempt_count" integer NOT NULL DEFAULT 0,
+			ADD COLUMN IF NOT EXISTS "success_rate" real NULL,
+			ADD COLUMN IF NOT EXISTS "average_time_spent" real NULL,
+			ADD COLUMN IF NOT EXISTS "calibrated_difficulty" character varying(16) NULL,
+			ADD COLUMN IF NOT EXISTS "calibrated_difficulty_score" real NULL,
+			ADD COLUMN IF NOT EXISTS "calibrated_at" TIMESTAMP NULL
+		`);
+		await queryRunner.query(`
+			CREATE INDEX IF NOT EXISTS "IDX_trivia_calibrated_difficulty"
+			ON "trivia" ("calibrated_difficulty")
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_trivia_calibrated_difficulty"`);
+		await queryRunner.query(`
+			ALTER TABLE "trivia"
+			DROP COLUMN IF EXISTS "calibrated_at",
+			DROP COLUMN IF EXISTS "calibrated_difficulty_score",
+			DROP COLUMN IF EXISTS "calibrated_difficulty",
+			DROP COLUMN IF EXISTS "average_time_spent",
+			DROP COLUMN IF EXISTS "success_rate",
+			DROP COLUMN IF EXISTS "attempt_count"
+		`);
+	}
+}
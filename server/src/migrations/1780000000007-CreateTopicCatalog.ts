@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTopicCatalog1780000000007 implements MigrationInterface {
+	name = 'CreateTopicCatalog1780000000007';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "topics" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"key" character varying(100) NOT NULL,
+				"name" character varying(100) NOT NULL,
+				"names" jsonb NOT NULL DEFAULT '{}',
+				"aliases" text[] NOT NULL DEFAULT '{}',
+				"parent_category" character varying(100),
+				"created_at" TIMESTAMP NOT NULL DEFAULT now(),
+				"updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+				CONSTRAINT "PK_topics" PRIMARY KEY ("id")
+			)
+		`);
+		await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_topics_key" ON "topics" ("key")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_topics_aliases" ON "topics" USING GIN ("aliases")`);
+
+		// Seed one catalog topic per normalized topic already played or stored, named after its most used spelling
+		await queryRunner.query(`
+			INSERT INTO "topics" ("key", "name")
+			SELECT DISTINCT ON (variant.key) variant.key, variant.name
+			FROM (
+				SELECT LOWER(REGEXP_REPLACE(TRIM(used.topic), '\\s+', ' ', 'g')) AS key,
+				       REGEXP_REPLACE(TRIM(used.topic), '\\s+', ' ', 'g') AS name,
+				       COUNT(*) AS uses
+				FROM (
+					SELECT topic FROM "game_history"
+					UNION ALL
+					SELECT topic FROM "trivia"
+				) AS used
+				WHERE TRIM(used.topic) <> ''
+				GROUP BY 1, 2
+			) AS variant
+			WHERE LENGTH(variant.key) <= 100
+			ORDER BY variant.key, variant.uses DESC
+			ON CONFLICT ("key") DO NOTHING
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_topics_aliases"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_topics_key"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "topics"`);
+	}
+}
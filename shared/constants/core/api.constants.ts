@@ -40,6 +40,7 @@ export const API_ENDPOINTS = {
 	GAME: {
 		BASE: '/game',
 		TRIVIA: '/game/trivia',
+		TRIVIA_STREAM: '/game/trivia/stream',
 		HISTORY: '/game/history',
 		HISTORY_BY_ID: '/game/history/:gameId',
 		VALIDATE_TEXT: '/game/validate-text',
@@ -48,7 +49,9 @@ export const API_ENDPOINTS = {
 		SESSION_ANSWER: '/game/session/answer',
 		SESSION_FINALIZE: '/game/session/finalize',
 		SURPRISE_PICK: '/game/surprise-pick',
+		TOPIC_SUGGESTIONS: '/game/topic-suggestions',
 		VALIDATE_SESSION: '/game/validate-session/:gameId',
+		TRIVIA_REPORT: '/game/trivia/:id/report',
 	},
 	MULTIPLAYER: {
 		BASE: '/multiplayer',
@@ -80,10 +83,13 @@ export const API_ENDPOINTS = {
 		SYSTEM_SECURITY: '/analytics/system/security',
 		SYSTEM_RECOMMENDATIONS: '/analytics/system/recommendations',
 		SYSTEM_INSIGHTS: '/analytics/system/insights',
+		QUESTIONS: '/analytics/questions',
+		QUESTION_BY_ID: '/analytics/questions/:questionId',
 		LEADERBOARD: {
 			STATS: '/analytics/leaderboard/stats',
 			GLOBAL: '/analytics/leaderboard/global',
 			PERIOD: '/analytics/leaderboard/period/:period',
+			DAILY_CHALLENGE: '/analytics/leaderboard/daily-challenge',
 			ADMIN_CLEAR_ALL: '/analytics/leaderboard/admin/clear-all',
 		},
 	},
@@ -92,6 +98,26 @@ export const API_ENDPOINTS = {
 		PRICING: '/admin/pricing',
 		STATISTICS: '/admin/statistics',
 		TRIVIA: '/admin/trivia',
+		TRIVIA_BY_ID: '/admin/trivia/:id',
+		TRIVIA_RETIRE: '/admin/trivia/:id/retire',
+		TRIVIA_RESTORE: '/admin/trivia/:id/restore',
+		TRIVIA_BULK: '/admin/trivia/bulk',
+		TRIVIA_IMPORT: '/admin/trivia/import',
+		TRIVIA_EXPORT: '/admin/trivia/export',
+		TRIVIA_IMPORT_BATCHES: '/admin/trivia/import-batches',
+		TRIVIA_IMPORT_BATCH_BY_ID: '/admin/trivia/import-batches/:id',
+		TRIVIA_DUPLICATES: '/admin/trivia/duplicates',
+		TRIVIA_DUPLICATES_MERGE: '/admin/trivia/duplicates/merge',
+		TRIVIA_REPORTS: '/admin/trivia/reports',
+		TRIVIA_REPORTS_RESOLVE: '/admin/trivia/reports/:questionId/resolve',
+		QUESTION_POOL: '/admin/question-pool',
+		QUESTION_POOL_SETTINGS: '/admin/question-pool/settings',
+		QUESTION_POOL_RUN: '/admin/question-pool/run',
+		QUESTION_CALIBRATION: '/admin/question-calibration',
+		QUESTION_CALIBRATION_RUN: '/admin/question-calibration/run',
+		TOPICS: '/admin/topics',
+		TOPIC_BY_ID: '/admin/topics/:id',
+		TOPICS_MERGE: '/admin/topics/merge',
 	},
 	MAINTENANCE: {
 		BASE: '/admin/maintenance',
@@ -125,4 +151,8 @@ export const QUERY_PARAMS = {
 	LIMIT: 'limit',
 	OFFSET: 'offset',
 	PERIOD: 'period',
+	DATE: 'date',
+	FORMAT: 'format',
+	BATCH_ID: 'batchId',
+	SORT: 'sort',
 } as const;
@@ -87,6 +87,7 @@ export enum ErrorCode {
 	INVALID_QUESTION_FORMAT = 'INVALID_QUESTION_FORMAT',
 	INVALID_QUESTION_FORMAT_FROM_AI = 'INVALID_QUESTION_FORMAT_FROM_AI',
 	NO_CORRECT_ANSWER_FOUND = 'NO_CORRECT_ANSWER_FOUND',
+	QUESTION_FAILED_FACT_CHECK = 'QUESTION_FAILED_FACT_CHECK',
 	AI_RETURNED_EMPTY_RESPONSE = 'AI_RETURNED_EMPTY_RESPONSE',
 	QUESTION_ID_REQUIRED = 'QUESTION_ID_REQUIRED',
 	QUESTION_ID_AND_ANSWER_REQUIRED = 'QUESTION_ID_AND_ANSWER_REQUIRED',
@@ -96,6 +97,8 @@ export enum ErrorCode {
 	RESPONSE_CONTENT_EMPTY = 'RESPONSE_CONTENT_EMPTY',
 	FAILED_TO_INITIALIZE_GAME_SESSION = 'FAILED_TO_INITIALIZE_GAME_SESSION',
 	INVALID_ANSWER_INDEX = 'INVALID_ANSWER_INDEX',
+	QUESTION_ALREADY_ANSWERED = 'QUESTION_ALREADY_ANSWERED',
+	GAME_HISTORY_REJECTED = 'GAME_HISTORY_REJECTED',
 	GAME_DATA_USER_ID_REQUIRED = 'GAME_DATA_USER_ID_REQUIRED',
 	ARRAY_EMPTY_OR_ITEM_NOT_FOUND = 'ARRAY_EMPTY_OR_ITEM_NOT_FOUND',
 	MISSING_CHART_ITEM = 'MISSING_CHART_ITEM',
@@ -133,13 +136,27 @@ export enum ErrorCode {
 	ROOM_FULL = 'ROOM_FULL',
 	NOT_PART_OF_ROOM = 'NOT_PART_OF_ROOM',
 	PLAYER_NOT_FOUND_IN_ROOM = 'PLAYER_NOT_FOUND_IN_ROOM',
+	BANNED_FROM_ROOM = 'BANNED_FROM_ROOM',
+	REMOVED_FROM_ROOM = 'REMOVED_FROM_ROOM',
+	CANNOT_MODERATE_SELF = 'CANNOT_MODERATE_SELF',
+	HOST_TARGET_DISCONNECTED = 'HOST_TARGET_DISCONNECTED',
+	GAME_PAUSED = 'GAME_PAUSED',
+	GAME_NOT_PAUSED = 'GAME_NOT_PAUSED',
+	SPECTATORS_CANNOT_ANSWER = 'SPECTATORS_CANNOT_ANSWER',
+	GAME_NOT_FINISHED = 'GAME_NOT_FINISHED',
+	TEAM_MODE_DISABLED = 'TEAM_MODE_DISABLED',
+	INVALID_TEAM = 'INVALID_TEAM',
+	NEED_AT_LEAST_2_TEAMS = 'NEED_AT_LEAST_2_TEAMS',
+	ANSWER_LOCKED = 'ANSWER_LOCKED',
+	QUESTION_NOT_DELIVERED = 'QUESTION_NOT_DELIVERED',
 	QUESTION_NOT_FOUND_OR_NOT_CURRENT = 'QUESTION_NOT_FOUND_OR_NOT_CURRENT',
 	TIMER_ERROR = 'TIMER_ERROR',
 
 	// Config / API
 	DATABASE_PASSWORD_REQUIRED = 'DATABASE_PASSWORD_REQUIRED',
-	NO_GROQ_MODEL_AVAILABLE = 'NO_GROQ_MODEL_AVAILABLE',
+	NO_AI_MODEL_AVAILABLE = 'NO_AI_MODEL_AVAILABLE',
 	API_KEY_NOT_CONFIGURED = 'API_KEY_NOT_CONFIGURED',
+	JWT_SECRET_NOT_CONFIGURED = 'JWT_SECRET_NOT_CONFIGURED',
 }
 
 export const ERROR_MESSAGES = {
@@ -202,11 +219,11 @@ export const ERROR_MESSAGES = {
 			'This credit package has no Israeli Shekel (ILS) price configured. Please switch to English (USD) or contact support.',
 	},
 	provider: {
-		INVALID_GROQ_RESPONSE: 'Invalid Groq response format',
+		INVALID_CHAT_COMPLETION_RESPONSE: 'Invalid chat completion response format',
 		UNABLE_TO_GENERATE_QUESTION: 'Unable to generate question',
 		INVALID_PROVIDER_RESPONSE: 'Invalid response format from AI provider',
 		AI_GENERATION_FAILED: 'Failed to generate question with AI providers',
-		NO_GROQ_MODEL_AVAILABLE: 'No model available from GROQ_FREE_TIER_MODELS',
+		NO_AI_MODEL_AVAILABLE: 'No model configured for the AI provider',
 	},
 	storage: {
 		SERIALIZATION_FAILED: 'Serialization failed',
@@ -230,6 +247,17 @@ export const ERROR_MESSAGES = {
 		INSUFFICIENT_CREDITS_DETAIL: (available: number, required: number, detail: string) =>
 			`Insufficient credits. You have ${available} credits available but need ${required} credits (${detail}).`,
 		INVALID_GAME_SESSION_DATA_STRUCTURE: 'Invalid game session data structure',
+		DAILY_CHALLENGE_ALREADY_PLAYED: "You have already played today's daily challenge. Come back tomorrow!",
+		DAILY_CHALLENGE_UNAVAILABLE: "Today's daily challenge is not available yet. Please try again later.",
+		ANSWER_AFTER_TIME_LIMIT: "Time's up! Answers submitted after the game's time limit are not counted.",
+		BANNED_FROM_ROOM: 'The host has banned you from this room.',
+		REMOVED_FROM_ROOM: 'The host removed you from the room.',
+		GAME_PAUSED: 'The host has paused the game.',
+		HOST_TARGET_DISCONNECTED: 'Host rights can only go to a connected player.',
+		SPECTATORS_CANNOT_ANSWER: 'You are watching this game and cannot answer questions.',
+		NEED_AT_LEAST_2_TEAMS: 'At least two teams need players before the game can start.',
+		ANSWER_LOCKED: 'Answers are locked in on first submit in this room.',
+		QUESTION_NOT_DELIVERED: 'You can only report questions you have been asked.',
 	},
 	cache: {
 		CACHE_OPERATION_FAILED: 'Cache operation failed. Please try again.',
@@ -261,6 +289,22 @@ export const ERROR_MESSAGES = {
 		QUESTIONS_PER_REQUEST_RANGE: (min: number, max: number, unlimited: number) =>
 			`Questions per request must be between ${min} and ${max}, or ${unlimited} for unlimited mode`,
 		MAX_PLAYERS_RANGE: (min: number, max: number) => `Max players must be between ${min} and ${max}`,
+		ANSWER_COUNT_RANGE: (min: number, max: number) => `A question must have between ${min} and ${max} answers`,
+		DUPLICATE_ANSWERS: 'Answers must be different from each other',
+		CORRECT_ANSWER_INDEX_RANGE: (count: number) => `Correct answer must be one of the ${count} answers`,
+		TRIVIA_PACK_INVALID_JSON: 'Question pack is not valid JSON',
+		TRIVIA_PACK_INVALID_LAYOUT: (format: string) => `Question pack does not match the ${format} layout`,
+		TRIVIA_PACK_UNSUPPORTED_VERSION: (version: number) => `Question pack must use schema version ${version}`,
+		TRIVIA_PACK_MISSING_COLUMNS: (columns: string) => `Question pack is missing columns: ${columns}`,
+		TRIVIA_PACK_EMPTY: 'Question pack does not contain any questions',
+		TRIVIA_PACK_TOO_MANY_ROWS: (max: number) => `Question pack cannot contain more than ${max} questions`,
+		TRIVIA_PACK_ROW_NOT_A_QUESTION: 'Row is not a question object',
+		TRIVIA_PACK_INVALID_NUMBER: (field: string) => `${field} must be a whole number`,
+		DUPLICATE_OF_STORED_QUESTION: 'Question already exists',
+		DUPLICATE_OF_PACK_ROW: (row: number) => `Question repeats row ${row} of this pack`,
+		TOPIC_ALIAS_IN_USE: (alias: string, topic: string) =>
+			`"${alias}" already resolves to the topic "${topic}"; merge the topics instead`,
+		TOPIC_MERGE_SAME_TOPIC: 'A topic cannot be merged into itself',
 		LENGTH_TOO_SHORT: (field: string, min: number) =>
 			`${field} must be at least ${min} character${min !== 1 ? 's' : ''} long`,
 		LENGTH_TOO_LONG: (field: string, max: number) => `${field} cannot exceed ${max} characters`,
@@ -349,7 +393,7 @@ export const ERROR_CODE_TO_USER_MESSAGE: Partial<Record<ErrorCode, string>> = {
 	[ErrorCode.QUESTION_GENERATION_TIMEOUT]: ERROR_MESSAGES.timeout.REQUEST_TIMEOUT,
 	[ErrorCode.AI_RETURNED_EMPTY_RESPONSE]: ERROR_MESSAGES.provider.INVALID_PROVIDER_RESPONSE,
 	[ErrorCode.RESPONSE_CONTENT_EMPTY]: ERROR_MESSAGES.provider.INVALID_PROVIDER_RESPONSE,
-	[ErrorCode.NO_GROQ_MODEL_AVAILABLE]: ERROR_MESSAGES.provider.NO_GROQ_MODEL_AVAILABLE,
+	[ErrorCode.NO_AI_MODEL_AVAILABLE]: ERROR_MESSAGES.provider.NO_AI_MODEL_AVAILABLE,
 	[ErrorCode.CACHE_SYNC_ERROR]: ERROR_MESSAGES.cache.CACHE_OPERATION_FAILED,
 	[ErrorCode.REDIS_ERROR]: ERROR_MESSAGES.cache.CACHE_OPERATION_FAILED,
 	[ErrorCode.DATABASE_PASSWORD_REQUIRED]: ERROR_MESSAGES.config.DATABASE_PASSWORD_REQUIRED,
@@ -357,6 +401,14 @@ export const ERROR_CODE_TO_USER_MESSAGE: Partial<Record<ErrorCode, string>> = {
 	[ErrorCode.FAILED_TO_INITIALIZE_PAYPAL]: ERROR_MESSAGES.payment.FAILED_TO_INITIALIZE_PAYPAL,
 	[ErrorCode.CREDITS_PACKAGE_PRICE_ILS_MISSING]: ERROR_MESSAGES.payment.CREDITS_PACKAGE_PRICE_ILS_MISSING,
 	[ErrorCode.INSUFFICIENT_CREDITS]: ERROR_MESSAGES.game.INSUFFICIENT_CREDITS,
+	[ErrorCode.BANNED_FROM_ROOM]: ERROR_MESSAGES.game.BANNED_FROM_ROOM,
+	[ErrorCode.REMOVED_FROM_ROOM]: ERROR_MESSAGES.game.REMOVED_FROM_ROOM,
+	[ErrorCode.GAME_PAUSED]: ERROR_MESSAGES.game.GAME_PAUSED,
+	[ErrorCode.HOST_TARGET_DISCONNECTED]: ERROR_MESSAGES.game.HOST_TARGET_DISCONNECTED,
+	[ErrorCode.SPECTATORS_CANNOT_ANSWER]: ERROR_MESSAGES.game.SPECTATORS_CANNOT_ANSWER,
+	[ErrorCode.NEED_AT_LEAST_2_TEAMS]: ERROR_MESSAGES.game.NEED_AT_LEAST_2_TEAMS,
+	[ErrorCode.ANSWER_LOCKED]: ERROR_MESSAGES.game.ANSWER_LOCKED,
+	[ErrorCode.QUESTION_NOT_DELIVERED]: ERROR_MESSAGES.game.QUESTION_NOT_DELIVERED,
 };
 
 export const GENERIC_BAD_REQUEST_WRAPPER_MESSAGES = new Set<string>([
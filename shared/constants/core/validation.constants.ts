@@ -68,6 +68,18 @@ export const VALIDATION_LENGTH = {
 	REASON: {
 		MAX: 150,
 	},
+	REPORT_NOTE: {
+		MAX: 500,
+	},
+	EXPLANATION: {
+		MAX: 500,
+	},
+	IMPORT_BATCH_LABEL: {
+		MAX: 100,
+	},
+	TRIVIA_PACK_CONTENT: {
+		MAX: 2_000_000,
+	},
 	INPUT: {
 		MIN: 1,
 		MAX: 500,
@@ -137,6 +149,18 @@ export const VALIDATION_COUNT = {
 		MAX: 6,
 		DEFAULT: 4,
 	},
+	SPECTATORS: {
+		MAX: 20,
+	},
+	TEAMS: {
+		MIN: 2,
+		MAX: 4,
+	},
+	TIME_PER_QUESTION: {
+		MIN: TIME_DURATIONS_SECONDS.TEN_SECONDS,
+		MAX: TIME_DURATIONS_SECONDS.TWO_MINUTES,
+		DEFAULT: TIME_DURATIONS_SECONDS.THIRTY_SECONDS,
+	},
 	QUESTIONS: {
 		MIN: 1,
 		MAX: 50, // Maximum questions per request (matches server processing limit)
@@ -206,6 +230,45 @@ export const VALIDATION_COUNT = {
 		DEFAULT_LIMIT: 500,
 		DEFAULT_OFFSET: 0,
 	},
+	QUESTION_ANALYTICS_LIST: {
+		LIMIT_MIN: 1,
+		LIMIT_MAX: 100,
+		DEFAULT_LIMIT: 25,
+		DEFAULT_OFFSET: 0,
+	},
+	TRIVIA_DUPLICATE_MERGE: {
+		MIN_IDS: 1,
+		MAX_IDS: 50,
+	},
+	TOPIC_ALIASES: {
+		MAX: 50,
+	},
+	TOPIC_SUGGESTIONS: {
+		MIN: 1,
+		MAX: 20,
+		DEFAULT: 8,
+	},
+	TRIVIA_BULK_ACTION: {
+		MIN_IDS: 1,
+		MAX_IDS: 200,
+	},
+	TRIVIA_PACK: {
+		MAX_ROWS: 1000,
+	},
+	QUESTION_POOL: {
+		MIN_READY: {
+			MIN: 1,
+			MAX: 100,
+		},
+		POPULAR_TOPICS: {
+			MIN: 0,
+			MAX: 50,
+		},
+		GENERATION_CALLS_PER_RUN: {
+			MIN: 1,
+			MAX: 60,
+		},
+	},
 } as const;
 
 export const LANGUAGE_VALIDATION_THRESHOLDS = {
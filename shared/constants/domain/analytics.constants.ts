@@ -9,6 +9,15 @@ export enum ComparisonTarget {
 	USER = 'user',
 }
 
+// Orderings for the per-question analytics list
+export enum QuestionAnalyticsSort {
+	HARDEST = 'hardest',
+	CONFUSING_DISTRACTOR = 'confusing_distractor',
+	MOST_REPORTED = 'most_reported',
+}
+
+export const QUESTION_ANALYTICS_SORTS: ReadonlySet<string> = new Set<string>(Object.values(QuestionAnalyticsSort));
+
 export enum AnalyticsEnvironment {
 	DEVELOPMENT = 'development',
 	STAGING = 'staging',
@@ -24,6 +24,7 @@ export enum GameMode {
 	TIME_LIMITED = 'time-limited',
 	UNLIMITED = 'unlimited',
 	MULTIPLAYER = 'multiplayer',
+	DAILY_CHALLENGE = 'daily-challenge',
 }
 
 export const GAME_MODES: ReadonlySet<string> = new Set<string>(Object.values(GameMode));
@@ -112,6 +113,17 @@ export const GAME_MODES_CONFIG = {
 		chargeAfterGame: false,
 		hostPaysOnly: true,
 	},
+	[GameMode.DAILY_CHALLENGE]: {
+		defaults: {
+			timeLimit: undefined,
+			maxQuestionsPerGame: 10,
+		},
+		costPerQuestion: undefined,
+		fixedCost: 0,
+		creditsPer30Seconds: undefined,
+		chargeAfterGame: false,
+		hostPaysOnly: undefined,
+	},
 } as const;
 
 export const MULTIPLAYER_TIME_PER_QUESTION = GAME_MODES_CONFIG[GameMode.MULTIPLAYER].defaults.timePerQuestion;
@@ -123,6 +135,13 @@ export const DEFAULT_GAME_CONFIG = {
 	timeLimit: TIME_DURATIONS_SECONDS.THIRTY_SECONDS,
 } as const;
 
+export const DAILY_CHALLENGE_CONFIG = {
+	topic: 'Daily Challenge',
+	difficulty: DifficultyLevel.MEDIUM,
+	questionCount: GAME_MODES_CONFIG[GameMode.DAILY_CHALLENGE].defaults.maxQuestionsPerGame,
+	leaderboardLimit: 50,
+} as const;
+
 export enum SurpriseScope {
 	TOPIC = 'topic',
 	DIFFICULTY = 'difficulty',
@@ -132,3 +151,80 @@ export enum SurpriseScope {
 export const SURPRISE_SCOPE_DEFAULT = SurpriseScope.BOTH;
 
 export const SURPRISE_SCOPES: SurpriseScope[] = Object.values(SurpriseScope);
+
+// Where a topic suggestion came from; a suggestion found in several places lists every source
+export enum TopicSuggestionSource {
+	TRIVIA = 'trivia',
+	PLAYED = 'played',
+	POPULAR = 'popular',
+	PRESET = 'preset',
+}
+
+// Event names on the streaming trivia endpoint (server-sent events)
+export enum TriviaStreamEventType {
+	QUESTION = 'question',
+	PROGRESS = 'progress',
+	ERROR = 'error',
+	DONE = 'done',
+}
+
+export const TRIVIA_STREAM_EVENT_TYPES: ReadonlySet<string> = new Set<string>(Object.values(TriviaStreamEventType));
+
+export enum TriviaQuestionSource {
+	POOL = 'pool',
+	GENERATED = 'generated',
+}
+
+// Outcome of the independent answer check run on a generated question before it is stored
+export enum TriviaFactCheckVerdict {
+	CONFIRMED = 'confirmed',
+	WRONG_ANSWER = 'wrong_answer',
+	AMBIGUOUS = 'ambiguous',
+	UNVERIFIED = 'unverified',
+}
+
+export enum TriviaReportReason {
+	WRONG_ANSWER = 'wrong_answer',
+	OFFENSIVE = 'offensive',
+	BAD_TRANSLATION = 'bad_translation',
+	OTHER = 'other',
+}
+
+export const TRIVIA_REPORT_REASONS: ReadonlySet<string> = new Set<string>(Object.values(TriviaReportReason));
+
+export enum TriviaReportStatus {
+	OPEN = 'open',
+	DISMISSED = 'dismissed',
+	RESOLVED = 'resolved',
+}
+
+// What an admin does with a question in the moderation queue; every action closes its open reports
+export enum TriviaModerationAction {
+	DISMISS = 'dismiss',
+	EDIT = 'edit',
+	RETIRE = 'retire',
+}
+
+// Actions the admin trivia table applies to a selection of questions at once
+export enum TriviaBulkAction {
+	RETIRE = 'retire',
+	RESTORE = 'restore',
+	DELETE = 'delete',
+}
+
+// File layouts accepted by the admin question pack import and produced by the export
+export enum TriviaPackFormat {
+	JSON = 'json',
+	CSV = 'csv',
+	OPENTDB = 'opentdb',
+}
+
+export const TRIVIA_PACK_FORMATS: ReadonlySet<string> = new Set<string>(Object.values(TriviaPackFormat));
+
+export const TRIVIA_PACK_SCHEMA_VERSION = 1;
+
+export enum TriviaImportRowStatus {
+	VALID = 'valid',
+	INVALID = 'invalid',
+	DUPLICATE = 'duplicate',
+}
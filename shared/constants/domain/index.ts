@@ -6,3 +6,5 @@ export * from './user.constants';
 export * from './payment.constants';
 export * from './credits.constants';
 export * from './multiplayer.constants';
+export * from './questionPool.constants';
+export * from './questionCalibration.constants';
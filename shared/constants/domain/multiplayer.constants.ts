@@ -14,6 +14,23 @@ export enum PlayerStatus {
 	FINISHED = 'finished',
 }
 
+// How member scores roll up into a team score
+export enum TeamScoreRule {
+	SUM = 'sum',
+	BEST = 'best',
+	AVERAGE = 'average',
+}
+
+export const TEAM_SCORE_RULES: ReadonlySet<string> = new Set<string>(Object.values(TeamScoreRule));
+
+// Whether a submitted answer can still be changed before the question deadline
+export enum AnswerPolicy {
+	CHANGEABLE = 'changeable',
+	LOCKED = 'locked',
+}
+
+export const ANSWER_POLICIES: ReadonlySet<string> = new Set<string>(Object.values(AnswerPolicy));
+
 export enum MultiplayerEvent {
 	// Socket connection events
 	CONNECT = 'connect',
@@ -30,6 +47,8 @@ export enum MultiplayerEvent {
 	// Player events
 	PLAYER_JOINED = 'player-joined',
 	PLAYER_LEFT = 'player-left',
+	PLAYER_KICKED = 'player-kicked',
+	HOST_CHANGED = 'host-changed',
 
 	// Game events
 	GAME_STARTED = 'game-started',
@@ -45,6 +64,15 @@ export enum MultiplayerEvent {
 	LEAVE_ROOM = 'leave-room',
 	START_GAME = 'start-game',
 	SUBMIT_ANSWER = 'submit-answer',
+	KICK_PLAYER = 'kick-player',
+	BAN_PLAYER = 'ban-player',
+	TRANSFER_HOST = 'transfer-host',
+	PAUSE_GAME = 'pause-game',
+	RESUME_GAME = 'resume-game',
+	SKIP_QUESTION = 'skip-question',
+	REMATCH = 'rematch',
+	ASSIGN_TEAM = 'assign-team',
+	BALANCE_TEAMS = 'balance-teams',
 }
 
 export enum QuestionState {
@@ -0,0 +1,4 @@
+export enum QuestionCalibrationRunOutcome {
+	COMPLETED = 'completed',
+	ALREADY_RUNNING = 'already_running',
+}
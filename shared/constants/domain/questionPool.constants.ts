@@ -0,0 +1,24 @@
+import type { QuestionPoolSettings } from '@shared/types';
+
+export const QUESTION_POOL_SETTINGS_KEY = 'question_pool_settings';
+
+export enum QuestionPoolTopicSource {
+	POPULAR = 'popular',
+	PRESET = 'preset',
+}
+
+export enum QuestionPoolRunOutcome {
+	COMPLETED = 'completed',
+	DISABLED = 'disabled',
+	ALREADY_RUNNING = 'already_running',
+	NO_CONFIGURED_PROVIDERS = 'no_configured_providers',
+	PROVIDERS_COOLING_DOWN = 'providers_cooling_down',
+	CALL_BUDGET_REACHED = 'call_budget_reached',
+}
+
+export const QUESTION_POOL_DEFAULT_SETTINGS: QuestionPoolSettings = {
+	enabled: true,
+	minReadyPerCombination: 10,
+	popularTopicLimit: 10,
+	maxGenerationCallsPerRun: 6,
+};
@@ -18,6 +18,7 @@ export const CACHE_KEYS = {
 		GLOBAL: (limit: number, offset: number) => `leaderboard:global:${limit}:${offset}`,
 		PERIOD: (period: string, limit: number) => `leaderboard:${period}:${limit}`,
 		STATS: (period: string) => `leaderboard:stats:${period}`,
+		DAILY_CHALLENGE: (date: string, limit: number) => `leaderboard:daily_challenge:${date}:${limit}`,
 		GLOBAL_PATTERN: 'leaderboard:global',
 		ALL_PATTERN: 'leaderboard:*',
 	},
@@ -28,6 +29,7 @@ export const CACHE_KEYS = {
 		ALL_PATTERN: 'game_history:*',
 	},
 	TRIVIA: {
+		TOPIC_QUESTION_COUNTS: (locale: string) => `trivia:topic_question_counts:${locale}`,
 		ALL_PATTERN: 'trivia:*',
 	},
 	USER_STATS: {
@@ -55,6 +57,20 @@ export const CACHE_KEYS = {
 	GAME: {
 		SESSION: (userId: string, gameId: string) => `active_game_session:${userId}:${gameId}`,
 		SESSION_PATTERN: 'active_game_session:*',
+		ANSWER_CLAIM: (userId: string, gameId: string, questionId: string) =>
+			`game_answer_claim:${userId}:${gameId}:${questionId}`,
+	},
+	QUESTION_POOL: {
+		RUN_LEASE: 'question_pool:run_lease',
+		LAST_RUN: 'question_pool:last_run',
+	},
+	QUESTION_CALIBRATION: {
+		RUN_LEASE: 'question_calibration:run_lease',
+		LAST_RUN: 'question_calibration:last_run',
+	},
+	DAILY_CHALLENGE: {
+		QUESTION_SET: (date: string, locale: string) => `daily_challenge:questions:${date}:${locale}`,
+		ATTEMPT: (date: string, userId: string) => `daily_challenge:attempt:${date}:${userId}`,
 	},
 	AUTH: {
 		USER_LOGOUT_PATTERN_1: (userId: string) => `*:${userId}`,
@@ -63,6 +79,12 @@ export const CACHE_KEYS = {
 	MULTIPLAYER: {
 		ROOM: (roomId: string) => `multiplayer:room:${roomId}`,
 		ROOM_PATTERN: 'multiplayer:room:*',
+		// Sorted set of room ids scored by their question deadline (epoch ms)
+		QUESTION_DEADLINES: 'multiplayer:deadlines',
+		QUESTION_LEASE: (roomId: string) => `multiplayer:lease:${roomId}`,
+		// Sorted set of room ids scored by when their disconnected host loses host rights (epoch ms)
+		HOST_MIGRATION_DEADLINES: 'multiplayer:host_migrations',
+		HOST_MIGRATION_LEASE: (roomId: string) => `multiplayer:host_migration_lease:${roomId}`,
 	},
 	RATE_LIMIT: {
 		WINDOW: (ip: string, path: string) => `ratelimit:${ip}:${path}`,
@@ -70,6 +92,7 @@ export const CACHE_KEYS = {
 	},
 	ADMIN: {
 		STATISTICS: 'admin:statistics',
+		TRIVIA_LIST_PATTERN: 'cache:auto:get:*/admin/trivia*',
 	},
 } as const;
 
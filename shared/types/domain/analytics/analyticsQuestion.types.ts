@@ -0,0 +1,48 @@
+import type { DifficultyLevel, QuestionAnalyticsSort } from '@shared/constants';
+
+// Rates are fractions between 0 and 1; times are in seconds
+export interface QuestionAnswerOptionStats {
+	answerIndex: number;
+	text: string;
+	isCorrect: boolean;
+	pickCount: number;
+	pickRate: number;
+}
+
+export interface QuestionDistractorStats {
+	answerIndex: number;
+	text: string;
+	pickRate: number;
+}
+
+export interface QuestionAnalytics {
+	questionId: string;
+	question: string;
+	topic: string;
+	difficulty: DifficultyLevel;
+	timesServed: number;
+	correctRate: number | null;
+	skipRate: number | null;
+	medianTimeSpent: number | null;
+	reportCount: number;
+	topDistractor: QuestionDistractorStats | null;
+}
+
+export interface QuestionAnalyticsDetail extends QuestionAnalytics {
+	answeredCount: number;
+	openReportCount: number;
+	answerDistribution: QuestionAnswerOptionStats[];
+}
+
+export interface QuestionAnalyticsListQuery {
+	sort?: QuestionAnalyticsSort;
+	limit?: number;
+	offset?: number;
+}
+
+export interface QuestionAnalyticsListResponse {
+	sort: QuestionAnalyticsSort;
+	minServedForRanking: number;
+	questions: QuestionAnalytics[];
+	totalCount: number;
+}
@@ -1,6 +1,7 @@
 export * from './analyticsCommon.types';
 export * from './analyticsEvents.types';
 export * from './analyticsGame.types';
+export * from './analyticsQuestion.types';
 export * from './analyticsSystem.types';
 export * from './analyticsUser.types';
 export * from './metrics.types';
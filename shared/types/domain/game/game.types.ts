@@ -106,6 +106,11 @@ export interface LeaderboardResponse {
 	period: string;
 }
 
+export interface DailyChallengeLeaderboardResponse {
+	date: string;
+	leaderboard: LeaderboardEntry[];
+}
+
 export interface CategoryStatistics {
 	totalQuestionsAnswered: number;
 	correctAnswers: number;
@@ -166,9 +171,11 @@ export interface StartGameSessionParams {
 	difficulty: GameDifficulty;
 	gameMode: GameMode;
 	outputLanguage?: Locale;
+	timeLimit?: number;
 }
 
 export interface GameSessionStartResponse {
 	gameId: string;
 	status: string;
+	sessionToken: string;
 }
@@ -1,5 +1,9 @@
 export * from './difficulty.types';
 export * from './game.types';
 export * from './multiplayer.types';
+export * from './questionCalibration.types';
+export * from './questionPool.types';
 export * from './surprise.types';
+export * from './topicCatalog.types';
+export * from './topicSuggestion.types';
 export * from './trivia.types';
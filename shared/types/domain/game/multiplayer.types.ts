@@ -1,5 +1,14 @@
 // Multiplayer game types for EveryTriv.
-import { DifficultyLevel, Locale, MultiplayerEvent, PlayerStatus, QuestionState, RoomStatus } from '@shared/constants';
+import {
+	AnswerPolicy,
+	DifficultyLevel,
+	Locale,
+	MultiplayerEvent,
+	PlayerStatus,
+	QuestionState,
+	RoomStatus,
+	TeamScoreRule,
+} from '@shared/constants';
 
 import type { CountRecord } from '../../core/data.types';
 import type { BaseTriviaConfig, TriviaQuestion } from './trivia.types';
@@ -21,6 +30,18 @@ export interface Player {
 	timeSpent?: number;
 	answersSubmitted: number;
 	correctAnswers: number;
+	answerHistory?: PlayerAnswerRecord[];
+	// Zero-based team the player belongs to; only set in team rooms
+	teamIndex?: number;
+}
+
+// One entry per question, written when the question ends; answerIndex is -1 when the player did not answer
+export interface PlayerAnswerRecord {
+	questionId: string;
+	answerIndex: number;
+	isCorrect: boolean;
+	timeSpent: number;
+	scoreEarned: number;
 }
 
 export interface CreateRoomConfig extends BaseTriviaConfig {
@@ -31,6 +52,15 @@ export interface CreateRoomConfig extends BaseTriviaConfig {
 	outputLanguage?: Locale;
 
 	isPublicLobby?: boolean;
+
+	// Team play is on when teamCount is set; teamScoreRule defaults to summing member scores
+	teamCount?: number;
+	teamScoreRule?: TeamScoreRule;
+
+	// Seconds per question, defaulting to MULTIPLAYER_TIME_PER_QUESTION; answers stay changeable unless locked
+	timePerQuestion?: number;
+	answerPolicy?: AnswerPolicy;
+	endWhenAllAnswered?: boolean;
 }
 
 export interface RoomConfig extends CreateRoomConfig {
@@ -58,6 +88,13 @@ export interface MultiplayerRoom {
 	updatedAt: Date;
 
 	isPublicLobby: boolean;
+
+	// Watchers who receive game events but never answer, score, or count toward maxPlayers and the host charge
+	spectators?: Player[];
+	// Users the host banned; they cannot rejoin for the rest of the room's lifetime
+	bannedUserIds?: string[];
+	// Set while the host has paused the game; the question clock is frozen at this instant
+	pausedAt?: Date;
 }
 
 export interface PublicLobbyListPlayer {
@@ -77,6 +114,7 @@ export interface PublicWaitingRoomDto {
 	updatedAt: string;
 	config: RoomConfig;
 	players: PublicLobbyListPlayer[];
+	spectatorCount: number;
 }
 
 export interface GameState {
@@ -93,6 +131,14 @@ export interface GameState {
 	serverStartTimestamp?: number;
 	serverEndTimestamp?: number;
 	answerCounts?: CountRecord;
+	teamLeaderboard?: TeamStanding[];
+}
+
+export interface TeamStanding {
+	teamIndex: number;
+	score: number;
+	correctAnswers: number;
+	memberIds: string[];
 }
 
 export interface QuestionResult {
@@ -110,6 +156,16 @@ export type GameEventDataMap = {
 		userId: string;
 		players: Player[];
 	};
+	[MultiplayerEvent.PLAYER_KICKED]: {
+		userId: string;
+		banned: boolean;
+		players: Player[];
+	};
+	[MultiplayerEvent.HOST_CHANGED]: {
+		previousHostId: string;
+		hostId: string;
+		players: Player[];
+	};
 	[MultiplayerEvent.GAME_STARTED]: {
 		questions: TriviaQuestion[];
 		config: RoomConfig;
@@ -141,6 +197,7 @@ export type GameEventDataMap = {
 		finalLeaderboard: Player[];
 		winner: Player | null;
 		gameDuration: number;
+		teamResults?: TeamStanding[];
 	};
 	[MultiplayerEvent.ROOM_UPDATED]: {
 		room: MultiplayerRoom;
@@ -0,0 +1,43 @@
+import type { DifficultyLevel, QuestionCalibrationRunOutcome } from '@shared/constants';
+
+// Empirical difficulty measured from answers in game history; calibratedDifficulty stays null until enough answers exist
+export interface TriviaCalibrationFields {
+	attemptCount: number;
+	successRate: number | null;
+	averageTimeSpent: number | null;
+	calibratedDifficulty: DifficultyLevel | null;
+	calibratedDifficultyScore: number | null;
+	calibratedAt: Date | null;
+}
+
+export interface QuestionCalibrationRunSummary {
+	outcome: QuestionCalibrationRunOutcome;
+	startedAt: string;
+	finishedAt: string;
+	questionsWithAnswers: number;
+	questionsCalibrated: number;
+	miscalibratedCount: number;
+}
+
+// A question whose calibrated level differs from the level it is stored (or was mapped) at
+export interface MiscalibratedTriviaQuestion {
+	id: string;
+	question: string;
+	topic: string;
+	difficulty: DifficultyLevel;
+	calibratedDifficulty: DifficultyLevel;
+	calibratedDifficultyScore: number;
+	attemptCount: number;
+	successRate: number;
+	averageTimeSpent: number | null;
+}
+
+export interface QuestionCalibrationStatus {
+	minAttempts: number;
+	easySuccessRate: number;
+	mediumSuccessRate: number;
+	calibratedCount: number;
+	miscalibratedCount: number;
+	miscalibrated: MiscalibratedTriviaQuestion[];
+	lastRun: QuestionCalibrationRunSummary | null;
+}
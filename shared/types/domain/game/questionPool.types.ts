@@ -0,0 +1,36 @@
+import type { DifficultyLevel, Locale, QuestionPoolRunOutcome, QuestionPoolTopicSource } from '@shared/constants';
+
+export interface QuestionPoolSettings {
+	enabled: boolean;
+	minReadyPerCombination: number;
+	popularTopicLimit: number;
+	maxGenerationCallsPerRun: number;
+}
+
+export interface QuestionPoolCombination {
+	topic: string;
+	difficulty: DifficultyLevel;
+	locale: Locale;
+	source: QuestionPoolTopicSource;
+	readyCount: number;
+	deficit: number;
+}
+
+export interface QuestionPoolRunSummary {
+	outcome: QuestionPoolRunOutcome;
+	startedAt: string;
+	finishedAt: string;
+	combinationsChecked: number;
+	combinationsBelowMinimum: number;
+	generationCalls: number;
+	failedCalls: number;
+	questionsAdded: number;
+}
+
+export interface QuestionPoolStatus {
+	settings: QuestionPoolSettings;
+	isDefault: boolean;
+	combinations: QuestionPoolCombination[];
+	lastRun: QuestionPoolRunSummary | null;
+	timestamp: string;
+}
@@ -0,0 +1,42 @@
+import type { Locale } from '@shared/constants';
+
+export type TopicLocalizedNames = Partial<Record<Locale, string>>;
+
+// Free-text topics resolve to one catalog entry; key is the normalized canonical id and never changes
+export interface CatalogTopic {
+	id: string;
+	key: string;
+	name: string;
+	names: TopicLocalizedNames;
+	aliases: string[];
+	parentCategory: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface AdminCatalogTopic extends CatalogTopic {
+	gameCount: number;
+	questionCount: number;
+}
+
+export interface TopicCatalogResponse {
+	topics: AdminCatalogTopic[];
+}
+
+export interface UpdateCatalogTopicRequest {
+	names?: TopicLocalizedNames;
+	aliases?: string[];
+	parentCategory?: string | null;
+}
+
+export interface MergeCatalogTopicsRequest {
+	sourceId: string;
+	targetId: string;
+}
+
+export interface MergeCatalogTopicsResponse {
+	targetId: string;
+	movedGameCount: number;
+	movedQuestionCount: number;
+	mergedUserStatsCount: number;
+}
@@ -0,0 +1,16 @@
+import type { Locale, TopicSuggestionSource } from '@shared/constants';
+
+export interface TopicSuggestion {
+	topic: string;
+	sources: TopicSuggestionSource[];
+	// Active questions already stored for the topic in the requested locale
+	questionCount: number;
+	playedCount: number;
+	globalGameCount: number;
+}
+
+export interface TopicSuggestionsResponse {
+	query: string;
+	locale: Locale;
+	suggestions: TopicSuggestion[];
+}
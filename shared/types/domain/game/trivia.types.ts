@@ -1,8 +1,21 @@
 // Trivia-related types for EveryTriv.
-import { CUSTOM_DIFFICULTY_PREFIX, DifficultyLevel, type Locale } from '@shared/constants';
+import {
+	CUSTOM_DIFFICULTY_PREFIX,
+	DifficultyLevel,
+	type GameMode,
+	type Locale,
+	type TriviaBulkAction,
+	type TriviaFactCheckVerdict,
+	type TriviaImportRowStatus,
+	type TriviaModerationAction,
+	type TriviaPackFormat,
+	type TriviaQuestionSource,
+	type TriviaReportReason,
+} from '@shared/constants';
 
 import type { BaseEntity } from '../../core/data.types';
 import type { BaseValidationResult } from '../validation.types';
+import type { TriviaCalibrationFields } from './questionCalibration.types';
 
 export type CustomDifficultyString = `${typeof CUSTOM_DIFFICULTY_PREFIX}${string}`;
 
@@ -18,6 +31,8 @@ export interface TriviaQuestionDetailsMetadata {
 	language?: string;
 	explanation?: string;
 	mappedDifficulty?: DifficultyLevel;
+	factCheckVerdict?: TriviaFactCheckVerdict;
+	needsReview?: boolean;
 }
 
 export interface TriviaAnswer {
@@ -51,18 +66,203 @@ export interface TriviaQuestionInput extends TriviaQuestionCore {
 
 export interface TriviaQuestion extends TriviaQuestionInput, BaseEntity {}
 
+// Question shape sent to single-player session clients: correctness, explanations and review state stay on the server
+export type SessionTriviaAnswer = Omit<TriviaAnswer, 'isCorrect' | 'explanation'>;
+
+export interface SessionTriviaQuestion extends Omit<TriviaQuestion, 'answers' | 'correctAnswerIndex' | 'metadata'> {
+	answers: SessionTriviaAnswer[];
+	metadata?: Omit<TriviaQuestionDetailsMetadata, 'explanation' | 'factCheckVerdict' | 'needsReview'>;
+}
+
 export interface AdminTriviaFields {
 	userId: string | null;
 	isCorrect: boolean | null;
+	retiredAt: Date | null;
+	importBatchId: string | null;
 }
 
-export type AdminTriviaQuestion = TriviaQuestion & AdminTriviaFields;
+export type AdminTriviaQuestion = TriviaQuestion & AdminTriviaFields & TriviaCalibrationFields;
 
 export interface TriviaQuestionsResponse {
 	questions: AdminTriviaQuestion[];
 	totalCount: number;
 }
 
+// Questions on the same topic whose text is a near-duplicate of at least one other member
+export interface TriviaDuplicateCluster {
+	topic: string;
+	maxSimilarity: number;
+	questions: AdminTriviaQuestion[];
+}
+
+export interface TriviaDuplicateClustersResponse {
+	clusters: TriviaDuplicateCluster[];
+	threshold: number;
+}
+
+export interface MergeTriviaDuplicatesRequest {
+	keepId: string;
+	mergeIds: string[];
+}
+
+export interface MergeTriviaDuplicatesResponse {
+	keptId: string;
+	removedCount: number;
+}
+
+export interface ReportTriviaQuestionRequest {
+	reason: TriviaReportReason;
+	note?: string;
+}
+
+export interface ReportTriviaQuestionResponse {
+	questionId: string;
+	reported: boolean;
+}
+
+export interface TriviaReportNote {
+	reason: TriviaReportReason;
+	note: string;
+	createdAt: Date;
+}
+
+// A question with open player reports, as shown in the admin moderation queue
+export interface TriviaModerationQueueItem {
+	question: AdminTriviaQuestion;
+	openReportCount: number;
+	reasonCounts: Partial<Record<TriviaReportReason, number>>;
+	notes: TriviaReportNote[];
+	lastReportedAt: Date;
+	// At or past the threshold the question is no longer served to players
+	isHidden: boolean;
+}
+
+export interface TriviaModerationQueueResponse {
+	items: TriviaModerationQueueItem[];
+	hideThreshold: number;
+}
+
+export interface ResolveTriviaReportsRequest {
+	action: TriviaModerationAction;
+	question?: string;
+	answers?: string[];
+	correctAnswerIndex?: number;
+}
+
+export interface ResolveTriviaReportsResponse {
+	questionId: string;
+	action: TriviaModerationAction;
+	resolvedCount: number;
+}
+
+// Admin-authored question content; locale and explanation are stored in the question metadata
+export interface TriviaQuestionDraft {
+	question: string;
+	answers: string[];
+	correctAnswerIndex: number;
+	topic: string;
+	difficulty: DifficultyLevel;
+	locale: Locale;
+	explanation?: string;
+}
+
+export type UpdateTriviaQuestionRequest = Partial<TriviaQuestionDraft>;
+
+export interface DeleteTriviaQuestionResponse {
+	id: string;
+	deleted: boolean;
+}
+
+export interface BulkTriviaActionRequest {
+	action: TriviaBulkAction;
+	ids: string[];
+}
+
+export interface BulkTriviaActionResponse {
+	action: TriviaBulkAction;
+	affectedCount: number;
+}
+
+// Documented JSON pack layout (TriviaPackFormat.JSON); CSV packs carry the same fields with answer1..answerN columns
+export interface TriviaPackFile {
+	version: number;
+	questions: TriviaQuestionDraft[];
+}
+
+// Open Trivia DB API response layout; text fields are HTML-entity encoded
+export interface OpenTriviaDbQuestion {
+	category: string;
+	type: string;
+	difficulty: string;
+	question: string;
+	correct_answer: string;
+	incorrect_answers: string[];
+}
+
+export interface OpenTriviaDbPack {
+	response_code?: number;
+	results: OpenTriviaDbQuestion[];
+}
+
+export interface ImportTriviaPackRequest {
+	format: TriviaPackFormat;
+	content: string;
+	dryRun: boolean;
+	// Used for rows that do not state their own language (always the case for Open Trivia DB packs)
+	locale?: Locale;
+	label?: string;
+}
+
+export interface TriviaImportRowReport {
+	row: number;
+	status: TriviaImportRowStatus;
+	question: string;
+	errors: string[];
+	duplicateOfId?: string;
+}
+
+export interface TriviaImportBatch {
+	id: string;
+	label: string;
+	format: TriviaPackFormat;
+	questionCount: number;
+	createdAt: Date;
+}
+
+export interface TriviaImportReport {
+	format: TriviaPackFormat;
+	dryRun: boolean;
+	totalRows: number;
+	validCount: number;
+	invalidCount: number;
+	duplicateCount: number;
+	importedCount: number;
+	batch: TriviaImportBatch | null;
+	rows: TriviaImportRowReport[];
+}
+
+export interface ExportTriviaPackResponse {
+	format: TriviaPackFormat;
+	fileName: string;
+	content: string;
+	questionCount: number;
+}
+
+export interface TriviaPackSchemaResponse {
+	version: number;
+	jsonSchema: Record<string, unknown>;
+	csvColumns: string[];
+}
+
+export interface TriviaImportBatchesResponse {
+	batches: TriviaImportBatch[];
+}
+
+export interface RollbackTriviaImportBatchResponse {
+	batchId: string;
+	removedCount: number;
+}
+
 export interface BaseAnswerData {
 	questionId: string;
 	userAnswerIndex: number;
@@ -74,6 +274,7 @@ export interface TriviaRequest extends BaseTriviaConfig {
 	answerCount: number;
 	outputLanguage: Locale;
 	gameId?: string;
+	gameMode?: GameMode;
 }
 
 export interface TriviaInputValidationResult {
@@ -90,11 +291,38 @@ export interface TriviaResponse {
 	fromCache: boolean;
 }
 
+export interface SessionTriviaResponse {
+	questions: SessionTriviaQuestion[];
+	fromCache: boolean;
+}
+
+export interface TriviaStreamQuestionEvent {
+	question: SessionTriviaQuestion;
+	source: TriviaQuestionSource;
+	index: number;
+}
+
+export interface TriviaStreamProgressEvent {
+	delivered: number;
+	requested: number;
+	generating: boolean;
+}
+
+export interface TriviaStreamErrorEvent {
+	message: string;
+	statusCode: number;
+}
+
+export interface TriviaStreamDoneEvent {
+	delivered: number;
+}
+
 export interface SubmitAnswerResult extends BaseAnswerData {
 	timeSpent: number;
 	scoreEarned: number;
 	totalScore: number;
 	sessionScore: number;
+	correctAnswerIndex: number;
 	explanation?: string;
 	feedback: string;
 }
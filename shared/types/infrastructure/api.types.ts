@@ -52,6 +52,8 @@ export interface AnswerHistoryBase {
 	correctAnswerText?: string;
 
 	userAnswerText?: string;
+
+	scoreEarned?: number;
 }
 
 export interface AnswerHistoryComplete extends AnswerHistoryBase {
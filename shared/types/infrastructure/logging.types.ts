@@ -267,7 +267,9 @@ export interface LogMeta {
 	averageGames?: number;
 	averageScore?: number;
 	avgResponseTime?: number;
+	banned?: boolean;
 	baseUrl?: string;
+	batchId?: string;
 	batchSize?: number;
 	bestScore?: number;
 	bestStreak?: number;
@@ -305,6 +307,7 @@ export interface LogMeta {
 	currentState?: string;
 	customText?: string;
 	dataKeys?: string[];
+	date?: string;
 	difficultyBreakdown?: Record<string, unknown>;
 	difficultyDistribution?: Record<string, number>;
 	db?: number;
@@ -356,6 +359,7 @@ export interface LogMeta {
 	field?: keyof User | 'isActive';
 	fields?: string[];
 	forceFullUpdate?: boolean;
+	format?: string;
 	gameData?: GameData;
 	gameId?: string;
 	gameRecord?: Record<string, unknown>;
@@ -521,6 +525,8 @@ export interface LogMeta {
 	reduxGameId?: string;
 	severity?: string;
 	shouldEndGame?: boolean;
+	sort?: string;
+	spectatorCount?: number;
 	src?: string | null;
 	stack?: string;
 	startTime?: number;
@@ -535,6 +541,9 @@ export interface LogMeta {
 	suggestionsCount?: number;
 	sectionsCount?: number;
 	tags?: string[];
+	targetUserId?: string;
+	teamCount?: number;
+	teamIndex?: number;
 	textLength?: number;
 	threshold?: number;
 	timeout?: number;
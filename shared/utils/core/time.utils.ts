@@ -23,6 +23,16 @@ export function parseOptionalJsonDate(value: unknown): Date | undefined {
 	return undefined;
 }
 
+export function getUtcDateKey(date: Date = new Date()): string {
+	return date.toISOString().slice(0, 10);
+}
+
+export function getUtcDayBounds(dateKey: string): { start: Date; end: Date } {
+	const start = new Date(`${dateKey}T00:00:00.000Z`);
+	const end = new Date(start.getTime() + TIME_PERIODS_MS.DAY);
+	return { start, end };
+}
+
 export function calculateClockOffset(serverTimestamp: number): number {
 	const clientTime = Date.now();
 	return clientTime - serverTimestamp;
@@ -5,6 +5,11 @@ export function namesMatch(a: string, b: string): boolean {
 	return a.toLowerCase() === b.toLowerCase();
 }
 
+// Catalog key form of a free-text topic: case and spacing differences resolve to the same topic
+export function normalizeTopicKey(topic: string): string {
+	return topic.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
 export function normalizeGameData(gameData: Partial<GameData>, defaults: Partial<GameData> = {}): GameData {
 	const userId = gameData.userId ?? defaults.userId;
 	if (!userId) {
@@ -13,6 +13,7 @@ export function normalizeGameMode(gameMode: string | undefined): GameMode | unde
 		if (gameMode === GameMode.TIME_LIMITED) return GameMode.TIME_LIMITED;
 		if (gameMode === GameMode.UNLIMITED) return GameMode.UNLIMITED;
 		if (gameMode === GameMode.MULTIPLAYER) return GameMode.MULTIPLAYER;
+		if (gameMode === GameMode.DAILY_CHALLENGE) return GameMode.DAILY_CHALLENGE;
 	}
 	return undefined;
 }
@@ -4,6 +4,8 @@ export * from './payment.utils';
 export * from './game.utils';
 export * from './gameMode.utils';
 export * from './question.utils';
+export * from './room.utils';
 export * from './score.utils';
+export * from './team.utils';
 export * from './user.utils';
 export * from './multiplayerGuards';
@@ -5,15 +5,34 @@ import type {
 	GameState,
 	MultiplayerRoom,
 	Player,
+	PlayerAnswerRecord,
 	PublicLobbyListPlayer,
 	PublicWaitingRoomDto,
 	RoomConfig,
 	RoomStateResponse,
+	TeamStanding,
 } from '@shared/types';
-import { isGameDifficulty, isRegisteredDifficulty, VALIDATORS } from '@shared/validation';
+import {
+	isAnswerPolicy,
+	isGameDifficulty,
+	isRegisteredDifficulty,
+	isTeamScoreRule,
+	VALIDATORS,
+} from '@shared/validation';
 
 import { hasProperty, hasPropertyOfType, isRecord } from '../core';
 
+function isPlayerAnswerRecord(value: unknown): value is PlayerAnswerRecord {
+	return (
+		isRecord(value) &&
+		VALIDATORS.string(value.questionId) &&
+		VALIDATORS.number(value.answerIndex) &&
+		VALIDATORS.boolean(value.isCorrect) &&
+		VALIDATORS.number(value.timeSpent) &&
+		VALIDATORS.number(value.scoreEarned)
+	);
+}
+
 export function isPlayer(value: unknown): value is Player {
 	if (!isRecord(value)) {
 		return false;
@@ -29,10 +48,28 @@ export function isPlayer(value: unknown): value is Player {
 		VALIDATORS.number(value.answersSubmitted) &&
 		VALIDATORS.number(value.correctAnswers) &&
 		(value.currentAnswer === undefined || VALIDATORS.number(value.currentAnswer)) &&
-		(value.timeSpent === undefined || VALIDATORS.number(value.timeSpent))
+		(value.timeSpent === undefined || VALIDATORS.number(value.timeSpent)) &&
+		(value.answerHistory === undefined ||
+			(Array.isArray(value.answerHistory) && value.answerHistory.every(isPlayerAnswerRecord))) &&
+		(value.teamIndex === undefined || VALIDATORS.number(value.teamIndex))
+	);
+}
+
+export function isTeamStanding(value: unknown): value is TeamStanding {
+	return (
+		isRecord(value) &&
+		VALIDATORS.number(value.teamIndex) &&
+		VALIDATORS.number(value.score) &&
+		VALIDATORS.number(value.correctAnswers) &&
+		Array.isArray(value.memberIds) &&
+		value.memberIds.every(VALIDATORS.string)
 	);
 }
 
+function isTeamStandingList(value: unknown): value is TeamStanding[] {
+	return Array.isArray(value) && value.every(isTeamStanding);
+}
+
 export function isRoomConfig(value: unknown): value is RoomConfig {
 	if (!isRecord(value)) {
 		return false;
@@ -43,7 +80,14 @@ export function isRoomConfig(value: unknown): value is RoomConfig {
 		VALIDATORS.string(value.difficulty) &&
 		isGameDifficulty(value.difficulty) &&
 		VALIDATORS.number(value.questionsPerRequest) &&
-		VALIDATORS.number(value.maxPlayers)
+		VALIDATORS.number(value.maxPlayers) &&
+		(value.teamCount === undefined || VALIDATORS.number(value.teamCount)) &&
+		(value.teamScoreRule === undefined ||
+			(VALIDATORS.string(value.teamScoreRule) && isTeamScoreRule(value.teamScoreRule))) &&
+		(value.timePerQuestion === undefined || VALIDATORS.number(value.timePerQuestion)) &&
+		(value.answerPolicy === undefined ||
+			(VALIDATORS.string(value.answerPolicy) && isAnswerPolicy(value.answerPolicy))) &&
+		(value.endWhenAllAnswered === undefined || VALIDATORS.boolean(value.endWhenAllAnswered))
 	);
 }
 
@@ -109,6 +153,21 @@ export function isMultiplayerRoom(value: unknown): value is MultiplayerRoom {
 		return false;
 	}
 
+	if (
+		value.bannedUserIds !== undefined &&
+		!(Array.isArray(value.bannedUserIds) && value.bannedUserIds.every(VALIDATORS.string))
+	) {
+		return false;
+	}
+
+	if (value.pausedAt !== undefined && !VALIDATORS.date(value.pausedAt)) {
+		return false;
+	}
+
+	if (value.spectators !== undefined && !(Array.isArray(value.spectators) && value.spectators.every(isPlayer))) {
+		return false;
+	}
+
 	return true;
 }
 
@@ -168,6 +227,9 @@ export function isPublicWaitingRoomDto(value: unknown): value is PublicWaitingRo
 	if (!Array.isArray(value.players) || !value.players.every(isPublicLobbyListPlayer)) {
 		return false;
 	}
+	if (!VALIDATORS.number(value.spectatorCount)) {
+		return false;
+	}
 	return true;
 }
 
@@ -209,7 +271,8 @@ export function isGameState(value: unknown): value is GameState {
 		value.leaderboard.every(isPlayer) &&
 		(value.currentQuestion === null || isRecord(value.currentQuestion)) &&
 		(value.startedAt === undefined || VALIDATORS.date(value.startedAt)) &&
-		hasValidAnswerCounts
+		hasValidAnswerCounts &&
+		(value.teamLeaderboard === undefined || isTeamStandingList(value.teamLeaderboard))
 	);
 }
 
@@ -245,6 +308,40 @@ export function isPlayerLeftEvent(value: unknown): value is GameEvent<Multiplaye
 	);
 }
 
+export function isPlayerKickedEvent(value: unknown): value is GameEvent<MultiplayerEvent.PLAYER_KICKED> {
+	if (!isRecord(value)) {
+		return false;
+	}
+	return (
+		VALIDATORS.string(value.type) &&
+		value.type === MultiplayerEvent.PLAYER_KICKED &&
+		VALIDATORS.string(value.roomId) &&
+		VALIDATORS.date(value.timestamp) &&
+		hasProperty(value, 'data') &&
+		isRecord(value.data) &&
+		hasPropertyOfType(value.data, 'players', (val): val is Player[] => Array.isArray(val) && val.every(isPlayer)) &&
+		VALIDATORS.string(value.data.userId) &&
+		VALIDATORS.boolean(value.data.banned)
+	);
+}
+
+export function isHostChangedEvent(value: unknown): value is GameEvent<MultiplayerEvent.HOST_CHANGED> {
+	if (!isRecord(value)) {
+		return false;
+	}
+	return (
+		VALIDATORS.string(value.type) &&
+		value.type === MultiplayerEvent.HOST_CHANGED &&
+		VALIDATORS.string(value.roomId) &&
+		VALIDATORS.date(value.timestamp) &&
+		hasProperty(value, 'data') &&
+		isRecord(value.data) &&
+		hasPropertyOfType(value.data, 'players', (val): val is Player[] => Array.isArray(val) && val.every(isPlayer)) &&
+		VALIDATORS.string(value.data.previousHostId) &&
+		VALIDATORS.string(value.data.hostId)
+	);
+}
+
 export function isGameStartedEvent(value: unknown): value is GameEvent<MultiplayerEvent.GAME_STARTED> {
 	if (!isRecord(value)) {
 		return false;
@@ -344,7 +441,8 @@ export function isGameEndedEvent(value: unknown): value is GameEvent<Multiplayer
 			(val): val is Player[] => Array.isArray(val) && val.every(isPlayer)
 		) &&
 		VALIDATORS.number(value.data.gameDuration) &&
-		(value.data.winner === null || isPlayer(value.data.winner))
+		(value.data.winner === null || isPlayer(value.data.winner)) &&
+		(value.data.teamResults === undefined || isTeamStandingList(value.data.teamResults))
 	);
 }
 
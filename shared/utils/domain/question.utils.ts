@@ -1,4 +1,4 @@
-import type { AnswerHistoryComplete, TriviaQuestion } from '../../types';
+import type { AnswerHistoryComplete, SessionTriviaQuestion, TriviaQuestion } from '../../types';
 import { getCorrectAnswerIndex } from './answer.utils';
 
 export function createAnswerHistory(
@@ -16,3 +16,25 @@ export function createAnswerHistory(
 		timeSpent,
 	};
 }
+
+export function toSessionTriviaQuestion(question: TriviaQuestion): SessionTriviaQuestion {
+	const { correctAnswerIndex: _correctAnswerIndex, answers, metadata, ...rest } = question;
+	const sessionQuestion: SessionTriviaQuestion = {
+		...rest,
+		answers: answers.map(({ isCorrect: _isCorrect, explanation: _explanation, ...answer }) => answer),
+	};
+	if (metadata) {
+		const {
+			explanation: _metadataExplanation,
+			factCheckVerdict: _factCheckVerdict,
+			needsReview: _needsReview,
+			...sessionMetadata
+		} = metadata;
+		sessionQuestion.metadata = sessionMetadata;
+	}
+	return sessionQuestion;
+}
+
+export function getQuestionExplanation(question: TriviaQuestion): string | undefined {
+	return question.metadata?.explanation ?? question.answers.find(answer => answer.isCorrect)?.explanation;
+}
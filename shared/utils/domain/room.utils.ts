@@ -0,0 +1,12 @@
+import { MULTIPLAYER_TIME_PER_QUESTION, PlayerStatus } from '@shared/constants';
+import type { CreateRoomConfig, Player } from '@shared/types';
+
+export function getRoomTimePerQuestion(config: Pick<CreateRoomConfig, 'timePerQuestion'> | undefined): number {
+	return config?.timePerQuestion ?? MULTIPLAYER_TIME_PER_QUESTION;
+}
+
+// Disconnected players are not waited for; a question with nobody left to answer never counts as complete
+export function haveAllPlayersAnswered(players: Player[]): boolean {
+	const activePlayers = players.filter(player => player.status !== PlayerStatus.DISCONNECTED);
+	return activePlayers.length > 0 && activePlayers.every(player => player.currentAnswer !== undefined);
+}
@@ -0,0 +1,51 @@
+import { TeamScoreRule, VALIDATION_COUNT } from '@shared/constants';
+import type { CreateRoomConfig, Player, TeamStanding } from '@shared/types';
+
+export function isTeamMode(config: Pick<CreateRoomConfig, 'teamCount'> | undefined): boolean {
+	return (config?.teamCount ?? 0) >= VALIDATION_COUNT.TEAMS.MIN;
+}
+
+// Index of the team with the fewest members; ties go to the lowest index
+export function getSmallestTeamIndex(players: Player[], teamCount: number): number {
+	const sizes = Array.from({ length: teamCount }, (_, teamIndex) =>
+		players.reduce((count, player) => (player.teamIndex === teamIndex ? count + 1 : count), 0)
+	);
+	return sizes.indexOf(Math.min(...sizes));
+}
+
+/**
+ * Aggregates member scores per team using the room's score rule, best team first.
+ * Teams without members are included so every team shows up on the board.
+ */
+export function calculateTeamStandings(
+	players: Player[],
+	config: Pick<CreateRoomConfig, 'teamCount' | 'teamScoreRule'>
+): TeamStanding[] {
+	if (!isTeamMode(config)) {
+		return [];
+	}
+
+	const rule = config.teamScoreRule ?? TeamScoreRule.SUM;
+	const standings = Array.from({ length: config.teamCount ?? 0 }, (_, teamIndex): TeamStanding => {
+		const members = players.filter(player => player.teamIndex === teamIndex);
+		const scores = members.map(member => member.score);
+		const total = scores.reduce((sum, score) => sum + score, 0);
+		const score =
+			scores.length === 0
+				? 0
+				: rule === TeamScoreRule.BEST
+					? Math.max(...scores)
+					: rule === TeamScoreRule.AVERAGE
+						? Math.round(total / scores.length)
+						: total;
+
+		return {
+			teamIndex,
+			score,
+			correctAnswers: members.reduce((sum, member) => sum + member.correctAnswers, 0),
+			memberIds: members.map(member => member.userId),
+		};
+	});
+
+	return standings.sort((a, b) => b.score - a.score || b.correctAnswers - a.correctAnswers);
+}
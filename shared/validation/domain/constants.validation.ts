@@ -1,4 +1,6 @@
 import {
+	ANSWER_POLICIES,
+	AnswerPolicy,
 	GAME_MODES,
 	GameMode,
 	LEADERBOARD_PERIODS,
@@ -6,6 +8,14 @@ import {
 	Locale,
 	PAYMENT_METHODS,
 	PaymentMethod,
+	QUESTION_ANALYTICS_SORTS,
+	QuestionAnalyticsSort,
+	TEAM_SCORE_RULES,
+	TeamScoreRule,
+	TRIVIA_PACK_FORMATS,
+	TRIVIA_REPORT_REASONS,
+	TriviaPackFormat,
+	TriviaReportReason,
 } from '@shared/constants';
 
 import { VALIDATORS } from '../core/validators';
@@ -18,6 +28,26 @@ export function isLeaderboardPeriod(value: string): value is LeaderboardPeriod {
 	return LEADERBOARD_PERIODS.has(value);
 }
 
+export function isTriviaReportReason(value: string): value is TriviaReportReason {
+	return TRIVIA_REPORT_REASONS.has(value);
+}
+
+export function isTriviaPackFormat(value: string): value is TriviaPackFormat {
+	return TRIVIA_PACK_FORMATS.has(value);
+}
+
+export function isAnswerPolicy(value: string): value is AnswerPolicy {
+	return ANSWER_POLICIES.has(value);
+}
+
+export function isTeamScoreRule(value: string): value is TeamScoreRule {
+	return TEAM_SCORE_RULES.has(value);
+}
+
+export function isQuestionAnalyticsSort(value: string): value is QuestionAnalyticsSort {
+	return QUESTION_ANALYTICS_SORTS.has(value);
+}
+
 export function isLocale(value: unknown): value is Locale {
 	return value === Locale.EN || value === Locale.HE;
 }
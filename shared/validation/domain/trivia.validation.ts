@@ -1,7 +1,15 @@
-import { DIFFICULTIES, DifficultyLevel, ERROR_MESSAGES, LengthKey } from '@shared/constants';
-import type { GameDifficulty, TriviaInputValidationResult, ValidationResult } from '@shared/types';
+import {
+	DIFFICULTIES,
+	DifficultyLevel,
+	ERROR_MESSAGES,
+	LengthKey,
+	VALIDATION_COUNT,
+	VALIDATION_LENGTH,
+} from '@shared/constants';
+import type { GameDifficulty, TriviaInputValidationResult, TriviaQuestionDraft, ValidationResult } from '@shared/types';
 
 import { validateNoForbiddenWords, validateStringLength } from '../core/content.validation';
+import { isLocale } from './constants.validation';
 import {
 	extractCustomDifficultyText,
 	isCustomDifficulty,
@@ -83,3 +91,59 @@ export function validateTriviaRequest(topic: string, difficulty: GameDifficulty)
 		errors,
 	};
 }
+
+export function validateTriviaQuestionDraft(draft: TriviaQuestionDraft): ValidationResult {
+	const errors: string[] = [];
+
+	const questionLength = draft.question.trim().length;
+	if (questionLength < VALIDATION_LENGTH.QUESTION.MIN) {
+		errors.push(ERROR_MESSAGES.validation.LENGTH_TOO_SHORT('Question', VALIDATION_LENGTH.QUESTION.MIN));
+	} else if (questionLength > VALIDATION_LENGTH.QUESTION.MAX) {
+		errors.push(ERROR_MESSAGES.validation.LENGTH_TOO_LONG('Question', VALIDATION_LENGTH.QUESTION.MAX));
+	}
+
+	const { MIN, MAX } = VALIDATION_COUNT.ANSWER_COUNT;
+	if (draft.answers.length < MIN || draft.answers.length > MAX) {
+		errors.push(ERROR_MESSAGES.validation.ANSWER_COUNT_RANGE(MIN, MAX));
+	}
+	const answerTexts = draft.answers.map(answer => answer.trim());
+	if (answerTexts.some(text => text.length === 0)) {
+		errors.push(ERROR_MESSAGES.validation.FIELD_REQUIRED('Answer'));
+	}
+	if (answerTexts.some(text => text.length > VALIDATION_LENGTH.ANSWER.MAX)) {
+		errors.push(ERROR_MESSAGES.validation.LENGTH_TOO_LONG('Answer', VALIDATION_LENGTH.ANSWER.MAX));
+	}
+	if (new Set(answerTexts.map(text => text.toLowerCase())).size !== answerTexts.length) {
+		errors.push(ERROR_MESSAGES.validation.DUPLICATE_ANSWERS);
+	}
+	if (
+		!Number.isInteger(draft.correctAnswerIndex) ||
+		draft.correctAnswerIndex < 0 ||
+		draft.correctAnswerIndex >= draft.answers.length
+	) {
+		errors.push(ERROR_MESSAGES.validation.CORRECT_ANSWER_INDEX_RANGE(draft.answers.length));
+	}
+
+	const topicValidation = validateStringLength(draft.topic, LengthKey.TOPIC);
+	if (!topicValidation.isValid) {
+		errors.push(...topicValidation.errors);
+	}
+
+	// Admin questions use the stored difficulty levels; custom difficulty only exists for generated games
+	if (!isRegisteredDifficulty(draft.difficulty) || draft.difficulty === DifficultyLevel.CUSTOM) {
+		errors.push(ERROR_MESSAGES.validation.INVALID_DIFFICULTY_LEVEL(draft.difficulty));
+	}
+
+	if (!isLocale(draft.locale)) {
+		errors.push(ERROR_MESSAGES.validation.VALID_FIELD('locale'));
+	}
+
+	if (draft.explanation != null && draft.explanation.trim().length > VALIDATION_LENGTH.EXPLANATION.MAX) {
+		errors.push(ERROR_MESSAGES.validation.LENGTH_TOO_LONG('Explanation', VALIDATION_LENGTH.EXPLANATION.MAX));
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors,
+	};
+}